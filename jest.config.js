@@ -0,0 +1,15 @@
+// jest.config.js
+// Unit tests live next to the code they cover (src/**/*.test.ts). ts-jest only transpiles -
+// type errors are left to `tsc --noEmit`.
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: { module: 'commonjs', jsx: 'react-jsx', esModuleInterop: true }, diagnostics: false }]
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+};
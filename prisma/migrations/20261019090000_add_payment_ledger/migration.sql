@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'CARD', 'E_TRANSFER', 'CHECK', 'OTHER');
+
+-- AlterEnum
+ALTER TYPE "BillingDocumentStatus" ADD VALUE 'PARTIAL_PAYMENT';
+
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'PAYMENT_RECEIVED';
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "billingDocumentId" TEXT,
+    "billingRecordId" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'CAD',
+    "method" "PaymentMethod" NOT NULL,
+    "paidAt" TIMESTAMP(3) NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "receiptId" TEXT,
+    "receiptNumber" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Payment_clientId_idx" ON "Payment"("clientId");
+
+-- CreateIndex
+CREATE INDEX "Payment_billingDocumentId_idx" ON "Payment"("billingDocumentId");
+
+-- CreateIndex
+CREATE INDEX "Payment_billingRecordId_idx" ON "Payment"("billingRecordId");
+
+-- CreateIndex
+CREATE INDEX "Payment_paidAt_idx" ON "Payment"("paidAt");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "ClientRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_billingDocumentId_fkey" FOREIGN KEY ("billingDocumentId") REFERENCES "BillingDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_billingRecordId_fkey" FOREIGN KEY ("billingRecordId") REFERENCES "BillingRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "BillingRecord" ADD COLUMN "scheduleKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BillingRecord_scheduleKey_key" ON "BillingRecord"("scheduleKey");
@@ -0,0 +1,50 @@
+-- AlterEnum
+ALTER TYPE "BillingDocumentStatus" ADD VALUE 'OVERDUE';
+
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'INVOICE_OVERDUE';
+ALTER TYPE "ActivityType" ADD VALUE 'PAYMENT_REMINDER_SENT';
+
+-- AlterTable
+ALTER TABLE "BillingDocument" ADD COLUMN "dueDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PaymentReminder" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "billingDocumentId" TEXT,
+    "billingRecordId" TEXT,
+    "stage" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL DEFAULT 'email',
+    "recipient" TEXT,
+    "messageId" TEXT,
+    "amountDue" DOUBLE PRECISION NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BillingDocument_dueDate_idx" ON "BillingDocument"("dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentReminder_billingDocumentId_stage_key" ON "PaymentReminder"("billingDocumentId", "stage");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentReminder_billingRecordId_stage_key" ON "PaymentReminder"("billingRecordId", "stage");
+
+-- CreateIndex
+CREATE INDEX "PaymentReminder_clientId_idx" ON "PaymentReminder"("clientId");
+
+-- CreateIndex
+CREATE INDEX "PaymentReminder_sentAt_idx" ON "PaymentReminder"("sentAt");
+
+-- AddForeignKey
+ALTER TABLE "PaymentReminder" ADD CONSTRAINT "PaymentReminder_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "ClientRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentReminder" ADD CONSTRAINT "PaymentReminder_billingDocumentId_fkey" FOREIGN KEY ("billingDocumentId") REFERENCES "BillingDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentReminder" ADD CONSTRAINT "PaymentReminder_billingRecordId_fkey" FOREIGN KEY ("billingRecordId") REFERENCES "BillingRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "BillingDocumentType" ADD VALUE 'CREDIT_NOTE';
+
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'CREDIT_NOTE_ISSUED';
+
+-- AlterTable
+ALTER TABLE "BillingDocument" ADD COLUMN "originalDocumentId" TEXT,
+ADD COLUMN "originalDocumentNumber" TEXT;
+
+-- CreateIndex
+CREATE INDEX "BillingDocument_originalDocumentId_idx" ON "BillingDocument"("originalDocumentId");
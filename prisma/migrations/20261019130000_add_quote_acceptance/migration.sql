@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'QUOTE_ACCEPTED';
+ALTER TYPE "ActivityType" ADD VALUE 'QUOTE_DECLINED';
+
+-- AlterTable
+ALTER TABLE "BillingDocument" ADD COLUMN "publicToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BillingDocument_publicToken_key" ON "BillingDocument"("publicToken");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "DocumentNumberSequence" (
+    "id" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL DEFAULT '',
+    "documentType" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentNumberSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentNumberSequence_prefix_documentType_year_key" ON "DocumentNumberSequence"("prefix", "documentType", "year");
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "ExpenseCategory" AS ENUM ('MATERIALS', 'SALT', 'FUEL', 'EQUIPMENT', 'SUBCONTRACTOR', 'LABOUR', 'DISPOSAL', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "Expense" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT,
+    "serviceRecordId" TEXT,
+    "contractId" TEXT,
+    "serviceLineId" TEXT,
+    "category" "ExpenseCategory" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'CAD',
+    "quantity" DOUBLE PRECISION,
+    "unit" TEXT,
+    "vendor" TEXT,
+    "description" TEXT,
+    "incurredAt" TIMESTAMP(3) NOT NULL,
+    "receiptImage" TEXT,
+    "receiptFileName" TEXT,
+    "receiptMimeType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Expense_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Expense_clientId_idx" ON "Expense"("clientId");
+
+-- CreateIndex
+CREATE INDEX "Expense_serviceRecordId_idx" ON "Expense"("serviceRecordId");
+
+-- CreateIndex
+CREATE INDEX "Expense_contractId_idx" ON "Expense"("contractId");
+
+-- CreateIndex
+CREATE INDEX "Expense_serviceLineId_idx" ON "Expense"("serviceLineId");
+
+-- CreateIndex
+CREATE INDEX "Expense_category_idx" ON "Expense"("category");
+
+-- CreateIndex
+CREATE INDEX "Expense_incurredAt_idx" ON "Expense"("incurredAt");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "ClientRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_serviceRecordId_fkey" FOREIGN KEY ("serviceRecordId") REFERENCES "ServiceRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "ClientServiceContract"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_serviceLineId_fkey" FOREIGN KEY ("serviceLineId") REFERENCES "ServiceLine"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EventSync" ADD COLUMN "baseSnapshot" JSONB;
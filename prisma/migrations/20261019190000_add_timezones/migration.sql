@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "timezone" TEXT;
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "timezone" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CalendarIntegration" ADD COLUMN "webhookResourceId" TEXT,
+ADD COLUMN "webhookToken" TEXT;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "QueueStatus" ADD VALUE 'DEAD_LETTER';
+
+-- AlterTable
+ALTER TABLE "SyncQueue" ADD COLUMN "lockedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "SyncQueue_integrationId_status_idx" ON "SyncQueue"("integrationId", "status");
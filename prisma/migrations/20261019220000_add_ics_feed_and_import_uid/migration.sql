@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "calendarFeedTokenHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "icalUid" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Participant_calendarFeedTokenHash_key" ON "Participant"("calendarFeedTokenHash");
+
+-- CreateIndex
+CREATE INDEX "Event_icalUid_idx" ON "Event"("icalUid");
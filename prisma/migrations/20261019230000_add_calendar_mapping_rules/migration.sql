@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "CalendarIntegration_participantId_provider_key";
+
+-- AlterTable
+ALTER TABLE "CalendarIntegration" ADD COLUMN "mappingRule" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarIntegration_participantId_provider_externalId_key" ON "CalendarIntegration"("participantId", "provider", "externalId");
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "SyncRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED', 'ROLLED_BACK');
+
+-- CreateEnum
+CREATE TYPE "SyncJournalDirection" AS ENUM ('PUSH', 'PULL');
+
+-- CreateEnum
+CREATE TYPE "SyncJournalAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "SyncRun" (
+    "id" TEXT NOT NULL,
+    "integrationId" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "status" "SyncRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "rolledBackAt" TIMESTAMP(3),
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SyncJournalEntry" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "integrationId" TEXT NOT NULL,
+    "direction" "SyncJournalDirection" NOT NULL,
+    "action" "SyncJournalAction" NOT NULL,
+    "eventId" TEXT,
+    "externalId" TEXT,
+    "title" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "error" TEXT,
+    "applied" BOOLEAN NOT NULL DEFAULT true,
+    "rolledBackAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SyncJournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRun_integrationId_startedAt_idx" ON "SyncRun"("integrationId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "SyncJournalEntry_runId_idx" ON "SyncJournalEntry"("runId");
+
+-- CreateIndex
+CREATE INDEX "SyncJournalEntry_eventId_idx" ON "SyncJournalEntry"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "SyncRun" ADD CONSTRAINT "SyncRun_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "CalendarIntegration"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SyncJournalEntry" ADD CONSTRAINT "SyncJournalEntry_runId_fkey" FOREIGN KEY ("runId") REFERENCES "SyncRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
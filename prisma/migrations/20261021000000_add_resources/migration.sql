@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "ResourceKind" AS ENUM ('PERSON', 'VEHICLE', 'EQUIPMENT');
+
+-- CreateTable
+CREATE TABLE "Resource" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "ResourceKind" NOT NULL,
+    "capacity" INTEGER NOT NULL DEFAULT 1,
+    "color" TEXT,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "participantId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Resource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ResourceAvailability" (
+    "id" TEXT NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER,
+    "date" TEXT,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "available" BOOLEAN NOT NULL DEFAULT true,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ResourceAvailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ResourceAssignment" (
+    "id" TEXT NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "eventId" TEXT,
+    "appointmentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ResourceAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Resource_kind_idx" ON "Resource"("kind");
+
+-- CreateIndex
+CREATE INDEX "Resource_isActive_idx" ON "Resource"("isActive");
+
+-- CreateIndex
+CREATE INDEX "ResourceAvailability_resourceId_idx" ON "ResourceAvailability"("resourceId");
+
+-- CreateIndex
+CREATE INDEX "ResourceAvailability_date_idx" ON "ResourceAvailability"("date");
+
+-- CreateIndex
+CREATE INDEX "ResourceAssignment_eventId_idx" ON "ResourceAssignment"("eventId");
+
+-- CreateIndex
+CREATE INDEX "ResourceAssignment_appointmentId_idx" ON "ResourceAssignment"("appointmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResourceAssignment_resourceId_eventId_key" ON "ResourceAssignment"("resourceId", "eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResourceAssignment_resourceId_appointmentId_key" ON "ResourceAssignment"("resourceId", "appointmentId");
+
+-- AddForeignKey
+ALTER TABLE "Resource" ADD CONSTRAINT "Resource_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceAvailability" ADD CONSTRAINT "ResourceAvailability_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "Resource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceAssignment" ADD CONSTRAINT "ResourceAssignment_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "Resource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceAssignment" ADD CONSTRAINT "ResourceAssignment_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceAssignment" ADD CONSTRAINT "ResourceAssignment_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "SnowStormStatus" AS ENUM ('OPEN', 'DISPATCHED', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "StormDispatchStatus" AS ENUM ('DISPATCHED', 'COMPLETED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "SnowStorm" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "externalId" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "accumulationCm" DOUBLE PRECISION NOT NULL,
+    "iceRisk" BOOLEAN NOT NULL DEFAULT false,
+    "temperatureC" DOUBLE PRECISION,
+    "notes" TEXT,
+    "status" "SnowStormStatus" NOT NULL DEFAULT 'OPEN',
+    "dispatchedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SnowStorm_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StormDispatch" (
+    "id" TEXT NOT NULL,
+    "stormId" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "service" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "eventId" TEXT,
+    "serviceRecordId" TEXT,
+    "billingRecordId" TEXT,
+    "status" "StormDispatchStatus" NOT NULL DEFAULT 'DISPATCHED',
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StormDispatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SnowStorm_startedAt_idx" ON "SnowStorm"("startedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SnowStorm_source_externalId_key" ON "SnowStorm"("source", "externalId");
+
+-- CreateIndex
+CREATE INDEX "StormDispatch_stormId_idx" ON "StormDispatch"("stormId");
+
+-- CreateIndex
+CREATE INDEX "StormDispatch_eventId_idx" ON "StormDispatch"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StormDispatch_stormId_contractId_service_key" ON "StormDispatch"("stormId", "contractId", "service");
+
+-- AddForeignKey
+ALTER TABLE "StormDispatch" ADD CONSTRAINT "StormDispatch_stormId_fkey" FOREIGN KEY ("stormId") REFERENCES "SnowStorm"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StormDispatch" ADD CONSTRAINT "StormDispatch_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "ClientServiceContract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StormDispatch" ADD CONSTRAINT "StormDispatch_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StormDispatch" ADD CONSTRAINT "StormDispatch_serviceRecordId_fkey" FOREIGN KEY ("serviceRecordId") REFERENCES "ServiceRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StormDispatch" ADD CONSTRAINT "StormDispatch_billingRecordId_fkey" FOREIGN KEY ("billingRecordId") REFERENCES "BillingRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SyncRunStatus" ADD VALUE 'PARTIALLY_ROLLED_BACK';
@@ -0,0 +1,53 @@
+import { processSyncQueue } from "../src/lib/sync-queue-worker";
+
+/**
+ * Long-running calendar sync queue worker - an alternative to calling
+ * POST /api/calendar/sync/queue from cron. Several workers can run side by side;
+ * items are claimed one at a time and per-integration concurrency is shared.
+ *
+ * Usage: npx tsx scripts/sync-queue-worker.ts [--once]
+ * Env: SYNC_WORKER_INTERVAL_MS (default 30000)
+ */
+
+const intervalMs = Number(process.env.SYNC_WORKER_INTERVAL_MS) || 30000;
+const once = process.argv.includes("--once");
+
+let stopping = false;
+let wake: (() => void) | null = null;
+
+function stop() {
+  console.log("🛑 Stopping sync queue worker after the current batch...");
+  stopping = true;
+  wake?.();
+}
+
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+async function runWorker() {
+  console.log(`🔄 Sync queue worker started${once ? " (single run)" : `, polling every ${intervalMs / 1000}s`}`);
+
+  while (!stopping) {
+    try {
+      const result = await processSyncQueue();
+      if (result.processed > 0 || result.released > 0) {
+        console.log("✅ Batch done:", result);
+      }
+
+      // Items were due - there may be more behind them, so go again right away
+      if (!once && result.processed > 0) continue;
+    } catch (error) {
+      console.error("❌ Sync queue batch failed:", error);
+    }
+
+    if (once) break;
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+      setTimeout(resolve, intervalMs);
+    });
+  }
+
+  process.exit(0);
+}
+
+runWorker();
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { filterRecognizedCreditNotes, getMarginReport } from '@/lib/job-costing';
+import type { MarginReport } from '@/types/billing';
 
 const prisma = new PrismaClient();
 
@@ -69,10 +71,28 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    // Credit notes issued in the period against paid revenue count as negative revenue
+    const creditNotes = await filterRecognizedCreditNotes(prisma, await prisma.billingDocument.findMany({
+      where: {
+        documentType: 'CREDIT_NOTE',
+        status: { not: 'CANCELLED' },
+        date: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      select: {
+        amount: true,
+        originalDocumentId: true,
+        metadata: true,
+      },
+    }));
+
     // Calculate total revenue
     const documentRevenue = paidDocuments.reduce((sum, doc) => sum + doc.amount, 0);
     const recordRevenue = paidRecords.reduce((sum, rec) => sum + rec.amount, 0);
-    const totalRevenue = documentRevenue + recordRevenue;
+    const creditNoteRevenue = -creditNotes.reduce((sum, doc) => sum + doc.amount, 0);
+    const totalRevenue = documentRevenue + recordRevenue + creditNoteRevenue;
 
     // Get previous period revenue for comparison
     const previousPaidDocuments = await prisma.billingDocument.findMany({
@@ -101,9 +121,26 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    const previousCreditNotes = await filterRecognizedCreditNotes(prisma, await prisma.billingDocument.findMany({
+      where: {
+        documentType: 'CREDIT_NOTE',
+        status: { not: 'CANCELLED' },
+        date: {
+          gte: previousStartDate,
+          lte: previousEndDate,
+        },
+      },
+      select: {
+        amount: true,
+        originalDocumentId: true,
+        metadata: true,
+      },
+    }));
+
     const previousDocumentRevenue = previousPaidDocuments.reduce((sum, doc) => sum + doc.amount, 0);
     const previousRecordRevenue = previousPaidRecords.reduce((sum, rec) => sum + rec.amount, 0);
-    const previousRevenue = previousDocumentRevenue + previousRecordRevenue;
+    const previousCreditNoteRevenue = -previousCreditNotes.reduce((sum, doc) => sum + doc.amount, 0);
+    const previousRevenue = previousDocumentRevenue + previousRecordRevenue + previousCreditNoteRevenue;
 
     // Calculate pipeline value (pending invoices and quotes)
     const pipeline = await prisma.billingDocument.findMany({
@@ -129,8 +166,20 @@ export async function GET(request: NextRequest) {
       receipts: paidDocuments.filter(d => d.documentType === 'RECEIPT').reduce((sum, d) => sum + d.amount, 0),
       invoices: paidDocuments.filter(d => d.documentType === 'INVOICE').reduce((sum, d) => sum + d.amount, 0),
       billingRecords: recordRevenue,
+      creditNotes: creditNoteRevenue,
     };
 
+    // Gross margin (revenue less job costs) per job, client and service line for the same period.
+    // Revenue is still worth returning when the margin report fails.
+    let margins: MarginReport | null = null;
+    let marginsError: string | undefined;
+    try {
+      margins = await getMarginReport({ from: startDate, to: endDate });
+    } catch (error) {
+      console.error('Error building margin report:', error);
+      marginsError = 'Failed to build margin report';
+    }
+
     return NextResponse.json({
       success: true,
       data: {
@@ -138,6 +187,8 @@ export async function GET(request: NextRequest) {
         previousRevenue,
         pipelineValue,
         breakdown,
+        margins,
+        ...(marginsError && { marginsError }),
         period: {
           start: startDate.toISOString(),
           end: endDate.toISOString(),
@@ -4,6 +4,7 @@ import { verifyOAuthState, validateCSRFToken } from '@/lib/csrf'
 import { getToken } from 'next-auth/jwt'
 import { encrypt } from '@/lib/encryption'
 import { getPrismaClient } from '@/lib/prisma'
+import { registerGooglePushChannel } from '@/lib/google-push-channels'
 
 const oauth2Client = new google.auth.OAuth2(
   process.env.GOOGLE_CLIENT_ID,
@@ -117,16 +118,16 @@ export async function GET(request: NextRequest) {
         });
       }
 
-      // Upsert calendar integration with encrypted tokens
+      // Upsert the primary calendar's integration with encrypted tokens
       const integration = await prisma.calendarIntegration.upsert({
         where: {
-          participantId_provider: {
+          participantId_provider_externalId: {
             participantId: participant.id,
-            provider: 'GOOGLE'
+            provider: 'GOOGLE',
+            externalId: primaryCalendar.id || ''
           }
         },
         update: {
-          externalId: primaryCalendar.id || '',
           accessToken: encryptedAccessToken,
           refreshToken: encryptedRefreshToken,
           expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : null,
@@ -150,6 +151,30 @@ export async function GET(request: NextRequest) {
         }
       });
 
+      // Other calendars of this account added since (see calendars route) share the new tokens
+      await prisma.calendarIntegration.updateMany({
+        where: {
+          participantId: participant.id,
+          provider: 'GOOGLE',
+          calendarEmail: primaryCalendar.id || null,
+          id: { not: integration.id }
+        },
+        data: {
+          accessToken: encryptedAccessToken,
+          ...(encryptedRefreshToken && { refreshToken: encryptedRefreshToken }),
+          expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : null,
+          isActive: true,
+          lastSyncError: null,
+        }
+      });
+
+      // Push notifications for changes made in Google - without them the calendar is polled
+      try {
+        await registerGooglePushChannel(integration);
+      } catch (channelError) {
+        console.error('Failed to register Google push channel:', channelError);
+      }
+
       // Redirect with only integration ID (safe to pass in URL)
       const params = new URLSearchParams({
         success: 'true',
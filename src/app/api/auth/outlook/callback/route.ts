@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyOAuthState, validateCSRFToken } from '@/lib/csrf'
+import { getToken } from 'next-auth/jwt'
+import { encrypt } from '@/lib/encryption'
+import { getPrismaClient } from '@/lib/prisma'
+import { exchangeOutlookCode, GraphCalendarClient } from '@/lib/outlook-calendar'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const code = searchParams.get('code')
+    const state = searchParams.get('state')
+    const error = searchParams.get('error')
+
+    if (error) {
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?error=outlook_auth_failed&message=${encodeURIComponent(searchParams.get('error_description') || error)}`
+      )
+    }
+
+    if (!code) {
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?error=missing_code`
+      )
+    }
+
+    // Verify CSRF protection via state parameter
+    if (!state) {
+      console.warn('Outlook OAuth callback missing state parameter')
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?error=csrf_missing`
+      )
+    }
+
+    const stateData = verifyOAuthState(state)
+    if (!stateData) {
+      console.warn('Outlook OAuth callback state verification failed')
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?error=csrf_invalid`
+      )
+    }
+
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!validateCSRFToken(stateData.csrf as string, token?.sub)) {
+      console.warn('Outlook OAuth callback CSRF token validation failed')
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?error=csrf_validation_failed`
+      )
+    }
+
+    if (!token?.sub) {
+      console.warn('Outlook OAuth callback: no authenticated user')
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?error=not_authenticated`
+      )
+    }
+
+    // Exchange code for tokens and look up the mailbox's default calendar
+    const tokens = await exchangeOutlookCode(code)
+    const graph = new GraphCalendarClient(tokens.accessToken)
+    const [profile, calendar] = await Promise.all([graph.getProfile(), graph.getDefaultCalendar()])
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      console.error('Outlook OAuth callback: database not available')
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?error=database_unavailable`
+      )
+    }
+
+    try {
+      let participant = await prisma.participant.findFirst({
+        where: { email: token.email || undefined }
+      })
+
+      if (!participant) {
+        participant = await prisma.participant.create({
+          data: {
+            name: token.name || token.email || 'User',
+            email: token.email || undefined,
+            role: 'TEAM_MEMBER',
+          }
+        })
+      }
+
+      // Same encrypted token storage as Google
+      const connection = {
+        externalId: calendar.id,
+        accessToken: encrypt(tokens.accessToken),
+        refreshToken: tokens.refreshToken ? encrypt(tokens.refreshToken) : null,
+        expiresAt: tokens.expiresAt,
+        calendarName: calendar.name || null,
+        calendarEmail: profile.mail || profile.userPrincipalName || null,
+        isActive: true,
+        lastSyncAt: new Date(),
+        lastSyncError: null,
+        // Start a fresh delta round
+        syncToken: null,
+      }
+
+      const integration = await prisma.calendarIntegration.upsert({
+        where: {
+          participantId_provider_externalId: {
+            participantId: participant.id,
+            provider: 'OUTLOOK',
+            externalId: calendar.id
+          }
+        },
+        update: connection,
+        create: {
+          participantId: participant.id,
+          provider: 'OUTLOOK',
+          ...connection
+        }
+      })
+
+      // Other calendars of this mailbox added since (see calendars route) share the new tokens
+      await prisma.calendarIntegration.updateMany({
+        where: {
+          participantId: participant.id,
+          provider: 'OUTLOOK',
+          calendarEmail: connection.calendarEmail,
+          id: { not: integration.id }
+        },
+        data: {
+          accessToken: connection.accessToken,
+          refreshToken: connection.refreshToken,
+          expiresAt: connection.expiresAt,
+          isActive: true,
+          lastSyncError: null,
+        }
+      })
+
+      const params = new URLSearchParams({
+        success: 'true',
+        provider: 'outlook',
+        integrationId: integration.id
+      })
+
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?${params.toString()}`
+      )
+    } catch (error) {
+      console.error('Failed to store Outlook calendar integration:', error)
+      return NextResponse.redirect(
+        `${process.env.NEXTAUTH_URL}/time-manager?error=storage_failed`
+      )
+    }
+  } catch (error) {
+    console.error('Outlook OAuth callback error:', error)
+    return NextResponse.redirect(
+      `${process.env.NEXTAUTH_URL}/time-manager?error=outlook_callback_failed&message=${encodeURIComponent((error as Error).message)}`
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateCSRFToken, generateOAuthState } from '@/lib/csrf'
+import { getToken } from 'next-auth/jwt'
+import { getOutlookAuthUrl, isOutlookConfigured } from '@/lib/outlook-calendar'
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isOutlookConfigured()) {
+      return NextResponse.json(
+        { error: 'Outlook integration is not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const clientData = searchParams.get('state') // Optional client-specific data
+
+    // Get session for CSRF token binding
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    // Create signed state parameter with CSRF protection
+    const csrfToken = generateCSRFToken(token?.sub)
+    const stateData = clientData ? { clientData } : undefined
+    const secureState = generateOAuthState(csrfToken, stateData)
+
+    return NextResponse.json({ authUrl: getOutlookAuthUrl(secureState) })
+  } catch (error) {
+    console.error('Outlook OAuth initiation error:', error)
+    const isDevelopment = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to initiate Outlook OAuth',
+        ...(isDevelopment && {
+          details: error instanceof Error ? error.message : String(error)
+        })
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { billingManager } from '../../../../../../lib/billing-manager';
+import PDFGenerator from '../../../../../../lib/pdf-generator';
+
+// GET - Download a credit note as a PDF (?inline=1 to view in the browser)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ creditNoteId: string }> }
+) {
+  try {
+    const { creditNoteId } = await context.params;
+    const creditNote = await billingManager.getCreditNoteById(creditNoteId);
+
+    if (!creditNote) {
+      return NextResponse.json(
+        { success: false, error: 'Credit note not found' },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await PDFGenerator.generateCreditNotePDF(creditNote);
+    const filename = PDFGenerator.getPDFFilename('Credit-Note', creditNote.creditNoteNumber);
+    const disposition = request.nextUrl.searchParams.get('inline') ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${filename}"`,
+        'Content-Length': pdf.length.toString(),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error generating credit note PDF:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { billingManager } from '../../../../../../lib/billing-manager';
+import { EmailAttachment, emailIntegration } from '../../../../../../lib/email-integration';
+import PDFGenerator from '../../../../../../lib/pdf-generator';
+
+// POST - Email a credit note to the client with its PDF attached. Body (optional): { message? }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ creditNoteId: string }> }
+) {
+  try {
+    const { creditNoteId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const creditNote = await billingManager.getCreditNoteById(creditNoteId);
+
+    if (!creditNote) {
+      return NextResponse.json(
+        { success: false, error: 'Credit note not found' },
+        { status: 404 }
+      );
+    }
+
+    const recipient = creditNote.client.billingInfo?.email || creditNote.client.email;
+    if (!recipient) {
+      return NextResponse.json(
+        { success: false, error: 'Client email address is required' },
+        { status: 400 }
+      );
+    }
+
+    // A rendering failure shouldn't block the email
+    let attachment: EmailAttachment | undefined;
+    try {
+      attachment = {
+        filename: PDFGenerator.getPDFFilename('Credit-Note', creditNote.creditNoteNumber),
+        content: await PDFGenerator.generateCreditNotePDF(creditNote)
+      };
+    } catch (pdfError) {
+      console.error('Failed to render credit note PDF attachment:', pdfError);
+    }
+
+    const result = await emailIntegration.sendCreditNote(
+      { ...creditNote, client: { ...creditNote.client, email: recipient } },
+      typeof body.message === 'string' ? body.message : undefined,
+      attachment
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to send credit note' },
+        { status: 500 }
+      );
+    }
+
+    await billingManager.markCreditNoteSent(creditNoteId);
+
+    return NextResponse.json({
+      success: true,
+      messageId: result.messageId,
+      message: `Credit note ${creditNote.creditNoteNumber} sent to ${recipient}`
+    });
+  } catch (error) {
+    console.error('Error sending credit note email:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
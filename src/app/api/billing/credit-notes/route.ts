@@ -0,0 +1,92 @@
+// src/app/api/billing/credit-notes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../lib/auth";
+import { billingManager } from "../../../../lib/billing-manager";
+import { logCreditNoteIssued } from "../../../../lib/activity-logger";
+import { BillingError, CreateCreditNoteData } from "../../../../types/billing";
+
+const STATUS_BY_CODE: Record<BillingError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+};
+
+// GET /api/billing/credit-notes?clientId=...&originalDocumentId=... - List credit notes
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const creditNotes = await billingManager.getCreditNotes({
+      clientId: searchParams.get('clientId') || undefined,
+      originalDocumentId: searchParams.get('originalDocumentId') || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      creditNotes
+    });
+  } catch (error) {
+    console.error("[Credit Notes API GET] Error fetching credit notes:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch credit notes" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/billing/credit-notes - Credit all or some lines of an invoice or receipt
+export async function POST(request: NextRequest) {
+  try {
+    const creditNoteData: CreateCreditNoteData = await request.json();
+
+    if (!creditNoteData.originalDocumentId ||
+        !['invoice', 'receipt'].includes(creditNoteData.originalDocumentType)) {
+      return NextResponse.json(
+        { success: false, error: "originalDocumentType ('invoice' or 'receipt') and originalDocumentId are required" },
+        { status: 400 }
+      );
+    }
+
+    const creditNote = await billingManager.createCreditNote(creditNoteData);
+
+    // Log activity - don't fail the request if logging fails
+    try {
+      const session = await getServerSession(authOptions);
+      await logCreditNoteIssued({
+        creditNoteId: creditNote.id,
+        creditNoteNumber: creditNote.creditNoteNumber,
+        originalDocumentNumber: creditNote.originalDocumentNumber,
+        clientId: creditNote.clientId,
+        clientName: creditNote.client.name,
+        amount: creditNote.totalAmount,
+        reason: creditNote.reason,
+        userId: session?.user?.email || undefined,
+        userName: session?.user?.name || undefined
+      });
+    } catch (logError) {
+      console.error("[Credit Notes API] Failed to log activity:", logError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      creditNote,
+      message: `Credit note ${creditNote.creditNoteNumber} issued for $${creditNote.totalAmount.toFixed(2)}`
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error("[Credit Notes API] Error creating credit note:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create credit note",
+        details: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// src/app/api/billing/dunning/run/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { runDunning } from "../../../../../lib/dunning";
+
+// POST /api/billing/dunning/run - Flag overdue invoices and send the reminders due today.
+// Idempotent, so it can be called from a daily cron. Body (optional):
+// { asOf?, dryRun?, offsets?: number[], remindAfterPartialPayment? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const asOf = body.asOf ? new Date(body.asOf) : undefined;
+
+    if (asOf && Number.isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { success: false, error: "asOf must be a valid date" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.offsets !== undefined &&
+      (!Array.isArray(body.offsets) || !body.offsets.every((offset: unknown) => Number.isFinite(offset)))
+    ) {
+      return NextResponse.json(
+        { success: false, error: "offsets must be an array of day offsets relative to the due date" },
+        { status: 400 }
+      );
+    }
+
+    const result = await runDunning({
+      asOf,
+      dryRun: body.dryRun === true,
+      config: {
+        ...(body.offsets ? { reminderOffsets: body.offsets } : {}),
+        ...(typeof body.remindAfterPartialPayment === "boolean"
+          ? { remindAfterPartialPayment: body.remindAfterPartialPayment }
+          : {})
+      }
+    });
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result,
+      message: `${result.dryRun ? 'Would mark' : 'Marked'} ${result.markedOverdue.length} invoice(s) overdue and ${result.dryRun ? 'send' : 'sent'} ${result.remindersSent.length} reminder(s)`
+    });
+  } catch (error) {
+    console.error("[Dunning API] Error running dunning:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run dunning" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExpenseReceipt } from '../../../../../../lib/job-costing';
+import { BillingError } from '../../../../../../types/billing';
+
+// GET - The receipt image attached to an expense (?download=1 to save instead of view)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ expenseId: string }> }
+) {
+  try {
+    const { expenseId } = await context.params;
+    const receipt = await getExpenseReceipt(expenseId);
+
+    if (receipt.url) {
+      return NextResponse.redirect(receipt.url);
+    }
+
+    const disposition = request.nextUrl.searchParams.get('download') ? 'attachment' : 'inline';
+
+    return new NextResponse(new Uint8Array(receipt.bytes!), {
+      status: 200,
+      headers: {
+        'Content-Type': receipt.mimeType,
+        'Content-Disposition': `${disposition}; filename="${receipt.fileName.replace(/"/g, '')}"`,
+        'Content-Length': receipt.bytes!.length.toString(),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+    console.error('Error fetching expense receipt:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteExpense } from '../../../../../lib/job-costing';
+import { BillingError } from '../../../../../types/billing';
+
+// DELETE - Remove an expense (and its receipt image)
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ expenseId: string }> }
+) {
+  try {
+    const { expenseId } = await context.params;
+    await deleteExpense(expenseId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+    console.error('Error deleting expense:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete expense',
+        details: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+// src/app/api/billing/expenses/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createExpense,
+  EXPENSE_CATEGORIES,
+  getExpenses,
+  MAX_RECEIPT_BYTES,
+  receiptToDataUrl
+} from "../../../../lib/job-costing";
+import { BillingError, CreateExpenseData, ExpenseCategory } from "../../../../types/billing";
+
+const STATUS_BY_CODE: Record<BillingError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+};
+
+const optionalDate = (value: string | null) => (value ? new Date(value) : undefined);
+
+// GET /api/billing/expenses?serviceRecordId&contractId&clientId&serviceLineId&category&from&to - List expenses
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const category = searchParams.get('category') as ExpenseCategory | null;
+
+    if (category && !EXPENSE_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { success: false, error: `category must be one of: ${EXPENSE_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const expenses = await getExpenses({
+      clientId: searchParams.get('clientId') || undefined,
+      serviceRecordId: searchParams.get('serviceRecordId') || undefined,
+      contractId: searchParams.get('contractId') || undefined,
+      serviceLineId: searchParams.get('serviceLineId') || undefined,
+      category: category || undefined,
+      from: optionalDate(searchParams.get('from')),
+      to: optionalDate(searchParams.get('to'))
+    });
+
+    return NextResponse.json({
+      success: true,
+      expenses,
+      total: Math.round(expenses.reduce((sum, expense) => sum + expense.amount, 0) * 100) / 100
+    });
+  } catch (error) {
+    console.error("[Expenses API GET] Error fetching expenses:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch expenses" },
+      { status: 500 }
+    );
+  }
+}
+
+// Multipart form: the expense fields plus an optional "receipt" image file
+async function readMultipartExpense(request: NextRequest): Promise<CreateExpenseData> {
+  const formData = await request.formData();
+  const field = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  const number = (name: string) => (field(name) !== undefined ? Number(field(name)) : undefined);
+
+  const data: CreateExpenseData = {
+    serviceRecordId: field('serviceRecordId'),
+    contractId: field('contractId'),
+    serviceLineId: field('serviceLineId'),
+    category: field('category') as ExpenseCategory,
+    amount: number('amount') as number,
+    quantity: number('quantity'),
+    unit: field('unit'),
+    vendor: field('vendor'),
+    description: field('description'),
+    incurredAt: field('incurredAt')
+  };
+
+  const receipt = formData.get('receipt');
+  if (receipt instanceof File && receipt.size > 0) {
+    if (receipt.size > MAX_RECEIPT_BYTES) {
+      throw new BillingError(`Receipt image is larger than ${MAX_RECEIPT_BYTES / (1024 * 1024)} MB`, 'VALIDATION');
+    }
+    data.receipt = {
+      dataUrl: receiptToDataUrl(new Uint8Array(await receipt.arrayBuffer()), receipt.type || 'application/octet-stream'),
+      fileName: receipt.name,
+      mimeType: receipt.type || undefined
+    };
+  } else if (field('receiptUrl')) {
+    data.receipt = { dataUrl: field('receiptUrl')! };
+  }
+
+  return data;
+}
+
+// POST /api/billing/expenses - Record an expense against a service record, contract or service line.
+// Send multipart/form-data to attach a receipt image, or JSON ({ ..., receipt?: { dataUrl, fileName } }).
+export async function POST(request: NextRequest) {
+  try {
+    const data: CreateExpenseData = request.headers.get('content-type')?.includes('multipart/form-data')
+      ? await readMultipartExpense(request)
+      : await request.json();
+
+    const expense = await createExpense(data);
+
+    return NextResponse.json({
+      success: true,
+      expense,
+      message: `Recorded $${expense.amount.toFixed(2)} ${expense.category.toLowerCase()} expense`
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error("[Expenses API] Error creating expense:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to record expense",
+        details: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+// src/app/api/billing/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ACCOUNTING_TRANSACTION_TYPES, exportAccountingData } from "../../../../lib/accounting-export";
+import { AccountingExportFormat, AccountingTransactionType } from "../../../../types/billing";
+
+const FORMATS: AccountingExportFormat[] = ["quickbooks_iif", "quickbooks_csv", "xero_csv"];
+
+// A bare date covers that whole day, so ?from=2025-01-01&to=2025-12-31 is the full year
+function parseDate(value: string | null, endOfDay: boolean): Date | null {
+  if (!value) return null;
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]), ...(endOfDay ? [23, 59, 59, 999] : [0, 0, 0, 0]))
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/billing/export?from=YYYY-MM-DD&to=YYYY-MM-DD&format=quickbooks_iif|quickbooks_csv|xero_csv
+//   &include=invoice,credit_note,refund,payment,receipt (optional, defaults to all)
+// Downloads invoices, credit notes, refunds, payments and receipts in the range for import into the books
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = parseDate(searchParams.get("from"), false);
+    const to = parseDate(searchParams.get("to"), true);
+    const format = (searchParams.get("format") || "quickbooks_csv") as AccountingExportFormat;
+    const include = searchParams.get("include")
+      ?.split(",")
+      .map(type => type.trim())
+      .filter(Boolean) as AccountingTransactionType[] | undefined;
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { success: false, error: "from and to are required dates (YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+    if (from > to) {
+      return NextResponse.json(
+        { success: false, error: "from must be on or before to" },
+        { status: 400 }
+      );
+    }
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of ${FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (include?.some(type => !ACCOUNTING_TRANSACTION_TYPES.includes(type))) {
+      return NextResponse.json(
+        { success: false, error: `include may only contain ${ACCOUNTING_TRANSACTION_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await exportAccountingData({ from, to, format, include });
+
+    if (result.warnings.length > 0) {
+      console.warn("[Accounting Export] Completed with warnings:", result.warnings);
+    }
+
+    return new NextResponse(result.content, {
+      status: 200,
+      headers: {
+        "Content-Type": result.contentType,
+        "Content-Disposition": `attachment; filename="${result.filename}"`,
+        "X-Export-Counts": JSON.stringify(result.counts),
+        "X-Export-Warnings": String(result.warnings.length)
+      }
+    });
+  } catch (error) {
+    console.error("[Accounting Export API] Error exporting billing data:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to export billing data" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { billingManager } from '../../../../../../lib/billing-manager';
+import PDFGenerator from '../../../../../../lib/pdf-generator';
+
+// GET - Download an invoice as a PDF (?inline=1 to view in the browser)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const { invoiceId } = await context.params;
+    const invoice = await billingManager.getInvoiceById(invoiceId);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await PDFGenerator.generateInvoicePDF(invoice);
+    const filename = PDFGenerator.getPDFFilename('Invoice', invoice.invoiceNumber);
+    const disposition = request.nextUrl.searchParams.get('inline') ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${filename}"`,
+        'Content-Length': pdf.length.toString(),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { billingManager } from '../../../../../../lib/billing-manager';
+import { EmailAttachment, emailIntegration } from '../../../../../../lib/email-integration';
+import PDFGenerator from '../../../../../../lib/pdf-generator';
+
+// POST - Email an invoice to the client with its PDF attached. Body (optional): { message? }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const { invoiceId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const invoice = await billingManager.getInvoiceById(invoiceId);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const recipient = invoice.client.billingInfo?.email || invoice.client.email;
+    if (!recipient) {
+      return NextResponse.json(
+        { success: false, error: 'Client email address is required' },
+        { status: 400 }
+      );
+    }
+
+    // A rendering failure shouldn't block the email
+    let attachment: EmailAttachment | undefined;
+    try {
+      attachment = {
+        filename: PDFGenerator.getPDFFilename('Invoice', invoice.invoiceNumber),
+        content: await PDFGenerator.generateInvoicePDF(invoice)
+      };
+    } catch (pdfError) {
+      console.error('Failed to render invoice PDF attachment:', pdfError);
+    }
+
+    const result = await emailIntegration.sendInvoice(
+      { ...invoice, client: { ...invoice.client, email: recipient } },
+      typeof body.message === 'string' ? body.message : undefined,
+      attachment
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to send invoice' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      messageId: result.messageId,
+      message: `Invoice ${invoice.invoiceNumber} sent to ${recipient}`
+    });
+  } catch (error) {
+    console.error('Error sending invoice email:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
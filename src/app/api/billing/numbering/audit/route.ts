@@ -0,0 +1,37 @@
+// src/app/api/billing/numbering/audit/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { auditDocumentNumbers, getNumberingConfig } from "../../../../../lib/document-numbering";
+
+// GET /api/billing/numbering/audit?year=2025 - Gaps and duplicates in issued document numbers
+// (all years when year is omitted). Read-only.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const yearParam = searchParams.get("year");
+    const year = yearParam ? Number(yearParam) : undefined;
+
+    if (year !== undefined && (!Number.isInteger(year) || year < 2000 || year > 2100)) {
+      return NextResponse.json(
+        { success: false, error: "year must be a four-digit year" },
+        { status: 400 }
+      );
+    }
+
+    const report = await auditDocumentNumbers({ year });
+
+    return NextResponse.json({
+      success: true,
+      config: getNumberingConfig(),
+      report,
+      message: report.totals.gaps === 0 && report.totals.duplicates === 0
+        ? `${report.totals.numbers} document number(s) checked - no gaps or duplicates`
+        : `${report.totals.gaps} missing number(s) and ${report.totals.duplicates} duplicate(s) found`
+    });
+  } catch (error) {
+    console.error("[Numbering Audit API] Error auditing document numbers:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to audit document numbers" },
+      { status: 500 }
+    );
+  }
+}
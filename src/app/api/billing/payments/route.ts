@@ -0,0 +1,89 @@
+// src/app/api/billing/payments/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../lib/auth";
+import { getPaymentLedger, recordPayment } from "../../../../lib/payment-ledger";
+import { BillingError, RecordPaymentData } from "../../../../types/billing";
+
+const STATUS_BY_CODE: Record<BillingError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+};
+
+// GET /api/billing/payments?billingDocumentId=... | ?billingRecordId=... - Payment ledger with outstanding balance
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ledger = await getPaymentLedger({
+      billingDocumentId: searchParams.get('billingDocumentId') || undefined,
+      billingRecordId: searchParams.get('billingRecordId') || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      ledger
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error("[Payments API GET] Error fetching ledger:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch payment ledger" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/billing/payments - Record a (partial) payment and issue its receipt
+export async function POST(request: NextRequest) {
+  try {
+    const paymentData: RecordPaymentData = await request.json();
+
+    if (!paymentData.method) {
+      return NextResponse.json(
+        { success: false, error: "Payment method is required" },
+        { status: 400 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+    const result = await recordPayment(
+      { ...paymentData, amount: Number(paymentData.amount) },
+      {
+        userId: session?.user?.email || undefined,
+        userName: session?.user?.name || undefined
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      payment: result.payment,
+      ledger: result.ledger,
+      ...(result.receiptError && { warning: `Payment recorded but receipt was not issued: ${result.receiptError}` }),
+      message: result.ledger.balanceDue > 0
+        ? `Payment recorded. $${result.ledger.balanceDue.toFixed(2)} outstanding`
+        : "Payment recorded. Paid in full"
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error("[Payments API] Error recording payment:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to record payment",
+        details: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { billingManager } from '../../../../../../lib/billing-manager';
+import PDFGenerator from '../../../../../../lib/pdf-generator';
+
+// GET - Download a quote as a PDF (?inline=1 to view in the browser)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ quoteId: string }> }
+) {
+  try {
+    const { quoteId } = await context.params;
+    const quote = await billingManager.getQuoteById(quoteId);
+
+    if (!quote) {
+      return NextResponse.json(
+        { success: false, error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await PDFGenerator.generateQuotePDF(quote);
+    const filename = PDFGenerator.getPDFFilename('Quote', quote.quoteNumber);
+    const disposition = request.nextUrl.searchParams.get('inline') ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${filename}"`,
+        'Content-Length': pdf.length.toString(),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error generating quote PDF:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
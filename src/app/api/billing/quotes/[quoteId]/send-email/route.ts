@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createQuoteAcceptanceLink } from '../../../../../../lib/quote-acceptance';
+import { EmailAttachment, emailIntegration } from '../../../../../../lib/email-integration';
+import PDFGenerator from '../../../../../../lib/pdf-generator';
+import { BillingError, QuoteAcceptanceOptions } from '../../../../../../types/billing';
+
+const STATUS_BY_CODE: Record<BillingError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+};
+
+// POST - Mark the quote as sent and email the client its acceptance link with the PDF attached
+// Body (optional): { message?, createInvoice?: boolean, createContract?: boolean }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ quoteId: string }> }
+) {
+  try {
+    const { quoteId } = await context.params;
+    const body: Partial<QuoteAcceptanceOptions> & { message?: unknown } = await request.json().catch(() => ({}));
+
+    const { quote, url } = await createQuoteAcceptanceLink(quoteId, {
+      createInvoice: body.createInvoice,
+      createContract: body.createContract
+    });
+
+    const recipient = quote.client.billingInfo?.email || quote.client.email;
+    if (!recipient) {
+      return NextResponse.json(
+        { success: false, error: 'Client email address is required' },
+        { status: 400 }
+      );
+    }
+
+    // A rendering failure shouldn't block the email
+    let attachment: EmailAttachment | undefined;
+    try {
+      attachment = {
+        filename: PDFGenerator.getPDFFilename('Quote', quote.quoteNumber),
+        content: await PDFGenerator.generateQuotePDF(quote)
+      };
+    } catch (pdfError) {
+      console.error('Failed to render quote PDF attachment:', pdfError);
+    }
+
+    const result = await emailIntegration.sendQuote(
+      { ...quote, client: { ...quote.client, email: recipient } },
+      url,
+      typeof body.message === 'string' ? body.message : undefined,
+      attachment
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to send quote' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      quote,
+      url,
+      messageId: result.messageId,
+      message: `Quote ${quote.quoteNumber} sent to ${recipient}`
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error('Error sending quote email:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
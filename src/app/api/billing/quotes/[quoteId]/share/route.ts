@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createQuoteAcceptanceLink } from '../../../../../../lib/quote-acceptance';
+import { BillingError, QuoteAcceptanceOptions } from '../../../../../../types/billing';
+
+const STATUS_BY_CODE: Record<BillingError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+};
+
+// POST - Mark the quote as sent and get the client's acceptance link
+// Body: { createInvoice?: boolean, createContract?: boolean } - what to set up when the client accepts
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ quoteId: string }> }
+) {
+  try {
+    const { quoteId } = await context.params;
+    const options: Partial<QuoteAcceptanceOptions> = await request.json().catch(() => ({}));
+
+    const { quote, token, url } = await createQuoteAcceptanceLink(quoteId, {
+      createInvoice: options.createInvoice,
+      createContract: options.createContract
+    });
+
+    return NextResponse.json({
+      success: true,
+      quote,
+      token,
+      url
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error('Error creating quote acceptance link:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create acceptance link',
+        details: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
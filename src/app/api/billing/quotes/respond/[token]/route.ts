@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublicQuoteView, respondToQuote } from '../../../../../../lib/quote-acceptance';
+import { BillingError } from '../../../../../../types/billing';
+
+const STATUS_BY_CODE: Record<BillingError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+};
+
+// GET /api/billing/quotes/respond/[token] - Public: quote details for the acceptance page
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await context.params;
+    const quote = await getPublicQuoteView(token);
+
+    if (!quote) {
+      return NextResponse.json(
+        { success: false, error: 'Quote not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, quote });
+  } catch (error) {
+    console.error('Error fetching public quote:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load quote' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/billing/quotes/respond/[token] - Public: accept or decline with a typed signature
+// Body: { decision: 'accepted' | 'declined', signatureName: string, declineReason?: string }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await context.params;
+    const { decision, signatureName, declineReason } = await request.json();
+
+    const result = await respondToQuote(
+      token,
+      { decision, signatureName, declineReason },
+      {
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+          request.headers.get('x-real-ip') || undefined,
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    );
+
+    // Internal follow-up (invoice/contract ids, errors) stays with us - the client only needs the outcome
+    return NextResponse.json({
+      success: true,
+      decision: result.quote.status === 'declined' ? 'declined' : 'accepted',
+      quote: await getPublicQuoteView(token)
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error('Error recording quote response:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to record your response. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
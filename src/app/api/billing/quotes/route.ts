@@ -0,0 +1,60 @@
+// src/app/api/billing/quotes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { billingManager } from "../../../../lib/billing-manager";
+import { CreateQuoteData } from "../../../../types/billing";
+
+// GET /api/billing/quotes?clientId=... - List quotes
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const quotes = await billingManager.getQuotes({
+      clientId: searchParams.get('clientId') || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      quotes
+    });
+  } catch (error) {
+    console.error("[Quotes API GET] Error fetching quotes:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch quotes" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/billing/quotes - Create a draft quote
+export async function POST(request: NextRequest) {
+  try {
+    const quoteData: CreateQuoteData = await request.json();
+
+    if (!quoteData.clientId || !quoteData.items?.length || !quoteData.validUntil) {
+      return NextResponse.json(
+        { success: false, error: "clientId, items and validUntil are required" },
+        { status: 400 }
+      );
+    }
+
+    const quote = await billingManager.createQuote({
+      ...quoteData,
+      validUntil: new Date(quoteData.validUntil)
+    });
+
+    return NextResponse.json({
+      success: true,
+      quote,
+      message: `Quote ${quote.quoteNumber} created`
+    });
+  } catch (error) {
+    console.error("[Quotes API] Error creating quote:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create quote",
+        details: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,8 @@ import sgMail from '@sendgrid/mail';
 import { logReceiptSent } from '../../../../../../lib/activity-logger';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '../../../../../../lib/auth';
+import { billingManager } from '../../../../../../lib/billing-manager';
+import PDFGenerator from '../../../../../../lib/pdf-generator';
 
 interface ReceiptItem {
   description: string;
@@ -19,6 +21,10 @@ interface ReceiptData {
   serviceType?: string;
   items: ReceiptItem[];
 }
+interface PdfAttachment {
+  filename: string;
+  content: Buffer;
+}
 
 // Service-specific email configuration
 function getServiceEmail(serviceType?: string): string {
@@ -237,7 +243,8 @@ function getServiceContact(serviceType?: string): { name: string; address: strin
 async function sendReceiptEmail(
   clientEmail: string,
   clientName: string,
-  receiptData: ReceiptData
+  receiptData: ReceiptData,
+  pdf?: PdfAttachment
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   try {
     // Check if we should use real email or mock
@@ -261,6 +268,12 @@ async function sendReceiptEmail(
         },
         subject: `Receipt ${receiptData.receiptNumber} - Thank you for your business`,
         html: emailHtml,
+        attachments: pdf ? [{
+          content: pdf.content.toString('base64'),
+          filename: pdf.filename,
+          type: 'application/pdf',
+          disposition: 'attachment'
+        }] : undefined,
       };
 
       const response = await sgMail.send(msg);
@@ -289,16 +302,35 @@ async function sendReceiptEmail(
       // Determine the correct from email based on service type
       const fromEmail = getServiceEmail(receiptData.serviceType);
       
-      // Create the email message
-      const message = [
+      // Create the email message (multipart when a PDF is attached)
+      const headers = [
         `From: ${getServiceName(receiptData.serviceType)} <${fromEmail}>`,
         `To: ${clientEmail}`,
         `Subject: Receipt ${receiptData.receiptNumber} - Thank you for your business`,
-        'MIME-Version: 1.0',
+        'MIME-Version: 1.0'
+      ];
+      const boundary = `receipt_${Date.now().toString(36)}`;
+      const message = (pdf ? [
+        ...headers,
+        `Content-Type: multipart/mixed; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        emailHtml,
+        `--${boundary}`,
+        `Content-Type: application/pdf; name="${pdf.filename}"`,
+        `Content-Disposition: attachment; filename="${pdf.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        pdf.content.toString('base64').replace(/.{76}/g, '$&\n'),
+        `--${boundary}--`
+      ] : [
+        ...headers,
         'Content-Type: text/html; charset=utf-8',
         '',
         emailHtml
-      ].join('\n');
+      ]).join('\n');
 
       const encodedMessage = Buffer.from(message)
         .toString('base64')
@@ -332,6 +364,7 @@ async function sendReceiptEmail(
         to: clientEmail,
         subject: `Receipt ${receiptData.receiptNumber} - Thank you for your business`,
         html: emailHtml,
+        attachments: pdf ? [{ filename: pdf.filename, content: pdf.content }] : undefined,
       });
 
       if (emailResponse.error) {
@@ -367,6 +400,7 @@ async function sendReceiptEmail(
         to: clientEmail,
         subject: `Receipt ${receiptData.receiptNumber} - Thank you for your business`,
         html: emailHtml,
+        attachments: pdf ? [{ filename: pdf.filename, content: pdf.content, contentType: 'application/pdf' }] : undefined,
       };
       
       // If we're not using different from address, add reply-to
@@ -388,6 +422,7 @@ async function sendReceiptEmail(
       console.log(`   Subject: Receipt ${receiptData.receiptNumber} from Evangelo Sommer`);
       console.log(`   Amount: $${receiptData.totalAmount.toFixed(2)}`);
       console.log(`   Date: ${new Date(receiptData.serviceDate).toLocaleDateString()}`);
+      console.log(`   Attachment: ${pdf ? `${pdf.filename} (${pdf.content.length} bytes)` : 'none'}`);
       console.log(`   ⚠️ To send real emails, add RESEND_API_KEY or SMTP configuration to .env.local`);
       
       // Simulate delay
@@ -545,6 +580,20 @@ export async function POST(
       }
     });
 
+    // Render the receipt PDF to attach - a rendering failure shouldn't block the email
+    let pdfAttachment: PdfAttachment | undefined;
+    try {
+      const receipt = await billingManager.getReceiptById(receiptId);
+      if (receipt) {
+        pdfAttachment = {
+          filename: PDFGenerator.getPDFFilename('Receipt', receipt.receiptNumber),
+          content: await PDFGenerator.generateReceiptPDF(receipt)
+        };
+      }
+    } catch (pdfError) {
+      console.error('Failed to render receipt PDF attachment:', pdfError);
+    }
+
     // Send email
     const emailResult = await sendReceiptEmail(clientEmail, clientName, {
       receiptNumber: receiptData.receiptNumber || `REC-${receiptId.slice(-6).toUpperCase()}`,
@@ -552,7 +601,7 @@ export async function POST(
       serviceDate: receiptData.serviceDate || receiptDocument.createdAt,
       serviceType: receiptData.serviceType || receiptData.items?.[0]?.serviceType,
       items: receiptData.items || []
-    });
+    }, pdfAttachment);
 
     // Update document based on email result - preserve payment status
     const currentStatus = receiptData.status || 'draft';
@@ -0,0 +1,43 @@
+// src/app/api/billing/schedules/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { previewBillingSchedule } from "../../../../lib/billing-schedule";
+
+// GET /api/billing/schedules?clientId=...&months=3 - Preview upcoming scheduled invoices for a client
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const clientId = searchParams.get('clientId');
+    const months = parseInt(searchParams.get('months') || '3', 10);
+
+    if (!clientId) {
+      return NextResponse.json(
+        { success: false, error: "Client ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (Number.isNaN(months) || months < 1 || months > 24) {
+      return NextResponse.json(
+        { success: false, error: "months must be between 1 and 24" },
+        { status: 400 }
+      );
+    }
+
+    const until = new Date();
+    until.setMonth(until.getMonth() + months);
+
+    const upcoming = await previewBillingSchedule(clientId, { until });
+
+    return NextResponse.json({
+      success: true,
+      upcoming,
+      totalAmount: Math.round(upcoming.reduce((sum, invoice) => sum + invoice.amount, 0) * 100) / 100
+    });
+  } catch (error) {
+    console.error("[Billing Schedules API] Error building preview:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to preview billing schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// src/app/api/billing/schedules/run/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { runBillingSchedules } from "../../../../../lib/billing-schedule";
+
+// POST /api/billing/schedules/run - Generate draft invoices for all contract periods that are due.
+// Idempotent, so it can be called from a daily cron. Body (optional): { asOf?, dryRun?, clientId? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const asOf = body.asOf ? new Date(body.asOf) : undefined;
+
+    if (asOf && Number.isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { success: false, error: "asOf must be a valid date" },
+        { status: 400 }
+      );
+    }
+
+    const result = await runBillingSchedules({
+      asOf,
+      dryRun: body.dryRun === true,
+      clientId: body.clientId
+    });
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result,
+      message: `${result.dryRun ? 'Would create' : 'Created'} ${result.created.length} invoice(s) from ${result.contractsProcessed} contract(s)`
+    });
+  } catch (error) {
+    console.error("[Billing Schedules API] Error running schedules:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run billing schedules" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// src/app/api/billing/tax/route.ts
+import { NextResponse } from "next/server";
+import { billingManager } from "../../../../lib/billing-manager";
+import { getTaxProfile, TAX_PROFILES } from "../../../../lib/tax-engine";
+
+// GET /api/billing/tax - Active tax configuration and small supplier threshold status
+export async function GET() {
+  try {
+    const taxConfig = billingManager.getTaxConfig();
+    const smallSupplier = await billingManager.refreshSmallSupplierStatus();
+
+    return NextResponse.json({
+      success: true,
+      taxConfig,
+      defaultProfile: getTaxProfile(taxConfig.jurisdiction, taxConfig),
+      profiles: Object.keys(TAX_PROFILES).map(jurisdiction =>
+        getTaxProfile(jurisdiction as keyof typeof TAX_PROFILES, taxConfig)
+      ),
+      businessConfig: billingManager.getBusinessConfig(),
+      smallSupplier
+    });
+  } catch (error) {
+    console.error("[Tax API] Error loading tax status:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load tax status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// src/app/api/book/[serviceLine]/route.test.ts
+
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+import { createPublicBooking } from "@/lib/public-booking";
+
+jest.mock("@/lib/public-booking", () => ({
+  createPublicBooking: jest.fn(async () => ({ appointmentId: "appointment-1" })),
+  getBookingSlots: jest.fn(),
+  getPublicBookingView: jest.fn(),
+}));
+
+const context = { params: Promise.resolve({ serviceLine: "woodgreen" }) };
+
+function post(body: string) {
+  return new NextRequest("http://localhost/api/book/woodgreen", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body,
+  });
+}
+
+describe("Public Booking API", () => {
+  afterEach(() => jest.clearAllMocks());
+
+  it("should answer malformed JSON with a 400", async () => {
+    const response = await POST(post("{\"name\": "), context);
+
+    expect(response.status).toBe(400);
+    expect(createPublicBooking).not.toHaveBeenCalled();
+  });
+
+  it("should answer fields of the wrong type with a 400", async () => {
+    const responses = await Promise.all([
+      POST(post("[]"), context),
+      POST(post(JSON.stringify({ serviceType: "LAWN_MOWING", startTime: "2026-06-01T14:00:00Z", name: ["Jane"], email: "jane@example.com" })), context),
+      POST(post(JSON.stringify({ serviceType: "LAWN_MOWING", startTime: "2026-06-01T14:00:00Z", name: "Jane", email: "jane@example.com", phone: 5551234 })), context),
+    ]);
+
+    expect(responses.map(response => response.status)).toEqual([400, 400, 400]);
+    expect(createPublicBooking).not.toHaveBeenCalled();
+  });
+
+  it("should pass a well-formed booking on", async () => {
+    const booking = { serviceType: "LAWN_MOWING", startTime: "2026-06-01T14:00:00Z", name: "Jane", email: "jane@example.com", phone: null };
+
+    const response = await POST(post(JSON.stringify(booking)), context);
+
+    expect(response.status).toBe(200);
+    expect(createPublicBooking).toHaveBeenCalledWith("woodgreen", { ...booking, phone: undefined, address: undefined, notes: undefined });
+  });
+});
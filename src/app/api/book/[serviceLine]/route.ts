@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPublicBooking, getBookingSlots, getPublicBookingView } from '@/lib/public-booking';
+import { BookingError, type PublicBookingRequest } from '@/types/participant-management';
+
+const STATUS_BY_CODE: Record<BookingError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+};
+
+// GET /api/book/[serviceLine] - Public: the services clients can book
+// GET /api/book/[serviceLine]?serviceType=LAWN_MOWING&date=2026-05-12 - Public: free slots that day
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ serviceLine: string }> }
+) {
+  try {
+    const { serviceLine } = await context.params;
+    const serviceType = request.nextUrl.searchParams.get('serviceType');
+    const date = request.nextUrl.searchParams.get('date');
+
+    if (serviceType) {
+      const slots = await getBookingSlots(serviceLine, serviceType, date || '');
+      return NextResponse.json({
+        success: true,
+        slots: slots.map(slot => ({ startTime: slot.startTime, endTime: slot.endTime }))
+      });
+    }
+
+    const booking = await getPublicBookingView(serviceLine);
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: 'Online booking is not available for this service' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, booking });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error('Error loading booking page:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load available times' },
+      { status: 500 }
+    );
+  }
+}
+
+const REQUIRED_FIELDS = ['serviceType', 'startTime', 'name', 'email'] as const;
+const OPTIONAL_FIELDS = ['phone', 'address', 'notes'] as const;
+
+/**
+ * The booking fields of a request body, or null when it isn't an object of strings - the
+ * endpoint is public, so anything else is answered with a 400 rather than reaching the database
+ */
+function parseBookingRequest(body: unknown): PublicBookingRequest | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return null;
+  const fields = body as Record<string, unknown>;
+
+  if (REQUIRED_FIELDS.some(field => typeof fields[field] !== 'string')) return null;
+  if (OPTIONAL_FIELDS.some(field => fields[field] != null && typeof fields[field] !== 'string')) return null;
+
+  const text = (field: typeof OPTIONAL_FIELDS[number]) => (fields[field] as string | null | undefined) ?? undefined;
+  return {
+    serviceType: fields.serviceType as string,
+    startTime: fields.startTime as string,
+    name: fields.name as string,
+    email: fields.email as string,
+    phone: text('phone'),
+    address: text('address'),
+    notes: text('notes')
+  };
+}
+
+// POST /api/book/[serviceLine] - Public: book a slot
+// Body: { serviceType, startTime, name, email, phone?, address?, notes? }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ serviceLine: string }> }
+) {
+  try {
+    const { serviceLine } = await context.params;
+    const body = await request.json().catch(() => null);
+    const booking = parseBookingRequest(body);
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid booking request' },
+        { status: 400 }
+      );
+    }
+
+    const confirmation = await createPublicBooking(serviceLine, booking);
+
+    return NextResponse.json({ success: true, confirmation });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      );
+    }
+    console.error('Error creating booking:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to book this time. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
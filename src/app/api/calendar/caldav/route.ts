@@ -0,0 +1,153 @@
+/**
+ * CalDAV Calendar Connection
+ * Connects a Fastmail, iCloud or other CalDAV calendar (Radicale for local testing) with a
+ * username and app-specific password - CalDAV has no OAuth flow
+ *
+ * POST without calendarUrl lists the account's calendars; POST again with a chosen calendarUrl
+ * saves an integration for it - repeat for each calendar to sync. The password is stored encrypted
+ * like OAuth tokens.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { encrypt } from '@/lib/encryption'
+import { CalDAVClient, CalDAVError, CALDAV_SERVERS } from '@/lib/caldav-client'
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token?.email) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { server, serverUrl, username, password, calendarUrl } = await request.json()
+    const resolvedServerUrl = serverUrl || CALDAV_SERVERS[server]
+
+    if (!resolvedServerUrl || !username || !password) {
+      return NextResponse.json(
+        { success: false, error: `serverUrl (or server: ${Object.keys(CALDAV_SERVERS).join(', ')}), username and password are required` },
+        { status: 400 }
+      )
+    }
+
+    const client = new CalDAVClient({ serverUrl: resolvedServerUrl, username, password })
+
+    let calendars
+    try {
+      calendars = (await client.listCalendars()).filter(calendar => calendar.supportsEvents)
+    } catch (error) {
+      if (error instanceof CalDAVError && error.status === 401) {
+        return NextResponse.json(
+          { success: false, error: 'CalDAV server rejected the username or password. iCloud and Fastmail need an app-specific password.' },
+          { status: 400 }
+        )
+      }
+      throw error
+    }
+
+    // Step 1 - let the user pick a calendar
+    if (!calendarUrl) {
+      return NextResponse.json({
+        success: true,
+        requiresSelection: true,
+        calendars: calendars.map(({ url, displayName, color }) => ({ url, displayName, color }))
+      })
+    }
+
+    const calendar = calendars.find(candidate => candidate.url === calendarUrl)
+    if (!calendar) {
+      return NextResponse.json(
+        { success: false, error: 'Calendar not found on this CalDAV account' },
+        { status: 404 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    let participant = await prisma.participant.findFirst({
+      where: { email: token.email }
+    })
+
+    if (!participant) {
+      participant = await prisma.participant.create({
+        data: {
+          name: token.name || token.email,
+          email: token.email,
+          role: 'TEAM_MEMBER',
+        }
+      })
+    }
+
+    // iCloud is tracked as APPLE so it can sit alongside a Fastmail (CALDAV) calendar
+    const provider = new URL(calendar.url).hostname.endsWith('icloud.com') ? 'APPLE' : 'CALDAV'
+    const connection = {
+      externalId: calendar.url,
+      accessToken: encrypt(password),
+      refreshToken: null,
+      expiresAt: null,
+      calendarName: calendar.displayName,
+      calendarEmail: username,
+      isActive: true,
+      lastSyncError: null,
+      // New calendar - start with a full sync
+      syncToken: null,
+    }
+
+    const integration = await prisma.calendarIntegration.upsert({
+      where: {
+        participantId_provider_externalId: {
+          participantId: participant.id,
+          provider,
+          externalId: calendar.url
+        }
+      },
+      update: connection,
+      create: {
+        participantId: participant.id,
+        provider,
+        ...connection
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: integration.id,
+        provider: integration.provider,
+        externalId: integration.externalId,
+        calendarName: integration.calendarName,
+        calendarEmail: integration.calendarEmail,
+        isActive: integration.isActive,
+        // SECURITY: the password is NOT included
+      }
+    })
+  } catch (error) {
+    console.error('Failed to connect CalDAV calendar:', error)
+
+    const isDevelopment = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to connect CalDAV calendar',
+        ...(isDevelopment && {
+          details: error instanceof Error ? error.message : String(error)
+        })
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Event Locations
+ * Coordinates of job sites for the conflict checker, so buffers between jobs follow the drive
+ * time. Works for events that aren't saved yet - each one is resolved from its client's address
+ * or its location text.
+ *
+ * POST { events: { id, clientId?, location? }[] } -> { locations: Record<eventId, { lat, lng }> }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { resolveEventLocations } from '@/lib/geocoding'
+
+// A proposed job and the day around it
+const MAX_EVENTS = 40
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { events } = await request.json()
+    if (!Array.isArray(events) || events.some(event => typeof event?.id !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'events must be a list of { id, clientId?, location? }' },
+        { status: 400 }
+      )
+    }
+
+    if (events.length > MAX_EVENTS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_EVENTS} events can be located at once` },
+        { status: 400 }
+      )
+    }
+
+    const locations = await resolveEventLocations(events.map(event => ({
+      id: event.id,
+      clientId: typeof event.clientId === 'string' ? event.clientId : null,
+      location: typeof event.location === 'string' ? event.location : null
+    })))
+    return NextResponse.json({ success: true, data: { locations } })
+  } catch (error) {
+    console.error('📍 [EventLocations] Error locating events:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to locate events' },
+      { status: 500 }
+    )
+  }
+}
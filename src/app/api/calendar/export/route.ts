@@ -1,98 +1,60 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { google } from 'googleapis';
+/**
+ * Calendar Export
+ * Download events as an .ics file that any calendar app can import.
+ *
+ * GET ?start=2025-03-01&end=2025-03-31 - defaults to the last 90 days and the year ahead.
+ * Filter with client=<clientId>, serviceLine=<slug> and type=event|task|goal|milestone.
+ */
 
-export async function POST(request: NextRequest) {
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { exportEventsToICalendar, parseIcsFilter } from '@/lib/ics-feed'
+
+export async function GET(request: NextRequest) {
   try {
-    const { events } = await request.json();
-    
-    if (!events || events.length === 0) {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token?.email) {
       return NextResponse.json(
-        { error: 'No events provided for export' },
-        { status: 400 }
-      );
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
     }
 
-    console.log('📤 Google Calendar export requested for', events.length, 'events');
-    
-    // For now, return a mock success response
-    // In a real implementation, you would:
-    // 1. Authenticate with Google OAuth 2.0
-    // 2. Create a Google Calendar API client
-    // 3. Create events in the user's Google Calendar
-    
-    // Simulate processing each event
-    const exportedCount = events.length;
-    
-    return NextResponse.json({ 
-      success: true, 
-      exported: exportedCount,
-      message: `Successfully exported ${exportedCount} events to Google Calendar`
-    });
-
-    /* 
-    // Real implementation would look like this:
-    
-    const auth = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      process.env.GOOGLE_REDIRECT_URI
-    );
+    const filter = parseIcsFilter(new URL(request.url).searchParams)
+    if (typeof filter === 'string') {
+      return NextResponse.json(
+        { success: false, error: filter },
+        { status: 400 }
+      )
+    }
 
-    // Set the credentials (you'd get these from the user's session/database)
-    auth.setCredentials({
-      access_token: userAccessToken,
-      refresh_token: userRefreshToken,
-    });
+    const prisma = getPrismaClient()
+    const participant = await prisma?.participant.findFirst({
+      where: { email: token.email },
+      select: { timezone: true }
+    })
 
-    const calendar = google.calendar({ version: 'v3', auth });
-    
-    const exportedEvents = [];
-    
-    for (const event of events) {
-      const googleEvent = {
-        summary: event.service,
-        description: `Client: ${event.clientName}\nPriority: ${event.priority}\nNotes: ${event.notes || ''}`,
-        start: {
-          dateTime: event.scheduledDate,
-          timeZone: 'America/New_York', // Adjust as needed
-        },
-        end: {
-          dateTime: new Date(new Date(event.scheduledDate).getTime() + (event.duration || 60) * 60000).toISOString(),
-          timeZone: 'America/New_York',
-        },
-        reminders: {
-          useDefault: false,
-          overrides: [
-            { method: 'email', minutes: 24 * 60 }, // 1 day before
-            { method: 'popup', minutes: 15 }, // 15 minutes before
-          ],
-        },
-      };
+    const calendar = await exportEventsToICalendar(filter, participant?.timezone || undefined)
+    const filename = filter.start && filter.end
+      ? `calendar-${filter.start.toISOString().slice(0, 10)}-to-${filter.end.toISOString().slice(0, 10)}.ics`
+      : 'calendar.ics'
 
-      try {
-        const response = await calendar.events.insert({
-          calendarId: 'primary',
-          resource: googleEvent,
-        });
-        
-        exportedEvents.push(response.data);
-      } catch (error) {
-        console.error('Error creating event in Google Calendar:', error);
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
       }
-    }
-
-    return NextResponse.json({ 
-      success: true, 
-      exported: exportedEvents.length,
-      events: exportedEvents 
-    });
-    */
-    
+    })
   } catch (error) {
-    console.error('Error exporting to Google Calendar:', error);
+    console.error('📅 [ICS] Error exporting calendar:', error)
     return NextResponse.json(
-      { error: 'Failed to export to Google Calendar' },
+      { success: false, error: 'Failed to export calendar' },
       { status: 500 }
-    );
+    )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,66 @@
+/**
+ * ICS Feed
+ * The calendar subscription phones and calendar apps poll - GET /api/calendar/feed/<token>.ics.
+ * Public (calendar apps can't sign in); the secret in the URL is the credential.
+ * Accepts the same filters as the export: ?client=, ?serviceLine=, ?type=, ?start=, ?end=
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPrismaClient } from '@/lib/prisma'
+import { exportEventsToICalendar, hashFeedToken, parseIcsFilter } from '@/lib/ics-feed'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const secret = token.replace(/\.ics$/, '')
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    const participant = secret
+      ? await prisma.participant.findUnique({
+        where: { calendarFeedTokenHash: hashFeedToken(secret) },
+        select: { timezone: true }
+      })
+      : null
+
+    if (!participant) {
+      return NextResponse.json(
+        { success: false, error: 'Calendar feed not found' },
+        { status: 404 }
+      )
+    }
+
+    const filter = parseIcsFilter(new URL(request.url).searchParams)
+    if (typeof filter === 'string') {
+      return NextResponse.json(
+        { success: false, error: filter },
+        { status: 400 }
+      )
+    }
+
+    const calendar = await exportEventsToICalendar(filter, participant.timezone || undefined)
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('📅 [ICS] Error serving calendar feed:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load calendar feed' },
+      { status: 500 }
+    )
+  }
+}
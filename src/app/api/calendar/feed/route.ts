@@ -0,0 +1,120 @@
+/**
+ * ICS Feed Settings
+ * The signed-in user's calendar subscription URL. Only a hash of its secret is stored, so the
+ * URL is shown once when it is created; creating a new one revokes the old.
+ *
+ * GET tells whether a feed exists; POST creates (or replaces) it and returns the URL;
+ * DELETE revokes it. Filters (?client=, ?serviceLine=, ?type=) can be added to the URL.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { createFeedToken, feedUrl } from '@/lib/ics-feed'
+
+async function getEmail(request: NextRequest): Promise<string | null> {
+  const token = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+  })
+  return token?.email || null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const email = await getEmail(request)
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    const participant = await prisma?.participant.findFirst({
+      where: { email },
+      select: { calendarFeedTokenHash: true }
+    })
+
+    return NextResponse.json({ success: true, data: { enabled: !!participant?.calendarFeedTokenHash } })
+  } catch (error) {
+    console.error('Failed to load calendar feed:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load calendar feed' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const email = await getEmail(request)
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    const { token, hash } = createFeedToken()
+    const { count } = await prisma.participant.updateMany({
+      where: { email },
+      data: { calendarFeedTokenHash: hash }
+    })
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No participant record for this account' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: { url: feedUrl(token) } })
+  } catch (error) {
+    console.error('Failed to create calendar feed:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create calendar feed' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const email = await getEmail(request)
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    await prisma.participant.updateMany({
+      where: { email },
+      data: { calendarFeedTokenHash: null }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to revoke calendar feed:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke calendar feed' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { google } from 'googleapis'
+import { resolveTimeZone } from '@/lib/timezone-utils'
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,12 +39,12 @@ export async function POST(request: NextRequest) {
       start: {
         dateTime: event.isAllDay ? undefined : event.startTime,
         date: event.isAllDay ? event.startTime.split('T')[0] : undefined,
-        timeZone: 'America/New_York' // Default timezone, should be configurable
+        timeZone: resolveTimeZone(event.timezone)
       },
       end: {
         dateTime: event.isAllDay ? undefined : event.endTime,
         date: event.isAllDay ? event.endTime.split('T')[0] : undefined,
-        timeZone: 'America/New_York'
+        timeZone: resolveTimeZone(event.timezone)
       },
       attendees: event.attendees?.map((email: string) => ({ email })) || undefined,
       reminders: {
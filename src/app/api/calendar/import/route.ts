@@ -0,0 +1,119 @@
+/**
+ * Calendar Import
+ * Import an .ics file into local events. Events are matched by UID, so importing the same
+ * file again updates changed events rather than duplicating them.
+ *
+ * POST multipart/form-data with `file` (and optionally `clientId` to file the events under a
+ * client), or the calendar itself as a text/calendar body.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { importICalendar } from '@/lib/ics-feed'
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+
+/**
+ * A text/calendar body, or null once it passes maxBytes - read in chunks so an oversized
+ * upload (or one without Content-Length) is dropped without being buffered whole
+ */
+async function readBody(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null
+  if (!request.body) return ''
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token?.email) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    let text: string
+    let clientId: string | undefined
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { success: false, error: 'An .ics file is required' },
+          { status: 400 }
+        )
+      }
+      if (file.size > MAX_IMPORT_BYTES) {
+        return NextResponse.json(
+          { success: false, error: 'Calendar files are limited to 5 MB' },
+          { status: 413 }
+        )
+      }
+      text = await file.text()
+      clientId = (formData.get('clientId') as string | null) || undefined
+    } else {
+      const body = await readBody(request, MAX_IMPORT_BYTES)
+      if (body === null) {
+        return NextResponse.json(
+          { success: false, error: 'Calendar files are limited to 5 MB' },
+          { status: 413 }
+        )
+      }
+      text = body
+      clientId = new URL(request.url).searchParams.get('clientId') || undefined
+    }
+
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      return NextResponse.json(
+        { success: false, error: 'Not an iCalendar (.ics) file' },
+        { status: 400 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    const participant = await prisma.participant.findFirst({
+      where: { email: token.email },
+      select: { timezone: true }
+    })
+
+    const result = await importICalendar(text, {
+      defaultTimeZone: participant?.timezone || undefined,
+      clientId
+    })
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error('📅 [ICS] Error importing calendar:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to import calendar' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,290 @@
+// API endpoint to sync more calendars of a connected account
+// Each synced calendar is its own integration with its own sync direction and mapping rule;
+// calendars added here reuse the account's stored (encrypted) credentials.
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import * as jwt from 'jsonwebtoken';
+import { google } from 'googleapis';
+import { Prisma, type CalendarIntegration, type SyncDirection } from '@prisma/client';
+import { getPrismaClient } from '@/lib/prisma';
+import { decrypt } from '@/lib/encryption';
+import { CalDAVClient } from '@/lib/caldav-client';
+import { GraphCalendarClient, getOutlookAccessToken } from '@/lib/outlook-calendar';
+import { registerGooglePushChannel } from '@/lib/google-push-channels';
+import { parseMappingRule } from '@/lib/calendar-routing';
+
+const SYNC_DIRECTIONS: SyncDirection[] = ['BIDIRECTIONAL', 'EXPORT_ONLY', 'IMPORT_ONLY'];
+
+interface RemoteCalendar {
+  externalId: string;
+  name: string;
+  isPrimary: boolean;
+  readOnly: boolean;
+}
+
+/**
+ * Get authenticated user's email from either NextAuth session or mobile Bearer token
+ */
+async function getAuthenticatedUser(request: NextRequest): Promise<{ email: string; role?: string } | null> {
+  // Try NextAuth session first (web app)
+  const nextAuthToken = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+  });
+
+  if (nextAuthToken?.email) {
+    return { email: nextAuthToken.email as string, role: nextAuthToken.role as string | undefined };
+  }
+
+  // Try mobile Bearer token
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.substring(7);
+    try {
+      const secret = process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET;
+      if (!secret) {
+        console.error('[calendar/calendars] No JWT secret configured');
+        return null;
+      }
+      const decoded = jwt.verify(token, secret) as { email?: string; role?: string };
+      if (decoded.email) {
+        return { email: decoded.email, role: decoded.role };
+      }
+    } catch (err) {
+      console.error('[calendar/calendars] Invalid mobile JWT:', err);
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The integration, if the signed-in user owns it - otherwise the error response to send
+ */
+async function loadOwnedIntegration(request: NextRequest, integrationId: string) {
+  const authUser = await getAuthenticatedUser(request);
+  if (!authUser) {
+    return { error: NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 }) };
+  }
+
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    return { error: NextResponse.json({ success: false, error: 'Database not available' }, { status: 503 }) };
+  }
+
+  const integration = await prisma.calendarIntegration.findUnique({
+    where: { id: integrationId },
+    include: { participant: true }
+  });
+
+  if (!integration) {
+    return { error: NextResponse.json({ success: false, error: 'Integration not found' }, { status: 404 }) };
+  }
+
+  if (integration.participant.email !== authUser.email && authUser.role !== 'SUPER_ADMIN') {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 403 }) };
+  }
+
+  return { integration, prisma };
+}
+
+/**
+ * Calendars the account behind an integration can see
+ */
+async function listRemoteCalendars(integration: CalendarIntegration): Promise<RemoteCalendar[]> {
+  switch (integration.provider) {
+    case 'GOOGLE': {
+      const oauth2Client = new google.auth.OAuth2(
+        process.env.GOOGLE_CLIENT_ID,
+        process.env.GOOGLE_CLIENT_SECRET,
+        process.env.GOOGLE_REDIRECT_URI
+      );
+      oauth2Client.setCredentials({
+        access_token: decrypt(integration.accessToken),
+        refresh_token: integration.refreshToken ? decrypt(integration.refreshToken) : null
+      });
+
+      const response = await google.calendar({ version: 'v3', auth: oauth2Client }).calendarList.list({ maxResults: 250 });
+      return (response.data.items || []).map(item => ({
+        externalId: item.id || '',
+        name: item.summaryOverride || item.summary || item.id || 'Untitled calendar',
+        isPrimary: !!item.primary,
+        readOnly: item.accessRole !== 'owner' && item.accessRole !== 'writer'
+      }));
+    }
+
+    case 'OUTLOOK': {
+      const graph = new GraphCalendarClient(await getOutlookAccessToken(integration));
+      return (await graph.listCalendars()).map(calendar => ({
+        externalId: calendar.id,
+        name: calendar.name,
+        isPrimary: !!calendar.isDefaultCalendar,
+        readOnly: calendar.canEdit === false
+      }));
+    }
+
+    case 'CALDAV':
+    case 'APPLE': {
+      const client = new CalDAVClient({
+        serverUrl: new URL(integration.externalId).origin,
+        username: integration.calendarEmail || '',
+        password: decrypt(integration.accessToken)
+      });
+      return (await client.listCalendars())
+        .filter(calendar => calendar.supportsEvents)
+        .map(calendar => ({
+          externalId: calendar.url,
+          name: calendar.displayName,
+          isPrimary: false,
+          readOnly: false
+        }));
+    }
+
+    default:
+      throw new Error(`${integration.provider} calendars are connected one at a time`);
+  }
+}
+
+// List the account's calendars and which are synced
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ integrationId: string }> }
+) {
+  try {
+    const { integrationId } = await params;
+    const { integration, prisma, error } = await loadOwnedIntegration(request, integrationId);
+    if (error) return error;
+
+    const [calendars, connected] = await Promise.all([
+      listRemoteCalendars(integration),
+      prisma.calendarIntegration.findMany({
+        where: {
+          participantId: integration.participantId,
+          provider: integration.provider,
+          calendarEmail: integration.calendarEmail
+        },
+        select: { id: true, externalId: true, syncDirection: true, mappingRule: true, isActive: true }
+      })
+    ]);
+
+    const byExternalId = new Map(connected.map(sibling => [sibling.externalId, sibling]));
+    return NextResponse.json({
+      success: true,
+      data: calendars.map(calendar => {
+        const sibling = byExternalId.get(calendar.externalId);
+        return {
+          ...calendar,
+          integrationId: sibling?.id || null,
+          syncDirection: sibling?.syncDirection || null,
+          mappingRule: sibling ? parseMappingRule(sibling.mappingRule) : null,
+          isActive: sibling?.isActive || false
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Failed to list account calendars:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to list calendars' },
+      { status: 500 }
+    );
+  }
+}
+
+// Start syncing another calendar of the same account
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ integrationId: string }> }
+) {
+  try {
+    const { integrationId } = await params;
+    const { integration, prisma, error } = await loadOwnedIntegration(request, integrationId);
+    if (error) return error;
+
+    const { externalId, syncDirection = 'BIDIRECTIONAL', mappingRule } = await request.json();
+
+    if (!externalId) {
+      return NextResponse.json(
+        { success: false, error: 'externalId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!SYNC_DIRECTIONS.includes(syncDirection)) {
+      return NextResponse.json(
+        { success: false, error: `syncDirection must be one of ${SYNC_DIRECTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const calendar = (await listRemoteCalendars(integration)).find(candidate => candidate.externalId === externalId);
+    if (!calendar) {
+      return NextResponse.json(
+        { success: false, error: 'Calendar not found on this account' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await prisma.calendarIntegration.findUnique({
+      where: {
+        participantId_provider_externalId: {
+          participantId: integration.participantId,
+          provider: integration.provider,
+          externalId
+        }
+      }
+    });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: 'This calendar is already synced', integrationId: existing.id },
+        { status: 409 }
+      );
+    }
+
+    const rule = parseMappingRule(mappingRule);
+    const created = await prisma.calendarIntegration.create({
+      data: {
+        participantId: integration.participantId,
+        provider: integration.provider,
+        externalId,
+        accessToken: integration.accessToken,
+        refreshToken: integration.refreshToken,
+        expiresAt: integration.expiresAt,
+        calendarName: calendar.name,
+        calendarEmail: integration.calendarEmail,
+        isActive: true,
+        // Can't write to a calendar shared read-only with us
+        syncDirection: calendar.readOnly ? 'IMPORT_ONLY' : syncDirection,
+        ...(rule && { mappingRule: rule as Prisma.InputJsonValue })
+      }
+    });
+
+    if (created.provider === 'GOOGLE') {
+      try {
+        await registerGooglePushChannel(created);
+      } catch (channelError) {
+        console.error('Failed to register Google push channel:', channelError);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: created.id,
+        provider: created.provider,
+        externalId: created.externalId,
+        calendarName: created.calendarName,
+        calendarEmail: created.calendarEmail,
+        syncDirection: created.syncDirection,
+        mappingRule: rule,
+        isActive: created.isActive
+      }
+    });
+  } catch (error) {
+    console.error('Failed to add calendar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to add calendar' },
+      { status: 500 }
+    );
+  }
+}
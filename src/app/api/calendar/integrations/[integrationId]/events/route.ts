@@ -6,6 +6,7 @@ import * as jwt from 'jsonwebtoken';
 import { getPrismaClient } from '@/lib/prisma';
 import { decrypt } from '@/lib/encryption';
 import { google } from 'googleapis';
+import { resolveTimeZone } from '@/lib/timezone-utils';
 
 /**
  * Get authenticated user's email from either NextAuth session or mobile Bearer token
@@ -293,10 +294,10 @@ async function createGoogleCalendarEvent(integration: any, eventData: any, prism
       location: eventData.location,
       start: eventData.isAllDay
         ? { date: eventData.startTime.split('T')[0] }
-        : { dateTime: eventData.startTime, timeZone: eventData.timezone || 'America/New_York' },
+        : { dateTime: eventData.startTime, timeZone: resolveTimeZone(eventData.timezone) },
       end: eventData.isAllDay
         ? { date: eventData.endTime.split('T')[0] }
-        : { dateTime: eventData.endTime, timeZone: eventData.timezone || 'America/New_York' },
+        : { dateTime: eventData.endTime, timeZone: resolveTimeZone(eventData.timezone) },
       attendees: eventData.participants?.map((p: any) => ({
         email: p.email,
         displayName: p.name
@@ -355,13 +356,13 @@ async function updateGoogleCalendarEvent(integration: any, eventData: any, prism
     if (eventData.startTime) {
       event.start = eventData.isAllDay
         ? { date: eventData.startTime.split('T')[0] }
-        : { dateTime: eventData.startTime, timeZone: eventData.timezone || 'America/New_York' };
+        : { dateTime: eventData.startTime, timeZone: resolveTimeZone(eventData.timezone) };
     }
 
     if (eventData.endTime) {
       event.end = eventData.isAllDay
         ? { date: eventData.endTime.split('T')[0] }
-        : { dateTime: eventData.endTime, timeZone: eventData.timezone || 'America/New_York' };
+        : { dateTime: eventData.endTime, timeZone: resolveTimeZone(eventData.timezone) };
     }
 
     const response = await calendar.events.patch({
@@ -3,7 +3,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getToken } from 'next-auth/jwt';
 import * as jwt from 'jsonwebtoken';
+import { Prisma, type SyncDirection } from '@prisma/client';
 import { getPrismaClient } from '@/lib/prisma';
+import { stopGooglePushChannel } from '@/lib/google-push-channels';
+import { parseMappingRule } from '@/lib/calendar-routing';
+
+const SYNC_DIRECTIONS: SyncDirection[] = ['BIDIRECTIONAL', 'EXPORT_ONLY', 'IMPORT_ONLY'];
 
 /**
  * Get authenticated user's email from either NextAuth session or mobile Bearer token
@@ -96,6 +101,8 @@ export async function GET(
         calendarName: integration.calendarName,
         calendarEmail: integration.calendarEmail,
         isActive: integration.isActive,
+        syncDirection: integration.syncDirection,
+        mappingRule: parseMappingRule(integration.mappingRule),
         expiresAt: integration.expiresAt,
         lastSyncAt: integration.lastSyncAt,
         lastSyncError: integration.lastSyncError,
@@ -122,6 +129,115 @@ export async function GET(
   }
 }
 
+// Change what a synced calendar receives and imports
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ integrationId: string }> }
+) {
+  try {
+    const { integrationId } = await params;
+
+    // Get authenticated user from either NextAuth or mobile JWT
+    const authUser = await getAuthenticatedUser(request);
+
+    if (!authUser) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const prisma = getPrismaClient();
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      );
+    }
+
+    const integration = await prisma.calendarIntegration.findUnique({
+      where: { id: integrationId },
+      include: {
+        participant: true
+      }
+    });
+
+    if (!integration) {
+      return NextResponse.json(
+        { success: false, error: 'Integration not found' },
+        { status: 404 }
+      );
+    }
+
+    // Authorization check: ensure user owns this integration
+    if (integration.participant.email !== authUser.email && authUser.role !== 'SUPER_ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const data: Prisma.CalendarIntegrationUpdateInput = {};
+
+    if (body.syncDirection !== undefined) {
+      if (!SYNC_DIRECTIONS.includes(body.syncDirection)) {
+        return NextResponse.json(
+          { success: false, error: `syncDirection must be one of ${SYNC_DIRECTIONS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      data.syncDirection = body.syncDirection;
+    }
+
+    if (body.mappingRule !== undefined) {
+      const rule = parseMappingRule(body.mappingRule);
+      data.mappingRule = rule ? (rule as Prisma.InputJsonValue) : Prisma.DbNull;
+    }
+
+    if (typeof body.calendarName === 'string' && body.calendarName.trim()) {
+      data.calendarName = body.calendarName.trim();
+    }
+
+    if (typeof body.isActive === 'boolean') {
+      data.isActive = body.isActive;
+    }
+
+    const updated = await prisma.calendarIntegration.update({
+      where: { id: integrationId },
+      data
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: updated.id,
+        provider: updated.provider,
+        externalId: updated.externalId,
+        calendarName: updated.calendarName,
+        calendarEmail: updated.calendarEmail,
+        isActive: updated.isActive,
+        syncDirection: updated.syncDirection,
+        mappingRule: parseMappingRule(updated.mappingRule),
+      }
+    });
+  } catch (error) {
+    console.error('Failed to update calendar integration:', error);
+
+    const isDevelopment = process.env.NODE_ENV === 'development';
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update integration',
+        ...(isDevelopment && {
+          details: error instanceof Error ? error.message : String(error)
+        })
+      },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ integrationId: string }> }
@@ -177,6 +293,15 @@ export async function DELETE(
       );
     }
 
+    // Stop Google's push channel while we still hold the tokens to do it
+    if (integration.provider === 'GOOGLE' && integration.webhookId) {
+      try {
+        await stopGooglePushChannel(integration);
+      } catch (channelError) {
+        console.error('Failed to stop Google push channel:', channelError);
+      }
+    }
+
     // Delete the integration (tokens will be deleted from database)
     await prisma.calendarIntegration.delete({
       where: { id: integrationId }
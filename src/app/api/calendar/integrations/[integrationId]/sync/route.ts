@@ -1,11 +1,15 @@
 // API endpoint to sync events from a calendar integration
 // Uses stored encrypted tokens - mobile doesn't need to handle tokens
+// Each sync is journaled (see lib/sync-journal); { "dryRun": true } reports what a sync would
+// change without writing anything.
 import { NextRequest, NextResponse } from 'next/server';
 import { getToken } from 'next-auth/jwt';
 import * as jwt from 'jsonwebtoken';
 import { getPrismaClient } from '@/lib/prisma';
 import { decrypt } from '@/lib/encryption';
 import { google } from 'googleapis';
+import { CalendarSyncService } from '@/lib/calendar-sync';
+import type { SyncRunSummary } from '@/lib/sync-journal';
 
 /**
  * Get authenticated user's email from either NextAuth session or mobile Bearer token
@@ -109,8 +113,10 @@ export async function POST(
     // Parse request body for date range
     let startDate: Date;
     let endDate: Date;
+    let dryRun = false;
     try {
       const body = await request.json();
+      dryRun = body.dryRun === true;
       startDate = body.startDate ? new Date(body.startDate) : new Date();
       endDate = body.endDate ? new Date(body.endDate) : new Date();
 
@@ -129,16 +135,37 @@ export async function POST(
       endDate.setDate(endDate.getDate() + 90);
     }
 
+    // Pull remote changes into local events - or, in a dry run, only list them
+    const pull = await CalendarSyncService.pullFromIntegration(integration.id, {
+      trigger: 'manual',
+      dryRun,
+      startDate,
+      endDate
+    });
+
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        data: [],
+        run: pull.run,
+        conflicts: pull.conflicts.length
+      });
+    }
+
     // Handle based on provider
     if (integration.provider === 'GOOGLE') {
-      return await syncGoogleCalendar(integration, startDate, endDate, prisma);
+      return await syncGoogleCalendar(integration, startDate, endDate, prisma, pull.run);
     } else if (integration.provider === 'NOTION') {
-      return await syncNotionCalendar(integration, startDate, endDate, prisma);
+      return await syncNotionCalendar(integration, startDate, endDate, prisma, pull.run);
     } else {
-      return NextResponse.json(
-        { success: false, error: `Provider ${integration.provider} not supported` },
-        { status: 400 }
-      );
+      return NextResponse.json({
+        success: true,
+        data: pull.events,
+        syncedAt: new Date().toISOString(),
+        count: pull.events.length,
+        run: pull.run
+      });
     }
   } catch (error) {
     console.error('Calendar sync error:', error);
@@ -161,7 +188,8 @@ async function syncGoogleCalendar(
   integration: any,
   startDate: Date,
   endDate: Date,
-  prisma: any
+  prisma: any,
+  run?: SyncRunSummary
 ) {
   // Validate Google OAuth credentials
   if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET) {
@@ -273,7 +301,8 @@ async function syncGoogleCalendar(
       success: true,
       data: events,
       syncedAt: new Date().toISOString(),
-      count: events.length
+      count: events.length,
+      run
     });
 
   } catch (error: any) {
@@ -306,7 +335,8 @@ async function syncNotionCalendar(
   integration: any,
   startDate: Date,
   endDate: Date,
-  prisma: any
+  prisma: any,
+  run?: SyncRunSummary
 ) {
   // Decrypt access token
   let accessToken: string;
@@ -369,7 +399,8 @@ async function syncNotionCalendar(
         data: [],
         syncedAt: new Date().toISOString(),
         count: 0,
-        message: 'No calendar databases found'
+        message: 'No calendar databases found',
+        run
       });
     }
 
@@ -427,11 +458,11 @@ async function syncNotionCalendar(
       }
 
       const eventsData = await fallbackResponse.json();
-      return processNotionEvents(eventsData, integration, prisma, targetDatabaseId);
+      return processNotionEvents(eventsData, integration, prisma, targetDatabaseId, run);
     }
 
     const eventsData = await eventsResponse.json();
-    return processNotionEvents(eventsData, integration, prisma, targetDatabaseId);
+    return processNotionEvents(eventsData, integration, prisma, targetDatabaseId, run);
 
   } catch (error: any) {
     console.error('Notion Calendar API error:', error);
@@ -463,7 +494,8 @@ async function processNotionEvents(
   eventsData: any,
   integration: any,
   prisma: any,
-  targetDatabaseId: string
+  targetDatabaseId: string,
+  run?: SyncRunSummary
 ) {
   // Convert Notion pages to calendar events
   const events = eventsData.results.map((page: any) => {
@@ -521,6 +553,7 @@ async function processNotionEvents(
     success: true,
     data: events,
     syncedAt: new Date().toISOString(),
-    count: events.length
+    count: events.length,
+    run
   });
 }
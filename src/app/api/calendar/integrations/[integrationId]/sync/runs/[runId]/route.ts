@@ -0,0 +1,103 @@
+// API endpoint for one sync run - every change it made, with before/after payloads and errors
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import * as jwt from 'jsonwebtoken';
+import { getPrismaClient } from '@/lib/prisma';
+
+/**
+ * Get authenticated user's email from either NextAuth session or mobile Bearer token
+ */
+async function getAuthenticatedUser(request: NextRequest): Promise<{ email: string; role?: string } | null> {
+  // Try NextAuth session first (web app)
+  const nextAuthToken = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+  });
+
+  if (nextAuthToken?.email) {
+    return { email: nextAuthToken.email as string, role: nextAuthToken.role as string | undefined };
+  }
+
+  // Try mobile Bearer token
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.substring(7);
+    try {
+      const secret = process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET;
+      if (!secret) {
+        console.error('[calendar/sync-runs] No JWT secret configured');
+        return null;
+      }
+      const decoded = jwt.verify(token, secret) as { email?: string; role?: string };
+      if (decoded.email) {
+        return { email: decoded.email, role: decoded.role };
+      }
+    } catch (err) {
+      console.error('[calendar/sync-runs] Invalid mobile JWT:', err);
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The integration, if the signed-in user owns it - otherwise the error response to send
+ */
+async function loadOwnedIntegration(request: NextRequest, integrationId: string) {
+  const authUser = await getAuthenticatedUser(request);
+  if (!authUser) {
+    return { error: NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 }) };
+  }
+
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    return { error: NextResponse.json({ success: false, error: 'Database not available' }, { status: 503 }) };
+  }
+
+  const integration = await prisma.calendarIntegration.findUnique({
+    where: { id: integrationId },
+    include: { participant: true }
+  });
+
+  if (!integration) {
+    return { error: NextResponse.json({ success: false, error: 'Integration not found' }, { status: 404 }) };
+  }
+
+  if (integration.participant.email !== authUser.email && authUser.role !== 'SUPER_ADMIN') {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 403 }) };
+  }
+
+  return { integration, prisma };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ integrationId: string; runId: string }> }
+) {
+  try {
+    const { integrationId, runId } = await params;
+    const { prisma, error } = await loadOwnedIntegration(request, integrationId);
+    if (error) return error;
+
+    const run = await prisma.syncRun.findFirst({
+      where: { id: runId, integrationId },
+      include: { entries: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: 'Sync run not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: run });
+  } catch (error) {
+    console.error('Failed to fetch sync run:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch sync run' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+// API endpoint for the sync journal of a calendar integration
+// Lists recent sync runs with what each created, updated or deleted
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import * as jwt from 'jsonwebtoken';
+import { getPrismaClient } from '@/lib/prisma';
+
+/**
+ * Get authenticated user's email from either NextAuth session or mobile Bearer token
+ */
+async function getAuthenticatedUser(request: NextRequest): Promise<{ email: string; role?: string } | null> {
+  // Try NextAuth session first (web app)
+  const nextAuthToken = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+  });
+
+  if (nextAuthToken?.email) {
+    return { email: nextAuthToken.email as string, role: nextAuthToken.role as string | undefined };
+  }
+
+  // Try mobile Bearer token
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.substring(7);
+    try {
+      const secret = process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET;
+      if (!secret) {
+        console.error('[calendar/sync-runs] No JWT secret configured');
+        return null;
+      }
+      const decoded = jwt.verify(token, secret) as { email?: string; role?: string };
+      if (decoded.email) {
+        return { email: decoded.email, role: decoded.role };
+      }
+    } catch (err) {
+      console.error('[calendar/sync-runs] Invalid mobile JWT:', err);
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The integration, if the signed-in user owns it - otherwise the error response to send
+ */
+async function loadOwnedIntegration(request: NextRequest, integrationId: string) {
+  const authUser = await getAuthenticatedUser(request);
+  if (!authUser) {
+    return { error: NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 }) };
+  }
+
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    return { error: NextResponse.json({ success: false, error: 'Database not available' }, { status: 503 }) };
+  }
+
+  const integration = await prisma.calendarIntegration.findUnique({
+    where: { id: integrationId },
+    include: { participant: true }
+  });
+
+  if (!integration) {
+    return { error: NextResponse.json({ success: false, error: 'Integration not found' }, { status: 404 }) };
+  }
+
+  if (integration.participant.email !== authUser.email && authUser.role !== 'SUPER_ADMIN') {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 403 }) };
+  }
+
+  return { integration, prisma };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ integrationId: string }> }
+) {
+  try {
+    const { integrationId } = await params;
+    const { prisma, error } = await loadOwnedIntegration(request, integrationId);
+    if (error) return error;
+
+    const limit = Math.min(Number(new URL(request.url).searchParams.get('limit')) || 20, 100);
+    const runs = await prisma.syncRun.findMany({
+      where: { integrationId },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+      include: {
+        entries: { select: { direction: true, action: true, error: true } }
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: runs.map(({ entries, ...run }) => ({
+        ...run,
+        pulled: entries.filter(entry => entry.direction === 'PULL').length,
+        pushed: entries.filter(entry => entry.direction === 'PUSH').length,
+        failed: entries.filter(entry => entry.error).length
+      }))
+    });
+  } catch (error) {
+    console.error('Failed to list sync runs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list sync runs' },
+      { status: 500 }
+    );
+  }
+}
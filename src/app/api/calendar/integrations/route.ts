@@ -83,6 +83,8 @@ export async function GET(request: NextRequest) {
         calendarName: true,
         calendarEmail: true,
         isActive: true,
+        syncDirection: true,
+        mappingRule: true,
         expiresAt: true,
         lastSyncAt: true,
         lastSyncError: true,
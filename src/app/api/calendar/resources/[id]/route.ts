@@ -0,0 +1,77 @@
+/**
+ * Resource
+ *
+ * GET - the resource and its availability calendar
+ * PATCH { name?, kind?, capacity?, color?, notes?, isActive?, participantId?, availability? } -
+ *   change it; availability, when given, replaces the whole calendar
+ * DELETE - remove it with its bookings
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { deleteResource, getResource, ResourceError, updateResource } from '@/lib/resource-scheduling'
+
+const STATUS_BY_CODE: Record<ResourceError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+}
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof ResourceError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: STATUS_BY_CODE[error.code] }
+    )
+  }
+  console.error(`📅 [Resources] Error trying to ${action} resource:`, error)
+  return NextResponse.json(
+    { success: false, error: `Failed to ${action} the resource` },
+    { status: 500 }
+  )
+}
+
+async function isAuthenticated(request: NextRequest): Promise<boolean> {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+  return !!token?.email
+}
+
+const notAuthenticated = () =>
+  NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    if (!(await isAuthenticated(request))) return notAuthenticated()
+
+    const { id } = await context.params
+    return NextResponse.json({ success: true, data: await getResource(id) })
+  } catch (error) {
+    return errorResponse(error, 'load')
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    if (!(await isAuthenticated(request))) return notAuthenticated()
+
+    const { id } = await context.params
+    const resource = await updateResource(id, await request.json())
+    return NextResponse.json({ success: true, data: resource })
+  } catch (error) {
+    return errorResponse(error, 'update')
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    if (!(await isAuthenticated(request))) return notAuthenticated()
+
+    const { id } = await context.params
+    await deleteResource(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'delete')
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Resource bookings
+ * Books crews, vehicles and equipment on an event or appointment. A booking that would put a
+ * resource over its capacity, or outside its availability, is refused with 409 and the
+ * conflicts - send force: true to book anyway.
+ *
+ * PUT { eventId | appointmentId, resourceIds: string[], force? } - the job's resources, replacing
+ *   the ones it had
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { ResourceError, setJobResources } from '@/lib/resource-scheduling'
+
+const STATUS_BY_CODE: Record<ResourceError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { eventId, appointmentId, resourceIds, force } = await request.json()
+    if (!Array.isArray(resourceIds) || resourceIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'resourceIds must be a list of resource ids' },
+        { status: 400 }
+      )
+    }
+
+    const result = await setJobResources({ eventId, appointmentId }, resourceIds, { force: !!force })
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof ResourceError) {
+      return NextResponse.json(
+        { success: false, error: error.message, conflicts: error.details },
+        { status: STATUS_BY_CODE[error.code] }
+      )
+    }
+    console.error('📅 [Resources] Error booking resources:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to book the resources' },
+      { status: 500 }
+    )
+  }
+}
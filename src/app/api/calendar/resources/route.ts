@@ -0,0 +1,61 @@
+/**
+ * Resources
+ * Crews, vehicles and equipment that jobs are booked on, with their availability calendars.
+ *
+ * GET ?includeInactive=true - all resources (active ones only by default)
+ * POST { name, kind, capacity?, color?, notes?, participantId?, availability? } - add one
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { createResource, listResources, ResourceError } from '@/lib/resource-scheduling'
+
+const STATUS_BY_CODE: Record<ResourceError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const resources = await listResources({
+      includeInactive: request.nextUrl.searchParams.get('includeInactive') === 'true'
+    })
+    return NextResponse.json({ success: true, data: resources })
+  } catch (error) {
+    console.error('📅 [Resources] Error listing resources:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load resources' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const resource = await createResource(await request.json())
+    return NextResponse.json({ success: true, data: resource }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ResourceError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      )
+    }
+    console.error('📅 [Resources] Error creating resource:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create the resource' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Daily Route Plan
+ * Proposes an order for a day's field jobs that cuts driving, and flags back-to-back jobs
+ * without enough time to drive between them. Nothing is changed - the planner applies the
+ * proposed times through the events API.
+ *
+ * POST { eventIds: string[] } - the day's events, as shown in the planner
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { planDailyRoute } from '@/lib/route-optimizer'
+
+// A day's jobs - more than this is not a day and would take a long time to route
+const MAX_EVENTS = 40
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token?.email) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { eventIds } = await request.json()
+    if (!Array.isArray(eventIds) || eventIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'eventIds must be a list of event ids' },
+        { status: 400 }
+      )
+    }
+
+    if (eventIds.length > MAX_EVENTS) {
+      return NextResponse.json(
+        { success: false, error: `A route can have at most ${MAX_EVENTS} events` },
+        { status: 400 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    const participant = await prisma?.participant.findFirst({
+      where: { email: token.email },
+      select: { timezone: true }
+    })
+
+    const plan = await planDailyRoute(eventIds, participant?.timezone || undefined)
+    return NextResponse.json({ success: true, data: plan })
+  } catch (error) {
+    console.error('🚚 [RoutePlan] Error planning route:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to plan the route' },
+      { status: 500 }
+    )
+  }
+}
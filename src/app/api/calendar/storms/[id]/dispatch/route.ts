@@ -0,0 +1,49 @@
+/**
+ * Storm dispatch
+ * POST { dryRun?, startAt? } - create the prioritized dispatch list as calendar events, starting
+ *   when the snow stops (or startAt). With dryRun nothing is saved. Running it again only adds
+ *   contracts that weren't dispatched yet.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { dispatchStorm, SnowDispatchError } from '@/lib/snow-dispatch'
+
+const STATUS_BY_CODE: Record<SnowDispatchError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+}
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const body = await request.json().catch(() => ({}))
+    const startAt = body.startAt ? new Date(body.startAt) : undefined
+    if (startAt && Number.isNaN(startAt.getTime())) {
+      return NextResponse.json({ success: false, error: 'startAt must be a date' }, { status: 400 })
+    }
+
+    const result = await dispatchStorm(id, { dryRun: body.dryRun === true, startAt })
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof SnowDispatchError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      )
+    }
+    console.error('❄️ [SnowDispatch] Error dispatching storm:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to dispatch the storm' },
+      { status: 500 }
+    )
+  }
+}
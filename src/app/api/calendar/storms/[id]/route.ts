@@ -0,0 +1,43 @@
+/**
+ * Snow storm
+ * GET - the storm with its dispatched visits, and every snow contract checked against it:
+ *   which trigger (in dispatch order) and which don't, with the reason
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { evaluateStorm, getStormWithDispatches, SnowDispatchError } from '@/lib/snow-dispatch'
+
+const STATUS_BY_CODE: Record<SnowDispatchError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+}
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const storm = await getStormWithDispatches(id)
+    const { triggers } = await evaluateStorm(id)
+    return NextResponse.json({ success: true, data: { storm, triggers } })
+  } catch (error) {
+    if (error instanceof SnowDispatchError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      )
+    }
+    console.error('❄️ [SnowDispatch] Error loading storm:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load the storm' },
+      { status: 500 }
+    )
+  }
+}
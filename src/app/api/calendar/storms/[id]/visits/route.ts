@@ -0,0 +1,57 @@
+/**
+ * Storm visits
+ * POST { dispatchIds?, action: 'complete' | 'skip', completedAt?, notes? } - close dispatched
+ *   visits (all open ones when dispatchIds is omitted). Completed visits get a ServiceRecord and,
+ *   for contracts billed per visit, a draft invoice.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { completeStormVisits, SnowDispatchError } from '@/lib/snow-dispatch'
+
+const STATUS_BY_CODE: Record<SnowDispatchError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+}
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const body = await request.json()
+    if (body.action !== 'complete' && body.action !== 'skip') {
+      return NextResponse.json({ success: false, error: "action must be 'complete' or 'skip'" }, { status: 400 })
+    }
+    const completedAt = body.completedAt ? new Date(body.completedAt) : undefined
+    if (completedAt && Number.isNaN(completedAt.getTime())) {
+      return NextResponse.json({ success: false, error: 'completedAt must be a date' }, { status: 400 })
+    }
+
+    const results = await completeStormVisits(id, {
+      dispatchIds: Array.isArray(body.dispatchIds) ? body.dispatchIds : undefined,
+      skip: body.action === 'skip',
+      completedAt,
+      notes: typeof body.notes === 'string' ? body.notes : undefined
+    })
+    return NextResponse.json({ success: true, data: results })
+  } catch (error) {
+    if (error instanceof SnowDispatchError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      )
+    }
+    console.error('❄️ [SnowDispatch] Error closing storm visits:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update the visits' },
+      { status: 500 }
+    )
+  }
+}
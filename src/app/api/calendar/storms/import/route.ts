@@ -0,0 +1,35 @@
+/**
+ * Snowfall import
+ * POST { from?, to? } - pull snowfall reports from the weather feed (the last 7 days by default).
+ * Reports already imported update their storm unless it has been dispatched.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { importSnowfall } from '@/lib/snow-dispatch'
+
+const DEFAULT_LOOKBACK_DAYS = 7
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const to = body.to ? new Date(body.to) : new Date()
+    const from = body.from ? new Date(body.from) : new Date(to.getTime() - DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+      return NextResponse.json({ success: false, error: 'from and to must be dates, from first' }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, data: await importSnowfall(from, to) })
+  } catch (error) {
+    console.error('❄️ [SnowDispatch] Error importing snowfall:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to import snowfall' },
+      { status: 500 }
+    )
+  }
+}
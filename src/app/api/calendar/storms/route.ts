@@ -0,0 +1,58 @@
+/**
+ * Snow storms
+ * Snowfall events that White Knight's seasonal contracts are dispatched against.
+ *
+ * GET - recent storms, newest first
+ * POST { startedAt, endedAt?, accumulationCm, iceRisk?, temperatureC?, notes? } - enter one by hand
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { createSnowStorm, listSnowStorms, SnowDispatchError } from '@/lib/snow-dispatch'
+
+const STATUS_BY_CODE: Record<SnowDispatchError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    return NextResponse.json({ success: true, data: await listSnowStorms() })
+  } catch (error) {
+    console.error('❄️ [SnowDispatch] Error listing storms:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load storms' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (!token?.email) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const storm = await createSnowStorm(await request.json())
+    return NextResponse.json({ success: true, data: storm }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SnowDispatchError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: STATUS_BY_CODE[error.code] }
+      )
+    }
+    console.error('❄️ [SnowDispatch] Error creating storm:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save the storm' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Calendar Sync Conflicts
+ * Events changed both locally and in an external calendar where the same field changed on
+ * both sides. Changes to different fields are merged during sync and never show up here.
+ *
+ * GET lists the parked conflicts with their colliding fields; POST resolves one with a pick
+ * per field ('local' or 'remote').
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { CalendarSyncService } from '@/lib/calendar-sync'
+import { SYNC_FIELDS, parseSyncConflict, type FieldPicks, type SyncConflictSummary } from '@/lib/sync-merge'
+
+async function getIntegrationIds(request: NextRequest): Promise<string[] | null> {
+  const token = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+  })
+  if (!token?.email) return null
+
+  const prisma = getPrismaClient()
+  const integrations = await prisma?.calendarIntegration.findMany({
+    where: { participant: { email: token.email } },
+    select: { id: true }
+  })
+  return integrations?.map(integration => integration.id) || []
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const integrationIds = await getIntegrationIds(request)
+    if (!integrationIds) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    const syncs = await prisma.eventSync.findMany({
+      where: { integrationId: { in: integrationIds }, syncStatus: 'CONFLICT' },
+      include: {
+        event: { select: { id: true, title: true, startDateTime: true } },
+        integration: { select: { calendarName: true } }
+      },
+      orderBy: { updatedAt: 'desc' }
+    })
+
+    // Push-side conflicts (412 on write) have no remote copy to compare yet - the next pull fills it in
+    const conflicts = syncs.flatMap((sync): SyncConflictSummary[] => {
+      const conflictData = parseSyncConflict(sync.conflictData)
+      return conflictData ? [{
+        eventId: sync.eventId,
+        integrationId: sync.integrationId,
+        provider: sync.provider,
+        calendarName: sync.integration.calendarName,
+        title: sync.event.title,
+        startDateTime: sync.event.startDateTime,
+        remoteVersion: sync.remoteVersion,
+        collisions: conflictData.collisions
+      }] : []
+    })
+
+    return NextResponse.json({ success: true, data: conflicts })
+  } catch (error) {
+    console.error('Failed to list sync conflicts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list sync conflicts' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const integrationIds = await getIntegrationIds(request)
+    if (!integrationIds) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { eventId, integrationId, picks = {} } = await request.json()
+    if (!eventId || !integrationId) {
+      return NextResponse.json(
+        { success: false, error: 'eventId and integrationId are required' },
+        { status: 400 }
+      )
+    }
+    if (!integrationIds.includes(integrationId)) {
+      return NextResponse.json(
+        { success: false, error: 'Calendar integration not found' },
+        { status: 404 }
+      )
+    }
+
+    const invalid = Object.entries(picks as Record<string, unknown>)
+      .find(([field, side]) => !(field in SYNC_FIELDS) || (side !== 'local' && side !== 'remote'))
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, error: `Invalid pick ${invalid[0]}: expected one of ${Object.keys(SYNC_FIELDS).join(', ')} set to 'local' or 'remote'` },
+        { status: 400 }
+      )
+    }
+
+    const event = await CalendarSyncService.resolveSyncConflict(eventId, integrationId, picks as FieldPicks)
+    if (!event) {
+      return NextResponse.json(
+        { success: false, error: 'No open sync conflict for this event' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: event })
+  } catch (error) {
+    console.error('Failed to resolve sync conflict:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to resolve sync conflict' },
+      { status: 500 }
+    )
+  }
+}
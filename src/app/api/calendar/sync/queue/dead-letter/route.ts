@@ -0,0 +1,170 @@
+/**
+ * Sync Queue Dead Letter
+ * Sync operations that ran out of retries. They stay here until someone replays them
+ * (back to the queue with fresh retries) or discards them.
+ *
+ * GET lists them for the signed-in user's calendars; POST { ids } or { all: true } replays;
+ * DELETE { ids } or { all: true } discards.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { replayDeadLetters } from '@/lib/sync-queue-worker'
+
+async function getIntegrations(request: NextRequest) {
+  const token = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+  })
+  if (!token?.email) return null
+
+  const prisma = getPrismaClient()
+  return await prisma?.calendarIntegration.findMany({
+    where: { participant: { email: token.email } },
+    select: { id: true, provider: true, calendarName: true }
+  }) || []
+}
+
+/**
+ * IDs of the user's dead letters the request body names ({ ids } or { all: true })
+ */
+async function selectDeadLetters(request: NextRequest, integrationIds: string[]): Promise<string[] | null> {
+  const { ids, all } = await request.json().catch(() => ({}))
+  if (!all && (!Array.isArray(ids) || ids.length === 0)) return null
+
+  const prisma = getPrismaClient()
+  const items = await prisma?.syncQueue.findMany({
+    where: {
+      status: 'DEAD_LETTER',
+      integrationId: { in: integrationIds },
+      ...(!all && { id: { in: ids } })
+    },
+    select: { id: true }
+  })
+  return items?.map(item => item.id) || []
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const integrations = await getIntegrations(request)
+    if (!integrations) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    const items = await prisma.syncQueue.findMany({
+      where: { status: 'DEAD_LETTER', integrationId: { in: integrations.map(integration => integration.id) } },
+      orderBy: { processedAt: 'desc' }
+    })
+
+    const byId = new Map(integrations.map(integration => [integration.id, integration]))
+    const data = items.map(item => {
+      const integration = byId.get(item.integrationId!)
+      const payload = (item.payload || {}) as { title?: string }
+      return {
+        id: item.id,
+        operation: item.operation,
+        eventId: item.eventId,
+        title: payload.title || null,
+        integrationId: item.integrationId,
+        provider: integration?.provider,
+        calendarName: integration?.calendarName,
+        retryCount: item.retryCount,
+        lastError: item.lastError,
+        failedAt: item.processedAt,
+        createdAt: item.createdAt
+      }
+    })
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('Failed to list dead-lettered sync operations:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list dead-lettered sync operations' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const integrations = await getIntegrations(request)
+    if (!integrations) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const ids = await selectDeadLetters(request, integrations.map(integration => integration.id))
+    if (!ids) {
+      return NextResponse.json(
+        { success: false, error: 'ids or all is required' },
+        { status: 400 }
+      )
+    }
+
+    const replayed = await replayDeadLetters(ids)
+
+    return NextResponse.json({ success: true, replayed })
+  } catch (error) {
+    console.error('Failed to replay dead-lettered sync operations:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to replay dead-lettered sync operations' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const integrations = await getIntegrations(request)
+    if (!integrations) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const ids = await selectDeadLetters(request, integrations.map(integration => integration.id))
+    if (!ids) {
+      return NextResponse.json(
+        { success: false, error: 'ids or all is required' },
+        { status: 400 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    // Discarded items are cancelled rather than deleted, so queue cleanup removes them later
+    const { count } = await prisma.syncQueue.updateMany({
+      where: { id: { in: ids }, status: 'DEAD_LETTER' },
+      data: { status: 'CANCELLED' }
+    })
+
+    return NextResponse.json({ success: true, discarded: count })
+  } catch (error) {
+    console.error('Failed to discard dead-lettered sync operations:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to discard dead-lettered sync operations' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,16 +1,18 @@
 /**
  * Sync Queue Processor API Endpoint
- * Processes pending sync operations with retry logic
+ * Processes pending sync operations with retry logic (see lib/sync-queue-worker)
  *
  * Should be called by:
- * 1. Cron job (every 1-5 minutes)
+ * 1. Cron job (every 1-5 minutes), unless `npm run sync:worker` is running
  * 2. Manual trigger from admin panel
  * 3. After failed sync operations
+ *
+ * Items out of retries are kept as DEAD_LETTER - see ./dead-letter
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getPrismaClient } from '@/lib/prisma'
-import { CalendarSyncService } from '@/lib/calendar-sync'
+import { processSyncQueue, type SyncQueueOptions } from '@/lib/sync-queue-worker'
 
 /**
  * Process sync queue
@@ -58,157 +60,16 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Process pending sync operations
+ * Process one batch of due items - options override SYNC_QUEUE_DEFAULTS
  */
 export async function POST(request: NextRequest) {
   try {
-    const prisma = getPrismaClient()
-    if (!prisma) {
-      return NextResponse.json(
-        { success: false, error: 'Database not available' },
-        { status: 503 }
-      )
-    }
-
-    // Get request parameters
     const body = await request.json().catch(() => ({}))
-    const batchSize = body.batchSize || 10
-    const maxRetries = body.maxRetries || 3
-
-    // Get pending queue items
-    const queueItems = await prisma.syncQueue.findMany({
-      where: {
-        status: 'PENDING',
-        scheduledFor: { lte: new Date() },
-        retryCount: { lt: maxRetries }
-      },
-      orderBy: [
-        { priority: 'desc' },
-        { scheduledFor: 'asc' }
-      ],
-      take: batchSize
-    })
-
-    console.log(`📅 [SyncQueue] Processing ${queueItems.length} queue items`)
-
-    const results = {
-      processed: 0,
-      succeeded: 0,
-      failed: 0,
-      retried: 0
-    }
-
-    for (const item of queueItems) {
-      try {
-        // Mark as processing
-        await prisma.syncQueue.update({
-          where: { id: item.id },
-          data: { status: 'PROCESSING' }
-        })
-
-        // Process based on operation type
-        let success = false
-
-        switch (item.operation) {
-          case 'CREATE_EVENT':
-          case 'UPDATE_EVENT':
-            success = await processEventSync(item, prisma)
-            break
-
-          case 'DELETE_EVENT':
-            success = await processEventDelete(item, prisma)
-            break
-
-          case 'PULL_CHANGES':
-            success = await processPullChanges(item, prisma)
-            break
+    const options: Partial<SyncQueueOptions> = {}
+    if (Number(body.batchSize) > 0) options.batchSize = Number(body.batchSize)
+    if (Number(body.concurrencyPerIntegration) > 0) options.concurrencyPerIntegration = Number(body.concurrencyPerIntegration)
 
-          case 'PUSH_CHANGES':
-            success = await processPushChanges(item, prisma)
-            break
-
-          case 'RESOLVE_CONFLICT':
-            success = await processConflictResolution(item, prisma)
-            break
-
-          default:
-            console.warn('📅 [SyncQueue] Unknown operation:', item.operation)
-            success = false
-        }
-
-        if (success) {
-          // Mark as completed
-          await prisma.syncQueue.update({
-            where: { id: item.id },
-            data: {
-              status: 'COMPLETED',
-              processedAt: new Date()
-            }
-          })
-          results.succeeded++
-        } else {
-          // Increment retry count or fail permanently
-          const newRetryCount = item.retryCount + 1
-
-          if (newRetryCount >= item.maxRetries) {
-            await prisma.syncQueue.update({
-              where: { id: item.id },
-              data: {
-                status: 'FAILED',
-                retryCount: newRetryCount,
-                processedAt: new Date(),
-                lastError: 'Max retries exceeded'
-              }
-            })
-            results.failed++
-          } else {
-            // Exponential backoff: 2^retryCount minutes
-            const backoffMinutes = Math.pow(2, newRetryCount)
-            const nextSchedule = new Date(Date.now() + backoffMinutes * 60 * 1000)
-
-            await prisma.syncQueue.update({
-              where: { id: item.id },
-              data: {
-                status: 'PENDING',
-                retryCount: newRetryCount,
-                scheduledFor: nextSchedule
-              }
-            })
-            results.retried++
-          }
-        }
-
-        results.processed++
-      } catch (error) {
-        console.error('📅 [SyncQueue] Error processing item:', item.id, error)
-
-        // Mark as failed or retry
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-        const newRetryCount = item.retryCount + 1
-
-        await prisma.syncQueue.update({
-          where: { id: item.id },
-          data: {
-            status: newRetryCount >= item.maxRetries ? 'FAILED' : 'PENDING',
-            retryCount: newRetryCount,
-            lastError: errorMessage,
-            scheduledFor: newRetryCount < item.maxRetries
-              ? new Date(Date.now() + Math.pow(2, newRetryCount) * 60 * 1000)
-              : undefined,
-            ...(newRetryCount >= item.maxRetries && { processedAt: new Date() })
-          }
-        })
-
-        results.processed++
-        if (newRetryCount >= item.maxRetries) {
-          results.failed++
-        } else {
-          results.retried++
-        }
-      }
-    }
-
-    console.log('📅 [SyncQueue] Processing complete:', results)
+    const results = await processSyncQueue(options)
 
     return NextResponse.json({
       success: true,
@@ -228,112 +89,7 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Process event create/update sync
- */
-async function processEventSync(item: any, prisma: any): Promise<boolean> {
-  try {
-    const event = item.payload as any
-
-    if (!event.id || !item.integrationId) {
-      console.error('📅 [SyncQueue] Invalid event sync payload')
-      return false
-    }
-
-    const integration = await prisma.calendarIntegration.findUnique({
-      where: { id: item.integrationId }
-    })
-
-    if (!integration) {
-      console.error('📅 [SyncQueue] Integration not found:', item.integrationId)
-      return false
-    }
-
-    const operation = item.operation === 'CREATE_EVENT' ? 'create' : 'update'
-    const results = await CalendarSyncService.pushEventToExternalCalendars(event, operation)
-
-    // Consider success if at least one integration succeeded
-    return results.some(r => r.success)
-  } catch (error) {
-    console.error('📅 [SyncQueue] Event sync error:', error)
-    return false
-  }
-}
-
-/**
- * Process event deletion sync
- */
-async function processEventDelete(item: any, prisma: any): Promise<boolean> {
-  try {
-    const event = item.payload as any
-
-    if (!event.id || !item.integrationId) {
-      return false
-    }
-
-    const results = await CalendarSyncService.pushEventToExternalCalendars(event, 'delete')
-    return results.some(r => r.success)
-  } catch (error) {
-    console.error('📅 [SyncQueue] Event delete error:', error)
-    return false
-  }
-}
-
-/**
- * Process pull changes from external calendar
- */
-async function processPullChanges(item: any, prisma: any): Promise<boolean> {
-  try {
-    const { startDate, endDate } = item.payload
-    const result = await CalendarSyncService.pullEventsFromExternalCalendars(
-      startDate ? new Date(startDate) : undefined,
-      endDate ? new Date(endDate) : undefined
-    )
-
-    console.log(`📅 [SyncQueue] Pulled ${result.events.length} events, ${result.conflicts.length} conflicts`)
-    return true
-  } catch (error) {
-    console.error('📅 [SyncQueue] Pull changes error:', error)
-    return false
-  }
-}
-
-/**
- * Process push changes to external calendar
- */
-async function processPushChanges(item: any, prisma: any): Promise<boolean> {
-  try {
-    // This would sync all local events modified since last sync
-    // Implementation depends on your sync strategy
-    console.log('📅 [SyncQueue] Push changes not yet implemented')
-    return false
-  } catch (error) {
-    console.error('📅 [SyncQueue] Push changes error:', error)
-    return false
-  }
-}
-
-/**
- * Process conflict resolution
- */
-async function processConflictResolution(item: any, prisma: any): Promise<boolean> {
-  try {
-    const { eventId, resolution } = item.payload
-
-    // Resolution strategies:
-    // - 'local': Keep local version
-    // - 'remote': Keep remote version
-    // - 'merge': Attempt to merge changes
-
-    console.log('📅 [SyncQueue] Conflict resolution not yet implemented')
-    return false
-  } catch (error) {
-    console.error('📅 [SyncQueue] Conflict resolution error:', error)
-    return false
-  }
-}
-
-/**
- * Clear completed queue items (cleanup endpoint)
+ * Clear completed queue items (cleanup endpoint) - dead letters stay until replayed or discarded
  */
 export async function DELETE(request: NextRequest) {
   try {
@@ -0,0 +1,97 @@
+/**
+ * Calendar Time Zone
+ * The signed-in user's IANA time zone (Participant.timezone). Events without a zone of their
+ * own are wall-clock times in it, and calendar sync sends them to Google, Outlook, Notion and
+ * CalDAV in it.
+ *
+ * GET returns the stored zone (or the default); PUT { timezone } changes it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/timezone-utils'
+
+async function getEmail(request: NextRequest): Promise<string | null> {
+  const token = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+  })
+  return token?.email || null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const email = await getEmail(request)
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    const participant = await prisma?.participant.findFirst({
+      where: { email },
+      select: { timezone: true }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { timezone: participant?.timezone || DEFAULT_TIMEZONE, isDefault: !participant?.timezone }
+    })
+  } catch (error) {
+    console.error('Failed to load time zone:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load time zone' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const email = await getEmail(request)
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { timezone } = await request.json()
+    if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+      return NextResponse.json(
+        { success: false, error: 'timezone must be an IANA time zone, e.g. America/Toronto' },
+        { status: 400 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    const { count } = await prisma.participant.updateMany({
+      where: { email },
+      data: { timezone }
+    })
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No participant record for this account' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: { timezone } })
+  } catch (error) {
+    console.error('Failed to save time zone:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save time zone' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,22 +2,34 @@
  * Google Calendar Webhook Endpoint
  * Receives push notifications from Google Calendar when events change
  *
- * Setup instructions:
- * 1. Register webhook channel using Google Calendar API: calendar.events.watch()
- * 2. Google will send notifications to this endpoint when calendar changes
- * 3. Webhook expires after ~7 days, needs renewal
+ * Channel lifecycle (see lib/google-push-channels):
+ * 1. A channel is registered when a Google calendar is connected, or with PUT
+ * 2. Google sends notifications here; each carries the channel's secret in x-goog-channel-token
+ * 3. Channels expire after ~7 days - GET (run from cron) renews them a day ahead and polls
+ *    integrations without a live channel via their syncToken
+ * 4. DELETE (or disconnecting the calendar) stops the channel
+ *
+ * POST is public so Google can reach it. PUT and DELETE require a signed-in user; GET takes a
+ * signed-in user or CRON_SECRET as a bearer token.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
 import { getPrismaClient } from '@/lib/prisma'
 import { CalendarSyncService } from '@/lib/calendar-sync'
+import {
+  maintainGooglePushChannels,
+  registerGooglePushChannel,
+  stopGooglePushChannel,
+  verifyGoogleChannelToken
+} from '@/lib/google-push-channels'
 
 /**
  * Handle Google Calendar push notifications
  *
  * Google sends two types of requests:
- * 1. Sync notification: Calendar has changed, need to fetch updates
- * 2. Verification: Initial webhook setup verification
+ * 1. Sync notification: the channel was just created - nothing changed yet
+ * 2. Change notification (exists / not_exists): calendar has changed, need to fetch updates
  */
 export async function POST(request: NextRequest) {
   try {
@@ -30,11 +42,9 @@ export async function POST(request: NextRequest) {
     console.log('📅 [GoogleWebhook] Received notification:', {
       channelId,
       resourceState,
-      channelToken,
       resourceId
     })
 
-    // Verify this is a legitimate Google notification
     if (!channelId || !resourceState) {
       return NextResponse.json(
         { success: false, error: 'Invalid notification headers' },
@@ -42,44 +52,52 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Handle sync notification
-    if (resourceState === 'sync') {
-      // This is the initial verification message
-      console.log('📅 [GoogleWebhook] Webhook verification successful')
-      return NextResponse.json({ success: true, message: 'Webhook verified' })
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
     }
 
-    // Handle exists (calendar changed)
-    if (resourceState === 'exists') {
-      console.log('📅 [GoogleWebhook] Calendar change detected, triggering sync...')
-
-      const prisma = getPrismaClient()
-      if (!prisma) {
-        return NextResponse.json(
-          { success: false, error: 'Database not available' },
-          { status: 503 }
-        )
+    // Find the integration associated with this channel
+    const integration = await prisma.calendarIntegration.findFirst({
+      where: {
+        webhookId: channelId,
+        provider: 'GOOGLE',
+        isActive: true
       }
+    })
 
-      // Find the integration associated with this webhook
-      const integration = await prisma.calendarIntegration.findFirst({
-        where: {
-          webhookId: channelId,
-          isActive: true
-        }
-      })
+    if (!integration) {
+      // A replaced or stopped channel can still deliver a notification or two
+      console.warn('📅 [GoogleWebhook] No integration found for channel:', channelId)
+      return NextResponse.json(
+        { success: false, error: 'Integration not found' },
+        { status: 404 }
+      )
+    }
 
-      if (!integration) {
-        console.warn('📅 [GoogleWebhook] No integration found for webhook:', channelId)
-        return NextResponse.json(
-          { success: false, error: 'Integration not found' },
-          { status: 404 }
-        )
-      }
+    // Verify this is a legitimate Google notification for this channel
+    if (!verifyGoogleChannelToken(integration, channelToken) ||
+        (integration.webhookResourceId && resourceId !== integration.webhookResourceId)) {
+      console.warn('📅 [GoogleWebhook] Channel token mismatch, ignoring notification for:', channelId)
+      return NextResponse.json(
+        { success: false, error: 'Invalid channel token' },
+        { status: 401 }
+      )
+    }
 
-      // Queue a pull operation to fetch the latest changes
-      // This is async - we respond immediately and process in background
-      CalendarSyncService.pullEventsFromExternalCalendars()
+    if (resourceState === 'sync') {
+      console.log('📅 [GoogleWebhook] Channel verified:', channelId)
+      return NextResponse.json({ success: true, message: 'Webhook verified' })
+    }
+
+    if (resourceState === 'exists' || resourceState === 'not_exists') {
+      console.log('📅 [GoogleWebhook] Calendar change detected, triggering sync...')
+
+      // Respond immediately - Google retries notifications that aren't acknowledged quickly
+      CalendarSyncService.pullFromIntegration(integration.id)
         .then(result => {
           console.log(`📅 [GoogleWebhook] Sync completed: ${result.events.length} events, ${result.conflicts.length} conflicts`)
         })
@@ -110,11 +128,62 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Register a new webhook with Google Calendar
- * Call this endpoint to set up push notifications
+ * Renew expiring channels and poll Google integrations without one - run from cron
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const isCron = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`
+    if (!isCron) {
+      const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+      if (token?.role !== 'SUPER_ADMIN') {
+        return NextResponse.json(
+          { success: false, error: 'Not authorized' },
+          { status: token ? 403 : 401 }
+        )
+      }
+    }
+
+    const result = await maintainGooglePushChannels()
+    console.log(`📅 [GoogleWebhook] Channels renewed: ${result.renewed.length}, failed: ${result.failed.length}, polled: ${result.polled.length}`)
+
+    return NextResponse.json({ success: true, ...result })
+
+  } catch (error) {
+    console.error('📅 [GoogleWebhook] Error maintaining channels:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Channel maintenance failed'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Register (or renew) the push channel for a Google integration
  */
 export async function PUT(request: NextRequest) {
   try {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+    if (token.role !== 'SUPER_ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
     const { integrationId } = await request.json()
 
     if (!integrationId) {
@@ -132,7 +201,6 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    // Get integration
     const integration = await prisma.calendarIntegration.findUnique({
       where: { id: integrationId }
     })
@@ -146,62 +214,23 @@ export async function PUT(request: NextRequest) {
 
     if (integration.provider !== 'GOOGLE') {
       return NextResponse.json(
-        { success: false, error: 'Only Google Calendar supports webhooks' },
+        { success: false, error: 'Integration is not a Google calendar' },
         { status: 400 }
       )
     }
 
-    // Set up webhook using Google Calendar API
-    const { decrypt } = await import('@/lib/encryption')
-    const { google } = await import('googleapis')
-
-    const accessToken = decrypt(integration.accessToken)
-    const refreshToken = integration.refreshToken ? decrypt(integration.refreshToken) : null
-
-    const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      process.env.GOOGLE_REDIRECT_URI
-    )
-
-    oauth2Client.setCredentials({
-      access_token: accessToken,
-      refresh_token: refreshToken
-    })
-
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
-    const calendarId = integration.externalId || 'primary'
-
-    // Generate unique channel ID
-    const channelId = `webhook-${integrationId}-${Date.now()}`
-
-    // Register webhook
-    const response = await calendar.events.watch({
-      calendarId,
-      requestBody: {
-        id: channelId,
-        type: 'web_hook',
-        address: `${process.env.NEXT_PUBLIC_APP_URL}/api/calendar/webhooks/google`,
-        token: integrationId, // Use integration ID as verification token
-        expiration: String(Date.now() + (7 * 24 * 60 * 60 * 1000)) // 7 days
-      }
-    })
-
-    // Store webhook info
-    await prisma.calendarIntegration.update({
-      where: { id: integrationId },
-      data: {
-        webhookId: channelId,
-        webhookExpiry: new Date(parseInt(response.data.expiration || '0'))
-      }
-    })
-
-    console.log('📅 [GoogleWebhook] Webhook registered:', channelId)
+    const channel = await registerGooglePushChannel(integration)
+    if (!channel) {
+      return NextResponse.json(
+        { success: false, error: 'Push notifications need NEXT_PUBLIC_APP_URL to be a public HTTPS URL - the calendar is polled instead' },
+        { status: 409 }
+      )
+    }
 
     return NextResponse.json({
       success: true,
-      webhookId: channelId,
-      expiry: response.data.expiration
+      webhookId: channel.channelId,
+      expiry: channel.expiry.toISOString()
     })
 
   } catch (error) {
@@ -221,6 +250,24 @@ export async function PUT(request: NextRequest) {
  */
 export async function DELETE(request: NextRequest) {
   try {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+    if (token.role !== 'SUPER_ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
     const { searchParams } = new URL(request.url)
     const integrationId = searchParams.get('integrationId')
 
@@ -243,51 +290,14 @@ export async function DELETE(request: NextRequest) {
       where: { id: integrationId }
     })
 
-    if (!integration || !integration.webhookId) {
+    if (!integration || integration.provider !== 'GOOGLE' || !integration.webhookId) {
       return NextResponse.json(
         { success: false, error: 'No active webhook found' },
         { status: 404 }
       )
     }
 
-    // Stop webhook using Google Calendar API
-    const { decrypt } = await import('@/lib/encryption')
-    const { google } = await import('googleapis')
-
-    const accessToken = decrypt(integration.accessToken)
-    const refreshToken = integration.refreshToken ? decrypt(integration.refreshToken) : null
-
-    const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      process.env.GOOGLE_REDIRECT_URI
-    )
-
-    oauth2Client.setCredentials({
-      access_token: accessToken,
-      refresh_token: refreshToken
-    })
-
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
-
-    // Stop the channel
-    await calendar.channels.stop({
-      requestBody: {
-        id: integration.webhookId,
-        resourceId: integration.externalId || 'primary'
-      }
-    })
-
-    // Clear webhook info
-    await prisma.calendarIntegration.update({
-      where: { id: integrationId },
-      data: {
-        webhookId: null,
-        webhookExpiry: null
-      }
-    })
-
-    console.log('📅 [GoogleWebhook] Webhook stopped:', integration.webhookId)
+    await stopGooglePushChannel(integration)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,301 @@
+/**
+ * Outlook Calendar Webhook Endpoint
+ * Receives Microsoft Graph change notifications when events in a connected Outlook calendar change
+ *
+ * Setup instructions:
+ * 1. Register a subscription with PUT (needs a publicly reachable NEXT_PUBLIC_APP_URL)
+ * 2. Graph validates the endpoint, then posts notifications here on every change
+ * 3. Subscriptions expire after ~3 days - PUT again to renew
+ *
+ * POST is public so Graph can reach it; notifications are checked against the clientState
+ * we registered. PUT and DELETE require a signed-in user.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getPrismaClient } from '@/lib/prisma'
+import { CalendarSyncService } from '@/lib/calendar-sync'
+import {
+  GraphCalendarClient,
+  GraphError,
+  getOutlookAccessToken,
+  outlookClientState,
+  verifyOutlookClientState
+} from '@/lib/outlook-calendar'
+
+interface GraphNotification {
+  subscriptionId: string
+  clientState?: string
+  changeType: string
+  resource: string
+  lifecycleEvent?: string
+}
+
+/**
+ * Handle Graph change notifications
+ *
+ * Graph sends two types of requests:
+ * 1. Validation: ?validationToken=... when the subscription is created - echo it back as text
+ * 2. Notifications: a batch of changes, to be acknowledged with 202 within a few seconds
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const validationToken = new URL(request.url).searchParams.get('validationToken')
+    if (validationToken) {
+      return new NextResponse(validationToken, {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain' }
+      })
+    }
+
+    const { value: notifications = [] } = (await request.json()) as { value?: GraphNotification[] }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    let accepted = 0
+    const integrationIds = new Set<string>()
+    for (const notification of notifications) {
+      const integration = await prisma.calendarIntegration.findFirst({
+        where: {
+          webhookId: notification.subscriptionId,
+          provider: 'OUTLOOK',
+          isActive: true
+        }
+      })
+
+      if (!integration) {
+        console.warn('📅 [OutlookWebhook] No integration found for subscription:', notification.subscriptionId)
+        continue
+      }
+
+      if (!verifyOutlookClientState(integration.id, notification.clientState)) {
+        console.warn('📅 [OutlookWebhook] clientState mismatch, ignoring notification for:', notification.subscriptionId)
+        continue
+      }
+
+      accepted++
+      integrationIds.add(integration.id)
+    }
+
+    if (accepted > 0) {
+      // Respond immediately - Graph retries notifications that take too long to acknowledge.
+      // Only the calendars that actually changed are pulled, once per batch.
+      for (const integrationId of integrationIds) {
+        CalendarSyncService.pullFromIntegration(integrationId, { trigger: 'webhook' })
+          .then(result => {
+            if (result.error !== undefined) console.error('📅 [OutlookWebhook] Sync error:', result.error)
+          })
+          .catch(error => {
+            console.error('📅 [OutlookWebhook] Sync error:', error)
+          })
+      }
+    }
+
+    return NextResponse.json({ success: true, accepted }, { status: 202 })
+
+  } catch (error) {
+    console.error('📅 [OutlookWebhook] Error processing webhook:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Webhook processing failed'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Register (or renew) a Graph subscription for an Outlook integration
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+    if (token.role !== 'SUPER_ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { integrationId } = await request.json()
+
+    if (!integrationId) {
+      return NextResponse.json(
+        { success: false, error: 'Integration ID required' },
+        { status: 400 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    const integration = await prisma.calendarIntegration.findUnique({
+      where: { id: integrationId }
+    })
+
+    if (!integration) {
+      return NextResponse.json(
+        { success: false, error: 'Integration not found' },
+        { status: 404 }
+      )
+    }
+
+    if (integration.provider !== 'OUTLOOK') {
+      return NextResponse.json(
+        { success: false, error: 'Integration is not an Outlook calendar' },
+        { status: 400 }
+      )
+    }
+
+    const graph = new GraphCalendarClient(await getOutlookAccessToken(integration))
+
+    let subscription
+    if (integration.webhookId) {
+      try {
+        subscription = await graph.renewSubscription(integration.webhookId)
+      } catch (error) {
+        // Already expired and removed by Graph - register a new one
+        if (!(error instanceof GraphError && error.isNotFound)) throw error
+      }
+    }
+
+    if (!subscription) {
+      subscription = await graph.createSubscription({
+        calendarId: integration.externalId,
+        notificationUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/calendar/webhooks/outlook`,
+        clientState: outlookClientState(integration.id)
+      })
+    }
+
+    await prisma.calendarIntegration.update({
+      where: { id: integrationId },
+      data: {
+        webhookId: subscription.id,
+        webhookExpiry: new Date(subscription.expirationDateTime)
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      webhookId: subscription.id,
+      expiry: subscription.expirationDateTime
+    })
+
+  } catch (error) {
+    console.error('📅 [OutlookWebhook] Error registering subscription:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Subscription registration failed'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Stop receiving change notifications
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = await getToken({
+      req: request,
+      secret: process.env.NEXTAUTH_SECRET,
+    })
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+    if (token.role !== 'SUPER_ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const integrationId = searchParams.get('integrationId')
+
+    if (!integrationId) {
+      return NextResponse.json(
+        { success: false, error: 'Integration ID required' },
+        { status: 400 }
+      )
+    }
+
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return NextResponse.json(
+        { success: false, error: 'Database not available' },
+        { status: 503 }
+      )
+    }
+
+    const integration = await prisma.calendarIntegration.findUnique({
+      where: { id: integrationId }
+    })
+
+    if (!integration || integration.provider !== 'OUTLOOK' || !integration.webhookId) {
+      return NextResponse.json(
+        { success: false, error: 'No active subscription found' },
+        { status: 404 }
+      )
+    }
+
+    const graph = new GraphCalendarClient(await getOutlookAccessToken(integration))
+    try {
+      await graph.deleteSubscription(integration.webhookId)
+    } catch (error) {
+      // Already expired on Graph's side
+      if (!(error instanceof GraphError && error.isNotFound)) throw error
+    }
+
+    await prisma.calendarIntegration.update({
+      where: { id: integrationId },
+      data: {
+        webhookId: null,
+        webhookExpiry: null
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Subscription deleted'
+    })
+
+  } catch (error) {
+    console.error('📅 [OutlookWebhook] Error deleting subscription:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete subscription'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getPrismaClient, isPrismaAvailable } from '@/lib/prisma';
+import { JsonFieldParsers } from '@/lib/json-fields';
+import type { ClientTimePreferences } from '@/lib/conflict-detector';
+
+// Get Prisma client instance
+const prisma = getPrismaClient();
+const isDatabaseAvailable = isPrismaAvailable();
+
+// GET /api/clients/preferences
+// Preferred days and hours of every client that has set them - what scheduling needs, without
+// paging through whole client records
+export async function GET() {
+  try {
+    if (!isDatabaseAvailable || !prisma) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not available'
+      }, { status: 503 });
+    }
+
+    const clients = await prisma.clientRecord.findMany({
+      where: { contactPreferences: { not: Prisma.DbNull } },
+      select: { id: true, contactPreferences: true }
+    });
+
+    const data = clients.flatMap(client => {
+      const { availableDays, availableHours } =
+        JsonFieldParsers.parseContactPreferences(client.contactPreferences) as ClientTimePreferences;
+      if (!availableDays?.length && !availableHours) return [];
+      return [{ id: client.id, availableDays, availableHours }];
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Client preferences error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve client preferences'
+    }, { status: 500 });
+  }
+}
@@ -4,9 +4,13 @@ import { participantManagementService } from '@/lib/participant-management'
 import { UnifiedEventsManager } from '@/lib/unified-events'
 import { ParticipantRole, ServiceType } from '@/types/participant-management'
 import { getPrismaClient } from '@/lib/prisma'
+import { parseStoredRecurrence } from '@/lib/recurrence'
+import { ResourceError, setJobResources } from '@/lib/resource-scheduling'
+import { DEFAULT_TIMEZONE, resolveTimeZone, toWallClock } from '@/lib/timezone-utils'
 import { decrypt } from '@/lib/encryption'
 import { google } from 'googleapis'
 import type { UnifiedEvent } from '@/components/EventCreationModal'
+import { Prisma } from '@prisma/client'
 import type { EventType, Priority, GoalTimeframe } from '@prisma/client'
 
 // Default organizer configuration - you should customize this
@@ -25,6 +29,7 @@ function convertToUnifiedEvent(dbEvent: any): UnifiedEvent {
     description: dbEvent.description || '',
     startDateTime: dbEvent.startDateTime,
     endDateTime: dbEvent.endDateTime,
+    timezone: dbEvent.timezone || undefined,
     duration: dbEvent.duration || 60,
     priority: (dbEvent.priority || 'medium').toLowerCase(),
     clientId: dbEvent.clientId,
@@ -34,7 +39,9 @@ function convertToUnifiedEvent(dbEvent: any): UnifiedEvent {
     isAllDay: dbEvent.isAllDay || false,
     isMultiDay: dbEvent.isMultiDay || false,
     isRecurring: dbEvent.isRecurring || false,
+    recurrence: parseStoredRecurrence(dbEvent.recurrence),
     parentEventId: dbEvent.parentEventId,
+    originalStartDateTime: dbEvent.originalStartDateTime || undefined,
     recurrenceGroupId: dbEvent.recurrenceGroupId,
     status: dbEvent.status || 'scheduled',
     service: dbEvent.service || dbEvent.title,
@@ -97,6 +104,7 @@ function convertToPrismaEvent(event: UnifiedEvent): any {
     description: event.description,
     startDateTime: event.startDateTime,
     endDateTime: event.endDateTime,
+    timezone: event.timezone,
     duration: event.duration || 60, // Default to 60 minutes if not provided
     priority: mapToValidPriority(event.priority),
     clientId: event.clientId,
@@ -109,6 +117,7 @@ function convertToPrismaEvent(event: UnifiedEvent): any {
     recurrence: event.recurrence ? JSON.stringify(event.recurrence) : null,
     isRecurring: event.isRecurring || false,
     parentEventId: event.parentEventId,
+    originalStartDateTime: event.originalStartDateTime,
     recurrenceGroupId: event.recurrenceGroupId,
     status: event.status,
     service: event.service,
@@ -139,6 +148,7 @@ function convertFromPrismaEvent(prismaEvent: any): UnifiedEvent {
     description: prismaEvent.description,
     startDateTime: prismaEvent.startDateTime,
     endDateTime: prismaEvent.endDateTime,
+    timezone: prismaEvent.timezone || undefined,
     duration: prismaEvent.duration,
     priority: prismaEvent.priority.toLowerCase(),
     clientId: prismaEvent.clientId,
@@ -151,6 +161,7 @@ function convertFromPrismaEvent(prismaEvent: any): UnifiedEvent {
     recurrence: prismaEvent.recurrence ? JSON.parse(prismaEvent.recurrence) : undefined,
     isRecurring: prismaEvent.isRecurring,
     parentEventId: prismaEvent.parentEventId,
+    originalStartDateTime: prismaEvent.originalStartDateTime || undefined,
     recurrenceGroupId: prismaEvent.recurrenceGroupId,
     status: prismaEvent.status,
     service: prismaEvent.service,
@@ -160,6 +171,7 @@ function convertFromPrismaEvent(prismaEvent: any): UnifiedEvent {
     currentProgress: prismaEvent.currentProgress,
     deadline: prismaEvent.deadline,
     dependencies: prismaEvent.dependencies ? JSON.parse(prismaEvent.dependencies) : undefined,
+    resourceIds: prismaEvent.resourceAssignments?.map((assignment: { resourceId: string }) => assignment.resourceId),
     createdAt: prismaEvent.createdAt.toISOString(),
     updatedAt: prismaEvent.updatedAt.toISOString(),
   }
@@ -294,16 +306,17 @@ async function syncToGoogleCalendar(
 
     // Convert event to Google Calendar format
     const endDateTime = event.endDateTime || event.startDateTime
+    const timeZone = resolveTimeZone(event.timezone, integration.participant?.timezone)
     const googleEvent: any = {
       summary: event.title,
       description: event.description || undefined,
       location: event.location || undefined,
       start: event.isAllDay
         ? { date: event.startDateTime.split('T')[0] }
-        : { dateTime: event.startDateTime, timeZone: 'America/New_York' },
+        : { dateTime: toWallClock(event.startDateTime, timeZone), timeZone },
       end: event.isAllDay
         ? { date: endDateTime.split('T')[0] }
-        : { dateTime: endDateTime, timeZone: 'America/New_York' },
+        : { dateTime: toWallClock(endDateTime, timeZone), timeZone },
     }
 
     let response
@@ -346,7 +359,8 @@ async function syncToGoogleCalendar(
 
 export async function POST(request: NextRequest) {
   try {
-    const eventData: UnifiedEvent & { participants?: string[] } = await request.json()
+    const { forceResources, ...eventData }: UnifiedEvent & { participants?: string[]; forceResources?: boolean } =
+      await request.json()
 
     console.log('🎯 Creating integrated event:', eventData.title)
 
@@ -360,11 +374,28 @@ export async function POST(request: NextRequest) {
     if (prisma) {
       try {
         const prismaEventData = convertToPrismaEvent(newEvent)
-        dbEvent = await prisma.event.create({
-          data: prismaEventData
+        // A refused resource booking takes the event with it - forceResources books it anyway,
+        // once the user has seen the conflicts and confirmed
+        dbEvent = await prisma.$transaction(async tx => {
+          const created = await tx.event.create({
+            data: prismaEventData
+          })
+          if (eventData.resourceIds?.length) {
+            await setJobResources({ eventId: created.id }, eventData.resourceIds, {
+              force: forceResources === true,
+              tx
+            })
+          }
+          return created
         })
         console.log('✅ Database event created:', dbEvent.id)
       } catch (dbError) {
+        if (dbError instanceof ResourceError && dbError.code === 'CONFLICT') {
+          return NextResponse.json(
+            { success: false, error: dbError.message, conflicts: dbError.details },
+            { status: 409 }
+          )
+        }
         console.error('⚠️ Database persistence failed:', dbError)
         // Continue with localStorage-only operation
       }
@@ -440,7 +471,7 @@ export async function POST(request: NextRequest) {
           description: eventData.description || `Scheduled appointment: ${eventData.title}`,
           startTime: eventData.startDateTime,
           endTime: eventData.endDateTime || eventData.startDateTime,
-          timezone: 'America/New_York', // Default timezone
+          timezone: eventData.timezone || organizer.timezone || DEFAULT_TIMEZONE,
           service: serviceType,
           location: eventData.location,
           organizerId: organizer.id,
@@ -560,7 +591,8 @@ export async function GET(request: NextRequest) {
       if (prisma) {
         try {
           const dbEvents = await prisma.event.findMany({
-            orderBy: { startDateTime: 'asc' }
+            orderBy: { startDateTime: 'asc' },
+            include: { resourceAssignments: { select: { resourceId: true } } }
           })
           const convertedDbEvents = dbEvents.map(convertFromPrismaEvent)
 
@@ -620,7 +652,7 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    const eventData: Partial<UnifiedEvent> = await request.json()
+    const { forceResources, ...eventData }: Partial<UnifiedEvent> & { forceResources?: boolean } = await request.json()
     console.log('🔄 API PUT - Updating event:', eventId)
     console.log('🔄 API PUT - Update data:', eventData)
 
@@ -659,6 +691,7 @@ export async function PUT(request: NextRequest) {
           // Only include fields that are provided in the update
           if (eventData.startDateTime !== undefined) prismaUpdateData.startDateTime = eventData.startDateTime
           if (eventData.endDateTime !== undefined) prismaUpdateData.endDateTime = eventData.endDateTime
+          if (eventData.timezone !== undefined) prismaUpdateData.timezone = eventData.timezone || null
           if (eventData.duration !== undefined) prismaUpdateData.duration = eventData.duration
           if (eventData.notes !== undefined) prismaUpdateData.notes = eventData.notes
           if (eventData.title !== undefined) prismaUpdateData.title = eventData.title
@@ -667,11 +700,23 @@ export async function PUT(request: NextRequest) {
           if (eventData.priority !== undefined) prismaUpdateData.priority = mapToValidPriority(eventData.priority)
           if (eventData.isMultiDay !== undefined) prismaUpdateData.isMultiDay = eventData.isMultiDay
           if (eventData.isAllDay !== undefined) prismaUpdateData.isAllDay = eventData.isAllDay
-
-          // Update in database
-          dbEvent = await prisma.event.update({
-            where: { id: eventId },
-            data: prismaUpdateData
+          if (eventData.isRecurring !== undefined) prismaUpdateData.isRecurring = eventData.isRecurring
+          if (eventData.recurrence !== undefined) prismaUpdateData.recurrence = eventData.recurrence ? JSON.stringify(eventData.recurrence) : Prisma.DbNull
+
+          // Update in database, with the resources it books - forceResources books them anyway,
+          // once the user has seen the conflicts and confirmed
+          dbEvent = await prisma.$transaction(async tx => {
+            const updated = await tx.event.update({
+              where: { id: eventId },
+              data: prismaUpdateData
+            })
+            if (eventData.resourceIds !== undefined) {
+              await setJobResources({ eventId }, eventData.resourceIds || [], {
+                force: forceResources === true,
+                tx
+              })
+            }
+            return updated
           })
 
           console.log('🔄 API PUT - Database update successful:', dbEvent.id)
@@ -685,6 +730,12 @@ export async function PUT(request: NextRequest) {
           console.log('🔄 API PUT - Event not found in database')
         }
       } catch (dbError) {
+        if (dbError instanceof ResourceError && dbError.code === 'CONFLICT') {
+          return NextResponse.json(
+            { success: false, error: dbError.message, conflicts: dbError.details },
+            { status: 409 }
+          )
+        }
         console.error('🔄 API PUT - Database update failed:', dbError)
       }
     }
@@ -11,6 +11,7 @@ import {
   TimezoneUtils,
   DEFAULT_FOLLOW_UP_CONFIG
 } from '@/lib/follow-up-utils';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone-utils';
 
 const prisma = new PrismaClient();
 
@@ -20,7 +21,7 @@ export async function GET(request: NextRequest) {
     const clientId = url.searchParams.get('clientId');
     const startTime = url.searchParams.get('startTime');
     const duration = parseInt(url.searchParams.get('duration') || '60');
-    const timezone = url.searchParams.get('timezone') || 'America/Toronto';
+    const timezone = url.searchParams.get('timezone') || DEFAULT_TIMEZONE;
     const excludeId = url.searchParams.get('excludeId'); // For updates
 
     if (!clientId || !startTime) {
@@ -279,7 +280,7 @@ export async function POST(request: NextRequest) {
       startTime, 
       endTime, 
       duration, 
-      timezone = 'America/Toronto',
+      timezone = DEFAULT_TIMEZONE,
       checkAppointments = true,
       checkBusinessHours = true,
       bufferMinutes = 15
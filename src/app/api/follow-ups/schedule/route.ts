@@ -16,6 +16,7 @@ import {
 import { getPrismaClient, isPrismaAvailable, testPrismaConnection } from '@/lib/prisma';
 import { checkDatabaseHealth, withDatabaseRetry } from '@/lib/db-health';
 import { JsonFieldSerializers, transformFollowUpForResponse } from '@/lib/json-fields';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone-utils';
 
 // Get Prisma client instance
 const prisma = getPrismaClient();
@@ -62,7 +63,7 @@ export async function POST(request: NextRequest) {
       clientId,
       serviceId,
       scheduledDate,
-      timezone = 'America/Toronto',
+      timezone = DEFAULT_TIMEZONE,
       duration = 60,
       title,
       notes,
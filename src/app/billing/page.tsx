@@ -23,6 +23,7 @@ import {
   XCircle,
   Send,
   MoreVertical,
+  AlertTriangle,
 } from "lucide-react";
 import Link from "next/link";
 import CRMLayout from "../../components/CRMLayout";
@@ -30,7 +31,9 @@ import ReceiptDetailsModal from "../../components/ReceiptDetailsModal";
 import BillingReceiptModal from "../../components/BillingReceiptModal";
 import TimeTrackerModal from "../../components/TimeTrackerModal";
 import InvoiceModal from "../../components/InvoiceModal";
+import AccountingExportModal from "../../components/AccountingExportModal";
 import { Client } from "../../types/client";
+import { SmallSupplierStatus } from "../../types/billing";
 
 interface Transaction {
   id: string;
@@ -737,6 +740,7 @@ export default function ServicesBillingPage() {
   );
   const [showAllTransactions, setShowAllTransactions] = useState(false);
   const [showHeaderExportMenu, setShowHeaderExportMenu] = useState(false);
+  const [showAccountingExport, setShowAccountingExport] = useState(false);
   const [sendingReceiptId, setSendingReceiptId] = useState<string | null>(null);
   const [showManualEntry, setShowManualEntry] = useState(false);
   const [showTimeTracker, setShowTimeTracker] = useState(false);
@@ -744,6 +748,7 @@ export default function ServicesBillingPage() {
   const [clients, setClients] = useState<Client[]>([]);
   const [clientsLoading, setClientsLoading] = useState(false);
   const [invoiceClient, setInvoiceClient] = useState<Client | null>(null);
+  const [smallSupplier, setSmallSupplier] = useState<SmallSupplierStatus | null>(null);
   const [manualEntryData, setManualEntryData] = useState({
     documentType: 'receipt' as 'receipt' | 'invoice' | 'quote' | 'estimate',
     serviceType: '',
@@ -764,9 +769,22 @@ export default function ServicesBillingPage() {
     if (status === "authenticated") {
       loadTransactions();
       loadClients();
+      loadTaxStatus();
     }
   }, [status]);
 
+  const loadTaxStatus = async () => {
+    try {
+      const res = await fetch("/api/billing/tax");
+      if (res.ok) {
+        const data = await res.json();
+        setSmallSupplier(data.smallSupplier || null);
+      }
+    } catch (err) {
+      console.error("Failed to load tax status", err);
+    }
+  };
+
   const loadClients = async () => {
     if (clientsLoading) return;
     setClientsLoading(true);
@@ -1532,6 +1550,15 @@ export default function ServicesBillingPage() {
                     >
                       📈 Export All Data (CSV)
                     </button>
+                    <button
+                      onClick={() => {
+                        setShowAccountingExport(true);
+                        setShowHeaderExportMenu(false);
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm font-primary hover:bg-card transition-colors border-t border-border"
+                    >
+                      🧾 QuickBooks / Xero Export
+                    </button>
                   </div>
                 )}
               </div>
@@ -1546,6 +1573,31 @@ export default function ServicesBillingPage() {
           </div>
         </div>
 
+        {/* Small supplier threshold warning */}
+        {smallSupplier?.message && (
+          <div
+            className={`neo-container p-4 flex items-start gap-3 border-l-4 ${
+              smallSupplier.level === "exceeded" ? "border-red-500" : "border-yellow-500"
+            }`}
+          >
+            <AlertTriangle
+              className={`w-5 h-5 mt-0.5 flex-shrink-0 ${
+                smallSupplier.level === "exceeded" ? "text-red-500" : "text-yellow-500"
+              }`}
+            />
+            <div>
+              <p className="font-bold font-primary uppercase tracking-wide text-sm text-foreground">
+                {smallSupplier.level === "exceeded"
+                  ? "GST/HST registration required"
+                  : "Approaching small supplier threshold"}
+              </p>
+              <p className="text-sm text-muted-foreground font-primary mt-1">
+                {smallSupplier.message}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Main Content - Two Column Layout */}
         <div className="grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-6">
           {/* Left Column - Main Content */}
@@ -1786,6 +1838,12 @@ export default function ServicesBillingPage() {
           onInvoiceCreated={handleInvoiceCreated}
         />
 
+        {/* Accounting Export Modal */}
+        <AccountingExportModal
+          isOpen={showAccountingExport}
+          onClose={() => setShowAccountingExport(false)}
+        />
+
         {/* Time Tracker Modal */}
         <TimeTrackerModal
           isOpen={showTimeTracker}
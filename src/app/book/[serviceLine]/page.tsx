@@ -0,0 +1,392 @@
+"use client"
+
+import React, { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import { CheckCircle, AlertCircle, Calendar, Clock } from 'lucide-react'
+import type { PublicBookingConfirmation, PublicBookingView } from '@/types/participant-management'
+
+interface BookingSlot {
+  startTime: string
+  endTime: string
+}
+
+const formatTime = (value: string, timeZone: string) =>
+  new Date(value).toLocaleTimeString('en-CA', { hour: 'numeric', minute: '2-digit', timeZone })
+
+const formatDateTime = (value: string, timeZone: string) =>
+  new Date(value).toLocaleString('en-CA', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone
+  })
+
+// Today's date in the business time zone, as the date input wants it
+const todayIn = (timeZone: string) => new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date())
+
+const BookingPage = () => {
+  const params = useParams()
+  const [serviceLine] = useState(params.serviceLine as string)
+  const [booking, setBooking] = useState<PublicBookingView | null>(null)
+  const [serviceType, setServiceType] = useState('')
+  const [date, setDate] = useState('')
+  const [slots, setSlots] = useState<BookingSlot[]>([])
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null)
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [phone, setPhone] = useState('')
+  const [address, setAddress] = useState('')
+  const [notes, setNotes] = useState('')
+  const [confirmation, setConfirmation] = useState<PublicBookingConfirmation | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const loadBooking = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch(`/api/book/${serviceLine}`)
+        const data = await response.json()
+
+        if (response.ok && data.success) {
+          setBooking(data.booking)
+          setServiceType(data.booking.services[0]?.serviceType || '')
+          setDate(todayIn(data.booking.timezone))
+        } else {
+          setError(data.error || 'Online booking is not available')
+        }
+      } catch (err) {
+        console.error('Error loading booking page:', err)
+        setError('Unable to load this page')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (serviceLine) {
+      loadBooking()
+    }
+  }, [serviceLine])
+
+  useEffect(() => {
+    const loadSlots = async () => {
+      try {
+        setIsLoadingSlots(true)
+        setSelectedSlot(null)
+        const response = await fetch(
+          `/api/book/${serviceLine}?serviceType=${encodeURIComponent(serviceType)}&date=${encodeURIComponent(date)}`
+        )
+        const data = await response.json()
+
+        if (response.ok && data.success) {
+          setSlots(data.slots)
+        } else {
+          setSlots([])
+          setError(data.error || 'Unable to load available times')
+        }
+      } catch (err) {
+        console.error('Error loading slots:', err)
+        setError('Unable to load available times')
+      } finally {
+        setIsLoadingSlots(false)
+      }
+    }
+
+    if (booking && serviceType && date) {
+      setError('')
+      loadSlots()
+    }
+  }, [booking, serviceLine, serviceType, date])
+
+  const submitBooking = async () => {
+    setError('')
+
+    if (!selectedSlot) {
+      setError('Please pick a time')
+      return
+    }
+    if (name.trim().length < 2 || !email.trim()) {
+      setError('Please enter your name and email')
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch(`/api/book/${serviceLine}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          serviceType,
+          startTime: selectedSlot.startTime,
+          name: name.trim(),
+          email: email.trim(),
+          phone: phone.trim() || undefined,
+          address: address.trim() || undefined,
+          notes: notes.trim() || undefined,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok && data.success) {
+        setConfirmation(data.confirmation)
+      } else {
+        setError(data.error || 'Failed to book this time')
+        // Someone else took it - show what's left
+        if (response.status === 409) {
+          setSlots(current => current.filter(slot => slot.startTime !== selectedSlot.startTime))
+          setSelectedSlot(null)
+        }
+      }
+    } catch {
+      setError('An error occurred while booking')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-foreground/20 border-t-transparent animate-spin mx-auto mb-4 rounded-full"></div>
+          <p className="text-muted-foreground font-primary uppercase tracking-wide">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="neo-container max-w-2xl w-full">
+          <div className="p-8 text-center">
+            <AlertCircle className="h-20 w-20 mx-auto mb-6 text-red-600" />
+            <h1 className="text-3xl font-bold text-foreground mb-4 font-primary uppercase">
+              Booking Unavailable
+            </h1>
+            <p className="text-lg text-muted-foreground font-primary">
+              {error || 'Online booking is not available.'} Please contact us to schedule.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (confirmation) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="neo-container max-w-2xl w-full">
+          <div className="p-8 text-center">
+            <CheckCircle className="h-20 w-20 mx-auto mb-6 text-green-600" />
+            <h1 className="text-3xl font-bold text-foreground mb-4 font-primary uppercase">
+              You&apos;re Booked
+            </h1>
+            <p className="text-lg text-muted-foreground font-primary mb-6">
+              {confirmation.serviceName} with {booking.businessName} on{' '}
+              {formatDateTime(confirmation.startTime, confirmation.timezone)}.
+            </p>
+            <p className="text-sm text-muted-foreground font-primary">
+              A confirmation has been sent to {email.trim()}.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const selectedService = booking.services.find(service => service.serviceType === serviceType)
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="neo-container max-w-3xl w-full">
+        {/* Header */}
+        <div className="neo-inset border-b border-foreground/10 p-6">
+          <h1 className="text-2xl font-bold text-foreground uppercase tracking-wide font-primary text-center">
+            Book {booking.businessName}
+          </h1>
+          <p className="text-center text-muted-foreground font-primary mt-2">
+            {booking.description}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Service and date */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                Service *
+              </label>
+              <select
+                value={serviceType}
+                onChange={(e) => setServiceType(e.target.value)}
+                className="neo-input w-full"
+              >
+                {booking.services.map(service => (
+                  <option key={service.serviceType} value={service.serviceType}>
+                    {service.name} ({service.duration} min)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                Date *
+              </label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <input
+                  type="date"
+                  value={date}
+                  min={todayIn(booking.timezone)}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="neo-input w-full pl-10"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Slots */}
+          <div>
+            <h2 className="text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+              Available Times
+            </h2>
+            {isLoadingSlots ? (
+              <p className="text-sm text-muted-foreground font-primary">Checking the schedule...</p>
+            ) : slots.length === 0 ? (
+              <div className="neo-inset p-4 border-l-4 border-yellow-500 rounded-lg">
+                <div className="flex items-center space-x-2">
+                  <Clock className="h-4 w-4 text-yellow-600" />
+                  <p className="text-sm text-foreground font-primary">
+                    No times left on this day. Please try another date.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {slots.map(slot => (
+                  <button
+                    key={slot.startTime}
+                    type="button"
+                    onClick={() => setSelectedSlot(slot)}
+                    className={`${selectedSlot?.startTime === slot.startTime ? 'neo-button-active' : 'neo-button'} px-3 py-2 text-sm`}
+                  >
+                    {formatTime(slot.startTime, booking.timezone)}
+                  </button>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground font-primary mt-2">
+              Times are in {booking.timezone.replace('_', ' ')}
+              {selectedService && ` - ${selectedService.name} takes about ${selectedService.duration} minutes`}
+            </p>
+          </div>
+
+          {/* Contact details */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                Name *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                className="neo-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                Email *
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                maxLength={200}
+                className="neo-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                Phone
+              </label>
+              <input
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                maxLength={30}
+                className="neo-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                Property Address
+              </label>
+              <input
+                type="text"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                maxLength={200}
+                className="neo-input w-full"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+              Notes (Optional)
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Gate codes, pets, anything the crew should know..."
+              rows={3}
+              maxLength={1000}
+              className="neo-input w-full resize-none"
+            />
+          </div>
+
+          {/* Error Display */}
+          {error && (
+            <div className="neo-inset p-3 border-l-4 border-red-500 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <AlertCircle className="h-4 w-4 text-red-600" />
+                <p className="text-sm text-red-600 font-primary">{error}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-center pt-2">
+            <button
+              type="button"
+              onClick={submitBooking}
+              disabled={isSubmitting || !selectedSlot}
+              className="neo-button-active px-8 py-3 uppercase tracking-wide transition-transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? (
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 border-2 border-foreground/20 border-t-transparent animate-spin rounded-full"></div>
+                  <span>Booking...</span>
+                </div>
+              ) : selectedSlot ? (
+                `Book ${formatDateTime(selectedSlot.startTime, booking.timezone)}`
+              ) : (
+                'Pick a Time'
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default BookingPage
@@ -0,0 +1,363 @@
+"use client"
+
+import React, { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import { CheckCircle, XCircle, AlertCircle, Clock, PenLine } from 'lucide-react'
+import type { PublicQuoteView } from '@/types/billing'
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(amount)
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-CA', { month: 'long', day: 'numeric', year: 'numeric' })
+
+const QuoteAcceptPage = () => {
+  const params = useParams()
+  const [token] = useState(params.token as string)
+  const [quote, setQuote] = useState<PublicQuoteView | null>(null)
+  const [signatureName, setSignatureName] = useState('')
+  const [agreed, setAgreed] = useState(false)
+  const [showDecline, setShowDecline] = useState(false)
+  const [declineReason, setDeclineReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const loadQuote = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch(`/api/billing/quotes/respond/${token}`)
+        const data = await response.json()
+
+        if (response.ok && data.success) {
+          setQuote(data.quote)
+        } else {
+          setError(data.error || 'This quote link is not valid')
+        }
+      } catch (err) {
+        console.error('Error loading quote:', err)
+        setError('Unable to load this quote')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (token) {
+      loadQuote()
+    }
+  }, [token])
+
+  const respond = async (decision: 'accepted' | 'declined') => {
+    setError('')
+
+    if (signatureName.trim().length < 2) {
+      setError('Please type your full name to sign')
+      return
+    }
+
+    if (decision === 'accepted' && !agreed) {
+      setError('Please confirm that you agree to the quote and its terms')
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch(`/api/billing/quotes/respond/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision,
+          signatureName: signatureName.trim(),
+          declineReason: decision === 'declined' ? declineReason.trim() : undefined,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok && data.success) {
+        setQuote(data.quote)
+      } else {
+        setError(data.error || 'Failed to record your response')
+      }
+    } catch {
+      setError('An error occurred while sending your response')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-foreground/20 border-t-transparent animate-spin mx-auto mb-4 rounded-full"></div>
+          <p className="text-muted-foreground font-primary uppercase tracking-wide">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!quote) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="neo-container max-w-2xl w-full">
+          <div className="p-8 text-center">
+            <AlertCircle className="h-20 w-20 mx-auto mb-6 text-red-600" />
+            <h1 className="text-3xl font-bold text-foreground mb-4 font-primary uppercase">
+              Quote Not Found
+            </h1>
+            <p className="text-lg text-muted-foreground font-primary">
+              {error || 'This quote link is not valid.'} Please contact us for a new link.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  // Already answered (possibly from another tab) - show the outcome instead of the form
+  if (quote.response || quote.status === 'accepted' || quote.status === 'converted' || quote.status === 'declined') {
+    const accepted = quote.response ? quote.response.decision === 'accepted' : quote.status !== 'declined'
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="neo-container max-w-2xl w-full">
+          <div className="p-8 text-center">
+            {accepted ? (
+              <CheckCircle className="h-20 w-20 mx-auto mb-6 text-green-600" />
+            ) : (
+              <XCircle className="h-20 w-20 mx-auto mb-6 text-gray-500" />
+            )}
+            <h1 className="text-3xl font-bold text-foreground mb-4 font-primary uppercase">
+              {accepted ? 'Quote Accepted' : 'Quote Declined'}
+            </h1>
+            <p className="text-lg text-muted-foreground font-primary mb-6">
+              {accepted
+                ? `Thank you! ${quote.businessName} has been notified and will be in touch to get started.`
+                : `Thank you for letting us know. ${quote.businessName} has been notified.`}
+            </p>
+            {quote.response && (
+              <p className="text-sm text-muted-foreground font-primary">
+                Quote {quote.quoteNumber} signed by {quote.response.signatureName} on {formatDate(quote.response.signedAt)}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const canRespond = quote.status === 'sent'
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="neo-container max-w-3xl w-full">
+        {/* Header */}
+        <div className="neo-inset border-b border-foreground/10 p-6">
+          <h1 className="text-2xl font-bold text-foreground uppercase tracking-wide font-primary text-center">
+            Quote {quote.quoteNumber}
+          </h1>
+          <p className="text-center text-muted-foreground font-primary mt-2">
+            Prepared for {quote.clientName} by {quote.businessName}
+          </p>
+          <p className="text-center text-sm text-muted-foreground font-primary mt-1">
+            Valid until {formatDate(quote.validUntil)}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {quote.projectScope && (
+            <div>
+              <h2 className="text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">Project Scope</h2>
+              <p className="text-foreground font-primary whitespace-pre-line">{quote.projectScope}</p>
+              {quote.estimatedDuration && (
+                <p className="text-sm text-muted-foreground font-primary mt-2">
+                  Estimated duration: {quote.estimatedDuration}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Line items */}
+          <div className="neo-inset rounded-lg p-4">
+            <table className="w-full text-sm font-primary">
+              <thead>
+                <tr className="text-left text-muted-foreground uppercase tracking-wide">
+                  <th className="pb-2">Description</th>
+                  <th className="pb-2 text-right">Qty</th>
+                  <th className="pb-2 text-right">Rate</th>
+                  <th className="pb-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quote.items.map((item, index) => (
+                  <tr key={index} className="border-t border-foreground/10">
+                    <td className="py-2 text-foreground">{item.description}</td>
+                    <td className="py-2 text-right text-foreground">{item.quantity}</td>
+                    <td className="py-2 text-right text-foreground">{formatCurrency(item.unitPrice)}</td>
+                    <td className="py-2 text-right text-foreground">{formatCurrency(item.totalPrice)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="border-t border-foreground/10 mt-2 pt-2 space-y-1 text-sm font-primary">
+              <div className="flex justify-between text-muted-foreground">
+                <span>Subtotal</span>
+                <span>{formatCurrency(quote.subtotal)}</span>
+              </div>
+              {quote.taxBreakdown && quote.taxBreakdown.length > 0 ? (
+                quote.taxBreakdown.map((tax) => (
+                  <div key={tax.code} className="flex justify-between text-muted-foreground">
+                    <span>{tax.name}</span>
+                    <span>{formatCurrency(tax.amount)}</span>
+                  </div>
+                ))
+              ) : quote.taxAmount > 0 && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Tax</span>
+                  <span>{formatCurrency(quote.taxAmount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-bold text-foreground text-base">
+                <span>Total</span>
+                <span>{formatCurrency(quote.totalAmount)}</span>
+              </div>
+            </div>
+          </div>
+
+          {quote.terms && (
+            <div>
+              <h2 className="text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">Terms</h2>
+              <p className="text-sm text-muted-foreground font-primary whitespace-pre-line">{quote.terms}</p>
+            </div>
+          )}
+
+          {!canRespond ? (
+            <div className="neo-inset p-4 border-l-4 border-yellow-500 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <Clock className="h-4 w-4 text-yellow-600" />
+                <p className="text-sm text-foreground font-primary">
+                  {quote.status === 'expired'
+                    ? 'This quote has expired. Please contact us for an updated quote.'
+                    : 'This quote is not open for a response.'}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {/* Signature */}
+              <div>
+                <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                  Type your full name to sign *
+                </label>
+                <div className="relative">
+                  <PenLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <input
+                    type="text"
+                    value={signatureName}
+                    onChange={(e) => setSignatureName(e.target.value)}
+                    placeholder={quote.clientName}
+                    maxLength={100}
+                    className="neo-input w-full pl-10 italic"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-start space-x-2 text-sm text-foreground font-primary">
+                <input
+                  type="checkbox"
+                  checked={agreed}
+                  onChange={(e) => setAgreed(e.target.checked)}
+                  className="mt-1"
+                />
+                <span>
+                  I agree to the work, pricing and terms in quote {quote.quoteNumber} ({formatCurrency(quote.totalAmount)}),
+                  and that typing my name above is my electronic signature.
+                </span>
+              </label>
+
+              {showDecline && (
+                <div>
+                  <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                    Reason for declining (Optional)
+                  </label>
+                  <textarea
+                    value={declineReason}
+                    onChange={(e) => setDeclineReason(e.target.value)}
+                    placeholder="Let us know if there's anything we could change..."
+                    rows={3}
+                    maxLength={1000}
+                    className="neo-input w-full resize-none"
+                  />
+                </div>
+              )}
+
+              {/* Error Display */}
+              {error && (
+                <div className="neo-inset p-3 border-l-4 border-red-500 rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <AlertCircle className="h-4 w-4 text-red-600" />
+                    <p className="text-sm text-red-600 font-primary">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-col sm:flex-row justify-center gap-3 pt-2">
+                {showDecline ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => respond('declined')}
+                      disabled={isSubmitting}
+                      className="neo-button px-8 py-3 uppercase tracking-wide transition-transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSubmitting ? 'Sending...' : 'Confirm Decline'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setShowDecline(false)}
+                      disabled={isSubmitting}
+                      className="px-8 py-3 text-sm text-muted-foreground font-primary uppercase tracking-wide hover:text-foreground"
+                    >
+                      Back
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => respond('accepted')}
+                      disabled={isSubmitting || !agreed || signatureName.trim().length < 2}
+                      className="neo-button-active px-8 py-3 uppercase tracking-wide transition-transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSubmitting ? (
+                        <div className="flex items-center space-x-2">
+                          <div className="w-4 h-4 border-2 border-foreground/20 border-t-transparent animate-spin rounded-full"></div>
+                          <span>Signing...</span>
+                        </div>
+                      ) : (
+                        'Accept & Sign'
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setShowDecline(true)}
+                      disabled={isSubmitting}
+                      className="neo-button px-8 py-3 uppercase tracking-wide transition-transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Decline
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default QuoteAcceptPage
@@ -0,0 +1,420 @@
+"use client"
+
+import React, { useState, useEffect, useCallback } from 'react'
+import CRMLayout from '@/components/CRMLayout'
+import { CloudSnow, Download, Plus, Truck, CheckCircle, XCircle, AlertTriangle } from 'lucide-react'
+
+interface Storm {
+  id: string
+  source: string
+  startedAt: string
+  endedAt?: string | null
+  accumulationCm: number
+  iceRisk: boolean
+  temperatureC?: number | null
+  notes?: string | null
+  status: 'OPEN' | 'DISPATCHED' | 'COMPLETED'
+  _count?: { dispatches: number }
+}
+
+interface Trigger {
+  contractId: string
+  clientName: string
+  serviceName: string
+  service: 'plow' | 'salt'
+  triggered: boolean
+  reason: string
+  priority: number
+  perVisitRate?: number
+}
+
+interface Dispatch {
+  id: string
+  position: number
+  service: 'plow' | 'salt'
+  reason: string
+  status: 'DISPATCHED' | 'COMPLETED' | 'SKIPPED'
+  contract: { serviceName: string; client: { name: string } }
+  event?: { id: string; startDateTime: string; endDateTime?: string | null } | null
+  billingRecord?: { invoiceNumber?: string | null; amount: number } | null
+}
+
+interface PlannedVisit {
+  position: number
+  clientName: string
+  service: 'plow' | 'salt'
+  reason: string
+  startDateTime: string
+  alreadyDispatched: boolean
+}
+
+const SERVICE_LABELS = { plow: 'Plow', salt: 'Salt' }
+
+const emptyStorm = { startedAt: '', endedAt: '', accumulationCm: '', iceRisk: false, notes: '' }
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-CA', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+/**
+ * Snow Dispatch - White Knight's storm mode
+ *
+ * Enter a snowfall or import it from the weather feed, see which seasonal contracts it triggers
+ * and why, then dispatch the visits to the calendar in priority order and close them out as the
+ * crews finish. Completed visits are recorded, and per-visit contracts are invoiced.
+ */
+const SnowDispatchPage = () => {
+  const [storms, setStorms] = useState<Storm[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [triggers, setTriggers] = useState<Trigger[]>([])
+  const [dispatches, setDispatches] = useState<Dispatch[]>([])
+  const [plan, setPlan] = useState<PlannedVisit[] | null>(null)
+  const [newStorm, setNewStorm] = useState(emptyStorm)
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStorms = useCallback(async () => {
+    try {
+      const response = await fetch('/api/calendar/storms')
+      const data = await response.json()
+      if (data.success) setStorms(data.data)
+    } catch (error) {
+      console.error('Error fetching storms:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const fetchStorm = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/calendar/storms/${id}`)
+      const data = await response.json()
+      if (data.success) {
+        setTriggers(data.data.triggers)
+        setDispatches(data.data.storm.dispatches)
+      }
+    } catch (error) {
+      console.error('Error fetching storm:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStorms()
+  }, [fetchStorms])
+
+  useEffect(() => {
+    setPlan(null)
+    if (selectedId) fetchStorm(selectedId)
+  }, [selectedId, fetchStorm])
+
+  // Runs a storm action, shows its error and reloads what it changed
+  const run = async (url: string, body: object) => {
+    setIsWorking(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!data.success) {
+        setError(data.error || 'Something went wrong')
+        return null
+      }
+      await fetchStorms()
+      if (selectedId) await fetchStorm(selectedId)
+      return data.data
+    } catch (error) {
+      console.error('Error running storm action:', error)
+      setError('Something went wrong')
+      return null
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleAddStorm = async () => {
+    if (!newStorm.startedAt || newStorm.accumulationCm === '') {
+      setError('Enter when the storm started and how much snow fell')
+      return
+    }
+    const storm = await run('/api/calendar/storms', {
+      startedAt: new Date(newStorm.startedAt).toISOString(),
+      endedAt: newStorm.endedAt ? new Date(newStorm.endedAt).toISOString() : null,
+      accumulationCm: Number(newStorm.accumulationCm),
+      iceRisk: newStorm.iceRisk,
+      notes: newStorm.notes || null
+    })
+    if (storm) {
+      setNewStorm(emptyStorm)
+      setShowAddForm(false)
+      setSelectedId(storm.id)
+    }
+  }
+
+  const handleDispatch = async (dryRun: boolean) => {
+    if (!selectedId) return
+    const result = await run(`/api/calendar/storms/${selectedId}/dispatch`, { dryRun })
+    if (result) setPlan(dryRun ? result.visits : null)
+  }
+
+  const handleVisits = (action: 'complete' | 'skip', dispatchIds?: string[]) => {
+    if (!selectedId) return
+    return run(`/api/calendar/storms/${selectedId}/visits`, { action, dispatchIds })
+  }
+
+  const selected = storms.find(storm => storm.id === selectedId)
+  const triggered = triggers.filter(trigger => trigger.triggered)
+  const notTriggered = triggers.filter(trigger => !trigger.triggered)
+  const openVisits = dispatches.filter(dispatch => dispatch.status === 'DISPATCHED')
+
+  return (
+    <CRMLayout>
+      <div className="p-6">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Snow Dispatch</h1>
+            <p className="text-muted-foreground text-sm">Dispatch seasonal snow and salting contracts when it snows</p>
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => run('/api/calendar/storms/import', {})}
+              disabled={isWorking}
+              className="neo-button flex items-center space-x-2"
+            >
+              <Download className="h-4 w-4" />
+              <span>Import Snowfall</span>
+            </button>
+            <button onClick={() => setShowAddForm(!showAddForm)} className="neo-button flex items-center space-x-2">
+              <Plus className="h-4 w-4" />
+              <span>Enter Storm</span>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="neo-card p-3 mb-4 flex items-center gap-2 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {showAddForm && (
+          <div className="neo-card p-6 mb-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-bold uppercase tracking-wide font-primary mb-2">Started</label>
+                <input
+                  type="datetime-local"
+                  value={newStorm.startedAt}
+                  onChange={(e) => setNewStorm({ ...newStorm, startedAt: e.target.value })}
+                  className="neo-input w-full px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold uppercase tracking-wide font-primary mb-2">Ended</label>
+                <input
+                  type="datetime-local"
+                  value={newStorm.endedAt}
+                  onChange={(e) => setNewStorm({ ...newStorm, endedAt: e.target.value })}
+                  className="neo-input w-full px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold uppercase tracking-wide font-primary mb-2">Accumulation (cm)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={newStorm.accumulationCm}
+                  onChange={(e) => setNewStorm({ ...newStorm, accumulationCm: e.target.value })}
+                  className="neo-input w-full px-3 py-2"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold uppercase tracking-wide font-primary mb-2">Notes</label>
+              <input
+                type="text"
+                value={newStorm.notes}
+                onChange={(e) => setNewStorm({ ...newStorm, notes: e.target.value })}
+                className="neo-input w-full px-3 py-2"
+                placeholder="e.g., Heavy wet snow overnight"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={newStorm.iceRisk}
+                onChange={(e) => setNewStorm({ ...newStorm, iceRisk: e.target.checked })}
+              />
+              Ice risk (freezing rain or a thaw-freeze) - salting triggers regardless of snow
+            </label>
+            <div className="flex space-x-3">
+              <button onClick={handleAddStorm} disabled={isWorking} className="neo-button">Save Storm</button>
+              <button onClick={() => { setShowAddForm(false); setNewStorm(emptyStorm) }} className="neo-button">Cancel</button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="neo-card p-4 space-y-2">
+            <h2 className="text-sm font-bold uppercase tracking-wide font-primary mb-2">Storms</h2>
+            {isLoading && <p className="text-sm text-muted-foreground">Loading storms...</p>}
+            {!isLoading && storms.length === 0 && (
+              <p className="text-sm text-muted-foreground">No storms yet - enter one or import the snowfall.</p>
+            )}
+            {storms.map(storm => (
+              <button
+                key={storm.id}
+                onClick={() => setSelectedId(storm.id)}
+                className={`w-full text-left neo-button p-3 ${storm.id === selectedId ? 'neo-button-active' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2 font-bold">
+                    <CloudSnow className="h-4 w-4" />
+                    {storm.accumulationCm} cm{storm.iceRisk ? ' + ice' : ''}
+                  </span>
+                  <span className="text-[10px] uppercase tracking-wide font-primary">{storm.status}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDateTime(storm.startedAt)} · {storm.source}
+                  {storm._count?.dispatches ? ` · ${storm._count.dispatches} visits` : ''}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {!selected && (
+              <div className="neo-card p-6 text-center text-sm text-muted-foreground">
+                Pick a storm to see which contracts it triggers.
+              </div>
+            )}
+
+            {selected && (
+              <div className="neo-card p-4">
+                <div className="flex justify-between items-center mb-3">
+                  <h2 className="text-sm font-bold uppercase tracking-wide font-primary">
+                    Triggered ({triggered.length})
+                  </h2>
+                  {selected.status !== 'COMPLETED' && (
+                    <div className="flex space-x-2">
+                      <button onClick={() => handleDispatch(true)} disabled={isWorking} className="neo-button text-sm">
+                        Preview Dispatch
+                      </button>
+                      <button
+                        onClick={() => handleDispatch(false)}
+                        disabled={isWorking || triggered.length === 0}
+                        className="neo-button text-sm flex items-center space-x-2"
+                      >
+                        <Truck className="h-4 w-4" />
+                        <span>Dispatch</span>
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {triggered.length === 0 && (
+                  <p className="text-sm text-muted-foreground">This storm doesn&apos;t trigger any contracts.</p>
+                )}
+                <div className="space-y-1">
+                  {triggered.map(trigger => (
+                    <div key={`${trigger.contractId}:${trigger.service}`} className="flex justify-between text-sm">
+                      <span>
+                        <span className="font-bold">{trigger.clientName}</span> · {SERVICE_LABELS[trigger.service]} · tier {trigger.priority}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {trigger.reason}{trigger.perVisitRate ? ` · $${trigger.perVisitRate}/visit` : ''}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {notTriggered.length > 0 && (
+                  <div className="mt-4 pt-3 border-t border-border space-y-1">
+                    <h3 className="text-xs font-bold uppercase tracking-wide font-primary text-muted-foreground">Not triggered</h3>
+                    {notTriggered.map(trigger => (
+                      <div key={`${trigger.contractId}:${trigger.service}`} className="flex justify-between text-xs text-muted-foreground">
+                        <span>{trigger.clientName} · {SERVICE_LABELS[trigger.service]}</span>
+                        <span>{trigger.reason}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {plan && (
+              <div className="neo-card p-4">
+                <h2 className="text-sm font-bold uppercase tracking-wide font-primary mb-3">Dispatch Preview</h2>
+                {plan.map(visit => (
+                  <div key={`${visit.position}`} className="flex justify-between text-sm py-1">
+                    <span>
+                      {visit.position}. <span className="font-bold">{visit.clientName}</span> · {SERVICE_LABELS[visit.service]}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {visit.startDateTime.slice(11, 16)}{visit.alreadyDispatched ? ' · already dispatched' : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selected && dispatches.length > 0 && (
+              <div className="neo-card p-4">
+                <div className="flex justify-between items-center mb-3">
+                  <h2 className="text-sm font-bold uppercase tracking-wide font-primary">Dispatch List</h2>
+                  {openVisits.length > 0 && (
+                    <button onClick={() => handleVisits('complete')} disabled={isWorking} className="neo-button text-sm">
+                      Complete All
+                    </button>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {dispatches.map(dispatch => (
+                    <div key={dispatch.id} className="flex items-center justify-between text-sm neo-inset p-2 rounded-lg">
+                      <div>
+                        <div>
+                          {dispatch.position}. <span className="font-bold">{dispatch.contract.client.name}</span> · {SERVICE_LABELS[dispatch.service]}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {dispatch.event ? dispatch.event.startDateTime.replace('T', ' ').slice(0, 16) : 'Event removed'} · {dispatch.reason}
+                          {dispatch.billingRecord ? ` · ${dispatch.billingRecord.invoiceNumber} $${dispatch.billingRecord.amount}` : ''}
+                        </div>
+                      </div>
+                      {dispatch.status === 'DISPATCHED' ? (
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => handleVisits('complete', [dispatch.id])}
+                            disabled={isWorking}
+                            className="neo-button-sm p-2 text-green-700"
+                            title="Visit done"
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleVisits('skip', [dispatch.id])}
+                            disabled={isWorking}
+                            className="neo-button-sm p-2 text-red-600"
+                            title="Skip visit"
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-[10px] uppercase tracking-wide font-primary">{dispatch.status}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </CRMLayout>
+  )
+}
+
+export default SnowDispatchPage
@@ -16,7 +16,8 @@ import RecurringDeleteConfirmationModal, { RecurringDeleteOption } from '@/compo
 import { useUnifiedEvents } from '@/hooks/useUnifiedEvents'
 import { ViewManagerProvider, useViewManager } from '@/contexts/ViewManagerContext'
 import { CalendarEvent } from '@/types/scheduling'
-import { conflictDetector, ConflictResult, ResolutionStrategy } from '@/lib/conflict-detector'
+import { conflictDetector, ConflictResult, ResolutionStrategy, SuggestedTimeSlot } from '@/lib/conflict-detector'
+import type { FieldPicks, SyncConflictSummary } from '@/lib/sync-merge'
 
 const TimeManagerContent = () => {
   const searchParams = useSearchParams()
@@ -60,6 +61,10 @@ const TimeManagerContent = () => {
   const [conflicts, setConflicts] = useState<ConflictResult | null>(null)
   const [recentlyCreatedEvents, setRecentlyCreatedEvents] = useState<Set<string>>(new Set())
 
+  // Calendar sync conflicts - same field changed here and in an external calendar
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflictSummary[]>([])
+  const [showSyncConflictModal, setShowSyncConflictModal] = useState(false)
+
   // Global conflict tracking for sidebar icon
   const [globalConflictCount, setGlobalConflictCount] = useState(0)
   const [allConflicts, setAllConflicts] = useState<ConflictResult | null>(null)
@@ -100,6 +105,21 @@ const TimeManagerContent = () => {
     }
   }, [searchParams])
 
+  // Load clients' preferred days and hours - suggested times for a conflicting event stay inside them
+  useEffect(() => {
+    const loadClientPreferences = async () => {
+      try {
+        const response = await fetch('/api/clients/preferences')
+        if (!response.ok) return
+        const { data } = await response.json()
+        conflictDetector.setClientPreferences(data || [])
+      } catch (error) {
+        console.error('Error loading client preferences:', error)
+      }
+    }
+    loadClientPreferences()
+  }, [])
+
   // Auto-sync calendar on page load
   useEffect(() => {
     const syncOnLoad = async () => {
@@ -148,6 +168,14 @@ const TimeManagerContent = () => {
         await refreshEvents()
         console.log('📅 [TimeManager] Background sync completed')
 
+        // Changes that couldn't be merged field by field wait for the user
+        const conflictsRes = await fetch('/api/calendar/sync/conflicts')
+        const conflictsData = conflictsRes.ok ? await conflictsRes.json() : null
+        if (conflictsData?.success && conflictsData.data.length > 0) {
+          setSyncConflicts(conflictsData.data)
+          setShowSyncConflictModal(true)
+        }
+
       } catch (error) {
         // Log error but don't show to user - this is a background operation
         console.error('📅 [TimeManager] Background sync failed:', error)
@@ -159,6 +187,25 @@ const TimeManagerContent = () => {
     syncOnLoad()
   }, [refreshEvents])
 
+  const handleResolveSyncConflict = useCallback(async (conflict: SyncConflictSummary, picks: FieldPicks) => {
+    const response = await fetch('/api/calendar/sync/conflicts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ eventId: conflict.eventId, integrationId: conflict.integrationId, picks })
+    })
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to resolve sync conflict')
+    }
+
+    const remaining = syncConflicts.filter(candidate =>
+      candidate.eventId !== conflict.eventId || candidate.integrationId !== conflict.integrationId
+    )
+    setSyncConflicts(remaining)
+    if (remaining.length === 0) setShowSyncConflictModal(false)
+    await refreshEvents()
+  }, [syncConflicts, refreshEvents])
+
   // Calculate global conflicts whenever events change
   // Only counts temporal overlaps (real conflicts), not business rules
   useEffect(() => {
@@ -674,6 +721,7 @@ const TimeManagerContent = () => {
       // Recalculate conflicts for the modal after deletion
       if (pendingEvent) {
         const updatedExistingEvents = getAllExistingEvents()
+        await conflictDetector.loadTravelLocations(pendingEvent, updatedExistingEvents)
 
         const freshConflictResult = conflictDetector.detectConflicts(pendingEvent, updatedExistingEvents)
 
@@ -713,6 +761,21 @@ const TimeManagerContent = () => {
     }
   }
 
+  // Move the pending event to a suggested time and check it again there
+  const handleChooseAlternativeSlot = async (slot: SuggestedTimeSlot) => {
+    if (!pendingEvent) return
+    const movedEvent: UnifiedEvent = {
+      ...pendingEvent,
+      startDateTime: format(slot.start, "yyyy-MM-dd'T'HH:mm:ss"),
+      endDateTime: format(slot.end, "yyyy-MM-dd'T'HH:mm:ss"),
+      duration: Math.round((slot.end.getTime() - slot.start.getTime()) / (1000 * 60))
+    }
+    const existingEvents = getAllExistingEvents().filter(e => e.id !== movedEvent.id)
+    await conflictDetector.loadTravelLocations(movedEvent, existingEvents)
+    setPendingEvent(movedEvent)
+    setConflicts(conflictDetector.detectConflicts(movedEvent, existingEvents))
+  }
+
   const handleConflictAcceptSave = async () => {
     // Check if there are any remaining conflicts
     if (conflicts && conflicts.conflicts.length === 0 && pendingEvent) {
@@ -977,11 +1040,22 @@ const TimeManagerContent = () => {
             onDeleteEvent={handleDeleteEvent}
             onRescheduleEvent={handleRescheduleEvent}
             onAcceptSave={handleConflictAcceptSave}
+            onChooseAlternativeSlot={handleChooseAlternativeSlot}
             onCancel={handleConflictCancel}
             onClose={handleConflictCancel}
           />
         )}
 
+        {/* Sync Conflict Resolution Modal */}
+        {syncConflicts.length > 0 && (
+          <ConflictResolutionModal
+            isOpen={showSyncConflictModal}
+            syncConflicts={syncConflicts}
+            onResolveSyncConflict={handleResolveSyncConflict}
+            onClose={() => setShowSyncConflictModal(false)}
+          />
+        )}
+
         {/* Recurring Delete Confirmation Modal */}
         <RecurringDeleteConfirmationModal
           isOpen={showRecurringDeleteModal}
@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { X, FileSpreadsheet, Download, AlertCircle } from 'lucide-react';
+import { lockScroll, unlockScroll } from '@/lib/modal-scroll-lock';
+import { AccountingExportFormat, AccountingTransactionType } from '@/types/billing';
+
+interface AccountingExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: Array<{ value: AccountingExportFormat; label: string; hint: string }> = [
+  { value: 'quickbooks_iif', label: 'QuickBooks Desktop (IIF)', hint: 'Invoices, credit memos, refunds, payments and cash sales' },
+  { value: 'quickbooks_csv', label: 'QuickBooks Online (CSV)', hint: 'Journal entries - import under Settings > Import data' },
+  { value: 'xero_csv', label: 'Xero (CSV)', hint: 'Manual journals with a Service Line tracking category' }
+];
+
+const TYPE_OPTIONS: Array<{ value: AccountingTransactionType; label: string }> = [
+  { value: 'invoice', label: 'Invoices' },
+  { value: 'credit_note', label: 'Credit notes' },
+  { value: 'refund', label: 'Refunds' },
+  { value: 'payment', label: 'Payments' },
+  { value: 'receipt', label: 'Receipts' }
+];
+
+const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const AccountingExportModal: React.FC<AccountingExportModalProps> = ({ isOpen, onClose }) => {
+  const [from, setFrom] = useState(() => toInputDate(new Date(new Date().getFullYear(), 0, 1)));
+  const [to, setTo] = useState(() => toInputDate(new Date()));
+  const [format, setFormat] = useState<AccountingExportFormat>('quickbooks_iif');
+  const [include, setInclude] = useState<AccountingTransactionType[]>(TYPE_OPTIONS.map(option => option.value));
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Disable body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      lockScroll();
+    } else {
+      unlockScroll();
+    }
+
+    return () => {
+      unlockScroll();
+    };
+  }, [isOpen]);
+
+  const toggleType = (type: AccountingTransactionType) => {
+    setInclude(current => current.includes(type) ? current.filter(t => t !== type) : [...current, type]);
+  };
+
+  const handleExport = async () => {
+    setError('');
+    setIsExporting(true);
+
+    try {
+      const params = new URLSearchParams({ from, to, format, include: include.join(',') });
+      const response = await fetch(`/api/billing/export?${params}`);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Export failed');
+        return;
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'accounting-export.csv';
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      if (response.headers.get('X-Export-Warnings') !== '0') {
+        setError('Exported, but some documents had line items that did not add up to their total - the difference was posted to income. Check the server log for details.');
+        return;
+      }
+      onClose();
+    } catch (err) {
+      console.error('Accounting export failed:', err);
+      setError('An error occurred while exporting');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-[100]" onClick={onClose} />
+
+      {/* Modal container - accounts for sidebar on desktop */}
+      <div className="fixed inset-y-0 right-0 left-0 lg:left-64 z-[101] flex items-start justify-center p-4 sm:p-6 md:p-8 overflow-y-auto pointer-events-none">
+        <div className="neo-container max-w-lg w-full mt-16 sm:mt-20 md:mt-16 mb-8 pointer-events-auto">
+        {/* Header */}
+        <div className="neo-inset border-b border-foreground/10 p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FileSpreadsheet className="h-6 w-6 text-foreground" />
+              <h2 className="text-xl font-bold text-foreground uppercase tracking-wide font-primary">
+                Accounting Export
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="neo-icon-button transition-transform hover:scale-[1.1]"
+              aria-label="Close"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                From
+              </label>
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="neo-input w-full" />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+                To
+              </label>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="neo-input w-full" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+              Format
+            </label>
+            <div className="space-y-2">
+              {FORMAT_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-start space-x-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="accounting-export-format"
+                    checked={format === option.value}
+                    onChange={() => setFormat(option.value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm text-foreground font-primary">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground font-primary">{option.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-foreground mb-2 font-primary uppercase tracking-wide">
+              Include
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {TYPE_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center space-x-2 text-sm text-foreground font-primary cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={include.includes(option.value)}
+                    onChange={() => toggleType(option.value)}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="neo-inset p-3 border-l-4 border-red-500 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <AlertCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-600 font-primary">{error}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button onClick={onClose} className="neo-button font-primary" disabled={isExporting}>
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || !from || !to || include.length === 0}
+              className="neo-button-active font-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              {isExporting ? 'Exporting...' : 'Download'}
+            </button>
+          </div>
+        </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AccountingExportModal;
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
-import { X, Activity, Clock, User, FileText, MessageSquare, Receipt, GitBranch, Rocket } from 'lucide-react';
+import { X, Activity, Clock, User, FileText, MessageSquare, Receipt, GitBranch, Rocket, AlertTriangle, Mail, RotateCcw, FileCheck, FileX } from 'lucide-react';
 import { lockScroll, unlockScroll } from '@/lib/modal-scroll-lock';
 
 interface ActivityLogItem {
@@ -39,7 +39,18 @@ const getActivityIcon = (activityType: string) => {
     case 'RECEIPT_CREATED':
     case 'INVOICE_CREATED':
     case 'QUOTE_CREATED':
+    case 'PAYMENT_RECEIVED':
       return <Receipt className="w-4 h-4" />;
+    case 'INVOICE_OVERDUE':
+      return <AlertTriangle className="w-4 h-4" />;
+    case 'PAYMENT_REMINDER_SENT':
+      return <Mail className="w-4 h-4" />;
+    case 'CREDIT_NOTE_ISSUED':
+      return <RotateCcw className="w-4 h-4" />;
+    case 'QUOTE_ACCEPTED':
+      return <FileCheck className="w-4 h-4" />;
+    case 'QUOTE_DECLINED':
+      return <FileX className="w-4 h-4" />;
     case 'DEPLOYMENT':
       return <Rocket className="w-4 h-4" />;
     case 'GIT_PUSH':
@@ -65,7 +76,18 @@ const getActivityColor = (activityType: string) => {
     case 'RECEIPT_CREATED':
     case 'INVOICE_CREATED':
     case 'QUOTE_CREATED':
+    case 'PAYMENT_RECEIVED':
       return 'text-emerald-600';
+    case 'INVOICE_OVERDUE':
+      return 'text-red-600';
+    case 'PAYMENT_REMINDER_SENT':
+      return 'text-amber-600';
+    case 'CREDIT_NOTE_ISSUED':
+      return 'text-rose-600';
+    case 'QUOTE_ACCEPTED':
+      return 'text-green-600';
+    case 'QUOTE_DECLINED':
+      return 'text-gray-600';
     case 'DEPLOYMENT':
       return 'text-pink-600';
     case 'GIT_PUSH':
@@ -196,6 +218,12 @@ const ActivityLogModal: React.FC<ActivityLogModalProps> = ({ isOpen, onClose })
                             <span className="truncate">
                               {activity.activityType === 'RECEIPT_CREATED' && activity.metadata.amount &&
                                 `$${activity.metadata.amount.toFixed(2)}`}
+                              {activity.activityType === 'PAYMENT_RECEIVED' && activity.metadata.amount &&
+                                `$${activity.metadata.amount.toFixed(2)} paid`}
+                              {activity.activityType === 'PAYMENT_REMINDER_SENT' && activity.metadata.amount &&
+                                `$${activity.metadata.amount.toFixed(2)} due`}
+                              {activity.activityType === 'CREDIT_NOTE_ISSUED' && activity.metadata.amount &&
+                                `-$${activity.metadata.amount.toFixed(2)} credited`}
                               {activity.activityType === 'TIME_TRACKED' && activity.metadata.hours &&
                                 `${activity.metadata.hours.toFixed(2)} hrs`}
                               {activity.activityType === 'TESTIMONIAL_RECEIVED' && activity.metadata.rating &&
@@ -36,6 +36,7 @@ const CRMLayout: React.FC<CRMLayoutProps> = ({ children }) => {
     if (pathname?.includes('/billing')) return 'billing'
     if (pathname?.includes('/time-manager')) return 'time-manager'
     if (pathname?.includes('/goals')) return 'goals'
+    if (pathname?.includes('/snow-dispatch')) return 'snow-dispatch'
     if (pathname?.includes('/service-lines')) return 'service-lines'
     if (pathname?.includes('/services/woodgreen') || pathname?.includes('/services/landscaping')) return 'woodgreen'
     if (pathname?.includes('/services/whiteknight') || pathname?.includes('/services/snow-removal')) return 'whiteknight'
@@ -83,6 +84,7 @@ const CRMLayout: React.FC<CRMLayoutProps> = ({ children }) => {
       'billing': '/billing',
       'time-manager': '/time-manager',
       'goals': '/goals',
+      'snow-dispatch': '/snow-dispatch',
       'service-lines': '/service-lines',
       'woodgreen': '/services/woodgreen',
       'whiteknight': '/services/whiteknight',
@@ -10,6 +10,60 @@ import { calendarService } from "@/lib/calendar-service";
 import RecurringEventManager from "./RecurringEventManager";
 import { RefreshCw, Check, X } from "lucide-react";
 
+interface DeadLetterItem {
+  id: string;
+  operation: string;
+  title: string | null;
+  provider?: string;
+  calendarName?: string | null;
+  retryCount: number;
+  lastError: string | null;
+  failedAt: string | null;
+}
+
+interface AccountCalendar {
+  externalId: string;
+  name: string;
+  isPrimary: boolean;
+  readOnly: boolean;
+  integrationId: string | null;
+  syncDirection: "BIDIRECTIONAL" | "EXPORT_ONLY" | "IMPORT_ONLY" | null;
+  mappingRule: MappingRule | null;
+}
+
+interface MappingRule {
+  serviceLines?: string[];
+  eventTypes?: string[];
+  clientTags?: string[];
+  fallback?: boolean;
+  importAs?: { type?: string; serviceLine?: string };
+}
+
+interface SyncChange {
+  direction: "PUSH" | "PULL";
+  action: "CREATE" | "UPDATE" | "DELETE";
+  title: string | null;
+  error?: string | null;
+}
+
+interface SyncRun {
+  id: string;
+  trigger: string;
+  dryRun: boolean;
+  status: "RUNNING" | "COMPLETED" | "FAILED" | "ROLLED_BACK" | "PARTIALLY_ROLLED_BACK";
+  error: string | null;
+  startedAt: string;
+  pulled: number;
+  pushed: number;
+  failed: number;
+}
+
+const SYNC_DIRECTION_LABELS = {
+  BIDIRECTIONAL: "bidirectional",
+  EXPORT_ONLY: "to-external",
+  IMPORT_ONLY: "from-external",
+} as const;
+
 interface CalendarIntegrationManagerProps {
   onEventsSync?: (events: CalendarEvent[]) => void;
   onIntegrationChange?: (integrations: IntegrationType[]) => void;
@@ -30,6 +84,74 @@ export default function CalendarIntegrationManager({
   >({});
   const [allEvents, setAllEvents] = useState<CalendarEvent[]>([]);
   const [activeTab, setActiveTab] = useState<'integrations' | 'recurring'>('integrations');
+  const [deadLetters, setDeadLetters] = useState<DeadLetterItem[]>([]);
+  const [feedEnabled, setFeedEnabled] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [accountCalendars, setAccountCalendars] = useState<Record<string, AccountCalendar[]>>({});
+  const [syncPreview, setSyncPreview] = useState<Record<string, SyncChange[]>>({});
+  const [syncRuns, setSyncRuns] = useState<Record<string, SyncRun[]>>({});
+
+  // Sync operations that ran out of retries in the background queue
+  const loadDeadLetters = async () => {
+    try {
+      const response = await fetch('/api/calendar/sync/queue/dead-letter');
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) setDeadLetters(result.data);
+      }
+    } catch (error) {
+      console.error('Error loading failed sync operations:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadDeadLetters();
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/calendar/feed')
+      .then((response) => response.json())
+      .then((result) => setFeedEnabled(!!result.data?.enabled))
+      .catch((error) => console.error('Error loading calendar feed:', error));
+  }, []);
+
+  // The feed URL holds its secret, so it can only be shown right after it is created
+  const handleFeed = async (method: 'POST' | 'DELETE') => {
+    if (feedEnabled && !window.confirm('This stops the current subscription URL from working. Continue?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/calendar/feed', { method });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setFeedEnabled(method === 'POST');
+      setFeedUrl(method === 'POST' ? result.data.url : null);
+    } catch (error) {
+      console.error('Error updating calendar feed:', error);
+      alert('Failed to update the calendar feed. Please try again.');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setImportStatus('Importing...');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (clientId) formData.append('clientId', clientId);
+
+      const response = await fetch('/api/calendar/import', { method: 'POST', body: formData });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      const { created, updated, skipped, errors } = result.data;
+      setImportStatus(`${created} added, ${updated} updated, ${skipped} unchanged${errors.length ? `, ${errors.length} failed` : ''}`);
+    } catch (error) {
+      console.error('Error importing calendar file:', error);
+      setImportStatus(error instanceof Error ? error.message : 'Import failed');
+    }
+  };
 
   // Load existing integrations from database on mount
   useEffect(() => {
@@ -49,7 +171,7 @@ export default function CalendarIntegrationManager({
               isActive: dbIntegration.isActive,
               syncEnabled: true,
               syncSettings: {
-                syncDirection: 'bidirectional' as const,
+                syncDirection: SYNC_DIRECTION_LABELS[dbIntegration.syncDirection as keyof typeof SYNC_DIRECTION_LABELS] || 'bidirectional',
                 autoCreateEvents: true,
                 defaultVisibility: 'private' as const,
               },
@@ -274,6 +396,139 @@ export default function CalendarIntegrationManager({
     }
   };
 
+  const handleDeadLetters = async (method: 'POST' | 'DELETE', ids?: string[]) => {
+    try {
+      const response = await fetch('/api/calendar/sync/queue/dead-letter', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : { all: true }),
+      });
+      if (!response.ok) {
+        alert(`Failed to ${method === 'POST' ? 'replay' : 'discard'} sync operations. Please try again.`);
+      }
+    } catch (error) {
+      console.error('Error updating failed sync operations:', error);
+    }
+    await loadDeadLetters();
+  };
+
+  // Every calendar of the account behind an integration, synced or not
+  const loadAccountCalendars = async (integrationId: string) => {
+    try {
+      const response = await fetch(`/api/calendar/integrations/${integrationId}/calendars`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setAccountCalendars((prev) => ({ ...prev, [integrationId]: result.data }));
+    } catch (error) {
+      console.error('Error loading account calendars:', error);
+      alert('Failed to load calendars for this account. Please try again.');
+    }
+  };
+
+  const handleAddCalendar = async (integrationId: string, externalId: string) => {
+    try {
+      const response = await fetch(`/api/calendar/integrations/${integrationId}/calendars`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ externalId }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+    } catch (error) {
+      console.error('Error adding calendar:', error);
+      alert(`Failed to add calendar: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    await loadAccountCalendars(integrationId);
+  };
+
+  const handleCalendarSettings = async (
+    integrationId: string,
+    calendar: AccountCalendar,
+    changes: { syncDirection?: AccountCalendar["syncDirection"]; mappingRule?: MappingRule },
+  ) => {
+    if (!calendar.integrationId) return;
+    try {
+      const response = await fetch(`/api/calendar/integrations/${calendar.integrationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+    } catch (error) {
+      console.error('Error updating calendar settings:', error);
+      alert('Failed to update calendar settings. Please try again.');
+    }
+    await loadAccountCalendars(integrationId);
+  };
+
+  // Comma-separated inputs for the list parts of a mapping rule
+  const updateRuleList = (
+    integrationId: string,
+    calendar: AccountCalendar,
+    key: "serviceLines" | "eventTypes" | "clientTags",
+    value: string,
+  ) => {
+    const list = value.split(",").map((item) => item.trim()).filter(Boolean);
+    if (list.join(",") === (calendar.mappingRule?.[key] || []).join(",")) return;
+    handleCalendarSettings(integrationId, calendar, {
+      mappingRule: { ...calendar.mappingRule, [key]: list },
+    });
+  };
+
+  // Dry run - what a sync would change, without writing anything
+  const handlePreviewSync = async (integrationId: string) => {
+    try {
+      const response = await fetch(`/api/calendar/integrations/${integrationId}/sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setSyncPreview((prev) => ({ ...prev, [integrationId]: result.run?.changes || [] }));
+    } catch (error) {
+      console.error('Error previewing sync:', error);
+      alert('Failed to preview the sync. Please try again.');
+    }
+  };
+
+  const loadSyncRuns = async (integrationId: string) => {
+    try {
+      const response = await fetch(`/api/calendar/integrations/${integrationId}/sync/runs?limit=10`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setSyncRuns((prev) => ({ ...prev, [integrationId]: result.data }));
+    } catch (error) {
+      console.error('Error loading sync history:', error);
+    }
+  };
+
+  const handleRollback = async (integrationId: string, runId: string) => {
+    if (!window.confirm('Undo the changes this sync made to your events? Your external calendar is not changed.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/calendar/integrations/${integrationId}/sync/runs/${runId}/rollback`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      const { status, restored, removed, recreated, skipped } = result.data;
+      const undone = restored + removed + recreated;
+      const skippedNote = skipped.length ? `, ${skipped.length} skipped (edited since)` : '';
+      alert(undone === 0
+        ? `Nothing rolled back${skippedNote}`
+        : `${status === 'PARTIALLY_ROLLED_BACK' ? 'Partly rolled back' : 'Rolled back'}: ${restored} restored, ${removed} removed, ${recreated} recreated${skippedNote}`);
+    } catch (error) {
+      console.error('Error rolling back sync:', error);
+      alert(`Rollback failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    await loadSyncRuns(integrationId);
+  };
+
   const getIntegratedProvider = (providerId: string) => {
     return integrations.find(
       (integration) => integration.provider === providerId,
@@ -518,6 +773,165 @@ export default function CalendarIntegrationManager({
                         </div>
                       </div>
                     )}
+                    {provider.id !== "notion" && (
+                      <div className="text-sm">
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="text-foreground/60 text-xs font-primary uppercase tracking-wide">Calendars</div>
+                          <button
+                            onClick={() => loadAccountCalendars(integration.id)}
+                            className="text-xs font-primary uppercase tracking-wide text-foreground/60 hover:text-foreground"
+                          >
+                            {accountCalendars[integration.id] ? "Refresh" : "Choose calendars"}
+                          </button>
+                        </div>
+                        {accountCalendars[integration.id]?.map((calendar) => (
+                          <div key={calendar.externalId} className="py-2 border-t border-border first:border-t-0">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-medium text-foreground truncate font-primary">
+                                {calendar.name}
+                                {calendar.isPrimary && <span className="ml-2 text-xs text-foreground/60">(primary)</span>}
+                              </span>
+                              {calendar.integrationId ? (
+                                <select
+                                  value={calendar.syncDirection || "BIDIRECTIONAL"}
+                                  onChange={(e) =>
+                                    handleCalendarSettings(integration.id, calendar, {
+                                      syncDirection: e.target.value as AccountCalendar["syncDirection"],
+                                    })
+                                  }
+                                  className="neo-input px-2 py-1 text-xs font-primary"
+                                >
+                                  {!calendar.readOnly && <option value="BIDIRECTIONAL">Both ways</option>}
+                                  {!calendar.readOnly && <option value="EXPORT_ONLY">To calendar</option>}
+                                  <option value="IMPORT_ONLY">From calendar</option>
+                                </select>
+                              ) : (
+                                <button
+                                  onClick={() => handleAddCalendar(integration.id, calendar.externalId)}
+                                  className="neo-button px-3 py-1 text-xs font-primary uppercase tracking-wide"
+                                >
+                                  Add
+                                </button>
+                              )}
+                            </div>
+                            {calendar.integrationId && (
+                              <div className="grid grid-cols-2 gap-2 mt-2">
+                                {(["serviceLines", "eventTypes", "clientTags"] as const).map((key) => (
+                                  <input
+                                    key={key}
+                                    defaultValue={(calendar.mappingRule?.[key] || []).join(", ")}
+                                    onBlur={(e) => updateRuleList(integration.id, calendar, key, e.target.value)}
+                                    placeholder={
+                                      key === "serviceLines"
+                                        ? "Service lines (all)"
+                                        : key === "eventTypes"
+                                          ? "Event types (all)"
+                                          : "Client tags (all)"
+                                    }
+                                    className="neo-input px-2 py-1 text-xs font-primary"
+                                  />
+                                ))}
+                                <label className="flex items-center gap-2 text-xs font-primary text-foreground/70">
+                                  <input
+                                    type="checkbox"
+                                    checked={!!calendar.mappingRule?.fallback}
+                                    onChange={(e) =>
+                                      handleCalendarSettings(integration.id, calendar, {
+                                        mappingRule: { ...calendar.mappingRule, fallback: e.target.checked },
+                                      })
+                                    }
+                                  />
+                                  Everything else
+                                </label>
+                                <select
+                                  value={calendar.mappingRule?.importAs?.type || ""}
+                                  onChange={(e) =>
+                                    handleCalendarSettings(integration.id, calendar, {
+                                      mappingRule: {
+                                        ...calendar.mappingRule,
+                                        importAs: { ...calendar.mappingRule?.importAs, type: e.target.value || undefined },
+                                      },
+                                    })
+                                  }
+                                  className="neo-input px-2 py-1 text-xs font-primary"
+                                >
+                                  <option value="">Import as events</option>
+                                  <option value="TASK">Import as tasks</option>
+                                  <option value="GOAL">Import as goals</option>
+                                  <option value="MILESTONE">Import as milestones</option>
+                                </select>
+                                <input
+                                  defaultValue={calendar.mappingRule?.importAs?.serviceLine || ""}
+                                  onBlur={(e) => {
+                                    const serviceLine = e.target.value.trim() || undefined;
+                                    if (serviceLine === calendar.mappingRule?.importAs?.serviceLine) return;
+                                    handleCalendarSettings(integration.id, calendar, {
+                                      mappingRule: {
+                                        ...calendar.mappingRule,
+                                        importAs: { ...calendar.mappingRule?.importAs, serviceLine },
+                                      },
+                                    });
+                                  }}
+                                  placeholder="Imports' service line"
+                                  className="neo-input px-2 py-1 text-xs font-primary"
+                                />
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="text-sm">
+                      <div className="flex items-center justify-between mb-1">
+                        <div className="text-foreground/60 text-xs font-primary uppercase tracking-wide">Sync Journal</div>
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => handlePreviewSync(integration.id)}
+                            className="text-xs font-primary uppercase tracking-wide text-foreground/60 hover:text-foreground"
+                          >
+                            Preview sync
+                          </button>
+                          <button
+                            onClick={() => loadSyncRuns(integration.id)}
+                            className="text-xs font-primary uppercase tracking-wide text-foreground/60 hover:text-foreground"
+                          >
+                            History
+                          </button>
+                        </div>
+                      </div>
+                      {syncPreview[integration.id] && (
+                        <div className="py-1 text-xs font-primary text-foreground/70">
+                          {syncPreview[integration.id].length === 0
+                            ? "Nothing to sync"
+                            : syncPreview[integration.id].map((change, index) => (
+                              <div key={index} className="truncate">
+                                {change.direction === "PULL" ? "←" : "→"} {change.action.toLowerCase()} {change.title || "Untitled"}
+                              </div>
+                            ))}
+                        </div>
+                      )}
+                      {syncRuns[integration.id]?.map((run) => (
+                        <div key={run.id} className="flex items-center justify-between gap-2 py-1 border-t border-border first:border-t-0 text-xs font-primary">
+                          <span className="text-foreground/70 truncate">
+                            {new Date(run.startedAt).toLocaleString()} · {run.trigger}{run.dryRun ? " (dry run)" : ""} · {run.pulled} in, {run.pushed} out
+                            {run.failed > 0 && <span className="text-red-600"> · {run.failed} failed</span>}
+                            {run.status === "ROLLED_BACK" && " · rolled back"}
+                            {run.status === "PARTIALLY_ROLLED_BACK" && " · partly rolled back"}
+                          </span>
+                          {!run.dryRun && run.status !== "ROLLED_BACK" && run.pulled > 0 && (
+                            <button
+                              onClick={() => handleRollback(integration.id, run.id)}
+                              className="neo-button px-2 py-0.5 text-xs font-primary uppercase tracking-wide text-red-600"
+                            >
+                              Roll back
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      {syncRuns[integration.id]?.length === 0 && (
+                        <div className="py-1 text-xs font-primary text-foreground/60">No sync runs recorded yet</div>
+                      )}
+                    </div>
                   </div>
                 )}
               </div>
@@ -526,6 +940,143 @@ export default function CalendarIntegrationManager({
         </div>
       </div>
 
+      {/* Calendar Feed & Files Section */}
+      <div>
+        <h3 className="font-bold text-foreground font-primary uppercase tracking-wide mb-4 pb-2 border-b border-border">
+          Calendar Feed &amp; Files
+        </h3>
+        <div className="divide-y divide-border">
+          <div className="py-4 space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h4 className="font-medium text-foreground font-primary">Subscription URL</h4>
+                <p className="text-sm text-foreground/60 font-primary">
+                  Subscribe from your phone or any calendar app. Add ?client=, ?serviceLine= or ?type= to filter it.
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => handleFeed('POST')}
+                  className="neo-button px-3 py-1.5 text-xs font-primary uppercase tracking-wide"
+                >
+                  {feedEnabled ? "New URL" : "Create URL"}
+                </button>
+                {feedEnabled && (
+                  <button
+                    onClick={() => handleFeed('DELETE')}
+                    className="neo-button px-3 py-1.5 text-xs font-primary uppercase tracking-wide text-red-600 hover:text-red-700"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </div>
+            </div>
+            {feedUrl && (
+              <div className="flex items-center gap-2">
+                <input
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-2 py-1 text-xs font-mono bg-background border border-border rounded"
+                />
+                <button
+                  onClick={() => navigator.clipboard.writeText(feedUrl)}
+                  className="neo-button px-3 py-1.5 text-xs font-primary uppercase tracking-wide"
+                >
+                  Copy
+                </button>
+              </div>
+            )}
+            {feedUrl && (
+              <p className="text-xs text-foreground/60 font-primary">
+                Copy it now - it won&apos;t be shown again.
+              </p>
+            )}
+          </div>
+
+          <div className="py-4 flex items-center justify-between gap-4">
+            <div>
+              <h4 className="font-medium text-foreground font-primary">.ics Files</h4>
+              <p className="text-sm text-foreground/60 font-primary">
+                {importStatus || 'Download your events, or import a file from another calendar.'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <a
+                href={`/api/calendar/export${clientId ? `?client=${encodeURIComponent(clientId)}` : ''}`}
+                className="neo-button px-3 py-1.5 text-xs font-primary uppercase tracking-wide"
+              >
+                Download
+              </a>
+              <label className="neo-button px-3 py-1.5 text-xs font-primary uppercase tracking-wide cursor-pointer">
+                Import
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImport(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Failed Sync Operations Section */}
+      {deadLetters.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-4 pb-2 border-b border-border">
+            <h3 className="font-bold text-foreground font-primary uppercase tracking-wide">
+              Failed Sync Operations ({deadLetters.length})
+            </h3>
+            <button
+              onClick={() => handleDeadLetters('POST')}
+              className="neo-button px-3 py-1.5 text-xs font-primary uppercase tracking-wide"
+            >
+              Replay All
+            </button>
+          </div>
+          <div className="divide-y divide-border max-h-64 overflow-y-auto">
+            {deadLetters.map((item) => (
+              <div key={item.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-medium text-foreground text-sm font-primary truncate">
+                    {item.title || item.operation.replace("_", " ").toLowerCase()}
+                  </div>
+                  <div className="text-foreground/60 text-xs font-primary">
+                    {item.calendarName || item.provider?.toLowerCase()} • {item.operation.replace("_", " ").toLowerCase()}
+                    {item.failedAt && ` • ${new Date(item.failedAt).toLocaleString()}`}
+                  </div>
+                  {item.lastError && (
+                    <div className="text-red-600 text-xs font-primary truncate" title={item.lastError}>
+                      {item.lastError}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => handleDeadLetters('POST', [item.id])}
+                    className="neo-button px-3 py-1.5 text-xs font-primary uppercase tracking-wide"
+                  >
+                    Replay
+                  </button>
+                  <button
+                    onClick={() => handleDeadLetters('DELETE', [item.id])}
+                    className="neo-button px-3 py-1.5 text-xs font-primary uppercase tracking-wide text-red-600 hover:text-red-700"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Synchronized Events Section */}
       {allEvents.length > 0 && (
         <div>
@@ -21,11 +21,13 @@ import {
   ConflictDetail, 
   ResolutionSuggestion, 
   ResolutionStrategy,
-  ConflictSeverity 
+  ConflictSeverity,
+  SuggestedTimeSlot
 } from '@/lib/conflict-detector'
 import { ConflictResolutionClientService } from '@/lib/conflict-resolution-client'
+import type { FieldPicks, SyncConflictSummary, SyncField, SyncSnapshot } from '@/lib/sync-merge'
 
-interface ConflictResolutionModalProps {
+interface SchedulingConflictProps {
   isOpen: boolean
   proposedEvent: UnifiedEvent
   conflicts: ConflictResult
@@ -33,11 +35,175 @@ interface ConflictResolutionModalProps {
   onDeleteEvent: (conflictId: string, eventId: string) => Promise<void>
   onRescheduleEvent: (conflictId: string, eventId: string) => void
   onAcceptSave?: () => Promise<void>
+  onChooseAlternativeSlot?: (slot: SuggestedTimeSlot) => void
   onCancel: () => void
   onClose: () => void
 }
 
-const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
+// Calendar sync conflicts - fields changed differently here and in an external calendar
+interface SyncConflictProps {
+  isOpen: boolean
+  syncConflicts: SyncConflictSummary[]
+  onResolveSyncConflict: (conflict: SyncConflictSummary, picks: FieldPicks) => Promise<void>
+  onClose: () => void
+}
+
+type ConflictResolutionModalProps = SchedulingConflictProps | SyncConflictProps
+
+const SYNC_FIELD_LABELS: Record<SyncField, string> = {
+  title: 'Title',
+  description: 'Description',
+  time: 'Time',
+  location: 'Location',
+  status: 'Status',
+  participants: 'Participants'
+}
+
+const formatSyncValue = (field: SyncField, values?: Partial<SyncSnapshot>): string => {
+  if (!values) return '—'
+  if (field === 'time') {
+    if (!values.startDateTime) return '—'
+    if (values.isAllDay) return `${format(parseISO(values.startDateTime), 'MMM dd, yyyy')} (all day)`
+    const start = parseISO(values.startDateTime)
+    const end = parseISO(values.endDateTime || values.startDateTime)
+    return `${format(start, 'MMM dd, yyyy \'at\' h:mm a')} - ${format(end, 'h:mm a')}`
+  }
+  if (field === 'participants') return values.participants?.join(', ') || '—'
+  if (field === 'title') return values.title || '—'
+  if (field === 'description') return values.description || '—'
+  if (field === 'location') return values.location || '—'
+  return values.status || '—'
+}
+
+const SyncConflictResolution: React.FC<SyncConflictProps> = ({
+  isOpen,
+  syncConflicts,
+  onResolveSyncConflict,
+  onClose
+}) => {
+  // Per conflict (eventId:integrationId), the side picked for each colliding field
+  const [picks, setPicks] = useState<Record<string, FieldPicks>>({})
+  const [resolving, setResolving] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  const conflictKey = (conflict: SyncConflictSummary) => `${conflict.eventId}:${conflict.integrationId}`
+
+  const handlePick = (key: string, field: SyncField, side: 'local' | 'remote') => {
+    setPicks(prev => ({ ...prev, [key]: { ...prev[key], [field]: side } }))
+  }
+
+  const handleResolve = async (conflict: SyncConflictSummary) => {
+    const key = conflictKey(conflict)
+    setResolving(key)
+    try {
+      await onResolveSyncConflict(conflict, picks[key] || {})
+      setPicks(prev => Object.fromEntries(Object.entries(prev).filter(([pickKey]) => pickKey !== key)))
+    } catch (error) {
+      console.error('Failed to resolve sync conflict:', error)
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 dark:bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="neo-container w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6 border-b border-border pb-4">
+            <div className="flex items-center gap-3">
+              <div className="neo-button p-2 rounded-lg">
+                <AlertTriangle className="w-6 h-6 text-orange-500" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-foreground">
+                  Sync Conflicts
+                </h2>
+                <p className="text-muted-foreground">
+                  {syncConflicts.length} event{syncConflicts.length === 1 ? ' was' : 's were'} changed here and in an external calendar - pick which version of each field to keep
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="neo-button p-2 rounded-lg hover:neo-button-active transition-all"
+            >
+              <X className="w-5 h-5 text-muted-foreground" />
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {syncConflicts.map(conflict => {
+              const key = conflictKey(conflict)
+              const conflictPicks = picks[key] || {}
+              const allPicked = conflict.collisions.every(collision => conflictPicks[collision.field])
+
+              return (
+                <div key={key} className="neo-inset p-4 rounded-lg">
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <p className="font-semibold text-foreground">{conflict.title}</p>
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {conflict.calendarName || conflict.provider}
+                      </p>
+                    </div>
+                    <Badge variant="outline">{conflict.provider}</Badge>
+                  </div>
+
+                  {/* Side-by-side diff, one row per colliding field */}
+                  <div className="grid grid-cols-[8rem_1fr_1fr] gap-2 text-sm">
+                    <div />
+                    <div className="font-medium text-muted-foreground">This app</div>
+                    <div className="font-medium text-muted-foreground">{conflict.calendarName || conflict.provider}</div>
+
+                    {conflict.collisions.map(collision => (
+                      <React.Fragment key={collision.field}>
+                        <div className="py-2">
+                          <p className="font-medium text-foreground">{SYNC_FIELD_LABELS[collision.field]}</p>
+                          {collision.base && (
+                            <p className="text-xs text-muted-foreground">
+                              Was: {formatSyncValue(collision.field, collision.base)}
+                            </p>
+                          )}
+                        </div>
+                        {(['local', 'remote'] as const).map(side => (
+                          <button
+                            key={side}
+                            onClick={() => handlePick(key, collision.field, side)}
+                            className={`${conflictPicks[collision.field] === side ? 'neo-button-active' : 'neo-button'} p-2 rounded-lg text-left flex items-start gap-2 whitespace-pre-wrap break-words`}
+                          >
+                            {conflictPicks[collision.field] === side && (
+                              <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400 shrink-0 mt-0.5" />
+                            )}
+                            <span>{formatSyncValue(collision.field, collision[side])}</span>
+                          </button>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                  </div>
+
+                  <div className="flex justify-end mt-4">
+                    <button
+                      onClick={() => handleResolve(conflict)}
+                      disabled={!allPicked || resolving === key}
+                      className="neo-button-active px-6 py-2 rounded-lg font-medium min-w-[120px] disabled:opacity-50"
+                    >
+                      {resolving === key ? 'Saving...' : 'Keep Selected'}
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const SchedulingConflictResolution: React.FC<SchedulingConflictProps> = ({
   isOpen,
   proposedEvent,
   conflicts,
@@ -45,6 +211,7 @@ const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
   onDeleteEvent,
   onRescheduleEvent,
   onAcceptSave,
+  onChooseAlternativeSlot,
   onCancel,
   onClose
 }) => {
@@ -835,6 +1002,62 @@ const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
             </CardContent>
           </Card>
 
+          {/* Suggested Times - each with what its score is made of */}
+          {(() => {
+            const slots = conflicts.suggestions.find(suggestion => suggestion.strategy === 'reschedule')?.alternativeTimeSlots || []
+            if (conflicts.conflicts.length === 0 || slots.length === 0) return null
+
+            return (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="w-5 h-5" />
+                    Suggested Times
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {slots.map(slot => (
+                      <div key={slot.start.toISOString()} className="neo-inset p-3 rounded-lg">
+                        <div className="flex items-center justify-between gap-3 mb-2">
+                          <div className="flex items-center gap-2">
+                            <Clock className="w-4 h-4 text-muted-foreground" />
+                            <span className="font-medium text-foreground text-sm">
+                              {formatTimeRange(slot.start, slot.end)}
+                            </span>
+                            <Badge variant="outline" className="text-xs">
+                              Score {slot.score}
+                            </Badge>
+                          </div>
+                          {onChooseAlternativeSlot && (
+                            <button
+                              onClick={() => onChooseAlternativeSlot(slot)}
+                              className="px-3 py-1.5 text-xs font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                            >
+                              Use This Time
+                            </button>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                          {slot.factors.map(factor => (
+                            <div key={factor.label} className="flex justify-between gap-2">
+                              <span>{factor.label}</span>
+                              <span className="font-medium text-foreground">+{factor.points}/{factor.maxPoints}</span>
+                            </div>
+                          ))}
+                        </div>
+                        {slot.checks.length > 0 && (
+                          <div className="mt-2 text-xs text-green-600 dark:text-green-400">
+                            ✓ {slot.checks.join(' · ')}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })()}
 
           {/* Critical Warning */}
           {hasCriticalConflicts && (
@@ -1007,4 +1230,10 @@ const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
   )
 }
 
+const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = (props) => {
+  return 'syncConflicts' in props
+    ? <SyncConflictResolution {...props} />
+    : <SchedulingConflictResolution {...props} />
+}
+
 export default ConflictResolutionModal
\ No newline at end of file
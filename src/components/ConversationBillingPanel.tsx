@@ -5,7 +5,6 @@ import { useState, useEffect, useCallback } from 'react';
 import { Conversation, Client } from '../types/client';
 import { Receipt, Invoice, BillingSuggestion, CreateReceiptData, CreateInvoiceData } from '../types/billing';
 // Removed billingManager import - use API endpoints instead
-import PDFGenerator from '../lib/pdf-generator';
 
 interface ConversationBillingPanelProps {
   conversation: Conversation;
@@ -381,6 +381,8 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date = createLocalDate(), o
   // Conflict detection and resolution handlers
   const detectEventConflicts = async (proposedEvent: UnifiedEvent): Promise<ConflictResult> => {
     const existingEvents = events.filter(e => e.id !== proposedEvent.id)
+    // Buffers around the job follow the drive time once its site is known
+    await conflictDetector.loadTravelLocations(proposedEvent, existingEvents)
     return conflictDetector.detectConflicts(proposedEvent, existingEvents)
   }
 
@@ -1515,6 +1517,7 @@ Resized: ${data.reason}`.trim() :
         onDeleteEvent={handleConflictDeleteEvent}
         onRescheduleEvent={handleRescheduleEvent}
         onAcceptSave={handleConflictAcceptSave}
+        onChooseAlternativeSlot={(slot) => handleConflictResolution('auto_reschedule', slot)}
         onCancel={() => setConflictModal(null)}
         onClose={() => setConflictModal(null)}
       />
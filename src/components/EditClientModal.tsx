@@ -38,6 +38,11 @@ interface EditClientFormData {
     canReceiveTexts: boolean;
     autoInvoicing: boolean;
     autoReceipts: boolean;
+    availableDays: number[]; // Preferred days for visits, 0 (Sunday) - 6
+    availableHours: {
+      start: string; // "" when they have no preferred hours
+      end: string;
+    };
   };
   occupation: string;
   hobbies: string[];
@@ -49,9 +54,12 @@ interface FormErrors {
   email?: string;
   phone?: string;
   budget?: string;
+  availableHours?: string;
   general?: string;
 }
 
+const DAY_OPTIONS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
 const SERVICE_TYPE_OPTIONS = [
   "lawn_care",
   "landscaping", 
@@ -92,6 +100,8 @@ export default function EditClientModal({
       canReceiveTexts: false,
       autoInvoicing: false,
       autoReceipts: false,
+      availableDays: [],
+      availableHours: { start: "", end: "" },
     },
     occupation: "",
     hobbies: [],
@@ -143,6 +153,11 @@ export default function EditClientModal({
           canReceiveTexts: client.contactPreferences?.canReceiveTexts || false,
           autoInvoicing: client.contactPreferences?.autoInvoicing || false,
           autoReceipts: client.contactPreferences?.autoReceipts || false,
+          availableDays: client.contactPreferences?.availableDays || [],
+          availableHours: {
+            start: client.contactPreferences?.availableHours?.start || "",
+            end: client.contactPreferences?.availableHours?.end || "",
+          },
         },
         occupation: client.occupation || "",
         hobbies: client.hobbies || [],
@@ -187,6 +202,12 @@ export default function EditClientModal({
       }
     }
 
+    // Preferred hours need both ends, in order
+    const { start, end } = formData.contactPreferences.availableHours;
+    if ((start || end) && !(start && end && start < end)) {
+      newErrors.availableHours = "Please enter a start time before the end time";
+    }
+
     // At least one contact method should be provided
     if (!formData.email.trim() && !formData.phone.trim()) {
       newErrors.general = "Please provide at least an email address or phone number";
@@ -245,6 +266,25 @@ export default function EditClientModal({
     handleInputChange("serviceTypes", newTypes);
   };
 
+  const handleAvailableDayToggle = (day: number) => {
+    const currentDays = formData.contactPreferences.availableDays;
+    const newDays = currentDays.includes(day)
+      ? currentDays.filter(current => current !== day)
+      : [...currentDays, day].sort((a, b) => a - b);
+
+    handleInputChange("contactPreferences.availableDays", newDays);
+  };
+
+  const handleAvailableHoursChange = (field: "start" | "end", value: string) => {
+    handleInputChange("contactPreferences.availableHours", {
+      ...formData.contactPreferences.availableHours,
+      [field]: value,
+    });
+    if (errors.availableHours) {
+      setErrors(prev => ({ ...prev, availableHours: undefined }));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -267,7 +307,15 @@ export default function EditClientModal({
         timeline: formData.timeline.trim() || undefined,
         serviceTypes: formData.serviceTypes,
         notes: formData.notes.trim() || undefined,
-        contactPreferences: formData.contactPreferences,
+        contactPreferences: {
+          ...formData.contactPreferences,
+          availableDays: formData.contactPreferences.availableDays.length > 0
+            ? formData.contactPreferences.availableDays
+            : undefined,
+          availableHours: formData.contactPreferences.availableHours.start
+            ? formData.contactPreferences.availableHours
+            : undefined,
+        },
         occupation: formData.occupation.trim() || undefined,
         hobbies: formData.hobbies.filter(h => h.trim()),
         dateOfBirth: formData.dateOfBirth || undefined,
@@ -751,6 +799,65 @@ export default function EditClientModal({
                       </select>
                     </div>
 
+                    <div className="space-y-4">
+                      <h4 className="text-sm font-bold text-foreground uppercase tracking-wide font-primary">Preferred Visit Times</h4>
+                      <p className="text-xs text-muted-foreground font-primary">
+                        Suggested times for rescheduled visits stay inside these. Leave empty for any time.
+                      </p>
+
+                      <div className="grid grid-cols-7 gap-2">
+                        {DAY_OPTIONS.map((label, day) => (
+                          <button
+                            key={label}
+                            type="button"
+                            onClick={() => handleAvailableDayToggle(day)}
+                            className={`px-2 py-2 text-xs font-bold uppercase tracking-wide font-primary transition-transform hover:scale-[1.02] ${
+                              formData.contactPreferences.availableDays.includes(day)
+                                ? "neo-inset"
+                                : "neo-button"
+                            }`}
+                            disabled={isSubmitting}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-bold text-foreground mb-2 uppercase tracking-wide font-primary">
+                            From
+                          </label>
+                          <input
+                            type="time"
+                            value={formData.contactPreferences.availableHours.start}
+                            onChange={(e) => handleAvailableHoursChange("start", e.target.value)}
+                            className={`w-full px-4 py-3 font-primary neo-inset focus:ring-2 focus:ring-foreground/20 transition-all ${
+                              errors.availableHours ? "border-2 border-red-500" : ""
+                            }`}
+                            disabled={isSubmitting}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-bold text-foreground mb-2 uppercase tracking-wide font-primary">
+                            To
+                          </label>
+                          <input
+                            type="time"
+                            value={formData.contactPreferences.availableHours.end}
+                            onChange={(e) => handleAvailableHoursChange("end", e.target.value)}
+                            className={`w-full px-4 py-3 font-primary neo-inset focus:ring-2 focus:ring-foreground/20 transition-all ${
+                              errors.availableHours ? "border-2 border-red-500" : ""
+                            }`}
+                            disabled={isSubmitting}
+                          />
+                        </div>
+                      </div>
+                      {errors.availableHours && (
+                        <p className="text-sm text-red-600 mt-1 font-primary">{errors.availableHours}</p>
+                      )}
+                    </div>
+
                     <div className="space-y-4">
                       <h4 className="text-sm font-bold text-foreground uppercase tracking-wide font-primary">Automation Settings</h4>
 
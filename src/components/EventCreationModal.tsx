@@ -2,8 +2,10 @@
 
 import React, { useState, useEffect } from 'react'
 import { format, parseISO, addMinutes } from 'date-fns'
-import { Calendar, Clock, MapPin, User, Target, CheckCircle, AlertTriangle, Bell, Plus, X, Repeat } from 'lucide-react'
+import { Calendar, Clock, MapPin, User, Target, CheckCircle, AlertTriangle, Bell, Plus, X, Repeat, Truck } from 'lucide-react'
 import ClientSelector, { Client } from '@/components/ClientSelector'
+import { getUserTimeZone, toWallClock } from '@/lib/timezone-utils'
+import { RESOURCE_KIND_LABELS, type SchedulingResource } from '@/lib/resources'
 
 // Types for the unified event system
 export type EventType = 'event' | 'task' | 'goal' | 'milestone'
@@ -25,6 +27,7 @@ export interface RecurrenceRule {
   occurrences?: number
   weekDays?: number[]
   monthDay?: number
+  exceptions?: string[] // Occurrence dates (yyyy-MM-dd) cancelled or replaced by an edited occurrence
 }
 
 export interface NotificationRule {
@@ -54,6 +57,7 @@ export interface UnifiedEvent {
   description?: string
   startDateTime: string
   endDateTime?: string
+  timezone?: string // IANA zone of the wall-clock start/end; unset means the user's zone
   duration: number
   priority: Priority
   // Client (CRM contact this event is FOR)
@@ -70,6 +74,7 @@ export interface UnifiedEvent {
   isRecurring?: boolean
   isMergedRecurring?: boolean // Flag for consecutive daily recurring events rendered as merged spans
   parentEventId?: string
+  originalStartDateTime?: string // Edited occurrence of a series (parentEventId): the start it replaces
   recurrenceGroupId?: string // Links weekly recurring event instances together
   status?: string
   service?: string
@@ -79,6 +84,7 @@ export interface UnifiedEvent {
   currentProgress?: number
   deadline?: string
   dependencies?: string[]
+  resourceIds?: string[] // Crews, vehicles and equipment booked on it
   createdAt: string
   updatedAt: string
 }
@@ -121,6 +127,7 @@ interface FormData {
   recurrenceEndDate: string
   recurrenceOccurrences: number
   participants: string[]
+  resourceIds: string[]
 }
 
 interface FormErrors {
@@ -207,12 +214,14 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
     recurrenceIntervalType: 'weeks',
     recurrenceEndDate: format(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), 'yyyy-MM-dd'),
     recurrenceOccurrences: 10,
-    participants: []
+    participants: [],
+    resourceIds: []
   })
 
   const [errors, setErrors] = useState<FormErrors>({})
   const [isLoading, setIsLoading] = useState(false)
   const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
+  const [resources, setResources] = useState<SchedulingResource[]>([])
 
   useEffect(() => {
     try {
@@ -226,6 +235,14 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
     }
   }, [])
 
+  useEffect(() => {
+    if (!isOpen) return
+    fetch('/api/calendar/resources')
+      .then(response => response.ok ? response.json() : null)
+      .then(result => setResources(result?.data || []))
+      .catch(error => console.error('Error loading resources:', error))
+  }, [isOpen])
+
   useEffect(() => {
     if (!editingEvent && (initialTime || initialDate || initialClientId)) {
       setFormData(prev => ({
@@ -241,8 +258,10 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
 
   useEffect(() => {
     if (editingEvent) {
-      const startDate = parseISO(editingEvent.startDateTime)
-      const endDate = editingEvent.endDateTime ? parseISO(editingEvent.endDateTime) : null
+      // Edited as wall-clock times in the event's own zone
+      const timeZone = editingEvent.timezone || getUserTimeZone()
+      const startDate = parseISO(toWallClock(editingEvent.startDateTime, timeZone))
+      const endDate = editingEvent.endDateTime ? parseISO(toWallClock(editingEvent.endDateTime, timeZone)) : null
 
       setFormData({
         type: editingEvent.type,
@@ -270,7 +289,8 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
         recurrenceIntervalType: editingEvent.recurrence?.intervalType || 'weeks',
         recurrenceEndDate: editingEvent.recurrence?.endDate || format(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), 'yyyy-MM-dd'),
         recurrenceOccurrences: editingEvent.recurrence?.occurrences || 10,
-        participants: editingEvent.participants || []
+        participants: editingEvent.participants || [],
+        resourceIds: editingEvent.resourceIds || []
       })
     }
   }, [editingEvent])
@@ -397,6 +417,7 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
         description: formData.description.trim() || undefined,
         startDateTime: `${formData.date}T${formData.startTime}:00`,
         endDateTime: formData.type === 'goal' ? undefined : (formData.isMultiDay ? `${formData.endDate}T${formData.endTime}:00` : `${formData.date}T${formData.endTime}:00`),
+        timezone: editingEvent?.timezone || getUserTimeZone(),
         duration: formData.duration,
         priority: formData.priority,
         clientId: formData.clientId || undefined,
@@ -404,6 +425,8 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
         participants: filteredParticipants.length > 0 ? filteredParticipants : undefined,
         location: formData.location.trim() || undefined,
         notes: formData.notes.trim() || undefined,
+        // Sent empty when editing, so removed resources are released
+        resourceIds: formData.resourceIds.length > 0 || editingEvent?.resourceIds?.length ? formData.resourceIds : undefined,
         goalTimeframe: formData.type === 'goal' ? formData.goalTimeframe : undefined,
         progressTarget: formData.type === 'goal' ? formData.progressTarget : undefined,
         currentProgress: formData.type === 'goal' ? 0 : undefined,
@@ -417,7 +440,11 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
           interval: formData.recurrenceInterval,
           intervalType: formData.recurrenceFrequency === 'custom' ? formData.recurrenceIntervalType : undefined,
           endDate: formData.recurrenceEndDate,
-          occurrences: formData.recurrenceOccurrences
+          occurrences: formData.recurrenceOccurrences,
+          // Not edited here - keep what sync brought in
+          weekDays: editingEvent?.recurrence?.weekDays,
+          monthDay: editingEvent?.recurrence?.monthDay,
+          exceptions: editingEvent?.recurrence?.exceptions
         } : undefined,
         createdAt: editingEvent?.createdAt || new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -453,7 +480,8 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
           recurrenceIntervalType: 'weeks',
           recurrenceEndDate: format(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), 'yyyy-MM-dd'),
           recurrenceOccurrences: 10,
-          participants: []
+          participants: [],
+          resourceIds: []
         })
       }
 
@@ -989,6 +1017,37 @@ const EventCreationModal: React.FC<EventCreationModalProps> = ({
             />
           </div>
 
+          {/* Crews, vehicles and equipment */}
+          {resources.length > 0 && formData.type !== 'goal' && formData.type !== 'milestone' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-semibold text-[var(--neomorphic-text)] font-primary uppercase tracking-wide">
+                <Truck className="inline w-4 h-4 mr-1" />
+                Resources
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {resources.map(resource => {
+                  const selected = formData.resourceIds.includes(resource.id)
+                  return (
+                    <button
+                      key={resource.id}
+                      type="button"
+                      onClick={() => setFormData(prev => ({
+                        ...prev,
+                        resourceIds: selected
+                          ? prev.resourceIds.filter(id => id !== resource.id)
+                          : [...prev.resourceIds, resource.id]
+                      }))}
+                      className={`neo-button px-3 py-1.5 rounded-lg text-sm font-primary ${selected ? 'neo-button-active' : ''}`}
+                      title={RESOURCE_KIND_LABELS[resource.kind]}
+                    >
+                      {resource.name}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Notes */}
           <div className="space-y-2">
             <label htmlFor="notes" className="block text-sm font-semibold text-[var(--neomorphic-text)] font-primary uppercase tracking-wide">
@@ -105,6 +105,7 @@ const Header = ({
           path.startsWith('/services') ||
           path.startsWith('/crm') ||
           path.startsWith('/planner') ||
+          path.startsWith('/snow-dispatch') ||
           path.startsWith('/security')
         ) && 'crm'
       ) ||
@@ -304,6 +305,15 @@ const Header = ({
     try {
       localStorage.setItem('account-settings', JSON.stringify(settings));
       console.log('Account settings saved:', settings);
+
+      // Calendar sync runs on the server, so it needs the zone too
+      if (settings.preferences?.timezone) {
+        fetch('/api/calendar/timezone', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ timezone: settings.preferences.timezone })
+        }).catch(error => console.error('Error saving calendar time zone:', error));
+      }
     } catch (error) {
       console.error('Error saving account settings:', error);
     }
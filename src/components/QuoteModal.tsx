@@ -5,6 +5,7 @@ import { useState, useEffect } from 'react';
 import { Client } from '../types/client';
 import { QuoteItem, DEFAULT_BUSINESS_CONFIG } from '../types/billing';
 import { lockScroll, unlockScroll } from '../lib/modal-scroll-lock';
+import { calculateTaxes, getTaxProfile, resolveTaxJurisdiction } from '../lib/tax-engine';
 // Removed billingManager import - use API endpoints instead
 
 interface QuoteModalProps {
@@ -91,6 +92,8 @@ export default function QuoteModal({ isOpen, onClose, client, onQuoteCreated }:
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [createContractOnAccept, setCreateContractOnAccept] = useState(false);
+  const [emailToClient, setEmailToClient] = useState(Boolean(client.email));
 
   // Disable body scroll when modal is open
   useEffect(() => {
@@ -112,14 +115,17 @@ export default function QuoteModal({ isOpen, onClose, client, onQuoteCreated }:
   };
 
   const calculateTax = (items: Omit<QuoteItem, 'id' | 'totalPrice'>[]): number => {
-    // For unregistered business, no tax
-    if (!DEFAULT_BUSINESS_CONFIG.isRegistered) {
-      return 0;
-    }
-    const subtotal = calculateSubtotal(items);
-    return subtotal * 0.13; // Ontario HST
+    // For unregistered business, no tax; otherwise taxed at the client's province rate
+    return calculateTaxes(
+      items.map(item => ({ serviceType: item.serviceCategory, totalPrice: item.quantity * item.unitPrice })),
+      { client, businessRegistered: DEFAULT_BUSINESS_CONFIG.isRegistered }
+    ).taxAmount;
   };
 
+  const taxLabel = getTaxProfile(resolveTaxJurisdiction(client)).components
+    .map(component => component.name)
+    .join(' + ');
+
   const calculateTotal = (items: Omit<QuoteItem, 'id' | 'totalPrice'>[]): number => {
     return calculateSubtotal(items) + calculateTax(items);
   };
@@ -165,26 +171,34 @@ export default function QuoteModal({ isOpen, onClose, client, onQuoteCreated }:
     setIsSubmitting(true);
 
     try {
-      // TODO: Replace with API call to /api/billing/quotes
-      console.log('Quote creation temporarily disabled - needs API endpoint');
-      const quoteNumber = `Q-${Date.now()}`;
-      const quote = {
-        id: 'temp-' + Date.now(),
-        quoteNumber,
-        clientId: client.id,
-        items: quoteData.items,
-        validUntil: quoteData.validUntil,
-        notes: quoteData.notes,
-        terms: quoteData.terms
-      };
-
-      // Optionally send quote via email
-      if (client.email) {
-        // await sendQuoteByEmail(quote.id, client.email);
-        console.log(`Quote ${quoteNumber} would be sent to ${client.email}`);
+      const response = await fetch('/api/billing/quotes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...quoteData, clientId: client.id })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Failed to create quote');
+      }
+      const quote = data.quote;
+
+      // Mark it sent and get the client's acceptance link - emailed with the PDF when asked
+      const shareResponse = await fetch(`/api/billing/quotes/${quote.id}/${emailToClient ? 'send-email' : 'share'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ createInvoice: true, createContract: createContractOnAccept })
+      });
+      const share = await shareResponse.json();
+
+      if (share.success) {
+        await navigator.clipboard?.writeText(share.url).catch(() => undefined);
+        alert(`${share.message || `Quote ${quote.quoteNumber} created.`} Acceptance link (copied to clipboard):\n${share.url}`);
+        onQuoteCreated?.(share.quote);
+        onClose();
+        return;
       }
 
-      alert(`Quote ${quoteNumber} created successfully!`);
+      alert(`Quote ${quote.quoteNumber} created, but the acceptance link failed: ${share.error}`);
       onQuoteCreated?.(quote);
       onClose();
     } catch (error) {
@@ -419,7 +433,7 @@ export default function QuoteModal({ isOpen, onClose, client, onQuoteCreated }:
               </div>
               
               <div className="flex justify-between">
-                <span>HST/GST:</span>
+                <span>{taxLabel}:</span>
                 <span>
                   {DEFAULT_BUSINESS_CONFIG.isRegistered 
                     ? `$${calculateTax(quoteData.items).toFixed(2)} CAD`
@@ -469,6 +483,25 @@ export default function QuoteModal({ isOpen, onClose, client, onQuoteCreated }:
             </div>
           </div>
 
+          <label className="flex items-center space-x-2 text-sm text-tactical-grey-600">
+            <input
+              type="checkbox"
+              checked={createContractOnAccept}
+              onChange={(e) => setCreateContractOnAccept(e.target.checked)}
+            />
+            <span>Create a service contract when the client accepts (an invoice is always drafted)</span>
+          </label>
+
+          <label className="flex items-center space-x-2 text-sm text-tactical-grey-600">
+            <input
+              type="checkbox"
+              checked={emailToClient}
+              disabled={!client.email}
+              onChange={(e) => setEmailToClient(e.target.checked)}
+            />
+            <span>Email the quote to the client with the PDF attached</span>
+          </label>
+
           {/* Actions */}
           <div className="flex justify-end space-x-3 pt-6 border-t">
             <button 
@@ -237,7 +237,12 @@ export default function ReceiptDetailsModal({
                   <Mail className="w-4 h-4 mr-2" />
                   {isSendingEmail ? 'Sending...' : 'Send via Email'}
                 </Button>
-                <Button variant="outline" size="sm" className="neo-button">
+                <Button
+                  onClick={() => window.open(`/api/billing/receipts/${receipt.id}/pdf`, '_blank')}
+                  variant="outline"
+                  size="sm"
+                  className="neo-button"
+                >
                   <Download className="w-4 h-4 mr-2" />
                   Download PDF
                 </Button>
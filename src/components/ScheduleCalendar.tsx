@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, isSameDay, addMinutes, parseISO, startOfDay, differenceInDays, startOfWeek, endOfWeek, addDays } from 'date-fns';
 import { Calendar, Clock, MapPin, User, MoreVertical, Edit, CheckCircle, Trash2, Repeat } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
@@ -17,6 +17,7 @@ import DragVisualFeedback from '@/components/DragVisualFeedback';
 import { ClientNotificationService } from '@/lib/client-notification-service';
 import { UnifiedEvent } from '@/components/EventCreationModal';
 import { calculateDragDropTimes } from '@/utils/calendar';
+import { getUserTimeZone, toViewerTimeZone } from '@/lib/timezone-utils';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
 import { VerticalWeekPreview } from '@/hooks/useEventResize';
 import { WeeklyInstanceDates, VerticalResizeWeekInfo, calculateContinuousWeekExtension } from '@/utils/calendar/resizeCalculations';
@@ -240,7 +241,20 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
   } | null>(null);
 
   // Use unified events hook
-  const { events: unifiedEvents, updateEvent, refreshEvents } = useUnifiedEvents({ syncWithLegacy: true, refreshTrigger });
+  const { events: storedEvents, updateEvent: updateStoredEvent, refreshEvents } = useUnifiedEvents({ syncWithLegacy: true, refreshTrigger });
+
+  // Events from other zones are drawn at the viewer's wall-clock time; times moved here are in
+  // the viewer's zone, so the zone goes along with them
+  const viewerTimeZone = getUserTimeZone();
+  const unifiedEvents = useMemo(
+    () => storedEvents.map(event => toViewerTimeZone(event, viewerTimeZone)),
+    [storedEvents, viewerTimeZone]
+  );
+  const updateEvent = useCallback(
+    (id: string, updates: Partial<UnifiedEvent>) =>
+      updateStoredEvent(id, updates.startDateTime || updates.endDateTime ? { ...updates, timezone: viewerTimeZone } : updates),
+    [updateStoredEvent, viewerTimeZone]
+  );
 
   // Clear placeholder vertical preview when placeholder is dismissed
   useEffect(() => {
@@ -331,6 +345,9 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
       if (checkDate > endDate) return false;
     }
 
+    // Cancelled occurrences, and edited ones (shown as their own event)
+    if (event.recurrence.exceptions?.includes(format(checkDate, 'yyyy-MM-dd'))) return false;
+
     // Check recurrence pattern
     const daysDiff = differenceInDays(checkDate, eventStart);
     const frequency = event.recurrence.frequency;
@@ -340,14 +357,15 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
       case 'daily':
         return daysDiff % interval === 0;
       case 'weekly':
-        // Check if same day of week and within interval
+        // Check if same day of week (or one of the rule's days) and within interval
         const weeksDiff = Math.floor(daysDiff / 7);
-        return checkDate.getDay() === eventStart.getDay() && weeksDiff % interval === 0;
+        const weekDays = event.recurrence.weekDays?.length ? event.recurrence.weekDays : [eventStart.getDay()];
+        return weekDays.includes(checkDate.getDay()) && weeksDiff % interval === 0;
       case 'monthly':
         // Check if same day of month and within interval
         const monthsDiff = (checkDate.getFullYear() - eventStart.getFullYear()) * 12 +
                           (checkDate.getMonth() - eventStart.getMonth());
-        return checkDate.getDate() === eventStart.getDate() && monthsDiff % interval === 0;
+        return checkDate.getDate() === (event.recurrence.monthDay || eventStart.getDate()) && monthsDiff % interval === 0;
       case 'yearly':
         // Check if same month and day
         return checkDate.getMonth() === eventStart.getMonth() &&
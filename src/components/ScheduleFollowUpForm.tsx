@@ -10,6 +10,7 @@ import {
   ClientServicesResponse, 
   ServiceTypeOption 
 } from "@/types/client-services";
+import { getUserTimeZone } from "@/lib/timezone-utils";
 
 interface ScheduleFollowUpFormProps {
   isOpen: boolean;
@@ -237,7 +238,7 @@ const ScheduleFollowUpForm: React.FC<ScheduleFollowUpFormProps> = ({
           createdAt: new Date(),
           updatedAt: new Date(),
           category: 'SERVICE_CHECK' as any,
-          timezone: 'America/New_York',
+          timezone: getUserTimeZone(),
           duration: 60,
           client: {
             id: clientId,
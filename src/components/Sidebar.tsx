@@ -1,7 +1,7 @@
 "use client"
 
 import React, { useState, useRef, useEffect } from "react"
-import { Users, MessageSquare, Clock, Target, Briefcase, ChevronLeft, ChevronRight, Leaf, Snowflake, Dog, Palette, Receipt, LayoutGrid, Star, X } from "lucide-react"
+import { Users, MessageSquare, Clock, Target, Briefcase, ChevronLeft, ChevronRight, Leaf, Snowflake, Dog, Palette, Receipt, LayoutGrid, Star, X, CloudSnow } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 
 interface SidebarProps {
@@ -23,6 +23,7 @@ const navigationItems = [
   { id: "billing", label: "Billing", icon: Receipt },
   { id: "time-manager", label: "Time Manager", icon: Clock },
   { id: "goals", label: "Goals", icon: Target },
+  { id: "snow-dispatch", label: "Snow Dispatch", icon: CloudSnow },
   { id: "service-lines", label: "Service Lines", icon: Briefcase },
 ]
 
@@ -5,7 +5,7 @@ import { format, isSameDay } from 'date-fns'
 import {
   Plus, Clock, MapPin, User, Target, Calendar, Search,
   ChevronDown, ChevronUp, GripVertical, X,
-  Timer, CheckCircle2, PlusCircle
+  Timer, CheckCircle2, PlusCircle, Truck, AlertTriangle
 } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -20,6 +20,8 @@ import PlaceholderEvent from '@/components/calendar/PlaceholderEvent'
 import { eventCategorizer } from '@/lib/event-categorizer'
 import { calculateDragDropTimes } from '@/utils/calendar'
 import { useEventCreationDrag, DragState } from '@/hooks/useEventCreationDrag'
+import { conflictDetector } from '@/lib/conflict-detector'
+import type { DailyRoutePlan } from '@/lib/route-optimizer'
 
 // Constants
 const DAY_VIEW_PIXELS_PER_HOUR = 50
@@ -99,6 +101,9 @@ const UnifiedDailyPlanner: React.FC<UnifiedDailyPlannerProps> = ({
   const [quickEntryText, setQuickEntryText] = useState('')
   const [showObjectives, setShowObjectives] = useState(true)
   const [draggedObjective, setDraggedObjective] = useState<string | null>(null)
+  const [routePlan, setRoutePlan] = useState<DailyRoutePlan | null>(null)
+  const [isPlanningRoute, setIsPlanningRoute] = useState(false)
+  const [routeError, setRouteError] = useState<string | null>(null)
 
   const containerRef = useRef<HTMLDivElement>(null)
   const timeSlotRefs = useRef<{ [key: number]: HTMLDivElement | null }>({})
@@ -382,6 +387,48 @@ const UnifiedDailyPlanner: React.FC<UnifiedDailyPlannerProps> = ({
     }
   }
 
+  // Plan the day's route - proposes an order with less driving and flags impossible transitions
+  const handlePlanRoute = async () => {
+    setIsPlanningRoute(true)
+    setRouteError(null)
+    try {
+      const response = await fetch('/api/calendar/route-plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventIds: todaysEvents.filter(e => !e.isAllDay).map(e => e.id) })
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data.error || 'Failed to plan the route')
+
+      setRoutePlan(data.data)
+      // Buffers between these jobs now follow the drive time
+      conflictDetector.setEventLocations(data.data.locations)
+    } catch (error) {
+      console.error('❌ [UnifiedDailyPlanner] Error planning route:', error)
+      setRouteError(error instanceof Error ? error.message : 'Failed to plan the route')
+    } finally {
+      setIsPlanningRoute(false)
+    }
+  }
+
+  // Move the day's jobs to the proposed order
+  const handleApplyRoute = async () => {
+    if (!routePlan) return
+    try {
+      for (const stop of routePlan.proposed) {
+        await updateEvent(stop.eventId, {
+          startDateTime: stop.startDateTime,
+          endDateTime: stop.endDateTime
+        })
+      }
+      setRoutePlan(null)
+      onRefreshTrigger?.()
+    } catch (error) {
+      console.error('❌ [UnifiedDailyPlanner] Error applying route:', error)
+      setRouteError('Failed to move some events - check the day before planning again')
+    }
+  }
+
   // Filter events
   const filteredEvents = useMemo(() => {
     let filtered = todaysEvents
@@ -663,6 +710,78 @@ const UnifiedDailyPlanner: React.FC<UnifiedDailyPlannerProps> = ({
     </div>
   )
 
+  // Render route plan panel
+  const renderRoutePlan = () => {
+    if (!routePlan) return null
+    const titles = new Map(routePlan.proposed.map(stop => [stop.eventId, stop.title]))
+
+    return (
+      <div className="neo-card rounded-lg p-3 mb-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Truck className="h-4 w-4" />
+          <span className="font-medium font-primary text-sm uppercase tracking-wide">Route</span>
+          <span className="text-xs text-muted-foreground ml-auto">
+            {routePlan.currentDriveMinutes}min driving now · {routePlan.proposedDriveMinutes}min reordered
+            {routePlan.savedMinutes > 0 && ` · saves ${routePlan.savedMinutes}min`}
+          </span>
+          <button onClick={() => setRoutePlan(null)} className="p-1 hover:bg-accent/10 rounded">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+
+        {routePlan.impossibleTransitions.length > 0 && (
+          <div className="space-y-1">
+            {routePlan.impossibleTransitions.map(transition => (
+              <div key={`${transition.fromEventId}-${transition.toEventId}`} className="flex items-center gap-2 text-xs text-red-600">
+                <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                <span>
+                  {titles.get(transition.fromEventId || '')} → {titles.get(transition.toEventId)}:{' '}
+                  {transition.gapMinutes}min between, ~{transition.minutes}min drive ({transition.distanceKm}km)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {routePlan.proposed.length > 1 && (
+          <ol className="space-y-1 text-sm">
+            {routePlan.proposed.map(stop => (
+              <li key={stop.eventId} className="flex items-center gap-2">
+                <span className="font-mono text-xs min-w-[90px]">
+                  {format(new Date(stop.startDateTime), 'h:mm a')}
+                </span>
+                <span className="flex-1">{stop.title}</span>
+                {stop.travelMinutes > 0 && (
+                  <Badge variant="outline" className="text-[10px]">
+                    <Truck className="h-3 w-3 mr-1" />
+                    {stop.travelMinutes}m
+                  </Badge>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {routePlan.unlocated.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Couldn&apos;t find the address for {routePlan.unlocated.map(event => event.title).join(', ')} - left where they are
+          </p>
+        )}
+
+        {routeError && <p className="text-xs text-red-600">{routeError}</p>}
+
+        {routePlan.proposed.length > 1 && (routePlan.reordered || routePlan.impossibleTransitions.length > 0) && (
+          <button
+            onClick={handleApplyRoute}
+            className="neo-button-active px-3 py-1 rounded-lg font-primary text-xs uppercase tracking-wide"
+          >
+            Apply Route
+          </button>
+        )}
+      </div>
+    )
+  }
+
   // Render objectives panel
   const renderObjectives = () => (
     <div className="space-y-3">
@@ -815,6 +934,16 @@ const UnifiedDailyPlanner: React.FC<UnifiedDailyPlannerProps> = ({
               <option value="high-priority">High Priority</option>
             </select>
 
+            {/* Route Planning */}
+            <button
+              onClick={handlePlanRoute}
+              disabled={isPlanningRoute || todaysEvents.length < 2}
+              className="neo-button px-3 py-1 rounded-lg flex items-center gap-1 font-primary text-xs uppercase tracking-wide text-[var(--neomorphic-text)] disabled:opacity-50"
+            >
+              <Truck className="h-4 w-4" />
+              <span className="hidden sm:inline">{isPlanningRoute ? 'Routing...' : 'Route'}</span>
+            </button>
+
             {/* Toggle Objectives */}
             <button
               onClick={() => setShowObjectives(!showObjectives)}
@@ -845,6 +974,10 @@ const UnifiedDailyPlanner: React.FC<UnifiedDailyPlannerProps> = ({
         <div className="flex-1 overflow-hidden flex">
           {/* Main Content */}
           <div className="flex-1 overflow-y-auto p-4">
+            {renderRoutePlan()}
+            {!routePlan && routeError && (
+              <p className="text-xs text-red-600 mb-4">{routeError}</p>
+            )}
             {viewMode === 'timeline' && renderTimeline()}
             {viewMode === 'agenda' && renderAgenda()}
             {viewMode === 'combined' && (
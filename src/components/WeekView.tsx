@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useState, useEffect, useRef, useCallback } from 'react'
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { format, startOfWeek, addDays, isSameDay, isToday } from 'date-fns'
 import { Clock, Plus, MoreVertical, Edit, CheckCircle, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -10,7 +10,7 @@ import { useViewManager } from '@/contexts/ViewManagerContext'
 import { DailyTask } from '@/types/daily-planner'
 import EventCreationModal, { UnifiedEvent } from '@/components/EventCreationModal'
 import DropdownMenu from '@/components/ui/DropdownMenu'
-import { useUnifiedEvents } from '@/hooks/useUnifiedEvents'
+import { ResourceConflictError, useUnifiedEvents, type SaveEventOptions } from '@/hooks/useUnifiedEvents'
 import { ClientNotificationService } from '@/lib/client-notification-service'
 import { DragDropProvider, useDragDrop } from '@/components/DragDropContext'
 import DragAndDropEvent from '@/components/DragAndDropEvent'
@@ -21,7 +21,11 @@ import DragVisualFeedback from '@/components/DragVisualFeedback'
 import EventDetailsModal from '@/components/EventDetailsModal'
 import PlaceholderEvent from '@/components/calendar/PlaceholderEvent'
 import { calculateDragDropTimes } from '@/utils/calendar'
+import { getUserTimeZone, toViewerTimeZone } from '@/lib/timezone-utils'
 import { useEventCreationDrag, DragState } from '@/hooks/useEventCreationDrag'
+import ResourceLaneView from '@/components/calendar/ResourceLaneView'
+import { conflictDetector } from '@/lib/conflict-detector'
+import type { SchedulingResource } from '@/lib/resources'
 
 interface ScheduledService {
   id: string
@@ -227,19 +231,32 @@ const WeekView: React.FC<WeekViewProps> = ({
     daySpan: number
     isMultiDay: boolean
   }>({ isResizing: false, eventId: null, previewStart: null, previewEnd: null, daySpan: 1, isMultiDay: false })
+  // Time grid, or one lane per crew/vehicle/equipment
+  const [laneMode, setLaneMode] = useState<'time' | 'resources'>('time')
+  const [resources, setResources] = useState<SchedulingResource[]>([])
   const timeSlotRefs = useRef<{ [key: number]: HTMLDivElement | null }>({})
   const containerRef = useRef<HTMLDivElement>(null)
   const eventsGridRef = useRef<HTMLDivElement>(null)
 
   // Use unified events hook
   const {
-    events: unifiedEvents,
+    events: storedEvents,
     createEvent,
-    updateEvent,
+    updateEvent: updateStoredEvent,
     deleteEvent,
     getEventsForDate
   } = useUnifiedEvents({ syncWithLegacy: true, refreshTrigger })
 
+  // Events from other zones are drawn at the viewer's wall-clock time; times moved here are in
+  // the viewer's zone, so the zone goes along with them
+  const viewerTimeZone = getUserTimeZone()
+  const unifiedEvents = useMemo(
+    () => storedEvents.map(event => toViewerTimeZone(event, viewerTimeZone)),
+    [storedEvents, viewerTimeZone]
+  )
+  const updateEvent = (id: string, updates: Partial<UnifiedEvent>, options?: SaveEventOptions) =>
+    updateStoredEvent(id, updates.startDateTime || updates.endDateTime ? { ...updates, timezone: viewerTimeZone } : updates, options)
+
   // Generate week days starting from Sunday
   const weekStart = startOfWeek(selectedDate, { weekStartsOn: 0 })
   const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
@@ -298,6 +315,23 @@ const WeekView: React.FC<WeekViewProps> = ({
     }
   }, [refreshTrigger])
 
+  // Load crews, vehicles and equipment - the conflict check needs them for double bookings too
+  useEffect(() => {
+    const loadResources = async () => {
+      try {
+        const response = await fetch('/api/calendar/resources')
+        if (!response.ok) return
+        const { data } = await response.json()
+        setResources(data || [])
+        conflictDetector.setResources(data || [])
+      } catch (error) {
+        console.error('❌ [WeekView] Error loading resources:', error)
+      }
+    }
+
+    loadResources()
+  }, [refreshTrigger])
+
   // Auto-scroll to current time on mount and when selectedDate changes
   useEffect(() => {
     const scrollToCurrentTime = () => {
@@ -343,7 +377,7 @@ const WeekView: React.FC<WeekViewProps> = ({
     }
   }
   
-  const handleSaveEvent = async (eventData: UnifiedEvent) => {
+  const handleSaveEvent = async (eventData: UnifiedEvent, options: SaveEventOptions = {}) => {
     try {
       // Check if this is an edit (event exists in our list) or a new event
       const existingEvent = unifiedEvents.find(e => e.id === eventData.id)
@@ -365,16 +399,23 @@ const WeekView: React.FC<WeekViewProps> = ({
           isMultiDay: eventData.isMultiDay,
           isRecurring: eventData.isRecurring,
           recurrence: eventData.recurrence,
-          notifications: eventData.notifications
-        })
+          notifications: eventData.notifications,
+          resourceIds: eventData.resourceIds
+        }, options)
       } else {
         // Create new event
-        await createEvent(eventData)
+        await createEvent(eventData, options)
       }
 
       setShowEventModal(false)
       setEditingEvent(null)
     } catch (error) {
+      if (error instanceof ResourceConflictError && !options.forceResources) {
+        if (window.confirm(`${error.message}\n\nBook them anyway?`)) {
+          await handleSaveEvent(eventData, { forceResources: true })
+        }
+        return
+      }
       console.error('❌ [WeekView] Error saving event:', error)
     }
   }
@@ -795,8 +836,35 @@ Rescheduled: ${data.reason}`.trim() :
       onResizeStart={handleClearPlaceholder}
     >
     <div ref={containerRef} className="space-y-6">
-      {/* Week Header */}
-      <div className="neo-card">
+      {/* Lane mode toggle - only once there are resources to show */}
+      {resources.length > 0 && (
+        <div className="flex justify-end gap-2">
+          {(['time', 'resources'] as const).map(mode => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setLaneMode(mode)}
+              className={`neo-button px-3 py-1 text-xs font-primary uppercase tracking-wide ${
+                laneMode === mode ? 'neo-button-active' : ''
+              }`}
+            >
+              {mode === 'time' ? 'Time' : 'Resources'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {laneMode === 'resources' && (
+        <ResourceLaneView
+          weekDays={weekDays}
+          events={unifiedEvents}
+          resources={resources}
+          onEventClick={handleShowEventDetails}
+        />
+      )}
+
+      {/* Week Header - kept mounted in resource mode so scroll positions survive switching back */}
+      <div className={`neo-card ${laneMode === 'resources' ? 'hidden' : ''}`}>
         <div className="p-0">
           {/* Day Headers */}
           <div className="grid grid-cols-8 gap-0 border-b border-border">
@@ -0,0 +1,209 @@
+"use client"
+
+import React from 'react'
+import { format, isToday, parseISO, addMinutes } from 'date-fns'
+import { AlertTriangle } from 'lucide-react'
+import { UnifiedEvent } from '@/components/EventCreationModal'
+import {
+  checkResourceAvailability,
+  formatAvailabilityWindow,
+  getResourceDayHours,
+  peakConcurrentBookings,
+  RESOURCE_KIND_LABELS,
+  type SchedulingResource
+} from '@/lib/resources'
+
+interface ResourceLaneViewProps {
+  weekDays: Date[]
+  events: UnifiedEvent[]
+  resources: SchedulingResource[]
+  onEventClick?: (event: UnifiedEvent) => void
+}
+
+interface LaneEvent {
+  event: UnifiedEvent
+  start: Date
+  end: Date
+  unavailableReason?: string
+}
+
+const UNASSIGNED_LANE = 'unassigned'
+
+const eventInterval = (event: UnifiedEvent) => {
+  const start = parseISO(event.startDateTime)
+  const end = event.endDateTime ? parseISO(event.endDateTime) : addMinutes(start, event.duration || 60)
+  return { start, end }
+}
+
+/**
+ * ResourceLaneView - The week with one row per crew, vehicle or piece of equipment
+ *
+ * Each lane shows the jobs its resource is booked on and the hours it works that day. Days where
+ * a resource is on more jobs at once than its capacity, and jobs outside its availability, are
+ * flagged. Field jobs without any resource go in an Unassigned lane at the bottom.
+ */
+const ResourceLaneView: React.FC<ResourceLaneViewProps> = ({
+  weekDays,
+  events,
+  resources,
+  onEventClick
+}) => {
+  const dayKeys = weekDays.map(day => format(day, 'yyyy-MM-dd'))
+
+  // Events by lane, then by day
+  const lanes = (() => {
+    const byLane = new Map<string, Map<string, LaneEvent[]>>()
+    const add = (laneId: string, dayKey: string, laneEvent: LaneEvent) => {
+      if (!byLane.has(laneId)) byLane.set(laneId, new Map())
+      const days = byLane.get(laneId)!
+      days.set(dayKey, [...(days.get(dayKey) || []), laneEvent])
+    }
+    const resourcesById = new Map(resources.map(resource => [resource.id, resource]))
+
+    for (const event of events) {
+      if (!event.startDateTime || event.type === 'goal' || event.type === 'milestone') continue
+      const dayKey = event.startDateTime.slice(0, 10)
+      if (!dayKeys.includes(dayKey)) continue
+
+      const { start, end } = eventInterval(event)
+      const resourceIds = (event.resourceIds || []).filter(id => resourcesById.has(id))
+      if (resourceIds.length === 0) {
+        if (!event.isAllDay) add(UNASSIGNED_LANE, dayKey, { event, start, end })
+        continue
+      }
+
+      for (const resourceId of resourceIds) {
+        const availability = event.isAllDay
+          ? { available: true }
+          : checkResourceAvailability(resourcesById.get(resourceId)!, format(start, "yyyy-MM-dd'T'HH:mm"), format(end, "yyyy-MM-dd'T'HH:mm"))
+        add(resourceId, dayKey, { event, start, end, unavailableReason: availability.reason })
+      }
+    }
+
+    byLane.forEach(days => days.forEach(dayEvents => dayEvents.sort((a, b) => a.start.getTime() - b.start.getTime())))
+    return byLane
+  })()
+
+  const renderEvent = (laneEvent: LaneEvent) => (
+    <button
+      key={laneEvent.event.id}
+      type="button"
+      onClick={() => onEventClick?.(laneEvent.event)}
+      title={laneEvent.unavailableReason || laneEvent.event.title}
+      className={`w-full text-left rounded px-1.5 py-1 text-xs border truncate ${
+        laneEvent.unavailableReason
+          ? 'border-red-400 bg-red-50 text-red-800'
+          : 'border-accent bg-accent/20 text-foreground'
+      }`}
+    >
+      <span className="font-bold">
+        {laneEvent.event.isAllDay ? 'All day' : format(laneEvent.start, 'HH:mm')}
+      </span>{' '}
+      {laneEvent.event.title}
+    </button>
+  )
+
+  const renderResourceCell = (resource: SchedulingResource, dayKey: string) => {
+    const dayEvents = lanes.get(resource.id)?.get(dayKey) || []
+    const timedEvents = dayEvents.filter(laneEvent => !laneEvent.event.isAllDay)
+    const peak = peakConcurrentBookings(timedEvents.map(laneEvent => ({
+      start: laneEvent.start.getTime(),
+      end: laneEvent.end.getTime()
+    })))
+    const overCapacity = peak > resource.capacity
+
+    const { hours, blocked } = getResourceDayHours(resource, dayKey)
+    const fullDayBlock = blocked.find(window => !window.startTime && !window.endTime)
+    const isOff = !!fullDayBlock || hours?.length === 0
+    const hoursLabel = fullDayBlock
+      ? fullDayBlock.reason || 'Unavailable'
+      : hours === null ? null : hours.length === 0 ? 'Off' : hours.map(formatAvailabilityWindow).join(', ')
+
+    return (
+      <div
+        key={dayKey}
+        className={`p-1.5 border-r border-border min-h-[72px] space-y-1 ${
+          overCapacity ? 'bg-red-100/60' : isOff ? 'bg-muted/60' : ''
+        }`}
+      >
+        {hoursLabel && (
+          <div className="text-[10px] text-muted-foreground uppercase tracking-wide font-primary truncate">
+            {hoursLabel}
+          </div>
+        )}
+        {overCapacity && (
+          <div className="flex items-center gap-1 text-[10px] font-bold text-red-700 uppercase tracking-wide font-primary">
+            <AlertTriangle className="h-3 w-3" />
+            {peak} at once (max {resource.capacity})
+          </div>
+        )}
+        {dayEvents.map(renderEvent)}
+      </div>
+    )
+  }
+
+  const unassigned = lanes.get(UNASSIGNED_LANE)
+
+  return (
+    <div className="neo-card">
+      <div className="grid grid-cols-8 gap-0 border-b border-border">
+        <div className="p-2 md:p-4 bg-card border-r border-border">
+          <span className="text-xs md:text-sm font-bold text-foreground uppercase tracking-wide font-primary">
+            RESOURCE
+          </span>
+        </div>
+        {weekDays.map(day => (
+          <div
+            key={day.toISOString()}
+            className={`p-2 md:p-4 border-r border-border text-center ${
+              isToday(day) ? 'bg-accent text-accent-foreground' : 'bg-card'
+            }`}
+          >
+            <div className="text-xs font-bold uppercase tracking-wide font-primary">{format(day, 'EEE')}</div>
+            <div className="text-sm md:text-lg font-bold font-primary">{format(day, 'd')}</div>
+          </div>
+        ))}
+      </div>
+
+      {resources.map(resource => (
+        <div key={resource.id} className="grid grid-cols-8 gap-0 border-b border-border">
+          <div className="p-2 md:p-3 bg-card border-r border-border">
+            <div className="flex items-center gap-2">
+              {resource.color && (
+                <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: resource.color }} />
+              )}
+              <span className="text-xs md:text-sm font-bold text-foreground truncate">{resource.name}</span>
+            </div>
+            <div className="text-[10px] text-muted-foreground uppercase tracking-wide font-primary">
+              {RESOURCE_KIND_LABELS[resource.kind]}{resource.capacity > 1 ? ` · ${resource.capacity} at once` : ''}
+            </div>
+          </div>
+          {dayKeys.map(dayKey => renderResourceCell(resource, dayKey))}
+        </div>
+      ))}
+
+      {unassigned && (
+        <div className="grid grid-cols-8 gap-0">
+          <div className="p-2 md:p-3 bg-card border-r border-border">
+            <span className="text-xs md:text-sm font-bold text-muted-foreground uppercase tracking-wide font-primary">
+              Unassigned
+            </span>
+          </div>
+          {dayKeys.map(dayKey => (
+            <div key={dayKey} className="p-1.5 border-r border-border min-h-[72px] space-y-1">
+              {(unassigned.get(dayKey) || []).map(renderEvent)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {resources.length === 0 && (
+        <div className="p-6 text-center text-sm text-muted-foreground">
+          No crews, vehicles or equipment yet - add them to book jobs on them.
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ResourceLaneView
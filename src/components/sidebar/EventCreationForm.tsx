@@ -515,7 +515,11 @@ const EventCreationForm: React.FC<EventCreationFormProps> = ({
           interval: formData.recurrenceInterval,
           intervalType: formData.recurrenceFrequency === 'custom' ? formData.recurrenceIntervalType : undefined,
           endDate: formData.recurrenceEndDate,
-          occurrences: formData.recurrenceOccurrences
+          occurrences: formData.recurrenceOccurrences,
+          // Not edited here - keep what sync brought in
+          weekDays: editingEvent?.recurrence?.weekDays,
+          monthDay: editingEvent?.recurrence?.monthDay,
+          exceptions: editingEvent?.recurrence?.exceptions
         } : undefined,
         createdAt: editingEvent?.createdAt || new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { isSameDay } from 'date-fns'
 import { UnifiedEventsManager } from '@/lib/unified-events'
 import type { UnifiedEvent, EventType, Priority, GoalTimeframe } from '@/components/EventCreationModal'
+import type { ResourceBookingConflict } from '@/lib/resource-scheduling'
 
 interface UseUnifiedEventsOptions {
   autoLoad?: boolean
@@ -13,6 +14,27 @@ interface UseUnifiedEventsOptions {
 
 export type RecurringDeleteOption = 'this_only' | 'all_previous' | 'this_and_following' | 'all'
 
+/** Options for saving an event */
+export interface SaveEventOptions {
+  forceResources?: boolean // Book its resources despite conflicts the user has confirmed
+}
+
+/** The server refused the event because its crews, vehicles or equipment are already booked */
+export class ResourceConflictError extends Error {
+  constructor(message: string, public conflicts: ResourceBookingConflict[]) {
+    super(message)
+    this.name = 'ResourceConflictError'
+  }
+}
+
+async function throwIfResourceConflict(response: Response): Promise<void> {
+  if (response.status !== 409) return
+  const result = await response.json().catch(() => null)
+  if (Array.isArray(result?.conflicts)) {
+    throw new ResourceConflictError(result.error || 'Resources are already booked', result.conflicts)
+  }
+}
+
 interface UseUnifiedEventsReturn {
   // Data
   events: UnifiedEvent[]
@@ -23,8 +45,8 @@ interface UseUnifiedEventsReturn {
   statistics: ReturnType<typeof UnifiedEventsManager.getEventStatistics>
 
   // Actions
-  createEvent: (eventData: Omit<UnifiedEvent, 'id' | 'createdAt' | 'updatedAt'>) => Promise<UnifiedEvent>
-  updateEvent: (id: string, updates: Partial<UnifiedEvent>) => Promise<UnifiedEvent | null>
+  createEvent: (eventData: Omit<UnifiedEvent, 'id' | 'createdAt' | 'updatedAt'>, options?: SaveEventOptions) => Promise<UnifiedEvent>
+  updateEvent: (id: string, updates: Partial<UnifiedEvent>, options?: SaveEventOptions) => Promise<UnifiedEvent | null>
   deleteEvent: (id: string) => Promise<boolean>
   deleteRecurringEvents: (eventId: string, option: RecurringDeleteOption) => Promise<{ deletedCount: number; deletedIds: string[] }>
   refreshEvents: () => Promise<void>
@@ -153,7 +175,10 @@ export const useUnifiedEvents = (options: UseUnifiedEventsOptions = {}): UseUnif
   }, [refreshTrigger, loadEvents])
   
   // Create new event with database-first approach and optional participant notifications
-  const createEvent = useCallback(async (eventData: Omit<UnifiedEvent, 'id' | 'createdAt' | 'updatedAt'> & { participants?: string[] }): Promise<UnifiedEvent> => {
+  const createEvent = useCallback(async (
+    eventData: Omit<UnifiedEvent, 'id' | 'createdAt' | 'updatedAt'> & { participants?: string[] },
+    options: SaveEventOptions = {}
+  ): Promise<UnifiedEvent> => {
     setError(null)
 
     try {
@@ -220,9 +245,10 @@ export const useUnifiedEvents = (options: UseUnifiedEventsOptions = {}): UseUnif
         const sourceResponse = await fetch('/api/events', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(eventData)
+          body: JSON.stringify({ ...eventData, ...options })
         })
 
+        await throwIfResourceConflict(sourceResponse)
         if (!sourceResponse.ok) {
           const errorData = await sourceResponse.json().catch(() => ({ error: 'Failed to create source event' }))
           throw new Error(errorData.error || 'Failed to create source event')
@@ -281,9 +307,10 @@ export const useUnifiedEvents = (options: UseUnifiedEventsOptions = {}): UseUnif
       const response = await fetch('/api/events', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(eventData)
+        body: JSON.stringify({ ...eventData, ...options })
       })
 
+      await throwIfResourceConflict(response)
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Failed to create event' }))
         throw new Error(errorData.error || 'Failed to create event')
@@ -308,6 +335,9 @@ export const useUnifiedEvents = (options: UseUnifiedEventsOptions = {}): UseUnif
       const errorMessage = err instanceof Error ? err.message : 'Failed to create event'
       setError(errorMessage)
 
+      // Not a database problem - the caller decides whether to book anyway
+      if (err instanceof ResourceConflictError) throw err
+
       // Fallback to localStorage if API fails
       try {
         const newEvent = UnifiedEventsManager.createEvent(eventData)
@@ -321,7 +351,11 @@ export const useUnifiedEvents = (options: UseUnifiedEventsOptions = {}): UseUnif
   }, [])
   
   // Update existing event with database-first approach and optimistic updates
-  const updateEvent = useCallback(async (id: string, updates: Partial<UnifiedEvent>): Promise<UnifiedEvent | null> => {
+  const updateEvent = useCallback(async (
+    id: string,
+    updates: Partial<UnifiedEvent>,
+    options: SaveEventOptions = {}
+  ): Promise<UnifiedEvent | null> => {
     setError(null)
 
     // Store original event for rollback
@@ -354,9 +388,10 @@ export const useUnifiedEvents = (options: UseUnifiedEventsOptions = {}): UseUnif
         const response = await fetch(`/api/events?id=${id}`, {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(updates)
+          body: JSON.stringify({ ...updates, ...options })
         })
 
+        await throwIfResourceConflict(response)
         if (response.ok) {
           const result = await response.json()
 
@@ -378,6 +413,7 @@ export const useUnifiedEvents = (options: UseUnifiedEventsOptions = {}): UseUnif
           throw new Error(`API error: ${response.status}`)
         }
       } catch (apiError) {
+        if (apiError instanceof ResourceConflictError) throw apiError
 
         // Try localStorage fallback
         const localUpdatedEvent = UnifiedEventsManager.updateEvent(id, updates)
@@ -396,6 +432,7 @@ export const useUnifiedEvents = (options: UseUnifiedEventsOptions = {}): UseUnif
       // Ensure rollback happened
       setEvents(prev => prev.map(event => event.id === id ? originalEvent : event))
       setError(errorMessage)
+      if (err instanceof ResourceConflictError) throw err
       throw new Error(errorMessage)
     }
   }, [events])
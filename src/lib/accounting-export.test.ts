@@ -0,0 +1,85 @@
+// src/lib/accounting-export.test.ts
+
+import { exportAccountingData } from "./accounting-export";
+import { getPrismaClient } from "./prisma";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+
+const from = new Date(2026, 0, 1);
+const to = new Date(2026, 11, 31);
+
+const creditNote = {
+  id: "credit-note-1",
+  documentType: "CREDIT_NOTE",
+  documentNumber: "CRN-2026-001",
+  clientId: "client-1",
+  client: { name: "=HYPERLINK(\"http://example.com\")" },
+  amount: 56.5,
+  date: new Date(2026, 2, 15),
+  serviceType: "woodgreen",
+  description: "Credit against INV-2026-004: Missed visit",
+  originalDocumentNumber: "INV-2026-004",
+  metadata: {
+    items: [{ description: "+ Spring cleanup", serviceType: "woodgreen", totalPrice: 50 }],
+    taxBreakdown: [{ code: "HST", name: "HST", rate: 0.13, taxableAmount: 50, amount: 6.5 }],
+    refundMethod: "e-transfer",
+  },
+};
+
+function mockDatabase() {
+  const prisma = {
+    serviceLine: { findMany: jest.fn(async () => [{ slug: "woodgreen", name: "Woodgreen Landscaping" }]) },
+    billingDocument: {
+      findMany: jest.fn(async ({ where }: { where: { documentType: string } }) =>
+        where.documentType === "CREDIT_NOTE" ? [creditNote] : []
+      ),
+    },
+    billingRecord: { findMany: jest.fn(async () => []) },
+    payment: { findMany: jest.fn(async () => []) },
+    document: { findMany: jest.fn(async () => []) },
+  };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+  return prisma;
+}
+
+describe("Accounting Export", () => {
+  it("should pay a refunded credit note out of the deposit account", async () => {
+    mockDatabase();
+
+    const result = await exportAccountingData({ from, to, format: "quickbooks_iif" });
+    const refund = result.content.split("\r\n").filter(line => line.includes("CHECK"));
+
+    expect(result.counts).toMatchObject({ credit_note: 1, refund: 1 });
+    expect(refund[0]).toMatch(/^TRNS\t\tCHECK\t03\/15\/2026\tUndeposited Funds\t.*\t-56\.50\tCRN-2026-001/);
+    expect(refund[1]).toMatch(/^SPL\t\tCHECK\t03\/15\/2026\tAccounts Receivable\t.*\t56\.50\t/);
+  });
+
+  it("should leave refunds out when only credit notes are requested", async () => {
+    mockDatabase();
+
+    const result = await exportAccountingData({ from, to, format: "xero_csv", include: ["credit_note"] });
+
+    expect(result.counts).toMatchObject({ credit_note: 1, refund: 0 });
+  });
+
+  it("should keep text cells from being read as formulas", async () => {
+    mockDatabase();
+
+    const result = await exportAccountingData({ from, to, format: "quickbooks_csv", include: ["credit_note"] });
+    const rows = result.content.trim().split("\r\n").slice(1);
+
+    expect(rows[0]).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+    expect(rows[1]).toContain(`"'+ Spring cleanup"`);
+    // Amounts stay numeric
+    expect(rows[0]).toContain(`"","56.50"`);
+  });
+
+  it("should not quote negative amounts in Xero files", async () => {
+    mockDatabase();
+
+    const result = await exportAccountingData({ from, to, format: "xero_csv", include: ["refund"] });
+
+    expect(result.content).toContain(`"-56.50"`);
+    expect(result.content).not.toContain(`"'-56.50"`);
+  });
+});
@@ -0,0 +1,530 @@
+// src/lib/accounting-export.ts
+// Accounting export for tax time. Invoices, credit notes, refunds, payments and receipts in a date range
+// are turned into balanced journal entries - income posted to an account per service line, each tax
+// component to its own payable account, money paid back out of the deposit account - and written as a QuickBooks IIF file, a QuickBooks Online
+// journal CSV or a Xero manual journal CSV.
+import { getPrismaClient } from './prisma';
+import { toPayment } from './payment-ledger';
+import { resolveServiceLineId } from './service-email-config';
+import {
+  AccountingExportFormat,
+  AccountingExportResult,
+  AccountingPosting,
+  AccountingTransaction,
+  AccountingTransactionType,
+  AccountMapping,
+  AccountRef,
+  DEFAULT_ACCOUNT_MAPPING,
+  PaymentMethod,
+  TaxLine
+} from '../types/billing';
+
+export const ACCOUNTING_TRANSACTION_TYPES: AccountingTransactionType[] = ['invoice', 'credit_note', 'refund', 'payment', 'receipt'];
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+// The parts of stored invoice/receipt/credit note data the export reads (metadata or Document.content)
+interface StoredItem {
+  description?: string;
+  serviceType?: string;
+  totalPrice?: number;
+}
+
+interface StoredDocument {
+  items?: StoredItem[];
+  taxBreakdown?: TaxLine[];
+  taxAmount?: number;
+  paymentDate?: string;
+  paymentMethod?: PaymentMethod;
+  refundMethod?: PaymentMethod; // Credit notes paid back to the client rather than left on account
+}
+
+interface ExportContext {
+  mapping: AccountMapping;
+  serviceLineNames: Map<string, string>;
+  warnings: string[];
+}
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+function parseStored(value: unknown): StoredDocument {
+  if (!value) return {};
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return value as StoredDocument;
+}
+
+function incomeAccount(context: ExportContext, serviceType?: string): { account: AccountRef; serviceLine?: string } {
+  const slug = resolveServiceLineId(serviceType);
+  return {
+    account: (slug && context.mapping.incomeAccounts[slug]) || context.mapping.defaultIncomeAccount,
+    serviceLine: slug ? context.serviceLineNames.get(slug) || slug : undefined
+  };
+}
+
+/**
+ * Credit postings for the income and tax side of a document totalling `total`. Documents saved
+ * without line items post everything but the tax to one income line. Any rounding difference
+ * between the lines and the stored total goes to the last income line so the entry balances.
+ */
+function revenuePostings(
+  context: ExportContext,
+  number: string,
+  stored: StoredDocument,
+  total: number,
+  fallback: { description: string; serviceType?: string }
+): AccountingPosting[] {
+  const taxes: Array<Pick<TaxLine, 'code' | 'name' | 'amount'>> = stored.taxBreakdown?.length
+    ? stored.taxBreakdown
+    : stored.taxAmount
+      ? [{ code: 'HST', name: 'HST', amount: stored.taxAmount }] // Saved before the tax engine
+      : [];
+  const taxCents = taxes.reduce((sum, tax) => sum + toCents(tax.amount), 0);
+
+  const items: StoredItem[] = stored.items?.length
+    ? stored.items
+    : [{ ...fallback, totalPrice: fromCents(toCents(total) - taxCents) }];
+
+  const postings: AccountingPosting[] = items.map(item => ({
+    ...incomeAccount(context, item.serviceType || fallback.serviceType),
+    amount: -fromCents(toCents(item.totalPrice || 0)),
+    description: item.description || fallback.description
+  }));
+
+  taxes
+    .filter(tax => toCents(tax.amount) !== 0)
+    .forEach(tax => postings.push({
+      account: context.mapping.taxAccounts[tax.code] || context.mapping.taxAccounts.HST,
+      amount: -fromCents(toCents(tax.amount)),
+      description: tax.name,
+      taxCode: tax.code
+    }));
+
+  const residual = toCents(total) + postings.reduce((sum, posting) => sum + toCents(posting.amount), 0);
+  if (residual !== 0) {
+    const last = postings[items.length - 1];
+    last.amount = fromCents(toCents(last.amount) - residual);
+    if (Math.abs(residual) > 1) {
+      context.warnings.push(
+        `${number}: line items don't add up to the total - $${fromCents(Math.abs(residual)).toFixed(2)} difference posted to ${last.account.name}`
+      );
+    }
+  }
+
+  return postings;
+}
+
+const negate = (postings: AccountingPosting[]) =>
+  postings.map(posting => ({ ...posting, amount: -posting.amount }));
+
+async function collectTransactions(
+  from: Date,
+  to: Date,
+  include: AccountingTransactionType[],
+  context: ExportContext
+): Promise<AccountingTransaction[]> {
+  const prisma = requirePrisma();
+  const range = { gte: from, lte: to };
+  const wants = (type: AccountingTransactionType) => include.includes(type);
+  const client = { select: { name: true } };
+
+  const [invoices, records, creditNotes, payments, billingReceipts, receiptDocuments] = await Promise.all([
+    wants('invoice')
+      ? prisma.billingDocument.findMany({
+          where: { documentType: 'INVOICE', status: { notIn: ['DRAFT', 'CANCELLED'] }, date: range },
+          include: { client }
+        })
+      : [],
+    wants('invoice')
+      ? prisma.billingRecord.findMany({
+          where: { status: { notIn: ['DRAFT', 'CANCELLED'] }, billingDate: range },
+          include: { client, serviceLine: { select: { slug: true } } }
+        })
+      : [],
+    wants('credit_note') || wants('refund')
+      ? prisma.billingDocument.findMany({
+          where: { documentType: 'CREDIT_NOTE', status: { not: 'CANCELLED' }, date: range },
+          include: { client }
+        })
+      : [],
+    wants('payment')
+      ? prisma.payment.findMany({
+          where: { paidAt: range },
+          include: {
+            client,
+            billingDocument: { select: { documentNumber: true, serviceType: true } },
+            billingRecord: { select: { invoiceNumber: true, billingPeriod: true, serviceLine: { select: { slug: true } } } }
+          }
+        })
+      : [],
+    wants('receipt')
+      ? prisma.billingDocument.findMany({
+          where: { documentType: 'RECEIPT', status: { notIn: ['DRAFT', 'CANCELLED'] }, date: range },
+          include: { client }
+        })
+      : [],
+    // Receipts in the Document table are dated by their payment date, which can be earlier than
+    // when the receipt was created - so fetch everything created since the start of the range
+    wants('receipt')
+      ? prisma.document.findMany({
+          where: { type: 'RECEIPT', status: { notIn: ['DRAFT', 'CANCELLED'] }, createdAt: { gte: from } },
+          include: { client }
+        })
+      : []
+  ]);
+
+  const transactions: AccountingTransaction[] = [];
+
+  for (const invoice of invoices) {
+    const stored = parseStored(invoice.metadata);
+    transactions.push({
+      type: 'invoice',
+      sourceId: invoice.id,
+      number: invoice.documentNumber,
+      date: invoice.date,
+      dueDate: invoice.dueDate || undefined,
+      clientId: invoice.clientId,
+      clientName: invoice.client.name,
+      total: invoice.amount,
+      postings: [
+        { account: context.mapping.accountsReceivable, amount: invoice.amount, description: `Invoice ${invoice.documentNumber}` },
+        ...revenuePostings(context, invoice.documentNumber, stored, invoice.amount, {
+          description: invoice.description || `Invoice ${invoice.documentNumber}`,
+          serviceType: invoice.serviceType
+        })
+      ]
+    });
+  }
+
+  for (const record of records) {
+    const number = record.invoiceNumber || record.billingPeriod;
+    transactions.push({
+      type: 'invoice',
+      sourceId: record.id,
+      number,
+      date: record.billingDate,
+      dueDate: record.dueDate || undefined,
+      clientId: record.clientId,
+      clientName: record.client.name,
+      total: record.amount,
+      postings: [
+        { account: context.mapping.accountsReceivable, amount: record.amount, description: `Invoice ${number}` },
+        ...revenuePostings(context, number, parseStored(record.metadata), record.amount, {
+          description: record.description,
+          serviceType: record.serviceLine.slug
+        })
+      ]
+    });
+  }
+
+  for (const creditNote of creditNotes) {
+    const stored = parseStored(creditNote.metadata);
+    const appliesTo = creditNote.originalDocumentNumber || undefined;
+
+    // The credit memo takes the amount off the client's balance; a refund then pays it back out of
+    // the deposit account, so the cash leaving shows up in the books as well
+    if (stored.refundMethod && wants('refund')) {
+      const description = `Refund of credit note ${creditNote.documentNumber} by ${stored.refundMethod.replace('_', ' ')}`;
+      transactions.push({
+        type: 'refund',
+        sourceId: creditNote.id,
+        number: creditNote.documentNumber,
+        date: creditNote.date,
+        clientId: creditNote.clientId,
+        clientName: creditNote.client.name,
+        total: creditNote.amount,
+        appliesTo,
+        paymentMethod: stored.refundMethod,
+        postings: [
+          { account: context.mapping.depositAccount, amount: -creditNote.amount, description },
+          { account: context.mapping.accountsReceivable, amount: creditNote.amount, description }
+        ]
+      });
+    }
+    if (!wants('credit_note')) continue;
+
+    transactions.push({
+      type: 'credit_note',
+      sourceId: creditNote.id,
+      number: creditNote.documentNumber,
+      date: creditNote.date,
+      clientId: creditNote.clientId,
+      clientName: creditNote.client.name,
+      total: creditNote.amount,
+      appliesTo,
+      postings: [
+        {
+          account: context.mapping.accountsReceivable,
+          amount: -creditNote.amount,
+          description: `Credit note ${creditNote.documentNumber}${creditNote.originalDocumentNumber ? ` for ${creditNote.originalDocumentNumber}` : ''}`
+        },
+        ...negate(revenuePostings(context, creditNote.documentNumber, stored, creditNote.amount, {
+          description: creditNote.description || `Credit note ${creditNote.documentNumber}`,
+          serviceType: creditNote.serviceType
+        }))
+      ]
+    });
+  }
+
+  for (const payment of payments) {
+    const appliesTo = payment.billingDocument?.documentNumber ||
+      payment.billingRecord?.invoiceNumber || payment.billingRecord?.billingPeriod || undefined;
+    const { serviceLine } = incomeAccount(
+      context,
+      payment.billingDocument?.serviceType || payment.billingRecord?.serviceLine.slug
+    );
+    const description = `Payment${appliesTo ? ` toward ${appliesTo}` : ''}${payment.reference ? ` (${payment.reference})` : ''}`;
+
+    transactions.push({
+      type: 'payment',
+      sourceId: payment.id,
+      number: payment.receiptNumber || appliesTo || payment.id,
+      date: payment.paidAt,
+      clientId: payment.clientId,
+      clientName: payment.client.name,
+      total: payment.amount,
+      appliesTo,
+      paymentMethod: toPayment(payment).method,
+      postings: [
+        { account: context.mapping.depositAccount, amount: payment.amount, description, serviceLine },
+        { account: context.mapping.accountsReceivable, amount: -payment.amount, description, serviceLine }
+      ]
+    });
+  }
+
+  // Receipts issued by the payment ledger acknowledge a payment already exported above - only
+  // receipts for work paid at the time of service are sales in their own right
+  const receiptIds = [...billingReceipts.map(receipt => receipt.id), ...receiptDocuments.map(receipt => receipt.id)];
+  const paymentReceipts = receiptIds.length > 0
+    ? await prisma.payment.findMany({ where: { receiptId: { in: receiptIds } }, select: { receiptId: true } })
+    : [];
+  const issuedForPayment = new Set(paymentReceipts.map(payment => payment.receiptId));
+
+  for (const receipt of billingReceipts) {
+    if (issuedForPayment.has(receipt.id)) continue;
+    const stored = parseStored(receipt.metadata);
+    transactions.push({
+      type: 'receipt',
+      sourceId: receipt.id,
+      number: receipt.documentNumber,
+      date: receipt.date,
+      clientId: receipt.clientId,
+      clientName: receipt.client.name,
+      total: receipt.amount,
+      paymentMethod: stored.paymentMethod,
+      postings: [
+        { account: context.mapping.depositAccount, amount: receipt.amount, description: `Receipt ${receipt.documentNumber}` },
+        ...revenuePostings(context, receipt.documentNumber, stored, receipt.amount, {
+          description: receipt.description || `Receipt ${receipt.documentNumber}`,
+          serviceType: receipt.serviceType
+        })
+      ]
+    });
+  }
+
+  for (const receipt of receiptDocuments) {
+    if (issuedForPayment.has(receipt.id)) continue;
+    const stored = parseStored(receipt.content);
+    const date = stored.paymentDate ? new Date(stored.paymentDate) : receipt.paidDate || receipt.createdAt;
+    if (Number.isNaN(date.getTime()) || date < from || date > to) continue;
+
+    const number = (stored as { receiptNumber?: string }).receiptNumber || receipt.name;
+    const total = receipt.amount ?? 0;
+    transactions.push({
+      type: 'receipt',
+      sourceId: receipt.id,
+      number,
+      date,
+      clientId: receipt.clientId,
+      clientName: receipt.client.name,
+      total,
+      paymentMethod: stored.paymentMethod,
+      postings: [
+        { account: context.mapping.depositAccount, amount: total, description: `Receipt ${number}` },
+        ...revenuePostings(context, number, stored, total, { description: `Receipt ${number}` })
+      ]
+    });
+  }
+
+  return transactions.sort((a, b) => a.date.getTime() - b.date.getTime() || a.number.localeCompare(b.number));
+}
+
+// Writers
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const usDate = (date: Date) => `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+const isoDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const money = (amount: number) => fromCents(toCents(amount)).toFixed(2);
+
+// Spreadsheets run a cell starting with =, +, - or @ as a formula, so text like a client name or
+// description is prefixed with ' to keep it text. Amounts ("-12.50") are left alone.
+function csvCell(field: string | number | undefined): string {
+  const value = String(field ?? '');
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+function csvRow(fields: Array<string | number | undefined>): string {
+  return fields.map(csvCell).join(',');
+}
+
+const TRANSACTION_LABELS: Record<AccountingTransactionType, string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit note',
+  refund: 'Refund',
+  payment: 'Payment',
+  receipt: 'Receipt'
+};
+
+const IIF_TRANSACTION_TYPES: Record<AccountingTransactionType, string> = {
+  invoice: 'INVOICE',
+  credit_note: 'CREDIT MEMO',
+  refund: 'CHECK',
+  payment: 'PAYMENT',
+  receipt: 'CASH SALE'
+};
+
+// IIF is tab-delimited with no quoting, so tabs and line breaks can't appear in a field
+const iifField = (value: string | undefined) => (value || '').replace(/[\t\r\n]+/g, ' ');
+
+function iifAccountType(account: AccountRef, mapping: AccountMapping): string {
+  if (account.name === mapping.accountsReceivable.name) return 'AR';
+  if (account.name === mapping.depositAccount.name) return 'OCASSET';
+  if (Object.values(mapping.taxAccounts).some(tax => tax.name === account.name)) return 'OCLIAB';
+  return 'INC';
+}
+
+function writeIIF(transactions: AccountingTransaction[], mapping: AccountMapping): string {
+  const lines: string[] = [];
+  const accounts = new Map<string, AccountRef>();
+  transactions.forEach(transaction => transaction.postings.forEach(posting => accounts.set(posting.account.name, posting.account)));
+
+  // Accounts first, so the import creates any that don't exist yet
+  lines.push(['!ACCNT', 'NAME', 'ACCNTTYPE', 'ACCNUM'].join('\t'));
+  accounts.forEach(account => lines.push(['ACCNT', iifField(account.name), iifAccountType(account, mapping), account.code].join('\t')));
+
+  lines.push(['!TRNS', 'TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO', 'DUEDATE'].join('\t'));
+  lines.push(['!SPL', 'SPLID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO'].join('\t'));
+  lines.push('!ENDTRNS');
+
+  for (const transaction of transactions) {
+    const [main, ...splits] = transaction.postings;
+    const trnsType = IIF_TRANSACTION_TYPES[transaction.type];
+    const date = usDate(transaction.date);
+    const name = iifField(transaction.clientName);
+
+    lines.push([
+      'TRNS', '', trnsType, date, iifField(main.account.name), name, iifField(main.serviceLine),
+      money(main.amount), iifField(transaction.number), iifField(main.description),
+      transaction.dueDate ? usDate(transaction.dueDate) : ''
+    ].join('\t'));
+    splits.forEach(split => lines.push([
+      'SPL', '', trnsType, date, iifField(split.account.name), name, iifField(split.serviceLine),
+      money(split.amount), iifField(transaction.number), iifField(split.description)
+    ].join('\t')));
+    lines.push('ENDTRNS');
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function writeQuickBooksCSV(transactions: AccountingTransaction[]): string {
+  const rows = [csvRow(['Journal No', 'Journal Date', 'Account', 'Debits', 'Credits', 'Description', 'Name', 'Class'])];
+
+  for (const transaction of transactions) {
+    for (const posting of transaction.postings) {
+      rows.push(csvRow([
+        transaction.number,
+        usDate(transaction.date),
+        posting.account.name,
+        posting.amount > 0 ? money(posting.amount) : '',
+        posting.amount < 0 ? money(-posting.amount) : '',
+        posting.description,
+        transaction.clientName,
+        posting.serviceLine
+      ]));
+    }
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
+
+function writeXeroCSV(transactions: AccountingTransaction[]): string {
+  const rows = [csvRow(['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount', 'TrackingName1', 'TrackingOption1'])];
+
+  for (const transaction of transactions) {
+    const narration = `${TRANSACTION_LABELS[transaction.type]} ${transaction.number} - ${transaction.clientName}`;
+    for (const posting of transaction.postings) {
+      rows.push(csvRow([
+        narration,
+        isoDate(transaction.date),
+        posting.description,
+        posting.account.code,
+        'Tax Exempt', // Tax is already split out onto its own lines
+        money(posting.amount),
+        posting.serviceLine ? 'Service Line' : '',
+        posting.serviceLine
+      ]));
+    }
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
+
+/**
+ * Export billing activity between `from` and `to` (both inclusive) in the given format. Every
+ * transaction is a balanced entry, so totals can be checked against the ledger after import.
+ */
+export async function exportAccountingData(options: {
+  from: Date;
+  to: Date;
+  format: AccountingExportFormat;
+  include?: AccountingTransactionType[];
+  mapping?: Partial<AccountMapping>;
+}): Promise<AccountingExportResult> {
+  const { from, to, format } = options;
+  const include = options.include?.length ? options.include : ACCOUNTING_TRANSACTION_TYPES;
+  const prisma = requirePrisma();
+
+  const serviceLines = await prisma.serviceLine.findMany({ select: { slug: true, name: true } });
+  const context: ExportContext = {
+    mapping: { ...DEFAULT_ACCOUNT_MAPPING, ...options.mapping },
+    serviceLineNames: new Map(serviceLines.map(serviceLine => [serviceLine.slug, serviceLine.name])),
+    warnings: []
+  };
+
+  const transactions = await collectTransactions(from, to, include, context);
+
+  const content = format === 'quickbooks_iif'
+    ? writeIIF(transactions, context.mapping)
+    : format === 'quickbooks_csv'
+      ? writeQuickBooksCSV(transactions)
+      : writeXeroCSV(transactions);
+
+  const counts = Object.fromEntries(
+    ACCOUNTING_TRANSACTION_TYPES.map(type => [type, transactions.filter(transaction => transaction.type === type).length])
+  ) as Record<AccountingTransactionType, number>;
+
+  return {
+    format,
+    from,
+    to,
+    filename: `${format === 'xero_csv' ? 'xero' : 'quickbooks'}-export_${isoDate(from)}_${isoDate(to)}.${format === 'quickbooks_iif' ? 'iif' : 'csv'}`,
+    contentType: format === 'quickbooks_iif' ? 'text/plain; charset=utf-8' : 'text/csv; charset=utf-8',
+    content,
+    counts,
+    warnings: context.warnings
+  };
+}
@@ -387,3 +387,133 @@ export async function logInvoiceCreated(params: {
     userRole: params.userId ? 'admin' : undefined,
   });
 }
+
+export async function logPaymentReceived(params: {
+  paymentId: string;
+  documentNumber: string;
+  clientId: string;
+  amount: number;
+  balanceDue: number;
+  userId?: string;
+  userName?: string;
+}) {
+  return logActivity({
+    activityType: 'PAYMENT_RECEIVED',
+    action: 'received',
+    entityType: 'payment',
+    entityId: params.paymentId,
+    clientId: params.clientId,
+    description: `Received payment of $${params.amount.toFixed(2)} toward ${params.documentNumber}${params.balanceDue > 0 ? ` ($${params.balanceDue.toFixed(2)} outstanding)` : ' - paid in full'}`,
+    metadata: {
+      amount: params.amount,
+      balanceDue: params.balanceDue,
+      documentNumber: params.documentNumber
+    },
+    userId: params.userId,
+    userName: params.userName,
+    userRole: params.userId ? 'admin' : undefined,
+  });
+}
+
+export async function logInvoiceOverdue(params: {
+  invoiceId: string;
+  invoiceNumber: string;
+  clientId: string;
+  dueDate: Date;
+}) {
+  return logActivity({
+    activityType: 'INVOICE_OVERDUE',
+    action: 'overdue',
+    entityType: 'invoice',
+    entityId: params.invoiceId,
+    clientId: params.clientId,
+    description: `Invoice ${params.invoiceNumber} is overdue (due ${params.dueDate.toLocaleDateString('en-CA')})`,
+    metadata: { invoiceNumber: params.invoiceNumber, dueDate: params.dueDate.toISOString() },
+  });
+}
+
+export async function logPaymentReminderSent(params: {
+  invoiceId: string;
+  invoiceNumber: string;
+  clientId: string;
+  clientName: string;
+  stage: number;
+  amount: number;
+  recipient: string;
+}) {
+  const timing = params.stage < 0
+    ? `due in ${-params.stage} day${params.stage === -1 ? '' : 's'}`
+    : params.stage === 0 ? 'due today' : `${params.stage} day${params.stage === 1 ? '' : 's'} overdue`;
+
+  return logActivity({
+    activityType: 'PAYMENT_REMINDER_SENT',
+    action: 'sent',
+    entityType: 'invoice',
+    entityId: params.invoiceId,
+    clientId: params.clientId,
+    description: `Sent payment reminder to ${params.clientName} for ${params.invoiceNumber} (${timing}) - $${params.amount.toFixed(2)}`,
+    metadata: {
+      amount: params.amount,
+      invoiceNumber: params.invoiceNumber,
+      stage: params.stage,
+      recipient: params.recipient,
+      type: 'payment_reminder'
+    },
+  });
+}
+
+export async function logCreditNoteIssued(params: {
+  creditNoteId: string;
+  creditNoteNumber: string;
+  originalDocumentNumber: string;
+  clientId: string;
+  clientName: string;
+  amount: number;
+  reason: string;
+  userId?: string;
+  userName?: string;
+}) {
+  return logActivity({
+    activityType: 'CREDIT_NOTE_ISSUED',
+    action: 'issued',
+    entityType: 'credit_note',
+    entityId: params.creditNoteId,
+    clientId: params.clientId,
+    description: `Issued credit note ${params.creditNoteNumber} to ${params.clientName} against ${params.originalDocumentNumber} - $${params.amount.toFixed(2)}`,
+    metadata: {
+      amount: params.amount,
+      creditNoteNumber: params.creditNoteNumber,
+      originalDocumentNumber: params.originalDocumentNumber,
+      reason: params.reason
+    },
+    userId: params.userId,
+    userName: params.userName,
+    userRole: params.userId ? 'admin' : undefined,
+  });
+}
+
+export async function logQuoteResponse(params: {
+  quoteId: string;
+  quoteNumber: string;
+  clientId: string;
+  clientName: string;
+  decision: 'accepted' | 'declined';
+  signatureName: string;
+  amount: number;
+  invoiceNumber?: string;
+}) {
+  return logActivity({
+    activityType: params.decision === 'accepted' ? 'QUOTE_ACCEPTED' : 'QUOTE_DECLINED',
+    action: params.decision,
+    entityType: 'quote',
+    entityId: params.quoteId,
+    clientId: params.clientId,
+    description: `${params.clientName} ${params.decision} quote ${params.quoteNumber} - $${params.amount.toFixed(2)} (signed "${params.signatureName}")${params.invoiceNumber ? `, invoice ${params.invoiceNumber} created` : ''}`,
+    metadata: {
+      amount: params.amount,
+      quoteNumber: params.quoteNumber,
+      signatureName: params.signatureName,
+      invoiceNumber: params.invoiceNumber
+    },
+  });
+}
@@ -0,0 +1,79 @@
+// src/lib/billing-manager.test.ts
+
+import { billingManager } from "./billing-manager";
+import { getPrismaClient } from "./prisma";
+import type { CreditNoteItem } from "../types/billing";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+jest.mock("./activity-logger", () => ({}));
+
+// createCreditNote reads the original document and client through private helpers
+const internals = billingManager as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+
+const original = {
+  id: "invoice-1",
+  number: "INV-2026-001",
+  clientId: "client-1",
+  status: "paid",
+  items: [
+    { id: "line-1", description: "Spring cleanup", serviceType: "landscaping", quantity: 1, unitPrice: 200, totalPrice: 200, taxable: false },
+  ],
+  taxAmount: 0,
+};
+
+function mockDatabase(committed: Array<Pick<CreditNoteItem, "originalItemId" | "totalPrice">>) {
+  const tx = {
+    billingDocument: {
+      findMany: jest.fn(async () => [{ metadata: { items: committed } }]),
+      create: jest.fn(async ({ data }: { data: { documentNumber: string } }) => ({ id: "credit-note-1", ...data })),
+    },
+    documentNumberSequence: {
+      updateMany: jest.fn(async () => ({ count: 1 })),
+      findUniqueOrThrow: jest.fn(async () => ({ lastValue: 3 })),
+    },
+  };
+  const prisma = { $transaction: jest.fn(async (work: (client: typeof tx) => Promise<unknown>) => work(tx)) };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+  return tx;
+}
+
+describe("Billing Manager", () => {
+  describe("createCreditNote", () => {
+    beforeEach(() => {
+      jest.spyOn(internals, "getCreditableDocument").mockResolvedValue(original);
+      jest.spyOn(internals, "getClientById").mockResolvedValue({ id: "client-1", name: "Jane Smith" });
+      // Nothing credited when the lines are validated...
+      jest.spyOn(internals, "getCreditedAmounts").mockResolvedValue(new Map());
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it("should number and save the credit note in one transaction", async () => {
+      const tx = mockDatabase([]);
+
+      const creditNote = await billingManager.createCreditNote({
+        originalDocumentType: "invoice",
+        originalDocumentId: original.id,
+        reason: "Missed visit",
+        lines: [{ itemId: "line-1", amount: 50 }],
+      });
+
+      expect(creditNote.creditNoteNumber).toBe(`CRN-${new Date().getFullYear()}-003`);
+      expect(creditNote.totalAmount).toBe(50);
+      expect(tx.billingDocument.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject a credit that a concurrent one already used up", async () => {
+      // ...but another credit note for $180 was committed before this one saved
+      const tx = mockDatabase([{ originalItemId: "line-1", totalPrice: 180 }]);
+
+      await expect(billingManager.createCreditNote({
+        originalDocumentType: "invoice",
+        originalDocumentId: original.id,
+        reason: "Missed visit",
+        lines: [{ itemId: "line-1", amount: 50 }],
+      })).rejects.toMatchObject({ code: "CONFLICT" });
+      expect(tx.billingDocument.create).not.toHaveBeenCalled();
+    });
+  });
+});
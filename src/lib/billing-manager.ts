@@ -14,14 +14,61 @@ import {
   DEFAULT_BUSINESS_CONFIG,
   Quote,
   QuoteItem,
-  CreateQuoteData
+  CreateQuoteData,
+  SmallSupplierStatus,
+  CreditNote,
+  CreditNoteItem,
+  CreateCreditNoteData,
+  TaxLine,
+  QuoteAcceptanceOptions,
+  QuoteResponse,
+  DocumentNumberType,
+  BillingError
 } from '../types/billing';
 import { Client, Conversation, Message } from '../types/client';
+import { calculateTaxes, evaluateSmallSupplier, TaxableItem } from './tax-engine';
+import type { BillingDocument as BillingDocumentRow, BillingDocumentStatus } from '@prisma/client';
+
+const INVOICE_STATUS_TO_DB: Record<Invoice['status'], BillingDocumentStatus> = {
+  draft: 'DRAFT',
+  sent: 'SENT',
+  partial: 'PARTIAL_PAYMENT',
+  paid: 'PAID',
+  overdue: 'OVERDUE',
+  cancelled: 'CANCELLED'
+};
+
+// 'converted' is still an accepted quote in the database - metadata.convertedToInvoiceId tells them apart
+const QUOTE_STATUS_TO_DB: Record<Quote['status'], BillingDocumentStatus> = {
+  draft: 'DRAFT',
+  sent: 'SENT',
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  expired: 'EXPIRED',
+  converted: 'ACCEPTED'
+};
+
+// BillingDocument.metadata - a document's fields that have no column of their own, with dates
+// as the ISO strings JSON keeps them as
+type StoredDocumentFields<T> = { [Field in keyof T]?: T[Field] extends Date | undefined ? string : T[Field] };
+
+// An invoice or receipt as seen by createCreditNote, whichever store it came from
+interface CreditableDocument {
+  id: string;
+  number: string;
+  clientId: string;
+  status: string;
+  items: Array<Pick<InvoiceItem, 'id' | 'description' | 'serviceType' | 'quantity' | 'unitPrice' | 'totalPrice' | 'taxable' | 'taxes'>>;
+  taxAmount: number;
+  taxBreakdown?: TaxLine[];
+  taxJurisdiction?: CreditNote['taxJurisdiction'];
+}
 
 class BillingManager {
   private receipts: Receipt[] = [];
   private invoices: Invoice[] = [];
   private quotes: Quote[] = [];
+  private creditNotes: CreditNote[] = [];
   private taxConfig: TaxConfig = DEFAULT_TAX_CONFIG;
   private businessConfig: BusinessConfig = DEFAULT_BUSINESS_CONFIG;
 
@@ -54,12 +101,13 @@ class BillingManager {
     }));
 
     const subtotal = this.calculateSubtotal(items);
-    const taxAmount = this.calculateTax(items);
+    const taxes = this.calculateTaxes(items, client);
+    const taxAmount = taxes.taxAmount;
     const totalAmount = subtotal + taxAmount;
-    console.log('[BillingManager] Calculated totals:', { subtotal, taxAmount, totalAmount });
+    console.log('[BillingManager] Calculated totals:', { subtotal, taxAmount, totalAmount, jurisdiction: taxes.jurisdiction });
 
     console.log('[BillingManager] Generating receipt number...');
-    const receiptNumber = await this.generateReceiptNumber();
+    const receiptNumber = await this.generateReceiptNumber(items[0]?.serviceType);
     console.log('[BillingManager] Receipt number:', receiptNumber);
 
     const receipt: Receipt = {
@@ -68,9 +116,11 @@ class BillingManager {
       clientId: data.clientId,
       client: client, // Use fresh client data
       conversationId: data.conversationId,
-      items: items,
+      items: taxes.items,
       subtotal: subtotal,
       taxAmount: taxAmount,
+      taxBreakdown: taxes.taxBreakdown,
+      taxJurisdiction: taxes.jurisdiction,
       totalAmount: totalAmount,
       paymentMethod: data.paymentMethod,
       paymentDate: data.paymentDate || new Date(),
@@ -109,18 +159,21 @@ class BillingManager {
     }));
 
     const subtotal = this.calculateSubtotal(items);
-    const taxAmount = this.calculateTax(items);
+    const taxes = this.calculateTaxes(items, client);
+    const taxAmount = taxes.taxAmount;
     const totalAmount = subtotal + taxAmount;
     
     const invoice: Invoice = {
       id: this.generateId(),
-      invoiceNumber: await this.generateInvoiceNumber(),
+      invoiceNumber: await this.generateInvoiceNumber(items[0]?.serviceType),
       clientId: data.clientId,
       client: client, // Use fresh client data
       conversationId: data.conversationId,
-      items: items,
+      items: taxes.items,
       subtotal: subtotal,
       taxAmount: taxAmount,
+      taxBreakdown: taxes.taxBreakdown,
+      taxJurisdiction: taxes.jurisdiction,
       totalAmount: totalAmount,
       dueDate: data.dueDate || this.calculateDueDate(data.paymentTerms || 'net30'),
       paymentTerms: data.paymentTerms || 'net30',
@@ -499,33 +552,110 @@ class BillingManager {
   }
 
   // Calculation helpers
-  private calculateSubtotal(items: (ReceiptItem | InvoiceItem)[]): number {
+  private calculateSubtotal(items: Pick<ReceiptItem | InvoiceItem | QuoteItem, 'totalPrice'>[]): number {
     return items.reduce((sum, item) => sum + item.totalPrice, 0);
   }
 
-  private calculateTax(items: (ReceiptItem | InvoiceItem)[], businessRegistered?: boolean): number {
-    // For unregistered business under $30k CAD, no tax is applicable
-    if (!businessRegistered && !this.businessConfig.isRegistered) {
-      return 0;
-    }
-    
-    const taxableAmount = items
-      .filter(item => item.taxable)
-      .reduce((sum, item) => sum + item.totalPrice, 0);
-    
-    return taxableAmount * this.taxConfig.rate;
+  // Per-line taxes for the client's province. For unregistered business under $30k CAD, no tax is applicable
+  private calculateTaxes<T extends TaxableItem>(items: T[], client: Client | null, businessRegistered?: boolean) {
+    return calculateTaxes(items, {
+      client,
+      config: this.taxConfig,
+      businessRegistered: businessRegistered ?? this.businessConfig.isRegistered
+    });
+  }
+
+  private calculateTaxesForQuote(items: QuoteItem[], client: Client, businessRegistered: boolean) {
+    // For quotes, assume all items are taxable unless the service or client is exempt
+    const taxes = this.calculateTaxes(
+      items.map(item => ({ serviceType: item.serviceCategory, totalPrice: item.totalPrice })),
+      client,
+      businessRegistered
+    );
+
+    return {
+      ...taxes,
+      items: items.map((item, index) => ({
+        ...item,
+        taxes: taxes.items[index].taxes,
+        taxExemptReason: taxes.items[index].taxExemptReason
+      }))
+    };
+  }
+
+  // Tax configuration
+  getTaxConfig(): TaxConfig {
+    return this.taxConfig;
+  }
+
+  setTaxConfig(config: Partial<TaxConfig>): void {
+    this.taxConfig = { ...this.taxConfig, ...config };
+  }
+
+  getBusinessConfig(): BusinessConfig {
+    return this.businessConfig;
+  }
+
+  setBusinessConfig(config: Partial<BusinessConfig>): void {
+    this.businessConfig = { ...this.businessConfig, ...config };
   }
 
-  private calculateTaxForQuote(items: QuoteItem[], businessRegistered?: boolean): number {
-    // For unregistered business under $30k CAD, no tax is applicable
-    if (!businessRegistered && !this.businessConfig.isRegistered) {
-      return 0;
+  // Small supplier watch - recompute annualRevenue from paid revenue over the last four calendar
+  // quarters (current quarter included) and flag when GST/HST registration becomes required
+  async refreshSmallSupplierStatus(asOf: Date = new Date()): Promise<SmallSupplierStatus> {
+    const windowEnd = asOf;
+    const windowStart = new Date(asOf.getFullYear(), Math.floor(asOf.getMonth() / 3) * 3 - 9, 1);
+    let revenue = this.businessConfig.annualRevenue;
+
+    if (typeof window === 'undefined') {
+      const { getPrismaClient } = await import('./prisma');
+      const prisma = getPrismaClient();
+
+      if (prisma) {
+        const paidBetween = { gte: windowStart, lte: windowEnd };
+        const [payments, documents, records, receipts] = await Promise.all([
+          prisma.payment.findMany({
+            where: { paidAt: paidBetween },
+            select: { amount: true, receiptId: true }
+          }),
+          // Documents/records marked paid without going through the payment ledger
+          prisma.billingDocument.findMany({
+            where: { status: 'PAID', paidAt: paidBetween, documentType: { not: 'RECEIPT' }, payments: { none: {} } },
+            select: { amount: true }
+          }),
+          prisma.billingRecord.findMany({
+            where: { status: 'PAID', paidDate: paidBetween, payments: { none: {} } },
+            select: { amount: true }
+          }),
+          prisma.document.findMany({
+            where: { type: 'RECEIPT', status: 'PAID', paidDate: paidBetween },
+            select: { id: true, amount: true }
+          })
+        ]);
+
+        // Receipts issued by the payment ledger are already counted through their payment
+        const ledgerReceiptIds = new Set(payments.map(payment => payment.receiptId).filter(Boolean));
+        revenue = [
+          ...payments,
+          ...documents,
+          ...records,
+          ...receipts.filter(receipt => !ledgerReceiptIds.has(receipt.id))
+        ].reduce((sum, entry) => sum + (entry.amount || 0), 0);
+      }
     }
-    
-    // For quotes, assume all items are taxable unless specified otherwise
-    const taxableAmount = items.reduce((sum, item) => sum + item.totalPrice, 0);
-    
-    return taxableAmount * this.taxConfig.rate;
+
+    const status = evaluateSmallSupplier(revenue, { start: windowStart, end: windowEnd }, this.businessConfig.isRegistered);
+    this.businessConfig = {
+      ...this.businessConfig,
+      annualRevenue: status.revenue,
+      taxRegistrationRequired: status.level === 'exceeded'
+    };
+
+    if (status.message) {
+      console.warn('[BillingManager] Small supplier threshold:', status.message);
+    }
+
+    return status;
   }
 
   private calculateDueDate(paymentTerms: Invoice['paymentTerms']): Date {
@@ -545,59 +675,9 @@ class BillingManager {
   }
 
   // Number generation
-  private async generateReceiptNumber(): Promise<string> {
+  private async generateReceiptNumber(serviceLine?: string): Promise<string> {
     try {
-      const year = new Date().getFullYear();
-      const prefix = `REC-${year}-`;
-      
-      // Check database for existing receipt numbers to prevent duplicates
-      if (typeof window === 'undefined') {
-        const { getPrismaClient } = await import('./prisma');
-        const prisma = getPrismaClient();
-        
-        if (prisma) {
-          // Get all receipts from current year from database
-          const existingReceipts = await prisma.document.findMany({
-            where: { type: 'RECEIPT' },
-            select: { content: true }
-          });
-          
-          // Extract receipt numbers from content and filter by current year
-          const currentYearNumbers: number[] = [];
-          
-          existingReceipts.forEach(doc => {
-            try {
-              const receiptData = typeof doc.content === 'string' ? JSON.parse(doc.content) : doc.content;
-              if (receiptData.receiptNumber && receiptData.receiptNumber.startsWith(prefix)) {
-                // Extract the number part (e.g., "REC-2025-001" -> 1)
-                const numberPart = receiptData.receiptNumber.split('-').pop();
-                if (numberPart) {
-                  const num = parseInt(numberPart, 10);
-                  if (!isNaN(num)) {
-                    currentYearNumbers.push(num);
-                  }
-                }
-              }
-            } catch (error) {
-              console.warn('Error parsing receipt content for numbering:', error);
-            }
-          });
-          
-          // Find the next available number
-          const maxNumber = currentYearNumbers.length > 0 ? Math.max(...currentYearNumbers) : 0;
-          const nextNumber = maxNumber + 1;
-          
-          return `REC-${year}-${nextNumber.toString().padStart(3, '0')}`;
-        }
-      }
-      
-      // Fallback to in-memory method if database is not available
-      const count = this.receipts.filter(r => 
-        r.receiptNumber.startsWith(prefix)
-      ).length + 1;
-      
-      return `REC-${year}-${count.toString().padStart(3, '0')}`;
-      
+      return await this.nextDocumentNumber('REC', serviceLine, this.receipts.map(r => r.receiptNumber));
     } catch (error) {
       console.error('Error generating receipt number:', error);
       // Emergency fallback with timestamp
@@ -607,13 +687,38 @@ class BillingManager {
     }
   }
 
-  private async generateInvoiceNumber(): Promise<string> {
-    const year = new Date().getFullYear();
-    const count = this.invoices.filter(i => 
-      i.invoiceNumber.startsWith(`INV-${year}`)
-    ).length + 1;
-    
-    return `INV-${year}-${count.toString().padStart(3, '0')}`;
+  private async generateCreditNoteNumber(serviceLine?: string): Promise<string> {
+    return this.nextDocumentNumber('CRN', serviceLine, this.creditNotes.map(c => c.creditNoteNumber));
+  }
+
+  private async generateInvoiceNumber(serviceLine?: string): Promise<string> {
+    return this.nextDocumentNumber('INV', serviceLine, this.invoices.map(i => i.invoiceNumber));
+  }
+
+  // Next [PREFIX-]TYPE-YYYY-NNN number from the shared sequence allocator. In-memory documents
+  // are the fallback when the database is unavailable.
+  private async nextDocumentNumber(
+    type: DocumentNumberType,
+    serviceLine: string | undefined,
+    inMemoryNumbers: string[]
+  ): Promise<string> {
+    if (typeof window === 'undefined') {
+      const { getPrismaClient } = await import('./prisma');
+
+      if (getPrismaClient()) {
+        const { allocateDocumentNumber } = await import('./document-numbering');
+        return allocateDocumentNumber(type, { serviceLine });
+      }
+    }
+
+    const prefix = `${type}-${new Date().getFullYear()}-`;
+    const used = inMemoryNumbers
+      .filter(number => number.startsWith(prefix))
+      .map(number => parseInt(number.slice(prefix.length), 10))
+      .filter(num => !isNaN(num));
+    const nextNumber = (used.length > 0 ? Math.max(...used) : 0) + 1;
+
+    return `${prefix}${nextNumber.toString().padStart(3, '0')}`;
   }
 
   private generateId(): string {
@@ -646,6 +751,8 @@ class BillingManager {
               items: receipt.items,
               subtotal: receipt.subtotal,
               taxAmount: receipt.taxAmount,
+              taxBreakdown: receipt.taxBreakdown,
+              taxJurisdiction: receipt.taxJurisdiction,
               totalAmount: receipt.totalAmount,
               paymentMethod: receipt.paymentMethod,
               paymentDate: receipt.paymentDate,
@@ -687,6 +794,45 @@ class BillingManager {
   }
 
   private async saveInvoice(invoice: Invoice): Promise<Invoice> {
+    // Persisted once as a BillingDocument so payments, reminders and analytics see it. Status
+    // changes after that are owned by the payment ledger and dunning, so existing rows are left alone.
+    try {
+      if (typeof window === 'undefined') {
+        const { getPrismaClient } = await import('./prisma');
+        const prisma = getPrismaClient();
+
+        if (prisma) {
+          const savedDocument = await prisma.billingDocument.upsert({
+            where: { documentNumber: invoice.invoiceNumber },
+            create: {
+              documentNumber: invoice.invoiceNumber,
+              documentType: 'INVOICE',
+              clientId: invoice.clientId,
+              conversationId: invoice.conversationId,
+              serviceType: invoice.items[0]?.serviceType || 'creative',
+              amount: invoice.totalAmount,
+              description: invoice.notes,
+              date: invoice.createdAt,
+              status: INVOICE_STATUS_TO_DB[invoice.status],
+              dueDate: invoice.dueDate,
+              metadata: JSON.parse(JSON.stringify({
+                items: invoice.items,
+                subtotal: invoice.subtotal,
+                taxAmount: invoice.taxAmount,
+                taxBreakdown: invoice.taxBreakdown,
+                taxJurisdiction: invoice.taxJurisdiction,
+                paymentTerms: invoice.paymentTerms
+              }))
+            },
+            update: {}
+          });
+          invoice.id = savedDocument.id;
+        }
+      }
+    } catch (error) {
+      console.error('[BillingManager] Failed to save invoice to database:', error);
+    }
+
     const existingIndex = this.invoices.findIndex(i => i.id === invoice.id);
     if (existingIndex >= 0) {
       this.invoices[existingIndex] = invoice;
@@ -696,6 +842,106 @@ class BillingManager {
     return invoice;
   }
 
+  // Credit notes are stored as BillingDocuments so revenue analytics can net them off.
+  // `lineTotals` is each original line's total - the most that can ever be credited against it.
+  private async saveCreditNote(creditNote: CreditNote, lineTotals: Map<string, number>): Promise<CreditNote> {
+    if (typeof window === 'undefined') {
+      const { getPrismaClient } = await import('./prisma');
+      const prisma = getPrismaClient();
+
+      if (prisma) {
+        const { runSerializable } = await import('./payment-ledger');
+        const { allocateDocumentNumber } = await import('./document-numbering');
+        const toCents = (amount: number) => Math.round(amount * 100);
+
+        const savedDocument = await runSerializable(prisma, async (tx) => {
+          // Re-check the remaining amounts against what's committed now. Two credit notes for the
+          // same document read the same rows, so one of them is retried and sees the other's lines.
+          const existing = await tx.billingDocument.findMany({
+            where: { documentType: 'CREDIT_NOTE', originalDocumentId: creditNote.originalDocumentId, status: { not: 'CANCELLED' } },
+            select: { metadata: true }
+          });
+          const credited = new Map<string, number>();
+          existing
+            .flatMap(document => ((document.metadata || {}) as { items?: CreditNoteItem[] }).items || [])
+            .concat(creditNote.items)
+            .forEach(item => credited.set(item.originalItemId, (credited.get(item.originalItemId) || 0) + item.totalPrice));
+
+          for (const item of creditNote.items) {
+            const lineTotal = lineTotals.get(item.originalItemId);
+            if (lineTotal !== undefined && toCents(credited.get(item.originalItemId) || 0) > toCents(lineTotal)) {
+              throw new BillingError(
+                `"${item.description}" on ${creditNote.originalDocumentNumber} was credited by someone else in the meantime - check what's left and try again`,
+                'CONFLICT'
+              );
+            }
+          }
+
+          return tx.billingDocument.create({
+            data: {
+              documentNumber: await allocateDocumentNumber('CRN', { serviceLine: creditNote.items[0]?.serviceType, tx }),
+              documentType: 'CREDIT_NOTE',
+              clientId: creditNote.clientId,
+              serviceType: creditNote.items[0]?.serviceType || 'creative',
+              amount: creditNote.totalAmount,
+              description: `Credit against ${creditNote.originalDocumentNumber}: ${creditNote.reason}`,
+              date: creditNote.issueDate,
+              status: 'SENT',
+              originalDocumentId: creditNote.originalDocumentId,
+              originalDocumentNumber: creditNote.originalDocumentNumber,
+              metadata: JSON.parse(JSON.stringify({
+                originalDocumentType: creditNote.originalDocumentType,
+                items: creditNote.items,
+                subtotal: creditNote.subtotal,
+                taxAmount: creditNote.taxAmount,
+                taxBreakdown: creditNote.taxBreakdown,
+                taxJurisdiction: creditNote.taxJurisdiction,
+                reason: creditNote.reason,
+                refundMethod: creditNote.refundMethod,
+                notes: creditNote.notes
+              }))
+            }
+          });
+        });
+
+        creditNote.id = savedDocument.id;
+        creditNote.creditNoteNumber = savedDocument.documentNumber;
+        return creditNote;
+      }
+    }
+
+    creditNote.creditNoteNumber = await this.generateCreditNoteNumber(creditNote.items[0]?.serviceType);
+    this.creditNotes.push(creditNote);
+    return creditNote;
+  }
+
+  private toCreditNote(document: BillingDocumentRow, client: Client): CreditNote {
+    const data = (document.metadata || {}) as StoredDocumentFields<CreditNote>;
+    return {
+      id: document.id,
+      creditNoteNumber: document.documentNumber,
+      clientId: document.clientId,
+      client,
+      originalDocumentType: data.originalDocumentType || 'invoice',
+      originalDocumentId: document.originalDocumentId || '',
+      originalDocumentNumber: document.originalDocumentNumber || '',
+      items: data.items || [],
+      subtotal: data.subtotal ?? document.amount,
+      taxAmount: data.taxAmount || 0,
+      taxBreakdown: data.taxBreakdown,
+      taxJurisdiction: data.taxJurisdiction,
+      totalAmount: document.amount,
+      reason: data.reason || '',
+      refundMethod: data.refundMethod,
+      issueDate: document.date,
+      status: document.status === 'CANCELLED' ? 'void' : 'issued',
+      emailSentAt: data.emailSentAt ? new Date(data.emailSentAt) : undefined,
+      notes: data.notes,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    };
+  }
+
   // Client data fetching - directly from database to avoid auth issues
   private async getClientById(clientId: string): Promise<Client | null> {
     try {
@@ -793,6 +1039,8 @@ class BillingManager {
             items: receiptData.items || [],
             subtotal: receiptData.subtotal || doc.amount || 0,
             taxAmount: receiptData.taxAmount || 0,
+            taxBreakdown: receiptData.taxBreakdown,
+            taxJurisdiction: receiptData.taxJurisdiction,
             totalAmount: receiptData.totalAmount || doc.amount || 0,
             paymentMethod: receiptData.paymentMethod || 'cash',
             paymentDate: receiptData.paymentDate ? new Date(receiptData.paymentDate) : doc.paidDate || new Date(),
@@ -870,6 +1118,8 @@ class BillingManager {
               items: receiptData.items || [],
               subtotal: receiptData.subtotal || doc.amount || 0,
               taxAmount: receiptData.taxAmount || 0,
+              taxBreakdown: receiptData.taxBreakdown,
+              taxJurisdiction: receiptData.taxJurisdiction,
               totalAmount: receiptData.totalAmount || doc.amount || 0,
               paymentMethod: receiptData.paymentMethod || 'cash',
               paymentDate: receiptData.paymentDate ? new Date(receiptData.paymentDate) : doc.paidDate || new Date(),
@@ -940,6 +1190,8 @@ class BillingManager {
               items: receiptData.items || [],
               subtotal: receiptData.subtotal || 0,
               taxAmount: receiptData.taxAmount || 0,
+              taxBreakdown: receiptData.taxBreakdown,
+              taxJurisdiction: receiptData.taxJurisdiction,
               totalAmount: receiptData.totalAmount || 0,
               paymentMethod: receiptData.paymentMethod || 'cash',
               paymentDate: receiptData.paymentDate ? new Date(receiptData.paymentDate) : new Date(),
@@ -997,16 +1249,21 @@ class BillingManager {
       // Calculate new totals if items were updated
       const items = updateData.items || existingReceiptData.items || [];
       const subtotal = items.reduce((sum: number, item: any) => sum + (item.totalPrice || 0), 0);
-      const taxAmount = 0; // No tax for unregistered business
+      // Only re-tax when the lines changed; otherwise keep the tax as issued
+      const taxes = updateData.items
+        ? this.calculateTaxes(items as ReceiptItem[], await this.getClientById(existingDoc.clientId))
+        : null;
+      const taxAmount = taxes ? taxes.taxAmount : existingReceiptData.taxAmount || 0;
       const totalAmount = subtotal + taxAmount;
 
       // Merge updated data with existing data
       const updatedReceiptData = {
         ...existingReceiptData,
         ...updateData,
-        items: items,
+        items: taxes ? taxes.items : items,
         subtotal: subtotal,
         taxAmount: taxAmount,
+        ...(taxes && { taxBreakdown: taxes.taxBreakdown, taxJurisdiction: taxes.jurisdiction }),
         totalAmount: totalAmount
       };
 
@@ -1047,6 +1304,8 @@ class BillingManager {
         items: updatedReceiptData.items || [],
         subtotal: updatedReceiptData.subtotal || 0,
         taxAmount: updatedReceiptData.taxAmount || 0,
+        taxBreakdown: updatedReceiptData.taxBreakdown,
+        taxJurisdiction: updatedReceiptData.taxJurisdiction,
         totalAmount: updatedReceiptData.totalAmount || 0,
         paymentMethod: updatedReceiptData.paymentMethod || 'cash',
         paymentDate: new Date(updatedReceiptData.paymentDate || updatedDoc.paidDate || new Date()),
@@ -1080,10 +1339,398 @@ class BillingManager {
     return null;
   }
 
-  getInvoiceById(invoiceId: string): Invoice | null {
+  async getInvoiceById(invoiceId: string): Promise<Invoice | null> {
+    try {
+      if (typeof window === 'undefined') {
+        const { getPrismaClient } = await import('./prisma');
+        const prisma = getPrismaClient();
+
+        if (prisma) {
+          const document = await prisma.billingDocument.findUnique({
+            where: { id: invoiceId },
+            include: { payments: { select: { amount: true } } }
+          });
+          if (document?.documentType === 'INVOICE') {
+            const { getCreditedTotals } = await import('./payment-ledger');
+            const credited = await getCreditedTotals(prisma, [document.id]);
+            return await this.toInvoice(document, document.payments, credited.get(document.id));
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching invoice by ID:', error);
+    }
+
     return this.invoices.find(i => i.id === invoiceId) || null;
   }
 
+  private async toInvoice(
+    document: BillingDocumentRow,
+    payments: Array<{ amount: number }>,
+    amountCredited?: number
+  ): Promise<Invoice | null> {
+    const client = await this.getClientById(document.clientId);
+    if (!client) return null;
+
+    const { calculateBalance } = await import('./payment-ledger');
+    const data = (document.metadata || {}) as StoredDocumentFields<Invoice>;
+    const status = (Object.keys(INVOICE_STATUS_TO_DB) as Invoice['status'][])
+      .find(key => INVOICE_STATUS_TO_DB[key] === document.status) || 'sent';
+    const items: InvoiceItem[] = Array.isArray(data.items) && data.items.length > 0
+      ? data.items
+      : [{
+          id: `${document.id}_item`,
+          description: document.description || `Invoice ${document.documentNumber}`,
+          serviceType: document.serviceType,
+          quantity: 1,
+          unitPrice: document.amount,
+          totalPrice: document.amount,
+          taxable: false
+        }];
+
+    return {
+      id: document.id,
+      invoiceNumber: document.documentNumber,
+      clientId: document.clientId,
+      client,
+      conversationId: document.conversationId || undefined,
+      items,
+      subtotal: data.subtotal ?? document.amount,
+      taxAmount: data.taxAmount || 0,
+      taxBreakdown: data.taxBreakdown,
+      taxJurisdiction: data.taxJurisdiction,
+      totalAmount: document.amount,
+      dueDate: document.dueDate || document.date,
+      paymentTerms: data.paymentTerms || 'net30',
+      status,
+      notes: document.description || undefined,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt,
+      paidAt: document.paidAt || undefined,
+      ...calculateBalance(document.amount, payments, amountCredited)
+    };
+  }
+
+  // Credit Notes
+  // Credits reverse tax at the rate originally charged on each line, not today's rate
+  async createCreditNote(data: CreateCreditNoteData): Promise<CreditNote> {
+    if (!data.reason?.trim()) {
+      throw new BillingError('A reason is required for a credit note', 'VALIDATION');
+    }
+
+    const original = await this.getCreditableDocument(data.originalDocumentType, data.originalDocumentId);
+    if (!original) {
+      throw new BillingError(`Original ${data.originalDocumentType} not found`, 'NOT_FOUND');
+    }
+    if (original.status === 'draft' || original.status === 'cancelled') {
+      throw new BillingError(`Cannot credit a ${original.status} ${data.originalDocumentType} - edit or cancel it instead`, 'CONFLICT');
+    }
+
+    const client = await this.getClientById(original.clientId);
+    if (!client) {
+      throw new BillingError('Client not found', 'NOT_FOUND');
+    }
+
+    // Amount already credited per original line, so a line can never be credited beyond its total
+    const credited = await this.getCreditedAmounts(original.id);
+    const toCents = (amount: number) => Math.round(amount * 100);
+    const requested: NonNullable<CreateCreditNoteData['lines']> = data.lines?.length
+      ? data.lines
+      : original.items
+          .filter(item => toCents(item.totalPrice) > toCents(credited.get(item.id) || 0))
+          .map(item => ({ itemId: item.id }));
+
+    if (requested.length === 0) {
+      throw new BillingError(`${original.number} has already been fully credited`, 'CONFLICT');
+    }
+
+    const items: CreditNoteItem[] = requested.map(line => {
+      const item = original.items.find(candidate => candidate.id === line.itemId);
+      if (!item) {
+        throw new BillingError(`Line ${line.itemId} is not on ${original.number}`, 'VALIDATION');
+      }
+
+      const remaining = (toCents(item.totalPrice) - toCents(credited.get(item.id) || 0)) / 100;
+      const amount = line.amount !== undefined
+        ? line.amount
+        : line.quantity !== undefined ? line.quantity * item.unitPrice : remaining;
+
+      if (!Number.isFinite(amount) || toCents(amount) <= 0) {
+        throw new BillingError(`Credit for "${item.description}" must be greater than zero`, 'VALIDATION');
+      }
+      if (toCents(amount) > toCents(remaining)) {
+        throw new BillingError(
+          `Credit of $${amount.toFixed(2)} for "${item.description}" exceeds the $${remaining.toFixed(2)} still creditable`,
+          'VALIDATION',
+          { itemId: item.id, remaining }
+        );
+      }
+      credited.set(item.id, (credited.get(item.id) || 0) + amount);
+
+      const fullLine = toCents(amount) === toCents(item.totalPrice);
+      const quantity = line.quantity ?? (fullLine ? item.quantity : 1);
+      return {
+        id: this.generateId(),
+        originalItemId: item.id,
+        description: item.description,
+        serviceType: item.serviceType,
+        quantity,
+        unitPrice: line.quantity !== undefined || fullLine ? item.unitPrice : toCents(amount) / 100,
+        totalPrice: toCents(amount) / 100,
+        taxes: this.creditTaxes(original, item, amount)
+      };
+    });
+
+    const totals = new Map<string, TaxLine>();
+    for (const tax of items.flatMap(item => item.taxes || [])) {
+      const key = `${tax.code}:${tax.name}`;
+      const total = totals.get(key);
+      if (total) {
+        total.taxableAmount = (toCents(total.taxableAmount) + toCents(tax.taxableAmount)) / 100;
+        total.amount = (toCents(total.amount) + toCents(tax.amount)) / 100;
+      } else {
+        totals.set(key, { ...tax });
+      }
+    }
+
+    const taxBreakdown = Array.from(totals.values());
+    const subtotal = items.reduce((sum, item) => sum + toCents(item.totalPrice), 0) / 100;
+    const taxAmount = taxBreakdown.reduce((sum, tax) => sum + toCents(tax.amount), 0) / 100;
+
+    const creditNote: CreditNote = {
+      id: this.generateId(),
+      creditNoteNumber: '', // Numbered when saved, in the same transaction as the re-check
+      clientId: original.clientId,
+      client,
+      originalDocumentType: data.originalDocumentType,
+      originalDocumentId: original.id,
+      originalDocumentNumber: original.number,
+      items,
+      subtotal,
+      taxAmount,
+      taxBreakdown,
+      taxJurisdiction: original.taxJurisdiction,
+      totalAmount: (toCents(subtotal) + toCents(taxAmount)) / 100,
+      reason: data.reason.trim(),
+      refundMethod: data.refundMethod,
+      issueDate: data.issueDate ? new Date(data.issueDate) : new Date(),
+      status: 'issued',
+      notes: data.notes,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const lineTotals = new Map(original.items.map(item => [item.id, item.totalPrice]));
+    return await this.saveCreditNote(creditNote, lineTotals);
+  }
+
+  async getCreditNoteById(creditNoteId: string): Promise<CreditNote | null> {
+    if (typeof window === 'undefined') {
+      const { getPrismaClient } = await import('./prisma');
+      const prisma = getPrismaClient();
+
+      if (prisma) {
+        const document = await prisma.billingDocument.findUnique({ where: { id: creditNoteId } });
+        if (!document || document.documentType !== 'CREDIT_NOTE') return null;
+
+        const client = await this.getClientById(document.clientId);
+        return client ? this.toCreditNote(document, client) : null;
+      }
+    }
+
+    return this.creditNotes.find(c => c.id === creditNoteId) || null;
+  }
+
+  async getCreditNotes(filters: { clientId?: string; originalDocumentId?: string } = {}): Promise<CreditNote[]> {
+    if (typeof window === 'undefined') {
+      const { getPrismaClient } = await import('./prisma');
+      const { transformClientRecordForResponse } = await import('./json-fields');
+      const prisma = getPrismaClient();
+
+      if (prisma) {
+        const documents = await prisma.billingDocument.findMany({
+          where: {
+            documentType: 'CREDIT_NOTE',
+            ...(filters.clientId && { clientId: filters.clientId }),
+            ...(filters.originalDocumentId && { originalDocumentId: filters.originalDocumentId })
+          },
+          include: { client: true },
+          orderBy: { date: 'desc' }
+        });
+
+        return documents.map(document =>
+          this.toCreditNote(document, transformClientRecordForResponse(document.client))
+        );
+      }
+    }
+
+    return this.creditNotes.filter(c =>
+      (!filters.clientId || c.clientId === filters.clientId) &&
+      (!filters.originalDocumentId || c.originalDocumentId === filters.originalDocumentId)
+    );
+  }
+
+  async markCreditNoteSent(creditNoteId: string): Promise<void> {
+    const sentAt = new Date();
+    if (typeof window === 'undefined') {
+      const { getPrismaClient } = await import('./prisma');
+      const prisma = getPrismaClient();
+
+      if (prisma) {
+        const document = await prisma.billingDocument.findUnique({ where: { id: creditNoteId } });
+        if (!document) return;
+        await prisma.billingDocument.update({
+          where: { id: creditNoteId },
+          data: {
+            sentAt,
+            metadata: { ...(document.metadata as Record<string, unknown> || {}), emailSentAt: sentAt.toISOString() }
+          }
+        });
+        return;
+      }
+    }
+
+    const creditNote = this.creditNotes.find(c => c.id === creditNoteId);
+    if (creditNote) {
+      creditNote.emailSentAt = sentAt;
+    }
+  }
+
+  // Pro-rate the tax charged on the original line. Documents issued before per-line taxes only
+  // have a document-level breakdown, which is apportioned across their taxable lines.
+  private creditTaxes(original: CreditableDocument, item: CreditableDocument['items'][number], amount: number): TaxLine[] {
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    if (item.taxes?.length) {
+      const ratio = amount / item.totalPrice;
+      return item.taxes.map(tax => ({
+        ...tax,
+        taxableAmount: round(tax.taxableAmount * ratio),
+        amount: round(tax.amount * ratio)
+      }));
+    }
+
+    if (!item.taxable || original.taxAmount <= 0 || original.items.some(line => line.taxes?.length)) {
+      return [];
+    }
+
+    const taxableSubtotal = original.items
+      .filter(line => line.taxable)
+      .reduce((sum, line) => sum + line.totalPrice, 0);
+    if (taxableSubtotal <= 0) return [];
+
+    const share = amount / taxableSubtotal;
+    const breakdown: TaxLine[] = original.taxBreakdown?.length
+      ? original.taxBreakdown
+      : [{ code: 'HST', name: 'HST', rate: round(original.taxAmount / taxableSubtotal * 10000) / 10000, taxableAmount: taxableSubtotal, amount: original.taxAmount }];
+
+    return breakdown.map(tax => ({
+      ...tax,
+      taxableAmount: round(amount),
+      amount: round(tax.amount * share)
+    }));
+  }
+
+  // Look up the invoice or receipt being credited. Invoices may be in-memory, a BillingDocument,
+  // or a BillingRecord generated from a service contract (single line).
+  private async getCreditableDocument(
+    type: CreditNote['originalDocumentType'],
+    id: string
+  ): Promise<CreditableDocument | null> {
+    if (type === 'receipt') {
+      const receipt = await this.getReceiptById(id);
+      return receipt && {
+        id: receipt.id,
+        number: receipt.receiptNumber,
+        clientId: receipt.clientId,
+        status: receipt.status,
+        items: receipt.items,
+        taxAmount: receipt.taxAmount,
+        taxBreakdown: receipt.taxBreakdown,
+        taxJurisdiction: receipt.taxJurisdiction
+      };
+    }
+
+    const invoice = await this.getInvoiceById(id);
+    if (invoice) {
+      return {
+        id: invoice.id,
+        number: invoice.invoiceNumber,
+        clientId: invoice.clientId,
+        status: invoice.status,
+        items: invoice.items,
+        taxAmount: invoice.taxAmount,
+        taxBreakdown: invoice.taxBreakdown,
+        taxJurisdiction: invoice.taxJurisdiction
+      };
+    }
+
+    if (typeof window === 'undefined') {
+      const { getPrismaClient } = await import('./prisma');
+      const prisma = getPrismaClient();
+      if (!prisma) return null;
+
+      const document = await prisma.billingDocument.findUnique({ where: { id } });
+      if (document && document.documentType === 'INVOICE') {
+        const metadata = (document.metadata || {}) as { items?: InvoiceItem[]; taxAmount?: number; taxBreakdown?: TaxLine[] };
+        return {
+          id: document.id,
+          number: document.documentNumber,
+          clientId: document.clientId,
+          status: document.status.toLowerCase(),
+          items: Array.isArray(metadata.items) && metadata.items.length > 0
+            ? metadata.items
+            : [{
+                id: document.id,
+                description: document.description || `Invoice ${document.documentNumber}`,
+                serviceType: document.serviceType,
+                quantity: 1,
+                unitPrice: document.amount,
+                totalPrice: document.amount,
+                taxable: false
+              }],
+          taxAmount: metadata.taxAmount || 0,
+          taxBreakdown: metadata.taxBreakdown
+        };
+      }
+
+      const record = await prisma.billingRecord.findUnique({ where: { id }, include: { serviceLine: true } });
+      if (record) {
+        return {
+          id: record.id,
+          number: record.invoiceNumber || record.billingPeriod,
+          clientId: record.clientId,
+          status: record.status.toLowerCase(),
+          items: [{
+            id: record.id,
+            description: record.description,
+            serviceType: record.serviceLine.slug,
+            quantity: 1,
+            unitPrice: record.amount,
+            totalPrice: record.amount,
+            taxable: false
+          }],
+          taxAmount: 0
+        };
+      }
+    }
+
+    return null;
+  }
+
+  // Pre-tax amount already credited against each line of the original document
+  private async getCreditedAmounts(originalDocumentId: string): Promise<Map<string, number>> {
+    const existing = await this.getCreditNotes({ originalDocumentId });
+    const credited = new Map<string, number>();
+
+    existing
+      .filter(creditNote => creditNote.status !== 'void')
+      .flatMap(creditNote => creditNote.items)
+      .forEach(item => credited.set(item.originalItemId, (credited.get(item.originalItemId) || 0) + item.totalPrice));
+
+    return credited;
+  }
+
   // Quote Management
   async createQuote(data: CreateQuoteData): Promise<Quote> {
     // CRITICAL: Always fetch latest client data
@@ -1105,20 +1752,23 @@ class BillingManager {
       totalPrice: item.quantity * item.unitPrice
     }));
 
-    const subtotal = this.calculateSubtotal(items as any); // QuoteItem compatible with calculation
+    const subtotal = this.calculateSubtotal(items);
     const businessRegistered = data.businessRegistered ?? this.businessConfig.isRegistered;
-    const taxAmount = this.calculateTaxForQuote(items, businessRegistered);
+    const taxes = this.calculateTaxesForQuote(items, client, businessRegistered);
+    const taxAmount = taxes.taxAmount;
     const totalAmount = subtotal + taxAmount;
     
     const quote: Quote = {
       id: this.generateId(),
-      quoteNumber: await this.generateQuoteNumber(),
+      quoteNumber: await this.generateQuoteNumber(items[0]?.serviceCategory),
       clientId: data.clientId,
       client: client, // Use fresh client data
       conversationId: data.conversationId,
-      items: items,
+      items: taxes.items,
       subtotal: subtotal,
       taxAmount: taxAmount,
+      taxBreakdown: taxes.taxBreakdown,
+      taxJurisdiction: taxes.jurisdiction,
       totalAmount: totalAmount,
       taxStatus: businessRegistered ? 'applicable' : 'not_applicable',
       businessRegistered: businessRegistered,
@@ -1136,7 +1786,7 @@ class BillingManager {
   }
 
   async updateQuoteStatus(quoteId: string, status: Quote['status']): Promise<Quote> {
-    const quote = this.getQuoteById(quoteId);
+    const quote = await this.getQuoteById(quoteId);
     if (!quote) {
       throw new Error('Quote not found');
     }
@@ -1155,8 +1805,25 @@ class BillingManager {
     return await this.saveQuote(quote);
   }
 
+  // Mark a quote as sent and remember what to set up when the client accepts it online
+  async sendQuoteForAcceptance(quoteId: string, acceptanceOptions: QuoteAcceptanceOptions): Promise<Quote> {
+    const quote = await this.getQuoteById(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+
+    quote.acceptanceOptions = acceptanceOptions;
+    quote.updatedAt = new Date();
+    if (quote.status === 'draft') {
+      quote.status = 'sent';
+      quote.sentAt = new Date();
+    }
+
+    return await this.saveQuote(quote);
+  }
+
   async convertQuoteToInvoice(quoteId: string): Promise<Invoice> {
-    const quote = this.getQuoteById(quoteId);
+    const quote = await this.getQuoteById(quoteId);
     if (!quote) {
       throw new Error('Quote not found');
     }
@@ -1229,17 +1896,65 @@ Cancellation policy: 24 hours notice required.`
     return serviceSpecificTerms[serviceId || ''] || baseTerms;
   }
 
-  private async generateQuoteNumber(): Promise<string> {
-    const year = new Date().getFullYear();
-    const count = this.quotes.filter(q => 
-      q.quoteNumber.startsWith(`QUO-${year}`)
-    ).length + 1;
-    
-    return `QUO-${year}-${count.toString().padStart(3, '0')}`;
+  private async generateQuoteNumber(serviceLine?: string): Promise<string> {
+    return this.nextDocumentNumber('QUO', serviceLine, this.quotes.map(q => q.quoteNumber));
   }
 
+  // Quotes are stored as BillingDocuments so the public acceptance page can load them
   private async saveQuote(quote: Quote): Promise<Quote> {
-    const existingIndex = this.quotes.findIndex(q => q.id === quote.id);
+    try {
+      if (typeof window === 'undefined') {
+        const { getPrismaClient } = await import('./prisma');
+        const prisma = getPrismaClient();
+
+        if (prisma) {
+          const data = {
+            serviceType: quote.items[0]?.serviceCategory || 'creative',
+            amount: quote.totalAmount,
+            description: quote.projectScope,
+            status: QUOTE_STATUS_TO_DB[quote.status],
+            sentAt: quote.sentAt,
+            metadata: JSON.parse(JSON.stringify({
+              items: quote.items,
+              subtotal: quote.subtotal,
+              taxAmount: quote.taxAmount,
+              taxBreakdown: quote.taxBreakdown,
+              taxJurisdiction: quote.taxJurisdiction,
+              taxStatus: quote.taxStatus,
+              businessRegistered: quote.businessRegistered,
+              validUntil: quote.validUntil,
+              notes: quote.notes,
+              terms: quote.terms,
+              projectScope: quote.projectScope,
+              estimatedDuration: quote.estimatedDuration,
+              acceptedAt: quote.acceptedAt,
+              declinedAt: quote.declinedAt,
+              convertedToInvoiceId: quote.convertedToInvoiceId,
+              acceptanceOptions: quote.acceptanceOptions,
+              response: quote.response
+            }))
+          };
+
+          const savedDocument = await prisma.billingDocument.upsert({
+            where: { documentNumber: quote.quoteNumber },
+            create: {
+              ...data,
+              documentNumber: quote.quoteNumber,
+              documentType: 'QUOTE',
+              clientId: quote.clientId,
+              conversationId: quote.conversationId,
+              date: quote.createdAt
+            },
+            update: data
+          });
+          quote.id = savedDocument.id;
+        }
+      }
+    } catch (error) {
+      console.error('[BillingManager] Failed to save quote to database:', error);
+    }
+
+    const existingIndex = this.quotes.findIndex(q => q.quoteNumber === quote.quoteNumber);
     if (existingIndex >= 0) {
       this.quotes[existingIndex] = quote;
     } else {
@@ -1253,10 +1968,125 @@ Cancellation policy: 24 hours notice required.`
     return this.quotes.filter(q => q.clientId === clientId);
   }
 
-  getQuoteById(quoteId: string): Quote | null {
+  async getQuotes(filters: { clientId?: string } = {}): Promise<Quote[]> {
+    if (typeof window === 'undefined') {
+      const { getPrismaClient } = await import('./prisma');
+      const prisma = getPrismaClient();
+
+      if (prisma) {
+        const documents = await prisma.billingDocument.findMany({
+          where: {
+            documentType: 'QUOTE',
+            ...(filters.clientId && { clientId: filters.clientId })
+          },
+          orderBy: { date: 'desc' }
+        });
+
+        const quotes = await Promise.all(documents.map(document => this.toQuote(document)));
+        return quotes.filter((quote): quote is Quote => quote !== null);
+      }
+    }
+
+    return filters.clientId ? this.getQuotesByClientId(filters.clientId) : [...this.quotes];
+  }
+
+  async getQuoteById(quoteId: string): Promise<Quote | null> {
+    try {
+      if (typeof window === 'undefined') {
+        const { getPrismaClient } = await import('./prisma');
+        const prisma = getPrismaClient();
+
+        if (prisma) {
+          const document = await prisma.billingDocument.findUnique({ where: { id: quoteId } });
+          if (document?.documentType === 'QUOTE') {
+            return await this.toQuote(document);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching quote by ID:', error);
+    }
+
     return this.quotes.find(q => q.id === quoteId) || null;
   }
 
+  // Resolve the quote behind a public acceptance link
+  async getQuoteByToken(token: string): Promise<Quote | null> {
+    if (typeof window !== 'undefined' || !token) return null;
+
+    const { getPrismaClient } = await import('./prisma');
+    const prisma = getPrismaClient();
+    if (!prisma) return null;
+
+    const document = await prisma.billingDocument.findUnique({ where: { publicToken: token } });
+    return document?.documentType === 'QUOTE' ? await this.toQuote(document) : null;
+  }
+
+  // Record the client's signed decision. The caller has already claimed the SENT -> ACCEPTED/DECLINED
+  // transition in the database; this fills in the timestamps and signature.
+  async recordQuoteResponse(quote: Quote, response: QuoteResponse): Promise<Quote> {
+    quote.response = response;
+    quote.status = response.decision;
+    quote.updatedAt = new Date();
+    if (response.decision === 'accepted') {
+      quote.acceptedAt = response.signedAt;
+    } else {
+      quote.declinedAt = response.signedAt;
+    }
+
+    return await this.saveQuote(quote);
+  }
+
+  private async toQuote(document: BillingDocumentRow): Promise<Quote | null> {
+    const client = await this.getClientById(document.clientId);
+    if (!client) return null;
+
+    const data = (document.metadata || {}) as StoredDocumentFields<Quote>;
+    const status: Quote['status'] = data.convertedToInvoiceId
+      ? 'converted'
+      : (Object.keys(QUOTE_STATUS_TO_DB) as Quote['status'][]).find(key => QUOTE_STATUS_TO_DB[key] === document.status) || 'draft';
+
+    const quote: Quote = {
+      id: document.id,
+      quoteNumber: document.documentNumber,
+      clientId: document.clientId,
+      client,
+      conversationId: document.conversationId || undefined,
+      items: data.items || [],
+      subtotal: data.subtotal ?? document.amount,
+      taxAmount: data.taxAmount || 0,
+      taxBreakdown: data.taxBreakdown,
+      taxJurisdiction: data.taxJurisdiction,
+      totalAmount: document.amount,
+      taxStatus: data.taxStatus || 'not_applicable',
+      businessRegistered: data.businessRegistered ?? false,
+      validUntil: new Date(data.validUntil || document.date),
+      status,
+      notes: data.notes,
+      terms: data.terms,
+      projectScope: data.projectScope,
+      estimatedDuration: data.estimatedDuration,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt,
+      sentAt: document.sentAt || undefined,
+      acceptedAt: data.acceptedAt ? new Date(data.acceptedAt) : undefined,
+      declinedAt: data.declinedAt ? new Date(data.declinedAt) : undefined,
+      convertedToInvoiceId: data.convertedToInvoiceId,
+      acceptanceOptions: data.acceptanceOptions,
+      response: data.response && { ...data.response, signedAt: new Date(data.response.signedAt) }
+    };
+
+    // Keep the in-memory copy in step for the synchronous getters
+    const existingIndex = this.quotes.findIndex(q => q.quoteNumber === quote.quoteNumber);
+    if (existingIndex >= 0) {
+      this.quotes[existingIndex] = quote;
+    } else {
+      this.quotes.push(quote);
+    }
+
+    return quote;
+  }
+
   getExpiredQuotes(): Quote[] {
     const now = new Date();
     return this.quotes.filter(q => 
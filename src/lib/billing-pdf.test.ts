@@ -0,0 +1,91 @@
+// src/lib/billing-pdf.test.ts
+
+import { inflateSync } from "zlib";
+import { renderInvoicePDF, renderQuotePDF } from "./billing-pdf";
+import type { Invoice, Quote } from "../types/billing";
+import type { Client } from "../types/client";
+
+const client = {
+  id: "client-1",
+  name: "Jane Smith",
+  email: "jane@example.com",
+  serviceId: "landscaping",
+  status: "active",
+  tags: [],
+  serviceTypes: [],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+} as Client;
+
+const items = [
+  { id: "item-1", description: "Spring cleanup", serviceType: "landscaping", quantity: 1, unitPrice: 200, totalPrice: 200, taxable: true },
+];
+
+// Page content streams are the only /FlateDecode streams without an image dictionary
+function pageText(pdf: Buffer): string {
+  const source = pdf.toString("latin1");
+  const pattern = /<< \/Filter \/FlateDecode\s+\/Length (\d+) >>\nstream\n/g;
+  const pages: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const start = match.index + match[0].length;
+    pages.push(inflateSync(pdf.subarray(start, start + Number(match[1]))).toString("latin1"));
+  }
+  return pages.join("\n");
+}
+
+describe("Billing PDFs", () => {
+  it("should render an invoice as PDF bytes with its balance due", () => {
+    const invoice = {
+      id: "invoice-1",
+      invoiceNumber: "INV-2026-001",
+      clientId: client.id,
+      client,
+      items,
+      subtotal: 200,
+      taxAmount: 26,
+      totalAmount: 226,
+      dueDate: new Date("2026-04-30"),
+      paymentTerms: "net30",
+      status: "partial",
+      createdAt: new Date("2026-03-31"),
+      updatedAt: new Date("2026-03-31"),
+      amountPaid: 100,
+      balanceDue: 126,
+    } as Invoice;
+
+    const pdf = renderInvoicePDF(invoice);
+    const text = pageText(pdf);
+
+    expect(pdf.subarray(0, 8).toString("latin1")).toBe("%PDF-1.4");
+    expect(pdf.toString("latin1").trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(text).toContain("INV-2026-001");
+    expect(text).toContain("Balance Due");
+    expect(text).toContain("126.00");
+  });
+
+  it("should render a quote with its validity date", () => {
+    const quote = {
+      id: "quote-1",
+      quoteNumber: "QUO-2026-001",
+      clientId: client.id,
+      client,
+      items: [{ description: "Spring cleanup", serviceCategory: "landscaping", quantity: 1, unitPrice: 200, totalPrice: 200 }],
+      subtotal: 200,
+      taxAmount: 0,
+      totalAmount: 200,
+      taxStatus: "not_applicable",
+      businessRegistered: false,
+      validUntil: new Date("2026-05-15T12:00:00"),
+      status: "sent",
+      createdAt: new Date("2026-04-01T12:00:00"),
+      updatedAt: new Date("2026-04-01T12:00:00"),
+    } as unknown as Quote;
+
+    const text = pageText(renderQuotePDF(quote));
+
+    expect(text).toContain("QUO-2026-001");
+    expect(text).toContain("Valid Until");
+    expect(text).toContain("Quote Total");
+  });
+});
@@ -0,0 +1,394 @@
+// src/lib/billing-pdf.ts
+// Server-only: renders receipts, invoices, quotes and credit notes to PDF bytes with per-service-line branding.
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { Receipt, Invoice, Quote, CreditNote, TaxLine } from '../types/billing';
+import { getServiceById } from './service-config';
+import { getServiceEmailConfig, resolveServiceLineId } from './service-email-config';
+import { PDFDocumentWriter, PDFRGB, PAGE_WIDTH, hexToRGB } from './pdf-document';
+import { formatTaxLabel } from './tax-engine';
+
+export interface BillingBranding {
+  serviceLineId: string;
+  name: string;
+  description: string;
+  domain: string;
+  primaryColor: string;
+  signature: string;
+  logo: Buffer | null;
+}
+
+interface BillingPDFLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+interface BillingPDFLayout {
+  title: string;
+  documentNumber: string;
+  branding: BillingBranding;
+  billTo: string[];
+  details: Array<[string, string]>;
+  items: BillingPDFLine[];
+  totals: Array<{ label: string; amount: number; emphasis?: boolean }>;
+  status?: { label: string; color: PDFRGB };
+  sections: Array<{ heading: string; body: string }>;
+}
+
+const MARGIN = 40;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const PAGE_BOTTOM = 720;
+const WHITE: PDFRGB = [1, 1, 1];
+const TEXT: PDFRGB = [0.2, 0.2, 0.2];
+const MUTED: PDFRGB = [0.45, 0.45, 0.45];
+const RULE: PDFRGB = [0.85, 0.85, 0.85];
+
+const STATUS_COLORS: Record<string, string> = {
+  paid: '#28a745',
+  accepted: '#28a745',
+  overdue: '#dc3545',
+  declined: '#dc3545',
+  sent: '#ffc107',
+  partial: '#17a2b8',
+  issued: '#17a2b8',
+  draft: '#6c757d',
+  void: '#6c757d'
+};
+
+const logoCache = new Map<string, Buffer | null>();
+
+// Only PNG logos can be embedded; SVG brand assets are skipped
+function loadLogo(candidates: Array<string | undefined>): Buffer | null {
+  for (const candidate of candidates) {
+    if (!candidate || !candidate.toLowerCase().endsWith('.png')) continue;
+
+    if (!logoCache.has(candidate)) {
+      const filePath = path.join(process.cwd(), 'public', candidate.replace(/^\//, ''));
+      try {
+        logoCache.set(candidate, existsSync(filePath) ? readFileSync(filePath) : null);
+      } catch (error) {
+        console.warn('[BillingPDF] Failed to read logo:', filePath, error);
+        logoCache.set(candidate, null);
+      }
+    }
+
+    const logo = logoCache.get(candidate);
+    if (logo) return logo;
+  }
+  return null;
+}
+
+// Resolve branding from a service line slug or service type (e.g. 'snow_removal' -> White Knight)
+export function getBillingBranding(serviceType?: string): BillingBranding {
+  const normalized = serviceType?.toLowerCase().trim();
+  const serviceLineId =
+    resolveServiceLineId(normalized) ||
+    (normalized && getServiceById(normalized) ? normalized : undefined) ||
+    'creative';
+
+  const service = getServiceById(serviceLineId) || getServiceById('creative')!;
+  const emailConfig = getServiceEmailConfig(serviceLineId);
+
+  return {
+    serviceLineId,
+    name: service.name,
+    description: service.description,
+    domain: service.domain,
+    primaryColor: service.brand.primaryColor,
+    signature: service.defaultEmailSignature,
+    // Logos sit on the coloured header band, so prefer the inverse artwork
+    logo: loadLogo([emailConfig.logoInversePath, service.brand.logo, emailConfig.logoPath])
+  };
+}
+
+const formatCurrency = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount || 0).toFixed(2)}`;
+const formatDate = (date: Date | string | undefined) =>
+  date
+    ? new Date(date).toLocaleDateString('en-CA', { year: 'numeric', month: 'long', day: 'numeric' })
+    : '';
+const formatLabel = (value: string) => value.replace(/_/g, ' ').toUpperCase();
+
+function clientLines(client: Receipt['client']): string[] {
+  return [client?.name, client?.company, client?.email, client?.phone].filter(
+    (line): line is string => Boolean(line)
+  );
+}
+
+function statusBadge(status: string): BillingPDFLayout['status'] {
+  return { label: status.toUpperCase(), color: hexToRGB(STATUS_COLORS[status] || STATUS_COLORS.draft) };
+}
+
+// One totals row per tax (GST + PST, HST, ...); documents issued before the tax engine only have taxAmount
+function taxTotals(
+  document: { taxAmount: number; taxBreakdown?: TaxLine[] },
+  fallbackLabel = 'Tax (HST)'
+): BillingPDFLayout['totals'] {
+  if (document.taxBreakdown?.length) {
+    return document.taxBreakdown.map(tax => ({ label: formatTaxLabel(tax), amount: tax.amount }));
+  }
+  return [{ label: fallbackLabel, amount: document.taxAmount }];
+}
+
+// Explains untaxed lines, e.g. "Client tax exempt (#12345)"
+function taxExemptionNote(items: Array<{ taxExemptReason?: string }>): string {
+  return Array.from(new Set(items.map(item => item.taxExemptReason).filter(Boolean))).join('\n');
+}
+
+function renderLayout(layout: BillingPDFLayout): Buffer {
+  const { branding } = layout;
+  const accent = hexToRGB(branding.primaryColor, [0.83, 0.69, 0.22]);
+  const pdf = new PDFDocumentWriter(`${layout.title} ${layout.documentNumber}`);
+
+  const drawPageFrame = () => {
+    pdf.rect(0, 0, PAGE_WIDTH, 96, { fill: accent });
+
+    let nameX = MARGIN;
+    if (branding.logo && pdf.image(branding.logo, MARGIN, 18, 110, 60)) {
+      nameX = MARGIN + 124;
+    }
+    pdf.text(nameX, 24, branding.name, { font: 'bold', size: 16, color: WHITE });
+    pdf.text(nameX, 46, branding.description, { size: 10, color: WHITE });
+    pdf.text(nameX, 62, branding.domain, { size: 9, color: WHITE });
+
+    pdf.text(CONTENT_RIGHT, 24, layout.title, { font: 'bold', size: 20, color: WHITE, align: 'right' });
+    pdf.text(CONTENT_RIGHT, 52, layout.documentNumber, { size: 11, color: WHITE, align: 'right' });
+
+    pdf.line(MARGIN, 752, CONTENT_RIGHT, 752, { stroke: RULE });
+    pdf.text(MARGIN, 758, `${branding.name} | ${branding.domain}`, { size: 8, color: MUTED });
+    pdf.text(CONTENT_RIGHT, 758, `Generated ${formatDate(new Date())}`, { size: 8, color: MUTED, align: 'right' });
+  };
+
+  const newPage = (): number => {
+    pdf.addPage();
+    drawPageFrame();
+    return 116;
+  };
+
+  drawPageFrame();
+  let y = 120;
+
+  // Bill-to block (left) and document details (right)
+  pdf.text(MARGIN, y, 'BILL TO', { font: 'bold', size: 9, color: MUTED });
+  layout.billTo.forEach((line, index) => {
+    pdf.text(MARGIN, y + 14 + index * 14, line, { font: index === 0 ? 'bold' : 'regular', size: 10 });
+  });
+
+  layout.details.forEach(([label, value], index) => {
+    const rowY = y + index * 14;
+    pdf.text(CONTENT_RIGHT - 150, rowY, `${label}:`, { font: 'bold', size: 9, color: MUTED, align: 'right' });
+    pdf.text(CONTENT_RIGHT, rowY, value, { size: 10, align: 'right' });
+  });
+
+  let blockBottom = y + Math.max(layout.billTo.length + 1, layout.details.length) * 14;
+  if (layout.status) {
+    const badgeWidth = pdf.measureText(layout.status.label, 'bold', 9) + 16;
+    pdf.rect(CONTENT_RIGHT - badgeWidth, blockBottom + 4, badgeWidth, 18, { fill: layout.status.color });
+    pdf.text(CONTENT_RIGHT - badgeWidth / 2, blockBottom + 8, layout.status.label, {
+      font: 'bold', size: 9, color: WHITE, align: 'center'
+    });
+    blockBottom += 26;
+  }
+  y = blockBottom + 20;
+
+  // Line items
+  const columns = { description: MARGIN + 8, quantity: 380, unitPrice: 470, total: CONTENT_RIGHT - 8 };
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y, CONTENT_RIGHT - MARGIN, 22, { fill: [0.96, 0.96, 0.96] });
+    pdf.text(columns.description, y + 7, 'DESCRIPTION', { font: 'bold', size: 9 });
+    pdf.text(columns.quantity, y + 7, 'QTY', { font: 'bold', size: 9, align: 'right' });
+    pdf.text(columns.unitPrice, y + 7, 'UNIT PRICE', { font: 'bold', size: 9, align: 'right' });
+    pdf.text(columns.total, y + 7, 'TOTAL', { font: 'bold', size: 9, align: 'right' });
+    y += 28;
+  };
+  drawTableHeader();
+
+  for (const item of layout.items) {
+    const lines = pdf.wrapText(item.description || 'Service', 290, 'regular', 10);
+    const rowHeight = lines.length * 13 + 8;
+    if (y + rowHeight > PAGE_BOTTOM) {
+      y = newPage();
+      drawTableHeader();
+    }
+
+    lines.forEach((line, index) => pdf.text(columns.description, y + index * 13, line, { size: 10 }));
+    pdf.text(columns.quantity, y, String(item.quantity), { size: 10, align: 'right' });
+    pdf.text(columns.unitPrice, y, formatCurrency(item.unitPrice), { size: 10, align: 'right' });
+    pdf.text(columns.total, y, formatCurrency(item.totalPrice), { size: 10, align: 'right' });
+    y += rowHeight;
+    pdf.line(MARGIN, y - 4, CONTENT_RIGHT, y - 4, { stroke: RULE, lineWidth: 0.5 });
+  }
+
+  // Totals
+  y += 8;
+  if (y + layout.totals.length * 20 > PAGE_BOTTOM) y = newPage();
+  for (const total of layout.totals) {
+    if (total.emphasis) {
+      pdf.line(CONTENT_RIGHT - 200, y - 4, CONTENT_RIGHT, y - 4, { stroke: accent, lineWidth: 1.5 });
+    }
+    const options = { font: total.emphasis ? ('bold' as const) : ('regular' as const), size: total.emphasis ? 13 : 10 };
+    pdf.text(CONTENT_RIGHT - 110, y, total.label, { ...options, align: 'right' });
+    pdf.text(CONTENT_RIGHT - 8, y, formatCurrency(total.amount), { ...options, align: 'right' });
+    y += total.emphasis ? 24 : 18;
+  }
+
+  // Notes, terms and other free text
+  y += 12;
+  for (const section of layout.sections) {
+    if (!section.body.trim()) continue;
+    const lines = pdf.wrapText(section.body, CONTENT_RIGHT - MARGIN, 'regular', 9);
+    if (y + 18 + lines.length * 12 > PAGE_BOTTOM) y = newPage();
+
+    pdf.text(MARGIN, y, section.heading.toUpperCase(), { font: 'bold', size: 9, color: accent });
+    y += 14;
+    lines.forEach(line => {
+      pdf.text(MARGIN, y, line, { size: 9, color: TEXT });
+      y += 12;
+    });
+    y += 10;
+  }
+
+  // Service line signature
+  const signatureLines = branding.signature.split('\n');
+  if (y + signatureLines.length * 13 + 10 > PAGE_BOTTOM) y = newPage();
+  y += 6;
+  signatureLines.forEach((line, index) => {
+    pdf.text(MARGIN, y, line, { font: index === 1 ? 'bold' : 'regular', size: 10, color: TEXT });
+    y += 13;
+  });
+
+  return pdf.toBuffer();
+}
+
+export function renderReceiptPDF(receipt: Receipt): Buffer {
+  const branding = getBillingBranding(receipt.items[0]?.serviceType || receipt.client?.serviceId);
+
+  return renderLayout({
+    title: 'RECEIPT',
+    documentNumber: receipt.receiptNumber,
+    branding,
+    billTo: clientLines(receipt.client),
+    details: [
+      ['Receipt #', receipt.receiptNumber],
+      ['Service Date', formatDate(receipt.serviceDate)],
+      ['Payment Date', formatDate(receipt.paymentDate)],
+      ['Payment Method', formatLabel(receipt.paymentMethod)]
+    ],
+    items: receipt.items,
+    totals: [
+      { label: 'Subtotal', amount: receipt.subtotal },
+      ...taxTotals(receipt),
+      { label: 'Total Paid', amount: receipt.totalAmount, emphasis: true }
+    ],
+    status: statusBadge(receipt.status === 'draft' ? 'draft' : 'paid'),
+    sections: [
+      { heading: 'Notes', body: receipt.notes || '' },
+      { heading: 'Tax Exemptions', body: taxExemptionNote(receipt.items) },
+      { heading: 'Thank you', body: 'Thank you for your business! Please keep this receipt for your records.' }
+    ]
+  });
+}
+
+export function renderInvoicePDF(invoice: Invoice): Buffer {
+  const branding = getBillingBranding(invoice.items[0]?.serviceType || invoice.client?.serviceId);
+
+  return renderLayout({
+    title: 'INVOICE',
+    documentNumber: invoice.invoiceNumber,
+    branding,
+    billTo: clientLines(invoice.client),
+    details: [
+      ['Invoice #', invoice.invoiceNumber],
+      ['Issue Date', formatDate(invoice.createdAt)],
+      ['Due Date', formatDate(invoice.dueDate)],
+      ['Payment Terms', formatLabel(invoice.paymentTerms)]
+    ],
+    items: invoice.items,
+    totals: [
+      { label: 'Subtotal', amount: invoice.subtotal },
+      ...taxTotals(invoice),
+      ...(invoice.amountPaid
+        ? [
+            { label: 'Total', amount: invoice.totalAmount },
+            { label: 'Paid to Date', amount: -invoice.amountPaid },
+            { label: 'Balance Due', amount: invoice.balanceDue ?? invoice.totalAmount - invoice.amountPaid, emphasis: true }
+          ]
+        : [{ label: 'Amount Due', amount: invoice.totalAmount, emphasis: true }])
+    ],
+    status: statusBadge(invoice.status),
+    sections: [
+      {
+        heading: 'Payment Information',
+        body: `${invoice.status === 'overdue' ? 'This invoice is overdue. Please remit payment immediately. ' : ''}Please include the invoice number (${invoice.invoiceNumber}) with your payment.`
+      },
+      { heading: 'Notes', body: invoice.notes || '' },
+      { heading: 'Tax Exemptions', body: taxExemptionNote(invoice.items) }
+    ]
+  });
+}
+
+export function renderQuotePDF(quote: Quote): Buffer {
+  const branding = getBillingBranding(quote.items[0]?.serviceCategory || quote.client?.serviceId);
+
+  return renderLayout({
+    title: 'QUOTE',
+    documentNumber: quote.quoteNumber,
+    branding,
+    billTo: clientLines(quote.client),
+    details: [
+      ['Quote #', quote.quoteNumber],
+      ['Issue Date', formatDate(quote.createdAt)],
+      ['Valid Until', formatDate(quote.validUntil)],
+      ...(quote.estimatedDuration ? [['Est. Duration', quote.estimatedDuration] as [string, string]] : [])
+    ],
+    items: quote.items,
+    totals: [
+      { label: 'Subtotal', amount: quote.subtotal },
+      ...taxTotals(quote, quote.taxStatus === 'applicable' ? 'Tax (HST)' : 'Tax (N/A)'),
+      { label: 'Quote Total', amount: quote.totalAmount, emphasis: true }
+    ],
+    status: statusBadge(quote.status),
+    sections: [
+      { heading: 'Project Scope', body: quote.projectScope || '' },
+      { heading: 'Notes', body: quote.notes || '' },
+      { heading: 'Tax Exemptions', body: taxExemptionNote(quote.items) },
+      { heading: 'Terms', body: quote.terms || '' }
+    ]
+  });
+}
+
+export function renderCreditNotePDF(creditNote: CreditNote): Buffer {
+  const branding = getBillingBranding(creditNote.items[0]?.serviceType || creditNote.client?.serviceId);
+  const original = `${creditNote.originalDocumentType === 'receipt' ? 'Receipt' : 'Invoice'} ${creditNote.originalDocumentNumber}`;
+
+  return renderLayout({
+    title: 'CREDIT NOTE',
+    documentNumber: creditNote.creditNoteNumber,
+    branding,
+    billTo: clientLines(creditNote.client),
+    details: [
+      ['Credit Note #', creditNote.creditNoteNumber],
+      ['Issue Date', formatDate(creditNote.issueDate)],
+      ['Credits', original],
+      ...(creditNote.refundMethod ? [['Refund Method', formatLabel(creditNote.refundMethod)] as [string, string]] : [])
+    ],
+    items: creditNote.items,
+    totals: [
+      { label: 'Subtotal', amount: creditNote.subtotal },
+      ...taxTotals(creditNote),
+      { label: 'Total Credit', amount: creditNote.totalAmount, emphasis: true }
+    ],
+    status: statusBadge(creditNote.status),
+    sections: [
+      { heading: 'Reason', body: creditNote.reason },
+      {
+        heading: creditNote.refundMethod ? 'Refund' : 'Account Credit',
+        body: creditNote.refundMethod
+          ? `${formatCurrency(creditNote.totalAmount)} has been refunded by ${formatLabel(creditNote.refundMethod).toLowerCase()}.`
+          : `${formatCurrency(creditNote.totalAmount)} has been credited against ${original}.`
+      },
+      { heading: 'Notes', body: creditNote.notes || '' }
+    ]
+  });
+}
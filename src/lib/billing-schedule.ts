@@ -0,0 +1,448 @@
+// src/lib/billing-schedule.ts
+// Billing schedule engine - turns active ClientServiceContracts into draft invoices
+// (BillingRecords) on their cadence and moves contract.nextScheduled forward.
+// Runs are idempotent: every generated record carries a unique scheduleKey.
+import { Prisma, ClientServiceContract, ServiceFrequency } from '@prisma/client';
+import { getPrismaClient } from './prisma';
+import { logInvoiceCreated } from './activity-logger';
+import { allocateDocumentNumber } from './document-numbering';
+import {
+  BillingCadence,
+  BillingScheduleConfig,
+  BillingScheduleRunResult,
+  ScheduledInvoice,
+  SnowDispatchConfig
+} from '../types/billing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+const DEFAULT_PREVIEW_MONTHS = 3;
+const MAX_OCCURRENCES = 400; // Safety net for open-ended weekly contracts
+const MAX_CATCH_UP_PER_RUN = 12; // Missed periods billed per contract per run
+
+const FREQUENCY_CADENCE: Partial<Record<ServiceFrequency, BillingCadence>> = {
+  WEEKLY: 'weekly',
+  BI_WEEKLY: 'bi_weekly',
+  MONTHLY: 'monthly',
+  SEASONAL: 'seasonal'
+};
+
+interface BillingPlan {
+  cadence: BillingCadence;
+  anchor: Date;
+  termEnd?: Date;
+  totalValue: number;
+  amountPerInvoice?: number;
+  instalments?: number; // Fixed number of invoices (seasonal, or any cadence with an end date)
+  season?: string;
+  paymentTermsDays: number;
+}
+
+interface Occurrence {
+  index: number;
+  periodStart: Date;
+  periodEnd: Date;
+  amount: number;
+  billingPeriod: string;
+}
+
+// All date math is done in UTC so schedules don't drift with the server timezone
+function startOfDayUTC(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDaysUTC(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Adds calendar months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28)
+function addMonthsUTC(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), daysInMonth));
+  return target;
+}
+
+function monthsBetween(start: Date, end: Date): number {
+  return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth() + 1;
+}
+
+function periodStartFor(plan: BillingPlan, index: number): Date {
+  switch (plan.cadence) {
+    case 'weekly':
+      return addDaysUTC(plan.anchor, index * 7);
+    case 'bi_weekly':
+      return addDaysUTC(plan.anchor, index * 14);
+    case 'monthly':
+    case 'seasonal':
+      return addMonthsUTC(plan.anchor, index);
+  }
+}
+
+// Splits a total into n instalments in cents; the last instalment absorbs the rounding remainder
+function instalmentAmount(total: number, count: number, index: number): number {
+  const totalCents = Math.round(total * 100);
+  const base = Math.floor(totalCents / count);
+  return (index === count - 1 ? totalCents - base * (count - 1) : base) / 100;
+}
+
+function formatShortDate(date: Date, withYear = false): string {
+  return date.toLocaleDateString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    ...(withYear && { year: 'numeric' }),
+    timeZone: 'UTC'
+  });
+}
+
+function periodLabel(plan: BillingPlan, index: number, periodStart: Date, periodEnd: Date): string {
+  switch (plan.cadence) {
+    case 'monthly':
+      return periodStart.toLocaleDateString('en-CA', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    case 'weekly':
+    case 'bi_weekly':
+      return `${formatShortDate(periodStart)} - ${formatShortDate(periodEnd, true)}`;
+    case 'seasonal':
+      return `${plan.season ? `${plan.season} - ` : ''}Instalment ${index + 1} of ${plan.instalments}`;
+  }
+}
+
+function asObject(value: Prisma.JsonValue | null): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Work out how (and whether) a contract is billed on a schedule. Returns { skip } with a reason
+ * for contracts that are billed per visit or by hand.
+ *
+ * - WEEKLY / BI_WEEKLY / MONTHLY contracts bill every period from startDate. With an endDate the
+ *   contractValue is split across the term, otherwise contractValue is billed each period.
+ * - SEASONAL contracts - and flat-fee AS_NEEDED contracts with a season and start/end dates, like
+ *   "Winter 2024-2025" snow contracts - are billed in monthly instalments across the season.
+ * - billingDetails.schedule (BillingScheduleConfig) overrides any of the above.
+ * - Snow contracts with a per-visit rate (billingDetails.snow) are skipped unless the schedule
+ *   sets a cadence - snow dispatch bills their visits.
+ */
+export function resolveBillingPlan(contract: ClientServiceContract): BillingPlan | { skip: string } {
+  const config = (asObject(contract.billingDetails).schedule || {}) as BillingScheduleConfig;
+  const seasonalInfo = asObject(contract.seasonalInfo);
+  const season = (typeof seasonalInfo.season === 'string' && seasonalInfo.season) || contract.period || undefined;
+
+  if (config.enabled === false) return { skip: 'Scheduled billing disabled for this contract' };
+  // Storm visits are invoiced by snow dispatch as they are completed
+  if ((asObject(contract.billingDetails).snow as SnowDispatchConfig | undefined)?.perVisitRate && !config.cadence) {
+    return { skip: 'Billed per visit by snow dispatch' };
+  }
+  if (!contract.contractValue || contract.contractValue <= 0) return { skip: 'Contract has no contract value' };
+
+  let cadence = config.cadence || (contract.frequency ? FREQUENCY_CADENCE[contract.frequency] : undefined);
+  if (!cadence && (!contract.frequency || contract.frequency === 'AS_NEEDED') &&
+      season && contract.startDate && contract.endDate) {
+    cadence = 'seasonal';
+  }
+  if (!cadence) return { skip: `Frequency ${contract.frequency || 'unset'} is not billed on a schedule` };
+
+  const anchor = startOfDayUTC(contract.startDate || contract.createdAt);
+  const termEnd = contract.endDate ? startOfDayUTC(contract.endDate) : undefined;
+  const plan: BillingPlan = {
+    cadence,
+    anchor,
+    termEnd,
+    totalValue: contract.contractValue,
+    amountPerInvoice: config.amountPerInvoice,
+    season,
+    paymentTermsDays: config.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS
+  };
+
+  if (cadence === 'seasonal') {
+    if (!config.instalments && !termEnd) return { skip: 'Seasonal contract needs an end date or instalment count' };
+    plan.instalments = Math.max(1, config.instalments || monthsBetween(anchor, termEnd!));
+  } else if (termEnd) {
+    let count = 0;
+    while (count < MAX_OCCURRENCES && periodStartFor(plan, count) <= termEnd) count++;
+    plan.instalments = Math.max(1, count);
+  }
+
+  return plan;
+}
+
+// Occurrences of a plan whose period starts on or before `until`
+function listOccurrences(plan: BillingPlan, until: Date): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  const limit = plan.instalments ?? MAX_OCCURRENCES;
+
+  for (let index = 0; index < limit; index++) {
+    const periodStart = periodStartFor(plan, index);
+    if (periodStart > until) break;
+
+    let periodEnd = addDaysUTC(periodStartFor(plan, index + 1), -1);
+    if (plan.termEnd && periodEnd > plan.termEnd) periodEnd = plan.termEnd;
+
+    const amount = plan.amountPerInvoice ??
+      (plan.instalments ? instalmentAmount(plan.totalValue, plan.instalments, index) : plan.totalValue);
+
+    occurrences.push({
+      index,
+      periodStart,
+      periodEnd,
+      amount,
+      billingPeriod: periodLabel(plan, index, periodStart, periodEnd)
+    });
+  }
+
+  return occurrences;
+}
+
+function nextOccurrenceAfter(plan: BillingPlan, date: Date): Date | null {
+  const limit = plan.instalments ?? MAX_OCCURRENCES;
+  for (let index = 0; index < limit; index++) {
+    const periodStart = periodStartFor(plan, index);
+    if (periodStart > date) return periodStart;
+  }
+  return null;
+}
+
+function scheduleKeyFor(contractId: string, periodStart: Date): string {
+  return `${contractId}:${periodStart.toISOString().slice(0, 10)}`;
+}
+
+// Occurrences still to be billed: everything from nextScheduled onward, or just the current
+// period for a contract that has never been scheduled (no back-billing of old seasons)
+function pendingOccurrences(
+  contract: ClientServiceContract,
+  plan: BillingPlan,
+  until: Date,
+  asOf: Date
+): Occurrence[] {
+  const occurrences = listOccurrences(plan, until);
+  if (contract.nextScheduled) {
+    const from = startOfDayUTC(contract.nextScheduled);
+    return occurrences.filter(occurrence => occurrence.periodStart >= from);
+  }
+
+  const currentIndex = occurrences.filter(occurrence => occurrence.periodStart <= asOf).length - 1;
+  return currentIndex === -1 ? occurrences : occurrences.slice(currentIndex);
+}
+
+function toScheduledInvoice(
+  contract: ClientServiceContract & { client?: { name: string } | null },
+  plan: BillingPlan,
+  occurrence: Occurrence,
+  asOf: Date,
+  invoicedKeys: Set<string>
+): ScheduledInvoice {
+  const scheduleKey = scheduleKeyFor(contract.id, occurrence.periodStart);
+  return {
+    scheduleKey,
+    contractId: contract.id,
+    clientId: contract.clientId,
+    clientName: contract.client?.name,
+    serviceName: contract.serviceName,
+    cadence: plan.cadence,
+    billingPeriod: occurrence.billingPeriod,
+    periodStart: occurrence.periodStart,
+    periodEnd: occurrence.periodEnd,
+    billingDate: occurrence.periodStart,
+    dueDate: addDaysUTC(occurrence.periodStart, plan.paymentTermsDays),
+    amount: occurrence.amount,
+    instalment: plan.instalments ? occurrence.index + 1 : undefined,
+    instalments: plan.instalments,
+    isDue: occurrence.periodStart <= asOf,
+    alreadyInvoiced: invoicedKeys.has(scheduleKey)
+  };
+}
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+const SCHEDULABLE_CONTRACTS: Prisma.ClientServiceContractWhereInput = {
+  isActive: true,
+  status: { in: ['ONGOING', 'SCHEDULED'] },
+  contractValue: { gt: 0 }
+};
+
+async function findInvoicedKeys(keys: string[]): Promise<Set<string>> {
+  if (keys.length === 0) return new Set();
+  const prisma = requirePrisma();
+  const existing = await prisma.billingRecord.findMany({
+    where: { scheduleKey: { in: keys } },
+    select: { scheduleKey: true }
+  });
+  return new Set(existing.map(record => record.scheduleKey!));
+}
+
+/**
+ * Upcoming scheduled invoices for a client - nothing is written. Includes periods that are due
+ * but not yet invoiced so the preview matches what the next run will create.
+ */
+export async function previewBillingSchedule(
+  clientId: string,
+  options: { until?: Date; asOf?: Date } = {}
+): Promise<ScheduledInvoice[]> {
+  const prisma = requirePrisma();
+  const asOf = options.asOf || new Date();
+  const until = options.until || addMonthsUTC(asOf, DEFAULT_PREVIEW_MONTHS);
+
+  const contracts = await prisma.clientServiceContract.findMany({
+    where: { ...SCHEDULABLE_CONTRACTS, clientId },
+    include: { client: { select: { name: true } } }
+  });
+
+  const previews: Array<{ contract: typeof contracts[number]; plan: BillingPlan; occurrences: Occurrence[] }> = [];
+  for (const contract of contracts) {
+    const plan = resolveBillingPlan(contract);
+    if ('skip' in plan) continue;
+    previews.push({ contract, plan, occurrences: pendingOccurrences(contract, plan, until, asOf) });
+  }
+
+  const invoicedKeys = await findInvoicedKeys(previews.flatMap(({ contract, occurrences }) =>
+    occurrences.map(occurrence => scheduleKeyFor(contract.id, occurrence.periodStart))
+  ));
+
+  return previews
+    .flatMap(({ contract, plan, occurrences }) =>
+      occurrences.map(occurrence => toScheduledInvoice(contract, plan, occurrence, asOf, invoicedKeys))
+    )
+    .sort((a, b) => a.billingDate.getTime() - b.billingDate.getTime());
+}
+
+/**
+ * Create draft invoices for every contract period that is due as of `asOf`, then advance each
+ * contract's nextScheduled. Safe to call repeatedly (e.g. from a daily cron) - periods that were
+ * already invoiced are skipped via BillingRecord.scheduleKey.
+ */
+export async function runBillingSchedules(
+  options: { asOf?: Date; dryRun?: boolean; clientId?: string } = {}
+): Promise<BillingScheduleRunResult> {
+  const prisma = requirePrisma();
+  const asOf = options.asOf || new Date();
+  const dryRun = options.dryRun === true;
+
+  const result: BillingScheduleRunResult = {
+    asOf,
+    dryRun,
+    contractsProcessed: 0,
+    created: [],
+    skipped: [],
+    errors: []
+  };
+
+  const contracts = await prisma.clientServiceContract.findMany({
+    where: { ...SCHEDULABLE_CONTRACTS, ...(options.clientId && { clientId: options.clientId }) },
+    include: { client: { select: { name: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  for (const contract of contracts) {
+    const plan = resolveBillingPlan(contract);
+    if ('skip' in plan) {
+      result.skipped.push({ contractId: contract.id, reason: plan.skip });
+      continue;
+    }
+
+    result.contractsProcessed++;
+
+    try {
+      const serviceLineId = contract.serviceLineId ||
+        (await prisma.serviceLine.findUnique({ where: { slug: contract.serviceId }, select: { id: true } }))?.id;
+      if (!serviceLineId) {
+        result.skipped.push({ contractId: contract.id, reason: `No service line found for ${contract.serviceId}` });
+        continue;
+      }
+
+      const due = pendingOccurrences(contract, plan, asOf, asOf).slice(0, MAX_CATCH_UP_PER_RUN);
+      const invoicedKeys = await findInvoicedKeys(due.map(occurrence => scheduleKeyFor(contract.id, occurrence.periodStart)));
+
+      for (const occurrence of due) {
+        const scheduled = toScheduledInvoice(contract, plan, occurrence, asOf, invoicedKeys);
+        if (scheduled.alreadyInvoiced) {
+          result.skipped.push({ contractId: contract.id, scheduleKey: scheduled.scheduleKey, reason: 'Already invoiced' });
+          continue;
+        }
+
+        if (dryRun) {
+          result.created.push(scheduled);
+          continue;
+        }
+
+        try {
+          // Same INV sequence as invoices created by hand, keyed to the year being billed. Allocated in
+          // the transaction that saves the record, so a duplicate period gives the number back.
+          const { record, invoiceNumber } = await prisma.$transaction(async (tx) => {
+            const invoiceNumber = await allocateDocumentNumber('INV', {
+              serviceLine: contract.serviceId,
+              year: scheduled.billingDate.getUTCFullYear(),
+              tx
+            });
+            const record = await tx.billingRecord.create({
+              data: {
+                clientId: contract.clientId,
+                serviceLineId,
+                contractId: contract.id,
+                invoiceNumber,
+                amount: scheduled.amount,
+                billingPeriod: scheduled.billingPeriod,
+                billingDate: scheduled.billingDate,
+                dueDate: scheduled.dueDate,
+                status: 'DRAFT',
+                description: `${contract.serviceName} - ${scheduled.billingPeriod}`,
+                scheduleKey: scheduled.scheduleKey,
+                metadata: {
+                  source: 'billing_schedule',
+                  cadence: plan.cadence,
+                  periodStart: scheduled.periodStart.toISOString(),
+                  periodEnd: scheduled.periodEnd.toISOString(),
+                  ...(scheduled.instalment && { instalment: scheduled.instalment, instalments: scheduled.instalments })
+                }
+              }
+            });
+            return { record, invoiceNumber };
+          });
+
+          result.created.push({ ...scheduled, billingRecordId: record.id, invoiceNumber });
+
+          await logInvoiceCreated({
+            invoiceId: record.id,
+            clientId: contract.clientId,
+            clientName: contract.client?.name || 'client',
+            amount: record.amount
+          });
+        } catch (error) {
+          // A concurrent run created the same period first
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002' &&
+              String(error.meta?.target).includes('scheduleKey')) {
+            result.skipped.push({ contractId: contract.id, scheduleKey: scheduled.scheduleKey, reason: 'Already invoiced' });
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      if (!dryRun) {
+        // After a capped catch-up this can still be in the past; the next run picks up from there
+        const lastBilled = due[due.length - 1]?.periodStart;
+        const nextScheduled = nextOccurrenceAfter(plan, lastBilled || asOf);
+        const currentNext = contract.nextScheduled?.getTime() ?? null;
+        if ((nextScheduled?.getTime() ?? null) !== currentNext) {
+          await prisma.clientServiceContract.update({
+            where: { id: contract.id },
+            data: { nextScheduled }
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`[BillingSchedule] Failed to process contract ${contract.id}:`, error);
+      result.errors.push({
+        contractId: contract.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,347 @@
+/**
+ * CalDAV Client
+ * Minimal RFC 4791 / RFC 6578 client for Fastmail, iCloud, Nextcloud and Radicale calendars:
+ * calendar discovery (PROPFIND), incremental sync (REPORT sync-collection with a sync-token),
+ * time-range queries and PUT/DELETE of VEVENT resources with ETag preconditions
+ */
+
+export interface CalDAVCredentials {
+  serverUrl: string // e.g. https://caldav.fastmail.com, https://caldav.icloud.com, http://localhost:5232
+  username: string
+  password: string // App-specific password
+}
+
+export interface CalDAVCalendar {
+  url: string
+  displayName: string
+  color?: string
+  ctag?: string
+  syncToken?: string
+  supportsEvents: boolean
+}
+
+export interface CalDAVObject {
+  href: string // Absolute URL of the .ics resource
+  etag?: string
+  calendarData?: string
+}
+
+export interface CalDAVSyncChanges {
+  changed: CalDAVObject[]
+  deleted: string[] // hrefs
+  syncToken: string
+}
+
+export class CalDAVError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public body?: string,
+    public retryAfter?: string | null // Retry-After header of a throttled (429/503) response
+  ) {
+    super(message)
+    this.name = 'CalDAVError'
+  }
+
+  // The server no longer accepts our sync-token - start over with a full sync (RFC 6578 3.2)
+  get isInvalidSyncToken(): boolean {
+    return (this.status === 403 || this.status === 409 || this.status === 410) &&
+      /valid-sync-token/.test(this.body || '')
+  }
+
+  // If-Match / If-None-Match failed - someone else changed the resource
+  get isPreconditionFailed(): boolean {
+    return this.status === 412
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404 || this.status === 410
+  }
+}
+
+// Well-known servers for the providers our crews use
+export const CALDAV_SERVERS: Record<string, string> = {
+  fastmail: 'https://caldav.fastmail.com',
+  icloud: 'https://caldav.icloud.com',
+  radicale: 'http://localhost:5232'
+}
+
+const DAV_NS = 'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/" xmlns:ic="http://apple.com/ns/ical/"'
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#13;/g, '\r')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+
+/**
+ * Elements with a given local name, whatever namespace prefix the server chose
+ * (d:href, D:href, href xmlns="DAV:" ...). Good enough for multistatus responses.
+ */
+function elements(xml: string, localName: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>)`, 'g')
+  const found: string[] = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(xml)) !== null) {
+    found.push(match[1] ?? '')
+  }
+  return found
+}
+
+function firstText(xml: string, localName: string): string | undefined {
+  const [value] = elements(xml, localName)
+  return value === undefined ? undefined : decodeXml(value.trim())
+}
+
+function statusCode(xml: string): number | undefined {
+  const status = firstText(xml, 'status')
+  const match = status && /HTTP\/[\d.]+\s+(\d{3})/.exec(status)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * The properties from the 200 OK propstat of a response (a PROPFIND response can also carry
+ * a 404 propstat listing properties the server doesn't have)
+ */
+function okProps(response: string): string {
+  return elements(response, 'propstat')
+    .filter(propstat => (statusCode(propstat) ?? 200) < 300)
+    .join('')
+}
+
+export class CalDAVClient {
+  private readonly serverUrl: string
+  private readonly authorization: string
+
+  constructor(credentials: CalDAVCredentials) {
+    this.serverUrl = credentials.serverUrl.replace(/\/+$/, '')
+    this.authorization = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`
+  }
+
+  /**
+   * Resolve a possibly relative href against the server
+   */
+  resolve(href: string, base = this.serverUrl): string {
+    return new URL(href, base.endsWith('/') ? base : `${base}/`).toString()
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    options: { body?: string; depth?: '0' | '1'; headers?: Record<string, string>; contentType?: string } = {}
+  ): Promise<{ status: number; body: string; headers: Headers }> {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: this.authorization,
+        ...(options.body && { 'Content-Type': options.contentType || 'application/xml; charset=utf-8' }),
+        ...(options.depth && { Depth: options.depth }),
+        ...options.headers
+      },
+      body: options.body,
+      redirect: 'follow'
+    })
+
+    const body = await response.text()
+    if (!response.ok) {
+      throw new CalDAVError(`CalDAV ${method} ${url} failed: ${response.status} ${response.statusText}`, response.status, body, response.headers.get('Retry-After'))
+    }
+    return { status: response.status, body, headers: response.headers }
+  }
+
+  private async propfind(url: string, props: string, depth: '0' | '1'): Promise<Array<{ href: string; props: string }>> {
+    const { body } = await this.request('PROPFIND', url, {
+      depth,
+      body: `<?xml version="1.0" encoding="utf-8"?><d:propfind ${DAV_NS}><d:prop>${props}</d:prop></d:propfind>`
+    })
+    return elements(body, 'response').map(response => ({
+      href: this.resolve(firstText(response, 'href') || '', url),
+      props: okProps(response)
+    }))
+  }
+
+  /**
+   * Find the user's calendar home: /.well-known/caldav -> current-user-principal -> calendar-home-set
+   */
+  async findCalendarHome(): Promise<string> {
+    let principalUrl: string | undefined
+    for (const start of [`${this.serverUrl}/.well-known/caldav`, this.serverUrl]) {
+      try {
+        const [root] = await this.propfind(start, '<d:current-user-principal/>', '0')
+        const href = root && firstText(root.props, 'current-user-principal')
+        if (href) {
+          principalUrl = this.resolve(firstText(href, 'href') || href, start)
+          break
+        }
+      } catch (error) {
+        // Not every server serves /.well-known/caldav - fall through to the server root
+        if (!(error instanceof CalDAVError) || error.status === 401) throw error
+      }
+    }
+
+    if (!principalUrl) {
+      throw new CalDAVError('CalDAV server did not return a current-user-principal', 404)
+    }
+
+    const [principal] = await this.propfind(principalUrl, '<c:calendar-home-set/>', '0')
+    const homeSet = principal && firstText(principal.props, 'calendar-home-set')
+    if (!homeSet) {
+      throw new CalDAVError('CalDAV principal has no calendar-home-set', 404)
+    }
+    return this.resolve(firstText(homeSet, 'href') || homeSet, principalUrl)
+  }
+
+  /**
+   * List calendar collections in the calendar home
+   */
+  async listCalendars(): Promise<CalDAVCalendar[]> {
+    const home = await this.findCalendarHome()
+    const responses = await this.propfind(
+      home,
+      '<d:resourcetype/><d:displayname/><cs:getctag/><d:sync-token/><ic:calendar-color/><c:supported-calendar-component-set/>',
+      '1'
+    )
+
+    return responses
+      .filter(response => /<(?:[\w-]+:)?calendar[\s/>]/.test(elements(response.props, 'resourcetype')[0] || ''))
+      .map(response => {
+        const components = elements(response.props, 'supported-calendar-component-set')[0]
+        return {
+          url: response.href,
+          displayName: firstText(response.props, 'displayname') || response.href,
+          color: firstText(response.props, 'calendar-color'),
+          ctag: firstText(response.props, 'getctag'),
+          syncToken: firstText(response.props, 'sync-token'),
+          // No component set advertised means the collection accepts everything
+          supportsEvents: components === undefined || components === '' || /name="VEVENT"/i.test(components)
+        }
+      })
+  }
+
+  /**
+   * Current sync-token of a calendar collection
+   */
+  async getSyncToken(calendarUrl: string): Promise<string | undefined> {
+    const [collection] = await this.propfind(calendarUrl, '<d:sync-token/><cs:getctag/>', '0')
+    return collection && firstText(collection.props, 'sync-token')
+  }
+
+  private parseObjects(body: string, baseUrl: string): { objects: CalDAVObject[]; deleted: string[] } {
+    const objects: CalDAVObject[] = []
+    const deleted: string[] = []
+
+    for (const response of elements(body, 'response')) {
+      const href = this.resolve(firstText(response, 'href') || '', baseUrl)
+      // The collection itself shows up in some servers' responses
+      if (href.replace(/\/+$/, '') === baseUrl.replace(/\/+$/, '')) continue
+
+      // Removed members come back as a bare response with a 404 status (RFC 6578 3.5)
+      const responseStatus = elements(response, 'propstat').length === 0 ? statusCode(response) : undefined
+      if (responseStatus === 404) {
+        deleted.push(href)
+        continue
+      }
+
+      const props = okProps(response)
+      objects.push({
+        href,
+        etag: firstText(props, 'getetag'),
+        calendarData: firstText(props, 'calendar-data')
+      })
+    }
+
+    return { objects, deleted }
+  }
+
+  /**
+   * Changes since a sync-token (RFC 6578). Without a token the server returns every member.
+   * Calendar data is not included - fetch it with calendarMultiget.
+   */
+  async syncCollection(calendarUrl: string, syncToken?: string): Promise<CalDAVSyncChanges> {
+    const { body } = await this.request('REPORT', calendarUrl, {
+      depth: '1',
+      body: `<?xml version="1.0" encoding="utf-8"?><d:sync-collection ${DAV_NS}>` +
+        `<d:sync-token>${syncToken ? escapeXml(syncToken) : ''}</d:sync-token>` +
+        '<d:sync-level>1</d:sync-level><d:prop><d:getetag/></d:prop></d:sync-collection>'
+    })
+
+    const { objects, deleted } = this.parseObjects(body, calendarUrl)
+    const newToken = elements(body, 'sync-token').pop()
+
+    return {
+      changed: objects,
+      deleted,
+      syncToken: newToken ? decodeXml(newToken.trim()) : syncToken || ''
+    }
+  }
+
+  /**
+   * Fetch calendar data for specific resources
+   */
+  async calendarMultiget(calendarUrl: string, hrefs: string[]): Promise<CalDAVObject[]> {
+    if (hrefs.length === 0) return []
+
+    const { body } = await this.request('REPORT', calendarUrl, {
+      depth: '1',
+      body: `<?xml version="1.0" encoding="utf-8"?><c:calendar-multiget ${DAV_NS}>` +
+        '<d:prop><d:getetag/><c:calendar-data/></d:prop>' +
+        hrefs.map(href => `<d:href>${escapeXml(new URL(href).pathname)}</d:href>`).join('') +
+        '</c:calendar-multiget>'
+    })
+
+    return this.parseObjects(body, calendarUrl).objects.filter(object => object.calendarData)
+  }
+
+  /**
+   * Every VEVENT overlapping a time range (RFC 4791 7.8)
+   */
+  async calendarQuery(calendarUrl: string, start: Date, end: Date): Promise<CalDAVObject[]> {
+    const utc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+    const { body } = await this.request('REPORT', calendarUrl, {
+      depth: '1',
+      body: `<?xml version="1.0" encoding="utf-8"?><c:calendar-query ${DAV_NS}>` +
+        '<d:prop><d:getetag/><c:calendar-data/></d:prop>' +
+        '<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">' +
+        `<c:time-range start="${utc(start)}" end="${utc(end)}"/>` +
+        '</c:comp-filter></c:comp-filter></c:filter></c:calendar-query>'
+    })
+
+    return this.parseObjects(body, calendarUrl).objects.filter(object => object.calendarData)
+  }
+
+  /**
+   * Create or replace a calendar object. Pass etag to only overwrite the version we last saw,
+   * or createOnly to refuse to overwrite anything. Returns the new ETag when the server sends one.
+   */
+  async putObject(
+    href: string,
+    icalendar: string,
+    options: { etag?: string; createOnly?: boolean } = {}
+  ): Promise<string | undefined> {
+    const { headers } = await this.request('PUT', href, {
+      body: icalendar,
+      contentType: 'text/calendar; charset=utf-8',
+      headers: {
+        ...(options.etag && { 'If-Match': options.etag }),
+        ...(options.createOnly && { 'If-None-Match': '*' })
+      }
+    })
+
+    return headers.get('etag') || undefined
+  }
+
+  async deleteObject(href: string, etag?: string): Promise<void> {
+    await this.request('DELETE', href, {
+      headers: etag ? { 'If-Match': etag } : undefined
+    })
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Calendar routing
+ * An account can sync several external calendars (one CalendarIntegration each) - e.g. White
+ * Knight snow runs, Woodgreen jobs and personal time in separate Google calendars. Each one's
+ * mapping rule (CalendarIntegration.mappingRule) decides which local events are pushed to it and
+ * what events imported from it become.
+ *
+ * - No rule, or a rule without criteria: every event goes there (the single-calendar behaviour)
+ * - serviceLines / eventTypes / clientTags: the event has to match every list that is set
+ * - fallback: events no criteria-based calendar of the same user took
+ *
+ * An event already synced to a calendar keeps syncing there even if it no longer matches, so
+ * changing an event never deletes it from a calendar behind the user's back.
+ */
+
+import type { EventType } from '@prisma/client'
+import { getPrismaClient } from '@/lib/prisma'
+import type { UnifiedEvent } from '@/components/EventCreationModal'
+
+export interface CalendarMappingRule {
+  serviceLines?: string[] // ServiceLine slugs, e.g. "whiteknight", "woodgreen"
+  eventTypes?: string[] // "event", "task", "goal", "milestone"
+  clientTags?: string[] // ClientRecord tags
+  fallback?: boolean // Take events that no criteria-based calendar takes
+  importAs?: {
+    type?: EventType // Events created from this calendar get this type...
+    serviceLine?: string // ...and this service line (Event.service)
+  }
+}
+
+interface RoutingContext {
+  serviceLines: string[]
+  clientTags: string[]
+}
+
+const EVENT_TYPES: EventType[] = ['EVENT', 'TASK', 'GOAL', 'MILESTONE']
+
+const toList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) && value.length > 0
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim().toLowerCase())
+    : undefined
+
+/**
+ * Read a stored (or submitted) mapping rule. Returns null for no rule.
+ */
+export function parseMappingRule(value: unknown): CalendarMappingRule | null {
+  const raw = typeof value === 'string' ? safeParse(value) : value
+  if (!raw || typeof raw !== 'object') return null
+
+  const { serviceLines, eventTypes, clientTags, fallback, importAs } = raw as Record<string, unknown>
+  const target = importAs && typeof importAs === 'object' ? importAs as Record<string, unknown> : undefined
+  const importType = typeof target?.type === 'string' ? target.type.toUpperCase() as EventType : undefined
+  const rule: CalendarMappingRule = {
+    serviceLines: toList(serviceLines),
+    eventTypes: toList(eventTypes),
+    clientTags: toList(clientTags),
+    fallback: fallback === true || undefined,
+    importAs: target
+      ? {
+        type: importType && EVENT_TYPES.includes(importType) ? importType : undefined,
+        serviceLine: typeof target.serviceLine === 'string' && target.serviceLine ? target.serviceLine : undefined
+      }
+      : undefined
+  }
+
+  return Object.values(rule).some(value => value !== undefined) ? rule : null
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+function hasCriteria(rule: CalendarMappingRule | null): boolean {
+  return !!rule && !!(rule.serviceLines || rule.eventTypes || rule.clientTags)
+}
+
+/**
+ * Service lines and client tags of an event - from Event.service and the client's contracts
+ */
+async function loadRoutingContext(event: UnifiedEvent): Promise<RoutingContext> {
+  const serviceLines = event.service ? [event.service.toLowerCase()] : []
+  const prisma = getPrismaClient()
+  if (!event.clientId || !prisma) return { serviceLines, clientTags: [] }
+
+  const client = await prisma.clientRecord.findUnique({
+    where: { id: event.clientId },
+    select: {
+      tags: true,
+      serviceContracts: { select: { serviceId: true, serviceLine: { select: { slug: true } } } }
+    }
+  })
+
+  return {
+    serviceLines: [
+      ...serviceLines,
+      ...(client?.serviceContracts || []).flatMap(contract => [contract.serviceId, contract.serviceLine?.slug])
+        .filter((slug): slug is string => !!slug)
+        .map(slug => slug.toLowerCase())
+    ],
+    clientTags: Array.isArray(client?.tags) ? (client.tags as unknown[]).map(tag => String(tag).toLowerCase()) : []
+  }
+}
+
+export function matchesMappingRule(rule: CalendarMappingRule, event: UnifiedEvent, context: RoutingContext): boolean {
+  if (rule.eventTypes && !rule.eventTypes.includes((event.type || 'event').toLowerCase())) return false
+  if (rule.serviceLines && !rule.serviceLines.some(slug => context.serviceLines.some(line => line.includes(slug)))) return false
+  if (rule.clientTags && !rule.clientTags.some(tag => context.clientTags.includes(tag))) return false
+  return true
+}
+
+/**
+ * The integrations an event should be pushed to, out of the user's active pushing integrations
+ */
+export async function routeEvent<T extends { id: string; participantId: string; mappingRule: unknown }>(
+  event: UnifiedEvent,
+  integrations: T[]
+): Promise<T[]> {
+  const rules = new Map(integrations.map(integration => [integration.id, parseMappingRule(integration.mappingRule)]))
+
+  // Every calendar takes everything - nothing to decide (and no lookups)
+  if (![...rules.values()].some(rule => hasCriteria(rule) || rule?.fallback)) return integrations
+
+  const context = await loadRoutingContext(event)
+  const matched = integrations.filter(integration => {
+    const rule = rules.get(integration.id) ?? null
+    return rule && hasCriteria(rule) ? matchesMappingRule(rule, event, context) : !rule?.fallback
+  })
+
+  const claimedBy = new Set(matched
+    .filter(integration => hasCriteria(rules.get(integration.id) ?? null))
+    .map(integration => integration.participantId))
+  const fallbacks = integrations.filter(integration =>
+    rules.get(integration.id)?.fallback && !hasCriteria(rules.get(integration.id) ?? null) && !claimedBy.has(integration.participantId))
+
+  // Calendars the event is already in keep getting its updates
+  const prisma = getPrismaClient()
+  const syncedIds = prisma && event.id
+    ? new Set((await prisma.eventSync.findMany({
+      where: { eventId: event.id, integrationId: { in: integrations.map(integration => integration.id) } },
+      select: { integrationId: true }
+    })).map(sync => sync.integrationId))
+    : new Set<string>()
+
+  const targets = new Set([...matched, ...fallbacks].map(integration => integration.id))
+  return integrations.filter(integration => targets.has(integration.id) || syncedIds.has(integration.id))
+}
+
+/**
+ * Extra columns for an event created from an integration's calendar
+ */
+export function importColumns(integration: { mappingRule?: unknown }): { type?: EventType; service?: string } {
+  const importAs = parseMappingRule(integration.mappingRule)?.importAs
+  return {
+    ...(importAs?.type && { type: importAs.type }),
+    ...(importAs?.serviceLine && { service: importAs.serviceLine })
+  }
+}
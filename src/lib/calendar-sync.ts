@@ -1,13 +1,50 @@
 /**
  * Calendar Sync Service
  * Orchestrates bidirectional synchronization between local events and external calendars
- * (Google Calendar, Notion, etc.)
+ * (Google Calendar, Outlook, Notion, CalDAV, etc.)
  */
 
 import { getPrismaClient } from '@/lib/prisma'
 import { decrypt, encrypt } from '@/lib/encryption'
 import { google } from 'googleapis'
-import type { UnifiedEvent } from '@/components/EventCreationModal'
+import { CalDAVClient, CalDAVError } from '@/lib/caldav-client'
+import { eventToICalendar, parseICalendar, type ParsedVEvent } from '@/lib/icalendar'
+import {
+  GraphCalendarClient,
+  GraphError,
+  convertFromGraphEvent,
+  convertToGraphEvent,
+  getLocalEventId,
+  getOutlookAccessToken,
+  graphToRecurrence
+} from '@/lib/outlook-calendar'
+import {
+  occurrenceDateKey,
+  parseRecurrenceLines,
+  parseRecurrenceProperties,
+  parseStoredRecurrence,
+  parseStoredUnsupportedRecurrence,
+  recurrenceLines,
+  type UnsupportedRecurrence
+} from '@/lib/recurrence'
+import { resolveTimeZone, toUtcInstant, toWallClock } from '@/lib/timezone-utils'
+import { importColumns, routeEvent } from '@/lib/calendar-routing'
+import { SyncJournal, journalSnapshot, type SyncRunSummary, type SyncTrigger } from '@/lib/sync-journal'
+import {
+  applyPicks,
+  matchesRemote,
+  parseSyncConflict,
+  parseSyncSnapshot,
+  threeWayMerge,
+  toSyncSnapshot,
+  type FieldCollision,
+  type FieldPicks,
+  type MergeResult,
+  type SyncConflictData,
+  type SyncSnapshot
+} from '@/lib/sync-merge'
+import type { RecurrenceRule, UnifiedEvent } from '@/components/EventCreationModal'
+import { Prisma } from '@prisma/client'
 import type { CalendarProvider, SyncStatus, SyncOperation } from '@prisma/client'
 
 export interface SyncResult {
@@ -16,6 +53,68 @@ export interface SyncResult {
   externalId?: string
   error?: string
   operation?: string
+  etag?: string // CalDAV / Graph ETag of the version we just wrote
+  conflict?: boolean // The remote copy changed since our last sync, so the write was refused
+  rateLimited?: boolean // The provider throttled us - retry after retryAfterMs, not as a failure
+  retryAfterMs?: number
+}
+
+export interface PullResult {
+  events: UnifiedEvent[]
+  conflicts: ConflictInfo[]
+  error?: unknown // What stopped the pull part way - already on the journal, returned so the caller can retry
+}
+
+// Event columns read from a remote calendar event
+interface RemoteEventFields {
+  title: string
+  description: string
+  startDateTime: string // Wall-clock in timezone
+  endDateTime: string
+  timezone: string | null
+  location: string
+  isAllDay: boolean
+  status: string
+  participants: string[]
+}
+
+// Recurrence of a remote event: rule is unset for a single event; exdates is unset when the
+// provider doesn't report cancelled occurrences (Outlook)
+interface RemoteSeries {
+  rule?: RecurrenceRule
+  unsupportedRule?: string // Verbatim RRULE when rule can't represent it
+  exdates?: string[]
+}
+
+/**
+ * Whether a provider error is a rate limit, with the wait the provider asked for.
+ * Google reports quota errors as 403 rateLimitExceeded as well as 429; Graph, Notion and
+ * CalDAV servers send 429 (or 503) with Retry-After.
+ */
+export function getRateLimit(error: any): { rateLimited: true; retryAfterMs?: number } | null {
+  if (!error) return null
+
+  const status = error instanceof GraphError || error instanceof CalDAVError
+    ? error.status
+    : Number(error.status ?? error.response?.status ?? error.code)
+  const reason = error.errors?.[0]?.reason || error.response?.data?.error?.errors?.[0]?.reason
+  const isRateLimit = status === 429 ||
+    error.code === 'rate_limited' ||
+    (status === 403 && (reason === 'rateLimitExceeded' || reason === 'userRateLimitExceeded')) ||
+    ((error instanceof GraphError || error instanceof CalDAVError) && status === 503 && !!error.retryAfter)
+  if (!isRateLimit) return null
+
+  const retryAfter = error.retryAfter ??
+    error.response?.headers?.['retry-after'] ??
+    error.headers?.get?.('retry-after') ??
+    error.headers?.['retry-after']
+  // Retry-After is either a number of seconds or an HTTP date
+  const seconds = Number(retryAfter)
+  const retryAfterMs = retryAfter == null || retryAfter === ''
+    ? undefined
+    : !isNaN(seconds) ? seconds * 1000 : Math.max(0, new Date(retryAfter).getTime() - Date.now()) || undefined
+
+  return { rateLimited: true, retryAfterMs }
 }
 
 export interface ConflictInfo {
@@ -24,6 +123,7 @@ export interface ConflictInfo {
   remoteVersion: Date
   localChanges: Partial<UnifiedEvent>
   remoteChanges: Partial<UnifiedEvent>
+  collisions: FieldCollision[] // Fields changed differently on both sides
   autoResolvable: boolean
 }
 
@@ -32,11 +132,15 @@ export interface ConflictInfo {
  */
 export class CalendarSyncService {
   /**
-   * Push a local event to all active external calendar integrations
+   * Push a local event to the active external calendars it belongs in - every calendar, unless
+   * mapping rules split events between them (see lib/calendar-routing).
+   * Each push is journaled - into the given run (merged edits a pull sends back), otherwise a run
+   * of its own per calendar.
    */
   static async pushEventToExternalCalendars(
     event: UnifiedEvent,
-    operation: 'create' | 'update' | 'delete' = 'create'
+    operation: 'create' | 'update' | 'delete' = 'create',
+    options: { journal?: SyncJournal; trigger?: SyncTrigger } = {}
   ): Promise<SyncResult[]> {
     const prisma = getPrismaClient()
     if (!prisma) {
@@ -56,44 +160,27 @@ export class CalendarSyncService {
         include: { participant: true }
       })
 
-      console.log(`📅 [CalendarSync] Pushing to ${integrations.length} integration(s)`)
+      // Deletes go wherever the event was synced
+      const targets = operation === 'delete' ? integrations : await routeEvent(event, integrations)
 
-      for (const integration of integrations) {
-        let result: SyncResult
+      console.log(`📅 [CalendarSync] Pushing to ${targets.length} of ${integrations.length} integration(s)`)
 
+      for (const integration of targets) {
+        const journal = options.journal ?? new SyncJournal(integration.id, { trigger: options.trigger ?? 'push' })
         try {
-          if (integration.provider === 'GOOGLE') {
-            result = await this.syncToGoogleCalendar(event, integration, operation)
-          } else if (integration.provider === 'NOTION') {
-            result = await this.syncToNotion(event, integration, operation)
-          } else {
-            result = {
-              success: false,
-              provider: integration.provider,
-              error: `Provider ${integration.provider} not implemented`
-            }
-          }
-
+          const result = await this.syncToProvider(event, integration, operation, journal)
           results.push(result)
 
-          // Track sync in EventSync table
-          if (result.success && result.externalId && event.id) {
-            await this.trackEventSync(
-              event.id,
-              integration.id,
-              integration.provider,
-              result.externalId,
-              'SYNCED'
-            )
-          } else if (!result.success) {
-            await this.trackEventSync(
-              event.id,
-              integration.id,
-              integration.provider,
-              result.externalId || '',
-              'ERROR',
-              result.error
-            )
+          // Throttled - the queue worker retries once the provider lets us
+          if (result.rateLimited) {
+            await this.queueSyncOperation({
+              operation: operation === 'create' ? 'CREATE_EVENT' : operation === 'update' ? 'UPDATE_EVENT' : 'DELETE_EVENT',
+              eventId: event.id,
+              integrationId: integration.id,
+              payload: event as any,
+              priority: 1,
+              scheduledFor: new Date(Date.now() + (result.retryAfterMs ?? 60000))
+            })
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -111,6 +198,8 @@ export class CalendarSyncService {
             payload: event as any,
             priority: 1
           })
+        } finally {
+          if (!options.journal) await journal.finish()
         }
       }
     } catch (error) {
@@ -120,13 +209,125 @@ export class CalendarSyncService {
     return results
   }
 
+  /**
+   * Push a local event to one integration - used by the sync queue worker to retry a write
+   * that failed for that calendar only. Errors are thrown rather than queued.
+   */
+  static async pushEventToIntegration(
+    event: UnifiedEvent,
+    integrationId: string,
+    operation: 'create' | 'update' | 'delete',
+    trigger: SyncTrigger = 'queue'
+  ): Promise<SyncResult> {
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return { success: false, provider: 'UNKNOWN', error: 'Database not available' }
+    }
+
+    const integration = await prisma.calendarIntegration.findUnique({
+      where: { id: integrationId },
+      include: { participant: true }
+    })
+    if (!integration || !integration.isActive || integration.syncDirection === 'IMPORT_ONLY') {
+      return { success: false, provider: integration?.provider || 'UNKNOWN', error: 'Integration not found or not pushing' }
+    }
+
+    const journal = new SyncJournal(integration.id, { trigger })
+    try {
+      return await this.syncToProvider(event, integration, operation, journal)
+    } finally {
+      await journal.finish()
+    }
+  }
+
+  private static async syncToProvider(
+    event: UnifiedEvent,
+    integration: any,
+    operation: 'create' | 'update' | 'delete',
+    journal: SyncJournal
+  ): Promise<SyncResult> {
+    // The remote copy as of the last sync - what this push replaces
+    const previous = event.id ? await this.getEventSync(event.id, integration.id) : null
+    const change = {
+      integrationId: integration.id,
+      direction: 'PUSH' as const,
+      action: operation === 'create' ? 'CREATE' as const : operation === 'update' ? 'UPDATE' as const : 'DELETE' as const,
+      eventId: event.id,
+      externalId: previous?.externalId,
+      title: event.title,
+      before: previous?.baseSnapshot ? { ...parseSyncSnapshot(previous.baseSnapshot) } : null,
+      after: operation === 'delete' ? null : journalSnapshot(event)
+    }
+    // Deletes go to every calendar - only the ones that held the event are a change
+    const journaled = operation !== 'delete' || !!previous
+
+    if (journal.dryRun) {
+      if (journaled) await journal.record({ ...change, applied: false })
+      return { success: true, provider: integration.provider, operation }
+    }
+
+    let result: SyncResult
+    try {
+      if (integration.provider === 'GOOGLE') {
+        result = await this.syncToGoogleCalendar(event, integration, operation)
+      } else if (integration.provider === 'NOTION') {
+        result = await this.syncToNotion(event, integration, operation)
+      } else if (integration.provider === 'CALDAV' || integration.provider === 'APPLE') {
+        result = await this.syncToCalDAV(event, integration, operation)
+      } else if (integration.provider === 'OUTLOOK') {
+        result = await this.syncToOutlook(event, integration, operation)
+      } else {
+        result = {
+          success: false,
+          provider: integration.provider,
+          error: `Provider ${integration.provider} not implemented`
+        }
+      }
+    } catch (error) {
+      if (journaled) await journal.record({ ...change, error: error instanceof Error ? error.message : String(error), applied: false })
+      throw error
+    }
+
+    if (journaled) await journal.record({
+      ...change,
+      externalId: result.externalId || change.externalId,
+      error: result.success ? undefined : result.error || (result.rateLimited ? 'Rate limited' : 'Push failed'),
+      applied: result.success
+    })
+
+    // Track sync in EventSync table
+    if (result.success && result.externalId && event.id) {
+      await this.trackEventSync(
+        event.id,
+        integration.id,
+        integration.provider,
+        result.externalId,
+        'SYNCED',
+        undefined,
+        result.etag
+      )
+    } else if (!result.success) {
+      await this.trackEventSync(
+        event.id,
+        integration.id,
+        integration.provider,
+        result.externalId || '',
+        result.conflict ? 'CONFLICT' : 'ERROR',
+        result.error
+      )
+    }
+
+    return result
+  }
+
   /**
    * Pull events from all active external calendar integrations
    */
   static async pullEventsFromExternalCalendars(
     startDate?: Date,
-    endDate?: Date
-  ): Promise<{ events: UnifiedEvent[]; conflicts: ConflictInfo[] }> {
+    endDate?: Date,
+    trigger: SyncTrigger = 'poll'
+  ): Promise<PullResult> {
     const prisma = getPrismaClient()
     if (!prisma) {
       return { events: [], conflicts: [] }
@@ -134,37 +335,99 @@ export class CalendarSyncService {
 
     const events: UnifiedEvent[] = []
     const conflicts: ConflictInfo[] = []
+    let failure: unknown
 
     try {
       const integrations = await prisma.calendarIntegration.findMany({
         where: {
           isActive: true,
           syncDirection: { in: ['BIDIRECTIONAL', 'IMPORT_ONLY'] }
-        }
+        },
+        include: { participant: true }
       })
 
       console.log(`📅 [CalendarSync] Pulling from ${integrations.length} integration(s)`)
 
       for (const integration of integrations) {
+        const journal = new SyncJournal(integration.id, { trigger })
         try {
-          if (integration.provider === 'GOOGLE') {
-            const result = await this.pullFromGoogleCalendar(integration, startDate, endDate)
-            events.push(...result.events)
-            conflicts.push(...result.conflicts)
-          } else if (integration.provider === 'NOTION') {
-            const result = await this.pullFromNotion(integration, startDate, endDate)
-            events.push(...result.events)
-            conflicts.push(...result.conflicts)
-          }
+          const result = await this.pullFromProvider(integration, journal, startDate, endDate)
+          events.push(...result.events)
+          conflicts.push(...result.conflicts)
+          failure = result.error ?? failure
+          await journal.finish()
         } catch (error) {
           console.error(`📅 [CalendarSync] Error pulling from ${integration.provider}:`, error)
+          failure = error
+          await journal.finish(error)
         }
       }
     } catch (error) {
       console.error('📅 [CalendarSync] Error pulling from external calendars:', error)
+      failure = error
+    }
+
+    return { events, conflicts, error: failure }
+  }
+
+  /**
+   * Pull changes from one integration, e.g. the calendar a push notification was about.
+   * With dryRun nothing is written - the returned run lists the changes a pull would make.
+   */
+  static async pullFromIntegration(
+    integrationId: string,
+    options: { trigger?: SyncTrigger; dryRun?: boolean; startDate?: Date; endDate?: Date } = {}
+  ): Promise<PullResult & { run?: SyncRunSummary }> {
+    const prisma = getPrismaClient()
+    if (!prisma) {
+      return { events: [], conflicts: [] }
+    }
+
+    const integration = await prisma.calendarIntegration.findFirst({
+      where: {
+        id: integrationId,
+        isActive: true,
+        syncDirection: { in: ['BIDIRECTIONAL', 'IMPORT_ONLY'] }
+      },
+      include: { participant: true }
+    })
+    if (!integration) {
+      return { events: [], conflicts: [] }
+    }
+
+    const journal = new SyncJournal(integration.id, {
+      trigger: options.trigger ?? 'webhook',
+      dryRun: options.dryRun,
+      keepEmpty: options.trigger === 'manual' || !!options.dryRun
+    })
+    try {
+      const result = await this.pullFromProvider(integration, journal, options.startDate, options.endDate)
+      return { ...result, run: await journal.finish() }
+    } catch (error) {
+      await journal.finish(error)
+      throw error
     }
+  }
 
-    return { events, conflicts }
+  private static async pullFromProvider(
+    integration: any,
+    journal: SyncJournal,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<PullResult> {
+    switch (integration.provider) {
+      case 'GOOGLE':
+        return this.pullFromGoogleCalendar(integration, journal, startDate, endDate)
+      case 'NOTION':
+        return this.pullFromNotion(integration, journal, startDate, endDate)
+      case 'CALDAV':
+      case 'APPLE':
+        return this.pullFromCalDAV(integration, journal, startDate, endDate)
+      case 'OUTLOOK':
+        return this.pullFromOutlook(integration, journal, startDate, endDate)
+      default:
+        return { events: [], conflicts: [] }
+    }
   }
 
   /**
@@ -229,7 +492,46 @@ export class CalendarSyncService {
       const calendarId = integration.externalId || 'primary'
 
       // Convert event to Google Calendar format
-      const googleEvent = this.convertToGoogleEvent(event)
+      const timeZone = resolveTimeZone(event.timezone, integration.participant?.timezone)
+      const googleEvent = this.convertToGoogleEvent(event, await this.getRecurrenceLines(event, timeZone), timeZone)
+
+      // An edited occurrence of a series is one of the series' instances in Google, not an event of its own
+      if (event.parentEventId && event.originalStartDateTime) {
+        const seriesSync = await this.getEventSync(event.parentEventId, integration.id)
+        if (!seriesSync?.externalId) {
+          return {
+            success: false,
+            provider: 'GOOGLE',
+            error: 'Recurring series not synced to Google Calendar (no sync record)',
+            operation
+          }
+        }
+
+        const instanceId = this.getGoogleInstanceId(seriesSync.externalId, event.originalStartDateTime, !!event.isAllDay, timeZone)
+
+        if (operation === 'delete') {
+          // Deleting an instance cancels that occurrence (Google adds the EXDATE)
+          try {
+            await calendar.events.delete({ calendarId, eventId: instanceId })
+          } catch (apiError: any) {
+            const status = apiError?.code || apiError?.response?.status
+            if (status !== 404 && status !== 410) throw apiError
+          }
+          return { success: true, provider: 'GOOGLE', operation: 'delete' }
+        }
+
+        const response = await calendar.events.patch({
+          calendarId,
+          eventId: instanceId,
+          requestBody: googleEvent,
+        })
+        return {
+          success: true,
+          provider: 'GOOGLE',
+          externalId: response.data.id || undefined,
+          operation: `${operation} (occurrence)`
+        }
+      }
 
       if (operation === 'create') {
         const response = await calendar.events.insert({
@@ -362,7 +664,8 @@ export class CalendarSyncService {
       return {
         success: false,
         provider: 'GOOGLE',
-        error: error.message || 'Google Calendar API error'
+        error: error.message || 'Google Calendar API error',
+        ...getRateLimit(error)
       }
     }
   }
@@ -372,11 +675,13 @@ export class CalendarSyncService {
    */
   private static async pullFromGoogleCalendar(
     integration: any,
+    journal: SyncJournal,
     startDate?: Date,
     endDate?: Date
-  ): Promise<{ events: UnifiedEvent[]; conflicts: ConflictInfo[] }> {
+  ): Promise<PullResult> {
     const events: UnifiedEvent[] = []
     const conflicts: ConflictInfo[] = []
+    let failure: unknown
     const prisma = getPrismaClient()
 
     try {
@@ -397,12 +702,13 @@ export class CalendarSyncService {
       const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
       const calendarId = integration.externalId || 'primary'
 
-      // Use syncToken for incremental sync if available
+      // Use syncToken for incremental sync if available.
+      // Recurring series come back as one event with its RRULE, plus an event per edited or
+      // cancelled occurrence (recurringEventId + originalStartTime).
       const listParams: any = {
         calendarId,
         maxResults: 250,
-        singleEvents: true,
-        orderBy: 'startTime'
+        singleEvents: false
       }
 
       if (integration.syncToken) {
@@ -416,9 +722,10 @@ export class CalendarSyncService {
       }
 
       const response = await calendar.events.list(listParams)
+      const calendarTimeZone = resolveTimeZone(response.data.timeZone, integration.participant?.timezone)
 
       // Store new syncToken for next incremental sync
-      if (response.data.nextSyncToken && prisma) {
+      if (response.data.nextSyncToken && prisma && !journal.dryRun) {
         await prisma.calendarIntegration.update({
           where: { id: integration.id },
           data: {
@@ -428,11 +735,42 @@ export class CalendarSyncService {
         })
       }
 
+      // Series before their occurrences, so edited occurrences find the series they belong to
+      const items = [...(response.data.items || [])]
+        .sort((a, b) => Number(!!a.recurringEventId) - Number(!!b.recurringEventId))
+
       // Process and persist each Google event to database
-      for (const googleEvent of response.data.items || []) {
+      for (const googleEvent of items) {
         if (!googleEvent.id) continue // Skip events without ID
 
         try {
+          const times = this.getGoogleTimes(googleEvent, calendarTimeZone)
+
+          if (googleEvent.recurringEventId) {
+            const occurrence = await this.applyOccurrenceOverride(integration, journal, {
+              masterExternalId: googleEvent.recurringEventId,
+              externalId: googleEvent.id,
+              originalStartDateTime: times.originalStartDateTime || '',
+              cancelled: googleEvent.status === 'cancelled',
+              fields: {
+                title: googleEvent.summary || 'Untitled Event',
+                description: googleEvent.description || '',
+                startDateTime: times.startDateTime,
+                endDateTime: times.endDateTime,
+                timezone: times.timezone,
+                location: googleEvent.location || '',
+                isAllDay: !googleEvent.start?.dateTime,
+                status: 'scheduled',
+                participants: googleEvent.attendees?.map((a: any) => a.email).filter(Boolean) || []
+              },
+              createData: { googleCalendarEventId: googleEvent.id }
+            })
+            if (occurrence) events.push(occurrence)
+            continue
+          }
+
+          const series = parseRecurrenceLines(googleEvent.recurrence || [], times.timezone || calendarTimeZone)
+
           // Check if EventSync record exists for this Google event
           const existingSync = prisma ? await prisma.eventSync.findFirst({
             where: {
@@ -443,64 +781,86 @@ export class CalendarSyncService {
           }) : null
 
           let localEvent: UnifiedEvent
+          const remoteVersion = googleEvent.updated ? new Date(googleEvent.updated) : new Date()
+          const remoteFields: RemoteEventFields = {
+            title: googleEvent.summary || 'Untitled Event',
+            description: googleEvent.description || '',
+            startDateTime: times.startDateTime,
+            endDateTime: times.endDateTime,
+            timezone: times.timezone,
+            location: googleEvent.location || '',
+            isAllDay: !googleEvent.start?.dateTime,
+            status: googleEvent.status === 'cancelled' ? 'cancelled' : 'scheduled',
+            participants: googleEvent.attendees?.map((a: any) => a.email).filter(Boolean) || []
+          }
 
           if (existingSync && prisma) {
+            // Merge with local edits made since the last sync
+            const { merged, pushBack, conflict } = await this.mergeRemoteChanges(existingSync, {
+              externalId: googleEvent.id,
+              etag: googleEvent.etag || undefined,
+              fields: remoteFields,
+              remoteVersion
+            }, journal)
+            if (conflict) {
+              conflicts.push(conflict)
+              continue
+            }
+
             // Update existing event in database
-            const updatedEvent = await prisma.event.update({
-              where: { id: existingSync.eventId },
+            const updatedEvent = await this.writeLocalEvent(integration, journal, {
+              action: 'UPDATE',
+              id: existingSync.eventId,
+              externalId: googleEvent.id,
               data: {
-                title: googleEvent.summary || 'Untitled Event',
-                description: googleEvent.description || '',
-                startDateTime: googleEvent.start?.dateTime || googleEvent.start?.date || '',
-                endDateTime: googleEvent.end?.dateTime || googleEvent.end?.date || googleEvent.start?.dateTime || googleEvent.start?.date || '',
-                location: googleEvent.location || '',
-                isAllDay: !googleEvent.start?.dateTime,
-                status: googleEvent.status === 'cancelled' ? 'cancelled' : 'scheduled',
-                participants: googleEvent.attendees?.map((a: any) => a.email).filter(Boolean) || [],
+                ...merged,
+                ...(await this.getSeriesData(existingSync.event, series)),
                 updatedAt: new Date()
               }
             })
 
             // Update EventSync record
-            await prisma.eventSync.update({
-              where: { id: existingSync.id },
-              data: {
-                lastSyncAt: new Date(),
-                syncStatus: 'SYNCED',
-                remoteVersion: googleEvent.updated ? new Date(googleEvent.updated) : new Date()
-              }
-            })
+            if (!journal.dryRun) {
+              await prisma.eventSync.update({
+                where: { id: existingSync.id },
+                data: {
+                  lastSyncAt: pushBack ? existingSync.lastSyncAt : new Date(),
+                  syncStatus: 'SYNCED',
+                  remoteVersion,
+                  baseSnapshot: { ...remoteFields },
+                  conflictData: Prisma.DbNull
+                }
+              })
+            }
 
             // Convert database event to UnifiedEvent format
             localEvent = this.convertDbEventToUnified(updatedEvent)
             console.log('📅 [GoogleSync] Updated existing event:', updatedEvent.id)
+
+            // Local edits merged in still have to reach Google
+            if (pushBack) await this.pushEventToExternalCalendars(localEvent, 'update', { journal })
           } else if (prisma) {
             // Create new event in database
-            const startDateTime = googleEvent.start?.dateTime || googleEvent.start?.date || ''
-            const endDateTime = googleEvent.end?.dateTime || googleEvent.end?.date || startDateTime
-            const duration = this.calculateDuration(startDateTime, endDateTime)
+            const duration = this.calculateDuration(remoteFields.startDateTime, remoteFields.endDateTime)
 
-            const newEvent = await prisma.event.create({
+            const newEvent = await this.writeLocalEvent(integration, journal, {
+              action: 'CREATE',
+              externalId: googleEvent.id,
               data: {
                 type: 'EVENT',
-                title: googleEvent.summary || 'Untitled Event',
-                description: googleEvent.description || '',
-                startDateTime,
-                endDateTime,
+                ...remoteFields,
                 duration,
                 priority: 'MEDIUM',
-                location: googleEvent.location || '',
-                isAllDay: !googleEvent.start?.dateTime,
                 isMultiDay: false,
                 isRecurring: false,
-                status: googleEvent.status === 'cancelled' ? 'cancelled' : 'scheduled',
-                participants: googleEvent.attendees?.map((a: any) => a.email).filter(Boolean) || [],
+                ...(await this.getSeriesData(null, series)),
+                ...importColumns(integration),
                 googleCalendarEventId: googleEvent.id
               }
             })
 
             // Create EventSync record to track this sync
-            await prisma.eventSync.create({
+            if (!journal.dryRun) await prisma.eventSync.create({
               data: {
                 eventId: newEvent.id,
                 integrationId: integration.id,
@@ -509,7 +869,8 @@ export class CalendarSyncService {
                 syncStatus: 'SYNCED',
                 lastSyncAt: new Date(),
                 localVersion: new Date(),
-                remoteVersion: googleEvent.updated ? new Date(googleEvent.updated) : new Date()
+                remoteVersion,
+                baseSnapshot: { ...remoteFields }
               }
             })
 
@@ -518,16 +879,10 @@ export class CalendarSyncService {
             console.log('📅 [GoogleSync] Created new event:', newEvent.id)
           } else {
             // Fallback: No database, just convert to UnifiedEvent
-            localEvent = this.convertFromGoogleEvent(googleEvent)
+            localEvent = this.convertFromGoogleEvent(googleEvent, calendarTimeZone)
           }
 
           events.push(localEvent)
-
-          // Check for conflicts with existing local events
-          const conflict = await this.detectConflict(localEvent, integration.id, googleEvent.updated || undefined)
-          if (conflict) {
-            conflicts.push(conflict)
-          }
         } catch (eventError) {
           console.error('📅 [GoogleSync] Error processing event:', googleEvent.id, eventError)
           // Continue processing other events even if one fails
@@ -538,23 +893,27 @@ export class CalendarSyncService {
       // Handle invalid syncToken by clearing it and retrying
       if (error.code === 410 && integration.syncToken) {
         if (prisma) {
-          await prisma.calendarIntegration.update({
-            where: { id: integration.id },
-            data: { syncToken: null }
-          })
+          if (!journal.dryRun) {
+            await prisma.calendarIntegration.update({
+              where: { id: integration.id },
+              data: { syncToken: null }
+            })
+          }
           // Retry without syncToken
-          return this.pullFromGoogleCalendar(integration, startDate, endDate)
+          return this.pullFromGoogleCalendar({ ...integration, syncToken: null }, journal, startDate, endDate)
         }
       }
+      journal.fail(error)
+      failure = error
     }
 
-    return { events, conflicts }
+    return { events, conflicts, error: failure }
   }
 
   /**
    * Convert database Event to UnifiedEvent format
    */
-  private static convertDbEventToUnified(dbEvent: any): UnifiedEvent {
+  static convertDbEventToUnified(dbEvent: any): UnifiedEvent {
     return {
       id: dbEvent.id,
       type: dbEvent.type?.toLowerCase() || 'event',
@@ -562,16 +921,21 @@ export class CalendarSyncService {
       description: dbEvent.description || '',
       startDateTime: dbEvent.startDateTime,
       endDateTime: dbEvent.endDateTime || dbEvent.startDateTime,
+      timezone: dbEvent.timezone || undefined,
       duration: dbEvent.duration || 0,
       priority: dbEvent.priority?.toLowerCase() || 'medium',
       location: dbEvent.location || '',
       isAllDay: dbEvent.isAllDay || false,
       isMultiDay: dbEvent.isMultiDay || false,
       isRecurring: dbEvent.isRecurring || false,
+      recurrence: parseStoredRecurrence(dbEvent.recurrence),
+      parentEventId: dbEvent.parentEventId || undefined,
+      originalStartDateTime: dbEvent.originalStartDateTime || undefined,
       status: dbEvent.status || 'scheduled',
       participants: Array.isArray(dbEvent.participants) ? dbEvent.participants : [],
       clientId: dbEvent.clientId || undefined,
       clientName: dbEvent.clientName || undefined,
+      service: dbEvent.service || undefined,
       notes: dbEvent.notes || undefined,
       createdAt: dbEvent.createdAt?.toISOString() || new Date().toISOString(),
       updatedAt: dbEvent.updatedAt?.toISOString() || new Date().toISOString()
@@ -632,7 +996,7 @@ export class CalendarSyncService {
 
       if (operation === 'create') {
         // Create new page in Notion database
-        const properties = convertEventToNotionProperties(event, schema)
+        const properties = convertEventToNotionProperties(event, schema, integration.participant?.timezone)
 
         const response = await notionApiCall(() =>
           notion.pages.create({
@@ -653,7 +1017,7 @@ export class CalendarSyncService {
 
         if (!eventSync?.externalId) {
           // Fall back to create if no sync record exists
-          const properties = convertEventToNotionProperties(event, schema)
+          const properties = convertEventToNotionProperties(event, schema, integration.participant?.timezone)
 
           const response = await notionApiCall(() =>
             notion.pages.create({
@@ -671,7 +1035,7 @@ export class CalendarSyncService {
         }
 
         // Update existing Notion page
-        const properties = convertEventToNotionProperties(event, schema)
+        const properties = convertEventToNotionProperties(event, schema, integration.participant?.timezone)
 
         // Remove 'notion-' prefix if present
         const pageId = eventSync.externalId.replace(/^notion-/, '')
@@ -784,7 +1148,8 @@ export class CalendarSyncService {
       return {
         success: false,
         provider: 'NOTION',
-        error: error.message || 'Notion API error'
+        error: error.message || 'Notion API error',
+        ...getRateLimit(error)
       }
     }
   }
@@ -794,11 +1159,13 @@ export class CalendarSyncService {
    */
   private static async pullFromNotion(
     integration: any,
+    journal: SyncJournal,
     startDate?: Date,
     endDate?: Date
-  ): Promise<{ events: UnifiedEvent[]; conflicts: ConflictInfo[] }> {
+  ): Promise<PullResult> {
     const events: UnifiedEvent[] = []
     const conflicts: ConflictInfo[] = []
+    let failure: unknown
     const prisma = getPrismaClient()
 
     const { Client } = await import('@notionhq/client')
@@ -887,7 +1254,7 @@ export class CalendarSyncService {
 
         try {
           // Convert Notion page to UnifiedEvent
-          const unifiedEvent = convertNotionPageToEvent(page, schema)
+          const unifiedEvent = convertNotionPageToEvent(page, schema, integration.participant?.timezone)
 
           if (prisma) {
             // Check if EventSync record exists for this Notion page
@@ -900,43 +1267,71 @@ export class CalendarSyncService {
             })
 
             let localEvent: UnifiedEvent
+            // Notion pages carry no location or attendees
+            const remoteFields: Partial<SyncSnapshot> = {
+              title: unifiedEvent.title,
+              description: unifiedEvent.description || '',
+              startDateTime: unifiedEvent.startDateTime,
+              endDateTime: unifiedEvent.endDateTime,
+              timezone: unifiedEvent.timezone || null,
+              isAllDay: unifiedEvent.isAllDay
+            }
 
             if (existingSync) {
+              // Merge with local edits made since the last sync
+              const { merged, pushBack, conflict } = await this.mergeRemoteChanges(existingSync, {
+                externalId: page.id,
+                fields: remoteFields,
+                remoteVersion: new Date(page.last_edited_time)
+              }, journal)
+              if (conflict) {
+                conflicts.push(conflict)
+                continue
+              }
+
               // Update existing event in database
-              const updatedEvent = await prisma.event.update({
-                where: { id: existingSync.eventId },
+              const updatedEvent = await this.writeLocalEvent(integration, journal, {
+                action: 'UPDATE',
+                id: existingSync.eventId,
+                externalId: page.id,
                 data: {
-                  title: unifiedEvent.title,
-                  description: unifiedEvent.description,
-                  startDateTime: unifiedEvent.startDateTime,
-                  endDateTime: unifiedEvent.endDateTime,
-                  duration: unifiedEvent.duration,
-                  isAllDay: unifiedEvent.isAllDay,
+                  ...merged,
+                  duration: this.calculateDuration(merged.startDateTime!, merged.endDateTime!),
                   updatedAt: new Date()
                 }
               })
 
               // Update EventSync record
-              await prisma.eventSync.update({
-                where: { id: existingSync.id },
-                data: {
-                  lastSyncAt: new Date(),
-                  syncStatus: 'SYNCED',
-                  remoteVersion: new Date(page.last_edited_time)
-                }
-              })
+              if (!journal.dryRun) {
+                await prisma.eventSync.update({
+                  where: { id: existingSync.id },
+                  data: {
+                    lastSyncAt: pushBack ? existingSync.lastSyncAt : new Date(),
+                    syncStatus: 'SYNCED',
+                    remoteVersion: new Date(page.last_edited_time),
+                    baseSnapshot: { ...remoteFields },
+                    conflictData: Prisma.DbNull
+                  }
+                })
+              }
 
               localEvent = this.convertDbEventToUnified(updatedEvent)
               console.log('📅 [NotionSync] Updated existing event:', updatedEvent.id)
+
+              // Local edits merged in still have to reach Notion
+              if (pushBack) await this.pushEventToExternalCalendars(localEvent, 'update', { journal })
             } else {
               // Create new event in database
-              const newEvent = await prisma.event.create({
+              const newEvent = await this.writeLocalEvent(integration, journal, {
+                action: 'CREATE',
+                externalId: page.id,
                 data: {
                   type: 'EVENT',
                   title: unifiedEvent.title,
                   description: unifiedEvent.description || '',
                   startDateTime: unifiedEvent.startDateTime,
                   endDateTime: unifiedEvent.endDateTime,
+                  timezone: unifiedEvent.timezone,
                   duration: unifiedEvent.duration,
                   priority: 'MEDIUM',
                   location: '',
@@ -944,12 +1339,13 @@ export class CalendarSyncService {
                   isMultiDay: false,
                   isRecurring: false,
                   status: 'scheduled',
-                  participants: []
+                  participants: [],
+                  ...importColumns(integration)
                 }
               })
 
               // Create EventSync record to track this sync
-              await prisma.eventSync.create({
+              if (!journal.dryRun) await prisma.eventSync.create({
                 data: {
                   eventId: newEvent.id,
                   integrationId: integration.id,
@@ -958,7 +1354,8 @@ export class CalendarSyncService {
                   syncStatus: 'SYNCED',
                   lastSyncAt: new Date(),
                   localVersion: new Date(),
-                  remoteVersion: new Date(page.last_edited_time)
+                  remoteVersion: new Date(page.last_edited_time),
+                  baseSnapshot: { ...remoteFields }
                 }
               })
 
@@ -967,16 +1364,6 @@ export class CalendarSyncService {
             }
 
             events.push(localEvent)
-
-            // Check for conflicts with existing local events
-            const conflict = await this.detectConflict(
-              localEvent,
-              integration.id,
-              page.last_edited_time
-            )
-            if (conflict) {
-              conflicts.push(conflict)
-            }
           } else {
             // No database available, just return the event
             events.push(unifiedEvent)
@@ -988,7 +1375,7 @@ export class CalendarSyncService {
       }
 
       // Update last sync time
-      if (prisma) {
+      if (prisma && !journal.dryRun) {
         await prisma.calendarIntegration.update({
           where: { id: integration.id },
           data: {
@@ -999,8 +1386,10 @@ export class CalendarSyncService {
       }
     } catch (error: any) {
       console.error('📅 [NotionSync] Pull error:', error)
+      journal.fail(error)
+      failure = error
 
-      if (prisma) {
+      if (prisma && !journal.dryRun) {
         await prisma.calendarIntegration.update({
           where: { id: integration.id },
           data: {
@@ -1010,95 +1399,1167 @@ export class CalendarSyncService {
       }
     }
 
-    return { events, conflicts }
+    return { events, conflicts, error: failure }
   }
 
   /**
-   * Convert UnifiedEvent to Google Calendar event format
+   * CalDAV client for an integration. The calendar collection URL is stored in externalId,
+   * the username in calendarEmail and the (app-specific) password, encrypted, in accessToken.
    */
-  private static convertToGoogleEvent(event: UnifiedEvent): any {
-    const endDateTime = event.endDateTime || event.startDateTime
-
-    return {
-      summary: event.title,
-      description: event.description || undefined,
-      location: event.location || undefined,
-      start: event.isAllDay
-        ? { date: event.startDateTime.split('T')[0] }
-        : { dateTime: event.startDateTime, timeZone: 'America/New_York' },
-      end: event.isAllDay
-        ? { date: endDateTime.split('T')[0] }
-        : { dateTime: endDateTime, timeZone: 'America/New_York' },
-      // Add participants as attendees if available
-      attendees: event.participants?.map(email => ({ email })),
-      // Store event ID in extendedProperties for reverse lookup
-      extendedProperties: {
-        private: {
-          localEventId: event.id
-        }
-      }
-    }
+  private static getCalDAVClient(integration: any): CalDAVClient {
+    return new CalDAVClient({
+      serverUrl: new URL(integration.externalId).origin,
+      username: integration.calendarEmail || '',
+      password: decrypt(integration.accessToken)
+    })
   }
 
   /**
-   * Convert Google Calendar event to UnifiedEvent format
+   * Sync to a CalDAV calendar (Fastmail, iCloud, Radicale, ...)
+   * Each event is stored as one .ics resource named after the local event ID. Writes send the
+   * ETag from our last sync, so a change made in the other calendar since then comes back as a
+   * conflict instead of being overwritten. A series is written with its edited occurrences as
+   * RECURRENCE-ID VEVENTs in the same resource.
    */
-  private static convertFromGoogleEvent(googleEvent: any): UnifiedEvent {
-    const startDateTime = googleEvent.start?.dateTime || googleEvent.start?.date
-    const endDateTime = googleEvent.end?.dateTime || googleEvent.end?.date
-    const isAllDay = !googleEvent.start?.dateTime
+  private static async syncToCalDAV(
+    event: UnifiedEvent,
+    integration: any,
+    operation: 'create' | 'update' | 'delete',
+    removedOverrideId?: string // Edited occurrence being deleted - leave it out of the series
+  ): Promise<SyncResult> {
+    const provider = integration.provider
+    const prisma = getPrismaClient()
 
-    return {
-      id: googleEvent.extendedProperties?.private?.localEventId || `gcal-${googleEvent.id}`,
-      type: 'event',
-      title: googleEvent.summary || 'Untitled Event',
-      description: googleEvent.description || '',
-      startDateTime,
-      endDateTime: endDateTime || startDateTime,
-      duration: this.calculateDuration(startDateTime, endDateTime),
-      priority: 'medium',
-      location: googleEvent.location,
-      isAllDay,
-      isMultiDay: false,
-      isRecurring: false,
-      status: googleEvent.status === 'cancelled' ? 'cancelled' : 'scheduled',
-      participants: googleEvent.attendees?.map((a: any) => a.email).filter(Boolean),
-      createdAt: googleEvent.created || new Date().toISOString(),
-      updatedAt: googleEvent.updated || new Date().toISOString()
-    } as UnifiedEvent
-  }
+    let client: CalDAVClient
+    try {
+      client = this.getCalDAVClient(integration)
+    } catch (decryptError) {
+      console.warn('📅 [CalDAVSync] Credential decryption failed - integration may need to be reconnected')
+      return {
+        success: false,
+        provider,
+        error: 'CalDAV credentials are invalid or corrupted. Please reconnect your calendar.'
+      }
+    }
 
-  /**
-   * Calculate duration in minutes between two datetime strings
-   */
-  private static calculateDuration(start: string, end: string): number {
-    const startDate = new Date(start)
-    const endDate = new Date(end)
-    return Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60))
-  }
+    // An edited occurrence lives in its series' calendar object - write the series again
+    if (event.parentEventId && event.originalStartDateTime) {
+      const series = prisma ? await prisma.event.findUnique({ where: { id: event.parentEventId } }) : null
+      if (!series) {
+        return { success: false, provider, error: 'Recurring series not found', operation }
+      }
 
-  /**
-   * Track event sync in database
-   */
-  private static async trackEventSync(
-    eventId: string,
-    integrationId: string,
-    provider: CalendarProvider,
-    externalId: string,
-    syncStatus: SyncStatus,
-    error?: string
-  ): Promise<void> {
-    const prisma = getPrismaClient()
-    if (!prisma) return
+      const result = await this.syncToCalDAV(
+        this.convertDbEventToUnified(series),
+        integration,
+        'update',
+        operation === 'delete' ? event.id : undefined
+      )
+      if (!result.success || !result.externalId) return result
+
+      await this.trackEventSync(series.id, integration.id, provider, result.externalId, 'SYNCED', undefined, result.etag)
+      return operation === 'delete'
+        ? { success: true, provider, operation: 'delete (occurrence)' }
+        : {
+          ...result,
+          externalId: `${result.externalId}#${occurrenceDateKey(event.originalStartDateTime, resolveTimeZone(event.timezone, integration.participant?.timezone))}`,
+          operation: `${operation} (occurrence)`
+        }
+    }
+
+    const eventSync = await this.getEventSync(event.id, integration.id)
 
     try {
-      await prisma.eventSync.upsert({
-        where: {
-          eventId_integrationId: {
-            eventId,
-            integrationId
-          }
-        },
+      if (operation === 'delete') {
+        if (!eventSync?.externalId) {
+          console.warn(`📅 [CalDAVSync] No EventSync record for event ${event.id}, cannot delete from CalDAV calendar`)
+          return {
+            success: false,
+            provider,
+            error: 'Event not synced to CalDAV calendar (no sync record)',
+            operation: 'delete'
+          }
+        }
+
+        try {
+          await client.deleteObject(eventSync.externalId, eventSync.etag || undefined)
+          console.log(`✅ [CalDAVSync] Deleted event from CalDAV calendar: ${eventSync.externalId}`)
+        } catch (apiError) {
+          // Already gone from the calendar - just clean up our side
+          if (!(apiError instanceof CalDAVError && apiError.isNotFound)) throw apiError
+          console.warn(`📅 [CalDAVSync] Event ${eventSync.externalId} already deleted from CalDAV calendar (or not found)`)
+        }
+
+        if (prisma) {
+          try {
+            await prisma.eventSync.delete({
+              where: {
+                eventId_integrationId: {
+                  eventId: event.id,
+                  integrationId: integration.id
+                }
+              }
+            })
+          } catch (syncDeleteError) {
+            // EventSync may have already been deleted by cascade
+          }
+        }
+
+        return { success: true, provider, operation: 'delete' }
+      }
+
+      const overrides = (await this.getSeriesOverrides(event.id))
+        .filter(override => override.id !== removedOverrideId)
+        .map(override => this.convertDbEventToUnified(override))
+      const timeZone = resolveTimeZone(event.timezone, integration.participant?.timezone)
+      const recurrence = recurrenceLines(
+        event,
+        overrides.map(override => occurrenceDateKey(override.originalStartDateTime!, timeZone)),
+        timeZone,
+        await this.getUnsupportedRecurrence(event)
+      )
+
+      const href = eventSync?.externalId || client.resolve(`${encodeURIComponent(event.id)}.ics`, integration.externalId)
+      const etag = await client.putObject(
+        href,
+        eventToICalendar(event, { recurrence, overrides: recurrence.length > 0 ? overrides : [], timeZone }),
+        // Update only the version we last saw; create only if nothing is there yet
+        eventSync?.externalId ? { etag: eventSync.etag || undefined } : { createOnly: true }
+      )
+
+      return {
+        success: true,
+        provider,
+        externalId: href,
+        etag,
+        operation: eventSync?.externalId ? 'update' : operation === 'update' ? 'create (fallback)' : 'create'
+      }
+    } catch (error: any) {
+      if (error instanceof CalDAVError && error.isPreconditionFailed) {
+        return {
+          success: false,
+          provider,
+          externalId: eventSync?.externalId,
+          error: 'Event was changed in the CalDAV calendar since the last sync',
+          operation,
+          conflict: true
+        }
+      }
+
+      console.error('📅 [CalDAVSync] Error:', error)
+      return {
+        success: false,
+        provider,
+        error: error.message || 'CalDAV error',
+        ...getRateLimit(error)
+      }
+    }
+  }
+
+  /**
+   * Pull events from a CalDAV calendar
+   * Uses the collection's sync-token for incremental sync (RFC 6578) and falls back to a
+   * time-range query when there is no token yet or the server has expired it.
+   */
+  private static async pullFromCalDAV(
+    integration: any,
+    journal: SyncJournal,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<PullResult> {
+    const events: UnifiedEvent[] = []
+    const conflicts: ConflictInfo[] = []
+    let failure: unknown
+    const prisma = getPrismaClient()
+
+    try {
+      const client = this.getCalDAVClient(integration)
+      const calendarUrl = integration.externalId
+
+      let changed: Array<{ href: string; etag?: string; calendarData?: string }>
+      let deleted: string[] = []
+      let syncToken: string | undefined
+
+      if (integration.syncToken) {
+        try {
+          const changes = await client.syncCollection(calendarUrl, integration.syncToken)
+          changed = await client.calendarMultiget(calendarUrl, changes.changed.map(object => object.href))
+          deleted = changes.deleted
+          syncToken = changes.syncToken
+        } catch (error) {
+          // Expired or unknown token - clear it and do a full sync
+          if (error instanceof CalDAVError && error.isInvalidSyncToken && prisma) {
+            if (!journal.dryRun) {
+              await prisma.calendarIntegration.update({
+                where: { id: integration.id },
+                data: { syncToken: null }
+              })
+            }
+            return this.pullFromCalDAV({ ...integration, syncToken: null }, journal, startDate, endDate)
+          }
+          throw error
+        }
+      } else {
+        // Take the token before querying so changes made during the query are picked up next time
+        syncToken = await client.getSyncToken(calendarUrl)
+        const start = startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+        const end = endDate || new Date(Date.now() + 90 * 24 * 60 * 60 * 1000)
+        changed = await client.calendarQuery(calendarUrl, start, end)
+      }
+
+      for (const object of changed) {
+        // A series is one resource: the master VEVENT plus one per edited occurrence (RECURRENCE-ID)
+        const vevents = parseICalendar(object.calendarData || '')
+        const vevent = vevents.find(candidate => !candidate.recurrenceId)
+        if (!vevent) continue
+
+        try {
+          const result = await this.applyRemoteEvent(integration, journal, {
+            externalId: object.href,
+            etag: object.etag,
+            remoteVersion: vevent.lastModified || new Date(),
+            fields: this.convertFromVEvent(vevent, integration.participant?.timezone),
+            series: parseRecurrenceProperties(vevent.properties, resolveTimeZone(vevent.timeZone, integration.participant?.timezone)),
+            // Events we pushed carry the local ID
+            findLocalId: async () => vevent.properties.find(property => property.name === 'X-CRM-EVENT-ID')?.value
+          })
+          if (result.conflict) {
+            conflicts.push(result.conflict)
+          } else if (result.event) {
+            events.push(result.event)
+          }
+
+          // Unchanged or conflicting series - leave its occurrences alone as well
+          if (!result.event) continue
+
+          for (const override of vevents.filter(candidate => candidate.recurrenceId)) {
+            const occurrence = await this.applyOccurrenceOverride(integration, journal, {
+              masterExternalId: object.href,
+              externalId: `${object.href}#${occurrenceDateKey(override.recurrenceId!, resolveTimeZone(integration.participant?.timezone))}`,
+              originalStartDateTime: override.recurrenceId!,
+              cancelled: override.status === 'CANCELLED',
+              etag: object.etag,
+              fields: this.convertFromVEvent(override, integration.participant?.timezone)
+            })
+            if (occurrence) events.push(occurrence)
+          }
+        } catch (eventError) {
+          console.error('📅 [CalDAVSync] Error processing event:', object.href, eventError)
+          // Continue processing other events even if one fails
+        }
+      }
+
+      // Deleted in the other calendar - cancel locally rather than delete, like Google cancellations
+      if (prisma) {
+        for (const href of deleted) {
+          const existingSync = await prisma.eventSync.findFirst({
+            where: { externalId: href, integrationId: integration.id }
+          })
+          if (!existingSync) continue
+
+          await this.writeLocalEvent(integration, journal, {
+            action: 'UPDATE',
+            id: existingSync.eventId,
+            externalId: href,
+            data: { status: 'cancelled', updatedAt: new Date() }
+          })
+          if (!journal.dryRun) await prisma.eventSync.delete({ where: { id: existingSync.id } })
+          console.log('📅 [CalDAVSync] Cancelled event deleted remotely:', existingSync.eventId)
+        }
+
+        if (!journal.dryRun) {
+          await prisma.calendarIntegration.update({
+            where: { id: integration.id },
+            data: {
+              ...(syncToken && { syncToken }),
+              lastSyncAt: new Date(),
+              lastSyncError: null
+            }
+          })
+        }
+      }
+    } catch (error: any) {
+      console.error('📅 [CalDAVSync] Pull error:', error)
+      journal.fail(error)
+      failure = error
+
+      if (prisma && !journal.dryRun) {
+        await prisma.calendarIntegration.update({
+          where: { id: integration.id },
+          data: {
+            lastSyncError: error.message || 'Unknown error'
+          }
+        })
+      }
+    }
+
+    return { events, conflicts, error: failure }
+  }
+
+  /**
+   * Local event columns for a VEVENT
+   */
+  static convertFromVEvent(vevent: ParsedVEvent, defaultTimeZone?: string): RemoteEventFields {
+    // UTC times become wall-clock in the user's zone; floating times are taken to be in it already
+    const timezone = vevent.isAllDay ? null : resolveTimeZone(vevent.timeZone, defaultTimeZone)
+    const startDateTime = timezone ? toWallClock(vevent.startDateTime, timezone) : vevent.startDateTime
+    return {
+      title: vevent.summary,
+      description: vevent.description || '',
+      startDateTime,
+      endDateTime: vevent.endDateTime ? (timezone ? toWallClock(vevent.endDateTime, timezone) : vevent.endDateTime) : startDateTime,
+      timezone,
+      location: vevent.location || '',
+      isAllDay: vevent.isAllDay,
+      status: vevent.status === 'CANCELLED' ? 'cancelled' : 'scheduled',
+      participants: vevent.attendees
+    }
+  }
+
+  /**
+   * Write a pulled change to a local event and journal it. In a dry run nothing is written and
+   * the returned row is what the write would have produced.
+   */
+  private static async writeLocalEvent(
+    integration: any,
+    journal: SyncJournal,
+    change: {
+      action: 'CREATE' | 'UPDATE' | 'DELETE'
+      id?: string
+      externalId: string
+      data?: Record<string, any>
+    }
+  ): Promise<any> {
+    const prisma = getPrismaClient()!
+    const before = change.id ? await prisma.event.findUnique({ where: { id: change.id } }) : null
+
+    let after: any = null
+    if (journal.dryRun) {
+      after = change.action === 'DELETE'
+        ? null
+        : { ...(before || { id: `dry-run-${change.externalId}`, createdAt: new Date() }), ...change.data, updatedAt: new Date() }
+    } else if (change.action === 'CREATE') {
+      after = await prisma.event.create({ data: change.data as Prisma.EventUncheckedCreateInput })
+    } else if (change.action === 'UPDATE') {
+      after = await prisma.event.update({ where: { id: change.id }, data: change.data! })
+    } else {
+      await prisma.event.delete({ where: { id: change.id } })
+    }
+
+    await journal.recordLocalChange({
+      integrationId: integration.id,
+      action: change.action,
+      externalId: change.externalId,
+      before,
+      after
+    })
+    return after
+  }
+
+  /**
+   * Create or update the local event for one remote event (CalDAV, Outlook) and record the new ETag.
+   * If the local event has changed since the last sync as well, the two are merged field by field;
+   * a field changed on both sides leaves the event untouched, marked CONFLICT, and the conflict returned.
+   */
+  private static async applyRemoteEvent(
+    integration: any,
+    journal: SyncJournal,
+    remote: {
+      externalId: string
+      etag?: string
+      remoteVersion: Date
+      fields: RemoteEventFields
+      series?: RemoteSeries
+      findLocalId?: () => Promise<string | undefined> // Relinks events we pushed if the sync record was lost
+      createData?: Record<string, unknown> // Extra columns for events created from this provider
+    }
+  ): Promise<{ event?: UnifiedEvent; conflict?: ConflictInfo }> {
+    const prisma = getPrismaClient()
+    const { externalId: href, etag, remoteVersion } = remote
+    const fields = {
+      ...remote.fields,
+      duration: this.calculateDuration(remote.fields.startDateTime, remote.fields.endDateTime)
+    }
+
+    if (!prisma) {
+      return {
+        event: {
+          id: `${integration.provider.toLowerCase()}-${href}`,
+          type: 'event',
+          priority: 'medium',
+          isMultiDay: false,
+          isRecurring: !!remote.series?.rule,
+          recurrence: remote.series?.rule && { ...remote.series.rule, exceptions: remote.series.exdates },
+          createdAt: new Date().toISOString(),
+          updatedAt: remoteVersion.toISOString(),
+          ...fields
+        } as UnifiedEvent
+      }
+    }
+
+    let existingSync = await prisma.eventSync.findFirst({
+      where: { externalId: href, integrationId: integration.id },
+      include: { event: true }
+    })
+
+    const localId = !existingSync && remote.findLocalId ? await remote.findLocalId() : undefined
+    if (localId && await prisma.event.findUnique({ where: { id: localId }, select: { id: true } })) {
+      // A dry run can't relink - the event is reported as new
+      if (!journal.dryRun) {
+        await this.trackEventSync(localId, integration.id, integration.provider, href, 'SYNCED', undefined, etag)
+        existingSync = await prisma.eventSync.findFirst({
+          where: { externalId: href, integrationId: integration.id },
+          include: { event: true }
+        })
+      }
+    }
+
+    if (existingSync) {
+      // Our own write coming back - nothing new
+      if (etag && existingSync.etag === etag) {
+        return {}
+      }
+
+      const { merged, pushBack, conflict } = await this.mergeRemoteChanges(existingSync, {
+        externalId: href,
+        etag,
+        fields: remote.fields,
+        remoteVersion
+      }, journal)
+      if (conflict) return { conflict }
+
+      const updatedEvent = await this.writeLocalEvent(integration, journal, {
+        action: 'UPDATE',
+        id: existingSync.eventId,
+        externalId: href,
+        data: {
+          ...merged,
+          duration: this.calculateDuration(merged.startDateTime!, merged.endDateTime!),
+          ...(remote.series && await this.getSeriesData(existingSync.event, remote.series)),
+          updatedAt: new Date()
+        }
+      })
+
+      if (!journal.dryRun) {
+        await prisma.eventSync.update({
+          where: { id: existingSync.id },
+          data: {
+            lastSyncAt: pushBack ? existingSync.lastSyncAt : new Date(),
+            syncStatus: 'SYNCED',
+            remoteVersion,
+            etag,
+            baseSnapshot: { ...remote.fields },
+            conflictData: Prisma.DbNull
+          }
+        })
+      }
+
+      console.log(`📅 [CalendarSync] Updated existing ${integration.provider} event:`, updatedEvent.id)
+      const event = this.convertDbEventToUnified(updatedEvent)
+      if (pushBack) await this.pushEventToExternalCalendars(event, 'update', { journal })
+      return { event }
+    }
+
+    const newEvent = await this.writeLocalEvent(integration, journal, {
+      action: 'CREATE',
+      externalId: href,
+      data: {
+        type: 'EVENT',
+        priority: 'MEDIUM',
+        isMultiDay: false,
+        isRecurring: false,
+        ...fields,
+        ...(remote.series && await this.getSeriesData(null, remote.series)),
+        ...importColumns(integration),
+        ...remote.createData
+      }
+    })
+
+    if (!journal.dryRun) await prisma.eventSync.create({
+      data: {
+        eventId: newEvent.id,
+        integrationId: integration.id,
+        provider: integration.provider,
+        externalId: href,
+        etag,
+        syncStatus: 'SYNCED',
+        lastSyncAt: new Date(),
+        localVersion: new Date(),
+        remoteVersion,
+        baseSnapshot: { ...remote.fields }
+      }
+    })
+
+    console.log(`📅 [CalendarSync] Created new ${integration.provider} event:`, newEvent.id)
+    return { event: this.convertDbEventToUnified(newEvent) }
+  }
+
+  /**
+   * Sync to Outlook Calendar (Microsoft Graph)
+   * Updates send the ETag from our last sync like CalDAV, so an edit made in Outlook since
+   * then comes back as a conflict instead of being overwritten.
+   */
+  private static async syncToOutlook(
+    event: UnifiedEvent,
+    integration: any,
+    operation: 'create' | 'update' | 'delete'
+  ): Promise<SyncResult> {
+    const timeZone = resolveTimeZone(event.timezone, integration.participant?.timezone)
+    let graph: GraphCalendarClient
+    try {
+      graph = new GraphCalendarClient(await getOutlookAccessToken(integration), resolveTimeZone(integration.participant?.timezone))
+    } catch (tokenError) {
+      console.warn('📅 [OutlookSync] Token decryption or refresh failed - integration may need to be reconnected')
+      return {
+        success: false,
+        provider: 'OUTLOOK',
+        error: 'OAuth tokens are invalid or expired. Please reconnect your calendar.'
+      }
+    }
+
+    const prisma = getPrismaClient()
+    const eventSync = await this.getEventSync(event.id, integration.id)
+
+    try {
+      if (operation === 'delete') {
+        if (!eventSync?.externalId) {
+          console.warn(`📅 [OutlookSync] No EventSync record for event ${event.id}, cannot delete from Outlook`)
+          return {
+            success: false,
+            provider: 'OUTLOOK',
+            error: 'Event not synced to Outlook (no sync record)',
+            operation: 'delete'
+          }
+        }
+
+        try {
+          await graph.deleteEvent(eventSync.externalId)
+          console.log(`✅ [OutlookSync] Deleted event from Outlook: ${eventSync.externalId}`)
+        } catch (apiError) {
+          if (!(apiError instanceof GraphError && apiError.isNotFound)) throw apiError
+          console.warn(`📅 [OutlookSync] Event ${eventSync.externalId} already deleted from Outlook (or not found)`)
+        }
+
+        if (prisma) {
+          try {
+            await prisma.eventSync.delete({
+              where: {
+                eventId_integrationId: {
+                  eventId: event.id,
+                  integrationId: integration.id
+                }
+              }
+            })
+          } catch (syncDeleteError) {
+            // EventSync may have already been deleted by cascade
+          }
+        }
+
+        return { success: true, provider: 'OUTLOOK', operation: 'delete' }
+      }
+
+      const graphEvent = convertToGraphEvent(event, timeZone)
+
+      // An edited occurrence is one of the series' instances in Outlook
+      if (event.parentEventId && event.originalStartDateTime) {
+        const seriesSync = await this.getEventSync(event.parentEventId, integration.id)
+        const instanceId = eventSync?.externalId || (seriesSync?.externalId &&
+          await this.findOutlookInstanceId(graph, seriesSync.externalId, event.originalStartDateTime, timeZone))
+        if (!seriesSync?.externalId || !instanceId) {
+          return {
+            success: false,
+            provider: 'OUTLOOK',
+            error: 'Occurrence not found in the Outlook series (is the series synced?)',
+            operation
+          }
+        }
+
+        const updated = await graph.updateEvent(instanceId, graphEvent, eventSync?.etag || undefined)
+        // Editing an occurrence changes the series too - keep its ETag current
+        const series = await graph.getEvent(seriesSync.externalId)
+        await this.trackEventSync(event.parentEventId, integration.id, 'OUTLOOK', series.id, 'SYNCED', undefined, series['@odata.etag'])
+
+        return {
+          success: true,
+          provider: 'OUTLOOK',
+          externalId: updated.id,
+          etag: updated['@odata.etag'],
+          operation: `${operation} (occurrence)`
+        }
+      }
+
+      if (eventSync?.externalId) {
+        try {
+          const updated = await graph.updateEvent(eventSync.externalId, graphEvent, eventSync.etag || undefined)
+          return {
+            success: true,
+            provider: 'OUTLOOK',
+            externalId: updated.id,
+            etag: await this.removeOutlookCancelledOccurrences(graph, event, updated.id, timeZone) || updated['@odata.etag'],
+            operation: 'update'
+          }
+        } catch (apiError) {
+          // Deleted in Outlook - create it again below
+          if (!(apiError instanceof GraphError && apiError.isNotFound)) throw apiError
+          console.warn(`📅 [OutlookSync] Event ${eventSync.externalId} not found in Outlook, creating new`)
+        }
+      }
+
+      const created = await graph.createEvent(integration.externalId, graphEvent)
+
+      if (prisma) {
+        await prisma.event.update({
+          where: { id: event.id },
+          data: { outlookCalendarEventId: created.id }
+        }).catch(() => {
+          // Event may not be persisted locally (e.g. pushed straight from the client)
+        })
+      }
+
+      return {
+        success: true,
+        provider: 'OUTLOOK',
+        externalId: created.id,
+        etag: await this.removeOutlookCancelledOccurrences(graph, event, created.id, timeZone) || created['@odata.etag'],
+        operation: operation === 'update' ? 'create (fallback)' : 'create'
+      }
+    } catch (error: any) {
+      if (error instanceof GraphError && error.isPreconditionFailed) {
+        return {
+          success: false,
+          provider: 'OUTLOOK',
+          externalId: eventSync?.externalId,
+          error: 'Event was changed in Outlook since the last sync',
+          operation,
+          conflict: true
+        }
+      }
+
+      console.error('📅 [OutlookSync] Error:', error)
+      return {
+        success: false,
+        provider: 'OUTLOOK',
+        error: error.message || 'Microsoft Graph error',
+        ...getRateLimit(error)
+      }
+    }
+  }
+
+  /**
+   * Graph has no EXDATE - delete the instances of a series that are cancelled locally.
+   * Returns the series' new ETag when anything was deleted.
+   */
+  private static async removeOutlookCancelledOccurrences(
+    graph: GraphCalendarClient,
+    event: UnifiedEvent,
+    seriesId: string,
+    timeZone: string
+  ): Promise<string | undefined> {
+    if (!event.isRecurring || !event.recurrence?.exceptions?.length) return undefined
+
+    const overrideDates = (await this.getSeriesOverrides(event.id))
+      .map(override => occurrenceDateKey(override.originalStartDateTime, timeZone))
+    const cancelled = event.recurrence.exceptions.filter(date => !overrideDates.includes(date)).sort()
+    if (cancelled.length === 0) return undefined
+
+    const instances = await graph.listInstances(
+      seriesId,
+      toUtcInstant(`${cancelled[0]}T00:00:00`, timeZone),
+      toUtcInstant(`${cancelled[cancelled.length - 1]}T23:59:59`, timeZone)
+    )
+
+    let removed = 0
+    for (const instance of instances) {
+      if (instance.type !== 'occurrence' || !instance.originalStart) continue
+      if (!cancelled.includes(occurrenceDateKey(instance.originalStart, timeZone))) continue
+      await graph.deleteEvent(instance.id)
+      removed++
+    }
+
+    return removed > 0 ? (await graph.getEvent(seriesId))['@odata.etag'] : undefined
+  }
+
+  /**
+   * Graph ID of the instance of a series that originally started at originalStartDateTime
+   */
+  private static async findOutlookInstanceId(
+    graph: GraphCalendarClient,
+    seriesId: string,
+    originalStartDateTime: string,
+    timeZone: string
+  ): Promise<string | undefined> {
+    const date = occurrenceDateKey(originalStartDateTime, timeZone)
+    const instances = await graph.listInstances(seriesId, toUtcInstant(`${date}T00:00:00`, timeZone), toUtcInstant(`${date}T23:59:59`, timeZone))
+    return instances.find(instance => instance.originalStart && occurrenceDateKey(instance.originalStart, timeZone) === date)?.id
+  }
+
+  /**
+   * Pull events from Outlook Calendar
+   * Uses a calendarView delta query; the deltaLink is kept in syncToken so later pulls only
+   * fetch what changed. An expired deltaLink starts a new round over the sync window.
+   */
+  private static async pullFromOutlook(
+    integration: any,
+    journal: SyncJournal,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<PullResult> {
+    const events: UnifiedEvent[] = []
+    const conflicts: ConflictInfo[] = []
+    let failure: unknown
+    const prisma = getPrismaClient()
+
+    try {
+      const graph = new GraphCalendarClient(await getOutlookAccessToken(integration), resolveTimeZone(integration.participant?.timezone))
+
+      let delta
+      try {
+        delta = await graph.calendarViewDelta(integration.externalId, {
+          deltaLink: integration.syncToken || undefined,
+          start: startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+          end: endDate || new Date(Date.now() + 90 * 24 * 60 * 60 * 1000)
+        })
+      } catch (error) {
+        if (integration.syncToken && error instanceof GraphError && error.isSyncStateInvalid && prisma) {
+          if (!journal.dryRun) {
+            await prisma.calendarIntegration.update({
+              where: { id: integration.id },
+              data: { syncToken: null }
+            })
+          }
+          return this.pullFromOutlook({ ...integration, syncToken: null }, journal, startDate, endDate)
+        }
+        throw error
+      }
+
+      // A calendar view expands series into occurrences - sync each changed series once as a
+      // recurring event, then its edited occurrences
+      const seriesIds = new Set(
+        delta.events.map(graphEvent => graphEvent.seriesMasterId).filter((id): id is string => !!id)
+      )
+      for (const seriesId of seriesIds) {
+        try {
+          const series = await graph.getEvent(seriesId)
+          const result = await this.applyRemoteEvent(integration, journal, {
+            externalId: series.id,
+            etag: series['@odata.etag'],
+            remoteVersion: series.lastModifiedDateTime ? new Date(series.lastModifiedDateTime) : new Date(),
+            fields: convertFromGraphEvent(series),
+            // Graph doesn't list cancelled occurrences - keep the exceptions we have
+            series: { rule: series.recurrence ? graphToRecurrence(series.recurrence) : undefined },
+            findLocalId: async () => getLocalEventId(series),
+            createData: { outlookCalendarEventId: series.id }
+          })
+          if (result.conflict) {
+            conflicts.push(result.conflict)
+          } else if (result.event) {
+            events.push(result.event)
+          }
+        } catch (seriesError) {
+          console.error('📅 [OutlookSync] Error processing series:', seriesId, seriesError)
+        }
+      }
+
+      for (const graphEvent of delta.events) {
+        if (graphEvent.type === 'occurrence') continue
+
+        try {
+          if (graphEvent.type === 'exception' && graphEvent.seriesMasterId) {
+            const occurrence = await this.applyOccurrenceOverride(integration, journal, {
+              masterExternalId: graphEvent.seriesMasterId,
+              externalId: graphEvent.id,
+              originalStartDateTime: graphEvent.originalStart || graphEvent.start?.dateTime || '',
+              cancelled: !!graphEvent.isCancelled,
+              etag: graphEvent['@odata.etag'],
+              fields: convertFromGraphEvent(graphEvent),
+              createData: { outlookCalendarEventId: graphEvent.id }
+            })
+            if (occurrence) events.push(occurrence)
+            continue
+          }
+
+          const result = await this.applyRemoteEvent(integration, journal, {
+            externalId: graphEvent.id,
+            etag: graphEvent['@odata.etag'],
+            remoteVersion: graphEvent.lastModifiedDateTime ? new Date(graphEvent.lastModifiedDateTime) : new Date(),
+            fields: convertFromGraphEvent(graphEvent),
+            series: {},
+            // Delta results leave out extended properties - only fetch them for events we don't know
+            findLocalId: async () => getLocalEventId(await graph.getEvent(graphEvent.id)),
+            createData: { outlookCalendarEventId: graphEvent.id }
+          })
+          if (result.conflict) {
+            conflicts.push(result.conflict)
+          } else if (result.event) {
+            events.push(result.event)
+          }
+        } catch (eventError) {
+          console.error('📅 [OutlookSync] Error processing event:', graphEvent.id, eventError)
+          // Continue processing other events even if one fails
+        }
+      }
+
+      if (prisma) {
+        // Deleted in Outlook - cancel locally like Google cancellations
+        for (const externalId of delta.removed) {
+          const existingSync = await prisma.eventSync.findFirst({
+            where: { externalId, integrationId: integration.id }
+          })
+          if (!existingSync) continue
+
+          await this.writeLocalEvent(integration, journal, {
+            action: 'UPDATE',
+            id: existingSync.eventId,
+            externalId,
+            data: { status: 'cancelled', updatedAt: new Date() }
+          })
+          if (!journal.dryRun) await prisma.eventSync.delete({ where: { id: existingSync.id } })
+          console.log('📅 [OutlookSync] Cancelled event deleted remotely:', existingSync.eventId)
+        }
+
+        if (!journal.dryRun) {
+          await prisma.calendarIntegration.update({
+            where: { id: integration.id },
+            data: {
+              ...(delta.deltaLink && { syncToken: delta.deltaLink }),
+              lastSyncAt: new Date(),
+              lastSyncError: null
+            }
+          })
+        }
+      }
+    } catch (error: any) {
+      console.error('📅 [OutlookSync] Pull error:', error)
+      journal.fail(error)
+      failure = error
+
+      if (prisma && !journal.dryRun) {
+        await prisma.calendarIntegration.update({
+          where: { id: integration.id },
+          data: {
+            lastSyncError: error.message || 'Unknown error'
+          }
+        })
+      }
+    }
+
+    return { events, conflicts, error: failure }
+  }
+
+  /**
+   * Convert UnifiedEvent to Google Calendar event format
+   */
+  private static convertToGoogleEvent(event: UnifiedEvent, recurrence: string[] = [], timeZone = resolveTimeZone(event.timezone)): any {
+    const endDateTime = event.endDateTime || event.startDateTime
+
+    return {
+      summary: event.title,
+      description: event.description || undefined,
+      location: event.location || undefined,
+      // Wall-clock time plus the zone, so Google keeps the time across DST like we do
+      start: event.isAllDay
+        ? { date: event.startDateTime.split('T')[0] }
+        : { dateTime: toWallClock(event.startDateTime, timeZone), timeZone },
+      end: event.isAllDay
+        ? { date: endDateTime.split('T')[0] }
+        : { dateTime: toWallClock(endDateTime, timeZone), timeZone },
+      // RRULE / EXDATE lines - the series stays one event in Google
+      ...(recurrence.length > 0 && { recurrence }),
+      // Add participants as attendees if available
+      attendees: event.participants?.map(email => ({ email })),
+      // Store event ID in extendedProperties for reverse lookup
+      extendedProperties: {
+        private: {
+          localEventId: event.id
+        }
+      }
+    }
+  }
+
+  /**
+   * Convert Google Calendar event to UnifiedEvent format
+   */
+  private static convertFromGoogleEvent(googleEvent: any, calendarTimeZone?: string): UnifiedEvent {
+    const { startDateTime, endDateTime, timezone, originalStartDateTime } = this.getGoogleTimes(googleEvent, resolveTimeZone(calendarTimeZone))
+    const isAllDay = !googleEvent.start?.dateTime
+    const { rule, exdates } = parseRecurrenceLines(googleEvent.recurrence || [], resolveTimeZone(timezone, calendarTimeZone))
+
+    return {
+      id: googleEvent.extendedProperties?.private?.localEventId || `gcal-${googleEvent.id}`,
+      type: 'event',
+      title: googleEvent.summary || 'Untitled Event',
+      description: googleEvent.description || '',
+      startDateTime,
+      endDateTime,
+      timezone: timezone || undefined,
+      duration: this.calculateDuration(startDateTime, endDateTime),
+      priority: 'medium',
+      location: googleEvent.location,
+      isAllDay,
+      isMultiDay: false,
+      isRecurring: !!rule,
+      recurrence: rule && { ...rule, exceptions: exdates },
+      parentEventId: googleEvent.recurringEventId ? `gcal-${googleEvent.recurringEventId}` : undefined,
+      originalStartDateTime,
+      status: googleEvent.status === 'cancelled' ? 'cancelled' : 'scheduled',
+      participants: googleEvent.attendees?.map((a: any) => a.email).filter(Boolean),
+      createdAt: googleEvent.created || new Date().toISOString(),
+      updatedAt: googleEvent.updated || new Date().toISOString()
+    } as UnifiedEvent
+  }
+
+  /**
+   * Start, end and original start of a Google event as wall-clock times in the event's zone -
+   * the zone Google reports for it, else the calendar's. All-day events have no zone.
+   */
+  private static getGoogleTimes(googleEvent: any, calendarTimeZone: string): {
+    startDateTime: string
+    endDateTime: string
+    timezone: string | null
+    originalStartDateTime?: string
+  } {
+    const timezone = googleEvent.start?.dateTime
+      ? resolveTimeZone(googleEvent.start?.timeZone, calendarTimeZone)
+      : null
+    const wallClock = (value?: { dateTime?: string | null; date?: string | null }) =>
+      value?.dateTime ? toWallClock(value.dateTime, timezone || calendarTimeZone) : value?.date || undefined
+
+    const startDateTime = wallClock(googleEvent.start) || ''
+    return {
+      startDateTime,
+      endDateTime: wallClock(googleEvent.end) || startDateTime,
+      timezone,
+      originalStartDateTime: wallClock(googleEvent.originalStartTime)
+    }
+  }
+
+  /**
+   * Calculate duration in minutes between two datetime strings
+   */
+  private static calculateDuration(start: string, end: string): number {
+    const startDate = new Date(start)
+    const endDate = new Date(end)
+    return Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60))
+  }
+
+  /**
+   * Edited occurrences of a series (child events with originalStartDateTime)
+   */
+  private static async getSeriesOverrides(eventId: string): Promise<any[]> {
+    const prisma = getPrismaClient()
+    if (!prisma || !eventId) return []
+
+    try {
+      return await prisma.event.findMany({
+        where: { parentEventId: eventId, originalStartDateTime: { not: null } }
+      })
+    } catch (error) {
+      console.error('📅 [CalendarSync] Error loading series overrides:', error)
+      return []
+    }
+  }
+
+  /**
+   * RRULE / EXDATE lines for a local series
+   */
+  private static async getRecurrenceLines(event: UnifiedEvent, timeZone?: string): Promise<string[]> {
+    if (!event.isRecurring || !event.recurrence) {
+      return recurrenceLines(event, [], timeZone, await this.getUnsupportedRecurrence(event))
+    }
+    const overrides = await this.getSeriesOverrides(event.id)
+    return recurrenceLines(event, overrides.map(override => occurrenceDateKey(override.originalStartDateTime, timeZone)), timeZone)
+  }
+
+  /**
+   * A pulled rule RecurrenceRule can't represent, held on the event so a push doesn't wipe the
+   * provider's series. Events made recurring locally since then use their own rule.
+   */
+  private static async getUnsupportedRecurrence(event: UnifiedEvent): Promise<UnsupportedRecurrence | undefined> {
+    const prisma = getPrismaClient()
+    if (!prisma || !event.id || (event.isRecurring && event.recurrence)) return undefined
+
+    const stored = await prisma.event.findUnique({ where: { id: event.id }, select: { recurrence: true } })
+    return parseStoredUnsupportedRecurrence(stored?.recurrence)
+  }
+
+  /**
+   * Event columns for a pulled event's recurrence. Exceptions are the remote EXDATEs plus the
+   * dates of edited occurrences we hold as child events. A rule we can't represent is stored
+   * verbatim on a single, non-recurring event. A remote event that is no longer recurring
+   * clears a series we synced, but leaves locally managed weekly instance groups alone.
+   */
+  private static async getSeriesData(existing: any | null, series: RemoteSeries): Promise<Record<string, unknown>> {
+    const existingRule = existing ? parseStoredRecurrence(existing.recurrence) : undefined
+    if (series.unsupportedRule) {
+      const unsupported: UnsupportedRecurrence = {
+        rrule: series.unsupportedRule,
+        ...(series.exdates && series.exdates.length > 0 && { exceptions: [...series.exdates].sort() })
+      }
+      return { isRecurring: false, recurrence: JSON.stringify(unsupported) }
+    }
+    if (!series.rule) {
+      const synced = existingRule || parseStoredUnsupportedRecurrence(existing?.recurrence)
+      return synced ? { isRecurring: false, recurrence: Prisma.DbNull } : {}
+    }
+
+    const overrides = existing ? await this.getSeriesOverrides(existing.id) : []
+    const exceptions = new Set([
+      ...(series.exdates ?? existingRule?.exceptions ?? []),
+      ...overrides.map(override => occurrenceDateKey(override.originalStartDateTime, resolveTimeZone(existing.timezone)))
+    ])
+
+    return {
+      isRecurring: true,
+      recurrence: JSON.stringify({
+        ...series.rule,
+        ...(exceptions.size > 0 && { exceptions: [...exceptions].sort() })
+      })
+    }
+  }
+
+  /**
+   * Apply one changed occurrence of a remote series - a "this occurrence only" edit or a
+   * cancelled occurrence. Its date goes on the series' exceptions so the generated occurrence
+   * is hidden; an edited occurrence is kept as a child event (parentEventId +
+   * originalStartDateTime) with its own EventSync.
+   */
+  private static async applyOccurrenceOverride(
+    integration: any,
+    journal: SyncJournal,
+    occurrence: {
+      masterExternalId: string
+      externalId: string
+      originalStartDateTime: string
+      cancelled: boolean
+      etag?: string
+      fields: RemoteEventFields
+      createData?: Record<string, unknown>
+    }
+  ): Promise<UnifiedEvent | undefined> {
+    const prisma = getPrismaClient()
+    if (!prisma) return undefined
+
+    const masterSync = await prisma.eventSync.findFirst({
+      where: { externalId: occurrence.masterExternalId, integrationId: integration.id },
+      include: { event: true }
+    })
+    const rule = masterSync ? parseStoredRecurrence(masterSync.event.recurrence) : undefined
+    // A series we don't hold, e.g. one that starts before the sync window
+    if (!masterSync || !rule) return undefined
+
+    const timeZone = resolveTimeZone(masterSync.event.timezone, integration.participant?.timezone)
+    const date = occurrenceDateKey(occurrence.originalStartDateTime, timeZone)
+    if (!rule.exceptions?.includes(date)) {
+      await this.writeLocalEvent(integration, journal, {
+        action: 'UPDATE',
+        id: masterSync.eventId,
+        externalId: occurrence.masterExternalId,
+        data: { recurrence: JSON.stringify({ ...rule, exceptions: [...(rule.exceptions || []), date].sort() }) }
+      })
+      // Not a local edit - don't let the series look changed since its last sync
+      if (!journal.dryRun) {
+        await prisma.eventSync.update({
+          where: { id: masterSync.id },
+          data: { lastSyncAt: new Date() }
+        })
+      }
+    }
+
+    const existing = (await this.getSeriesOverrides(masterSync.eventId))
+      .find(override => occurrenceDateKey(override.originalStartDateTime, timeZone) === date)
+
+    if (occurrence.cancelled) {
+      if (existing) {
+        await this.writeLocalEvent(integration, journal, {
+          action: 'DELETE',
+          id: existing.id,
+          externalId: occurrence.externalId
+        })
+        console.log('📅 [CalendarSync] Removed cancelled occurrence:', existing.id)
+      }
+      return undefined
+    }
+
+    const data = {
+      ...occurrence.fields,
+      duration: this.calculateDuration(occurrence.fields.startDateTime, occurrence.fields.endDateTime),
+      parentEventId: masterSync.eventId,
+      originalStartDateTime: occurrence.originalStartDateTime
+    }
+
+    const localEvent = existing
+      ? await this.writeLocalEvent(integration, journal, { action: 'UPDATE', id: existing.id, externalId: occurrence.externalId, data })
+      : await this.writeLocalEvent(integration, journal, {
+        action: 'CREATE',
+        externalId: occurrence.externalId,
+        data: {
+          type: masterSync.event.type,
+          priority: 'MEDIUM',
+          isMultiDay: false,
+          isRecurring: false,
+          clientId: masterSync.event.clientId,
+          clientName: masterSync.event.clientName,
+          service: masterSync.event.service,
+          ...data,
+          ...occurrence.createData
+        }
+      })
+
+    if (!journal.dryRun) {
+      await this.trackEventSync(
+        localEvent.id,
+        integration.id,
+        integration.provider,
+        occurrence.externalId,
+        'SYNCED',
+        undefined,
+        occurrence.etag
+      )
+    }
+
+    console.log(`📅 [CalendarSync] ${existing ? 'Updated' : 'Created'} edited occurrence ${date} of series ${masterSync.eventId}`)
+    return this.convertDbEventToUnified(localEvent)
+  }
+
+  /**
+   * Google instance ID of one occurrence of a series: "<seriesId>_20251020T140000Z",
+   * or "<seriesId>_20251020" for all-day series
+   */
+  private static getGoogleInstanceId(seriesId: string, originalStartDateTime: string, isAllDay: boolean, timeZone?: string): string {
+    const suffix = isAllDay || /^\d{4}-\d{2}-\d{2}$/.test(originalStartDateTime)
+      ? occurrenceDateKey(originalStartDateTime, timeZone).replace(/-/g, '')
+      : toUtcInstant(originalStartDateTime, timeZone).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+    return `${seriesId}_${suffix}`
+  }
+
+  /**
+   * Track event sync in database
+   */
+  private static async trackEventSync(
+    eventId: string,
+    integrationId: string,
+    provider: CalendarProvider,
+    externalId: string,
+    syncStatus: SyncStatus,
+    error?: string,
+    etag?: string
+  ): Promise<void> {
+    const prisma = getPrismaClient()
+    if (!prisma) return
+
+    try {
+      // What the remote copy now holds - the base for the next three-way merge
+      const baseSnapshot = syncStatus === 'SYNCED'
+        ? await prisma.event.findUnique({ where: { id: eventId } }).then(event => event && toSyncSnapshot(event))
+        : null
+
+      await prisma.eventSync.upsert({
+        where: {
+          eventId_integrationId: {
+            eventId,
+            integrationId
+          }
+        },
         create: {
           eventId,
           integrationId,
@@ -1108,13 +2569,18 @@ export class CalendarSyncService {
           lastSyncAt: new Date(),
           lastSyncError: error,
           localVersion: new Date(),
-          retryCount: 0
+          retryCount: 0,
+          etag,
+          ...(baseSnapshot && { baseSnapshot: { ...baseSnapshot } })
         },
         update: {
           syncStatus,
-          lastSyncAt: new Date(),
+          // A failed or refused push leaves the local edit unsynced, so the next pull still sees it
+          ...(syncStatus === 'SYNCED' && { lastSyncAt: new Date() }),
           lastSyncError: error,
-          externalId
+          externalId,
+          ...(etag && { etag }),
+          ...(baseSnapshot && { baseSnapshot: { ...baseSnapshot }, conflictData: Prisma.DbNull })
         }
       })
     } catch (error) {
@@ -1145,52 +2611,141 @@ export class CalendarSyncService {
 
   /**
    * Detect conflict between local and remote event versions
+   * Both sides are compared with the snapshot from the last sync, so a conflict is
+   * autoResolvable unless the same field changed differently on both sides.
+   * Returns null when the local event hasn't changed since the last sync.
    */
-  private static async detectConflict(
-    remoteEvent: UnifiedEvent,
-    integrationId: string,
-    remoteUpdated?: string
-  ): Promise<ConflictInfo | null> {
-    const prisma = getPrismaClient()
-    if (!prisma || !remoteEvent.id) return null
+  private static detectConflict(
+    existingSync: any,
+    remoteFields: Partial<SyncSnapshot>,
+    remoteVersion: Date
+  ): { conflict: ConflictInfo; merge: MergeResult } | null {
+    const localModified: Date = existingSync.event.updatedAt
+    if (!existingSync.lastSyncAt || localModified <= existingSync.lastSyncAt) return null
+
+    const merge = threeWayMerge(
+      parseSyncSnapshot(existingSync.baseSnapshot),
+      toSyncSnapshot(existingSync.event),
+      remoteFields
+    )
 
-    try {
-      // Find local event
-      const localEvent = await prisma.event.findUnique({
-        where: { id: remoteEvent.id }
-      })
+    return {
+      merge,
+      conflict: {
+        eventId: existingSync.eventId,
+        localVersion: localModified,
+        remoteVersion,
+        localChanges: merge.localChanges as Partial<UnifiedEvent>,
+        remoteChanges: merge.remoteChanges as Partial<UnifiedEvent>,
+        collisions: merge.collisions,
+        autoResolvable: merge.collisions.length === 0
+      }
+    }
+  }
 
-      if (!localEvent) return null
+  /**
+   * Values to store for a changed remote event. Local edits since the last sync are merged in
+   * (pushBack: the remote copy still lacks them); a same-field collision is parked on the
+   * EventSync as CONFLICT and returned instead, leaving the local event as it is.
+   */
+  private static async mergeRemoteChanges(
+    existingSync: any,
+    remote: {
+      externalId: string
+      etag?: string
+      fields: Partial<SyncSnapshot>
+      remoteVersion: Date
+    },
+    journal: SyncJournal
+  ): Promise<{ merged: Partial<SyncSnapshot>; pushBack: boolean; conflict?: ConflictInfo }> {
+    const detected = this.detectConflict(existingSync, remote.fields, remote.remoteVersion)
+    if (!detected) return { merged: remote.fields, pushBack: false }
+
+    const { conflict, merge } = detected
+    if (conflict.autoResolvable) {
+      const pushBack = !matchesRemote(merge.merged, remote.fields)
+      console.log(`📅 [CalendarSync] Merged ${existingSync.provider} changes into event ${existingSync.eventId}:`, {
+        local: Object.keys(merge.localChanges),
+        remote: Object.keys(merge.remoteChanges)
+      })
+      return { merged: merge.merged, pushBack }
+    }
 
-      // Get sync record
-      const eventSync = await this.getEventSync(remoteEvent.id, integrationId)
-      if (!eventSync) return null
+    const prisma = getPrismaClient()
+    const conflictData: SyncConflictData = {
+      externalId: remote.externalId,
+      etag: remote.etag || null,
+      base: parseSyncSnapshot(existingSync.baseSnapshot),
+      remote: remote.fields,
+      collisions: merge.collisions
+    }
+    if (!journal.dryRun) await prisma?.eventSync.update({
+      where: { id: existingSync.id },
+      data: {
+        syncStatus: 'CONFLICT',
+        remoteVersion: remote.remoteVersion,
+        conflictData: JSON.parse(JSON.stringify(conflictData))
+      }
+    })
 
-      const localModified = localEvent.updatedAt
-      const remoteModified = remoteUpdated ? new Date(remoteUpdated) : new Date()
+    console.log(`📅 [CalendarSync] ${existingSync.provider} conflict on event ${existingSync.eventId}:`, merge.collisions.map(collision => collision.field))
+    return { merged: merge.merged, pushBack: false, conflict }
+  }
 
-      // Check if both have been modified since last sync
-      if (eventSync.lastSyncAt) {
-        const bothModified = localModified > eventSync.lastSyncAt && remoteModified > eventSync.lastSyncAt
+  /**
+   * Resolve a parked sync conflict with the user's pick for each colliding field.
+   * The merge is redone against the current local event, so edits made while the conflict
+   * waited are kept; the result is pushed out unless the remote copy already matches it.
+   */
+  static async resolveSyncConflict(
+    eventId: string,
+    integrationId: string,
+    picks: FieldPicks
+  ): Promise<UnifiedEvent | null> {
+    const prisma = getPrismaClient()
+    if (!prisma) return null
 
-        if (bothModified) {
-          // Conflict detected
-          return {
-            eventId: remoteEvent.id,
-            localVersion: localModified,
-            remoteVersion: remoteModified,
-            localChanges: localEvent as any,
-            remoteChanges: remoteEvent as any,
-            autoResolvable: false // Implement auto-resolve logic based on your needs
-          }
-        }
+    const eventSync = await prisma.eventSync.findUnique({
+      where: { eventId_integrationId: { eventId, integrationId } },
+      include: { event: true }
+    })
+    const conflictData = eventSync?.syncStatus === 'CONFLICT' ? parseSyncConflict(eventSync.conflictData) : null
+    if (!eventSync || !conflictData) return null
+
+    const merge = threeWayMerge(conflictData.base, toSyncSnapshot(eventSync.event), conflictData.remote)
+    const resolved = applyPicks(merge, picks)
+
+    const updatedEvent = await prisma.event.update({
+      where: { id: eventId },
+      data: {
+        ...resolved,
+        duration: this.calculateDuration(
+          resolved.startDateTime || eventSync.event.startDateTime,
+          resolved.endDateTime || eventSync.event.endDateTime || eventSync.event.startDateTime
+        ),
+        updatedAt: new Date()
       }
+    })
+
+    const pushBack = !matchesRemote(resolved, conflictData.remote)
+
+    // The remote copy is the new base; its ETag lets the push below through
+    await prisma.eventSync.update({
+      where: { id: eventSync.id },
+      data: {
+        syncStatus: 'SYNCED',
+        ...(!pushBack && { lastSyncAt: new Date() }),
+        etag: conflictData.etag ?? eventSync.etag,
+        baseSnapshot: { ...conflictData.remote },
+        conflictData: Prisma.DbNull
+      }
+    })
 
-      return null
-    } catch (error) {
-      console.error('📅 [CalendarSync] Error detecting conflict:', error)
-      return null
-    }
+    const event = this.convertDbEventToUnified(updatedEvent)
+    if (pushBack) await this.pushEventToExternalCalendars(event, 'update')
+
+    console.log(`📅 [CalendarSync] Resolved ${eventSync.provider} conflict on event ${eventId}`)
+    return event
   }
 
   /**
@@ -1202,6 +2757,7 @@ export class CalendarSyncService {
     integrationId?: string
     payload: any
     priority?: number
+    scheduledFor?: Date
   }): Promise<void> {
     const prisma = getPrismaClient()
     if (!prisma) return
@@ -1217,7 +2773,7 @@ export class CalendarSyncService {
           status: 'PENDING',
           retryCount: 0,
           maxRetries: 3,
-          scheduledFor: new Date()
+          scheduledFor: params.scheduledFor || new Date()
         }
       })
     } catch (error) {
@@ -1226,65 +2782,11 @@ export class CalendarSyncService {
   }
 
   /**
-   * Process sync queue (should be called by a background job)
+   * Process due sync queue items - see lib/sync-queue-worker for backoff, concurrency and the
+   * dead-letter state
    */
   static async processSyncQueue(): Promise<void> {
-    const prisma = getPrismaClient()
-    if (!prisma) return
-
-    try {
-      // Get pending queue items
-      const queueItems = await prisma.syncQueue.findMany({
-        where: {
-          status: 'PENDING',
-          scheduledFor: { lte: new Date() }
-        },
-        orderBy: [
-          { priority: 'desc' },
-          { scheduledFor: 'asc' }
-        ],
-        take: 10
-      })
-
-      // Filter items where retryCount < maxRetries
-      const validItems = queueItems.filter(item => item.retryCount < item.maxRetries)
-
-      for (const item of validItems) {
-        try {
-          // Mark as processing
-          await prisma.syncQueue.update({
-            where: { id: item.id },
-            data: { status: 'PROCESSING' }
-          })
-
-          // Process based on operation type
-          // TODO: Implement operation handlers
-
-          // Mark as completed
-          await prisma.syncQueue.update({
-            where: { id: item.id },
-            data: {
-              status: 'COMPLETED',
-              processedAt: new Date()
-            }
-          })
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-
-          // Increment retry count
-          await prisma.syncQueue.update({
-            where: { id: item.id },
-            data: {
-              status: 'PENDING',
-              retryCount: { increment: 1 },
-              lastError: errorMessage,
-              scheduledFor: new Date(Date.now() + Math.pow(2, item.retryCount) * 60000) // Exponential backoff
-            }
-          })
-        }
-      }
-    } catch (error) {
-      console.error('📅 [CalendarSync] Error processing queue:', error)
-    }
+    const { processSyncQueue } = await import('@/lib/sync-queue-worker')
+    await processSyncQueue()
   }
 }
@@ -1,7 +1,15 @@
 import { UnifiedEvent } from '@/components/EventCreationModal'
 import { DailyTask } from '@/types/daily-planner'
-import { parseISO, addMinutes, isBefore, isAfter, isEqual } from 'date-fns'
+import { parseISO, addMinutes, addDays, isBefore, isAfter, isEqual, format, differenceInCalendarDays } from 'date-fns'
 import { ConflictResolutionClientService } from '@/lib/conflict-resolution-client'
+import { estimateByHaversine, isSameSite, type GeoPoint } from '@/lib/travel-time'
+import {
+  checkResourceAvailability,
+  peakConcurrentBookings,
+  RESOURCE_KIND_LABELS,
+  type SchedulingResource
+} from '@/lib/resources'
+import type { ContactPreferences } from '@/types/participant-management'
 
 export type ConflictType = 'temporal_overlap' | 'resource_conflict' | 'buffer_violation' | 'business_rule' | 'client_preference'
 export type ConflictSeverity = 'warning' | 'error' | 'critical'
@@ -40,14 +48,28 @@ export interface ConflictDetail {
   affectedResources?: string[]
 }
 
+export interface SlotScoreFactor {
+  label: string // e.g. "Same day, 1h 30m later"
+  points: number
+  maxPoints: number
+}
+
+export interface SuggestedTimeSlot {
+  start: Date
+  end: Date
+  confidence: number // score as 0-1
+  score: number // 0-100, the sum of the factors' points
+  factors: SlotScoreFactor[] // What the score is made of
+  checks: string[] // Constraints the slot was checked against, e.g. "Within Mark's preferred times"
+}
+
+// A client's preferred days and hours, from their contactPreferences
+export type ClientTimePreferences = Pick<ContactPreferences, 'availableDays' | 'availableHours'>
+
 export interface ResolutionSuggestion {
   strategy: ResolutionStrategy
   description: string
-  alternativeTimeSlots?: {
-    start: Date
-    end: Date
-    confidence: number
-  }[]
+  alternativeTimeSlots?: SuggestedTimeSlot[]
   estimatedImpact: string
   requiresClientNotification: boolean
 }
@@ -67,6 +89,42 @@ export interface ConflictDetectionConfig {
   }[]
   priorityClients: string[]
   maxConflictsPerDay: number
+  eventLocations: Record<string, GeoPoint> // Job sites by event id, e.g. from the daily route plan
+  estimateTravelMinutes: (from: GeoPoint, to: GeoPoint) => number
+  resources: Record<string, SchedulingResource> // Crews, vehicles and equipment by id
+  clientTimePreferences: Record<string, ClientTimePreferences> // By client id
+  alternativeSlotSearch: {
+    horizonDays: number // How many days after the requested one to look for other times
+    stepMinutes: number // Spacing of the start times tried
+    maxSuggestions: number
+  }
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Points each factor is worth in a suggested slot's score - they add up to 100
+const SLOT_SCORE_WEIGHTS = {
+  closeness: 45, // Near the requested time
+  timeOfDay: 15, // Same time of day as requested
+  travelRoom: 25, // Spare time around neighbouring jobs after the drive or buffer
+  lightDay: 15 // Few other events that day
+}
+
+const eventInterval = (event: UnifiedEvent) => {
+  const start = parseISO(event.startDateTime)
+  const end = event.endDateTime ? parseISO(event.endDateTime) : addMinutes(start, event.duration || 60)
+  return { start, end }
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return hours === 0 ? `${rest}m` : rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
 }
 
 /**
@@ -75,6 +133,8 @@ export interface ConflictDetectionConfig {
  */
 export class ConflictDetector {
   private config: ConflictDetectionConfig
+  // Client and location each event's site was last looked up from - a lookup is only repeated when they change
+  private locationSources = new Map<string, string>()
 
   constructor(config?: Partial<ConflictDetectionConfig>) {
     this.config = {
@@ -85,6 +145,11 @@ export class ConflictDetector {
       blackoutPeriods: [],
       priorityClients: [],
       maxConflictsPerDay: 3,
+      eventLocations: {},
+      estimateTravelMinutes: (from, to) => estimateByHaversine(from, to).minutes,
+      resources: {},
+      clientTimePreferences: {},
+      alternativeSlotSearch: { horizonDays: 14, stepMinutes: 30, maxSuggestions: 5 },
       ...config
     }
   }
@@ -288,7 +353,37 @@ export class ConflictDetector {
   }
 
   /**
-   * Detect buffer time violations between events
+   * Drive time between two events' sites, or null when either site isn't known
+   */
+  private travelMinutesBetween(from: UnifiedEvent, to: UnifiedEvent): number | null {
+    const fromPoint = this.config.eventLocations[from.id]
+    const toPoint = this.config.eventLocations[to.id]
+    return fromPoint && toPoint ? this.config.estimateTravelMinutes(fromPoint, toPoint) : null
+  }
+
+  /**
+   * Whether two events happen at the same place - by coordinates when both are known, otherwise
+   * by their location text
+   */
+  private isSameLocation(a: UnifiedEvent, b: UnifiedEvent): boolean {
+    const aPoint = this.config.eventLocations[a.id]
+    const bPoint = this.config.eventLocations[b.id]
+    if (aPoint && bPoint) return isSameSite(aPoint, bPoint)
+
+    const normalize = (location?: string) => (location || '')
+      .toLowerCase()
+      .replace(/[.,#]/g, ' ')
+      .replace(/\bstreet\b/g, 'st')
+      .replace(/\bavenue\b/g, 'ave')
+      .replace(/\broad\b/g, 'rd')
+      .replace(/\s+/g, ' ')
+      .trim()
+    return !!normalize(a.location) && normalize(a.location) === normalize(b.location)
+  }
+
+  /**
+   * Detect buffer time violations between events. Between job sites we know, the gap has to
+   * cover the drive; otherwise the fixed buffer applies.
    */
   private detectBufferViolations(
     rule: ConflictRule,
@@ -310,12 +405,16 @@ export class ConflictDetector {
 
       // Check buffer time before proposed event
       const timeBefore = Math.abs(proposedStart.getTime() - existingEnd.getTime()) / (1000 * 60)
-      if (existingEnd <= proposedStart && timeBefore < bufferTime) {
+      const travelBefore = this.travelMinutesBetween(existingEvent, proposedEvent)
+      const requiredBefore = travelBefore ?? bufferTime
+      if (existingEnd <= proposedStart && timeBefore < requiredBefore) {
         conflicts.push({
           id: `buffer_before_${existingEvent.id}`,
           type: 'buffer_violation',
           severity: rule.severity,
-          message: `Insufficient buffer time (${Math.round(timeBefore)}min) between "${existingEvent.title}" and proposed event. Required: ${bufferTime}min`,
+          message: travelBefore !== null
+            ? `Not enough time to drive from "${existingEvent.title}" (${Math.round(timeBefore)}min gap, ~${travelBefore}min drive)`
+            : `Insufficient buffer time (${Math.round(timeBefore)}min) between "${existingEvent.title}" and proposed event. Required: ${bufferTime}min`,
           conflictingEvent: existingEvent,
           proposedEvent
         })
@@ -323,12 +422,16 @@ export class ConflictDetector {
 
       // Check buffer time after proposed event
       const timeAfter = Math.abs(existingStart.getTime() - proposedEnd.getTime()) / (1000 * 60)
-      if (proposedEnd <= existingStart && timeAfter < bufferTime) {
+      const travelAfter = this.travelMinutesBetween(proposedEvent, existingEvent)
+      const requiredAfter = travelAfter ?? bufferTime
+      if (proposedEnd <= existingStart && timeAfter < requiredAfter) {
         conflicts.push({
           id: `buffer_after_${existingEvent.id}`,
           type: 'buffer_violation',
           severity: rule.severity,
-          message: `Insufficient buffer time (${Math.round(timeAfter)}min) between proposed event and "${existingEvent.title}". Required: ${bufferTime}min`,
+          message: travelAfter !== null
+            ? `Not enough time to drive to "${existingEvent.title}" (${Math.round(timeAfter)}min gap, ~${travelAfter}min drive)`
+            : `Insufficient buffer time (${Math.round(timeAfter)}min) between proposed event and "${existingEvent.title}". Required: ${bufferTime}min`,
           conflictingEvent: existingEvent,
           proposedEvent
         })
@@ -339,7 +442,8 @@ export class ConflictDetector {
   }
 
   /**
-   * Detect resource conflicts (same client, equipment, etc.)
+   * Detect resource conflicts: the same client or site, and crews, vehicles or equipment booked
+   * beyond their capacity or outside their availability
    */
   private detectResourceConflicts(
     rule: ConflictRule,
@@ -358,9 +462,8 @@ export class ConflictDetector {
       }
 
       // Check location conflicts (same location might indicate resource conflict)
-      if (proposedEvent.location && existingEvent.location && 
-          proposedEvent.location === existingEvent.location) {
-        affectedResources.push(`Location: ${proposedEvent.location}`)
+      if (this.isSameLocation(proposedEvent, existingEvent)) {
+        affectedResources.push(`Location: ${proposedEvent.location || existingEvent.location || 'same site'}`)
       }
 
       if (affectedResources.length > 0) {
@@ -376,6 +479,84 @@ export class ConflictDetector {
       }
     }
 
+    conflicts.push(...this.detectResourceBookings(rule, proposedEvent, existingEvents))
+
+    return conflicts
+  }
+
+  /**
+   * Resources booked on the proposed event: each can be on as many overlapping events as its
+   * capacity, and only when its availability calendar allows
+   */
+  private detectResourceBookings(
+    rule: ConflictRule,
+    proposedEvent: UnifiedEvent,
+    existingEvents: UnifiedEvent[]
+  ): ConflictDetail[] {
+    const conflicts: ConflictDetail[] = []
+    if (!proposedEvent.resourceIds?.length || !proposedEvent.startDateTime) return conflicts
+
+    const interval = (event: UnifiedEvent) => {
+      const start = parseISO(event.startDateTime)
+      const end = event.endDateTime ? parseISO(event.endDateTime) : addMinutes(start, event.duration || 60)
+      return { start: start.getTime(), end: end.getTime() }
+    }
+    const proposed = interval(proposedEvent)
+
+    for (const resourceId of new Set(proposedEvent.resourceIds)) {
+      const resource = this.config.resources[resourceId]
+      const name = resource?.name || 'Resource'
+      const affectedResources = [resource ? `${RESOURCE_KIND_LABELS[resource.kind]}: ${name}` : `Resource: ${resourceId}`]
+
+      if (resource) {
+        // Availability is kept in wall-clock time, like the work hours above
+        const availability = checkResourceAvailability(
+          resource,
+          format(proposed.start, "yyyy-MM-dd'T'HH:mm"),
+          format(proposed.end, "yyyy-MM-dd'T'HH:mm")
+        )
+        if (!availability.available) {
+          conflicts.push({
+            id: `resource_unavailable_${resourceId}`,
+            type: 'resource_conflict',
+            severity: rule.severity,
+            message: availability.reason!,
+            conflictingEvent: proposedEvent,
+            proposedEvent,
+            affectedResources
+          })
+        }
+      }
+
+      const overlapping = existingEvents.filter(event => {
+        if (!event.startDateTime || !event.resourceIds?.includes(resourceId)) return false
+        const { start, end } = interval(event)
+        return start < proposed.end && end > proposed.start
+      })
+      if (overlapping.length === 0) continue
+
+      const capacity = resource?.capacity ?? 1
+      const peak = peakConcurrentBookings([proposed, ...overlapping.map(interval)].map(booking => ({
+        start: Math.max(booking.start, proposed.start),
+        end: Math.min(booking.end, proposed.end)
+      })))
+      if (peak <= capacity) continue
+
+      for (const existingEvent of overlapping) {
+        conflicts.push({
+          id: `resource_booking_${resourceId}_${existingEvent.id}`,
+          type: 'resource_conflict',
+          severity: rule.severity,
+          message: capacity === 1
+            ? `${name} is already booked on "${existingEvent.title}"`
+            : `${name} would be on ${peak} jobs at once (capacity ${capacity}), including "${existingEvent.title}"`,
+          conflictingEvent: existingEvent,
+          proposedEvent,
+          affectedResources
+        })
+      }
+    }
+
     return conflicts
   }
 
@@ -409,12 +590,11 @@ export class ConflictDetector {
     // Check work days
     const proposedDay = proposedStart.getDay()
     if (!this.config.workDays.includes(proposedDay)) {
-      const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
       conflicts.push({
         id: 'business_work_days',
         type: 'business_rule',
         severity: rule.severity,
-        message: `Event scheduled on non-work day (${dayNames[proposedDay]})`,
+        message: `Event scheduled on non-work day (${DAY_NAMES[proposedDay]})`,
         conflictingEvent: proposedEvent,
         proposedEvent
       })
@@ -532,34 +712,149 @@ export class ConflictDetector {
   }
 
   /**
-   * Find alternative time slots that avoid conflicts
+   * Find alternative time slots that avoid conflicts. Every start time on the requested day and
+   * the work days in the search horizon after it is tried. A slot has to pass the enabled rules and
+   * also fit work hours, blackouts, the client's preferred times and the booked resources'
+   * availability; the ones left are scored, with the factors that make up each score.
    */
   private findAlternativeTimeSlots(
     proposedEvent: UnifiedEvent,
     existingEvents: UnifiedEvent[]
-  ): { start: Date; end: Date; confidence: number }[] {
-    const alternatives: { start: Date; end: Date; confidence: number }[] = []
-    const duration = proposedEvent.duration || 60
-    const originalStart = parseISO(proposedEvent.startDateTime)
-    
-    // Try slots within the same day, +/- 2 hours from original time
-    for (let offsetHours = -2; offsetHours <= 2; offsetHours += 0.5) {
-      if (offsetHours === 0) continue // Skip original time
-      
-      const newStart = addMinutes(originalStart, offsetHours * 60)
-      const newEnd = addMinutes(newStart, duration)
-      
-      // Check if this slot has conflicts (without generating suggestions to prevent recursion)
-      const tempEvent = { ...proposedEvent, startDateTime: newStart.toISOString(), endDateTime: newEnd.toISOString() }
-      const hasConflicts = this.hasConflictsOnly(tempEvent, existingEvents)
-      
-      if (!hasConflicts) {
-        const confidence = 1 - Math.abs(offsetHours) / 4 // Closer to original time = higher confidence
-        alternatives.push({ start: newStart, end: newEnd, confidence })
+  ): SuggestedTimeSlot[] {
+    if (!proposedEvent.startDateTime || proposedEvent.isAllDay) return []
+
+    const { horizonDays, stepMinutes, maxSuggestions } = this.config.alternativeSlotSearch
+    const { start: originalStart, end: originalEnd } = eventInterval(proposedEvent)
+    const duration = Math.round((originalEnd.getTime() - originalStart.getTime()) / 60000) || 60
+    const preference = proposedEvent.clientId ? this.config.clientTimePreferences[proposedEvent.clientId] : undefined
+    const resources = (proposedEvent.resourceIds || [])
+      .map(id => this.config.resources[id])
+      .filter((resource): resource is SchedulingResource => !!resource)
+    const others = existingEvents
+      .filter(event => event.startDateTime && event.id !== proposedEvent.id)
+      .map(event => ({ event, ...eventInterval(event) }))
+
+    // The part of the day both the business and the client are open to
+    let from = toMinutes(this.config.workHours.start)
+    let to = toMinutes(this.config.workHours.end)
+    const checks = [`Within work hours (${this.config.workHours.start}-${this.config.workHours.end})`]
+    if (preference?.availableHours) {
+      from = Math.max(from, toMinutes(preference.availableHours.start))
+      to = Math.min(to, toMinutes(preference.availableHours.end))
+    }
+    if (preference?.availableHours || preference?.availableDays?.length) {
+      checks.push(`Within ${proposedEvent.clientName || 'the client'}'s preferred times (${this.formatTimePreference(preference)})`)
+    }
+    if (this.config.blackoutPeriods.length > 0) checks.push('Clear of blackout periods')
+    if (resources.length > 0) checks.push(`${resources.map(resource => resource.name).join(', ')} available`)
+
+    const now = new Date()
+    const wallClock = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm")
+    const slots: SuggestedTimeSlot[] = []
+
+    for (let dayOffset = 0; dayOffset <= horizonDays; dayOffset++) {
+      const day = addDays(new Date(originalStart.getFullYear(), originalStart.getMonth(), originalStart.getDate()), dayOffset)
+      if (!this.config.workDays.includes(day.getDay())) continue
+      if (preference?.availableDays?.length && !preference.availableDays.includes(day.getDay())) continue
+
+      // Only events around this day can conflict with a slot on it
+      const windowStart = addDays(day, -1)
+      const windowEnd = addDays(day, 2)
+      const nearby = others.filter(other => other.start < windowEnd && other.end > windowStart)
+      const sameDay = nearby.filter(other => format(other.start, 'yyyy-MM-dd') === format(day, 'yyyy-MM-dd'))
+
+      for (let minute = from; minute + duration <= to; minute += stepMinutes) {
+        const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minute)
+        const end = addMinutes(start, duration)
+        if (start <= now || isEqual(start, originalStart)) continue
+        if (this.config.blackoutPeriods.some(blackout => start < blackout.end && end > blackout.start)) continue
+
+        if (resources.some(resource => !checkResourceAvailability(resource, wallClock(start), wallClock(end)).available)) continue
+
+        const candidate: UnifiedEvent = {
+          ...proposedEvent,
+          startDateTime: format(start, "yyyy-MM-dd'T'HH:mm:ss"),
+          endDateTime: format(end, "yyyy-MM-dd'T'HH:mm:ss"),
+          duration
+        }
+        if (this.hasConflictsOnly(candidate, nearby.map(other => other.event))) continue
+
+        const factors = this.scoreSlot(candidate, start, end, originalStart, sameDay)
+        const score = factors.reduce((total, factor) => total + factor.points, 0)
+        slots.push({ start, end, confidence: score / 100, score, factors, checks })
       }
     }
-    
-    return alternatives.sort((a, b) => b.confidence - a.confidence).slice(0, 3)
+
+    return slots
+      .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime())
+      .slice(0, maxSuggestions)
+  }
+
+  /**
+   * The factors behind a slot's score - see SLOT_SCORE_WEIGHTS
+   */
+  private scoreSlot(
+    candidate: UnifiedEvent,
+    start: Date,
+    end: Date,
+    originalStart: Date,
+    sameDay: { event: UnifiedEvent; start: Date; end: Date }[]
+  ): SlotScoreFactor[] {
+    const factor = (label: string, share: number, maxPoints: number): SlotScoreFactor => ({
+      label,
+      points: Math.round(Math.max(0, Math.min(1, share)) * maxPoints),
+      maxPoints
+    })
+
+    // Closeness - across the whole horizon
+    const horizonMinutes = (this.config.alternativeSlotSearch.horizonDays + 1) * 24 * 60
+    const minutesAway = Math.abs(start.getTime() - originalStart.getTime()) / 60000
+    const daysLater = differenceInCalendarDays(start, originalStart)
+    const shiftLabel = daysLater === 0
+      ? `Same day, ${formatMinutes(Math.round(minutesAway))} ${start > originalStart ? 'later' : 'earlier'}`
+      : daysLater === 1 ? 'Next day' : `${daysLater} days later`
+
+    // Time of day - full points at the requested time, none 4 hours or more away
+    const timeOfDayShift = Math.abs(
+      (start.getHours() * 60 + start.getMinutes()) - (originalStart.getHours() * 60 + originalStart.getMinutes())
+    )
+
+    // Travel room - the tightest gap to a neighbouring job, beyond the drive (or buffer) it needs
+    const bufferRule = this.config.rules.find(rule => rule.type === 'buffer_violation' && rule.enabled)
+    const buffer = bufferRule?.bufferTimeMinutes || this.config.defaultBufferTimeMinutes
+    const timed = sameDay.filter(other => !other.event.isAllDay)
+    const before = timed.filter(other => other.end <= start).sort((a, b) => b.end.getTime() - a.end.getTime())[0]
+    const after = timed.filter(other => other.start >= end).sort((a, b) => a.start.getTime() - b.start.getTime())[0]
+    const spare = [
+      before && (start.getTime() - before.end.getTime()) / 60000 - (this.travelMinutesBetween(before.event, candidate) ?? buffer),
+      after && (after.start.getTime() - end.getTime()) / 60000 - (this.travelMinutesBetween(candidate, after.event) ?? buffer)
+    ].filter((minutes): minutes is number => typeof minutes === 'number')
+    const tightest = spare.length > 0 ? Math.max(0, Math.round(Math.min(...spare))) : null
+
+    return [
+      factor(shiftLabel, 1 - minutesAway / horizonMinutes, SLOT_SCORE_WEIGHTS.closeness),
+      factor(
+        timeOfDayShift === 0 ? 'Same time of day as requested' : `${formatMinutes(timeOfDayShift)} from the requested time of day`,
+        1 - timeOfDayShift / 240,
+        SLOT_SCORE_WEIGHTS.timeOfDay
+      ),
+      tightest === null
+        ? factor('No jobs right before or after', 1, SLOT_SCORE_WEIGHTS.travelRoom)
+        : factor(`${formatMinutes(tightest)} to spare around neighbouring jobs`, tightest / 60, SLOT_SCORE_WEIGHTS.travelRoom),
+      factor(
+        sameDay.length === 0 ? 'Nothing else booked that day' : `${sameDay.length} other event${sameDay.length === 1 ? '' : 's'} that day`,
+        1 - sameDay.length / 6,
+        SLOT_SCORE_WEIGHTS.lightDay
+      )
+    ]
+  }
+
+  private formatTimePreference(preference: ClientTimePreferences): string {
+    const days = preference.availableDays?.length
+      ? [...preference.availableDays].sort().map(day => DAY_NAMES[day].slice(0, 3)).join(', ')
+      : null
+    const hours = preference.availableHours ? `${preference.availableHours.start}-${preference.availableHours.end}` : null
+    return [days, hours].filter(Boolean).join(' ')
   }
 
   /**
@@ -584,7 +879,7 @@ export class ConflictDetector {
       },
       {
         id: 'client_double_booking',
-        name: 'Prevent Client Double Booking',
+        name: 'Prevent Client and Resource Double Booking',
         type: 'resource_conflict',
         enabled: true,
         severity: 'error'
@@ -606,6 +901,76 @@ export class ConflictDetector {
     ]
   }
 
+  /**
+   * Remember where events happen, so buffers between them follow the drive time
+   */
+  setEventLocations(locations: Record<string, GeoPoint>): void {
+    this.config.eventLocations = { ...this.config.eventLocations, ...locations }
+  }
+
+  /**
+   * Look up the sites of a proposed event and the events on either side of it (through the
+   * geocoding API), so its buffers follow the drive time. Call before detectConflicts - without
+   * sites the fixed buffer applies, which is also what happens when the lookup fails.
+   */
+  async loadTravelLocations(proposedEvent: UnifiedEvent, existingEvents: UnifiedEvent[]): Promise<void> {
+    const source = (event: UnifiedEvent) => `${event.clientId || ''}|${event.location?.trim().toLowerCase() || ''}`
+    const { start } = eventInterval(proposedEvent)
+
+    const nearby = existingEvents
+      .filter(event => !event.isAllDay && Math.abs(eventInterval(event).start.getTime() - start.getTime()) < 24 * 60 * 60 * 1000)
+      .sort((a, b) => Math.abs(eventInterval(a).start.getTime() - start.getTime()) - Math.abs(eventInterval(b).start.getTime() - start.getTime()))
+      .slice(0, 39)
+    const pending = [proposedEvent, ...nearby].filter(event => {
+      if (source(event) === '|') return false
+      // Sites set from elsewhere (the daily route plan) have no source and are kept
+      if (this.config.eventLocations[event.id] && !this.locationSources.has(event.id)) return false
+      return this.locationSources.get(event.id) !== source(event)
+    })
+    if (pending.length === 0) return
+
+    try {
+      const response = await fetch('/api/calendar/event-locations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          events: pending.map(event => ({ id: event.id, clientId: event.clientId, location: event.location }))
+        })
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data.error || 'Failed to locate events')
+
+      const locations: Record<string, GeoPoint> = data.data.locations
+      for (const event of pending) {
+        this.locationSources.set(event.id, source(event))
+        // The client or location changed and the new one can't be found
+        if (!locations[event.id]) delete this.config.eventLocations[event.id]
+      }
+      this.setEventLocations(locations)
+    } catch (error) {
+      console.warn('📍 ConflictDetector: Could not look up event sites, using the fixed buffer:', error)
+    }
+  }
+
+  /**
+   * Crews, vehicles and equipment that events can be booked on
+   */
+  setResources(resources: SchedulingResource[]): void {
+    this.config.resources = Object.fromEntries(resources.map(resource => [resource.id, resource]))
+  }
+
+  /**
+   * Clients' preferred days and hours, as /api/clients/preferences lists them - suggested times stay
+   * inside them
+   */
+  setClientPreferences(clients: ({ id: string } & ClientTimePreferences)[]): void {
+    this.config.clientTimePreferences = Object.fromEntries(
+      clients
+        .filter(client => client.availableHours || client.availableDays?.length)
+        .map(client => [client.id, { availableDays: client.availableDays, availableHours: client.availableHours }])
+    )
+  }
+
   /**
    * Update configuration
    */
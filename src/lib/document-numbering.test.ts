@@ -0,0 +1,82 @@
+// src/lib/document-numbering.test.ts
+
+import { Prisma } from "@prisma/client";
+import {
+  allocateDocumentNumber,
+  formatDocumentNumber,
+  parseDocumentNumber,
+  serviceLinePrefix,
+} from "./document-numbering";
+import { getPrismaClient } from "./prisma";
+import { DEFAULT_NUMBERING_CONFIG } from "../types/billing";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+
+function mockSeries(options: { lastValue?: number; issued?: string[] } = {}) {
+  let lastValue = options.lastValue;
+  return {
+    documentNumberSequence: {
+      updateMany: jest.fn(async () => {
+        if (lastValue === undefined) return { count: 0 };
+        lastValue++;
+        return { count: 1 };
+      }),
+      findUniqueOrThrow: jest.fn(async () => ({ lastValue })),
+      create: jest.fn(async ({ data }: { data: { lastValue: number } }) => {
+        lastValue = data.lastValue;
+        return data;
+      }),
+    },
+    billingDocument: {
+      findMany: jest.fn(async () => (options.issued || []).map(documentNumber => ({ documentNumber }))),
+    },
+    billingRecord: { findMany: jest.fn(async () => []) },
+    document: { findMany: jest.fn(async () => []) },
+  };
+}
+
+describe("Document Numbering", () => {
+  it("should format and parse numbers with and without a prefix", () => {
+    expect(formatDocumentNumber({ prefix: "", documentType: "INV", year: 2026 }, 7)).toBe("INV-2026-007");
+    expect(formatDocumentNumber({ prefix: "WK", documentType: "CRN", year: 2026 }, 1234)).toBe("WK-CRN-2026-1234");
+    expect(parseDocumentNumber("WK-INV-2026-042")).toEqual({ prefix: "WK", documentType: "INV", year: 2026, sequence: 42 });
+    expect(parseDocumentNumber("Invoice 42")).toBeNull();
+  });
+
+  it("should only prefix numbers when service line prefixes are on", () => {
+    expect(serviceLinePrefix("whiteknight", DEFAULT_NUMBERING_CONFIG)).toBe("");
+    expect(serviceLinePrefix("whiteknight", { ...DEFAULT_NUMBERING_CONFIG, useServiceLinePrefixes: true })).toBe("WK");
+  });
+
+  it("should allocate inside the caller's transaction", async () => {
+    const prisma = { $transaction: jest.fn() };
+    (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+    const tx = mockSeries({ lastValue: 41 });
+
+    const number = await allocateDocumentNumber("INV", { year: 2026, tx: tx as unknown as Prisma.TransactionClient });
+
+    expect(number).toBe("INV-2026-042");
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("should seed a new series from the highest number already issued", async () => {
+    const tx = mockSeries({ issued: ["INV-2026-003", "INV-2026-011", "WK-INV-2026-050", "INV-2025-099"] });
+
+    const number = await allocateDocumentNumber("INV", { year: 2026, tx: tx as unknown as Prisma.TransactionClient });
+
+    expect(number).toBe("INV-2026-012");
+  });
+
+  it("should retry when another request created the series counter first", async () => {
+    const tx = mockSeries({ lastValue: 4 });
+    const prisma = {
+      $transaction: jest.fn()
+        .mockRejectedValueOnce(new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "test" }))
+        .mockImplementation(async (work: (client: typeof tx) => Promise<number>) => work(tx)),
+    };
+    (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+
+    await expect(allocateDocumentNumber("QUO", { year: 2026 })).resolves.toBe("QUO-2026-005");
+    expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+  });
+});
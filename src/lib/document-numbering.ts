@@ -0,0 +1,292 @@
+// src/lib/document-numbering.ts
+// Document numbers for receipts, invoices, quotes and credit notes: [PREFIX-]TYPE-YYYY-NNN, with one
+// sequence per type, year and (optional) service line prefix. Numbers come from a counter row in
+// DocumentNumberSequence that is incremented inside a transaction, so two requests can never be
+// handed the same number. The audit report cross-checks what was actually issued for gaps and duplicates.
+import { Prisma } from '@prisma/client';
+import { getPrismaClient } from './prisma';
+import { resolveServiceLineId } from './service-email-config';
+import {
+  DEFAULT_NUMBERING_CONFIG,
+  DocumentNumberAuditReport,
+  DocumentNumberOccurrence,
+  DocumentNumberSeriesAudit,
+  DocumentNumberType,
+  NumberingConfig,
+  ParsedDocumentNumber
+} from '../types/billing';
+
+const DOCUMENT_NUMBER_PATTERN = /^(?:([A-Z0-9]+)-)?([A-Z]{3})-(\d{4})-(\d+)$/;
+const MAX_ALLOCATION_ATTEMPTS = 3;
+
+let numberingConfig: NumberingConfig = {
+  ...DEFAULT_NUMBERING_CONFIG,
+  useServiceLinePrefixes: process.env.BILLING_SERVICE_LINE_PREFIXES === 'true'
+};
+
+export function getNumberingConfig(): NumberingConfig {
+  return numberingConfig;
+}
+
+export function setNumberingConfig(config: Partial<NumberingConfig>): void {
+  numberingConfig = { ...numberingConfig, ...config };
+}
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+// Service line prefix for a document, or "" when prefixes are off or the service line has none
+export function serviceLinePrefix(serviceLine?: string, config: NumberingConfig = numberingConfig): string {
+  if (!config.useServiceLinePrefixes) return '';
+  const slug = resolveServiceLineId(serviceLine);
+  return (slug && config.serviceLinePrefixes[slug]) || '';
+}
+
+export function formatDocumentNumber(
+  series: { prefix: string; documentType: string; year: number },
+  sequence: number,
+  config: NumberingConfig = numberingConfig
+): string {
+  return `${series.prefix ? `${series.prefix}-` : ''}${series.documentType}-${series.year}-${String(sequence).padStart(config.padding, '0')}`;
+}
+
+export function parseDocumentNumber(number: string): ParsedDocumentNumber | null {
+  const match = DOCUMENT_NUMBER_PATTERN.exec(number.trim());
+  if (!match) return null;
+  return {
+    prefix: match[1] || '',
+    documentType: match[2],
+    year: Number(match[3]),
+    sequence: Number(match[4])
+  };
+}
+
+const seriesName = (series: { prefix: string; documentType: string; year: number }) =>
+  `${series.prefix ? `${series.prefix}-` : ''}${series.documentType}-${series.year}`;
+
+function receiptNumberOf(content: string): string | undefined {
+  try {
+    const receiptNumber = JSON.parse(content).receiptNumber;
+    return typeof receiptNumber === 'string' ? receiptNumber : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Highest sequence already issued in a series, across every table that holds document numbers.
+// Seeds a new counter so it carries on from numbers issued before sequences existed.
+async function highestIssuedSequence(
+  db: Prisma.TransactionClient,
+  series: { prefix: string; documentType: string; year: number }
+): Promise<number> {
+  const start = `${seriesName(series)}-`;
+
+  const [documents, records, receipts] = await Promise.all([
+    db.billingDocument.findMany({ where: { documentNumber: { startsWith: start } }, select: { documentNumber: true } }),
+    series.documentType === 'INV'
+      ? db.billingRecord.findMany({ where: { invoiceNumber: { startsWith: start } }, select: { invoiceNumber: true } })
+      : [],
+    // Receipts are stored in the Document table with the number inside the JSON content
+    series.documentType === 'REC'
+      ? db.document.findMany({ where: { type: 'RECEIPT', content: { contains: `"receiptNumber":"${start}` } }, select: { content: true } })
+      : []
+  ]);
+
+  const numbers = [
+    ...documents.map(document => document.documentNumber),
+    ...records.map(record => record.invoiceNumber!),
+    ...receipts.map(receipt => receiptNumberOf(receipt.content) || '')
+  ];
+
+  return numbers.reduce((highest, number) => {
+    const parsed = parseDocumentNumber(number);
+    return parsed && seriesName(parsed) === seriesName(series) ? Math.max(highest, parsed.sequence) : highest;
+  }, 0);
+}
+
+async function nextSequenceValue(
+  db: Prisma.TransactionClient,
+  series: { prefix: string; documentType: string; year: number }
+): Promise<number> {
+  // The increment takes a row lock, so a concurrent allocation waits for this transaction to finish
+  const { count } = await db.documentNumberSequence.updateMany({
+    where: series,
+    data: { lastValue: { increment: 1 } }
+  });
+
+  if (count > 0) {
+    const sequence = await db.documentNumberSequence.findUniqueOrThrow({
+      where: { prefix_documentType_year: series }
+    });
+    return sequence.lastValue;
+  }
+
+  const created = await db.documentNumberSequence.create({
+    data: { ...series, lastValue: (await highestIssuedSequence(db, series)) + 1 }
+  });
+  return created.lastValue;
+}
+
+/**
+ * Allocate the next number for a document type. Pass `tx` to allocate inside the transaction that
+ * saves the document, so a rollback gives the number back. Without one, the allocation runs in its
+ * own transaction and retries if another request created the series' counter first.
+ */
+export async function allocateDocumentNumber(
+  documentType: DocumentNumberType,
+  options: { serviceLine?: string; year?: number; tx?: Prisma.TransactionClient } = {}
+): Promise<string> {
+  const series = {
+    prefix: serviceLinePrefix(options.serviceLine),
+    documentType,
+    year: options.year ?? new Date().getFullYear()
+  };
+
+  if (options.tx) {
+    return formatDocumentNumber(series, await nextSequenceValue(options.tx, series));
+  }
+
+  const prisma = requirePrisma();
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const sequence = await prisma.$transaction(tx => nextSequenceValue(tx, series));
+      return formatDocumentNumber(series, sequence);
+    } catch (error) {
+      // Two first allocations in a series raced to create the counter - the loser increments it instead
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002' &&
+          attempt < MAX_ALLOCATION_ATTEMPTS) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+function toGaps(sequences: number[]): Array<{ from: number; to: number }> {
+  const gaps: Array<{ from: number; to: number }> = [];
+  let expected = 1;
+  for (const sequence of sequences) {
+    if (sequence > expected) {
+      gaps.push({ from: expected, to: sequence - 1 });
+    }
+    expected = Math.max(expected, sequence + 1);
+  }
+  return gaps;
+}
+
+/**
+ * Audit issued document numbers - BillingDocument numbers, scheduled invoice numbers on
+ * BillingRecord and receipt numbers - for gaps in each series, numbers used more than once, and
+ * counters that have fallen behind what was issued. Read-only.
+ */
+export async function auditDocumentNumbers(options: { year?: number } = {}): Promise<DocumentNumberAuditReport> {
+  const prisma = requirePrisma();
+  const yearFilter = options.year ? `-${options.year}-` : undefined;
+
+  const [documents, records, receipts, sequences] = await Promise.all([
+    prisma.billingDocument.findMany({
+      where: yearFilter ? { documentNumber: { contains: yearFilter } } : {},
+      select: { id: true, documentNumber: true }
+    }),
+    prisma.billingRecord.findMany({
+      where: { invoiceNumber: yearFilter ? { contains: yearFilter } : { not: null } },
+      select: { id: true, invoiceNumber: true }
+    }),
+    prisma.document.findMany({
+      where: { type: 'RECEIPT', ...(yearFilter && { content: { contains: yearFilter } }) },
+      select: { id: true, content: true }
+    }),
+    prisma.documentNumberSequence.findMany(options.year ? { where: { year: options.year } } : undefined)
+  ]);
+
+  const occurrences: DocumentNumberOccurrence[] = [
+    ...documents.map(document => ({ number: document.documentNumber, source: 'billing_document' as const, id: document.id })),
+    ...records.map(record => ({ number: record.invoiceNumber!, source: 'billing_record' as const, id: record.id })),
+    ...receipts.flatMap(receipt => {
+      const number = receiptNumberOf(receipt.content);
+      return number ? [{ number, source: 'receipt_document' as const, id: receipt.id }] : [];
+    })
+  ];
+
+  const series = new Map<string, { parsed: ParsedDocumentNumber; byNumber: Map<string, DocumentNumberOccurrence[]> }>();
+  const unrecognized: DocumentNumberOccurrence[] = [];
+
+  for (const occurrence of occurrences) {
+    const parsed = parseDocumentNumber(occurrence.number);
+    if (!parsed) {
+      unrecognized.push(occurrence);
+      continue;
+    }
+    if (options.year && parsed.year !== options.year) continue;
+
+    const name = seriesName(parsed);
+    if (!series.has(name)) {
+      series.set(name, { parsed, byNumber: new Map() });
+    }
+    const byNumber = series.get(name)!.byNumber;
+    byNumber.set(occurrence.number, [...(byNumber.get(occurrence.number) || []), occurrence]);
+  }
+
+  // Series that only exist as a counter (allocated numbers whose documents were never saved)
+  for (const sequence of sequences) {
+    const name = seriesName(sequence);
+    if (!series.has(name)) {
+      series.set(name, { parsed: { ...sequence, sequence: 0 }, byNumber: new Map() });
+    }
+  }
+
+  const counters = new Map(sequences.map(sequence => [seriesName(sequence), sequence.lastValue]));
+
+  const audits: DocumentNumberSeriesAudit[] = Array.from(series.entries()).map(([name, { parsed, byNumber }]) => {
+    const sequenceNumbers = Array.from(new Set(
+      Array.from(byNumber.keys()).map(number => parseDocumentNumber(number)!.sequence)
+    )).sort((a, b) => a - b);
+    const highest = sequenceNumbers[sequenceNumbers.length - 1] || 0;
+    const sequenceLastValue = counters.get(name);
+
+    // Trailing numbers the counter handed out but nothing was saved under count as gaps too
+    const gaps = toGaps(sequenceNumbers);
+    if (sequenceLastValue !== undefined && sequenceLastValue > highest) {
+      gaps.push({ from: highest + 1, to: sequenceLastValue });
+    }
+
+    return {
+      series: name,
+      prefix: parsed.prefix,
+      documentType: parsed.documentType,
+      year: parsed.year,
+      count: byNumber.size,
+      highest,
+      sequenceLastValue,
+      gaps,
+      // "INV-2025-7" and "INV-2025-007" are the same sequence number, so compare by sequence too
+      duplicates: Array.from(
+        Array.from(byNumber.values()).flat().reduce((bySequence, occurrence) => {
+          const sequence = parseDocumentNumber(occurrence.number)!.sequence;
+          bySequence.set(sequence, [...(bySequence.get(sequence) || []), occurrence]);
+          return bySequence;
+        }, new Map<number, DocumentNumberOccurrence[]>()).values()
+      )
+        .filter(found => found.length > 1)
+        .map(found => ({ number: found[0].number, occurrences: found })),
+      counterBehind: sequenceLastValue !== undefined && sequenceLastValue < highest
+    };
+  }).sort((a, b) => b.year - a.year || a.series.localeCompare(b.series));
+
+  return {
+    generatedAt: new Date(),
+    year: options.year,
+    series: audits,
+    unrecognized,
+    totals: {
+      numbers: audits.reduce((sum, audit) => sum + audit.count, 0) + unrecognized.length,
+      gaps: audits.reduce((sum, audit) => sum + audit.gaps.reduce((count, gap) => count + gap.to - gap.from + 1, 0), 0),
+      duplicates: audits.reduce((sum, audit) => sum + audit.duplicates.length, 0)
+    }
+  };
+}
@@ -0,0 +1,81 @@
+// src/lib/dunning.test.ts
+
+import { currentReminderStage, runDunning } from "./dunning";
+import { getPrismaClient } from "./prisma";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+jest.mock("./billing-manager", () => ({ billingManager: {} }));
+jest.mock("./email-integration", () => ({ emailIntegration: {} }));
+jest.mock("./pdf-generator", () => ({ __esModule: true, default: {} }));
+jest.mock("./json-fields", () => ({ transformClientRecordForResponse: jest.fn() }));
+jest.mock("./activity-logger", () => ({ logInvoiceOverdue: jest.fn(), logPaymentReminderSent: jest.fn() }));
+
+const asOf = new Date(2026, 5, 15, 9);
+const dueDate = new Date(2026, 5, 1);
+
+function invoice(id: string, amount: number, payments: number[]) {
+  return { id, documentNumber: `INV-2026-${id}`, clientId: "client-1", dueDate, amount, payments: payments.map(paid => ({ amount: paid })) };
+}
+
+function mockDatabase(documents: ReturnType<typeof invoice>[], credits: Record<string, number> = {}) {
+  const prisma = {
+    billingDocument: {
+      // The reminder ladder also looks at OVERDUE invoices - this test only covers the overdue sweep
+      findMany: jest.fn(async ({ where }: { where: { status: { in: string[] } } }) =>
+        where.status.in.includes("OVERDUE") ? [] : documents
+      ),
+      groupBy: jest.fn(async () =>
+        Object.entries(credits).map(([originalDocumentId, amount]) => ({ originalDocumentId, _sum: { amount } }))
+      ),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+    billingRecord: {
+      findMany: jest.fn(async () => []),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+  };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+  return prisma;
+}
+
+describe("Dunning", () => {
+  describe("currentReminderStage", () => {
+    it("should pick the latest offset reached", () => {
+      expect(currentReminderStage(dueDate, new Date(2026, 4, 29), [-3, 0, 7, 14])).toBe(-3);
+      expect(currentReminderStage(dueDate, new Date(2026, 5, 10), [-3, 0, 7, 14])).toBe(7);
+      expect(currentReminderStage(dueDate, new Date(2026, 4, 20), [-3, 0, 7, 14])).toBeUndefined();
+    });
+  });
+
+  describe("overdue sweep", () => {
+    it("should mark partially paid invoices overdue while a balance is left", async () => {
+      const prisma = mockDatabase([invoice("001", 100, []), invoice("002", 100, [40]), invoice("003", 100, [60, 40])]);
+
+      const result = await runDunning({ asOf });
+
+      expect(result.markedOverdue.map(target => target.targetId)).toEqual(["001", "002"]);
+      expect(prisma.billingDocument.findMany.mock.calls[0][0].where.status).toEqual({ in: ["SENT", "PARTIAL_PAYMENT"] });
+      expect(prisma.billingDocument.updateMany).toHaveBeenCalledWith({
+        where: { id: "002", status: { in: ["SENT", "PARTIAL_PAYMENT"] } },
+        data: { status: "OVERDUE" },
+      });
+    });
+
+    it("should not mark an invoice overdue once payments and credits cover it", async () => {
+      mockDatabase([invoice("004", 100, [70])], { "004": 30 });
+
+      const result = await runDunning({ asOf, dryRun: true });
+
+      expect(result.markedOverdue).toEqual([]);
+    });
+
+    it("should skip invoices settled between the lookup and the update", async () => {
+      const prisma = mockDatabase([invoice("005", 100, [50])]);
+      prisma.billingDocument.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await runDunning({ asOf });
+
+      expect(result.markedOverdue).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,406 @@
+// src/lib/dunning.ts
+// Overdue detection and dunning. Meant to run once a day: flips SENT and partially paid invoices
+// past their due date with a balance left to OVERDUE, then walks each open invoice up the reminder ladder (DunningConfig.reminderOffsets).
+// Every reminder is recorded as a PaymentReminder so a stage is never sent twice, and the ladder
+// stops as soon as a payment is recorded.
+import { Prisma } from '@prisma/client';
+import { getPrismaClient } from './prisma';
+import { EmailAttachment, emailIntegration, EmailResult } from './email-integration';
+import PDFGenerator from './pdf-generator';
+import { billingManager } from './billing-manager';
+import { calculateBalance, getCreditedTotals } from './payment-ledger';
+import { transformClientRecordForResponse } from './json-fields';
+import { logInvoiceOverdue, logPaymentReminderSent } from './activity-logger';
+import {
+  DEFAULT_DUNNING_CONFIG,
+  DunningConfig,
+  DunningRunResult,
+  DunningTarget,
+  Invoice
+} from '../types/billing';
+import { Client } from '../types/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface OpenInvoice extends DunningTarget {
+  status: string;
+  amount: number;
+  description: string;
+  serviceType: string;
+  createdAt: Date;
+  payments: Array<{ amount: number }>;
+  reminderStages: number[];
+  amountCredited: number;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Whole calendar days from the due date to `asOf` (negative before the due date)
+function daysFromDue(dueDate: Date, asOf: Date): number {
+  return Math.round((startOfDay(asOf).getTime() - startOfDay(dueDate).getTime()) / DAY_MS);
+}
+
+function resolveConfig(config?: Partial<DunningConfig>): DunningConfig {
+  const merged = { ...DEFAULT_DUNNING_CONFIG, ...config };
+  return {
+    ...merged,
+    reminderOffsets: Array.from(new Set(merged.reminderOffsets.map(offset => Math.trunc(offset)))).sort((a, b) => a - b)
+  };
+}
+
+// The ladder step due today: the latest offset we have reached
+export function currentReminderStage(dueDate: Date, asOf: Date, offsets: number[]): number | undefined {
+  const days = daysFromDue(dueDate, asOf);
+  return offsets.filter(offset => offset <= days).pop();
+}
+
+function reminderMessage(invoice: OpenInvoice, stage: number, amountDue: number): string {
+  const amount = `$${amountDue.toFixed(2)}`;
+  const dueDate = invoice.dueDate.toLocaleDateString('en-CA', { month: 'long', day: 'numeric', year: 'numeric' });
+
+  if (stage < 0) {
+    return `This is a friendly reminder that invoice ${invoice.documentNumber} for ${amount} is due on ${dueDate}.`;
+  }
+  if (stage === 0) {
+    return `Invoice ${invoice.documentNumber} for ${amount} is due today. If you've already sent payment, thank you - please disregard this reminder.`;
+  }
+  if (stage < 30) {
+    return `Invoice ${invoice.documentNumber} is now ${stage} days past due. The outstanding balance is ${amount}. Please submit payment at your earliest convenience.`;
+  }
+  return `Invoice ${invoice.documentNumber} is ${stage} days past due with ${amount} outstanding. Please submit payment immediately or contact us to arrange a payment plan.`;
+}
+
+function toInvoice(invoice: OpenInvoice, client: Client, amountPaid: number, amountDue: number, overdue: boolean): Invoice {
+  return {
+    id: invoice.targetId,
+    invoiceNumber: invoice.documentNumber,
+    clientId: invoice.clientId,
+    client,
+    items: [{
+      id: `${invoice.targetId}_item`,
+      description: invoice.description,
+      serviceType: invoice.serviceType,
+      quantity: 1,
+      unitPrice: invoice.amount,
+      totalPrice: invoice.amount,
+      taxable: false
+    }],
+    subtotal: invoice.amount,
+    taxAmount: 0,
+    totalAmount: invoice.amount,
+    dueDate: invoice.dueDate,
+    paymentTerms: 'net30',
+    status: overdue ? 'overdue' : 'sent',
+    createdAt: invoice.createdAt,
+    updatedAt: new Date(),
+    amountPaid,
+    balanceDue: amountDue
+  };
+}
+
+// Invoices issued through BillingManager carry their real line items and taxes; legacy
+// BillingRecords only have a single amount, so they fall back to a one-line invoice.
+async function loadReminderInvoice(
+  invoice: OpenInvoice,
+  client: Client,
+  amountPaid: number,
+  amountDue: number,
+  overdue: boolean
+): Promise<Invoice> {
+  const stored = invoice.targetType === 'billing_document'
+    ? await billingManager.getInvoiceById(invoice.targetId)
+    : null;
+  if (!stored) {
+    return toInvoice(invoice, client, amountPaid, amountDue, overdue);
+  }
+  return {
+    ...stored,
+    client,
+    status: overdue ? 'overdue' : stored.status,
+    amountPaid,
+    balanceDue: amountDue
+  };
+}
+
+// A rendering failure shouldn't hold up the reminder
+async function renderReminderAttachment(invoice: Invoice): Promise<EmailAttachment | undefined> {
+  try {
+    return {
+      filename: PDFGenerator.getPDFFilename('Invoice', invoice.invoiceNumber),
+      content: await PDFGenerator.generateInvoicePDF(invoice)
+    };
+  } catch (error) {
+    console.error('[Dunning] Failed to render invoice PDF attachment:', error);
+    return undefined;
+  }
+}
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+async function markOverdueInvoices(asOf: Date, dryRun: boolean, result: DunningRunResult): Promise<void> {
+  const prisma = requirePrisma();
+  const pastDue = { lt: startOfDay(asOf) };
+  // A partial payment doesn't stop the rest of the invoice from going overdue
+  const openStatuses = { in: ['SENT' as const, 'PARTIAL_PAYMENT' as const] };
+  const payments = { select: { amount: true } };
+
+  const [documents, records] = await Promise.all([
+    prisma.billingDocument.findMany({
+      where: { documentType: 'INVOICE', status: openStatuses, dueDate: pastDue },
+      select: { id: true, documentNumber: true, clientId: true, dueDate: true, amount: true, payments }
+    }),
+    prisma.billingRecord.findMany({
+      where: { status: openStatuses, dueDate: pastDue },
+      select: { id: true, invoiceNumber: true, billingPeriod: true, clientId: true, dueDate: true, amount: true, payments }
+    })
+  ]);
+
+  // Only what's still owed after payments and credit notes can be overdue
+  const credited = await getCreditedTotals(prisma, [
+    ...documents.map(document => document.id),
+    ...records.map(record => record.id)
+  ]);
+  const outstanding = (invoice: { id: string; amount: number; payments: Array<{ amount: number }> }) =>
+    calculateBalance(invoice.amount, invoice.payments, credited.get(invoice.id)).balanceDue > 0;
+
+  const targets: DunningTarget[] = [
+    ...documents.filter(outstanding).map(document => ({
+      targetType: 'billing_document' as const,
+      targetId: document.id,
+      documentNumber: document.documentNumber,
+      clientId: document.clientId,
+      dueDate: document.dueDate!
+    })),
+    ...records.filter(outstanding).map(record => ({
+      targetType: 'billing_record' as const,
+      targetId: record.id,
+      documentNumber: record.invoiceNumber || record.billingPeriod,
+      clientId: record.clientId,
+      dueDate: record.dueDate!
+    }))
+  ];
+
+  for (const target of targets) {
+    try {
+      if (!dryRun) {
+        // Conditional update so a payment recorded in the meantime isn't overwritten
+        const { count } = target.targetType === 'billing_document'
+          ? await prisma.billingDocument.updateMany({ where: { id: target.targetId, status: openStatuses }, data: { status: 'OVERDUE' } })
+          : await prisma.billingRecord.updateMany({ where: { id: target.targetId, status: openStatuses }, data: { status: 'OVERDUE' } });
+        if (count === 0) continue;
+
+        await logInvoiceOverdue({
+          invoiceId: target.targetId,
+          invoiceNumber: target.documentNumber,
+          clientId: target.clientId,
+          dueDate: target.dueDate
+        });
+      }
+      result.markedOverdue.push(target);
+    } catch (error) {
+      result.errors.push({ targetId: target.targetId, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+}
+
+async function findOpenInvoices(asOf: Date, config: DunningConfig): Promise<OpenInvoice[]> {
+  const prisma = requirePrisma();
+  // Earliest ladder step may be before the due date, so look that far ahead
+  const lookAhead = Math.max(0, -(config.reminderOffsets[0] ?? 0));
+  const dueBy = { lte: new Date(startOfDay(asOf).getTime() + (lookAhead + 1) * DAY_MS) };
+  const statuses = config.remindAfterPartialPayment
+    ? ['SENT', 'OVERDUE', 'PARTIAL_PAYMENT'] as const
+    : ['SENT', 'OVERDUE'] as const;
+
+  const [documents, records] = await Promise.all([
+    prisma.billingDocument.findMany({
+      where: { documentType: 'INVOICE', status: { in: [...statuses] }, dueDate: dueBy },
+      include: { payments: { select: { amount: true } }, reminders: { select: { stage: true } } }
+    }),
+    prisma.billingRecord.findMany({
+      where: { status: { in: [...statuses] }, dueDate: dueBy },
+      include: {
+        payments: { select: { amount: true } },
+        reminders: { select: { stage: true } },
+        serviceLine: { select: { slug: true } }
+      }
+    })
+  ]);
+
+  const credited = await getCreditedTotals(prisma, [
+    ...documents.map(document => document.id),
+    ...records.map(record => record.id)
+  ]);
+
+  return [
+    ...documents.map(document => ({
+      targetType: 'billing_document' as const,
+      targetId: document.id,
+      documentNumber: document.documentNumber,
+      clientId: document.clientId,
+      dueDate: document.dueDate!,
+      status: document.status,
+      amount: document.amount,
+      description: document.description || `Invoice ${document.documentNumber}`,
+      serviceType: document.serviceType,
+      createdAt: document.createdAt,
+      payments: document.payments,
+      reminderStages: document.reminders.map(reminder => reminder.stage),
+      amountCredited: credited.get(document.id) || 0
+    })),
+    ...records.map(record => ({
+      targetType: 'billing_record' as const,
+      targetId: record.id,
+      documentNumber: record.invoiceNumber || record.billingPeriod,
+      clientId: record.clientId,
+      dueDate: record.dueDate!,
+      status: record.status,
+      amount: record.amount,
+      description: record.description,
+      serviceType: record.serviceLine.slug,
+      createdAt: record.createdAt,
+      payments: record.payments,
+      reminderStages: record.reminders.map(reminder => reminder.stage),
+      amountCredited: credited.get(record.id) || 0
+    }))
+  ];
+}
+
+async function sendReminders(
+  asOf: Date,
+  config: DunningConfig,
+  dryRun: boolean,
+  result: DunningRunResult
+): Promise<void> {
+  const prisma = requirePrisma();
+  const clients = new Map<string, Client | null>();
+  const invoices = await findOpenInvoices(asOf, config);
+
+  for (const invoice of invoices) {
+    const stage = currentReminderStage(invoice.dueDate, asOf, config.reminderOffsets);
+    if (stage === undefined) continue;
+
+    // Missed steps (e.g. the job didn't run for a week) are skipped - only the current one is sent
+    if (invoice.reminderStages.some(sent => sent >= stage)) continue;
+
+    if (invoice.payments.length > 0 && !config.remindAfterPartialPayment) {
+      result.skipped.push({ targetId: invoice.targetId, reason: 'Payment recorded' });
+      continue;
+    }
+
+    const { amountPaid, balanceDue } = calculateBalance(invoice.amount, invoice.payments, invoice.amountCredited);
+    if (balanceDue <= 0) {
+      result.skipped.push({ targetId: invoice.targetId, reason: 'Nothing outstanding' });
+      continue;
+    }
+
+    try {
+      if (!clients.has(invoice.clientId)) {
+        const record = await prisma.clientRecord.findUnique({ where: { id: invoice.clientId } });
+        clients.set(invoice.clientId, record ? transformClientRecordForResponse(record) : null);
+      }
+      const client = clients.get(invoice.clientId);
+      const recipient = client?.billingInfo?.email || client?.email;
+      if (!client || !recipient) {
+        result.skipped.push({ targetId: invoice.targetId, reason: 'Client has no email address' });
+        continue;
+      }
+
+      const sent = { ...invoice, stage, amountDue: balanceDue, recipient };
+      if (dryRun) {
+        result.remindersSent.push(sent);
+        continue;
+      }
+
+      // Claim the stage before sending - the unique (target, stage) constraint means an
+      // overlapping run fails here instead of emailing the client a second time
+      const reminder = await prisma.paymentReminder.create({
+        data: {
+          clientId: invoice.clientId,
+          billingDocumentId: invoice.targetType === 'billing_document' ? invoice.targetId : undefined,
+          billingRecordId: invoice.targetType === 'billing_record' ? invoice.targetId : undefined,
+          stage,
+          recipient,
+          amountDue: balanceDue,
+          sentAt: asOf
+        }
+      });
+
+      let email: EmailResult;
+      try {
+        const reminderInvoice = await loadReminderInvoice(invoice, { ...client, email: recipient }, amountPaid, balanceDue, stage > 0);
+        email = await emailIntegration.sendPaymentReminder(
+          reminderInvoice,
+          reminderMessage(invoice, stage, balanceDue),
+          await renderReminderAttachment(reminderInvoice)
+        );
+        if (!email.success) {
+          throw new Error(email.error || 'Failed to send reminder');
+        }
+      } catch (error) {
+        // Release the claim so the next run retries this stage
+        await prisma.paymentReminder.delete({ where: { id: reminder.id } }).catch(() => undefined);
+        throw error;
+      }
+
+      await prisma.paymentReminder.update({
+        where: { id: reminder.id },
+        data: { messageId: email.messageId }
+      });
+
+      await logPaymentReminderSent({
+        invoiceId: invoice.targetId,
+        invoiceNumber: invoice.documentNumber,
+        clientId: invoice.clientId,
+        clientName: client.name,
+        stage,
+        amount: balanceDue,
+        recipient
+      });
+
+      result.remindersSent.push(sent);
+    } catch (error) {
+      // A concurrent run already sent this stage
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        result.skipped.push({ targetId: invoice.targetId, reason: `Reminder for stage ${stage} already sent` });
+        continue;
+      }
+      console.error(`[Dunning] Failed to send reminder for ${invoice.documentNumber}:`, error);
+      result.errors.push({ targetId: invoice.targetId, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+}
+
+/**
+ * Run overdue detection and the reminder ladder as of `asOf` (defaults to now). Idempotent - safe
+ * to call from a daily cron or by hand; dryRun reports what would happen without writing or sending.
+ */
+export async function runDunning(
+  options: { asOf?: Date; dryRun?: boolean; config?: Partial<DunningConfig> } = {}
+): Promise<DunningRunResult> {
+  const asOf = options.asOf || new Date();
+  const dryRun = options.dryRun === true;
+  const config = resolveConfig(options.config);
+
+  const result: DunningRunResult = {
+    asOf,
+    dryRun,
+    markedOverdue: [],
+    remindersSent: [],
+    skipped: [],
+    errors: []
+  };
+
+  await markOverdueInvoices(asOf, dryRun, result);
+  await sendReminders(asOf, config, dryRun, result);
+
+  return result;
+}
@@ -1,5 +1,5 @@
 // src/lib/email-integration.ts
-import { Receipt, Invoice } from '../types/billing';
+import { Receipt, Invoice, CreditNote, Quote } from '../types/billing';
 import PDFGenerator from './pdf-generator';
 
 // Simple email integration utility
@@ -11,6 +11,11 @@ export interface EmailConfig {
   replyTo?: string;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
 export interface EmailResult {
   success: boolean;
   messageId?: string;
@@ -57,8 +62,8 @@ export class EmailIntegration {
     }
   }
 
-  // Send invoice via email
-  async sendInvoice(invoice: Invoice, customMessage?: string): Promise<EmailResult> {
+  // Send invoice via email, with the PDF attached when one is provided
+  async sendInvoice(invoice: Invoice, customMessage?: string, attachment?: EmailAttachment): Promise<EmailResult> {
     try {
       if (!invoice.client.email) {
         throw new Error('Client email address is required');
@@ -71,7 +76,8 @@ export class EmailIntegration {
       console.log('Sending invoice email:', {
         to: invoice.client.email,
         subject,
-        html: htmlContent
+        html: htmlContent,
+        attachments: attachment ? [attachment.filename] : []
       });
 
       // Simulate email sending
@@ -90,6 +96,83 @@ export class EmailIntegration {
     }
   }
 
+  // Send credit note via email, with the PDF attached when one is provided
+  async sendCreditNote(
+    creditNote: CreditNote,
+    customMessage?: string,
+    attachment?: EmailAttachment
+  ): Promise<EmailResult> {
+    try {
+      if (!creditNote.client.email) {
+        throw new Error('Client email address is required');
+      }
+
+      const subject = `Credit Note ${creditNote.creditNoteNumber} - ${creditNote.originalDocumentNumber}`;
+      const htmlContent = this.generateCreditNoteEmailContent(creditNote, customMessage);
+
+      // In a real implementation, you would use an email service here
+      console.log('Sending credit note email:', {
+        to: creditNote.client.email,
+        subject,
+        html: htmlContent,
+        attachments: attachment ? [attachment.filename] : []
+      });
+
+      // Simulate email sending
+      await this.simulateEmailSend();
+
+      return {
+        success: true,
+        messageId: `credit_note_${creditNote.id}_${Date.now()}`
+      };
+    } catch (error) {
+      console.error('Error sending credit note email:', error);
+      return {
+        success: false,
+        error: (error as Error).message
+      };
+    }
+  }
+
+  // Send quote via email with its acceptance link, and the PDF attached when one is provided
+  async sendQuote(
+    quote: Quote,
+    acceptanceUrl: string,
+    customMessage?: string,
+    attachment?: EmailAttachment
+  ): Promise<EmailResult> {
+    try {
+      if (!quote.client.email) {
+        throw new Error('Client email address is required');
+      }
+
+      const subject = `Quote ${quote.quoteNumber} - Review and accept online`;
+      const htmlContent = this.generateQuoteEmailContent(quote, acceptanceUrl, customMessage);
+
+      // In a real implementation, you would use an email service here
+      console.log('Sending quote email:', {
+        to: quote.client.email,
+        subject,
+        html: htmlContent,
+        attachments: attachment ? [attachment.filename] : []
+      });
+
+      // Simulate email sending
+      await this.simulateEmailSend();
+
+      return {
+        success: true,
+        messageId: `quote_${quote.id}_${Date.now()}`
+      };
+    } catch (error) {
+      console.error('Error sending quote email:', error);
+      return {
+        success: false,
+        error: (error as Error).message
+      };
+    }
+  }
+
   // Generate email content for receipt
   private generateReceiptEmailContent(receipt: Receipt, customMessage?: string): string {
     const receiptHtml = PDFGenerator.generateReceiptEmailHTML(receipt);
@@ -208,6 +291,105 @@ export class EmailIntegration {
 </html>`;
   }
 
+  // Generate email content for quote
+  private generateQuoteEmailContent(quote: Quote, acceptanceUrl: string, customMessage?: string): string {
+    const quoteHtml = PDFGenerator.generateQuoteEmailHTML(quote);
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Quote ${quote.quoteNumber}</title>
+</head>
+<body style="margin: 0; padding: 20px; font-family: Arial, sans-serif; background-color: #f5f5f5;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
+        <!-- Header -->
+        <div style="background-color: #D4AF37; color: white; padding: 20px; text-align: center;">
+            <h1 style="margin: 0; font-size: 24px;">Quote</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">Valid until ${new Date(quote.validUntil).toLocaleDateString()}</p>
+        </div>
+        
+        <!-- Custom Message -->
+        ${customMessage ? `
+        <div style="padding: 20px; background-color: #f8fafc; border-bottom: 1px solid #e2e8f0;">
+            <p style="margin: 0; color: #475569; font-style: italic;">${customMessage}</p>
+        </div>
+        ` : ''}
+        
+        <!-- Quote Content -->
+        <div style="padding: 20px;">
+            ${quoteHtml}
+        </div>
+        
+        <!-- Acceptance Link -->
+        <div style="padding: 20px; text-align: center; border-top: 1px solid #e2e8f0;">
+            <a href="${acceptanceUrl}" style="display: inline-block; background-color: #D4AF37; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">
+                Review and accept quote
+            </a>
+        </div>
+        
+        <!-- Footer -->
+        <div style="background-color: #f8fafc; padding: 20px; text-align: center; border-top: 1px solid #e2e8f0;">
+            <p style="margin: 0; color: #64748b; font-size: 14px;">
+                Questions about this quote? Contact us at ${this.config.replyTo || this.config.fromEmail}
+            </p>
+            <p style="margin: 10px 0 0 0; color: #94a3b8; font-size: 12px;">
+                This is an automated email. Please do not reply directly to this message.
+            </p>
+        </div>
+    </div>
+</body>
+</html>`;
+  }
+
+  // Generate email content for credit note
+  private generateCreditNoteEmailContent(creditNote: CreditNote, customMessage?: string): string {
+    const creditNoteHtml = PDFGenerator.generateCreditNoteEmailHTML(creditNote);
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Credit Note ${creditNote.creditNoteNumber}</title>
+</head>
+<body style="margin: 0; padding: 20px; font-family: Arial, sans-serif; background-color: #f5f5f5;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
+        <!-- Header -->
+        <div style="background-color: #D4AF37; color: white; padding: 20px; text-align: center;">
+            <h1 style="margin: 0; font-size: 24px;">Credit Note</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">${creditNote.refundMethod ? 'Your refund has been issued' : 'A credit has been applied to your account'}</p>
+        </div>
+        
+        <!-- Custom Message -->
+        ${customMessage ? `
+        <div style="padding: 20px; background-color: #f8fafc; border-bottom: 1px solid #e2e8f0;">
+            <p style="margin: 0; color: #475569; font-style: italic;">${customMessage}</p>
+        </div>
+        ` : ''}
+        
+        <!-- Credit Note Content -->
+        <div style="padding: 20px;">
+            ${creditNoteHtml}
+        </div>
+        
+        <!-- Footer -->
+        <div style="background-color: #f8fafc; padding: 20px; text-align: center; border-top: 1px solid #e2e8f0;">
+            <p style="margin: 0; color: #64748b; font-size: 14px;">
+                Questions about this credit note? Contact us at ${this.config.replyTo || this.config.fromEmail}
+            </p>
+            <p style="margin: 10px 0 0 0; color: #94a3b8; font-size: 12px;">
+                This is an automated email. Please do not reply directly to this message.
+            </p>
+        </div>
+    </div>
+</body>
+</html>`;
+  }
+
   // Simulate email sending (replace with actual email service)
   private async simulateEmailSend(): Promise<void> {
     // Simulate network delay
@@ -223,10 +405,10 @@ export class EmailIntegration {
   }
 
   // Send payment reminder for overdue invoices
-  async sendPaymentReminder(invoice: Invoice, reminderMessage?: string): Promise<EmailResult> {
+  async sendPaymentReminder(invoice: Invoice, reminderMessage?: string, attachment?: EmailAttachment): Promise<EmailResult> {
     const defaultMessage = `This is a friendly reminder that your invoice ${invoice.invoiceNumber} is past due. Please submit payment at your earliest convenience to avoid any service interruptions.`;
     
-    return await this.sendInvoice(invoice, reminderMessage || defaultMessage);
+    return await this.sendInvoice(invoice, reminderMessage || defaultMessage, attachment);
   }
 
   // Send receipt confirmation after payment
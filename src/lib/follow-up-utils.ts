@@ -12,6 +12,7 @@ import {
   AlternativeTimeSlot,
   FollowUpSystemConfig
 } from '@/types/follow-up';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone-utils';
 
 // Timezone handling utilities
 export class TimezoneUtils {
@@ -44,7 +45,7 @@ export class BusinessHoursValidator {
   static isWithinBusinessHours(
     date: Date, 
     businessHours: BusinessHours[], 
-    timezone: string = 'America/Toronto'
+    timezone: string = DEFAULT_TIMEZONE
   ): boolean {
     const localDate = TimezoneUtils.convertToTimezone(date, timezone);
     const dayName = localDate.toLocaleDateString('en-US', { weekday: 'long' }).toUpperCase();
@@ -62,7 +63,7 @@ export class BusinessHoursValidator {
     requestedDate: Date,
     duration: number,
     businessHours: BusinessHours[],
-    timezone: string = 'America/Toronto'
+    timezone: string = DEFAULT_TIMEZONE
   ): Date | null {
     let checkDate = new Date(requestedDate);
     const maxDaysToCheck = 30; // Prevent infinite loop
@@ -212,7 +213,7 @@ export class ConflictDetector {
     duration: number,
     conflicts: SchedulingConflict[],
     businessHours: BusinessHours[],
-    timezone: string = 'America/Toronto'
+    timezone: string = DEFAULT_TIMEZONE
   ): AlternativeTimeSlot[] {
     const alternatives: AlternativeTimeSlot[] = [];
     const baseDate = new Date(originalStart);
@@ -307,7 +308,7 @@ export class NotificationScheduler {
   static calculateReminderTimes(
     followUpDate: Date,
     reminderDays: number[],
-    timezone: string = 'America/Toronto'
+    timezone: string = DEFAULT_TIMEZONE
   ): Date[] {
     return reminderDays.map(days => {
       const reminderDate = new Date(followUpDate);
@@ -529,7 +530,7 @@ export const DEFAULT_FOLLOW_UP_CONFIG: FollowUpSystemConfig = {
     { day: 'SATURDAY', startTime: '10:00', endTime: '14:00', isWorkingDay: false },
     { day: 'SUNDAY', startTime: '10:00', endTime: '14:00', isWorkingDay: false }
   ],
-  timezone: 'America/Toronto',
+  timezone: DEFAULT_TIMEZONE,
   defaultDuration: 60,
   defaultReminderDays: [7, 1],
   maxAdvanceBookingDays: 365,
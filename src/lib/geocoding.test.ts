@@ -0,0 +1,46 @@
+// src/lib/geocoding.test.ts
+
+import { geocodeAddress, registerGeocoder, resolveEventCoordinates } from "./geocoding";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn(() => null) }));
+
+describe("Geocoding", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    registerGeocoder(null);
+    jest.useRealTimers();
+  });
+
+  it("should space Nominatim requests a second apart", async () => {
+    jest.useFakeTimers();
+    const requestedAt: number[] = [];
+    global.fetch = jest.fn(async () => {
+      requestedAt.push(Date.now());
+      return { ok: true, json: async () => [{ lat: "43.65", lon: "-79.38" }] };
+    }) as unknown as typeof fetch;
+
+    const lookups = Promise.all(["1 Main St", "2 Main St", "3 Main St"].map(address => geocodeAddress(address)));
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(await lookups).toEqual(Array(3).fill({ lat: 43.65, lng: -79.38 }));
+    expect(requestedAt[1] - requestedAt[0]).toBeGreaterThanOrEqual(1000);
+    expect(requestedAt[2] - requestedAt[1]).toBeGreaterThanOrEqual(1000);
+  });
+
+  it("should keep the location cache bounded", async () => {
+    const geocode = jest.fn(async () => ({ lat: 43.65, lng: -79.38 }));
+    registerGeocoder({ name: "test", geocode });
+
+    await resolveEventCoordinates({ location: "Site 0" });
+    for (let site = 1; site <= 500; site++) {
+      await resolveEventCoordinates({ location: `Site ${site}` });
+    }
+    // Site 0 was the least recently used, so it has to be looked up again
+    await resolveEventCoordinates({ location: "Site 0" });
+    await resolveEventCoordinates({ location: "Site 500" });
+
+    expect(geocode).toHaveBeenCalledTimes(502);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Geocoding of client addresses and event locations
+ * Client coordinates are stored with the address (ClientRecord.address.coordinates) together
+ * with the address text they were looked up from, so they're only looked up again when the
+ * address changes. Coordinates entered by hand (no geocodedFrom) are always kept.
+ *
+ * Lookups go to Google's Geocoding API when GOOGLE_MAPS_API_KEY is set, otherwise to
+ * OpenStreetMap Nominatim, at most one request a second as its usage policy asks. Free-text
+ * event locations are cached in memory, least recently used first out.
+ */
+
+import { Prisma } from '@prisma/client'
+import { getPrismaClient } from '@/lib/prisma'
+import { isGeoPoint, type GeoPoint } from '@/lib/travel-time'
+
+export interface Geocoder {
+  name: string
+  geocode(address: string): Promise<GeoPoint | null>
+}
+
+interface StoredAddress {
+  street?: string
+  city?: string
+  state?: string
+  zip?: string
+  country?: string
+  coordinates?: GeoPoint & { geocodedFrom?: string }
+}
+
+const GEOCODE_TIMEOUT_MS = 10000
+const NOMINATIM_INTERVAL_MS = 1000
+const LOCATION_CACHE_SIZE = 500
+
+// Map keeps insertion order - a hit is moved to the end, so the first key is the stalest
+const locationCache = new Map<string, GeoPoint>()
+
+/**
+ * One-line address from a stored address object (or an address that's already a string)
+ */
+export function formatAddress(address: unknown): string | null {
+  if (typeof address === 'string') return address.trim() || null
+  if (!address || typeof address !== 'object') return null
+
+  const { street, city, state, zip, country } = address as StoredAddress
+  const parts = [street, city, [state, zip].filter(Boolean).join(' '), country]
+    .map(part => part?.trim())
+    .filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+const googleGeocoder = (apiKey: string): Geocoder => ({
+  name: 'google',
+  async geocode(address) {
+    const params = new URLSearchParams({ address, key: apiKey })
+    const response = await fetch(`https://maps.googleapis.com/maps/api/geocode/json?${params}`, {
+      signal: AbortSignal.timeout(GEOCODE_TIMEOUT_MS)
+    })
+    if (!response.ok) throw new Error(`Geocoding request failed: ${response.status}`)
+
+    const data = await response.json()
+    if (data.status === 'ZERO_RESULTS') return null
+    if (data.status !== 'OK') throw new Error(`Geocoding returned ${data.status}`)
+
+    const location = data.results[0].geometry.location
+    return { lat: location.lat, lng: location.lng }
+  }
+})
+
+// Requests queue behind each other, so concurrent lookups are spaced out too
+let nominatimQueue: Promise<void> = Promise.resolve()
+let lastNominatimRequest = 0
+
+function nominatimTurn(): Promise<void> {
+  const turn = nominatimQueue.then(async () => {
+    const wait = lastNominatimRequest + NOMINATIM_INTERVAL_MS - Date.now()
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait))
+    lastNominatimRequest = Date.now()
+  })
+  nominatimQueue = turn
+  return turn
+}
+
+const nominatimGeocoder: Geocoder = {
+  name: 'nominatim',
+  async geocode(address) {
+    await nominatimTurn()
+    const params = new URLSearchParams({ q: address, format: 'json', limit: '1' })
+    const response = await fetch(`https://nominatim.openstreetmap.org/search?${params}`, {
+      // Nominatim's usage policy asks for an identifying User-Agent
+      headers: { 'User-Agent': `crm-scheduler (${process.env.NEXTAUTH_URL || 'localhost'})` },
+      signal: AbortSignal.timeout(GEOCODE_TIMEOUT_MS)
+    })
+    if (!response.ok) throw new Error(`Nominatim request failed: ${response.status}`)
+
+    const [result] = await response.json()
+    return result ? { lat: Number(result.lat), lng: Number(result.lon) } : null
+  }
+}
+
+let registeredGeocoder: Geocoder | null = null
+
+export function registerGeocoder(geocoder: Geocoder | null): void {
+  registeredGeocoder = geocoder
+}
+
+function getGeocoder(): Geocoder {
+  if (registeredGeocoder) return registeredGeocoder
+  return process.env.GOOGLE_MAPS_API_KEY ? googleGeocoder(process.env.GOOGLE_MAPS_API_KEY) : nominatimGeocoder
+}
+
+/**
+ * Coordinates of an address, or null when it can't be found (or the geocoder is unreachable)
+ */
+export async function geocodeAddress(address: string): Promise<GeoPoint | null> {
+  const geocoder = getGeocoder()
+  try {
+    const point = await geocoder.geocode(address)
+    return isGeoPoint(point) ? point : null
+  } catch (error) {
+    console.warn(`📍 [Geocoding] ${geocoder.name} lookup failed for "${address}":`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * A client's coordinates - stored ones, or looked up (and stored) when missing or stale
+ */
+export async function getClientCoordinates(client: { id: string; address: unknown }): Promise<GeoPoint | null> {
+  const address = (client.address && typeof client.address === 'object' ? client.address : {}) as StoredAddress
+  const text = formatAddress(client.address)
+  const stored = address.coordinates
+
+  if (isGeoPoint(stored) && (!stored.geocodedFrom || stored.geocodedFrom === text)) {
+    return { lat: stored.lat, lng: stored.lng }
+  }
+  if (!text) return null
+
+  const point = await geocodeAddress(text)
+  const prisma = getPrismaClient()
+  if (point && prisma && typeof client.address === 'object') {
+    try {
+      await prisma.clientRecord.update({
+        where: { id: client.id },
+        data: {
+          address: { ...address, coordinates: { ...point, geocodedFrom: text } } as Prisma.InputJsonValue
+        }
+      })
+    } catch (error) {
+      console.error('📍 [Geocoding] Error storing client coordinates:', error)
+    }
+  }
+  return point
+}
+
+/**
+ * Where a job happens: the client's address when the event has a client, else its location
+ */
+export async function resolveEventCoordinates(event: {
+  location?: string | null
+  client?: { id: string; address: unknown } | null
+}): Promise<GeoPoint | null> {
+  if (event.client) {
+    const point = await getClientCoordinates(event.client)
+    if (point) return point
+  }
+
+  const location = event.location?.trim()
+  if (!location) return null
+
+  const key = location.toLowerCase()
+  const cached = locationCache.get(key)
+  if (cached) {
+    locationCache.delete(key)
+    locationCache.set(key, cached)
+    return cached
+  }
+
+  const point = await geocodeAddress(location)
+  // Misses aren't cached - the geocoder may just have been unreachable
+  if (!point) return null
+  locationCache.set(key, point)
+  if (locationCache.size > LOCATION_CACHE_SIZE) {
+    locationCache.delete(locationCache.keys().next().value!)
+  }
+  return point
+}
+
+/**
+ * Sites of a set of events, keyed by event id - saved events or ones still being scheduled,
+ * resolved from their client (clientId) or location text. Events whose site can't be found
+ * are left out.
+ */
+export async function resolveEventLocations(
+  events: { id: string; clientId?: string | null; location?: string | null }[]
+): Promise<Record<string, GeoPoint>> {
+  const prisma = getPrismaClient()
+  const clientIds = [...new Set(events.map(event => event.clientId).filter((id): id is string => !!id))]
+  const clients = prisma && clientIds.length > 0
+    ? await prisma.clientRecord.findMany({ where: { id: { in: clientIds } }, select: { id: true, address: true } })
+    : []
+  const clientsById = new Map(clients.map(client => [client.id, client]))
+
+  const locations: Record<string, GeoPoint> = {}
+  // One at a time - Nominatim lookups are spaced a second apart anyway
+  for (const event of events) {
+    const point = await resolveEventCoordinates({
+      location: event.location,
+      client: event.clientId ? clientsById.get(event.clientId) : null
+    })
+    if (point) locations[event.id] = point
+  }
+  return locations
+}
@@ -0,0 +1,228 @@
+/**
+ * Google Calendar push channels
+ * Each Google integration gets an events.watch channel so changes arrive at
+ * /api/calendar/webhooks/google instead of waiting for a poll. Channels expire after about a
+ * week and can't be extended - renewal registers a new channel and stops the old one.
+ *
+ * Every channel carries a random secret that Google echoes back in x-goog-channel-token; it is
+ * stored encrypted like the OAuth tokens. Integrations without a live channel (no public HTTPS
+ * URL, or registration failed) are polled with their syncToken instead.
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { google, calendar_v3, Common } from 'googleapis'
+import type { CalendarIntegration } from '@prisma/client'
+import { getPrismaClient } from '@/lib/prisma'
+import { decrypt, encrypt } from '@/lib/encryption'
+import { CalendarSyncService } from '@/lib/calendar-sync'
+
+// Google caps event channels at 7 days - ask for that and renew a day ahead
+export const GOOGLE_CHANNEL_TTL_MS = 7 * 24 * 60 * 60 * 1000
+export const GOOGLE_CHANNEL_RENEW_BEFORE_MS = 24 * 60 * 60 * 1000
+
+export interface GooglePushChannel {
+  channelId: string
+  resourceId: string
+  expiry: Date
+}
+
+/** The integration fields push channel calls read */
+type GoogleChannelIntegration = Pick<
+  CalendarIntegration,
+  'id' | 'accessToken' | 'refreshToken' | 'externalId' | 'webhookId' | 'webhookResourceId'
+>
+
+export interface GoogleChannelMaintenance {
+  renewed: string[]
+  failed: { integrationId: string; error: string }[]
+  polled: string[]
+}
+
+/**
+ * Notification URL for push channels - null when Google can't reach us (it only calls HTTPS URLs)
+ */
+export function googleWebhookAddress(): string | null {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL
+  return appUrl?.startsWith('https://') ? `${appUrl.replace(/\/$/, '')}/api/calendar/webhooks/google` : null
+}
+
+/**
+ * Whether push notifications currently cover this integration
+ */
+export function hasLivePushChannel(integration: { webhookId: string | null; webhookExpiry: Date | null }): boolean {
+  return !!integration.webhookId && !!integration.webhookExpiry && integration.webhookExpiry.getTime() > Date.now()
+}
+
+/**
+ * Check x-goog-channel-token against the secret stored for the channel. Channels registered
+ * before secrets were kept have none and are rejected - the next renewal replaces them.
+ */
+export function verifyGoogleChannelToken(integration: { webhookToken: string | null }, channelToken: string | null): boolean {
+  if (!integration.webhookToken || !channelToken) return false
+  try {
+    const expected = Buffer.from(decrypt(integration.webhookToken))
+    const received = Buffer.from(channelToken)
+    return expected.length === received.length && timingSafeEqual(expected, received)
+  } catch {
+    return false
+  }
+}
+
+function getCalendarClient(integration: GoogleChannelIntegration): calendar_v3.Calendar {
+  const oauth2Client = new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    process.env.GOOGLE_REDIRECT_URI
+  )
+
+  oauth2Client.setCredentials({
+    access_token: decrypt(integration.accessToken),
+    refresh_token: integration.refreshToken ? decrypt(integration.refreshToken) : null
+  })
+
+  // Keep refreshed tokens, like the sync service does
+  oauth2Client.on('tokens', async (tokens) => {
+    const prisma = getPrismaClient()
+    if (!tokens.access_token || !prisma) return
+    await prisma.calendarIntegration.update({
+      where: { id: integration.id },
+      data: {
+        accessToken: encrypt(tokens.access_token),
+        ...(tokens.refresh_token && { refreshToken: encrypt(tokens.refresh_token) }),
+        expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : null
+      }
+    }).catch(error => console.error('📅 [GooglePush] Failed to store refreshed tokens:', error))
+  })
+
+  return google.calendar({ version: 'v3', auth: oauth2Client })
+}
+
+/**
+ * Register a push channel for a Google integration, replacing any channel it already has.
+ * Returns null when push isn't available - the integration is then polled.
+ */
+export async function registerGooglePushChannel(integration: GoogleChannelIntegration): Promise<GooglePushChannel | null> {
+  const address = googleWebhookAddress()
+  if (!address) {
+    console.warn('📅 [GooglePush] NEXT_PUBLIC_APP_URL is not a public HTTPS URL - falling back to polling')
+    return null
+  }
+
+  const prisma = getPrismaClient()
+  if (!prisma) return null
+
+  const calendar = getCalendarClient(integration)
+  const channelId = randomUUID()
+  const channelToken = randomBytes(32).toString('hex')
+
+  const response = await calendar.events.watch({
+    calendarId: integration.externalId || 'primary',
+    requestBody: {
+      id: channelId,
+      type: 'web_hook',
+      address,
+      token: channelToken,
+      expiration: String(Date.now() + GOOGLE_CHANNEL_TTL_MS)
+    }
+  })
+
+  const channel: GooglePushChannel = {
+    channelId,
+    resourceId: response.data.resourceId || '',
+    expiry: new Date(Number(response.data.expiration) || Date.now() + GOOGLE_CHANNEL_TTL_MS)
+  }
+
+  await prisma.calendarIntegration.update({
+    where: { id: integration.id },
+    data: {
+      webhookId: channel.channelId,
+      webhookResourceId: channel.resourceId,
+      webhookToken: encrypt(channelToken),
+      webhookExpiry: channel.expiry
+    }
+  })
+
+  // The new channel is live before the old one goes, so no change falls in between
+  if (integration.webhookId && integration.webhookId !== channelId) {
+    await stopChannel(calendar, integration.webhookId, integration.webhookResourceId)
+  }
+
+  return channel
+}
+
+/**
+ * Stop an integration's push channel (on disconnect) and forget it
+ */
+export async function stopGooglePushChannel(integration: GoogleChannelIntegration): Promise<void> {
+  if (!integration.webhookId) return
+
+  await stopChannel(getCalendarClient(integration), integration.webhookId, integration.webhookResourceId)
+
+  const prisma = getPrismaClient()
+  await prisma?.calendarIntegration.update({
+    where: { id: integration.id },
+    data: {
+      webhookId: null,
+      webhookResourceId: null,
+      webhookToken: null,
+      webhookExpiry: null
+    }
+  })
+
+}
+
+async function stopChannel(calendar: calendar_v3.Calendar, channelId: string, resourceId: string | null) {
+  // Channels registered before resource IDs were kept can't be stopped - they lapse on their own
+  if (!resourceId) return
+  try {
+    await calendar.channels.stop({ requestBody: { id: channelId, resourceId } })
+  } catch (error) {
+    // Already expired or stopped
+    if (!(error instanceof Common.GaxiosError) || error.status !== 404) {
+      console.warn(`📅 [GooglePush] Failed to stop channel ${channelId}:`, error instanceof Error ? error.message : error)
+    }
+  }
+}
+
+/**
+ * Cron job: renew channels that expire within a day (or were never registered), then pull
+ * every Google integration push still doesn't cover
+ */
+export async function maintainGooglePushChannels(): Promise<GoogleChannelMaintenance> {
+  const result: GoogleChannelMaintenance = { renewed: [], failed: [], polled: [] }
+  const prisma = getPrismaClient()
+  if (!prisma) return result
+
+  const integrations = await prisma.calendarIntegration.findMany({
+    where: { provider: 'GOOGLE', isActive: true }
+  })
+
+  const renewBefore = Date.now() + GOOGLE_CHANNEL_RENEW_BEFORE_MS
+  for (const integration of integrations) {
+    // One integration's failure (revoked token, Google outage) mustn't stop the rest being maintained
+    try {
+      let covered = hasLivePushChannel(integration)
+
+      if (googleWebhookAddress() && (!covered || integration.webhookExpiry!.getTime() < renewBefore)) {
+        try {
+          covered = !!await registerGooglePushChannel(integration)
+          if (covered) result.renewed.push(integration.id)
+        } catch (error) {
+          console.error(`📅 [GooglePush] Failed to renew channel for integration ${integration.id}:`, error)
+          result.failed.push({ integrationId: integration.id, error: error instanceof Error ? error.message : String(error) })
+        }
+      }
+
+      if (!covered && integration.syncDirection !== 'EXPORT_ONLY') {
+        const pull = await CalendarSyncService.pullFromIntegration(integration.id, { trigger: 'poll' })
+        if (pull.error !== undefined) throw pull.error
+        result.polled.push(integration.id)
+      }
+    } catch (error) {
+      console.error(`📅 [GooglePush] Failed to poll integration ${integration.id}:`, error)
+      result.failed.push({ integrationId: integration.id, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,393 @@
+/**
+ * iCalendar (RFC 5545) helpers
+ * Builds and parses VCALENDAR/VEVENT text for CalDAV sync - line folding, text escaping,
+ * DATE / DATE-TIME values (UTC, TZID and floating) and the VEVENT properties we map to UnifiedEvent
+ */
+
+import type { UnifiedEvent } from '@/components/EventCreationModal'
+import {
+  DEFAULT_TIMEZONE,
+  convertWallClock,
+  isValidTimeZone,
+  resolveTimeZone,
+  toUtcInstant,
+  toWallClock
+} from '@/lib/timezone-utils'
+
+const PRODID = '-//Evangelo Sommer//CRM Calendar//EN'
+
+export interface ICalProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+export interface ParsedVEvent {
+  uid: string
+  summary: string
+  description?: string
+  location?: string
+  startDateTime: string // "YYYY-MM-DD" for all-day events, wall-clock in timeZone, or a UTC ISO date-time
+  endDateTime?: string
+  timeZone?: string // IANA zone of DTSTART (TZID); unset for UTC and floating times
+  isAllDay: boolean
+  status?: string // TENTATIVE, CONFIRMED, CANCELLED
+  attendees: string[]
+  lastModified?: Date
+  sequence: number
+  recurrenceId?: string
+  properties: ICalProperty[] // Every property on the VEVENT, for anything not mapped above
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+/**
+ * Fold a content line to 75 octets, continuing on lines that start with a space
+ */
+export function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8')
+  if (bytes.length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8')
+    // First line holds 75 octets, continuation lines 74 plus the leading space
+    if (currentBytes + charBytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+}
+
+/**
+ * Parse one content line - NAME;PARAM=value;PARAM="quoted":value
+ */
+export function parseContentLine(line: string): ICalProperty | null {
+  let index = 0
+  let inQuotes = false
+  while (index < line.length) {
+    const char = line[index]
+    if (char === '"') inQuotes = !inQuotes
+    else if (char === ':' && !inQuotes) break
+    index++
+  }
+  if (index >= line.length) return null
+
+  const [name, ...rawParams] = line.slice(0, index).match(/(?:[^;"]|"[^"]*")+/g) || []
+  if (!name) return null
+
+  const params: Record<string, string> = {}
+  for (const rawParam of rawParams) {
+    const separator = rawParam.indexOf('=')
+    if (separator === -1) continue
+    params[rawParam.slice(0, separator).toUpperCase()] = rawParam.slice(separator + 1).replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) }
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+/**
+ * Format a DTSTART/DTEND property for a local event time
+ * - "2025-03-01" (or an all-day event) -> DTSTART;VALUE=DATE:20250301
+ * - an ISO string with Z or an offset -> DTSTART:20250301T140000Z
+ * - a floating local time -> DTSTART;TZID=America/Toronto:20250301T090000
+ */
+export function formatDateProperty(name: string, value: string, isAllDay = false, timeZone = DEFAULT_TIMEZONE): string {
+  if (isAllDay || /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${name};VALUE=DATE:${value.slice(0, 10).replace(/-/g, '')}`
+  }
+
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    return `${name}:${formatUtcDateTime(new Date(value))}`
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/.exec(value)
+  if (!match) {
+    return `${name}:${formatUtcDateTime(new Date(value))}`
+  }
+  return `${name};TZID=${timeZone}:${match[1]}${match[2]}${match[3]}T${match[4]}${match[5]}${match[6] || '00'}`
+}
+
+export function formatUtcDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+/**
+ * Parse a DATE or DATE-TIME property value
+ * Returns "YYYY-MM-DD" for dates, an ISO string for UTC times, and "YYYY-MM-DDTHH:MM:SS" for
+ * floating and TZID times - wall-clock, like local events store them, with the TZID as timeZone
+ */
+export function parseDateValue(property: ICalProperty): { value: string; isDate: boolean; timeZone?: string } {
+  const raw = property.value.trim()
+  const dateMatch = /^(\d{4})(\d{2})(\d{2})$/.exec(raw)
+  if (property.params.VALUE === 'DATE' || dateMatch) {
+    const [, year, month, day] = dateMatch || /^(\d{4})(\d{2})(\d{2})/.exec(raw) || []
+    return { value: `${year}-${month}-${day}`, isDate: true }
+  }
+
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(raw)
+  if (!match) {
+    return { value: new Date(raw).toISOString(), isDate: false }
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const local = `${year}-${month}-${day}T${hour}:${minute}:${second}`
+
+  if (utc) {
+    return { value: `${local}.000Z`, isDate: false }
+  }
+
+  // Unknown TZID (e.g. a Windows zone name) - keep the wall-clock time as floating
+  const timeZone = property.params.TZID
+  return isValidTimeZone(timeZone)
+    ? { value: local, isDate: false, timeZone }
+    : { value: local, isDate: false }
+}
+
+function endOfEvent(event: UnifiedEvent, timeZone: string): string {
+  if (event.endDateTime) return event.endDateTime
+  const start = toUtcInstant(event.startDateTime, timeZone)
+  return toWallClock(new Date(start.getTime() + (event.duration || 60) * 60000).toISOString(), timeZone)
+}
+
+// DTEND of an all-day event is exclusive - the day after the last day
+function nextDay(date: string): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  const next = new Date(Date.UTC(year, month - 1, day + 1))
+  return `${next.getUTCFullYear()}-${pad(next.getUTCMonth() + 1)}-${pad(next.getUTCDate())}`
+}
+
+export interface VEventOptions {
+  uid?: string
+  sequence?: number
+  recurrence?: string[] // RRULE / EXDATE content lines for a series
+  recurrenceId?: string // Start of the occurrence this VEVENT replaces, for an edited occurrence
+  timeZone?: string // Zone for events without their own, i.e. the owner's
+}
+
+/**
+ * Build the VEVENT lines for a local event. Wall-clock times are written with the event's TZID.
+ */
+export function buildVEvent(event: UnifiedEvent, options: VEventOptions = {}): string[] {
+  const timeZone = resolveTimeZone(event.timezone, options.timeZone)
+  const end = endOfEvent(event, timeZone)
+  const status = event.status === 'cancelled' ? 'CANCELLED' : event.status === 'tentative' ? 'TENTATIVE' : 'CONFIRMED'
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${options.uid || event.id}`,
+    `DTSTAMP:${formatUtcDateTime(new Date())}`,
+    formatDateProperty('DTSTART', event.startDateTime, event.isAllDay, timeZone),
+    event.isAllDay
+      ? formatDateProperty('DTEND', nextDay(end), true)
+      : formatDateProperty('DTEND', end, false, timeZone),
+    `SUMMARY:${escapeText(event.title || 'Untitled Event')}`
+  ]
+
+  if (options.recurrenceId) lines.push(formatDateProperty('RECURRENCE-ID', options.recurrenceId, event.isAllDay, timeZone))
+  lines.push(...(options.recurrence || []))
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  lines.push(`STATUS:${status}`)
+  if (options.sequence !== undefined) lines.push(`SEQUENCE:${options.sequence}`)
+
+  for (const participant of event.participants || []) {
+    if (participant.includes('@')) {
+      lines.push(`ATTENDEE;CN=${participant}:mailto:${participant}`)
+    }
+  }
+
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtcDateTime(new Date(event.updatedAt))}`)
+  if (event.createdAt) lines.push(`CREATED:${formatUtcDateTime(new Date(event.createdAt))}`)
+  lines.push(`X-CRM-EVENT-ID:${event.id}`)
+  lines.push('END:VEVENT')
+
+  return lines
+}
+
+/**
+ * Wrap VEVENT lines in a VCALENDAR, folded and CRLF-terminated as RFC 5545 requires
+ */
+export function buildVCalendar(vevents: string[][]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...vevents.flat(),
+    'END:VCALENDAR'
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * One calendar object for an event. A series carries its edited occurrences as extra VEVENTs
+ * with the same UID and a RECURRENCE-ID.
+ */
+export function eventToICalendar(
+  event: UnifiedEvent,
+  options: VEventOptions & { overrides?: UnifiedEvent[] } = {}
+): string {
+  const { overrides = [], ...veventOptions } = options
+  return buildVCalendar([
+    buildVEvent(event, veventOptions),
+    ...overrides
+      .filter(override => override.originalStartDateTime)
+      .map(override => buildVEvent(override, {
+        uid: veventOptions.uid || event.id,
+        sequence: veventOptions.sequence,
+        timeZone: veventOptions.timeZone,
+        recurrenceId: override.originalStartDateTime
+      }))
+  ])
+}
+
+/**
+ * Parse every VEVENT in a VCALENDAR. VALARMs and other nested components are skipped;
+ * VTIMEZONE definitions are ignored in favour of the IANA zone named in TZID.
+ */
+export function parseICalendar(text: string): ParsedVEvent[] {
+  const events: ParsedVEvent[] = []
+  let current: ICalProperty[] | null = null
+  let nestedDepth = 0
+
+  for (const line of unfoldLines(text)) {
+    const property = parseContentLine(line)
+    if (!property) continue
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && !current) {
+        current = []
+      } else if (current) {
+        nestedDepth++
+      }
+      continue
+    }
+
+    if (property.name === 'END') {
+      if (current && nestedDepth > 0) {
+        nestedDepth--
+      } else if (current && property.value.toUpperCase() === 'VEVENT') {
+        const parsed = toParsedVEvent(current)
+        if (parsed) events.push(parsed)
+        current = null
+      }
+      continue
+    }
+
+    if (current && nestedDepth === 0) {
+      current.push(property)
+    }
+  }
+
+  return events
+}
+
+function toParsedVEvent(properties: ICalProperty[]): ParsedVEvent | null {
+  const find = (name: string) => properties.find(property => property.name === name)
+  const text = (name: string) => {
+    const property = find(name)
+    return property ? unescapeText(property.value) : undefined
+  }
+
+  const uid = text('UID')
+  const dtstart = find('DTSTART')
+  if (!uid || !dtstart) return null
+
+  const start = parseDateValue(dtstart)
+  const startZone = start.timeZone || DEFAULT_TIMEZONE
+  const dtend = find('DTEND')
+  let endDateTime: string | undefined
+  if (dtend) {
+    const end = parseDateValue(dtend)
+    // Back from exclusive to inclusive: an all-day event on the 1st ends on the 1st
+    endDateTime = end.isDate
+      ? previousDay(end.value)
+      : start.timeZone && end.timeZone !== start.timeZone
+        ? convertWallClock(end.value, end.timeZone || startZone, start.timeZone)
+        : end.value
+  } else if (find('DURATION')) {
+    const minutes = parseDurationMinutes(find('DURATION')!.value)
+    const endInstant = new Date(toUtcInstant(start.value, startZone).getTime() + minutes * 60000).toISOString()
+    endDateTime = start.isDate
+      ? previousDay(addDays(start.value, Math.max(1, Math.round(minutes / 1440))))
+      : start.timeZone ? toWallClock(endInstant, start.timeZone) : endInstant
+  }
+
+  const lastModified = find('LAST-MODIFIED') || find('DTSTAMP')
+  const recurrenceId = find('RECURRENCE-ID')
+
+  return {
+    uid,
+    summary: text('SUMMARY') || 'Untitled Event',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    startDateTime: start.value,
+    endDateTime,
+    timeZone: start.timeZone,
+    isAllDay: start.isDate,
+    status: find('STATUS')?.value.toUpperCase(),
+    attendees: properties
+      .filter(property => property.name === 'ATTENDEE')
+      .map(property => property.value.replace(/^mailto:/i, ''))
+      .filter(Boolean),
+    lastModified: lastModified ? toUtcInstant(parseDateValue(lastModified).value) : undefined,
+    sequence: Number(find('SEQUENCE')?.value) || 0,
+    recurrenceId: recurrenceId ? parseDateValue(recurrenceId).value : undefined,
+    properties
+  }
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  const result = new Date(Date.UTC(year, month - 1, day + days))
+  return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`
+}
+
+function previousDay(date: string): string {
+  return addDays(date, -1)
+}
+
+/**
+ * DURATION value (e.g. PT1H30M, P1D, -PT15M) in minutes
+ */
+export function parseDurationMinutes(value: string): number {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) return 0
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const total = Number(weeks || 0) * 10080 + Number(days || 0) * 1440 + Number(hours || 0) * 60 +
+    Number(minutes || 0) + Math.round(Number(seconds || 0) / 60)
+  return sign === '-' ? -total : total
+}
@@ -0,0 +1,57 @@
+// src/lib/ics-feed.test.ts
+
+import { importICalendar } from "./ics-feed";
+import { getPrismaClient } from "./prisma";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+
+function calendar(uid: string, extra: string[] = []) {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    "DTSTART;TZID=America/Toronto:20260601T090000",
+    "DTEND;TZID=America/Toronto:20260601T100000",
+    "SUMMARY:Spring cleanup",
+    ...extra,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+function mockDatabase() {
+  const prisma = {
+    event: {
+      findFirst: jest.fn<Promise<null>, [{ where: { OR: Array<Record<string, string>> } }]>(async () => null),
+      create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: "event-new", ...data })),
+      update: jest.fn(async () => undefined),
+    },
+  };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+  return prisma;
+}
+
+describe("ICS Feed", () => {
+  beforeEach(() => jest.spyOn(console, "log").mockImplementation(() => undefined));
+  afterEach(() => jest.restoreAllMocks());
+
+  describe("importICalendar", () => {
+    it("should match a foreign UID against imported UIDs only", async () => {
+      const prisma = mockDatabase();
+
+      const result = await importICalendar(calendar("event-1", ["X-CRM-EVENT-ID:event-1"]));
+
+      expect(result.created).toBe(1);
+      expect(prisma.event.findFirst.mock.calls[0][0].where.OR).toEqual([{ icalUid: "event-1" }]);
+    });
+
+    it("should match our own exports by event ID", async () => {
+      const prisma = mockDatabase();
+
+      await importICalendar(calendar("crm-event-1"));
+
+      expect(prisma.event.findFirst.mock.calls[0][0].where.OR).toEqual([{ icalUid: "crm-event-1" }, { id: "event-1" }]);
+    });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * ICS feeds, downloads and imports
+ * Local events as .ics for calendar apps: a per-user subscription feed at a secret URL, a
+ * download of any date range, and .ics files imported into Event. Imports remember each
+ * event's UID (Event.icalUid), so importing the same file again updates instead of duplicating.
+ *
+ * Series go out as one VEVENT with RRULE/EXDATE plus a VEVENT per edited occurrence
+ * (RECURRENCE-ID), and come back in the same shape.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { EventType, Prisma } from '@prisma/client'
+import { getPrismaClient } from '@/lib/prisma'
+import { CalendarSyncService } from '@/lib/calendar-sync'
+import { buildVCalendar, buildVEvent, parseICalendar, type ParsedVEvent } from '@/lib/icalendar'
+import {
+  occurrenceDateKey,
+  parseRecurrenceProperties,
+  parseStoredRecurrence,
+  parseStoredUnsupportedRecurrence,
+  recurrenceLines
+} from '@/lib/recurrence'
+import { resolveTimeZone, toUtcInstant } from '@/lib/timezone-utils'
+
+// Feeds cover recent history and the year ahead unless a range is given
+const FEED_PAST_DAYS = 90
+const FEED_FUTURE_DAYS = 365
+
+export const ICS_EVENT_TYPES: EventType[] = ['EVENT', 'TASK', 'GOAL', 'MILESTONE']
+
+// UIDs of events that started here carry this prefix. An import only matches an event by its
+// ID when the UID has it - any other UID is matched against Event.icalUid alone.
+const CRM_UID_PREFIX = 'crm-'
+
+export interface IcsEventFilter {
+  clientId?: string
+  serviceLine?: string // ServiceLine slug, e.g. "woodgreen" or "whiteknight"
+  type?: EventType
+  start?: Date
+  end?: Date
+}
+
+export interface IcsImportResult {
+  created: number
+  updated: number
+  skipped: number // Unchanged since the last import, or cancelled and never imported
+  errors: { uid: string; error: string }[]
+}
+
+/**
+ * A new feed secret and the hash stored for it - the secret itself is only in the URL
+ */
+export function createFeedToken(): { token: string; hash: string } {
+  const token = randomBytes(24).toString('base64url')
+  return { token, hash: hashFeedToken(token) }
+}
+
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function feedUrl(token: string): string {
+  const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '')
+  return `${appUrl}/api/calendar/feed/${token}.ics`
+}
+
+/**
+ * Read a filter from query parameters (?client=&serviceLine=&type=&start=&end=).
+ * Returns an error message for values that don't parse.
+ */
+export function parseIcsFilter(searchParams: URLSearchParams): IcsEventFilter | string {
+  const filter: IcsEventFilter = {}
+
+  const clientId = searchParams.get('client')
+  if (clientId) filter.clientId = clientId
+
+  const serviceLine = searchParams.get('serviceLine')
+  if (serviceLine) filter.serviceLine = serviceLine
+
+  const type = searchParams.get('type')?.toUpperCase()
+  if (type) {
+    if (!ICS_EVENT_TYPES.includes(type as EventType)) {
+      return `type must be one of ${ICS_EVENT_TYPES.map(value => value.toLowerCase()).join(', ')}`
+    }
+    filter.type = type as EventType
+  }
+
+  for (const key of ['start', 'end'] as const) {
+    const value = searchParams.get(key)
+    if (!value) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) return `${key} must be a date, e.g. 2025-03-01`
+    filter[key] = date
+  }
+
+  return filter
+}
+
+const dateKey = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Events matching a filter. Times are stored as wall-clock strings, so the range is compared by
+ * day; a series is included when it starts before the range ends.
+ */
+function eventWhere(filter: IcsEventFilter): Prisma.EventWhereInput {
+  const start = filter.start || new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000)
+  const end = filter.end || new Date(Date.now() + FEED_FUTURE_DAYS * 24 * 60 * 60 * 1000)
+  const dayAfterEnd = dateKey(new Date(end.getTime() + 24 * 60 * 60 * 1000))
+
+  const where: Prisma.EventWhereInput[] = [
+    // Edited occurrences go out with their series
+    { originalStartDateTime: null },
+    { startDateTime: { lt: dayAfterEnd } },
+    {
+      OR: [
+        { isRecurring: true },
+        { endDateTime: { gte: dateKey(start) } },
+        { endDateTime: null, startDateTime: { gte: dateKey(start) } }
+      ]
+    }
+  ]
+
+  if (filter.clientId) where.push({ clientId: filter.clientId })
+  if (filter.type) where.push({ type: filter.type })
+  if (filter.serviceLine) {
+    where.push({
+      OR: [
+        { service: { contains: filter.serviceLine, mode: 'insensitive' } },
+        {
+          client: {
+            serviceContracts: {
+              some: { OR: [{ serviceId: filter.serviceLine }, { serviceLine: { slug: filter.serviceLine } }] }
+            }
+          }
+        }
+      ]
+    })
+  }
+
+  return { AND: where }
+}
+
+/**
+ * A VCALENDAR of the events matching a filter
+ * @param defaultTimeZone - Zone for events without their own (the user's)
+ */
+export async function exportEventsToICalendar(filter: IcsEventFilter, defaultTimeZone?: string): Promise<string> {
+  const prisma = getPrismaClient()
+  if (!prisma) return buildVCalendar([])
+
+  const dbEvents = await prisma.event.findMany({
+    where: eventWhere(filter),
+    include: { childEvents: { where: { originalStartDateTime: { not: null } } } },
+    orderBy: { startDateTime: 'asc' }
+  })
+
+  const vevents = dbEvents.flatMap(dbEvent => {
+    const event = CalendarSyncService.convertDbEventToUnified(dbEvent)
+    const timeZone = resolveTimeZone(event.timezone, defaultTimeZone)
+    const uid = dbEvent.icalUid || `${CRM_UID_PREFIX}${dbEvent.id}`
+    const overrides = event.isRecurring && event.recurrence ? dbEvent.childEvents : []
+
+    return [
+      buildVEvent(event, {
+        uid,
+        timeZone,
+        recurrence: recurrenceLines(
+          event,
+          overrides.map(override => occurrenceDateKey(override.originalStartDateTime!, timeZone)),
+          timeZone,
+          parseStoredUnsupportedRecurrence(dbEvent.recurrence)
+        )
+      }),
+      ...overrides.map(override => buildVEvent(CalendarSyncService.convertDbEventToUnified(override), {
+        uid,
+        timeZone,
+        recurrenceId: override.originalStartDateTime!
+      }))
+    ]
+  })
+
+  return buildVCalendar(vevents)
+}
+
+/**
+ * Import every VEVENT in an .ics file. Events are matched by UID (and by the event ID in the
+ * UIDs our own exports write), so a re-import updates what changed and skips the rest.
+ */
+export async function importICalendar(
+  text: string,
+  options: { defaultTimeZone?: string; clientId?: string } = {}
+): Promise<IcsImportResult> {
+  const result: IcsImportResult = { created: 0, updated: 0, skipped: 0, errors: [] }
+  const prisma = getPrismaClient()
+  if (!prisma) return result
+
+  const client = options.clientId
+    ? await prisma.clientRecord.findUnique({ where: { id: options.clientId }, select: { id: true, name: true } })
+    : null
+
+  // Series first, so their edited occurrences find them
+  const vevents = parseICalendar(text).sort((a, b) => Number(!!a.recurrenceId) - Number(!!b.recurrenceId))
+
+  for (const vevent of vevents) {
+    try {
+      const outcome = vevent.recurrenceId
+        ? await importOccurrence(vevent, options.defaultTimeZone)
+        : await importEvent(vevent, options.defaultTimeZone, client)
+      result[outcome]++
+    } catch (error) {
+      console.error('📅 [ICS] Error importing event:', vevent.uid, error)
+      result.errors.push({ uid: vevent.uid, error: error instanceof Error ? error.message : 'Import failed' })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Event columns for a VEVENT
+ */
+function eventFields(vevent: ParsedVEvent, defaultTimeZone?: string) {
+  const fields = CalendarSyncService.convertFromVEvent(vevent, defaultTimeZone)
+  const timeZone = resolveTimeZone(fields.timezone, defaultTimeZone)
+  const duration = fields.isAllDay
+    ? (Math.round((Date.parse(fields.endDateTime.slice(0, 10)) - Date.parse(fields.startDateTime.slice(0, 10))) / 86400000) + 1) * 1440
+    : Math.round((toUtcInstant(fields.endDateTime, timeZone).getTime() - toUtcInstant(fields.startDateTime, timeZone).getTime()) / 60000)
+
+  return {
+    ...fields,
+    duration: Math.max(0, duration),
+    isMultiDay: fields.endDateTime.slice(0, 10) > fields.startDateTime.slice(0, 10)
+  }
+}
+
+// Unchanged since we imported (or exported) it - the event's own edits win
+function isUnchanged(vevent: ParsedVEvent, existing: { updatedAt: Date }): boolean {
+  return !!vevent.lastModified && vevent.lastModified.getTime() <= existing.updatedAt.getTime()
+}
+
+async function findSeries(uid: string) {
+  const prisma = getPrismaClient()!
+  const localId = uid.startsWith(CRM_UID_PREFIX) ? uid.slice(CRM_UID_PREFIX.length) : undefined
+  return prisma.event.findFirst({
+    where: {
+      originalStartDateTime: null,
+      OR: [{ icalUid: uid }, ...(localId ? [{ id: localId }] : [])]
+    }
+  })
+}
+
+async function importEvent(
+  vevent: ParsedVEvent,
+  defaultTimeZone: string | undefined,
+  client: { id: string; name: string } | null
+): Promise<'created' | 'updated' | 'skipped'> {
+  const prisma = getPrismaClient()!
+  const existing = await findSeries(vevent.uid)
+
+  if (existing ? isUnchanged(vevent, existing) : vevent.status === 'CANCELLED') {
+    return 'skipped'
+  }
+
+  const fields = eventFields(vevent, defaultTimeZone)
+  const series = parseRecurrenceProperties(vevent.properties, resolveTimeZone(fields.timezone, defaultTimeZone))
+  // Dates of occurrences edited locally stay hidden from the generated series
+  const existingExceptions = existing ? parseStoredRecurrence(existing.recurrence)?.exceptions || [] : []
+  const exceptions = [...new Set([...series.exdates, ...existingExceptions])].sort()
+  // A rule we can't represent is kept verbatim so the feed export gives it back unchanged
+  const seriesData = series.rule
+    ? { isRecurring: true, recurrence: JSON.stringify({ ...series.rule, ...(exceptions.length > 0 && { exceptions }) }) }
+    : series.unsupportedRule
+      ? { isRecurring: false, recurrence: JSON.stringify({ rrule: series.unsupportedRule, ...(series.exdates.length > 0 && { exceptions: series.exdates }) }) }
+      : { isRecurring: false }
+
+  if (existing) {
+    await prisma.event.update({
+      where: { id: existing.id },
+      data: { ...fields, ...seriesData, icalUid: existing.icalUid || vevent.uid, updatedAt: new Date() }
+    })
+    return 'updated'
+  }
+
+  await prisma.event.create({
+    data: {
+      type: 'EVENT',
+      priority: 'MEDIUM',
+      ...fields,
+      ...seriesData,
+      icalUid: vevent.uid,
+      ...(client && { clientId: client.id, clientName: client.name })
+    }
+  })
+  return 'created'
+}
+
+/**
+ * An edited or cancelled occurrence (RECURRENCE-ID): its date goes on the series' exceptions,
+ * and an edited one is kept as a child event like synced occurrences are
+ */
+async function importOccurrence(vevent: ParsedVEvent, defaultTimeZone?: string): Promise<'created' | 'updated' | 'skipped'> {
+  const prisma = getPrismaClient()!
+  const master = await findSeries(vevent.uid)
+  const rule = master && parseStoredRecurrence(master.recurrence)
+  if (!master || !rule) return 'skipped'
+
+  const timeZone = resolveTimeZone(master.timezone, defaultTimeZone)
+  const originalStart = CalendarSyncService.convertFromVEvent({ ...vevent, startDateTime: vevent.recurrenceId! }, timeZone).startDateTime
+  const dateKeyOfOccurrence = occurrenceDateKey(originalStart, timeZone)
+
+  const existing = await prisma.event.findFirst({
+    where: { parentEventId: master.id, originalStartDateTime: originalStart }
+  })
+  if (existing && isUnchanged(vevent, existing)) return 'skipped'
+
+  if (!(rule.exceptions || []).includes(dateKeyOfOccurrence)) {
+    await prisma.event.update({
+      where: { id: master.id },
+      data: { recurrence: JSON.stringify({ ...rule, exceptions: [...(rule.exceptions || []), dateKeyOfOccurrence].sort() }) }
+    })
+  }
+
+  const data = {
+    ...eventFields(vevent, timeZone),
+    parentEventId: master.id,
+    originalStartDateTime: originalStart,
+    icalUid: vevent.uid,
+    clientId: master.clientId,
+    clientName: master.clientName
+  }
+
+  if (existing) {
+    await prisma.event.update({ where: { id: existing.id }, data: { ...data, updatedAt: new Date() } })
+    return 'updated'
+  }
+  if (vevent.status === 'CANCELLED') return 'updated'
+
+  await prisma.event.create({
+    data: { type: master.type, priority: master.priority, ...data }
+  })
+  return 'created'
+}
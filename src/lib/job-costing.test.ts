@@ -0,0 +1,43 @@
+// src/lib/job-costing.test.ts
+
+import { filterRecognizedCreditNotes } from "./job-costing";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+
+function creditNote(id: string, originalDocumentId: string, originalDocumentType = "invoice") {
+  return { id, amount: 10, originalDocumentId, metadata: { originalDocumentType } };
+}
+
+describe("Job Costing", () => {
+  describe("filterRecognizedCreditNotes", () => {
+    it("should only keep credits against receipts and paid invoices", async () => {
+      const db = {
+        billingDocument: { findMany: jest.fn(async () => [{ id: "paid-invoice" }]) },
+        billingRecord: { findMany: jest.fn(async () => [{ id: "paid-record" }]) },
+      };
+      const creditNotes = [
+        creditNote("credit-1", "paid-invoice"),
+        creditNote("credit-2", "unpaid-invoice"),
+        creditNote("credit-3", "paid-record"),
+        creditNote("credit-4", "receipt-1", "receipt"),
+      ];
+
+      const recognized = await filterRecognizedCreditNotes(db as never, creditNotes);
+
+      expect(recognized.map(note => note.id)).toEqual(["credit-1", "credit-3", "credit-4"]);
+      expect(db.billingDocument.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ["paid-invoice", "unpaid-invoice", "paid-record"] }, status: "PAID" },
+        select: { id: true },
+      });
+    });
+
+    it("should not query invoices when only receipts were credited", async () => {
+      const db = { billingDocument: { findMany: jest.fn() }, billingRecord: { findMany: jest.fn() } };
+
+      const recognized = await filterRecognizedCreditNotes(db as never, [creditNote("credit-1", "receipt-1", "receipt")]);
+
+      expect(recognized).toHaveLength(1);
+      expect(db.billingDocument.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
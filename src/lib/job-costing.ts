@@ -0,0 +1,478 @@
+// src/lib/job-costing.ts
+// Job costing - expenses (salt, mulch, fuel, subcontractors...) recorded against a service record,
+// a contract or a service line, and gross margin per job, per client and per service line. Period
+// revenue is counted the same way as /api/analytics/revenue (paid documents and records, less credit
+// notes against paid revenue) so the margin figures line up with the revenue figures next to them.
+import { Prisma } from '@prisma/client';
+import { getPrismaClient } from './prisma';
+import { resolveServiceLineId } from './service-email-config';
+import {
+  BillingError,
+  ClientMargin,
+  CreateExpenseData,
+  Expense,
+  ExpenseCategory,
+  ExpenseFilters,
+  JobMargin,
+  MarginFigures,
+  MarginReport,
+  ServiceLineMargin
+} from '../types/billing';
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'MATERIALS',
+  'SALT',
+  'FUEL',
+  'EQUIPMENT',
+  'SUBCONTRACTOR',
+  'LABOUR',
+  'DISPOSAL',
+  'OTHER'
+];
+
+export const RECEIPT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+export const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+
+const UNASSIGNED_SERVICE_LINE = 'unassigned';
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Service record types are upper-case enum values ("SNOW_REMOVAL"); the service line map is keyed lower-case
+const serviceLineSlug = (serviceType?: string | null) => resolveServiceLineId(serviceType?.toLowerCase());
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+/**
+ * Revenue is cash-based, so a credit note only reduces it when what it credits was recognized: a
+ * receipt, or an invoice that has been paid. Crediting an unpaid invoice lowers what the client
+ * owes instead - netting it here as well would count the reduction twice.
+ */
+export async function filterRecognizedCreditNotes<
+  T extends { originalDocumentId: string | null; metadata: Prisma.JsonValue }
+>(db: Pick<Prisma.TransactionClient, 'billingDocument' | 'billingRecord'>, creditNotes: T[]): Promise<T[]> {
+  const creditsReceipt = (creditNote: T) =>
+    (creditNote.metadata as { originalDocumentType?: string } | null)?.originalDocumentType === 'receipt';
+  const invoiceIds = Array.from(new Set(
+    creditNotes.filter(creditNote => !creditsReceipt(creditNote)).map(creditNote => creditNote.originalDocumentId!).filter(Boolean)
+  ));
+  if (invoiceIds.length === 0) {
+    return creditNotes.filter(creditsReceipt);
+  }
+
+  const [paidDocuments, paidRecords] = await Promise.all([
+    db.billingDocument.findMany({ where: { id: { in: invoiceIds }, status: 'PAID' }, select: { id: true } }),
+    db.billingRecord.findMany({ where: { id: { in: invoiceIds }, status: 'PAID' }, select: { id: true } })
+  ]);
+  const paid = new Set([...paidDocuments, ...paidRecords].map(invoice => invoice.id));
+
+  return creditNotes.filter(creditNote => creditsReceipt(creditNote) || paid.has(creditNote.originalDocumentId!));
+}
+
+// Everything but the receipt image itself, which can be a few megabytes. receiptFileName is always
+// set when a receipt is attached, so it doubles as the "has a receipt" flag.
+const EXPENSE_SELECT = {
+  id: true,
+  clientId: true,
+  serviceRecordId: true,
+  contractId: true,
+  serviceLineId: true,
+  category: true,
+  amount: true,
+  currency: true,
+  quantity: true,
+  unit: true,
+  vendor: true,
+  description: true,
+  incurredAt: true,
+  receiptFileName: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.ExpenseSelect;
+
+function toExpense(row: Prisma.ExpenseGetPayload<{ select: typeof EXPENSE_SELECT }>): Expense {
+  return {
+    id: row.id,
+    clientId: row.clientId || undefined,
+    serviceRecordId: row.serviceRecordId || undefined,
+    contractId: row.contractId || undefined,
+    serviceLineId: row.serviceLineId || undefined,
+    category: row.category,
+    amount: row.amount,
+    currency: row.currency,
+    quantity: row.quantity ?? undefined,
+    unit: row.unit || undefined,
+    vendor: row.vendor || undefined,
+    description: row.description || undefined,
+    incurredAt: row.incurredAt,
+    hasReceipt: !!row.receiptFileName,
+    receiptFileName: row.receiptFileName || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  };
+}
+
+export function receiptToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  return `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`;
+}
+
+function validateReceipt(receipt: NonNullable<CreateExpenseData['receipt']>): void {
+  const match = /^data:([^;,]+);base64,/.exec(receipt.dataUrl);
+  if (!match) {
+    if (!/^https?:\/\//.test(receipt.dataUrl)) {
+      throw new BillingError('Receipt must be an uploaded image or an http(s) URL', 'VALIDATION');
+    }
+    return;
+  }
+  if (!RECEIPT_MIME_TYPES.includes(match[1])) {
+    throw new BillingError(`Receipt must be one of: ${RECEIPT_MIME_TYPES.join(', ')}`, 'VALIDATION');
+  }
+  // base64 is 4 characters per 3 bytes
+  if ((receipt.dataUrl.length - match[0].length) * 3 / 4 > MAX_RECEIPT_BYTES) {
+    throw new BillingError(`Receipt image is larger than ${MAX_RECEIPT_BYTES / (1024 * 1024)} MB`, 'VALIDATION');
+  }
+}
+
+// Accepts a ServiceLine id or slug ("whiteknight") or a service type that maps to one ("SNOW_REMOVAL")
+async function resolveServiceLine(
+  prisma: NonNullable<ReturnType<typeof getPrismaClient>>,
+  serviceLine: string
+): Promise<string | undefined> {
+  const slug = serviceLineSlug(serviceLine) || serviceLine;
+  const found = await prisma.serviceLine.findFirst({
+    where: { OR: [{ id: serviceLine }, { slug }] },
+    select: { id: true }
+  });
+  return found?.id;
+}
+
+/**
+ * Record an expense. The client and service line are filled in from the service record or contract
+ * when they aren't given, so expenses roll up into the client and service line margins.
+ */
+export async function createExpense(data: CreateExpenseData): Promise<Expense> {
+  const prisma = requirePrisma();
+
+  if (!EXPENSE_CATEGORIES.includes(data.category)) {
+    throw new BillingError(`category must be one of: ${EXPENSE_CATEGORIES.join(', ')}`, 'VALIDATION');
+  }
+  if (typeof data.amount !== 'number' || !Number.isFinite(data.amount) || data.amount <= 0) {
+    throw new BillingError('amount must be a positive number', 'VALIDATION');
+  }
+  if (!data.serviceRecordId && !data.contractId && !data.serviceLineId) {
+    throw new BillingError('An expense needs a serviceRecordId, contractId or serviceLineId', 'VALIDATION');
+  }
+
+  const incurredAt = data.incurredAt ? new Date(data.incurredAt) : new Date();
+  if (isNaN(incurredAt.getTime())) {
+    throw new BillingError('incurredAt is not a valid date', 'VALIDATION');
+  }
+  if (data.receipt) {
+    validateReceipt(data.receipt);
+  }
+
+  let clientId: string | undefined;
+  let serviceLineId: string | undefined;
+
+  if (data.serviceLineId) {
+    serviceLineId = await resolveServiceLine(prisma, data.serviceLineId);
+    if (!serviceLineId) {
+      throw new BillingError(`Service line ${data.serviceLineId} not found`, 'NOT_FOUND');
+    }
+  }
+
+  if (data.serviceRecordId) {
+    const serviceRecord = await prisma.serviceRecord.findUnique({
+      where: { id: data.serviceRecordId },
+      select: { clientId: true, serviceLineId: true, serviceType: true }
+    });
+    if (!serviceRecord) {
+      throw new BillingError(`Service record ${data.serviceRecordId} not found`, 'NOT_FOUND');
+    }
+    clientId = serviceRecord.clientId;
+    serviceLineId = serviceLineId
+      || serviceRecord.serviceLineId
+      || await resolveServiceLine(prisma, serviceRecord.serviceType);
+  }
+
+  if (data.contractId) {
+    const contract = await prisma.clientServiceContract.findUnique({
+      where: { id: data.contractId },
+      select: { clientId: true, serviceLineId: true, serviceId: true }
+    });
+    if (!contract) {
+      throw new BillingError(`Contract ${data.contractId} not found`, 'NOT_FOUND');
+    }
+    if (clientId && clientId !== contract.clientId) {
+      throw new BillingError('The service record and contract belong to different clients', 'VALIDATION');
+    }
+    clientId = contract.clientId;
+    serviceLineId = serviceLineId
+      || contract.serviceLineId
+      || await resolveServiceLine(prisma, contract.serviceId);
+  }
+
+  const created = await prisma.expense.create({
+    data: {
+      clientId,
+      serviceRecordId: data.serviceRecordId,
+      contractId: data.contractId,
+      serviceLineId,
+      category: data.category,
+      amount: roundCents(data.amount),
+      quantity: data.quantity,
+      unit: data.unit?.trim() || undefined,
+      vendor: data.vendor?.trim() || undefined,
+      description: data.description?.trim() || undefined,
+      incurredAt,
+      receiptImage: data.receipt?.dataUrl,
+      receiptFileName: data.receipt ? data.receipt.fileName || 'receipt' : undefined,
+      receiptMimeType: data.receipt?.mimeType
+    },
+    select: EXPENSE_SELECT
+  });
+
+  return toExpense(created);
+}
+
+export async function getExpenses(filters: ExpenseFilters = {}): Promise<Expense[]> {
+  const prisma = requirePrisma();
+
+  const rows = await prisma.expense.findMany({
+    where: {
+      clientId: filters.clientId,
+      serviceRecordId: filters.serviceRecordId,
+      contractId: filters.contractId,
+      serviceLineId: filters.serviceLineId,
+      category: filters.category,
+      ...((filters.from || filters.to) && {
+        incurredAt: { gte: filters.from, lte: filters.to }
+      })
+    },
+    select: EXPENSE_SELECT,
+    orderBy: { incurredAt: 'desc' }
+  });
+
+  return rows.map(toExpense);
+}
+
+export async function getExpenseReceipt(
+  expenseId: string
+): Promise<{ url?: string; bytes?: Buffer; mimeType: string; fileName: string }> {
+  const prisma = requirePrisma();
+  const expense = await prisma.expense.findUnique({
+    where: { id: expenseId },
+    select: { receiptImage: true, receiptMimeType: true, receiptFileName: true }
+  });
+
+  if (!expense?.receiptImage) {
+    throw new BillingError(`No receipt attached to expense ${expenseId}`, 'NOT_FOUND');
+  }
+
+  const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(expense.receiptImage);
+  const mimeType = match?.[1] || expense.receiptMimeType || 'application/octet-stream';
+  const fileName = expense.receiptFileName || `receipt-${expenseId}`;
+
+  return match
+    ? { bytes: Buffer.from(match[2], 'base64'), mimeType, fileName }
+    : { url: expense.receiptImage, mimeType, fileName };
+}
+
+export async function deleteExpense(expenseId: string): Promise<void> {
+  const prisma = requirePrisma();
+  const { count } = await prisma.expense.deleteMany({ where: { id: expenseId } });
+  if (count === 0) {
+    throw new BillingError(`Expense ${expenseId} not found`, 'NOT_FOUND');
+  }
+}
+
+interface MarginAccumulator {
+  revenue: number;
+  expenses: number;
+  expensesByCategory: Partial<Record<ExpenseCategory, number>>;
+}
+
+const emptyAccumulator = (): MarginAccumulator => ({ revenue: 0, expenses: 0, expensesByCategory: {} });
+
+function addExpense(accumulator: MarginAccumulator, category: ExpenseCategory, amount: number): void {
+  accumulator.expenses += amount;
+  accumulator.expensesByCategory[category] = (accumulator.expensesByCategory[category] || 0) + amount;
+}
+
+function toFigures(accumulator: MarginAccumulator): MarginFigures {
+  const revenue = roundCents(accumulator.revenue);
+  const expenses = roundCents(accumulator.expenses);
+  const grossMargin = roundCents(revenue - expenses);
+  return {
+    revenue,
+    expenses,
+    grossMargin,
+    marginPercent: revenue > 0 ? Math.round((grossMargin / revenue) * 1000) / 10 : null,
+    expensesByCategory: Object.fromEntries(
+      Object.entries(accumulator.expensesByCategory).map(([category, amount]) => [category, roundCents(amount)])
+    )
+  };
+}
+
+function accumulatorFor<K>(map: Map<K, MarginAccumulator>, key: K): MarginAccumulator {
+  if (!map.has(key)) {
+    map.set(key, emptyAccumulator());
+  }
+  return map.get(key)!;
+}
+
+/**
+ * Gross margin for a period.
+ *
+ * - Per client and per service line: revenue as in /api/analytics/revenue (documents and billing
+ *   records paid in the period, less credit notes issued in it against paid revenue) minus expenses
+ *   incurred in the period.
+ * - Per job: every service record performed in the period, with the billing records raised against it
+ *   (or its billing amount when it hasn't been billed yet) and every expense recorded against it,
+ *   whenever it was incurred - a job's costs often land before or after the visit.
+ */
+export async function getMarginReport(options: { from: Date; to: Date }): Promise<MarginReport> {
+  const prisma = requirePrisma();
+  const { from, to } = options;
+
+  const [paidDocuments, paidRecords, creditNotes, periodExpenses, serviceRecords, serviceLines] = await Promise.all([
+    prisma.billingDocument.findMany({
+      where: { status: 'PAID', paidAt: { gte: from, lte: to } },
+      select: { amount: true, clientId: true, serviceType: true, client: { select: { name: true } } }
+    }),
+    prisma.billingRecord.findMany({
+      where: { status: 'PAID', paidDate: { gte: from, lte: to } },
+      select: { amount: true, clientId: true, serviceLine: { select: { slug: true } }, client: { select: { name: true } } }
+    }),
+    prisma.billingDocument.findMany({
+      where: { documentType: 'CREDIT_NOTE', status: { not: 'CANCELLED' }, date: { gte: from, lte: to } },
+      select: {
+        amount: true,
+        clientId: true,
+        serviceType: true,
+        originalDocumentId: true,
+        metadata: true,
+        client: { select: { name: true } }
+      }
+    }),
+    prisma.expense.findMany({
+      where: { incurredAt: { gte: from, lte: to } },
+      select: {
+        amount: true,
+        category: true,
+        clientId: true,
+        serviceRecordId: true,
+        contractId: true,
+        serviceLine: { select: { slug: true } },
+        client: { select: { name: true } }
+      }
+    }),
+    prisma.serviceRecord.findMany({
+      where: { serviceDate: { gte: from, lte: to } },
+      select: {
+        id: true,
+        serviceDate: true,
+        serviceType: true,
+        amount: true,
+        billingAmount: true,
+        clientId: true,
+        client: { select: { name: true } },
+        serviceLine: { select: { slug: true } },
+        billingRecords: { where: { status: { not: 'CANCELLED' } }, select: { amount: true } },
+        expenses: { select: { amount: true, category: true } }
+      },
+      orderBy: { serviceDate: 'desc' }
+    }),
+    prisma.serviceLine.findMany({ select: { slug: true, name: true } })
+  ]);
+
+  const totals = emptyAccumulator();
+  const byClient = new Map<string, MarginAccumulator>();
+  const clientNames = new Map<string, string>();
+  const byServiceLine = new Map<string, MarginAccumulator>();
+  const serviceLineNames = new Map(serviceLines.map(serviceLine => [serviceLine.slug, serviceLine.name]));
+
+  const addRevenue = (amount: number, clientId: string, clientName: string, serviceLine?: string) => {
+    totals.revenue += amount;
+    accumulatorFor(byClient, clientId).revenue += amount;
+    clientNames.set(clientId, clientName);
+    accumulatorFor(byServiceLine, serviceLine || UNASSIGNED_SERVICE_LINE).revenue += amount;
+  };
+
+  for (const document of paidDocuments) {
+    addRevenue(document.amount, document.clientId, document.client.name, serviceLineSlug(document.serviceType));
+  }
+  for (const record of paidRecords) {
+    addRevenue(record.amount, record.clientId, record.client.name, record.serviceLine.slug);
+  }
+  for (const creditNote of await filterRecognizedCreditNotes(prisma, creditNotes)) {
+    addRevenue(-creditNote.amount, creditNote.clientId, creditNote.client.name, serviceLineSlug(creditNote.serviceType));
+  }
+
+  let unallocatedExpenses = 0;
+  for (const expense of periodExpenses) {
+    addExpense(totals, expense.category, expense.amount);
+    if (expense.clientId) {
+      addExpense(accumulatorFor(byClient, expense.clientId), expense.category, expense.amount);
+      clientNames.set(expense.clientId, expense.client?.name || expense.clientId);
+    }
+    addExpense(
+      accumulatorFor(byServiceLine, expense.serviceLine?.slug || UNASSIGNED_SERVICE_LINE),
+      expense.category,
+      expense.amount
+    );
+    if (!expense.clientId && !expense.serviceRecordId && !expense.contractId && !expense.serviceLine) {
+      unallocatedExpenses += expense.amount;
+    }
+  }
+
+  const jobs: JobMargin[] = serviceRecords.map(record => {
+    const job = emptyAccumulator();
+    job.revenue = record.billingRecords.length > 0
+      ? record.billingRecords.reduce((sum, billing) => sum + billing.amount, 0)
+      : record.billingAmount ?? record.amount ?? 0;
+    for (const expense of record.expenses) {
+      addExpense(job, expense.category, expense.amount);
+    }
+    return {
+      serviceRecordId: record.id,
+      serviceDate: record.serviceDate,
+      serviceType: record.serviceType,
+      clientId: record.clientId,
+      clientName: record.client.name,
+      serviceLine: record.serviceLine?.slug || serviceLineSlug(record.serviceType),
+      ...toFigures(job)
+    };
+  });
+
+  const clients: ClientMargin[] = Array.from(byClient.entries())
+    .map(([clientId, accumulator]) => ({
+      clientId,
+      clientName: clientNames.get(clientId) || clientId,
+      ...toFigures(accumulator)
+    }))
+    .sort((a, b) => b.grossMargin - a.grossMargin);
+
+  const lines: ServiceLineMargin[] = Array.from(byServiceLine.entries())
+    .map(([serviceLine, accumulator]) => ({
+      serviceLine,
+      name: serviceLineNames.get(serviceLine) || (serviceLine === UNASSIGNED_SERVICE_LINE ? 'Unassigned' : serviceLine),
+      ...toFigures(accumulator)
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  return {
+    from,
+    to,
+    totals: toFigures(totals),
+    byJob: jobs,
+    byClient: clients,
+    byServiceLine: lines,
+    unallocatedExpenses: roundCents(unallocatedExpenses)
+  };
+}
@@ -5,6 +5,7 @@
 
 import { Client } from '@notionhq/client'
 import type { UnifiedEvent } from '@/components/EventCreationModal'
+import { DEFAULT_TIMEZONE, resolveTimeZone, toWallClock } from '@/lib/timezone-utils'
 
 export interface NotionDatabaseSchema {
   titleProperty: string | null
@@ -125,28 +126,36 @@ export function extractNotionTitle(properties: any, schema: NotionDatabaseSchema
 
 /**
  * Extract date range from Notion page properties
+ * Times come back as wall-clock in the date's time_zone, or in defaultTimeZone when it has none
  */
-export function extractNotionDateRange(properties: any, schema: NotionDatabaseSchema): {
+export function extractNotionDateRange(properties: any, schema: NotionDatabaseSchema, defaultTimeZone = DEFAULT_TIMEZONE): {
   start: string
   end: string
   isAllDay: boolean
+  timeZone: string | null
 } {
   const now = new Date().toISOString()
 
   if (!schema.dateProperty) {
-    return { start: now, end: now, isAllDay: false }
+    return { start: now, end: now, isAllDay: false, timeZone: null }
   }
 
   const dateProp = properties[schema.dateProperty]
   if (!dateProp || !dateProp.date) {
-    return { start: now, end: now, isAllDay: false }
+    return { start: now, end: now, isAllDay: false, timeZone: null }
   }
 
-  const start = dateProp.date.start || now
-  const end = dateProp.date.end || start
-  const isAllDay = !start.includes('T') // All-day events don't have time component
+  const rawStart = dateProp.date.start || now
+  const isAllDay = !rawStart.includes('T') // All-day events don't have time component
+  if (isAllDay) {
+    return { start: rawStart, end: dateProp.date.end || rawStart, isAllDay, timeZone: null }
+  }
+
+  const timeZone = resolveTimeZone(dateProp.date.time_zone, defaultTimeZone)
+  const start = toWallClock(rawStart, timeZone)
+  const end = dateProp.date.end ? toWallClock(dateProp.date.end, timeZone) : start
 
-  return { start, end, isAllDay }
+  return { start, end, isAllDay, timeZone }
 }
 
 /**
@@ -170,12 +179,13 @@ export function extractNotionDescription(properties: any, schema: NotionDatabase
  */
 export function convertNotionPageToEvent(
   page: any,
-  schema: NotionDatabaseSchema
+  schema: NotionDatabaseSchema,
+  defaultTimeZone?: string
 ): UnifiedEvent {
   const properties = page.properties
 
   const title = extractNotionTitle(properties, schema)
-  const { start, end, isAllDay } = extractNotionDateRange(properties, schema)
+  const { start, end, isAllDay, timeZone } = extractNotionDateRange(properties, schema, defaultTimeZone)
   const description = extractNotionDescription(properties, schema)
 
   // Calculate duration
@@ -190,6 +200,7 @@ export function convertNotionPageToEvent(
     description,
     startDateTime: start,
     endDateTime: end,
+    timezone: timeZone || undefined,
     duration: duration > 0 ? duration : 60,
     priority: 'medium',
     location: '',
@@ -208,7 +219,8 @@ export function convertNotionPageToEvent(
  */
 export function convertEventToNotionProperties(
   event: UnifiedEvent,
-  schema: NotionDatabaseSchema
+  schema: NotionDatabaseSchema,
+  defaultTimeZone?: string
 ): any {
   const properties: any = {}
 
@@ -235,6 +247,14 @@ export function convertEventToNotionProperties(
       dateValue.end = event.endDateTime
     }
 
+    // Timed events go over as wall-clock time with the zone, so Notion keeps them across DST
+    if (!event.isAllDay && event.startDateTime.includes('T')) {
+      const timeZone = resolveTimeZone(event.timezone, defaultTimeZone)
+      dateValue.start = toWallClock(event.startDateTime, timeZone)
+      if (dateValue.end) dateValue.end = toWallClock(dateValue.end, timeZone)
+      dateValue.time_zone = timeZone
+    }
+
     properties[schema.dateProperty] = {
       date: dateValue
     }
@@ -0,0 +1,524 @@
+/**
+ * Outlook Calendar (Microsoft Graph)
+ * OAuth against the Microsoft identity platform, a small Graph client for calendar events,
+ * delta queries for incremental pulls and change-notification subscriptions
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { CalendarIntegration } from '@prisma/client'
+import { getPrismaClient } from '@/lib/prisma'
+import { decrypt, encrypt } from '@/lib/encryption'
+import { occurrenceDateKey } from '@/lib/recurrence'
+import { DEFAULT_TIMEZONE, resolveTimeZone, toWallClock } from '@/lib/timezone-utils'
+import type { RecurrenceRule, UnifiedEvent } from '@/components/EventCreationModal'
+
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0'
+
+export const OUTLOOK_SCOPES = ['offline_access', 'User.Read', 'Calendars.ReadWrite']
+
+// Graph allows calendar subscriptions of at most 4230 minutes - renew before they lapse
+export const OUTLOOK_SUBSCRIPTION_MINUTES = 4200
+
+export interface OutlookTokens {
+  accessToken: string
+  refreshToken?: string
+  expiresAt: Date
+}
+
+export interface GraphEvent {
+  id: string
+  subject?: string
+  bodyPreview?: string
+  body?: { contentType: string; content: string }
+  start?: { dateTime: string; timeZone: string }
+  end?: { dateTime: string; timeZone: string }
+  location?: { displayName?: string }
+  isAllDay?: boolean
+  isCancelled?: boolean
+  showAs?: string
+  attendees?: Array<{ emailAddress?: { address?: string; name?: string } }>
+  lastModifiedDateTime?: string
+  createdDateTime?: string
+  changeKey?: string
+  type?: 'singleInstance' | 'occurrence' | 'exception' | 'seriesMaster'
+  seriesMasterId?: string
+  originalStart?: string // Occurrence start an exception replaces
+  recurrence?: GraphRecurrence | null
+  '@odata.etag'?: string
+  '@removed'?: { reason: string }
+  singleValueExtendedProperties?: Array<{ id: string; value: string }>
+}
+
+export interface GraphRecurrence {
+  pattern: {
+    type: 'daily' | 'weekly' | 'absoluteMonthly' | 'relativeMonthly' | 'absoluteYearly' | 'relativeYearly'
+    interval: number
+    daysOfWeek?: string[]
+    dayOfMonth?: number
+    month?: number
+  }
+  range: {
+    type: 'endDate' | 'noEnd' | 'numbered'
+    startDate: string
+    endDate?: string
+    numberOfOccurrences?: number
+    recurrenceTimeZone?: string
+  }
+}
+
+export interface GraphDeltaResult {
+  events: GraphEvent[]
+  removed: string[] // Graph event IDs
+  deltaLink?: string
+}
+
+export class GraphError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public retryAfter?: string | null // Retry-After header of a throttled (429/503) response
+  ) {
+    super(message)
+    this.name = 'GraphError'
+  }
+
+  // The stored deltaLink is no longer valid - start a new delta round
+  get isSyncStateInvalid(): boolean {
+    return this.status === 410 || this.code === 'SyncStateNotFound' || this.code === 'syncStateNotFound'
+  }
+
+  get isPreconditionFailed(): boolean {
+    return this.status === 412
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404 || this.status === 410
+  }
+}
+
+// The local event ID rides along on the Graph event so we can find it again without EventSync
+const LOCAL_EVENT_ID_PROPERTY = 'String {66f5a359-4659-4830-9070-00047ec6ac6e} Name localEventId'
+
+function tokenEndpoint(): string {
+  return `https://login.microsoftonline.com/${process.env.OUTLOOK_TENANT_ID || 'common'}/oauth2/v2.0`
+}
+
+function redirectUri(): string {
+  return process.env.OUTLOOK_REDIRECT_URI || `${process.env.NEXTAUTH_URL}/api/auth/outlook/callback`
+}
+
+export function isOutlookConfigured(): boolean {
+  return !!(process.env.OUTLOOK_CLIENT_ID && process.env.OUTLOOK_CLIENT_SECRET)
+}
+
+/**
+ * Microsoft sign-in URL for the consent screen
+ */
+export function getOutlookAuthUrl(state: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.OUTLOOK_CLIENT_ID || '',
+    response_type: 'code',
+    redirect_uri: redirectUri(),
+    response_mode: 'query',
+    scope: OUTLOOK_SCOPES.join(' '),
+    state,
+    prompt: 'select_account'
+  })
+  return `${tokenEndpoint()}/authorize?${params.toString()}`
+}
+
+async function requestTokens(params: Record<string, string>): Promise<OutlookTokens> {
+  const response = await fetch(`${tokenEndpoint()}/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: process.env.OUTLOOK_CLIENT_ID || '',
+      client_secret: process.env.OUTLOOK_CLIENT_SECRET || '',
+      scope: OUTLOOK_SCOPES.join(' '),
+      ...params
+    }).toString()
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new GraphError(data.error_description || data.error || 'Token request failed', response.status, data.error)
+  }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresAt: new Date(Date.now() + (data.expires_in || 3600) * 1000)
+  }
+}
+
+export function exchangeOutlookCode(code: string): Promise<OutlookTokens> {
+  return requestTokens({ grant_type: 'authorization_code', code, redirect_uri: redirectUri() })
+}
+
+export function refreshOutlookTokens(refreshToken: string): Promise<OutlookTokens> {
+  return requestTokens({ grant_type: 'refresh_token', refresh_token: refreshToken })
+}
+
+/**
+ * Decrypted access token for an integration, refreshed (and the new tokens stored encrypted)
+ * when it expires within the next minute
+ */
+export async function getOutlookAccessToken(
+  integration: Pick<CalendarIntegration, 'id' | 'accessToken' | 'refreshToken' | 'expiresAt'>
+): Promise<string> {
+  const accessToken = decrypt(integration.accessToken)
+  const expiresAt = integration.expiresAt ? new Date(integration.expiresAt) : null
+  if (expiresAt && expiresAt.getTime() > Date.now() + 60000) {
+    return accessToken
+  }
+  if (!integration.refreshToken) {
+    return accessToken
+  }
+
+  const tokens = await refreshOutlookTokens(decrypt(integration.refreshToken))
+  const prisma = getPrismaClient()
+  if (prisma) {
+    await prisma.calendarIntegration.update({
+      where: { id: integration.id },
+      data: {
+        accessToken: encrypt(tokens.accessToken),
+        ...(tokens.refreshToken && { refreshToken: encrypt(tokens.refreshToken) }),
+        expiresAt: tokens.expiresAt
+      }
+    })
+  }
+  return tokens.accessToken
+}
+
+/**
+ * Secret Graph echoes back on every change notification, so the webhook can reject forged ones
+ */
+export function outlookClientState(integrationId: string): string {
+  const secret = process.env.ENCRYPTION_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('ENCRYPTION_SECRET or NEXTAUTH_SECRET must be set to register Outlook subscriptions')
+  }
+  return createHmac('sha256', secret).update(`outlook-subscription:${integrationId}`).digest('hex')
+}
+
+/**
+ * Check the clientState echoed back on a change notification against the one we registered
+ */
+export function verifyOutlookClientState(integrationId: string, clientState: string | undefined): boolean {
+  if (!clientState) return false
+  try {
+    const expected = Buffer.from(outlookClientState(integrationId))
+    const received = Buffer.from(clientState)
+    return expected.length === received.length && timingSafeEqual(expected, received)
+  } catch {
+    return false
+  }
+}
+
+export class GraphCalendarClient {
+  // Graph takes Windows and IANA zone names alike; times without one are read in the user's zone
+  constructor(private readonly accessToken: string, private readonly timeZone = DEFAULT_TIMEZONE) {}
+
+  private async request<T>(
+    method: string,
+    pathOrUrl: string,
+    options: { body?: unknown; headers?: Record<string, string> } = {}
+  ): Promise<T> {
+    const response = await fetch(pathOrUrl.startsWith('https://') ? pathOrUrl : `${GRAPH_URL}${pathOrUrl}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        // Times come back as wall-clock times in the user's zone
+        Prefer: `outlook.timezone="${this.timeZone}", odata.maxpagesize=100`,
+        ...(options.body !== undefined && { 'Content-Type': 'application/json' }),
+        ...options.headers
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    })
+
+    if (response.status === 204) {
+      return undefined as T
+    }
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new GraphError(
+        data.error?.message || `Graph ${method} ${pathOrUrl} failed: ${response.status}`,
+        response.status,
+        data.error?.code,
+        response.headers.get('Retry-After')
+      )
+    }
+    return data as T
+  }
+
+  getProfile(): Promise<{ id: string; displayName?: string; mail?: string; userPrincipalName?: string }> {
+    return this.request('GET', '/me?$select=id,displayName,mail,userPrincipalName')
+  }
+
+  getDefaultCalendar(): Promise<{ id: string; name: string }> {
+    return this.request('GET', '/me/calendar?$select=id,name')
+  }
+
+  async listCalendars(): Promise<{ id: string; name: string; isDefaultCalendar?: boolean; canEdit?: boolean }[]> {
+    const data = await this.request<{ value: { id: string; name: string; isDefaultCalendar?: boolean; canEdit?: boolean }[] }>(
+      'GET', '/me/calendars?$select=id,name,isDefaultCalendar,canEdit&$top=100'
+    )
+    return data.value
+  }
+
+  createEvent(calendarId: string, event: Record<string, unknown>): Promise<GraphEvent> {
+    return this.request('POST', `/me/calendars/${encodeURIComponent(calendarId)}/events`, { body: event })
+  }
+
+  /**
+   * Update an event. Pass the ETag from the last sync to refuse the write if it changed since.
+   */
+  updateEvent(eventId: string, event: Record<string, unknown>, etag?: string): Promise<GraphEvent> {
+    return this.request('PATCH', `/me/events/${encodeURIComponent(eventId)}`, {
+      body: event,
+      headers: etag ? { 'If-Match': etag } : undefined
+    })
+  }
+
+  deleteEvent(eventId: string): Promise<void> {
+    return this.request('DELETE', `/me/events/${encodeURIComponent(eventId)}`)
+  }
+
+  /**
+   * Occurrences and exceptions of a series between two instants
+   */
+  async listInstances(seriesMasterId: string, start: Date, end: Date): Promise<GraphEvent[]> {
+    let url = `${GRAPH_URL}/me/events/${encodeURIComponent(seriesMasterId)}/instances?` + new URLSearchParams({
+      startDateTime: start.toISOString(),
+      endDateTime: end.toISOString(),
+      $select: 'id,start,end,type,originalStart,seriesMasterId'
+    }).toString()
+
+    const instances: GraphEvent[] = []
+    for (;;) {
+      const page = await this.request<{ value: GraphEvent[]; '@odata.nextLink'?: string }>('GET', url)
+      instances.push(...(page.value || []))
+      if (!page['@odata.nextLink']) return instances
+      url = page['@odata.nextLink']
+    }
+  }
+
+  /**
+   * Delta query over a calendar view. Without a deltaLink a new round starts for the given
+   * window; following pages are fetched until Graph hands back the next deltaLink.
+   */
+  async calendarViewDelta(
+    calendarId: string,
+    options: { deltaLink?: string; start: Date; end: Date }
+  ): Promise<GraphDeltaResult> {
+    let url = options.deltaLink || `${GRAPH_URL}/me/calendars/${encodeURIComponent(calendarId)}/calendarView/delta?` +
+      new URLSearchParams({
+        startDateTime: options.start.toISOString(),
+        endDateTime: options.end.toISOString()
+      }).toString()
+
+    const events: GraphEvent[] = []
+    const removed: string[] = []
+
+    for (;;) {
+      const page = await this.request<{
+        value: GraphEvent[]
+        '@odata.nextLink'?: string
+        '@odata.deltaLink'?: string
+      }>('GET', url)
+
+      for (const item of page.value || []) {
+        if (item['@removed']) {
+          removed.push(item.id)
+        } else {
+          events.push(item)
+        }
+      }
+
+      if (page['@odata.nextLink']) {
+        url = page['@odata.nextLink']
+        continue
+      }
+      return { events, removed, deltaLink: page['@odata.deltaLink'] }
+    }
+  }
+
+  /**
+   * Delta results only carry a few fields - fetch the full event, with our local ID property
+   */
+  getEvent(eventId: string): Promise<GraphEvent> {
+    return this.request('GET', `/me/events/${encodeURIComponent(eventId)}?$expand=` +
+      encodeURIComponent(`singleValueExtendedProperties($filter=id eq '${LOCAL_EVENT_ID_PROPERTY}')`))
+  }
+
+  createSubscription(params: {
+    calendarId: string
+    notificationUrl: string
+    clientState: string
+  }): Promise<{ id: string; expirationDateTime: string }> {
+    return this.request('POST', '/subscriptions', {
+      body: {
+        changeType: 'created,updated,deleted',
+        notificationUrl: params.notificationUrl,
+        resource: `/me/calendars/${params.calendarId}/events`,
+        expirationDateTime: new Date(Date.now() + OUTLOOK_SUBSCRIPTION_MINUTES * 60000).toISOString(),
+        clientState: params.clientState
+      }
+    })
+  }
+
+  renewSubscription(subscriptionId: string): Promise<{ id: string; expirationDateTime: string }> {
+    return this.request('PATCH', `/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+      body: { expirationDateTime: new Date(Date.now() + OUTLOOK_SUBSCRIPTION_MINUTES * 60000).toISOString() }
+    })
+  }
+
+  deleteSubscription(subscriptionId: string): Promise<void> {
+    return this.request('DELETE', `/subscriptions/${encodeURIComponent(subscriptionId)}`)
+  }
+}
+
+const GRAPH_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+/**
+ * Graph recurrence for a RecurrenceRule. Graph has no EXDATE - cancelled occurrences are
+ * deleted as instances after the series is written.
+ */
+export function recurrenceToGraph(rule: RecurrenceRule, startDateTime: string, timeZone = DEFAULT_TIMEZONE): GraphRecurrence {
+  const startDate = occurrenceDateKey(startDateTime, timeZone)
+  const [year, month, day] = startDate.split('-').map(Number)
+  const frequency = rule.frequency === 'custom'
+    ? ({ days: 'daily', weeks: 'weekly', months: 'monthly', years: 'yearly' } as const)[rule.intervalType || 'weeks']
+    : rule.frequency
+
+  const pattern: GraphRecurrence['pattern'] = { type: 'daily', interval: Math.max(1, rule.interval || 1) }
+  if (frequency === 'weekly') {
+    pattern.type = 'weekly'
+    const weekDays = rule.weekDays?.length ? rule.weekDays : [new Date(Date.UTC(year, month - 1, day)).getUTCDay()]
+    pattern.daysOfWeek = weekDays.map(weekDay => GRAPH_WEEKDAYS[weekDay])
+  } else if (frequency === 'monthly') {
+    pattern.type = 'absoluteMonthly'
+    pattern.dayOfMonth = rule.monthDay || day
+  } else if (frequency === 'yearly') {
+    pattern.type = 'absoluteYearly'
+    pattern.dayOfMonth = day
+    pattern.month = month
+  }
+
+  const range: GraphRecurrence['range'] = rule.endDate
+    ? { type: 'endDate', startDate, endDate: rule.endDate.slice(0, 10) }
+    : rule.occurrences
+      ? { type: 'numbered', startDate, numberOfOccurrences: rule.occurrences }
+      : { type: 'noEnd', startDate }
+
+  return { pattern, range: { ...range, recurrenceTimeZone: timeZone } }
+}
+
+/**
+ * RecurrenceRule for a Graph recurrence. Relative patterns ("second Tuesday") become plain
+ * monthly/yearly rules - we have no way to express them.
+ */
+export function graphToRecurrence(recurrence: GraphRecurrence): RecurrenceRule {
+  const { pattern, range } = recurrence
+  const frequency = pattern.type === 'daily' || pattern.type === 'weekly'
+    ? pattern.type
+    : pattern.type.endsWith('Monthly') ? 'monthly' : 'yearly'
+
+  const rule: RecurrenceRule = { frequency, interval: pattern.interval || 1 }
+  if (frequency === 'weekly' && pattern.daysOfWeek?.length) {
+    rule.weekDays = pattern.daysOfWeek.map(weekDay => GRAPH_WEEKDAYS.indexOf(weekDay.toLowerCase())).filter(weekDay => weekDay >= 0)
+  }
+  if (pattern.type === 'absoluteMonthly' && pattern.dayOfMonth) {
+    rule.monthDay = pattern.dayOfMonth
+  }
+  if (range.type === 'endDate' && range.endDate) {
+    rule.endDate = range.endDate
+  } else if (range.type === 'numbered' && range.numberOfOccurrences) {
+    rule.occurrences = range.numberOfOccurrences
+  }
+  return rule
+}
+
+/**
+ * Convert UnifiedEvent to a Graph event body
+ */
+export function convertToGraphEvent(event: UnifiedEvent, defaultTimeZone?: string): Record<string, unknown> {
+  const endDateTime = event.endDateTime || event.startDateTime
+  const timeZone = resolveTimeZone(event.timezone, defaultTimeZone)
+  // Graph wants a zone-less wall-clock time plus the zone name
+  const wallClock = (value: string) => ({ dateTime: toWallClock(value, timeZone), timeZone })
+
+  // All-day events run midnight to midnight, with an exclusive end
+  const allDayEnd = () => {
+    const end = new Date(`${endDateTime.split('T')[0]}T00:00:00Z`)
+    end.setUTCDate(end.getUTCDate() + 1)
+    return end.toISOString().split('T')[0]
+  }
+
+  return {
+    subject: event.title,
+    body: { contentType: 'text', content: event.description || '' },
+    location: { displayName: event.location || '' },
+    isAllDay: !!event.isAllDay,
+    start: event.isAllDay
+      ? { dateTime: `${event.startDateTime.split('T')[0]}T00:00:00`, timeZone }
+      : wallClock(event.startDateTime),
+    end: event.isAllDay
+      ? { dateTime: `${allDayEnd()}T00:00:00`, timeZone }
+      : wallClock(endDateTime),
+    attendees: (event.participants || [])
+      .filter(participant => participant.includes('@'))
+      .map(address => ({ emailAddress: { address }, type: 'required' })),
+    singleValueExtendedProperties: [{ id: LOCAL_EVENT_ID_PROPERTY, value: event.id }],
+    // An edited occurrence is written to the series' instance, which can't carry a pattern
+    ...(!event.originalStartDateTime && {
+      recurrence: event.isRecurring && event.recurrence ? recurrenceToGraph(event.recurrence, event.startDateTime, timeZone) : null
+    })
+  }
+}
+
+/**
+ * Local event fields from a Graph event
+ */
+export function convertFromGraphEvent(graphEvent: GraphEvent) {
+  const toLocal = (value?: { dateTime: string; timeZone: string }) => {
+    if (!value?.dateTime) return ''
+    const trimmed = value.dateTime.replace(/\.\d+$/, '')
+    return value.timeZone === 'UTC' ? `${trimmed}Z` : trimmed
+  }
+
+  let startDateTime = toLocal(graphEvent.start)
+  let endDateTime = toLocal(graphEvent.end) || startDateTime
+
+  if (graphEvent.isAllDay) {
+    // Back to dates, with an inclusive end
+    startDateTime = startDateTime.split('T')[0]
+    const end = new Date(`${endDateTime.split('T')[0]}T00:00:00Z`)
+    end.setUTCDate(end.getUTCDate() - 1)
+    endDateTime = end.toISOString().split('T')[0]
+  }
+
+  return {
+    title: graphEvent.subject || 'Untitled Event',
+    description: graphEvent.body?.contentType === 'text' ? graphEvent.body.content : graphEvent.bodyPreview || '',
+    startDateTime,
+    endDateTime,
+    // The zone asked for in the Prefer header, so it's an IANA name unless Graph fell back to UTC
+    timezone: graphEvent.start?.timeZone && graphEvent.start.timeZone !== 'UTC' ? graphEvent.start.timeZone : null,
+    location: graphEvent.location?.displayName || '',
+    isAllDay: !!graphEvent.isAllDay,
+    status: graphEvent.isCancelled ? 'cancelled' : 'scheduled',
+    participants: (graphEvent.attendees || [])
+      .map(attendee => attendee.emailAddress?.address)
+      .filter((address): address is string => !!address)
+  }
+}
+
+/**
+ * Local event ID stamped on events we pushed (only present on events fetched with getEvent)
+ */
+export function getLocalEventId(graphEvent: GraphEvent): string | undefined {
+  return graphEvent.singleValueExtendedProperties?.find(property => property.id === LOCAL_EVENT_ID_PROPERTY)?.value
+}
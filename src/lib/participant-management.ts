@@ -1,7 +1,7 @@
 // src/lib/participant-management.ts
 // Core service for participant management and appointment booking
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import {
   Participant,
   CreateParticipantRequest,
@@ -17,6 +17,8 @@ import {
   AvailabilityResponse,
   AvailabilitySlot,
   AppointmentConflict,
+  BusinessHours,
+  ServiceConfigurations,
   VoiceBookingRequest,
   VoiceBookingResponse,
   NotificationLog,
@@ -30,6 +32,7 @@ import {
 } from '../types/participant-management';
 import type { ServiceType } from '../types/participant-management';
 import { gmailNotificationService } from './gmail-notification-service';
+import { DEFAULT_TIMEZONE, resolveTimeZone, toUtcInstant, toWallClock } from './timezone-utils';
 
 // Initialize Prisma client
 let prisma: PrismaClient;
@@ -39,6 +42,29 @@ if (typeof window === 'undefined') {
   prisma = new PrismaClient();
 }
 
+const DEFAULT_BUSINESS_HOURS = {
+  start: '09:00',
+  end: '17:00',
+  workingDays: [1, 2, 3, 4, 5],
+  travelBufferMinutes: 30,
+};
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * FollowUpConfiguration.workingDays - day numbers (0=Sunday) or names ("monday", "Mon")
+ */
+function parseWorkingDays(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const days = value
+    .map(day => typeof day === 'number'
+      ? day
+      : DAY_NAMES.findIndex(name => name.startsWith(String(day).trim().toLowerCase().slice(0, 3))))
+    .filter(day => day >= 0 && day <= 6);
+  return days.length > 0 ? days : null;
+}
+
 function getPrismaClient(): PrismaClient {
   if (typeof window !== 'undefined') {
     throw new Error('Prisma client cannot be used on the client side');
@@ -57,9 +83,10 @@ export class ParticipantManagementService {
 
   /**
    * Create a new participant
+   * @param tx - Create inside the caller's transaction
    */
-  async createParticipant(data: CreateParticipantRequest): Promise<Participant> {
-    const participant = await this.prisma.participant.create({
+  async createParticipant(data: CreateParticipantRequest, tx?: Prisma.TransactionClient): Promise<Participant> {
+    const participant = await (tx ?? this.prisma).participant.create({
       data: {
         name: data.name,
         email: data.email,
@@ -166,7 +193,7 @@ export class ParticipantManagementService {
   /**
    * Find participant by phone or email (for voice commands)
    */
-  async findParticipantByContact(phone?: string, email?: string): Promise<Participant | null> {
+  async findParticipantByContact(phone?: string, email?: string, tx?: Prisma.TransactionClient): Promise<Participant | null> {
     if (!phone && !email) return null;
 
     const where: any = {};
@@ -178,7 +205,7 @@ export class ParticipantManagementService {
       where.email = email;
     }
 
-    const participant = await this.prisma.participant.findFirst({ where });
+    const participant = await (tx ?? this.prisma).participant.findFirst({ where });
     return participant ? this.mapParticipantFromDB(participant) : null;
   }
 
@@ -186,15 +213,16 @@ export class ParticipantManagementService {
 
   /**
    * Create a new appointment
+   * @param tx - Create inside the caller's transaction
    */
-  async createAppointment(data: CreateAppointmentRequest): Promise<Appointment> {
-    const appointment = await this.prisma.appointment.create({
+  async createAppointment(data: CreateAppointmentRequest, tx?: Prisma.TransactionClient): Promise<Appointment> {
+    const appointment = await (tx ?? this.prisma).appointment.create({
       data: {
         title: data.title,
         description: data.description,
         startTime: new Date(data.startTime),
         endTime: new Date(data.endTime),
-        timezone: data.timezone || 'America/Toronto',
+        timezone: data.timezone || DEFAULT_TIMEZONE,
         service: data.service as any,
         location: data.location,
         organizerId: data.organizerId,
@@ -350,23 +378,28 @@ export class ParticipantManagementService {
   }
 
   /**
-   * Check availability for participants
+   * Check availability for participants: slots inside business hours on working days that are
+   * clear of their appointments and of calendar events, with the travel buffer on either side
+   * @param tx - Read inside the caller's transaction, e.g. one that books the slot under a lock
    */
-  async checkAvailability(request: AvailabilityRequest): Promise<AvailabilityResponse> {
+  async checkAvailability(request: AvailabilityRequest, tx?: Prisma.TransactionClient): Promise<AvailabilityResponse> {
+    const db = tx ?? this.prisma;
     const startDate = new Date(request.startDate);
     const endDate = new Date(request.endDate);
     const duration = request.duration;
+    const hours = await this.getBusinessHours(request.service, tx);
+    const buffer = hours.travelBufferMinutes * 60000;
 
-    // Get existing appointments for participants in the date range
-    const existingAppointments = await this.prisma.appointment.findMany({
+    // Get existing appointments for participants that overlap the date range (buffer included)
+    const existingAppointments = await db.appointment.findMany({
       where: {
         participants: {
           some: {
             participantId: { in: request.participantIds },
           },
         },
-        startTime: { gte: startDate },
-        endTime: { lte: endDate },
+        startTime: { lt: new Date(endDate.getTime() + buffer) },
+        endTime: { gt: new Date(startDate.getTime() - buffer) },
         status: { in: ['SCHEDULED', 'CONFIRMED', 'IN_PROGRESS'] },
       },
       include: {
@@ -378,39 +411,46 @@ export class ParticipantManagementService {
       },
     });
 
+    const busyEvents = await this.getBusyEvents(startDate, endDate, hours.timezone, db);
+
     // Generate time slots and check conflicts
     const availableSlots: AvailabilitySlot[] = [];
     const conflicts: AppointmentConflict[] = [];
+    const slotInterval = (request.slotInterval || 60) * 60000;
 
-    // Simple implementation - generate hourly slots
-    const current = new Date(startDate);
-    while (current < endDate) {
-      const slotEnd = new Date(current.getTime() + duration * 60000);
-      
-      const hasConflict = existingAppointments.some((apt: any) => {
-        const aptStart = new Date(apt.startTime);
-        const aptEnd = new Date(apt.endTime);
-        return (current < aptEnd && slotEnd > aptStart);
-      });
+    for (const day of this.datesBetween(startDate, endDate, hours.timezone)) {
+      if (!hours.workingDays.includes(new Date(`${day}T12:00:00Z`).getUTCDay())) continue;
 
-      availableSlots.push({
-        startTime: current.toISOString(),
-        endTime: slotEnd.toISOString(),
-        available: !hasConflict,
-        conflictReason: hasConflict ? 'Existing appointment' : undefined,
-      });
+      const dayStart = toUtcInstant(`${day}T${hours.start}:00`, hours.timezone);
+      const dayEnd = toUtcInstant(`${day}T${hours.end}:00`, hours.timezone);
+
+      for (let time = dayStart.getTime(); time + duration * 60000 <= dayEnd.getTime(); time += slotInterval) {
+        const current = new Date(time);
+        const slotEnd = new Date(time + duration * 60000);
+        if (current < startDate || slotEnd > endDate) continue;
+
+        // The crew has to get from the previous job and on to the next one
+        const overlaps = (start: Date, end: Date) =>
+          current.getTime() < end.getTime() + buffer && slotEnd.getTime() + buffer > start.getTime();
+
+        const conflictingApt = existingAppointments.find((apt: any) => overlaps(apt.startTime, apt.endTime));
+        const conflictingEvent = conflictingApt ? undefined : busyEvents.find(event => overlaps(event.start, event.end));
 
-      // Add conflicts
-      if (hasConflict) {
-        const conflictingApt = existingAppointments.find((apt: any) => {
-          const aptStart = new Date(apt.startTime);
-          const aptEnd = new Date(apt.endTime);
-          return (current < aptEnd && slotEnd > aptStart);
+        availableSlots.push({
+          startTime: current.toISOString(),
+          endTime: slotEnd.toISOString(),
+          available: !conflictingApt && !conflictingEvent,
+          conflictReason: conflictingApt
+            ? 'Existing appointment'
+            : conflictingEvent ? `Calendar event: ${conflictingEvent.title}` : undefined,
         });
 
+        // Add conflicts
         if (conflictingApt) {
           conflictingApt.participants.forEach((p: any) => {
-            if (request.participantIds.includes(p.participantId)) {
+            const alreadyListed = conflicts.some(conflict =>
+              conflict.participantId === p.participantId && conflict.conflictingAppointmentId === conflictingApt.id);
+            if (request.participantIds.includes(p.participantId) && !alreadyListed) {
               conflicts.push({
                 participantId: p.participantId,
                 participantName: p.participant.name,
@@ -425,8 +465,6 @@ export class ParticipantManagementService {
           });
         }
       }
-
-      current.setHours(current.getHours() + 1);
     }
 
     // Generate suggestions (next available slots)
@@ -441,6 +479,93 @@ export class ParticipantManagementService {
     };
   }
 
+  /**
+   * Business hours, working days and travel buffer for a service type
+   */
+  async getBusinessHours(service?: string, tx?: Prisma.TransactionClient): Promise<BusinessHours> {
+    const config = await (tx ?? this.prisma).followUpConfiguration.findFirst({
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const serviceConfigs = (config?.serviceConfigurations || {}) as ServiceConfigurations;
+    const serviceConfig = service ? serviceConfigs[service.toUpperCase()] : undefined;
+    const travelBuffer = serviceConfig?.travelBufferMinutes ?? serviceConfigs.travelBufferMinutes;
+
+    return {
+      start: config?.businessHoursStart || DEFAULT_BUSINESS_HOURS.start,
+      end: config?.businessHoursEnd || DEFAULT_BUSINESS_HOURS.end,
+      workingDays: parseWorkingDays(config?.workingDays) || DEFAULT_BUSINESS_HOURS.workingDays,
+      timezone: resolveTimeZone(config?.timezone),
+      travelBufferMinutes: typeof travelBuffer === 'number' && travelBuffer >= 0
+        ? travelBuffer
+        : DEFAULT_BUSINESS_HOURS.travelBufferMinutes,
+    };
+  }
+
+  /**
+   * Calendar events that take up time in a range, as UTC instants. Goals and milestones don't
+   * occupy the crew; all-day events block their whole days.
+   */
+  private async getBusyEvents(
+    startDate: Date,
+    endDate: Date,
+    timeZone: string,
+    db: Prisma.TransactionClient = this.prisma
+  ): Promise<{ id: string; title: string; start: Date; end: Date }[]> {
+    // Event times are strings (wall-clock or with an offset) - narrow by date, then compare instants
+    const firstDay = new Date(startDate.getTime() - 86400000).toISOString().slice(0, 10);
+    const lastDay = new Date(endDate.getTime() + 86400000).toISOString().slice(0, 10);
+
+    const events = await db.event.findMany({
+      where: {
+        type: { in: ['EVENT', 'TASK'] },
+        startDateTime: { lte: `${lastDay}T23:59:59` },
+        OR: [
+          { endDateTime: { gte: firstDay } },
+          { endDateTime: null, startDateTime: { gte: firstDay } },
+        ],
+        NOT: { status: { in: ['cancelled', 'CANCELLED'] } },
+      },
+      select: { id: true, title: true, startDateTime: true, endDateTime: true, timezone: true, duration: true, isAllDay: true },
+    });
+
+    return events
+      .map(event => {
+        const zone = resolveTimeZone(event.timezone, timeZone);
+        if (event.isAllDay) {
+          const lastDate = (event.endDateTime || event.startDateTime).slice(0, 10);
+          return {
+            id: event.id,
+            title: event.title,
+            start: toUtcInstant(event.startDateTime.slice(0, 10), zone),
+            end: new Date(toUtcInstant(lastDate, zone).getTime() + 86400000),
+          };
+        }
+
+        const start = toUtcInstant(event.startDateTime, zone);
+        const end = event.endDateTime
+          ? toUtcInstant(event.endDateTime, zone)
+          : new Date(start.getTime() + (event.duration || 60) * 60000);
+        return { id: event.id, title: event.title, start, end };
+      })
+      .filter(event => event.start < endDate && event.end > startDate);
+  }
+
+  /**
+   * Calendar dates ("YYYY-MM-DD") a range touches, in a time zone
+   */
+  private datesBetween(startDate: Date, endDate: Date, timeZone: string): string[] {
+    const dates: string[] = [];
+    const last = toWallClock(endDate.toISOString(), timeZone).slice(0, 10);
+    let day = toWallClock(startDate.toISOString(), timeZone).slice(0, 10);
+
+    while (day <= last) {
+      dates.push(day);
+      day = new Date(Date.parse(`${day}T12:00:00Z`) + 86400000).toISOString().slice(0, 10);
+    }
+    return dates;
+  }
+
   // ===== VOICE COMMAND INTEGRATION =====
 
   /**
@@ -838,6 +963,7 @@ export class ParticipantManagementService {
       email: dbParticipant.email,
       phone: dbParticipant.phone,
       company: dbParticipant.company,
+      timezone: dbParticipant.timezone || undefined,
       role: dbParticipant.role,
       services: dbParticipant.services,
       contactPreferences: dbParticipant.contactPreferences 
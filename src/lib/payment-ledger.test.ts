@@ -0,0 +1,123 @@
+// src/lib/payment-ledger.test.ts
+
+import { Prisma } from "@prisma/client";
+import { calculateBalance, recordPayment, resolvePaymentStatus } from "./payment-ledger";
+import { getPrismaClient } from "./prisma";
+import { BillingError } from "../types/billing";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+jest.mock("./billing-manager", () => ({
+  billingManager: { createReceipt: jest.fn(async () => ({ id: "receipt-1", receiptNumber: "REC-2026-001" })) },
+}));
+jest.mock("./activity-logger", () => ({ logPaymentReceived: jest.fn() }));
+
+const invoice = {
+  id: "invoice-1",
+  documentType: "INVOICE",
+  documentNumber: "INV-2026-001",
+  clientId: "client-1",
+  serviceType: "landscaping",
+  amount: 113,
+  status: "SENT",
+  payments: [] as Array<{ amount: number }>,
+};
+
+function mockDatabase(options: { credited?: number; failures?: number } = {}) {
+  let failures = options.failures ?? 0;
+  const payment = (data: Record<string, unknown>) => ({ id: "payment-1", createdAt: new Date(), receiptId: null, receiptNumber: null, reference: null, notes: null, currency: "CAD", ...data });
+  const tx = {
+    billingDocument: {
+      findUnique: jest.fn(async () => ({ ...invoice, payments: [...invoice.payments] })),
+      groupBy: jest.fn(async () => (options.credited ? [{ originalDocumentId: invoice.id, _sum: { amount: options.credited } }] : [])),
+      update: jest.fn(async () => undefined),
+    },
+    payment: { create: jest.fn(async ({ data }) => payment(data)) },
+  };
+  const prisma = {
+    ...tx,
+    payment: { ...tx.payment, update: jest.fn(async () => undefined) },
+    $transaction: jest.fn(async (work: (client: typeof tx) => Promise<unknown>) => {
+      if (failures > 0) {
+        failures--;
+        throw new Prisma.PrismaClientKnownRequestError("could not serialize access", { code: "P2034", clientVersion: "test" });
+      }
+      return work(tx);
+    }),
+  };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+  return { prisma, tx };
+}
+
+describe("Payment Ledger", () => {
+  describe("calculateBalance", () => {
+    it("should net payments and credits in cents", () => {
+      expect(calculateBalance(100.3, [{ amount: 0.1 }, { amount: 0.2 }], 50)).toEqual({
+        amountPaid: 0.3,
+        amountCredited: 50,
+        balanceDue: 50,
+      });
+    });
+
+    it("should never report a negative balance", () => {
+      expect(calculateBalance(100, [{ amount: 80 }], 40).balanceDue).toBe(0);
+    });
+  });
+
+  describe("resolvePaymentStatus", () => {
+    it("should move to PARTIAL_PAYMENT and then PAID", () => {
+      expect(resolvePaymentStatus("SENT", 113, 0)).toBe("SENT");
+      expect(resolvePaymentStatus("SENT", 113, 50)).toBe("PARTIAL_PAYMENT");
+      expect(resolvePaymentStatus("PARTIAL_PAYMENT", 113, 113)).toBe("PAID");
+    });
+  });
+
+  describe("recordPayment", () => {
+    it("should reject invalid and future payment dates", async () => {
+      mockDatabase();
+      const base = { billingDocumentId: invoice.id, amount: 10, method: "cash" as const };
+
+      await expect(recordPayment({ ...base, paidAt: new Date("not a date") })).rejects.toMatchObject({ code: "VALIDATION" });
+      await expect(recordPayment({ ...base, paidAt: new Date(Date.now() + 86_400_000) })).rejects.toThrow("future");
+    });
+
+    it("should reject a payment larger than the balance left after credits", async () => {
+      mockDatabase({ credited: 100 });
+
+      await expect(
+        recordPayment({ billingDocumentId: invoice.id, amount: 20, method: "cash", issueReceipt: false })
+      ).rejects.toThrow("exceeds the outstanding balance of $13.00");
+    });
+
+    it("should mark the invoice paid once payments and credits cover it", async () => {
+      const { tx } = mockDatabase({ credited: 13 });
+
+      await recordPayment({ billingDocumentId: invoice.id, amount: 100, method: "e-transfer", issueReceipt: false });
+
+      expect(tx.billingDocument.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: "PAID" }) })
+      );
+    });
+
+    it("should retry serialization failures", async () => {
+      const { prisma, tx } = mockDatabase({ failures: 2 });
+
+      await recordPayment({ billingDocumentId: invoice.id, amount: 50, method: "cash", issueReceipt: false });
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(3);
+      expect(tx.payment.create).toHaveBeenCalledTimes(1);
+      expect(tx.billingDocument.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: "PARTIAL_PAYMENT" }) })
+      );
+    });
+
+    it("should give up with a conflict after repeated serialization failures", async () => {
+      const { tx } = mockDatabase({ failures: 5 });
+
+      const attempt = recordPayment({ billingDocumentId: invoice.id, amount: 50, method: "cash", issueReceipt: false });
+
+      await expect(attempt).rejects.toBeInstanceOf(BillingError);
+      await expect(attempt).rejects.toMatchObject({ code: "CONFLICT" });
+      expect(tx.payment.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,340 @@
+// src/lib/payment-ledger.ts
+// Records individual payments against BillingDocuments / BillingRecords, keeps the
+// outstanding balance and status in step (DRAFT -> SENT -> PARTIAL_PAYMENT -> PAID)
+// and issues one receipt per payment through BillingManager.createReceipt.
+import { Prisma } from '@prisma/client';
+import type { Payment as PrismaPayment, PaymentMethod as PrismaPaymentMethod, PrismaClient } from '@prisma/client';
+import { getPrismaClient } from './prisma';
+import { billingManager } from './billing-manager';
+import { logPaymentReceived } from './activity-logger';
+import {
+  BillingError,
+  Payment,
+  PaymentLedger,
+  PaymentMethod,
+  RecordPaymentData
+} from '../types/billing';
+
+const METHOD_TO_DB: Record<PaymentMethod, PrismaPaymentMethod> = {
+  'cash': 'CASH',
+  'card': 'CARD',
+  'e-transfer': 'E_TRANSFER',
+  'check': 'CHECK',
+  'other': 'OTHER'
+};
+
+const METHOD_FROM_DB: Record<PrismaPaymentMethod, PaymentMethod> = {
+  CASH: 'cash',
+  CARD: 'card',
+  E_TRANSFER: 'e-transfer',
+  CHECK: 'check',
+  OTHER: 'other'
+};
+
+const MAX_SERIALIZABLE_ATTEMPTS = 3;
+
+// Amounts are compared in cents to avoid floating point drift (0.1 + 0.2)
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+export function toPayment(record: PrismaPayment): Payment {
+  return {
+    id: record.id,
+    clientId: record.clientId,
+    billingDocumentId: record.billingDocumentId || undefined,
+    billingRecordId: record.billingRecordId || undefined,
+    amount: record.amount,
+    currency: record.currency,
+    method: METHOD_FROM_DB[record.method],
+    paidAt: record.paidAt,
+    reference: record.reference || undefined,
+    notes: record.notes || undefined,
+    receiptId: record.receiptId || undefined,
+    receiptNumber: record.receiptNumber || undefined,
+    createdAt: record.createdAt
+  };
+}
+
+export function calculateBalance(
+  totalAmount: number,
+  payments: Array<{ amount: number }>,
+  amountCredited = 0
+): {
+  amountPaid: number;
+  amountCredited: number;
+  balanceDue: number;
+} {
+  const paidCents = payments.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  return {
+    amountPaid: fromCents(paidCents),
+    amountCredited,
+    balanceDue: fromCents(Math.max(toCents(totalAmount) - toCents(amountCredited) - paidCents, 0))
+  };
+}
+
+// Total of the credit notes issued against each invoice (BillingDocument or legacy BillingRecord -
+// CreditNote.originalDocumentId can point at either), keyed by invoice id
+export async function getCreditedTotals(
+  db: Pick<Prisma.TransactionClient, 'billingDocument'>,
+  invoiceIds: string[]
+): Promise<Map<string, number>> {
+  if (invoiceIds.length === 0) return new Map();
+
+  const totals = await db.billingDocument.groupBy({
+    by: ['originalDocumentId'],
+    where: { documentType: 'CREDIT_NOTE', originalDocumentId: { in: invoiceIds }, status: { not: 'CANCELLED' } },
+    _sum: { amount: true }
+  });
+  return new Map(totals.map(total => [total.originalDocumentId!, total._sum.amount || 0]));
+}
+
+// Work out the status after payments: fully paid -> PAID, anything paid -> PARTIAL_PAYMENT,
+// otherwise leave DRAFT/SENT/OVERDUE untouched
+export function resolvePaymentStatus<S extends string>(
+  currentStatus: S,
+  totalAmount: number,
+  amountPaid: number
+): S | 'PAID' | 'PARTIAL_PAYMENT' {
+  if (toCents(amountPaid) >= toCents(totalAmount) && totalAmount > 0) return 'PAID';
+  if (toCents(amountPaid) > 0) return 'PARTIAL_PAYMENT';
+  return currentStatus;
+}
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+/**
+ * Run `work` in a Serializable transaction. Postgres aborts one side of a write conflict with a
+ * serialization failure (P2034); that side is rerun against the committed state a few times
+ * before the caller gets a CONFLICT.
+ */
+export async function runSerializable<T>(
+  prisma: PrismaClient,
+  work: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(work, { isolationLevel: 'Serializable' });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+        if (attempt < MAX_SERIALIZABLE_ATTEMPTS) continue;
+        throw new BillingError('The document was changed by another request at the same time - please try again', 'CONFLICT');
+      }
+      throw error;
+    }
+  }
+}
+
+function validateTarget(target: { billingDocumentId?: string; billingRecordId?: string }) {
+  if (!target.billingDocumentId === !target.billingRecordId) {
+    throw new BillingError('Exactly one of billingDocumentId or billingRecordId is required', 'VALIDATION');
+  }
+}
+
+export async function getPaymentLedger(target: {
+  billingDocumentId?: string;
+  billingRecordId?: string;
+}): Promise<PaymentLedger> {
+  validateTarget(target);
+  const prisma = requirePrisma();
+
+  if (target.billingDocumentId) {
+    const document = await prisma.billingDocument.findUnique({
+      where: { id: target.billingDocumentId },
+      include: { payments: { orderBy: { paidAt: 'asc' } } }
+    });
+    if (!document) {
+      throw new BillingError('Billing document not found', 'NOT_FOUND');
+    }
+    const credited = await getCreditedTotals(prisma, [document.id]);
+
+    return {
+      targetType: 'billing_document',
+      targetId: document.id,
+      documentNumber: document.documentNumber,
+      clientId: document.clientId,
+      totalAmount: document.amount,
+      ...calculateBalance(document.amount, document.payments, credited.get(document.id)),
+      status: document.status as PaymentLedger['status'],
+      payments: document.payments.map(toPayment)
+    };
+  }
+
+  const record = await prisma.billingRecord.findUnique({
+    where: { id: target.billingRecordId },
+    include: { payments: { orderBy: { paidAt: 'asc' } } }
+  });
+  if (!record) {
+    throw new BillingError('Billing record not found', 'NOT_FOUND');
+  }
+  const credited = await getCreditedTotals(prisma, [record.id]);
+
+  return {
+    targetType: 'billing_record',
+    targetId: record.id,
+    documentNumber: record.invoiceNumber || undefined,
+    clientId: record.clientId,
+    totalAmount: record.amount,
+    ...calculateBalance(record.amount, record.payments, credited.get(record.id)),
+    status: record.status,
+    payments: record.payments.map(toPayment)
+  };
+}
+
+export async function recordPayment(
+  data: RecordPaymentData,
+  actor?: { userId?: string; userName?: string }
+): Promise<{ payment: Payment; ledger: PaymentLedger; receiptError?: string }> {
+  validateTarget(data);
+  if (!Number.isFinite(data.amount) || toCents(data.amount) <= 0) {
+    throw new BillingError('Payment amount must be greater than zero', 'VALIDATION');
+  }
+  if (!METHOD_TO_DB[data.method]) {
+    throw new BillingError(`Unsupported payment method: ${data.method}`, 'VALIDATION');
+  }
+
+  const paidAt = data.paidAt ? new Date(data.paidAt) : new Date();
+  if (Number.isNaN(paidAt.getTime())) {
+    throw new BillingError('Payment date is not a valid date', 'VALIDATION');
+  }
+  if (paidAt.getTime() > Date.now()) {
+    throw new BillingError('Payment date cannot be in the future', 'VALIDATION');
+  }
+
+  const prisma = requirePrisma();
+
+  // Serializable so two concurrent payments can't both fit under the same balance
+  const { payment, clientId, documentNumber, serviceType, balanceDue } = await runSerializable(
+    prisma,
+    async (tx) => {
+      const target = data.billingDocumentId
+        ? await tx.billingDocument.findUnique({
+            where: { id: data.billingDocumentId },
+            include: { payments: true }
+          })
+        : await tx.billingRecord.findUnique({
+            where: { id: data.billingRecordId },
+            include: { payments: true, serviceLine: true }
+          });
+
+      if (!target) {
+        throw new BillingError(
+          data.billingDocumentId ? 'Billing document not found' : 'Billing record not found',
+          'NOT_FOUND'
+        );
+      }
+      // Quotes, receipts and credit notes don't carry a balance - only invoices can be paid
+      if ('documentType' in target && target.documentType !== 'INVOICE') {
+        throw new BillingError(
+          `Payments can only be recorded against invoices, not a ${target.documentType.toLowerCase().replace('_', ' ')}`,
+          'VALIDATION'
+        );
+      }
+      if (target.status === 'CANCELLED') {
+        throw new BillingError('Cannot record a payment against a cancelled document', 'CONFLICT');
+      }
+
+      // Credit notes reduce what's still owed, so a fully credited invoice can't take payments
+      const amountCredited = (await getCreditedTotals(tx, [target.id])).get(target.id) || 0;
+      const before = calculateBalance(target.amount, target.payments, amountCredited);
+      if (toCents(data.amount) > toCents(before.balanceDue)) {
+        throw new BillingError(
+          `Payment of $${data.amount.toFixed(2)} exceeds the outstanding balance of $${before.balanceDue.toFixed(2)}`,
+          'VALIDATION',
+          { balanceDue: before.balanceDue }
+        );
+      }
+
+      const created = await tx.payment.create({
+        data: {
+          clientId: target.clientId,
+          billingDocumentId: data.billingDocumentId,
+          billingRecordId: data.billingRecordId,
+          amount: fromCents(toCents(data.amount)),
+          method: METHOD_TO_DB[data.method],
+          paidAt,
+          reference: data.reference,
+          notes: data.notes
+        }
+      });
+
+      const after = calculateBalance(target.amount, [...target.payments, created], amountCredited);
+      const amountPayable = target.amount - amountCredited;
+
+      if ('documentNumber' in target) {
+        const status = resolvePaymentStatus(target.status, amountPayable, after.amountPaid);
+        await tx.billingDocument.update({
+          where: { id: target.id },
+          data: { status, paidAt: status === 'PAID' ? paidAt : null }
+        });
+      } else {
+        const status = resolvePaymentStatus(target.status, amountPayable, after.amountPaid);
+        await tx.billingRecord.update({
+          where: { id: target.id },
+          data: { status, paidDate: status === 'PAID' ? paidAt : null }
+        });
+      }
+
+      return {
+        payment: created,
+        clientId: target.clientId,
+        documentNumber: 'documentNumber' in target ? target.documentNumber : target.invoiceNumber || target.billingPeriod,
+        serviceType: 'documentNumber' in target ? target.serviceType : target.serviceLine.slug,
+        balanceDue: after.balanceDue
+      };
+    }
+  );
+
+  // One receipt per payment - issued outside the transaction since it has its own persistence
+  let receiptError: string | undefined;
+  if (data.issueReceipt !== false) {
+    try {
+      const receipt = await billingManager.createReceipt({
+        clientId,
+        items: [{
+          description: balanceDue > 0
+            ? `Partial payment toward ${documentNumber} (balance remaining $${balanceDue.toFixed(2)})`
+            : `Payment toward ${documentNumber}`,
+          serviceType,
+          quantity: 1,
+          unitPrice: payment.amount,
+          totalPrice: payment.amount,
+          taxable: false // Tax was already charged on the original document
+        }],
+        paymentMethod: data.method,
+        paymentDate: paidAt,
+        serviceDate: paidAt,
+        status: 'paid',
+        notes: [data.reference && `Reference: ${data.reference}`, data.notes].filter(Boolean).join('\n') || undefined
+      });
+
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { receiptId: receipt.id, receiptNumber: receipt.receiptNumber }
+      });
+      payment.receiptId = receipt.id;
+      payment.receiptNumber = receipt.receiptNumber;
+    } catch (error) {
+      receiptError = error instanceof Error ? error.message : 'Failed to issue receipt';
+      console.error('[PaymentLedger] Payment recorded but receipt could not be issued:', error);
+    }
+  }
+
+  await logPaymentReceived({
+    paymentId: payment.id,
+    documentNumber,
+    clientId,
+    amount: payment.amount,
+    balanceDue,
+    userId: actor?.userId,
+    userName: actor?.userName
+  });
+
+  const ledger = await getPaymentLedger(data);
+  return { payment: toPayment(payment), ledger, receiptError };
+}
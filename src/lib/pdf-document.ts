@@ -0,0 +1,436 @@
+// src/lib/pdf-document.ts
+import { deflateSync, inflateSync } from 'zlib';
+
+// Minimal PDF 1.4 writer used for billing documents.
+// Draws text with the standard Helvetica fonts, lines, rectangles and PNG images
+// without a headless browser or any outside rendering service.
+// Coordinates are in points with the origin at the TOP-LEFT of the page.
+
+export type PDFFont = 'regular' | 'bold';
+export type PDFRGB = [number, number, number]; // 0-1 per channel
+
+export interface PDFTextOptions {
+  font?: PDFFont;
+  size?: number;
+  color?: PDFRGB;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PDFShapeOptions {
+  fill?: PDFRGB;
+  stroke?: PDFRGB;
+  lineWidth?: number;
+}
+
+interface PDFImage {
+  name: string;
+  objectData: { dict: string; data: Buffer };
+  smask?: { dict: string; data: Buffer };
+}
+
+// US Letter
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+// Helvetica / Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside WinAnsi that commonly show up in client data
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '•': '*',
+  '…': '...'
+};
+
+export function hexToRGB(hex: string, fallback: PDFRGB = [0.2, 0.2, 0.2]): PDFRGB {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return fallback;
+  const value = parseInt(match[1], 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+function colorOperands(color: PDFRGB): string {
+  return color.map(formatNumber).join(' ');
+}
+
+// Reduce text to latin-1 so it can be written with WinAnsiEncoding
+function sanitizeText(text: string): string {
+  let result = '';
+  for (const char of text.replace(/[\r\n\t]+/g, ' ')) {
+    if (CHARACTER_REPLACEMENTS[char]) {
+      result += CHARACTER_REPLACEMENTS[char];
+    } else {
+      result += char.charCodeAt(0) <= 255 ? char : '?';
+    }
+  }
+  return result;
+}
+
+function escapePDFString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+export class PDFDocumentWriter {
+  private pages: string[][] = [];
+  private images: PDFImage[] = [];
+  private title: string;
+
+  constructor(title: string = 'Document') {
+    this.title = title;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  measureText(text: string, font: PDFFont = 'regular', size: number = 10): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of sanitizeText(text)) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return (total * size) / 1000;
+  }
+
+  // Break text into lines that fit within maxWidth
+  wrapText(text: string, maxWidth: number, font: PDFFont = 'regular', size: number = 10): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      const words = paragraph.split(/\s+/).filter(Boolean);
+      let line = '';
+
+      for (const word of words) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.measureText(candidate, font, size) <= maxWidth || !line) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  text(x: number, y: number, text: string, options: PDFTextOptions = {}): void {
+    const { font = 'regular', size = 10, color = [0.2, 0.2, 0.2], align = 'left' } = options;
+    const clean = sanitizeText(text);
+    const width = this.measureText(clean, font, size);
+    const drawX = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    const baseline = PAGE_HEIGHT - y - size;
+
+    this.current.push(
+      'BT',
+      `/${font === 'bold' ? 'F2' : 'F1'} ${formatNumber(size)} Tf`,
+      `${colorOperands(color)} rg`,
+      `${formatNumber(drawX)} ${formatNumber(baseline)} Td`,
+      `(${escapePDFString(clean)}) Tj`,
+      'ET'
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PDFShapeOptions = {}): void {
+    const { stroke = [0.8, 0.8, 0.8], lineWidth = 1 } = options;
+    this.current.push(
+      `${formatNumber(lineWidth)} w`,
+      `${colorOperands(stroke)} RG`,
+      `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m`,
+      `${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l`,
+      'S'
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: PDFShapeOptions = {}): void {
+    const { fill, stroke, lineWidth = 1 } = options;
+    if (!fill && !stroke) return;
+
+    if (fill) this.current.push(`${colorOperands(fill)} rg`);
+    if (stroke) this.current.push(`${formatNumber(lineWidth)} w`, `${colorOperands(stroke)} RG`);
+    this.current.push(
+      `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`,
+      fill && stroke ? 'B' : fill ? 'f' : 'S'
+    );
+  }
+
+  // Draw a PNG scaled to fit within the box, preserving aspect ratio.
+  // Returns false when the image can't be embedded (unsupported or corrupt PNG).
+  image(png: Buffer, x: number, y: number, maxWidth: number, maxHeight: number): boolean {
+    const parsed = parsePNG(png);
+    if (!parsed) return false;
+
+    const name = `Im${this.images.length + 1}`;
+    this.images.push({ name, ...parsed.objects });
+
+    const scale = Math.min(maxWidth / parsed.width, maxHeight / parsed.height);
+    const width = parsed.width * scale;
+    const height = parsed.height * scale;
+
+    this.current.push(
+      'q',
+      `${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} cm`,
+      `/${name} Do`,
+      'Q'
+    );
+    return true;
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const addObject = (content: string | Buffer): number => {
+      objects.push(typeof content === 'string' ? Buffer.from(content, 'latin1') : content);
+      return objects.length;
+    };
+    const streamObject = (dict: string, data: Buffer): Buffer =>
+      Buffer.concat([
+        Buffer.from(`${dict.replace(/>>$/, '')} /Length ${data.length} >>\nstream\n`, 'latin1'),
+        data,
+        Buffer.from('\nendstream', 'latin1')
+      ]);
+
+    // Reserve catalog (1) and page tree (2) so pages can point at their parent
+    addObject('');
+    addObject('');
+    const regularFont = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFont = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const imageRefs: string[] = [];
+    for (const image of this.images) {
+      let dict = image.objectData.dict;
+      if (image.smask) {
+        const smaskId = addObject(streamObject(image.smask.dict, image.smask.data));
+        dict = dict.replace(/>>$/, `/SMask ${smaskId} 0 R >>`);
+      }
+      const imageId = addObject(streamObject(dict, image.objectData.data));
+      imageRefs.push(`/${image.name} ${imageId} 0 R`);
+    }
+
+    const resources = `<< /Font << /F1 ${regularFont} 0 R /F2 ${boldFont} 0 R >>${
+      imageRefs.length ? ` /XObject << ${imageRefs.join(' ')} >>` : ''
+    } >>`;
+
+    const pageIds: number[] = [];
+    for (const operations of this.pages) {
+      const content = deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+      const contentId = addObject(streamObject('<< /Filter /FlateDecode >>', content));
+      pageIds.push(
+        addObject(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R >>`
+        )
+      );
+    }
+
+    objects[0] = Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1');
+    objects[1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1'
+    );
+    const infoId = addObject(
+      `<< /Title (${escapePDFString(sanitizeText(this.title))}) /Producer (evangelosommer billing) /CreationDate (D:${new Date()
+        .toISOString()
+        .replace(/[-:T]/g, '')
+        .slice(0, 14)}Z) >>`
+    );
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+    const offsets: number[] = [];
+    let position = chunks[0].length;
+
+    objects.forEach((object, index) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        object,
+        Buffer.from('\nendobj\n', 'latin1')
+      ]);
+      offsets.push(position);
+      position += chunk.length;
+      chunks.push(chunk);
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      position.toString(),
+      '%%EOF'
+    ].join('\n');
+    chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+}
+
+// PNG support: 8-bit, non-interlaced grayscale, RGB, palette, and their alpha variants
+function parsePNG(png: Buffer): { width: number; height: number; objects: Omit<PDFImage, 'name'> } | null {
+  try {
+    if (png.length < 8 || png.readUInt32BE(0) !== 0x89504e47) return null;
+
+    let offset = 8;
+    let width = 0;
+    let height = 0;
+    let bitDepth = 0;
+    let colorType = 0;
+    let interlace = 0;
+    let palette: Buffer | null = null;
+    const idat: Buffer[] = [];
+
+    while (offset < png.length) {
+      const length = png.readUInt32BE(offset);
+      const type = png.toString('latin1', offset + 4, offset + 8);
+      const data = png.subarray(offset + 8, offset + 8 + length);
+      if (type === 'IHDR') {
+        width = data.readUInt32BE(0);
+        height = data.readUInt32BE(4);
+        bitDepth = data[8];
+        colorType = data[9];
+        interlace = data[12];
+      } else if (type === 'PLTE') {
+        palette = Buffer.from(data);
+      } else if (type === 'IDAT') {
+        idat.push(data);
+      } else if (type === 'IEND') {
+        break;
+      }
+      offset += 12 + length;
+    }
+
+    if (!width || !height || bitDepth !== 8 || interlace !== 0 || idat.length === 0) return null;
+
+    const compressed = Buffer.concat(idat);
+    const baseDict = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /BitsPerComponent 8`;
+
+    // Opaque images can pass the PNG stream straight through using the PNG predictor
+    if (colorType === 0 || colorType === 2 || colorType === 3) {
+      const colors = colorType === 2 ? 3 : 1;
+      let colorSpace = colorType === 2 ? '/DeviceRGB' : '/DeviceGray';
+      if (colorType === 3) {
+        if (!palette) return null;
+        colorSpace = `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${palette.toString('hex')}>]`;
+      }
+      return {
+        width,
+        height,
+        objects: {
+          objectData: {
+            dict: `<< ${baseDict} /ColorSpace ${colorSpace} /Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent 8 /Columns ${width} >> >>`,
+            data: compressed
+          }
+        }
+      };
+    }
+
+    // Alpha images have to be unfiltered so the alpha channel can become a soft mask
+    if (colorType === 4 || colorType === 6) {
+      const channels = colorType === 6 ? 4 : 2;
+      const colorChannels = channels - 1;
+      const pixels = unfilterScanlines(inflateSync(compressed), width, height, channels);
+      const color = Buffer.alloc(width * height * colorChannels);
+      const alpha = Buffer.alloc(width * height);
+
+      for (let i = 0; i < width * height; i++) {
+        for (let c = 0; c < colorChannels; c++) {
+          color[i * colorChannels + c] = pixels[i * channels + c];
+        }
+        alpha[i] = pixels[i * channels + colorChannels];
+      }
+
+      return {
+        width,
+        height,
+        objects: {
+          objectData: {
+            dict: `<< ${baseDict} /ColorSpace ${colorChannels === 3 ? '/DeviceRGB' : '/DeviceGray'} /Filter /FlateDecode >>`,
+            data: deflateSync(color)
+          },
+          smask: {
+            dict: `<< ${baseDict} /ColorSpace /DeviceGray /Filter /FlateDecode >>`,
+            data: deflateSync(alpha)
+          }
+        }
+      };
+    }
+
+    return null;
+  } catch (error) {
+    console.warn('[PDFDocumentWriter] Unable to embed PNG:', error);
+    return null;
+  }
+}
+
+function unfilterScanlines(data: Buffer, width: number, height: number, bytesPerPixel: number): Buffer {
+  const stride = width * bytesPerPixel;
+  const output = Buffer.alloc(stride * height);
+
+  for (let row = 0; row < height; row++) {
+    const filter = data[row * (stride + 1)];
+    const input = row * (stride + 1) + 1;
+    const out = row * stride;
+
+    for (let i = 0; i < stride; i++) {
+      const raw = data[input + i];
+      const left = i >= bytesPerPixel ? output[out + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[out + i - stride] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[out + i - stride - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default: value = raw;
+      }
+      output[out + i] = value & 255;
+    }
+  }
+
+  return output;
+}
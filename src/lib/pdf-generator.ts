@@ -1,8 +1,8 @@
 // src/lib/pdf-generator.ts
-import { Receipt, Invoice } from '../types/billing';
+import { Receipt, Invoice, Quote, CreditNote, TaxLine } from '../types/billing';
+import { formatTaxLabel } from './tax-engine';
 
-// Simple HTML-based PDF generation utility
-// In a production environment, you'd use a library like jsPDF, Puppeteer, or a service like PDFKit
+// HTML templates for billing documents plus server-side PDF rendering (see billing-pdf.ts)
 
 export class PDFGenerator {
   
@@ -149,10 +149,7 @@ export class PDFGenerator {
                 <td>Subtotal:</td>
                 <td class="amount">${formatCurrency(receipt.subtotal)}</td>
             </tr>
-            <tr>
-                <td>Tax (HST):</td>
-                <td class="amount">${formatCurrency(receipt.taxAmount)}</td>
-            </tr>
+            ${PDFGenerator.taxRowsHTML(receipt, formatCurrency)}
             <tr class="total-row">
                 <td>Total:</td>
                 <td class="amount">${formatCurrency(receipt.totalAmount)}</td>
@@ -176,6 +173,21 @@ export class PDFGenerator {
   }
 
   // Generate HTML content for invoice
+  // One row per tax in the breakdown (GST + PST, HST, ...)
+  private static taxRowsHTML(
+    document: { taxAmount: number; taxBreakdown?: TaxLine[] },
+    formatCurrency: (amount: number) => string
+  ): string {
+    const rows = document.taxBreakdown?.length
+      ? document.taxBreakdown.map(tax => ({ label: formatTaxLabel(tax), amount: tax.amount }))
+      : [{ label: 'Tax (HST)', amount: document.taxAmount }];
+
+    return rows.map(row => `<tr>
+                <td>${row.label}:</td>
+                <td class="amount">${formatCurrency(row.amount)}</td>
+            </tr>`).join('');
+  }
+
   static generateInvoiceHTML(invoice: Invoice): string {
     const formatDate = (date: Date) => new Date(date).toLocaleDateString();
     const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
@@ -342,10 +354,7 @@ export class PDFGenerator {
                 <td>Subtotal:</td>
                 <td class="amount">${formatCurrency(invoice.subtotal)}</td>
             </tr>
-            <tr>
-                <td>Tax (HST):</td>
-                <td class="amount">${formatCurrency(invoice.taxAmount)}</td>
-            </tr>
+            ${PDFGenerator.taxRowsHTML(invoice, formatCurrency)}
             <tr class="total-row">
                 <td>Amount Due:</td>
                 <td class="amount">${formatCurrency(invoice.totalAmount)}</td>
@@ -370,25 +379,31 @@ export class PDFGenerator {
 </html>`;
   }
 
-  // Convert HTML to PDF (placeholder - would use actual PDF library in production)
-  static async generateReceiptPDF(receipt: Receipt): Promise<string> {
-    // In a real implementation, you would:
-    // 1. Use a library like Puppeteer to convert HTML to PDF
-    // 2. Or use jsPDF to generate PDF directly
-    // 3. Or use a service like PDFShift, HTMLCSStoImage, etc.
-    
-    const html = this.generateReceiptHTML(receipt);
-    
-    // For now, return the HTML as a data URL that can be opened in browser
-    const dataUrl = `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
-    return dataUrl;
+  // Render true PDF bytes (no headless browser) with per-service-line branding.
+  // The renderer reads logos from disk, so it is loaded lazily and only on the server.
+  static async generateReceiptPDF(receipt: Receipt): Promise<Buffer> {
+    const { renderReceiptPDF } = await import('./billing-pdf');
+    return renderReceiptPDF(receipt);
+  }
+
+  static async generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
+    const { renderInvoicePDF } = await import('./billing-pdf');
+    return renderInvoicePDF(invoice);
+  }
+
+  static async generateQuotePDF(quote: Quote): Promise<Buffer> {
+    const { renderQuotePDF } = await import('./billing-pdf');
+    return renderQuotePDF(quote);
   }
 
-  static async generateInvoicePDF(invoice: Invoice): Promise<string> {
-    // Same as above - placeholder implementation
-    const html = this.generateInvoiceHTML(invoice);
-    const dataUrl = `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
-    return dataUrl;
+  static async generateCreditNotePDF(creditNote: CreditNote): Promise<Buffer> {
+    const { renderCreditNotePDF } = await import('./billing-pdf');
+    return renderCreditNotePDF(creditNote);
+  }
+
+  // Suggested download name, e.g. "Receipt-REC-2025-001.pdf"
+  static getPDFFilename(kind: 'Receipt' | 'Invoice' | 'Quote' | 'Credit-Note', documentNumber: string): string {
+    return `${kind}-${documentNumber.replace(/[^A-Za-z0-9-]/g, '_')}.pdf`;
   }
 
   // Email-friendly HTML versions (simplified styling for email clients)
@@ -491,6 +506,107 @@ export class PDFGenerator {
         <p><strong>Due Date:</strong> ${formatDate(invoice.dueDate)}</p>
         <p>Please include the invoice number (${invoice.invoiceNumber}) with your payment.</p>
     </div>
+</div>`;
+  }
+
+  static generateQuoteEmailHTML(quote: Quote): string {
+    const formatDate = (date: Date) => new Date(date).toLocaleDateString();
+    const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+    return `
+<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
+    <div style="text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; margin-bottom: 30px;">
+        <h1 style="margin: 0; font-size: 24px;">Quote ${quote.quoteNumber}</h1>
+        <p style="margin: 10px 0 0 0;">Your Business Name</p>
+    </div>
+
+    <div style="margin-bottom: 30px;">
+        <h3>Quote Details:</h3>
+        <p><strong>Quote #:</strong> ${quote.quoteNumber}</p>
+        <p><strong>Client:</strong> ${quote.client.name}</p>
+        <p><strong>Issue Date:</strong> ${formatDate(quote.createdAt)}</p>
+        <p><strong>Valid Until:</strong> ${formatDate(quote.validUntil)}</p>
+        ${quote.estimatedDuration ? `<p><strong>Estimated Duration:</strong> ${quote.estimatedDuration}</p>` : ''}
+    </div>
+
+    <table style="width: 100%; border-collapse: collapse; margin-bottom: 30px;">
+        <thead>
+            <tr style="background-color: #f5f5f5;">
+                <th style="border: 1px solid #ddd; padding: 12px; text-align: left;">Description</th>
+                <th style="border: 1px solid #ddd; padding: 12px; text-align: right;">Amount</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${quote.items.map(item => `
+                <tr>
+                    <td style="border: 1px solid #ddd; padding: 12px;">${item.description}</td>
+                    <td style="border: 1px solid #ddd; padding: 12px; text-align: right;">${formatCurrency(item.totalPrice)}</td>
+                </tr>
+            `).join('')}
+        </tbody>
+    </table>
+
+    <div style="text-align: right; margin-bottom: 30px;">
+        <p><strong>Subtotal: ${formatCurrency(quote.subtotal)}</strong></p>
+        ${(quote.taxBreakdown?.length ? quote.taxBreakdown : [{ name: 'Tax', rate: 0, amount: quote.taxAmount }]).map(tax =>
+          `<p><strong>${tax.rate ? formatTaxLabel(tax) : tax.name}: ${formatCurrency(tax.amount)}</strong></p>`
+        ).join('')}
+        <p style="font-size: 18px; border-top: 2px solid #333; padding-top: 10px;"><strong>Total: ${formatCurrency(quote.totalAmount)}</strong></p>
+    </div>
+</div>`;
+  }
+
+  static generateCreditNoteEmailHTML(creditNote: CreditNote): string {
+    const formatDate = (date: Date) => new Date(date).toLocaleDateString();
+    const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+    const original = `${creditNote.originalDocumentType === 'receipt' ? 'Receipt' : 'Invoice'} ${creditNote.originalDocumentNumber}`;
+
+    return `
+<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
+    <div style="text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; margin-bottom: 30px;">
+        <h1 style="margin: 0; font-size: 24px;">Credit Note ${creditNote.creditNoteNumber}</h1>
+        <p style="margin: 10px 0 0 0;">Your Business Name</p>
+    </div>
+
+    <div style="margin-bottom: 30px;">
+        <h3>Credit Note Details:</h3>
+        <p><strong>Credit Note #:</strong> ${creditNote.creditNoteNumber}</p>
+        <p><strong>Client:</strong> ${creditNote.client.name}</p>
+        <p><strong>Issue Date:</strong> ${formatDate(creditNote.issueDate)}</p>
+        <p><strong>Credits:</strong> ${original}</p>
+        <p><strong>Reason:</strong> ${creditNote.reason}</p>
+    </div>
+
+    <table style="width: 100%; border-collapse: collapse; margin-bottom: 30px;">
+        <thead>
+            <tr style="background-color: #f5f5f5;">
+                <th style="border: 1px solid #ddd; padding: 12px; text-align: left;">Description</th>
+                <th style="border: 1px solid #ddd; padding: 12px; text-align: right;">Credit</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${creditNote.items.map(item => `
+                <tr>
+                    <td style="border: 1px solid #ddd; padding: 12px;">${item.description}</td>
+                    <td style="border: 1px solid #ddd; padding: 12px; text-align: right;">${formatCurrency(item.totalPrice)}</td>
+                </tr>
+            `).join('')}
+        </tbody>
+    </table>
+
+    <div style="text-align: right; margin-bottom: 30px;">
+        <p><strong>Subtotal: ${formatCurrency(creditNote.subtotal)}</strong></p>
+        ${(creditNote.taxBreakdown?.length ? creditNote.taxBreakdown : [{ name: 'Tax', rate: 0, amount: creditNote.taxAmount }]).map(tax =>
+          `<p><strong>${tax.rate ? formatTaxLabel(tax) : tax.name}: ${formatCurrency(tax.amount)}</strong></p>`
+        ).join('')}
+        <p style="font-size: 18px; border-top: 2px solid #333; padding-top: 10px;"><strong>Total Credit: ${formatCurrency(creditNote.totalAmount)}</strong></p>
+    </div>
+
+    <div style="background-color: #f9f9f9; padding: 15px; border-radius: 5px;">
+        <p>${creditNote.refundMethod
+          ? `This amount has been refunded by ${creditNote.refundMethod.replace('_', ' ')}.`
+          : `This amount has been credited against ${original}.`}</p>
+    </div>
 </div>`;
   }
 }
@@ -0,0 +1,101 @@
+// src/lib/public-booking.test.ts
+
+import { createPublicBooking } from "./public-booking";
+import { participantManagementService } from "./participant-management";
+import { getPrismaClient } from "./prisma";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+jest.mock("./activity-logger", () => ({ logAppointmentScheduled: jest.fn() }));
+jest.mock("./participant-management", () => ({
+  participantManagementService: {
+    getBusinessHours: jest.fn(),
+    checkAvailability: jest.fn(),
+    findParticipantByContact: jest.fn(),
+    createParticipant: jest.fn(),
+    createAppointment: jest.fn(),
+    sendAppointmentNotifications: jest.fn(),
+  },
+}));
+
+const service = participantManagementService as jest.Mocked<typeof participantManagementService>;
+
+// Two days out, so the slot clears the minimum notice
+const slotStart = new Date(Date.now() + 2 * 86400000);
+slotStart.setUTCHours(14, 0, 0, 0);
+const slotEnd = new Date(slotStart.getTime() + 3600000);
+
+const request = {
+  serviceType: "LAWN_MOWING",
+  startTime: slotStart.toISOString(),
+  name: "Jane Smith",
+  email: "Jane@Example.com",
+};
+
+function mockDatabase(options: { available?: boolean } = {}) {
+  const tx = { $executeRaw: jest.fn(async () => 1) };
+  const prisma = {
+    followUpConfiguration: { findFirst: jest.fn(async () => null) },
+    serviceLine: { findUnique: jest.fn(async () => ({ name: "Woodgreen Landscaping", description: "", isActive: true })) },
+    participant: { findFirst: jest.fn(async () => ({ id: "organizer-1" })) },
+    $transaction: jest.fn(async (work: (client: typeof tx) => Promise<unknown>) => work(tx)),
+  };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+
+  service.getBusinessHours.mockResolvedValue({
+    start: "08:00",
+    end: "18:00",
+    workingDays: [0, 1, 2, 3, 4, 5, 6],
+    timezone: "America/Toronto",
+    travelBufferMinutes: 30,
+  });
+  service.checkAvailability.mockResolvedValue({
+    availableSlots: [{ startTime: slotStart.toISOString(), endTime: slotEnd.toISOString(), available: options.available ?? true }],
+    conflicts: [],
+    suggestions: [],
+  });
+  service.findParticipantByContact.mockResolvedValue(null);
+  service.createParticipant.mockResolvedValue({ id: "client-1" } as Awaited<ReturnType<typeof service.createParticipant>>);
+  service.createAppointment.mockResolvedValue({
+    id: "appointment-1",
+    title: "Lawn Mowing - Jane Smith",
+    startTime: slotStart.toISOString(),
+    endTime: slotEnd.toISOString(),
+    timezone: "America/Toronto",
+  } as Awaited<ReturnType<typeof service.createAppointment>>);
+
+  return { prisma, tx };
+}
+
+describe("Public Booking", () => {
+  afterEach(() => jest.clearAllMocks());
+
+  it("should check the slot and book it on the locked transaction", async () => {
+    const { tx } = mockDatabase();
+
+    const confirmation = await createPublicBooking("woodgreen", request);
+
+    expect(confirmation.appointmentId).toBe("appointment-1");
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(service.checkAvailability).toHaveBeenCalledWith(expect.anything(), tx);
+    expect(service.findParticipantByContact).toHaveBeenCalledWith(undefined, "jane@example.com", tx);
+    expect(service.createParticipant).toHaveBeenCalledWith(expect.objectContaining({ email: "jane@example.com" }), tx);
+    expect(service.createAppointment).toHaveBeenCalledWith(
+      expect.objectContaining({ organizerId: "organizer-1", participantIds: ["organizer-1", "client-1"] }),
+      tx
+    );
+  });
+
+  it("should refuse a slot taken since it was shown", async () => {
+    mockDatabase({ available: false });
+
+    await expect(createPublicBooking("woodgreen", request)).rejects.toMatchObject({ code: "CONFLICT" });
+    expect(service.createAppointment).not.toHaveBeenCalled();
+    expect(service.sendAppointmentNotifications).not.toHaveBeenCalled();
+  });
+
+  it("should reject a booking without a valid email", async () => {
+    mockDatabase();
+
+    await expect(createPublicBooking("woodgreen", { ...request, email: "jane" })).rejects.toMatchObject({ code: "VALIDATION" });
+  });
+});
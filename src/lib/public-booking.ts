@@ -0,0 +1,246 @@
+// src/lib/public-booking.ts
+// Public self-service booking: a client opens /book/<service line>, picks a service type and a
+// free slot, and gets an Appointment with the service provider plus a Gmail confirmation.
+// Slots come from checkAvailability, so they honour appointments, calendar events, business
+// hours and the travel buffer.
+import { Prisma, ServiceType as PrismaServiceType } from '@prisma/client';
+import { getPrismaClient } from './prisma';
+import { participantManagementService } from './participant-management';
+import { getServiceById } from './service-config';
+import { resolveServiceLineId } from './service-email-config';
+import { logAppointmentScheduled } from './activity-logger';
+import { toUtcInstant } from './timezone-utils';
+import {
+  AvailabilitySlot,
+  BookableService,
+  BookingError,
+  NotificationType,
+  ParticipantRole,
+  PublicBookingConfirmation,
+  PublicBookingRequest,
+  PublicBookingView,
+  ServiceConfigurations,
+  ServiceType
+} from '../types/participant-management';
+
+// How long each service takes on site unless serviceConfigurations says otherwise
+const DEFAULT_SERVICE_DURATIONS: Partial<Record<PrismaServiceType, number>> = {
+  LAWN_MOWING: 60,
+  LAWN_CARE: 60,
+  HEDGE_TRIMMING: 120,
+  TREE_TRIMMING: 180,
+  LANDSCAPING: 240,
+  SNOW_REMOVAL: 60,
+  SNOW_PLOWING: 60,
+  PREMIUM_SALTING: 30,
+  CALCIUM_MAGNESIUM_MIX: 30
+};
+const DEFAULT_DURATION = 120;
+
+// Clients can't book anything sooner than this - the crew needs notice
+const MIN_NOTICE_HOURS = 12;
+const MAX_DAYS_AHEAD = 90;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+const serviceName = (serviceType: string) =>
+  serviceType.toLowerCase().split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+/**
+ * Service types clients can book on a service line, with their durations
+ */
+async function getBookableServices(serviceLine: string): Promise<BookableService[]> {
+  const config = await requirePrisma().followUpConfiguration.findFirst({ orderBy: { updatedAt: 'desc' } });
+  const serviceConfigs = (config?.serviceConfigurations || {}) as ServiceConfigurations;
+
+  return Object.values(PrismaServiceType)
+    .filter(serviceType => resolveServiceLineId(serviceType.toLowerCase()) === serviceLine)
+    .filter(serviceType => serviceConfigs[serviceType]?.bookable !== false)
+    .map(serviceType => ({
+      serviceType,
+      name: serviceConfigs[serviceType]?.name || serviceName(serviceType),
+      duration: serviceConfigs[serviceType]?.durationMinutes || DEFAULT_SERVICE_DURATIONS[serviceType] || DEFAULT_DURATION
+    }));
+}
+
+/**
+ * The service line's booking page details, or null if it doesn't take online bookings
+ */
+export async function getPublicBookingView(serviceLine: string): Promise<PublicBookingView | null> {
+  const service = getServiceById(serviceLine);
+  if (!service) return null;
+
+  const line = await requirePrisma().serviceLine.findUnique({ where: { slug: serviceLine } });
+  if (line && !line.isActive) return null;
+
+  const services = await getBookableServices(serviceLine);
+  if (services.length === 0) return null;
+
+  const hours = await participantManagementService.getBusinessHours();
+  return {
+    serviceLine,
+    businessName: line?.name || service.name,
+    description: line?.description || service.description,
+    timezone: hours.timezone,
+    services
+  };
+}
+
+async function requireBookableService(serviceLine: string, serviceType: string): Promise<BookableService> {
+  if (!(await getPublicBookingView(serviceLine))) {
+    throw new BookingError('Online booking is not available for this service', 'NOT_FOUND');
+  }
+
+  const service = (await getBookableServices(serviceLine)).find(candidate => candidate.serviceType === serviceType);
+  if (!service) {
+    throw new BookingError('Please choose one of the listed services', 'VALIDATION');
+  }
+  return service;
+}
+
+/**
+ * The service provider whose schedule clients book into
+ */
+async function getOrganizer() {
+  const organizer = await requirePrisma().participant.findFirst({
+    where: { role: ParticipantRole.SERVICE_PROVIDER },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (!organizer) {
+    throw new Error('No service provider found');
+  }
+  return organizer;
+}
+
+/**
+ * Free slots for a service on one day ("YYYY-MM-DD", in the business time zone)
+ * @param tx - Check inside the caller's transaction, e.g. the one that books the slot
+ */
+export async function getBookingSlots(
+  serviceLine: string,
+  serviceType: string,
+  date: string,
+  tx?: Prisma.TransactionClient
+): Promise<AvailabilitySlot[]> {
+  const service = await requireBookableService(serviceLine, serviceType);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new BookingError('Please choose a date', 'VALIDATION');
+  }
+
+  const hours = await participantManagementService.getBusinessHours(serviceType, tx);
+  const dayStart = toUtcInstant(date, hours.timezone);
+  const dayEnd = toUtcInstant(new Date(Date.parse(`${date}T12:00:00Z`) + 86400000).toISOString().slice(0, 10), hours.timezone);
+  const earliest = new Date(Date.now() + MIN_NOTICE_HOURS * 3600000);
+  const latest = new Date(Date.now() + MAX_DAYS_AHEAD * 86400000);
+
+  if (dayEnd <= earliest || dayStart > latest) return [];
+
+  const organizer = await getOrganizer();
+  const availability = await participantManagementService.checkAvailability({
+    participantIds: [organizer.id],
+    startDate: dayStart.toISOString(),
+    endDate: dayEnd.toISOString(),
+    duration: service.duration,
+    service: serviceType as ServiceType,
+    slotInterval: 30
+  }, tx);
+
+  return availability.availableSlots.filter(slot => slot.available && new Date(slot.startTime) >= earliest);
+}
+
+/**
+ * Book a slot: find or create the client's participant, create the appointment and send the
+ * confirmation email. The slot is checked again under a per-day lock, as it may have been taken
+ * since it was shown.
+ */
+export async function createPublicBooking(
+  serviceLine: string,
+  request: PublicBookingRequest
+): Promise<PublicBookingConfirmation> {
+  const name = request.name?.trim();
+  const email = request.email?.trim().toLowerCase();
+  if (!name || name.length < 2) {
+    throw new BookingError('Please enter your name', 'VALIDATION');
+  }
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    throw new BookingError('Please enter a valid email address', 'VALIDATION');
+  }
+
+  const start = new Date(request.startTime);
+  if (isNaN(start.getTime())) {
+    throw new BookingError('Please choose a time', 'VALIDATION');
+  }
+
+  const service = await requireBookableService(serviceLine, request.serviceType);
+  const hours = await participantManagementService.getBusinessHours(request.serviceType);
+  const date = new Intl.DateTimeFormat('en-CA', { timeZone: hours.timezone }).format(start);
+  const phone = request.phone?.trim() || undefined;
+
+  const organizer = await getOrganizer();
+  const description = [
+    `Booked online by ${name} <${email}>${phone ? `, ${phone}` : ''}`,
+    request.notes?.trim()
+  ].filter(Boolean).join('\n\n');
+
+  // Bookings for the organizer's day are serialized with a transaction-scoped advisory lock, so
+  // the slot check and the insert can't interleave with another client taking the same slot.
+  // Everything in here runs on tx - the lock only covers work done on its connection.
+  const appointment = await requirePrisma().$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`public-booking:${organizer.id}:${date}`}))`;
+
+    const slot = (await getBookingSlots(serviceLine, request.serviceType, date, tx))
+      .find(candidate => new Date(candidate.startTime).getTime() === start.getTime());
+    if (!slot) {
+      throw new BookingError('That time is no longer available - please pick another', 'CONFLICT');
+    }
+
+    // The endpoint is public, so an existing participant with this email only receives the
+    // confirmation - what the client typed is kept on the appointment as given
+    const client = await participantManagementService.findParticipantByContact(undefined, email, tx)
+      || await participantManagementService.createParticipant({
+        name,
+        email,
+        phone,
+        role: ParticipantRole.CLIENT
+      }, tx);
+
+    return participantManagementService.createAppointment({
+      title: `${service.name} - ${name}`,
+      description,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      timezone: hours.timezone,
+      service: request.serviceType as ServiceType,
+      location: request.address?.trim() || undefined,
+      organizerId: organizer.id,
+      participantIds: [organizer.id, client.id]
+    }, tx);
+  }, { timeout: 15000 });
+
+  await participantManagementService.sendAppointmentNotifications(appointment.id, NotificationType.CONFIRMATION);
+
+  await logAppointmentScheduled({
+    appointmentId: appointment.id,
+    clientName: name,
+    appointmentTitle: appointment.title,
+    appointmentDate: appointment.startTime,
+    userName: 'Online booking'
+  });
+
+  return {
+    appointmentId: appointment.id,
+    serviceName: service.name,
+    startTime: appointment.startTime,
+    endTime: appointment.endTime,
+    timezone: appointment.timezone
+  };
+}
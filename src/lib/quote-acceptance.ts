@@ -0,0 +1,264 @@
+// src/lib/quote-acceptance.ts
+// Public quote acceptance: the client opens a tokenized link, reviews the quote and accepts or
+// declines it with a typed signature. Acceptance can create the invoice and a ClientServiceContract,
+// and we're notified through the activity log plus an email to ADMIN_EMAIL.
+import { randomBytes } from 'crypto';
+import { getPrismaClient } from './prisma';
+import { billingManager } from './billing-manager';
+import { notificationService } from './notification-service';
+import { logQuoteResponse } from './activity-logger';
+import { getServiceById } from './service-config';
+import { resolveServiceLineId } from './service-email-config';
+import {
+  BillingError,
+  PublicQuoteView,
+  Quote,
+  QuoteAcceptanceOptions,
+  QuoteResponse,
+  QuoteResponseResult
+} from '../types/billing';
+
+const SIGNATURE_MIN_LENGTH = 2;
+const SIGNATURE_MAX_LENGTH = 100;
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+export function getQuoteAcceptanceUrl(token: string): string {
+  return `${(process.env.NEXTAUTH_URL || '').replace(/\/$/, '')}/quotes/accept/${token}`;
+}
+
+function quoteServiceLine(quote: Quote): string {
+  return resolveServiceLineId(quote.items[0]?.serviceCategory) || quote.client.serviceId || 'creative';
+}
+
+const isExpired = (quote: Quote, asOf: Date = new Date()) => quote.validUntil.getTime() < asOf.getTime();
+
+/**
+ * Mark the quote as sent and return its public acceptance link. Calling it again reuses the
+ * existing token, so a link already sent to the client keeps working.
+ */
+export async function createQuoteAcceptanceLink(
+  quoteId: string,
+  options: Partial<QuoteAcceptanceOptions> = {}
+): Promise<{ quote: Quote; token: string; url: string }> {
+  const prisma = requirePrisma();
+  const existing = await billingManager.getQuoteById(quoteId);
+
+  if (!existing) {
+    throw new BillingError('Quote not found', 'NOT_FOUND');
+  }
+  if (existing.status !== 'draft' && existing.status !== 'sent') {
+    throw new BillingError(`Quote ${existing.quoteNumber} is already ${existing.status}`, 'CONFLICT');
+  }
+  if (isExpired(existing)) {
+    throw new BillingError(`Quote ${existing.quoteNumber} has expired - issue a new quote`, 'CONFLICT');
+  }
+
+  const quote = await billingManager.sendQuoteForAcceptance(existing.id, {
+    createInvoice: options.createInvoice ?? true,
+    createContract: options.createContract ?? false
+  });
+
+  const document = await prisma.billingDocument.findUnique({
+    where: { id: quote.id },
+    select: { publicToken: true }
+  });
+  if (!document) {
+    throw new Error('Quote could not be saved to the database');
+  }
+
+  let token = document.publicToken;
+  if (!token) {
+    token = randomBytes(24).toString('base64url');
+    await prisma.billingDocument.update({ where: { id: quote.id }, data: { publicToken: token } });
+  }
+
+  return { quote, token, url: getQuoteAcceptanceUrl(token) };
+}
+
+export async function getPublicQuoteView(token: string): Promise<PublicQuoteView | null> {
+  const quote = await billingManager.getQuoteByToken(token);
+  if (!quote) return null;
+
+  const service = getServiceById(quoteServiceLine(quote));
+  return {
+    quoteNumber: quote.quoteNumber,
+    businessName: service?.name || 'Evangelo Sommer',
+    clientName: quote.client.name,
+    items: quote.items.map(({ description, quantity, unitPrice, totalPrice }) => ({ description, quantity, unitPrice, totalPrice })),
+    subtotal: quote.subtotal,
+    taxBreakdown: quote.taxBreakdown,
+    taxAmount: quote.taxAmount,
+    totalAmount: quote.totalAmount,
+    validUntil: quote.validUntil,
+    projectScope: quote.projectScope,
+    estimatedDuration: quote.estimatedDuration,
+    terms: quote.terms,
+    // Expiry is only written when someone tries to respond
+    status: quote.status === 'sent' && isExpired(quote) ? 'expired' : quote.status,
+    response: quote.response && {
+      decision: quote.response.decision,
+      signatureName: quote.response.signatureName,
+      signedAt: quote.response.signedAt
+    }
+  };
+}
+
+async function createContractFromQuote(quote: Quote, invoiced: boolean): Promise<string> {
+  const prisma = requirePrisma();
+  const serviceId = quoteServiceLine(quote);
+  const service = getServiceById(serviceId);
+  const serviceLine = await prisma.serviceLine.findUnique({ where: { slug: serviceId } });
+
+  const contract = await prisma.clientServiceContract.create({
+    data: {
+      clientId: quote.clientId,
+      serviceLineId: serviceLine?.id,
+      serviceId,
+      serviceName: service?.name || serviceId,
+      serviceCategory: quote.items[0]?.description || 'General',
+      status: 'SCHEDULED',
+      startDate: new Date(),
+      contractValue: quote.subtotal,
+      notes: `Accepted online from quote ${quote.quoteNumber}${quote.projectScope ? `\n${quote.projectScope}` : ''}`,
+      billingDetails: {
+        source: 'quote_acceptance',
+        quoteId: quote.id,
+        quoteNumber: quote.quoteNumber,
+        signedBy: quote.response?.signatureName,
+        // The accepted quote was already invoiced - don't bill it again on a schedule
+        ...(invoiced && { schedule: { enabled: false } })
+      }
+    }
+  });
+
+  return contract.id;
+}
+
+async function notifyQuoteResponse(quote: Quote, result: QuoteResponseResult): Promise<void> {
+  const response = quote.response!;
+
+  try {
+    await logQuoteResponse({
+      quoteId: quote.id,
+      quoteNumber: quote.quoteNumber,
+      clientId: quote.clientId,
+      clientName: quote.client.name,
+      decision: response.decision,
+      signatureName: response.signatureName,
+      amount: quote.totalAmount,
+      invoiceNumber: result.invoiceNumber
+    });
+  } catch (error) {
+    console.error('[QuoteAcceptance] Failed to log activity:', error);
+  }
+
+  const adminEmail = process.env.ADMIN_EMAIL;
+  if (!adminEmail) return;
+
+  const lines = [
+    `${quote.client.name} ${response.decision} quote ${quote.quoteNumber} ($${quote.totalAmount.toFixed(2)}).`,
+    `Signed: ${response.signatureName} at ${response.signedAt.toISOString()}${response.ipAddress ? ` from ${response.ipAddress}` : ''}`,
+    response.declineReason && `Reason: ${response.declineReason}`,
+    result.invoiceNumber && `Invoice ${result.invoiceNumber} was created as a draft.`,
+    result.contractId && 'A service contract was created.',
+    ...result.errors.map(error => `Needs attention: ${error}`)
+  ].filter(Boolean);
+
+  const sent = await notificationService.sendEmail(
+    adminEmail,
+    `Quote ${quote.quoteNumber} ${response.decision} by ${quote.client.name}`,
+    lines.join('\n')
+  );
+  if (!sent.success) {
+    console.warn('[QuoteAcceptance] Admin notification email not sent:', sent.error);
+  }
+}
+
+/**
+ * Record the client's accept/decline from the public page. The SENT -> ACCEPTED/DECLINED transition
+ * is claimed with a conditional update, so a double-submit or a second tab can't respond twice.
+ * Invoice/contract creation failures don't undo the acceptance; they're returned in `errors`.
+ */
+export async function respondToQuote(
+  token: string,
+  input: { decision: QuoteResponse['decision']; signatureName: string; declineReason?: string },
+  context: { ipAddress?: string; userAgent?: string } = {}
+): Promise<QuoteResponseResult> {
+  if (input.decision !== 'accepted' && input.decision !== 'declined') {
+    throw new BillingError("decision must be 'accepted' or 'declined'", 'VALIDATION');
+  }
+  const signatureName = (input.signatureName || '').trim().replace(/\s+/g, ' ');
+  if (signatureName.length < SIGNATURE_MIN_LENGTH || signatureName.length > SIGNATURE_MAX_LENGTH) {
+    throw new BillingError('Please type your full name to sign', 'VALIDATION');
+  }
+
+  const prisma = requirePrisma();
+  const quote = await billingManager.getQuoteByToken(token);
+  if (!quote) {
+    throw new BillingError('Quote not found', 'NOT_FOUND');
+  }
+  if (quote.status !== 'sent') {
+    const status = quote.status === 'converted' ? 'accepted' : quote.status;
+    throw new BillingError(`This quote has already been ${status}`, 'CONFLICT');
+  }
+  if (isExpired(quote)) {
+    await prisma.billingDocument.updateMany({ where: { id: quote.id, status: 'SENT' }, data: { status: 'EXPIRED' } });
+    throw new BillingError(
+      `This quote expired on ${quote.validUntil.toLocaleDateString('en-CA')}. Please contact us for an updated quote.`,
+      'CONFLICT'
+    );
+  }
+
+  const { count } = await prisma.billingDocument.updateMany({
+    where: { id: quote.id, status: 'SENT' },
+    data: { status: input.decision === 'accepted' ? 'ACCEPTED' : 'DECLINED' }
+  });
+  if (count === 0) {
+    throw new BillingError('This quote has already been responded to', 'CONFLICT');
+  }
+
+  const saved = await billingManager.recordQuoteResponse(quote, {
+    decision: input.decision,
+    signatureName,
+    signedAt: new Date(),
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    declineReason: input.decision === 'declined' ? input.declineReason?.trim() || undefined : undefined
+  });
+
+  const result: QuoteResponseResult = { quote: saved, errors: [] };
+
+  if (input.decision === 'accepted') {
+    const options = saved.acceptanceOptions || { createInvoice: false, createContract: false };
+
+    if (options.createInvoice) {
+      try {
+        const invoice = await billingManager.convertQuoteToInvoice(saved.id);
+        result.invoiceId = invoice.id;
+        result.invoiceNumber = invoice.invoiceNumber;
+      } catch (error) {
+        console.error('[QuoteAcceptance] Failed to create invoice:', error);
+        result.errors.push(`Invoice not created: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (options.createContract) {
+      try {
+        result.contractId = await createContractFromQuote(saved, !!result.invoiceId);
+      } catch (error) {
+        console.error('[QuoteAcceptance] Failed to create service contract:', error);
+        result.errors.push(`Service contract not created: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  await notifyQuoteResponse(saved, result);
+  return result;
+}
@@ -0,0 +1,179 @@
+// src/lib/recurrence.test.ts
+
+import {
+  occurrenceDateKey,
+  parseRecurrenceLines,
+  parseStoredRecurrence,
+  parseStoredUnsupportedRecurrence,
+  recurrenceLines,
+  recurrenceToRRule,
+  rruleToRecurrence,
+} from "./recurrence";
+import type { RecurrenceRule, UnifiedEvent } from "../components/EventCreationModal";
+
+const TORONTO = "America/Toronto";
+
+function seriesEvent(overrides: Partial<UnifiedEvent>): UnifiedEvent {
+  return {
+    id: "event-1",
+    type: "event",
+    title: "Weekly walk",
+    startDateTime: "2026-03-02T09:00:00",
+    endDateTime: "2026-03-02T10:00:00",
+    duration: 60,
+    priority: "medium",
+    isRecurring: true,
+    timezone: TORONTO,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  } as UnifiedEvent;
+}
+
+describe("Recurrence", () => {
+  describe("rruleToRecurrence", () => {
+    it("should read weekly rules with weekdays", () => {
+      expect(rruleToRecurrence("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE")).toEqual({
+        frequency: "weekly",
+        interval: 2,
+        weekDays: [1, 3],
+      });
+    });
+
+    it("should read monthly rules on a day of the month", () => {
+      expect(rruleToRecurrence("FREQ=MONTHLY;BYMONTHDAY=15;COUNT=6")).toEqual({
+        frequency: "monthly",
+        interval: 1,
+        monthDay: 15,
+        occurrences: 6,
+      });
+    });
+
+    it("should not flatten an nth weekday of the month", () => {
+      expect(rruleToRecurrence("FREQ=MONTHLY;BYDAY=2TU")).toBeUndefined();
+    });
+
+    it("should not flatten BYSETPOS rules", () => {
+      expect(rruleToRecurrence("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1")).toBeUndefined();
+    });
+
+    it("should reject parts RecurrenceRule can't hold", () => {
+      expect(rruleToRecurrence("FREQ=YEARLY;BYMONTH=3")).toBeUndefined();
+      expect(rruleToRecurrence("FREQ=YEARLY;BYYEARDAY=100")).toBeUndefined();
+      expect(rruleToRecurrence("FREQ=YEARLY;BYWEEKNO=20")).toBeUndefined();
+      expect(rruleToRecurrence("FREQ=MONTHLY;BYMONTHDAY=-1")).toBeUndefined();
+      expect(rruleToRecurrence("FREQ=MONTHLY;BYMONTHDAY=1,15")).toBeUndefined();
+      expect(rruleToRecurrence("FREQ=HOURLY")).toBeUndefined();
+    });
+  });
+
+  describe("recurrenceToRRule", () => {
+    it("should write UNTIL in UTC at the end of the local day for timed series", () => {
+      const rule: RecurrenceRule = { frequency: "weekly", interval: 1, weekDays: [1], endDate: "2026-12-31" };
+
+      // 23:59:59 EST is 04:59:59 UTC the next day
+      expect(recurrenceToRRule(rule, "2026-03-02T09:00:00", false, TORONTO))
+        .toBe("FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20270101T045959Z");
+    });
+
+    it("should write UNTIL as a date for all-day series", () => {
+      const rule: RecurrenceRule = { frequency: "daily", interval: 1, endDate: "2026-12-31" };
+
+      expect(recurrenceToRRule(rule, "2026-03-02", true, TORONTO))
+        .toBe("FREQ=DAILY;INTERVAL=1;UNTIL=20261231");
+    });
+
+    it("should prefer an end date over an occurrence count", () => {
+      const rule: RecurrenceRule = { frequency: "daily", interval: 1, endDate: "2026-12-31", occurrences: 10 };
+
+      expect(recurrenceToRRule(rule, "2026-03-02", true)).not.toContain("COUNT");
+    });
+
+    it("should round-trip through rruleToRecurrence", () => {
+      const timed: RecurrenceRule = { frequency: "weekly", interval: 2, weekDays: [2, 4], endDate: "2026-12-31" };
+      const allDay: RecurrenceRule = { frequency: "monthly", interval: 1, monthDay: 15, endDate: "2026-06-15" };
+
+      expect(rruleToRecurrence(recurrenceToRRule(timed, "2026-03-03T09:00:00", false, TORONTO), TORONTO)).toEqual(timed);
+      expect(rruleToRecurrence(recurrenceToRRule(allDay, "2026-01-15", true, TORONTO), TORONTO)).toEqual(allDay);
+    });
+  });
+
+  describe("EXDATE keys", () => {
+    it("should key occurrences by local date across a DST change", () => {
+      // DST starts 2026-03-08: 09:00 is 14:00 UTC before and 13:00 UTC after
+      expect(occurrenceDateKey("2026-03-02T14:00:00.000Z", TORONTO)).toBe("2026-03-02");
+      expect(occurrenceDateKey("2026-03-09T13:00:00.000Z", TORONTO)).toBe("2026-03-09");
+      // Late evening local time is already the next day in UTC
+      expect(occurrenceDateKey("2026-03-10T03:30:00.000Z", TORONTO)).toBe("2026-03-09");
+    });
+
+    it("should write EXDATEs with the series TZID so they match after DST", () => {
+      const event = seriesEvent({
+        recurrence: { frequency: "weekly", interval: 1, weekDays: [1], exceptions: ["2026-03-09", "2026-03-16"] },
+      });
+
+      expect(recurrenceLines(event, ["2026-03-16"])).toEqual([
+        "RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO",
+        "EXDATE;TZID=America/Toronto:20260309T090000",
+      ]);
+    });
+
+    it("should write all-day EXDATEs as dates", () => {
+      const event = seriesEvent({
+        startDateTime: "2026-03-02",
+        endDateTime: "2026-03-03",
+        isAllDay: true,
+        recurrence: { frequency: "weekly", interval: 1, weekDays: [1], exceptions: ["2026-03-09"] },
+      });
+
+      expect(recurrenceLines(event)[1]).toBe("EXDATE;VALUE=DATE:20260309");
+    });
+
+    it("should read UTC, TZID and date EXDATEs back as local dates", () => {
+      const { rule, exdates } = parseRecurrenceLines([
+        "RRULE:FREQ=WEEKLY;BYDAY=MO",
+        "EXDATE:20260309T130000Z",
+        "EXDATE;TZID=America/Toronto:20260316T090000",
+        "EXDATE;VALUE=DATE:20260323",
+      ], TORONTO);
+
+      expect(rule).toEqual({ frequency: "weekly", interval: 1, weekDays: [1] });
+      expect(exdates).toEqual(["2026-03-09", "2026-03-16", "2026-03-23"]);
+    });
+
+    it("should leave the rule out when it can't be represented", () => {
+      const { rule, exdates } = parseRecurrenceLines([
+        "RRULE:FREQ=MONTHLY;BYDAY=2TU",
+        "EXDATE:20260310T130000Z",
+      ], TORONTO);
+
+      expect(rule).toBeUndefined();
+      expect(exdates).toEqual(["2026-03-10"]);
+    });
+  });
+
+  describe("unsupported rules", () => {
+    it("should send a rule it can't represent back unchanged", () => {
+      const pulled = [
+        "RRULE:FREQ=MONTHLY;BYDAY=2TU;UNTIL=20261231T235959Z",
+        "EXDATE;TZID=America/Toronto:20260310T090000",
+      ];
+      const { rule, unsupportedRule, exdates } = parseRecurrenceLines(pulled, TORONTO);
+      // Stored the way calendar sync stores it - the event itself is not recurring locally
+      const stored = JSON.stringify({ rrule: unsupportedRule, exceptions: exdates });
+      const event = seriesEvent({ startDateTime: "2026-03-10T09:00:00", endDateTime: "2026-03-10T10:00:00", isRecurring: false });
+
+      expect(rule).toBeUndefined();
+      expect(parseStoredRecurrence(stored)).toBeUndefined();
+      expect(recurrenceLines(event, [], TORONTO, parseStoredUnsupportedRecurrence(stored))).toEqual(pulled);
+    });
+
+    it("should use the local rule once the event is made recurring here", () => {
+      const event = seriesEvent({ recurrence: { frequency: "weekly", interval: 1, weekDays: [1] } });
+
+      expect(recurrenceLines(event, [], TORONTO, { rrule: "FREQ=MONTHLY;BYDAY=2TU" })).toEqual([
+        "RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Recurrence rules for external calendar sync
+ * Translates our RecurrenceRule to and from RFC 5545 RRULE/EXDATE lines (Google Calendar, CalDAV)
+ * and keys occurrences by their local date so cancelled and edited occurrences can be tracked
+ * on the series as exceptions.
+ */
+
+import type { RecurrenceRule, UnifiedEvent } from '@/components/EventCreationModal'
+import {
+  formatDateProperty,
+  parseContentLine,
+  parseDateValue,
+  type ICalProperty
+} from '@/lib/icalendar'
+import { DEFAULT_TIMEZONE, resolveTimeZone, toUtcInstant, toWallClock } from '@/lib/timezone-utils'
+
+// Index matches Date.getDay() and RecurrenceRule.weekDays
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+// RRULE parts RecurrenceRule has no field for - a rule using any of them can't round-trip
+const UNSUPPORTED_RRULE_PARTS = ['BYSETPOS', 'BYMONTH', 'BYYEARDAY', 'BYWEEKNO', 'BYHOUR', 'BYMINUTE', 'BYSECOND']
+
+/**
+ * A remote series whose RRULE RecurrenceRule can't represent. The event is shown as a single
+ * occurrence, but the rule and its EXDATEs are stored verbatim so pushes send them back unchanged.
+ */
+export interface UnsupportedRecurrence {
+  rrule: string
+  exceptions?: string[]
+}
+
+type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+const FREQUENCY_BY_INTERVAL_TYPE: Record<string, RRuleFrequency> = {
+  days: 'DAILY',
+  weeks: 'WEEKLY',
+  months: 'MONTHLY',
+  years: 'YEARLY'
+}
+
+/**
+ * Event.recurrence is written with JSON.stringify by the events API, so it can come back
+ * from the database as a string or as an object
+ */
+export function parseStoredRecurrence(value: unknown): RecurrenceRule | undefined {
+  if (!value) return undefined
+  if (typeof value === 'string') {
+    try {
+      return parseStoredRecurrence(JSON.parse(value))
+    } catch {
+      return undefined
+    }
+  }
+  return typeof value === 'object' && 'frequency' in value ? value as RecurrenceRule : undefined
+}
+
+/**
+ * The verbatim rule stored for a series RecurrenceRule can't represent - it has no frequency,
+ * so parseStoredRecurrence leaves it alone
+ */
+export function parseStoredUnsupportedRecurrence(value: unknown): UnsupportedRecurrence | undefined {
+  if (!value) return undefined
+  if (typeof value === 'string') {
+    try {
+      return parseStoredUnsupportedRecurrence(JSON.parse(value))
+    } catch {
+      return undefined
+    }
+  }
+  return typeof value === 'object' && 'rrule' in value && !('frequency' in value) ? value as UnsupportedRecurrence : undefined
+}
+
+/**
+ * Local date ("YYYY-MM-DD") an occurrence falls on in the series' zone - the key used for
+ * RecurrenceRule.exceptions
+ */
+export function occurrenceDateKey(value: string, timeZone = DEFAULT_TIMEZONE): string {
+  return toWallClock(value, timeZone).slice(0, 10)
+}
+
+function frequencyOf(rule: RecurrenceRule): RRuleFrequency {
+  if (rule.frequency === 'custom') {
+    return FREQUENCY_BY_INTERVAL_TYPE[rule.intervalType || 'weeks'] || 'WEEKLY'
+  }
+  return rule.frequency.toUpperCase() as RRuleFrequency
+}
+
+/**
+ * RRULE value for a series starting at startDateTime, e.g. "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20261231T235959Z"
+ * An end date wins over an occurrence count - RFC 5545 allows only one of UNTIL and COUNT.
+ */
+export function recurrenceToRRule(
+  rule: RecurrenceRule,
+  startDateTime: string,
+  isAllDay = false,
+  timeZone = DEFAULT_TIMEZONE
+): string {
+  const frequency = frequencyOf(rule)
+  const parts = [`FREQ=${frequency}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`]
+
+  if (frequency === 'WEEKLY' && rule.weekDays?.length) {
+    parts.push(`BYDAY=${[...rule.weekDays].sort().map(day => RRULE_WEEKDAYS[day]).join(',')}`)
+  }
+  if (frequency === 'MONTHLY' && rule.monthDay) {
+    parts.push(`BYMONTHDAY=${rule.monthDay}`)
+  }
+
+  if (rule.endDate) {
+    // UNTIL is inclusive and must be UTC when DTSTART carries a time
+    parts.push(isAllDay || /^\d{4}-\d{2}-\d{2}$/.test(startDateTime)
+      ? `UNTIL=${rule.endDate.slice(0, 10).replace(/-/g, '')}`
+      : `UNTIL=${toUtcInstant(`${rule.endDate.slice(0, 10)}T23:59:59`, timeZone).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`)
+  } else if (rule.occurrences) {
+    parts.push(`COUNT=${rule.occurrences}`)
+  }
+
+  return parts.join(';')
+}
+
+/**
+ * RecurrenceRule for an RRULE value (with or without the "RRULE:" prefix).
+ * Rules we can't represent (hourly, BYSETPOS, "2nd Tuesday", ...) return undefined rather than
+ * an approximation - an approximated rule would be written back over the provider's series on
+ * the next local edit.
+ */
+export function rruleToRecurrence(value: string, timeZone = DEFAULT_TIMEZONE): RecurrenceRule | undefined {
+  const parts = new Map(
+    value.replace(/^RRULE:/i, '').split(';').map(part => {
+      const [key, ...rest] = part.split('=')
+      return [key.toUpperCase(), rest.join('=')] as [string, string]
+    })
+  )
+
+  const frequency = parts.get('FREQ')?.toLowerCase()
+  if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly' && frequency !== 'yearly') {
+    return undefined
+  }
+
+  if (UNSUPPORTED_RRULE_PARTS.some(part => parts.has(part))) {
+    return undefined
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Number(parts.get('INTERVAL')) || 1
+  }
+
+  // Only plain weekdays on a weekly rule - BYDAY on a monthly/yearly rule means "2nd Tuesday" etc.
+  const byDay = parts.get('BYDAY')
+  if (byDay) {
+    if (frequency !== 'weekly') return undefined
+    const days = byDay.split(',').map(day => RRULE_WEEKDAYS.indexOf(day.toUpperCase()))
+    if (days.some(day => day < 0)) return undefined
+    rule.weekDays = days
+  }
+
+  // A single positive day of the month - "last day" (-1) and multiple days don't fit monthDay
+  const byMonthDay = parts.get('BYMONTHDAY')
+  if (byMonthDay) {
+    const monthDay = Number(byMonthDay)
+    if (frequency !== 'monthly' || !Number.isInteger(monthDay) || monthDay < 1) return undefined
+    rule.monthDay = monthDay
+  }
+
+  const until = parts.get('UNTIL')
+  if (until) {
+    rule.endDate = occurrenceDateKey(parseDateValue({ name: 'UNTIL', params: {}, value: until }).value, timeZone)
+  } else if (parts.get('COUNT')) {
+    rule.occurrences = Number(parts.get('COUNT'))
+  }
+
+  return rule
+}
+
+/**
+ * RRULE and EXDATE content lines for a recurring event, in the form Google's `recurrence`
+ * field and a VEVENT both take. Exceptions that have an edited occurrence (overrideDates)
+ * are left out - those occurrences still exist, they are just different.
+ * EXDATEs carry the series' TZID so they keep matching occurrences across DST changes.
+ * An event holding an unsupported remote rule gets that rule back as it was pulled.
+ */
+export function recurrenceLines(
+  event: UnifiedEvent,
+  overrideDates: string[] = [],
+  defaultTimeZone?: string,
+  unsupported?: UnsupportedRecurrence
+): string[] {
+  const timeZone = resolveTimeZone(event.timezone, defaultTimeZone)
+
+  if (!event.isRecurring || !event.recurrence) {
+    return unsupported
+      ? [`RRULE:${unsupported.rrule}`, ...exdateLines(event, unsupported.exceptions || [], overrideDates, timeZone)]
+      : []
+  }
+
+  return [
+    `RRULE:${recurrenceToRRule(event.recurrence, event.startDateTime, event.isAllDay, timeZone)}`,
+    ...exdateLines(event, event.recurrence.exceptions || [], overrideDates, timeZone)
+  ]
+}
+
+function exdateLines(event: UnifiedEvent, exceptions: string[], overrideDates: string[], timeZone: string): string[] {
+  const time = toWallClock(event.startDateTime, timeZone).slice(11) || '00:00:00'
+
+  return exceptions
+    .filter(date => !overrideDates.includes(date))
+    .map(date => event.isAllDay || /^\d{4}-\d{2}-\d{2}$/.test(event.startDateTime)
+      ? formatDateProperty('EXDATE', date, true)
+      : formatDateProperty('EXDATE', `${date}T${time}`, false, timeZone))
+}
+
+/**
+ * Read RRULE and EXDATE properties back. EXDATEs come back as occurrence date keys in the
+ * series' zone (UTC EXDATEs are converted; TZID ones are already wall-clock). A rule
+ * RecurrenceRule can't represent comes back verbatim as unsupportedRule.
+ */
+export function parseRecurrenceProperties(
+  properties: ICalProperty[],
+  timeZone = DEFAULT_TIMEZONE
+): { rule?: RecurrenceRule; unsupportedRule?: string; exdates: string[] } {
+  let rule: RecurrenceRule | undefined
+  let unsupportedRule: string | undefined
+  const exdates: string[] = []
+
+  for (const property of properties) {
+    if (property.name === 'RRULE') {
+      rule = rruleToRecurrence(property.value, timeZone)
+      unsupportedRule = rule ? undefined : property.value
+    } else if (property.name === 'EXDATE') {
+      for (const value of property.value.split(',')) {
+        exdates.push(occurrenceDateKey(parseDateValue({ ...property, value }).value, timeZone))
+      }
+    }
+  }
+
+  return { rule, unsupportedRule, exdates }
+}
+
+/**
+ * Same for content lines, e.g. Google's `recurrence` field
+ */
+export function parseRecurrenceLines(
+  lines: string[],
+  timeZone = DEFAULT_TIMEZONE
+): { rule?: RecurrenceRule; unsupportedRule?: string; exdates: string[] } {
+  return parseRecurrenceProperties(
+    lines.map(parseContentLine).filter((property): property is ICalProperty => !!property),
+    timeZone
+  )
+}
@@ -0,0 +1,127 @@
+// src/lib/resource-scheduling.test.ts
+
+import { setJobResources } from "./resource-scheduling";
+import { getPrismaClient } from "./prisma";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+
+const job = {
+  id: "event-1",
+  title: "Spring cleanup",
+  startDateTime: "2026-06-01T09:00:00",
+  endDateTime: "2026-06-01T11:00:00",
+  timezone: "America/Toronto",
+  duration: 120,
+  isAllDay: false,
+};
+
+function resourceRow(id: string, capacity: number) {
+  return { id, name: id === "crew-a" ? "Crew A" : "Truck 2", kind: "PERSON", capacity, color: null, isActive: true, participantId: null, availability: [] };
+}
+
+function booking(id: string, startDateTime: string, endDateTime: string) {
+  return {
+    event: { ...job, id, title: `Job ${id}`, startDateTime, endDateTime, status: "confirmed" },
+    appointment: null,
+  };
+}
+
+function mockDatabase(options: { capacity?: number; bookings?: ReturnType<typeof booking>[] } = {}) {
+  const tx = {
+    $executeRaw: jest.fn<Promise<number>, [TemplateStringsArray, ...unknown[]]>(async () => 1),
+    event: { findUnique: jest.fn(async () => job) },
+    appointment: { findUnique: jest.fn(async () => null) },
+    resource: {
+      findMany: jest.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.map(id => resourceRow(id, options.capacity ?? 1))
+      ),
+    },
+    resourceAssignment: {
+      findMany: jest.fn<Promise<ReturnType<typeof booking>[]>, [{ where: Record<string, unknown> }]>(async () => options.bookings || []),
+      deleteMany: jest.fn(async () => ({ count: 0 })),
+      upsert: jest.fn(async () => ({})),
+    },
+  };
+  const prisma = { $transaction: jest.fn(async (work: (client: typeof tx) => Promise<unknown>) => work(tx)) };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+  return { prisma, tx };
+}
+
+describe("Resource Scheduling", () => {
+  beforeEach(() => jest.spyOn(console, "warn").mockImplementation(() => undefined));
+  afterEach(() => jest.restoreAllMocks());
+
+  describe("setJobResources", () => {
+    it("should refuse a resource already booked at that time", async () => {
+      const { tx } = mockDatabase({ bookings: [booking("event-2", "2026-06-01T10:00:00", "2026-06-01T12:00:00")] });
+
+      await expect(setJobResources({ eventId: "event-1" }, ["crew-a"])).rejects.toMatchObject({ code: "CONFLICT" });
+      expect(tx.resourceAssignment.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should book a resource up to its capacity", async () => {
+      const { tx } = mockDatabase({ capacity: 2, bookings: [booking("event-2", "2026-06-01T10:00:00", "2026-06-01T12:00:00")] });
+
+      const result = await setJobResources({ eventId: "event-1" }, ["crew-a"]);
+
+      expect(result.conflicts).toEqual([]);
+      expect(tx.resourceAssignment.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refuse a booking that would go over capacity", async () => {
+      mockDatabase({
+        capacity: 2,
+        bookings: [
+          booking("event-2", "2026-06-01T09:00:00", "2026-06-01T10:30:00"),
+          booking("event-3", "2026-06-01T10:00:00", "2026-06-01T12:00:00"),
+        ],
+      });
+
+      await expect(setJobResources({ eventId: "event-1" }, ["crew-a"])).rejects.toMatchObject({
+        code: "CONFLICT",
+        message: "Crew A would be on 3 jobs at once (capacity 2)",
+      });
+    });
+
+    it("should book over a conflict when forced", async () => {
+      const { tx } = mockDatabase({ bookings: [booking("event-2", "2026-06-01T10:00:00", "2026-06-01T12:00:00")] });
+
+      const result = await setJobResources({ eventId: "event-1" }, ["crew-a"], { force: true });
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(tx.resourceAssignment.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it("should lock each resource, in order, before checking it", async () => {
+      const { prisma, tx } = mockDatabase();
+
+      await setJobResources({ eventId: "event-1" }, ["truck-2", "crew-a", "truck-2"]);
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(tx.$executeRaw.mock.calls.map(([, key]) => key)).toEqual(["resource:crew-a", "resource:truck-2"]);
+      expect(tx.$executeRaw.mock.invocationCallOrder[1]).toBeLessThan(tx.resource.findMany.mock.invocationCallOrder[0]);
+    });
+
+    it("should only load bookings around the job's time", async () => {
+      const { tx } = mockDatabase();
+
+      await setJobResources({ eventId: "event-1" }, ["crew-a"]);
+
+      const { where } = tx.resourceAssignment.findMany.mock.calls[0][0];
+      expect(where.OR).toEqual([
+        {
+          event: {
+            startDateTime: { lte: "2026-06-02T23:59:59" },
+            OR: [{ endDateTime: { gte: "2026-05-31" } }, { endDateTime: null, startDateTime: { gte: "2026-05-31" } }],
+          },
+        },
+        {
+          appointment: {
+            startTime: { lt: new Date("2026-06-01T15:00:00Z") },
+            endTime: { gt: new Date("2026-06-01T13:00:00Z") },
+          },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Resource scheduling
+ * Stores crews, vehicles and equipment with their availability calendars, books them on events
+ * and appointments, and checks a booking against the resource's capacity and availability
+ * before it's made. Availability rules live in '@/lib/resources'.
+ */
+
+import { Prisma } from '@prisma/client'
+import { getPrismaClient } from '@/lib/prisma'
+import {
+  checkResourceAvailability,
+  peakConcurrentBookings,
+  type ResourceAvailabilityWindow,
+  type ResourceKind,
+  type SchedulingResource
+} from '@/lib/resources'
+import { DEFAULT_TIMEZONE, resolveTimeZone, toUtcInstant, toWallClock } from '@/lib/timezone-utils'
+
+export class ResourceError extends Error {
+  constructor(
+    message: string,
+    public code: 'VALIDATION' | 'NOT_FOUND' | 'CONFLICT',
+    public details?: unknown
+  ) {
+    super(message)
+    this.name = 'ResourceError'
+  }
+}
+
+export interface ResourceInput {
+  name?: string
+  kind?: ResourceKind
+  capacity?: number
+  color?: string | null
+  notes?: string | null
+  isActive?: boolean
+  participantId?: string | null
+  availability?: ResourceAvailabilityWindow[] // Replaces the whole calendar
+}
+
+export interface ResourceBooking {
+  eventId?: string
+  appointmentId?: string
+  title: string
+  start: Date
+  end: Date
+}
+
+export interface ResourceBookingConflict {
+  resourceId: string
+  resourceName: string
+  reason: string
+  bookings: ResourceBooking[] // Bookings it clashes with (empty when the resource is unavailable)
+}
+
+/** A job to book resources on - exactly one of eventId or appointmentId */
+export interface ResourceJob {
+  eventId?: string
+  appointmentId?: string
+}
+
+const RESOURCE_KINDS: ResourceKind[] = ['PERSON', 'VEHICLE', 'EQUIPMENT']
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const resourceInclude = {
+  availability: { orderBy: [{ dayOfWeek: 'asc' }, { date: 'asc' }, { startTime: 'asc' }] }
+} satisfies Prisma.ResourceInclude
+
+type ResourceRow = Prisma.ResourceGetPayload<{ include: typeof resourceInclude }>
+
+function requirePrisma() {
+  const prisma = getPrismaClient()
+  if (!prisma) throw new Error('Database not available')
+  return prisma
+}
+
+export function toSchedulingResource(row: ResourceRow): SchedulingResource {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    capacity: row.capacity,
+    color: row.color,
+    isActive: row.isActive,
+    participantId: row.participantId,
+    availability: row.availability.map(window => ({
+      dayOfWeek: window.dayOfWeek,
+      date: window.date,
+      startTime: window.startTime,
+      endTime: window.endTime,
+      available: window.available,
+      reason: window.reason
+    }))
+  }
+}
+
+export async function listResources(options: { includeInactive?: boolean } = {}): Promise<SchedulingResource[]> {
+  const rows = await requirePrisma().resource.findMany({
+    where: options.includeInactive ? {} : { isActive: true },
+    include: resourceInclude,
+    orderBy: [{ kind: 'asc' }, { name: 'asc' }]
+  })
+  return rows.map(toSchedulingResource)
+}
+
+export async function getResource(id: string): Promise<SchedulingResource> {
+  const row = await requirePrisma().resource.findUnique({ where: { id }, include: resourceInclude })
+  if (!row) throw new ResourceError('Resource not found', 'NOT_FOUND')
+  return toSchedulingResource(row)
+}
+
+export async function createResource(input: ResourceInput): Promise<SchedulingResource> {
+  validateResourceInput(input, true)
+
+  const row = await requirePrisma().resource.create({
+    data: {
+      name: input.name!.trim(),
+      kind: input.kind!,
+      capacity: input.capacity ?? 1,
+      color: input.color,
+      notes: input.notes,
+      isActive: input.isActive ?? true,
+      participantId: input.participantId || null,
+      availability: { create: (input.availability || []).map(toAvailabilityData) }
+    },
+    include: resourceInclude
+  })
+  return toSchedulingResource(row)
+}
+
+export async function updateResource(id: string, input: ResourceInput): Promise<SchedulingResource> {
+  validateResourceInput(input, false)
+  const prisma = requirePrisma()
+  await getResource(id)
+
+  const row = await prisma.$transaction(async tx => {
+    if (input.availability) {
+      await tx.resourceAvailability.deleteMany({ where: { resourceId: id } })
+    }
+    return tx.resource.update({
+      where: { id },
+      data: {
+        name: input.name?.trim(),
+        kind: input.kind,
+        capacity: input.capacity,
+        color: input.color,
+        notes: input.notes,
+        isActive: input.isActive,
+        participantId: input.participantId === undefined ? undefined : input.participantId || null,
+        availability: input.availability ? { create: input.availability.map(toAvailabilityData) } : undefined
+      },
+      include: resourceInclude
+    })
+  })
+  return toSchedulingResource(row)
+}
+
+/**
+ * Delete a resource and its bookings. Resources that have been booked are usually better
+ * retired (isActive: false) so past jobs keep them.
+ */
+export async function deleteResource(id: string): Promise<void> {
+  await getResource(id)
+  await requirePrisma().resource.delete({ where: { id } })
+}
+
+function validateResourceInput(input: ResourceInput, creating: boolean): void {
+  if (creating || input.name !== undefined) {
+    if (!input.name?.trim()) throw new ResourceError('Name is required', 'VALIDATION')
+  }
+  if (creating || input.kind !== undefined) {
+    if (!input.kind || !RESOURCE_KINDS.includes(input.kind)) {
+      throw new ResourceError(`Kind must be one of ${RESOURCE_KINDS.join(', ')}`, 'VALIDATION')
+    }
+  }
+  if (input.capacity !== undefined && (!Number.isInteger(input.capacity) || input.capacity < 1)) {
+    throw new ResourceError('Capacity must be a whole number of at least 1', 'VALIDATION')
+  }
+
+  for (const window of input.availability || []) {
+    const weekly = window.dayOfWeek != null
+    if (weekly === !!window.date) {
+      throw new ResourceError('Each availability entry needs either a dayOfWeek or a date', 'VALIDATION')
+    }
+    if (weekly && (!Number.isInteger(window.dayOfWeek) || window.dayOfWeek! < 0 || window.dayOfWeek! > 6)) {
+      throw new ResourceError('dayOfWeek must be 0 (Sunday) to 6', 'VALIDATION')
+    }
+    if (window.date && !DATE_PATTERN.test(window.date)) {
+      throw new ResourceError('Dates must be YYYY-MM-DD', 'VALIDATION')
+    }
+    if ([window.startTime, window.endTime].some(time => time && !TIME_PATTERN.test(time))) {
+      throw new ResourceError('Times must be HH:MM', 'VALIDATION')
+    }
+    if (window.startTime && window.endTime && window.startTime >= window.endTime) {
+      throw new ResourceError('Availability must end after it starts', 'VALIDATION')
+    }
+  }
+}
+
+const toAvailabilityData = (window: ResourceAvailabilityWindow) => ({
+  dayOfWeek: window.dayOfWeek ?? null,
+  date: window.date || null,
+  startTime: window.startTime || null,
+  endTime: window.endTime || null,
+  available: window.available ?? true,
+  reason: window.reason || null
+})
+
+/**
+ * When a job runs, from the event or appointment row
+ */
+async function getJobTimes(
+  job: ResourceJob,
+  db: Prisma.TransactionClient = requirePrisma()
+): Promise<{ title: string; start: Date; end: Date }> {
+  if (job.eventId) {
+    const event = await db.event.findUnique({ where: { id: job.eventId } })
+    if (!event) throw new ResourceError('Event not found', 'NOT_FOUND')
+    return { title: event.title, ...eventInterval(event) }
+  }
+
+  const appointment = job.appointmentId
+    ? await db.appointment.findUnique({ where: { id: job.appointmentId } })
+    : null
+  if (!appointment) throw new ResourceError('Appointment not found', 'NOT_FOUND')
+  return { title: appointment.title, start: appointment.startTime, end: appointment.endTime }
+}
+
+function eventInterval(event: {
+  startDateTime: string
+  endDateTime: string | null
+  timezone: string | null
+  duration: number
+  isAllDay: boolean
+}): { start: Date; end: Date } {
+  const timezone = resolveTimeZone(event.timezone)
+  if (event.isAllDay) {
+    const start = toUtcInstant(`${event.startDateTime.slice(0, 10)}T00:00:00`, timezone)
+    const endDate = (event.endDateTime || event.startDateTime).slice(0, 10)
+    return { start, end: new Date(toUtcInstant(`${endDate}T00:00:00`, timezone).getTime() + 24 * 60 * 60000) }
+  }
+
+  const start = toUtcInstant(event.startDateTime, timezone)
+  const end = event.endDateTime
+    ? toUtcInstant(event.endDateTime, timezone)
+    : new Date(start.getTime() + (event.duration || 60) * 60000)
+  return { start, end }
+}
+
+/**
+ * Other bookings of a resource that overlap a time, from both events and appointments
+ */
+async function getOverlappingBookings(
+  resourceId: string,
+  start: Date,
+  end: Date,
+  job: ResourceJob,
+  db: Prisma.TransactionClient
+): Promise<ResourceBooking[]> {
+  // Event times are strings (wall-clock or with an offset) - narrow by date, then compare instants
+  const firstDay = new Date(start.getTime() - 86400000).toISOString().slice(0, 10)
+  const lastDay = new Date(end.getTime() + 86400000).toISOString().slice(0, 10)
+
+  const assignments = await db.resourceAssignment.findMany({
+    where: {
+      resourceId,
+      NOT: job.eventId ? { eventId: job.eventId } : { appointmentId: job.appointmentId },
+      OR: [
+        {
+          event: {
+            startDateTime: { lte: `${lastDay}T23:59:59` },
+            OR: [
+              { endDateTime: { gte: firstDay } },
+              { endDateTime: null, startDateTime: { gte: firstDay } }
+            ]
+          }
+        },
+        { appointment: { startTime: { lt: end }, endTime: { gt: start } } }
+      ]
+    },
+    include: { event: true, appointment: true }
+  })
+
+  const bookings: ResourceBooking[] = []
+  for (const assignment of assignments) {
+    if (assignment.event) {
+      if (['cancelled', 'CANCELLED'].includes(assignment.event.status || '')) continue
+      bookings.push({ eventId: assignment.event.id, title: assignment.event.title, ...eventInterval(assignment.event) })
+    } else if (assignment.appointment && assignment.appointment.status !== 'CANCELLED') {
+      bookings.push({
+        appointmentId: assignment.appointment.id,
+        title: assignment.appointment.title,
+        start: assignment.appointment.startTime,
+        end: assignment.appointment.endTime
+      })
+    }
+  }
+  return bookings.filter(booking => booking.start < end && booking.end > start)
+}
+
+/**
+ * Why resources can't be booked on a job: already booked to capacity at that time, or not
+ * available then by their calendar
+ */
+export async function findResourceConflicts(
+  resourceIds: string[],
+  job: ResourceJob,
+  db: Prisma.TransactionClient = requirePrisma()
+): Promise<ResourceBookingConflict[]> {
+  if (resourceIds.length === 0) return []
+
+  const { start, end } = await getJobTimes(job, db)
+  const rows = await db.resource.findMany({
+    where: { id: { in: resourceIds } },
+    include: resourceInclude
+  })
+  if (rows.length !== new Set(resourceIds).size) throw new ResourceError('Resource not found', 'NOT_FOUND')
+
+  const conflicts: ResourceBookingConflict[] = []
+  for (const resource of rows.map(toSchedulingResource)) {
+    const availability = checkResourceAvailability(
+      resource,
+      toWallClock(start.toISOString(), DEFAULT_TIMEZONE),
+      toWallClock(end.toISOString(), DEFAULT_TIMEZONE)
+    )
+    if (!availability.available) {
+      conflicts.push({ resourceId: resource.id, resourceName: resource.name, reason: availability.reason!, bookings: [] })
+    }
+
+    const overlapping = await getOverlappingBookings(resource.id, start, end, job, db)
+    const clipped = [{ start, end }, ...overlapping].map(booking => ({
+      start: Math.max(booking.start.getTime(), start.getTime()),
+      end: Math.min(booking.end.getTime(), end.getTime())
+    }))
+    const peak = peakConcurrentBookings(clipped)
+    if (peak > resource.capacity) {
+      conflicts.push({
+        resourceId: resource.id,
+        resourceName: resource.name,
+        reason: resource.capacity === 1
+          ? `${resource.name} is already booked on ${overlapping.map(booking => `"${booking.title}"`).join(', ')}`
+          : `${resource.name} would be on ${peak} jobs at once (capacity ${resource.capacity})`,
+        bookings: overlapping
+      })
+    }
+  }
+  return conflicts
+}
+
+/**
+ * Book exactly these resources on an event or appointment. Bookings that would double-book a
+ * resource or fall outside its availability are refused unless forced. The check and the
+ * booking hold a lock on each resource, so two jobs can't both take its last slot; pass tx to
+ * book as part of a wider transaction (e.g. with the event being created).
+ */
+export async function setJobResources(
+  job: ResourceJob,
+  resourceIds: string[],
+  options: { force?: boolean; tx?: Prisma.TransactionClient } = {}
+): Promise<{ resourceIds: string[]; conflicts: ResourceBookingConflict[] }> {
+  if (!!job.eventId === !!job.appointmentId) {
+    throw new ResourceError('Give either an eventId or an appointmentId', 'VALIDATION')
+  }
+
+  const ids = [...new Set(resourceIds)]
+  const jobWhere = job.eventId ? { eventId: job.eventId } : { appointmentId: job.appointmentId }
+
+  const book = async (tx: Prisma.TransactionClient) => {
+    // Always in the same order, so two jobs sharing resources can't deadlock
+    for (const resourceId of [...ids].sort()) {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`resource:${resourceId}`}))`
+    }
+
+    const conflicts = await findResourceConflicts(ids, job, tx)
+    if (conflicts.length > 0 && !options.force) {
+      throw new ResourceError(conflicts.map(conflict => conflict.reason).join('; '), 'CONFLICT', conflicts)
+    }
+
+    await tx.resourceAssignment.deleteMany({ where: { ...jobWhere, resourceId: { notIn: ids } } })
+    for (const resourceId of ids) {
+      await tx.resourceAssignment.upsert({
+        where: job.eventId
+          ? { resourceId_eventId: { resourceId, eventId: job.eventId } }
+          : { resourceId_appointmentId: { resourceId, appointmentId: job.appointmentId! } },
+        create: { resourceId, ...jobWhere },
+        update: {}
+      })
+    }
+    return conflicts
+  }
+
+  const conflicts = options.tx ? await book(options.tx) : await requirePrisma().$transaction(book)
+
+  if (conflicts.length > 0) {
+    console.warn(`📅 [Resources] Booked despite conflicts:`, conflicts.map(conflict => conflict.reason))
+  }
+  return { resourceIds: ids, conflicts }
+}
@@ -0,0 +1,155 @@
+/**
+ * Crew and equipment resources
+ * Jobs are booked on resources - crews and team members, vehicles (the plow truck) and
+ * equipment (the salter, mowers). A resource can be on as many jobs at once as its capacity,
+ * and only when its availability calendar allows it: weekly hours, plus dated exceptions that
+ * block time (the truck is in the shop) or open it (a crew works a Saturday).
+ *
+ * Availability times are wall-clock in the business zone. Nothing here needs the server, so
+ * the ConflictDetector and the calendar views use it in the browser.
+ */
+
+export type ResourceKind = 'PERSON' | 'VEHICLE' | 'EQUIPMENT'
+
+export interface ResourceAvailabilityWindow {
+  dayOfWeek?: number | null // 0 (Sunday) - 6, for weekly hours
+  date?: string | null // "YYYY-MM-DD", for an exception
+  startTime?: string | null // "HH:MM"; no times means the whole day
+  endTime?: string | null
+  available: boolean // False blocks the time
+  reason?: string | null
+}
+
+export interface SchedulingResource {
+  id: string
+  name: string
+  kind: ResourceKind
+  capacity: number
+  color?: string | null
+  isActive: boolean
+  participantId?: string | null
+  availability: ResourceAvailabilityWindow[]
+}
+
+export interface ResourceAvailabilityCheck {
+  available: boolean
+  reason?: string
+}
+
+export const RESOURCE_KIND_LABELS: Record<ResourceKind, string> = {
+  PERSON: 'Crew',
+  VEHICLE: 'Vehicle',
+  EQUIPMENT: 'Equipment'
+}
+
+const DAY_NAMES = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays']
+const MINUTES_PER_DAY = 24 * 60
+
+const toMinutes = (time?: string | null, fallback = 0): number => {
+  if (!time) return fallback
+  const [hours, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+const dayOfWeek = (date: string): number => new Date(`${date}T12:00:00Z`).getUTCDay()
+
+const nextDate = (date: string): string => {
+  const next = new Date(`${date}T12:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString().slice(0, 10)
+}
+
+/**
+ * Whether a resource can work a job from start to end
+ * @param start - Wall-clock "YYYY-MM-DDTHH:MM" in the business zone
+ * @param end - Wall-clock end; a job running past midnight is checked on both days
+ */
+export function checkResourceAvailability(
+  resource: SchedulingResource,
+  start: string,
+  end: string
+): ResourceAvailabilityCheck {
+  if (!resource.isActive) return { available: false, reason: `${resource.name} is not in service` }
+
+  const endDate = end.slice(0, 10)
+  let date = start.slice(0, 10)
+
+  while (date <= endDate) {
+    const from = date === start.slice(0, 10) ? toMinutes(start.slice(11, 16)) : 0
+    const to = date === endDate ? toMinutes(end.slice(11, 16)) : MINUTES_PER_DAY
+    if (to > from) {
+      const check = checkDay(resource, date, from, to)
+      if (!check.available) return check
+    }
+    date = nextDate(date)
+  }
+
+  return { available: true }
+}
+
+export interface ResourceDayHours {
+  hours: ResourceAvailabilityWindow[] | null // When it works that day; null is any time
+  blocked: ResourceAvailabilityWindow[] // Blocked times that day
+}
+
+/**
+ * A resource's calendar for one day. Dated openings replace the weekly hours for that day.
+ */
+export function getResourceDayHours(resource: SchedulingResource, date: string): ResourceDayHours {
+  const day = dayOfWeek(date)
+  const appliesToDay = (window: ResourceAvailabilityWindow) => window.date === date || (!window.date && window.dayOfWeek === day)
+  const weeklyHours = resource.availability.filter(window => window.dayOfWeek != null && !window.date && window.available)
+  const openings = resource.availability.filter(window => window.available && window.date === date)
+  const blocked = resource.availability.filter(window => !window.available && appliesToDay(window))
+
+  // Without weekly hours a resource is available any time it isn't blocked
+  if (openings.length === 0 && weeklyHours.length === 0) return { hours: null, blocked }
+  return { hours: openings.length > 0 ? openings : weeklyHours.filter(window => window.dayOfWeek === day), blocked }
+}
+
+export const formatAvailabilityWindow = (window: ResourceAvailabilityWindow): string =>
+  window.startTime || window.endTime ? `${window.startTime || '00:00'}-${window.endTime || '24:00'}` : 'all day'
+
+function checkDay(resource: SchedulingResource, date: string, from: number, to: number): ResourceAvailabilityCheck {
+  const { hours, blocked } = getResourceDayHours(resource, date)
+  const overlaps = (window: ResourceAvailabilityWindow) =>
+    toMinutes(window.startTime) < to && toMinutes(window.endTime, MINUTES_PER_DAY) > from
+  const covers = (window: ResourceAvailabilityWindow) =>
+    toMinutes(window.startTime) <= from && toMinutes(window.endTime, MINUTES_PER_DAY) >= to
+
+  const block = blocked.find(overlaps)
+  if (block) {
+    return {
+      available: false,
+      reason: `${resource.name} is unavailable ${formatAvailabilityWindow(block)}${block.reason ? `: ${block.reason}` : ''}`
+    }
+  }
+
+  if (hours === null) return { available: true }
+  if (hours.length === 0) return { available: false, reason: `${resource.name} doesn't work ${DAY_NAMES[dayOfWeek(date)]}` }
+  if (!hours.some(covers)) {
+    return {
+      available: false,
+      reason: `Outside ${resource.name}'s hours (${hours.map(formatAvailabilityWindow).join(', ')})`
+    }
+  }
+  return { available: true }
+}
+
+/**
+ * Most bookings running at the same moment
+ */
+export function peakConcurrentBookings(bookings: { start: number; end: number }[]): number {
+  // Ends sort before starts at the same moment - back-to-back jobs don't overlap
+  const edges = bookings
+    .flatMap(booking => [{ at: booking.start, change: 1 }, { at: booking.end, change: -1 }])
+    .sort((a, b) => a.at - b.at || a.change - b.change)
+
+  let current = 0
+  let peak = 0
+  for (const edge of edges) {
+    current += edge.change
+    peak = Math.max(peak, current)
+  }
+  return peak
+}
@@ -0,0 +1,300 @@
+/**
+ * Daily route optimizer
+ * Reorders a day's field jobs to cut driving: nearest-neighbour from the yard (ROUTE_DEPOT_ADDRESS,
+ * when set) improved with 2-opt, using drive times from the distance provider. The current order
+ * is checked too - back-to-back jobs without enough time to drive between them are flagged.
+ *
+ * The plan is a proposal; nothing is moved until the planner applies it.
+ */
+
+import { getPrismaClient } from '@/lib/prisma'
+import { geocodeAddress, resolveEventCoordinates } from '@/lib/geocoding'
+import { estimateTravelMatrix, type GeoPoint, type TravelEstimate } from '@/lib/travel-time'
+import { resolveTimeZone, toUtcInstant, toWallClock } from '@/lib/timezone-utils'
+
+export interface RouteLeg {
+  fromEventId: string | null // null: the yard
+  toEventId: string
+  minutes: number
+  distanceKm: number
+  source: string
+}
+
+export interface ImpossibleTransition extends RouteLeg {
+  gapMinutes: number // Time between the jobs as scheduled (negative when they overlap)
+  shortByMinutes: number
+}
+
+export interface ProposedStop {
+  eventId: string
+  title: string
+  startDateTime: string // Wall-clock in the event's zone, like Event.startDateTime
+  endDateTime: string
+  travelMinutes: number // Drive to get here
+}
+
+export interface DailyRoutePlan {
+  currentDriveMinutes: number
+  currentDistanceKm: number
+  proposedDriveMinutes: number
+  proposedDistanceKm: number
+  savedMinutes: number
+  reordered: boolean // The proposed order differs from the scheduled one
+  currentLegs: RouteLeg[]
+  proposedLegs: RouteLeg[]
+  proposed: ProposedStop[]
+  impossibleTransitions: ImpossibleTransition[]
+  unlocated: { eventId: string; title: string }[] // Field events we couldn't place - left where they are
+  locations: Record<string, GeoPoint>
+}
+
+interface Stop {
+  eventId: string
+  title: string
+  timezone: string
+  start: Date
+  end: Date
+  point: GeoPoint
+}
+
+// Proposed start times are rounded up to this
+const SCHEDULE_STEP_MINUTES = 5
+
+/**
+ * Plan the route for a set of events (normally one day's). Goals, milestones, all-day and
+ * cancelled events aren't field jobs and are ignored.
+ */
+export async function planDailyRoute(eventIds: string[], fallbackTimeZone?: string): Promise<DailyRoutePlan> {
+  const prisma = getPrismaClient()
+  if (!prisma) throw new Error('Database not available')
+
+  const events = await prisma.event.findMany({
+    where: {
+      id: { in: eventIds },
+      type: { in: ['EVENT', 'TASK'] },
+      isAllDay: false,
+      NOT: { status: { in: ['cancelled', 'CANCELLED'] } }
+    },
+    include: { client: { select: { id: true, address: true } } }
+  })
+
+  const stops: Stop[] = []
+  const unlocated: DailyRoutePlan['unlocated'] = []
+
+  for (const event of events) {
+    const point = await resolveEventCoordinates(event)
+    if (!point) {
+      if (event.location || event.clientId) unlocated.push({ eventId: event.id, title: event.title })
+      continue
+    }
+
+    const timezone = resolveTimeZone(event.timezone, fallbackTimeZone)
+    const start = toUtcInstant(event.startDateTime, timezone)
+    const end = event.endDateTime
+      ? toUtcInstant(event.endDateTime, timezone)
+      : new Date(start.getTime() + (event.duration || 60) * 60000)
+    stops.push({ eventId: event.id, title: event.title, timezone, start, end, point })
+  }
+
+  stops.sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  const depot = process.env.ROUTE_DEPOT_ADDRESS ? await geocodeAddress(process.env.ROUTE_DEPOT_ADDRESS) : null
+  const travel = await buildTravelMatrix(stops, depot)
+
+  const currentLegs = legsFor(stops, travel, depot)
+  const scheduled = stops.map((_, index) => index)
+  const optimized = improveWithTwoOpt(nearestNeighbourOrder(stops, travel, depot), stops, travel, depot)
+  // Only propose a different order when it actually drives less
+  const order = routeMinutes(optimized, stops, travel, depot) < routeMinutes(scheduled, stops, travel, depot)
+    ? optimized
+    : scheduled
+  const proposed = scheduleInOrder(order.map(index => stops[index]), travel, stops)
+  const proposedLegs = legsFor(order.map(index => stops[index]), travel, depot)
+
+  const sum = (legs: RouteLeg[], key: 'minutes' | 'distanceKm') =>
+    Math.round(legs.reduce((total, leg) => total + leg[key], 0) * 10) / 10
+  const currentDriveMinutes = sum(currentLegs, 'minutes')
+  const proposedDriveMinutes = sum(proposedLegs, 'minutes')
+
+  return {
+    currentDriveMinutes,
+    currentDistanceKm: sum(currentLegs, 'distanceKm'),
+    proposedDriveMinutes,
+    proposedDistanceKm: sum(proposedLegs, 'distanceKm'),
+    savedMinutes: Math.max(0, currentDriveMinutes - proposedDriveMinutes),
+    reordered: order.some((index, position) => index !== position),
+    currentLegs,
+    proposedLegs,
+    proposed,
+    impossibleTransitions: findImpossibleTransitions(stops, travel),
+    unlocated,
+    locations: Object.fromEntries(stops.map(stop => [stop.eventId, stop.point]))
+  }
+}
+
+type TravelMatrix = Map<string, TravelEstimate>
+
+const DEPOT_KEY = 'depot'
+const matrixKey = (from: string, to: string) => `${from}>${to}`
+
+/**
+ * Drive times between every pair of stops (and from/to the yard), fetched as one batched
+ * matrix. A matrix request takes a single departure time, so traffic is taken at the start of
+ * the day's first job.
+ */
+async function buildTravelMatrix(stops: Stop[], depot: GeoPoint | null): Promise<TravelMatrix> {
+  const matrix: TravelMatrix = new Map()
+  const nodes = [
+    ...(depot ? [{ id: DEPOT_KEY, point: depot }] : []),
+    ...stops.map(stop => ({ id: stop.eventId, point: stop.point }))
+  ]
+  if (nodes.length < 2) return matrix
+
+  const departAt = new Date(Math.min(...stops.map(stop => stop.start.getTime())))
+  const points = nodes.map(node => node.point)
+  const estimates = await estimateTravelMatrix(points, points, departAt)
+
+  nodes.forEach((from, i) => nodes.forEach((to, j) => {
+    if (i !== j) matrix.set(matrixKey(from.id, to.id), estimates[i][j])
+  }))
+  return matrix
+}
+
+const travelBetween = (matrix: TravelMatrix, from: string, to: string): TravelEstimate =>
+  matrix.get(matrixKey(from, to)) || { minutes: 0, distanceKm: 0, source: 'none' }
+
+function legsFor(ordered: Stop[], matrix: TravelMatrix, depot: GeoPoint | null): RouteLeg[] {
+  const legs: RouteLeg[] = []
+  ordered.forEach((stop, index) => {
+    const from = index === 0 ? (depot ? DEPOT_KEY : null) : ordered[index - 1].eventId
+    if (!from) return
+    const estimate = travelBetween(matrix, from, stop.eventId)
+    legs.push({
+      fromEventId: from === DEPOT_KEY ? null : from,
+      toEventId: stop.eventId,
+      minutes: estimate.minutes,
+      distanceKm: estimate.distanceKm,
+      source: estimate.source
+    })
+  })
+  return legs
+}
+
+function routeMinutes(order: number[], stops: Stop[], matrix: TravelMatrix, depot: GeoPoint | null): number {
+  let total = depot && order.length > 0 ? travelBetween(matrix, DEPOT_KEY, stops[order[0]].eventId).minutes : 0
+  for (let i = 1; i < order.length; i++) {
+    total += travelBetween(matrix, stops[order[i - 1]].eventId, stops[order[i]].eventId).minutes
+  }
+  return total
+}
+
+/**
+ * Always drive to the closest job not yet visited. Without a yard, every job is tried as the
+ * first one and the shortest route wins.
+ */
+function nearestNeighbourOrder(stops: Stop[], matrix: TravelMatrix, depot: GeoPoint | null): number[] {
+  if (stops.length === 0) return []
+
+  const fromStart = (first: number | null): number[] => {
+    const order: number[] = first === null ? [] : [first]
+    const remaining = new Set(stops.map((_, index) => index).filter(index => index !== first))
+    let current = first === null ? DEPOT_KEY : stops[first].eventId
+
+    while (remaining.size > 0) {
+      let next = -1
+      for (const candidate of remaining) {
+        if (next === -1 || travelBetween(matrix, current, stops[candidate].eventId).minutes <
+          travelBetween(matrix, current, stops[next].eventId).minutes) {
+          next = candidate
+        }
+      }
+      order.push(next)
+      remaining.delete(next)
+      current = stops[next].eventId
+    }
+    return order
+  }
+
+  if (depot) return fromStart(null)
+
+  return stops
+    .map((_, index) => fromStart(index))
+    .reduce((best, order) => routeMinutes(order, stops, matrix, depot) < routeMinutes(best, stops, matrix, depot) ? order : best)
+}
+
+/**
+ * Reverse stretches of the route while that makes it shorter
+ */
+function improveWithTwoOpt(order: number[], stops: Stop[], matrix: TravelMatrix, depot: GeoPoint | null): number[] {
+  let best = order
+  let bestMinutes = routeMinutes(best, stops, matrix, depot)
+  let improved = true
+
+  while (improved) {
+    improved = false
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)]
+        const minutes = routeMinutes(candidate, stops, matrix, depot)
+        if (minutes < bestMinutes) {
+          best = candidate
+          bestMinutes = minutes
+          improved = true
+        }
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Times for the jobs in a new order: the day starts when it does now, every job keeps its length
+ * and the next one starts once the crew has driven there
+ */
+function scheduleInOrder(ordered: Stop[], matrix: TravelMatrix, current: Stop[]): ProposedStop[] {
+  if (ordered.length === 0) return []
+
+  const step = SCHEDULE_STEP_MINUTES * 60000
+  let cursor = Math.min(...current.map(stop => stop.start.getTime()))
+
+  return ordered.map((stop, index) => {
+    const travelMinutes = index === 0 ? 0 : travelBetween(matrix, ordered[index - 1].eventId, stop.eventId).minutes
+    const start = Math.ceil((cursor + travelMinutes * 60000) / step) * step
+    const end = start + (stop.end.getTime() - stop.start.getTime())
+    cursor = end
+
+    return {
+      eventId: stop.eventId,
+      title: stop.title,
+      startDateTime: toWallClock(new Date(start).toISOString(), stop.timezone),
+      endDateTime: toWallClock(new Date(end).toISOString(), stop.timezone),
+      travelMinutes
+    }
+  })
+}
+
+/**
+ * Consecutive jobs, as scheduled, with less time between them than the drive takes
+ */
+function findImpossibleTransitions(stops: Stop[], matrix: TravelMatrix): ImpossibleTransition[] {
+  const transitions: ImpossibleTransition[] = []
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1]
+    const to = stops[i]
+    const estimate = travelBetween(matrix, from.eventId, to.eventId)
+    const gapMinutes = Math.round((to.start.getTime() - from.end.getTime()) / 60000)
+
+    if (gapMinutes < estimate.minutes) {
+      transitions.push({
+        fromEventId: from.eventId,
+        toEventId: to.eventId,
+        minutes: estimate.minutes,
+        distanceKm: estimate.distanceKm,
+        source: estimate.source,
+        gapMinutes,
+        shortByMinutes: estimate.minutes - gapMinutes
+      })
+    }
+  }
+  return transitions
+}
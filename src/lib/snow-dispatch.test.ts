@@ -0,0 +1,157 @@
+// src/lib/snow-dispatch.test.ts
+
+import { Prisma } from "@prisma/client";
+import { completeStormVisits, dispatchStorm } from "./snow-dispatch";
+import { logInvoiceCreated } from "./activity-logger";
+import { allocateDocumentNumber } from "./document-numbering";
+import { getPrismaClient } from "./prisma";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+jest.mock("./activity-logger", () => ({ logInvoiceCreated: jest.fn() }));
+jest.mock("./document-numbering", () => ({ allocateDocumentNumber: jest.fn(async () => "WK-INV-2026-0001") }));
+jest.mock("./weather-feed", () => ({ getWeatherFeed: jest.fn() }));
+
+const storm = {
+  id: "storm-1",
+  startedAt: new Date("2026-01-12T08:00:00Z"),
+  endedAt: new Date("2026-01-12T14:00:00Z"),
+  accumulationCm: 12,
+  iceRisk: false,
+  status: "OPEN",
+};
+
+const contract = {
+  id: "contract-1",
+  clientId: "client-1",
+  serviceId: "white-knight",
+  serviceLineId: "line-1",
+  serviceName: "Snow Removal",
+  serviceCategory: "Snow Removal",
+  billingDetails: { snow: { perVisitRate: 85 } },
+  seasonalInfo: null,
+  lastCompleted: null,
+  client: { id: "client-1", name: "Jane Smith", company: null, address: null },
+};
+
+const dispatch = {
+  id: "dispatch-1",
+  stormId: "storm-1",
+  contractId: "contract-1",
+  service: "plow",
+  reason: "12 cm ≥ 5 cm trigger",
+  eventId: "event-1",
+  status: "DISPATCHED",
+  contract,
+};
+
+function uniqueViolation() {
+  return new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "6" });
+}
+
+function mockDatabase(options: { claimed?: number; dispatchCreate?: () => Promise<unknown> } = {}) {
+  const calls: string[] = [];
+  const tx = {
+    stormDispatch: {
+      create: jest.fn(options.dispatchCreate || (async () => {
+        calls.push("dispatch");
+        return { id: "dispatch-new" };
+      })),
+      update: jest.fn(async () => ({})),
+      updateMany: jest.fn(async () => ({ count: options.claimed ?? 1 })),
+    },
+    event: {
+      create: jest.fn(async (args: { data: Record<string, unknown> }) => {
+        calls.push("event");
+        return { id: "event-new", ...args.data };
+      }),
+      update: jest.fn(async () => ({})),
+    },
+    serviceRecord: {
+      create: jest.fn(async () => ({ id: "record-1" })),
+      update: jest.fn(async () => ({})),
+    },
+    billingRecord: {
+      findUnique: jest.fn(async () => null),
+      create: jest.fn(async () => ({ id: "invoice-1", amount: 85 })),
+    },
+    clientServiceContract: { update: jest.fn(async () => ({})) },
+  };
+  const prisma = {
+    snowStorm: { findUnique: jest.fn(async () => storm), update: jest.fn(async () => ({})) },
+    clientServiceContract: { findMany: jest.fn(async () => [contract]) },
+    participant: { findFirst: jest.fn(async () => ({ timezone: "America/Edmonton" })) },
+    serviceLine: { findUnique: jest.fn(async () => null) },
+    stormDispatch: {
+      findMany: jest.fn<Promise<unknown[]>, [unknown]>(async () => []),
+      findUnique: jest.fn(async () => ({ id: "dispatch-other", eventId: "event-other" })),
+      count: jest.fn(async () => 0),
+    },
+    event: { create: jest.fn() },
+    $transaction: jest.fn(async (work: (client: typeof tx) => Promise<unknown>) => work(tx)),
+  };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+  return { prisma, tx, calls };
+}
+
+describe("Snow Dispatch", () => {
+  beforeEach(() => jest.spyOn(console, "log").mockImplementation(() => undefined));
+  afterEach(() => jest.clearAllMocks());
+
+  describe("dispatchStorm", () => {
+    it("should create the dispatch before its event, in the service provider's zone", async () => {
+      const { tx, calls } = mockDatabase();
+
+      const result = await dispatchStorm("storm-1");
+
+      expect(calls).toEqual(["dispatch", "event"]);
+      expect(tx.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ startDateTime: "2026-01-12T07:00:00", timezone: "America/Edmonton" }),
+      });
+      expect(tx.stormDispatch.update).toHaveBeenCalledWith({ where: { id: "dispatch-new" }, data: { eventId: "event-new" } });
+      expect(result.visits[0]).toMatchObject({ dispatchId: "dispatch-new", eventId: "event-new", alreadyDispatched: false });
+    });
+
+    it("should leave a visit a concurrent run dispatched first without creating an event", async () => {
+      const { prisma, tx } = mockDatabase({ dispatchCreate: async () => Promise.reject(uniqueViolation()) });
+
+      const result = await dispatchStorm("storm-1");
+
+      expect(tx.event.create).not.toHaveBeenCalled();
+      expect(prisma.event.create).not.toHaveBeenCalled();
+      expect(result.visits[0]).toMatchObject({ dispatchId: "dispatch-other", eventId: "event-other", alreadyDispatched: true });
+    });
+  });
+
+  describe("completeStormVisits", () => {
+    it("should record and bill a visit in one transaction", async () => {
+      const { prisma, tx } = mockDatabase();
+      prisma.stormDispatch.findMany.mockResolvedValue([dispatch]);
+
+      const results = await completeStormVisits("storm-1", { completedAt: new Date("2026-01-12T18:00:00Z") });
+
+      expect(results).toEqual([
+        { dispatchId: "dispatch-1", status: "COMPLETED", serviceRecordId: "record-1", billingRecordId: "invoice-1", invoiceNumber: "WK-INV-2026-0001" },
+      ]);
+      expect(allocateDocumentNumber).toHaveBeenCalledWith("INV", { serviceLine: "white-knight", year: 2026, tx });
+      expect(tx.billingRecord.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ invoiceNumber: "WK-INV-2026-0001", scheduleKey: "contract-1:storm:storm-1:plow" }),
+      });
+      expect(logInvoiceCreated).toHaveBeenCalledWith(expect.objectContaining({ invoiceId: "invoice-1" }));
+    });
+
+    it("should leave a visit another completion claimed first", async () => {
+      const { prisma, tx } = mockDatabase({ claimed: 0 });
+      prisma.stormDispatch.findMany.mockResolvedValue([dispatch]);
+
+      const results = await completeStormVisits("storm-1");
+
+      expect(results).toEqual([]);
+      expect(tx.stormDispatch.updateMany).toHaveBeenCalledWith({
+        where: { id: "dispatch-1", status: "DISPATCHED" },
+        data: expect.objectContaining({ status: "COMPLETED" }),
+      });
+      expect(tx.serviceRecord.create).not.toHaveBeenCalled();
+      expect(allocateDocumentNumber).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,630 @@
+// src/lib/snow-dispatch.ts
+// Storm dispatch for White Knight - snow work follows the weather, not a calendar cadence.
+// A snowfall (entered by hand or imported from the weather feed) is checked against every
+// seasonal 'Snow Removal' and 'Salting/De-Icing' contract; the ones whose accumulation threshold
+// it meets become a prioritized dispatch list of calendar events. Completing a visit records a
+// ServiceRecord and, for contracts billed per visit, a draft invoice.
+import { Prisma, BillingRecord, ClientServiceContract, ParticipantRole, SnowStorm } from '@prisma/client';
+import { getPrismaClient } from './prisma';
+import { logInvoiceCreated } from './activity-logger';
+import { allocateDocumentNumber } from './document-numbering';
+import { formatAddress } from './geocoding';
+import { resolveTimeZone, toWallClock } from './timezone-utils';
+import { getWeatherFeed, type SnowfallReport } from './weather-feed';
+import { SnowDispatchConfig } from '../types/billing';
+
+export type SnowService = 'plow' | 'salt';
+
+export interface SnowStormInput {
+  startedAt: string | Date;
+  endedAt?: string | Date | null;
+  accumulationCm: number;
+  iceRisk?: boolean;
+  temperatureC?: number | null;
+  notes?: string | null;
+}
+
+export interface ContractTrigger {
+  contractId: string;
+  clientId: string;
+  clientName: string;
+  serviceName: string;
+  service: SnowService;
+  triggered: boolean;
+  reason: string; // Why it triggers - or why not
+  priority: number;
+  perVisitRate?: number;
+  visitMinutes: number;
+}
+
+export interface DispatchVisit {
+  dispatchId?: string; // Unset in a dry run
+  position: number;
+  contractId: string;
+  clientId: string;
+  clientName: string;
+  service: SnowService;
+  reason: string;
+  eventId?: string;
+  startDateTime: string; // Wall-clock in the business zone
+  endDateTime: string;
+  alreadyDispatched: boolean;
+}
+
+export interface StormDispatchResult {
+  stormId: string;
+  dryRun: boolean;
+  visits: DispatchVisit[];
+  notTriggered: ContractTrigger[];
+}
+
+export interface VisitCompletionResult {
+  dispatchId: string;
+  status: 'COMPLETED' | 'SKIPPED';
+  serviceRecordId?: string;
+  billingRecordId?: string;
+  invoiceNumber?: string;
+  billingSkipped?: string; // Why no invoice was created
+}
+
+export class SnowDispatchError extends Error {
+  constructor(
+    message: string,
+    public code: 'VALIDATION' | 'NOT_FOUND' | 'CONFLICT'
+  ) {
+    super(message);
+    this.name = 'SnowDispatchError';
+  }
+}
+
+const DEFAULT_PLOW_TRIGGER_CM = 5;
+const DEFAULT_SALT_TRIGGER_CM = 1;
+const DEFAULT_PRIORITY = 3;
+const COMMERCIAL_PRIORITY = 2; // Clients with a company - lots have to be open by business hours
+const DEFAULT_PLOW_MINUTES = 45;
+const DEFAULT_SALT_MINUTES = 20;
+const TRAVEL_MINUTES = 15; // Between visits until the route planner reorders the day
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SERVICE_LABELS: Record<SnowService, string> = {
+  plow: 'Snow Removal',
+  salt: 'Salting'
+};
+
+const SERVICE_RECORD_TYPES: Record<SnowService, 'SNOW_REMOVAL' | 'PREMIUM_SALTING'> = {
+  plow: 'SNOW_REMOVAL',
+  salt: 'PREMIUM_SALTING'
+};
+
+type ContractWithClient = ClientServiceContract & {
+  client: { id: string; name: string; company: string | null; address: Prisma.JsonValue | null };
+};
+
+function requirePrisma() {
+  const prisma = getPrismaClient();
+  if (!prisma) {
+    throw new Error('Database connection failed');
+  }
+  return prisma;
+}
+
+function asObject(value: Prisma.JsonValue | null): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function snowConfig(contract: ClientServiceContract): SnowDispatchConfig {
+  return (asObject(contract.billingDetails).snow || {}) as SnowDispatchConfig;
+}
+
+function toDate(value: string | Date, field: string): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) throw new SnowDispatchError(`${field} must be a valid date`, 'VALIDATION');
+  return date;
+}
+
+function formatStormDate(storm: Pick<SnowStorm, 'startedAt'>, timeZone: string): string {
+  return storm.startedAt.toLocaleDateString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone
+  });
+}
+
+// The crews work in the service provider's zone
+async function getBusinessTimeZone(): Promise<string> {
+  const organizer = await requirePrisma().participant.findFirst({
+    where: { role: ParticipantRole.SERVICE_PROVIDER },
+    orderBy: { createdAt: 'asc' },
+    select: { timezone: true }
+  });
+  return resolveTimeZone(organizer?.timezone);
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+// Which storm services a contract covers. Snow Removal contracts include salting when the
+// config says so or salting is in their service list (e.g. "Premium Salting").
+function contractServices(contract: ClientServiceContract): SnowService[] {
+  const category = contract.serviceCategory.toLowerCase();
+  const config = snowConfig(contract);
+  const services: SnowService[] = [];
+
+  if (category.includes('snow')) {
+    services.push('plow');
+    const listed = [
+      ...(Array.isArray(asObject(contract.billingDetails).serviceTypes) ? asObject(contract.billingDetails).serviceTypes as unknown[] : []),
+      ...(Array.isArray(asObject(contract.seasonalInfo).services) ? asObject(contract.seasonalInfo).services as unknown[] : [])
+    ];
+    const includesSalting = config.salting ??
+      listed.some(service => typeof service === 'string' && /salt|de-?ic/i.test(service));
+    if (includesSalting) services.push('salt');
+  } else if (/salt|de-?ic|ice/.test(category)) {
+    services.push('salt');
+  }
+  return services;
+}
+
+/**
+ * Work out whether a storm triggers one service of a contract. Plowing needs the accumulation
+ * to reach the contract's trigger (5 cm by default); salting triggers at 1 cm, or on ice risk
+ * regardless of snow.
+ */
+export function evaluateContractTrigger(
+  contract: ContractWithClient,
+  service: SnowService,
+  storm: Pick<SnowStorm, 'accumulationCm' | 'iceRisk'>
+): ContractTrigger {
+  const config = snowConfig(contract);
+  const base = {
+    contractId: contract.id,
+    clientId: contract.clientId,
+    clientName: contract.client.name,
+    serviceName: contract.serviceName,
+    service,
+    priority: config.priority ?? (contract.client.company ? COMMERCIAL_PRIORITY : DEFAULT_PRIORITY),
+    perVisitRate: service === 'salt' ? config.saltPerVisitRate ?? config.perVisitRate : config.perVisitRate,
+    visitMinutes: service === 'plow' ? config.visitMinutes ?? DEFAULT_PLOW_MINUTES : DEFAULT_SALT_MINUTES
+  };
+
+  if (service === 'plow') {
+    const trigger = config.triggerCm ?? DEFAULT_PLOW_TRIGGER_CM;
+    return storm.accumulationCm >= trigger
+      ? { ...base, triggered: true, reason: `${storm.accumulationCm} cm ≥ ${trigger} cm trigger` }
+      : { ...base, triggered: false, reason: `${storm.accumulationCm} cm is below the ${trigger} cm trigger` };
+  }
+
+  const trigger = config.saltTriggerCm ?? DEFAULT_SALT_TRIGGER_CM;
+  if (storm.iceRisk) return { ...base, triggered: true, reason: 'Ice risk' };
+  return storm.accumulationCm >= trigger
+    ? { ...base, triggered: true, reason: `${storm.accumulationCm} cm ≥ ${trigger} cm salting trigger` }
+    : { ...base, triggered: false, reason: `${storm.accumulationCm} cm is below the ${trigger} cm salting trigger and no ice risk` };
+}
+
+// Active snow and salting contracts whose season covers the storm
+async function findSeasonContracts(storm: SnowStorm): Promise<ContractWithClient[]> {
+  const prisma = requirePrisma();
+  const contracts = await prisma.clientServiceContract.findMany({
+    where: {
+      isActive: true,
+      status: { in: ['ONGOING', 'SCHEDULED'] },
+      AND: [
+        { OR: [{ startDate: null }, { startDate: { lte: storm.startedAt } }] },
+        // End dates are stored as the last day of the season - the whole day counts
+        { OR: [{ endDate: null }, { endDate: { gte: new Date(storm.startedAt.getTime() - DAY_MS) } }] }
+      ]
+    },
+    include: { client: { select: { id: true, name: true, company: true, address: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+  return contracts.filter(contract => contractServices(contract).length > 0);
+}
+
+/**
+ * Every snow contract's services checked against a storm, triggered ones in dispatch order:
+ * priority tier, plowing before salting, then client name
+ */
+export async function evaluateStorm(stormId: string): Promise<{ storm: SnowStorm; triggers: ContractTrigger[] }> {
+  const storm = await getStorm(stormId);
+  const contracts = await findSeasonContracts(storm);
+
+  const triggers = contracts
+    .flatMap(contract => contractServices(contract).map(service => evaluateContractTrigger(contract, service, storm)))
+    .sort((a, b) =>
+      Number(b.triggered) - Number(a.triggered) ||
+      a.priority - b.priority ||
+      (a.service === b.service ? 0 : a.service === 'plow' ? -1 : 1) ||
+      a.clientName.localeCompare(b.clientName)
+    );
+  return { storm, triggers };
+}
+
+async function getStorm(stormId: string): Promise<SnowStorm> {
+  const storm = await requirePrisma().snowStorm.findUnique({ where: { id: stormId } });
+  if (!storm) throw new SnowDispatchError('Storm not found', 'NOT_FOUND');
+  return storm;
+}
+
+export async function createSnowStorm(input: SnowStormInput): Promise<SnowStorm> {
+  if (typeof input.accumulationCm !== 'number' || !Number.isFinite(input.accumulationCm) || input.accumulationCm < 0) {
+    throw new SnowDispatchError('accumulationCm must be a number of centimetres', 'VALIDATION');
+  }
+  const startedAt = toDate(input.startedAt, 'startedAt');
+  const endedAt = input.endedAt ? toDate(input.endedAt, 'endedAt') : null;
+  if (endedAt && endedAt < startedAt) {
+    throw new SnowDispatchError('The storm must end after it starts', 'VALIDATION');
+  }
+
+  return requirePrisma().snowStorm.create({
+    data: {
+      startedAt,
+      endedAt,
+      accumulationCm: input.accumulationCm,
+      iceRisk: input.iceRisk === true,
+      temperatureC: input.temperatureC ?? null,
+      notes: input.notes || null
+    }
+  });
+}
+
+/**
+ * Import snowfall from the weather feed. Reports seen before update their storm - a storm that
+ * has been dispatched keeps its accumulation, so the dispatch list stays explainable.
+ */
+export async function importSnowfall(from: Date, to: Date): Promise<{ source: string; imported: SnowStorm[] }> {
+  const prisma = requirePrisma();
+  const feed = getWeatherFeed();
+  const reports = await feed.getSnowfall(from, to);
+  const imported: SnowStorm[] = [];
+
+  for (const report of reports) {
+    const data = stormDataFromReport(report);
+    const existing = await prisma.snowStorm.findUnique({
+      where: { source_externalId: { source: feed.name, externalId: report.externalId } }
+    });
+
+    if (existing && existing.status !== 'OPEN') {
+      imported.push(existing);
+      continue;
+    }
+    imported.push(existing
+      ? await prisma.snowStorm.update({ where: { id: existing.id }, data })
+      : await prisma.snowStorm.create({ data: { ...data, source: feed.name, externalId: report.externalId } }));
+  }
+
+  return { source: feed.name, imported };
+}
+
+function stormDataFromReport(report: SnowfallReport) {
+  return {
+    startedAt: new Date(report.startedAt),
+    endedAt: report.endedAt ? new Date(report.endedAt) : null,
+    accumulationCm: report.accumulationCm,
+    iceRisk: report.iceRisk,
+    temperatureC: report.temperatureC ?? null,
+    notes: report.description || null
+  };
+}
+
+export async function listSnowStorms(options: { limit?: number } = {}) {
+  return requirePrisma().snowStorm.findMany({
+    orderBy: { startedAt: 'desc' },
+    take: options.limit ?? 50,
+    include: { _count: { select: { dispatches: true } } }
+  });
+}
+
+export async function getStormWithDispatches(stormId: string) {
+  const storm = await requirePrisma().snowStorm.findUnique({
+    where: { id: stormId },
+    include: {
+      dispatches: {
+        orderBy: { position: 'asc' },
+        include: {
+          contract: { select: { serviceName: true, client: { select: { name: true } } } },
+          event: { select: { id: true, startDateTime: true, endDateTime: true, status: true } },
+          billingRecord: { select: { id: true, invoiceNumber: true, amount: true, status: true } }
+        }
+      }
+    }
+  });
+  if (!storm) throw new SnowDispatchError('Storm not found', 'NOT_FOUND');
+  return storm;
+}
+
+/**
+ * Create the dispatch list: one urgent calendar event per triggered visit, in priority order,
+ * back to back from when the snow stops (or startAt). Contracts already dispatched for the
+ * storm keep their event, so running it again only adds what's new.
+ */
+export async function dispatchStorm(
+  stormId: string,
+  options: { dryRun?: boolean; startAt?: Date } = {}
+): Promise<StormDispatchResult> {
+  const prisma = requirePrisma();
+  const dryRun = options.dryRun === true;
+  const { storm, triggers } = await evaluateStorm(stormId);
+  if (storm.status === 'COMPLETED') throw new SnowDispatchError('This storm has been completed', 'CONFLICT');
+
+  const triggered = triggers.filter(trigger => trigger.triggered);
+  const existing = await prisma.stormDispatch.findMany({ where: { stormId } });
+  const existingByKey = new Map(existing.map(dispatch => [`${dispatch.contractId}:${dispatch.service}`, dispatch]));
+  const contracts = await prisma.clientServiceContract.findMany({
+    where: { id: { in: triggered.map(trigger => trigger.contractId) } },
+    include: { client: { select: { name: true, address: true } } }
+  });
+  const contractsById = new Map(contracts.map(contract => [contract.id, contract]));
+  const timeZone = await getBusinessTimeZone();
+
+  let cursor = (options.startAt || storm.endedAt || storm.startedAt).getTime();
+  const visits: DispatchVisit[] = [];
+
+  for (const [index, trigger] of triggered.entries()) {
+    const position = index + 1;
+    const previous = existingByKey.get(`${trigger.contractId}:${trigger.service}`);
+    const start = new Date(cursor);
+    const end = new Date(cursor + trigger.visitMinutes * 60000);
+    cursor = end.getTime() + TRAVEL_MINUTES * 60000;
+
+    const visit: DispatchVisit = {
+      dispatchId: previous?.id,
+      position,
+      contractId: trigger.contractId,
+      clientId: trigger.clientId,
+      clientName: trigger.clientName,
+      service: trigger.service,
+      reason: trigger.reason,
+      eventId: previous?.eventId || undefined,
+      startDateTime: toWallClock(start.toISOString(), timeZone),
+      endDateTime: toWallClock(end.toISOString(), timeZone),
+      alreadyDispatched: !!previous
+    };
+    visits.push(visit);
+    if (dryRun || previous) continue;
+
+    const contract = contractsById.get(trigger.contractId)!;
+    try {
+      const { dispatch, event } = await prisma.$transaction(async (tx) => {
+        // The dispatch first - it's unique per storm, contract and service, so a concurrent run
+        // stops here instead of leaving a second event behind
+        const dispatch = await tx.stormDispatch.create({
+          data: {
+            stormId,
+            contractId: trigger.contractId,
+            clientId: trigger.clientId,
+            service: trigger.service,
+            position,
+            reason: trigger.reason
+          }
+        });
+        const event = await tx.event.create({
+          data: {
+            type: 'EVENT',
+            title: `${SERVICE_LABELS[trigger.service]} - ${trigger.clientName}`,
+            description: `Storm of ${formatStormDate(storm, timeZone)} (${storm.accumulationCm} cm${storm.iceRisk ? ', ice risk' : ''}): ${trigger.reason}`,
+            startDateTime: visit.startDateTime,
+            endDateTime: visit.endDateTime,
+            timezone: timeZone,
+            duration: trigger.visitMinutes,
+            priority: trigger.priority === 1 ? 'URGENT' : 'HIGH',
+            clientId: trigger.clientId,
+            clientName: trigger.clientName,
+            location: formatAddress(contract.client.address),
+            status: 'scheduled',
+            service: trigger.service === 'plow' ? 'snow_removal' : 'salting'
+          }
+        });
+        await tx.stormDispatch.update({ where: { id: dispatch.id }, data: { eventId: event.id } });
+        return { dispatch, event };
+      });
+      visit.dispatchId = dispatch.id;
+      visit.eventId = event.id;
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      const current = await prisma.stormDispatch.findUnique({
+        where: { stormId_contractId_service: { stormId, contractId: trigger.contractId, service: trigger.service } }
+      });
+      visit.dispatchId = current?.id;
+      visit.eventId = current?.eventId || undefined;
+      visit.alreadyDispatched = true;
+    }
+  }
+
+  if (!dryRun && visits.length > 0 && storm.status === 'OPEN') {
+    await prisma.snowStorm.update({
+      where: { id: stormId },
+      data: { status: 'DISPATCHED', dispatchedAt: new Date() }
+    });
+  }
+
+  return {
+    stormId,
+    dryRun,
+    visits,
+    notTriggered: triggers.filter(trigger => !trigger.triggered)
+  };
+}
+
+/**
+ * Mark dispatched visits done: each gets a ServiceRecord, its event is completed and, when the
+ * contract is billed per visit, a draft invoice is created. Seasonal flat-fee contracts are
+ * billed by the billing schedule instead. Skipped visits just close their event.
+ */
+export async function completeStormVisits(
+  stormId: string,
+  options: { dispatchIds?: string[]; skip?: boolean; completedAt?: Date; notes?: string } = {}
+): Promise<VisitCompletionResult[]> {
+  const prisma = requirePrisma();
+  const storm = await getStorm(stormId);
+  const completedAt = options.completedAt || new Date();
+
+  const dispatches = await prisma.stormDispatch.findMany({
+    where: {
+      stormId,
+      status: 'DISPATCHED',
+      ...(options.dispatchIds && { id: { in: options.dispatchIds } })
+    },
+    include: { contract: { include: { client: { select: { name: true } } } } },
+    orderBy: { position: 'asc' }
+  });
+
+  const timeZone = await getBusinessTimeZone();
+  const results: VisitCompletionResult[] = [];
+  for (const dispatch of dispatches) {
+    const service = dispatch.service as SnowService;
+    const { contract } = dispatch;
+    const config = snowConfig(contract);
+    const rate = service === 'salt' ? config.saltPerVisitRate ?? config.perVisitRate : config.perVisitRate;
+    const serviceLineId = options.skip ? undefined : contract.serviceLineId ||
+      (await prisma.serviceLine.findUnique({ where: { slug: contract.serviceId }, select: { id: true } }))?.id;
+
+    // Each visit is recorded in one transaction, so a failure part way doesn't leave it half done
+    const completion = await prisma.$transaction(async (tx) => {
+      // Claim the visit - a concurrent completion of the same visit finds it taken and leaves it
+      const claimed = await tx.stormDispatch.updateMany({
+        where: { id: dispatch.id, status: 'DISPATCHED' },
+        data: { status: options.skip ? 'SKIPPED' : 'COMPLETED', completedAt }
+      });
+      if (claimed.count === 0) return null;
+
+      if (options.skip) {
+        if (dispatch.eventId) {
+          await tx.event.update({ where: { id: dispatch.eventId }, data: { status: 'cancelled' } });
+        }
+        return { result: { dispatchId: dispatch.id, status: 'SKIPPED' } as VisitCompletionResult };
+      }
+
+      const serviceRecord = await tx.serviceRecord.create({
+        data: {
+          clientId: contract.clientId,
+          serviceLineId,
+          serviceDate: completedAt,
+          serviceType: SERVICE_RECORD_TYPES[service],
+          serviceArea: asObject(contract.seasonalInfo).coverage ? String(asObject(contract.seasonalInfo).coverage) : undefined,
+          completionStatus: 'COMPLETED',
+          notes: [`Storm of ${formatStormDate(storm, timeZone)}: ${dispatch.reason}`, options.notes].filter(Boolean).join('\n'),
+          amount: rate,
+          billingAmount: rate
+        }
+      });
+
+      const result: VisitCompletionResult = { dispatchId: dispatch.id, status: 'COMPLETED', serviceRecordId: serviceRecord.id };
+      let invoice: BillingRecord | undefined;
+      if (!rate) {
+        result.billingSkipped = 'Covered by the seasonal contract';
+      } else if (!serviceLineId) {
+        result.billingSkipped = `No service line found for ${contract.serviceId}`;
+      } else {
+        const billing = await billVisit(tx, {
+          storm,
+          dispatchId: dispatch.id,
+          contract,
+          service,
+          rate,
+          serviceLineId,
+          serviceRecordId: serviceRecord.id,
+          completedAt,
+          timeZone
+        });
+        Object.assign(result, billing.result);
+        invoice = billing.created;
+        await tx.serviceRecord.update({
+          where: { id: serviceRecord.id },
+          data: { billingStatus: 'BILLED', billingDate: completedAt }
+        });
+      }
+
+      await tx.stormDispatch.update({
+        where: { id: dispatch.id },
+        data: { serviceRecordId: serviceRecord.id, billingRecordId: result.billingRecordId }
+      });
+      if (dispatch.eventId) {
+        await tx.event.update({ where: { id: dispatch.eventId }, data: { status: 'completed' } });
+      }
+      if (!contract.lastCompleted || contract.lastCompleted < completedAt) {
+        await tx.clientServiceContract.update({ where: { id: contract.id }, data: { lastCompleted: completedAt } });
+      }
+      return { result, invoice };
+    });
+
+    if (!completion) continue;
+    if (completion.invoice) {
+      await logInvoiceCreated({
+        invoiceId: completion.invoice.id,
+        clientId: contract.clientId,
+        clientName: contract.client.name,
+        amount: completion.invoice.amount
+      });
+    }
+    results.push(completion.result);
+  }
+
+  const open = await prisma.stormDispatch.count({ where: { stormId, status: 'DISPATCHED' } });
+  if (open === 0 && results.length > 0) {
+    await prisma.snowStorm.update({ where: { id: stormId }, data: { status: 'COMPLETED' } });
+  }
+
+  return results;
+}
+
+// Draft invoice for one visit - keyed to the storm, so a visit is never billed twice. The number
+// is allocated in the visit's transaction, so a visit that fails gives it back.
+async function billVisit(
+  tx: Prisma.TransactionClient,
+  visit: {
+    storm: SnowStorm;
+    dispatchId: string;
+    contract: ClientServiceContract;
+    service: SnowService;
+    rate: number;
+    serviceLineId: string;
+    serviceRecordId: string;
+    completedAt: Date;
+    timeZone: string;
+  }
+): Promise<{ result: Pick<VisitCompletionResult, 'billingRecordId' | 'invoiceNumber' | 'billingSkipped'>; created?: BillingRecord }> {
+  const { storm, contract, service, rate, completedAt } = visit;
+  const scheduleKey = `${contract.id}:storm:${storm.id}:${service}`;
+  const existing = await tx.billingRecord.findUnique({ where: { scheduleKey } });
+  if (existing) {
+    return { result: { billingRecordId: existing.id, invoiceNumber: existing.invoiceNumber || undefined, billingSkipped: 'Already invoiced' } };
+  }
+
+  const paymentTermsDays = (asObject(contract.billingDetails).schedule as { paymentTermsDays?: number } | undefined)?.paymentTermsDays ??
+    DEFAULT_PAYMENT_TERMS_DAYS;
+  const invoiceNumber = await allocateDocumentNumber('INV', {
+    serviceLine: contract.serviceId,
+    year: completedAt.getUTCFullYear(),
+    tx
+  });
+  const billingPeriod = `Storm of ${formatStormDate(storm, visit.timeZone)}`;
+
+  const record = await tx.billingRecord.create({
+    data: {
+      clientId: contract.clientId,
+      serviceLineId: visit.serviceLineId,
+      serviceRecordId: visit.serviceRecordId,
+      contractId: contract.id,
+      invoiceNumber,
+      amount: rate,
+      billingPeriod,
+      billingDate: completedAt,
+      dueDate: new Date(completedAt.getTime() + paymentTermsDays * DAY_MS),
+      status: 'DRAFT',
+      description: `${contract.serviceName} - ${SERVICE_LABELS[service]} visit, ${billingPeriod}`,
+      scheduleKey,
+      metadata: {
+        source: 'snow_dispatch',
+        stormId: storm.id,
+        dispatchId: visit.dispatchId,
+        service,
+        accumulationCm: storm.accumulationCm
+      }
+    }
+  });
+
+  return { result: { billingRecordId: record.id, invoiceNumber }, created: record };
+}
@@ -0,0 +1,337 @@
+/**
+ * Sync Journal
+ * Each sync of an integration is recorded as a SyncRun with one entry per create, update or
+ * delete it made - pulled into a local event, or pushed to an external calendar - with the
+ * before/after payloads and any error. A dry run goes through the same steps but writes
+ * nothing, so its entries are the changes a real sync would make. A run's local changes can
+ * be rolled back.
+ *
+ * Runs are stored once they record a change (manual and dry runs always), so the frequent
+ * webhook pulls that find nothing new don't fill the table.
+ */
+
+import { Prisma } from '@prisma/client'
+import type { SyncJournalAction, SyncJournalDirection, SyncRunStatus } from '@prisma/client'
+import { getPrismaClient } from '@/lib/prisma'
+import { toSyncSnapshot } from '@/lib/sync-merge'
+
+export type SyncTrigger = 'manual' | 'webhook' | 'queue' | 'poll' | 'push'
+
+export interface SyncJournalChange {
+  integrationId: string
+  direction: SyncJournalDirection
+  action: SyncJournalAction
+  eventId?: string | null
+  externalId?: string | null
+  title?: string | null
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+  error?: string
+  applied: boolean
+}
+
+export interface SyncRunSummary {
+  id: string | null // Null when nothing was stored (an automatic run that changed nothing)
+  dryRun: boolean
+  status: SyncRunStatus
+  error?: string
+  created: number
+  updated: number
+  deleted: number
+  failed: number
+  changes: SyncJournalChange[]
+}
+
+export interface SyncRollbackResult {
+  status: SyncRunStatus // PARTIALLY_ROLLED_BACK when entries were skipped - rolling back again retries them
+  restored: number // Updates undone
+  removed: number // Pulled-in events deleted again
+  recreated: number // Deleted events put back
+  skipped: { entryId: string; eventId: string | null; reason: string }[]
+}
+
+// Event columns a pull writes - what entries record and what a rollback restores
+const JOURNALED_EVENT_COLUMNS = [
+  'title',
+  'description',
+  'startDateTime',
+  'endDateTime',
+  'timezone',
+  'duration',
+  'location',
+  'isAllDay',
+  'status',
+  'participants',
+  'isRecurring',
+  'recurrence',
+  'type',
+  'service',
+  'parentEventId',
+  'originalStartDateTime'
+] as const
+
+const JSON_EVENT_COLUMNS = ['participants', 'recurrence', 'notifications', 'dependencies']
+
+/** An event row or UnifiedEvent - whichever of the journaled columns it has */
+type JournaledEvent = Partial<Record<(typeof JOURNALED_EVENT_COLUMNS)[number], unknown>> & { id?: string; title?: string }
+
+/**
+ * The journaled columns of an event row (or UnifiedEvent), as plain JSON
+ */
+export function journalSnapshot(event: JournaledEvent | null | undefined): Record<string, unknown> | null {
+  if (!event) return null
+
+  const snapshot: Record<string, unknown> = {}
+  for (const column of JOURNALED_EVENT_COLUMNS) {
+    if (event[column] === undefined) continue
+    snapshot[column] = event[column] === Prisma.DbNull || event[column] === Prisma.JsonNull ? null : event[column]
+  }
+  return toJson(snapshot)
+}
+
+function toJson(value: unknown): Record<string, unknown> | null {
+  return value == null ? null : JSON.parse(JSON.stringify(value))
+}
+
+function sameSnapshot(a: Record<string, unknown> | null, b: Record<string, unknown> | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Event columns from a journaled payload, ready for Prisma - JSON columns need DbNull for null
+ */
+function toEventData(payload: Prisma.JsonValue): Record<string, unknown> {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return {}
+  return Object.fromEntries(Object.entries(payload).map(([column, value]) =>
+    [column, value === null && JSON_EVENT_COLUMNS.includes(column) ? Prisma.DbNull : value]
+  ))
+}
+
+export class SyncJournal {
+  private runId: string | null = null
+  private readonly changes: SyncJournalChange[] = []
+  private error: string | undefined
+
+  constructor(
+    readonly integrationId: string,
+    private readonly options: { trigger: SyncTrigger; dryRun?: boolean; keepEmpty?: boolean }
+  ) {}
+
+  get dryRun(): boolean {
+    return !!this.options.dryRun
+  }
+
+  /**
+   * Journal a local event write from a pull. An update that changed none of the journaled
+   * columns isn't a change and isn't recorded.
+   */
+  async recordLocalChange(change: {
+    integrationId: string
+    action: SyncJournalAction
+    externalId: string
+    before: JournaledEvent | null
+    after: JournaledEvent | null
+  }): Promise<void> {
+    const before = change.action === 'DELETE' ? toJson(change.before) : journalSnapshot(change.before)
+    const after = journalSnapshot(change.after)
+    if (change.action === 'UPDATE' && sameSnapshot(before, after)) return
+
+    await this.record({
+      integrationId: change.integrationId,
+      direction: 'PULL',
+      action: change.action,
+      eventId: change.after?.id ?? change.before?.id,
+      externalId: change.externalId,
+      title: change.after?.title ?? change.before?.title,
+      before,
+      after,
+      applied: !this.dryRun
+    })
+  }
+
+  async record(change: SyncJournalChange): Promise<void> {
+    this.changes.push(change)
+
+    const prisma = getPrismaClient()
+    const runId = await this.ensureRun()
+    if (!prisma || !runId) return
+
+    try {
+      await prisma.syncJournalEntry.create({
+        data: {
+          runId,
+          integrationId: change.integrationId,
+          direction: change.direction,
+          action: change.action,
+          eventId: change.eventId,
+          externalId: change.externalId,
+          title: change.title,
+          before: (change.before ?? Prisma.DbNull) as Prisma.InputJsonValue,
+          after: (change.after ?? Prisma.DbNull) as Prisma.InputJsonValue,
+          error: change.error,
+          applied: change.applied,
+          // The app's clock, like the event's updatedAt a rollback compares it with
+          createdAt: new Date()
+        }
+      })
+    } catch (error) {
+      console.error('📅 [SyncJournal] Error recording change:', error)
+    }
+  }
+
+  /**
+   * Mark the run failed - the sync itself stopped on an error
+   */
+  fail(error: unknown): void {
+    this.error = error instanceof Error ? error.message : String(error)
+  }
+
+  async finish(error?: unknown): Promise<SyncRunSummary> {
+    if (error !== undefined) this.fail(error)
+
+    const status: SyncRunStatus = this.error ? 'FAILED' : 'COMPLETED'
+    const prisma = getPrismaClient()
+    const runId = this.options.keepEmpty || this.changes.length > 0 ? await this.ensureRun() : null
+
+    if (prisma && runId) {
+      try {
+        await prisma.syncRun.update({
+          where: { id: runId },
+          data: { status, error: this.error, finishedAt: new Date() }
+        })
+      } catch (updateError) {
+        console.error('📅 [SyncJournal] Error finishing run:', updateError)
+      }
+    }
+
+    const count = (action: SyncJournalAction) => this.changes.filter(change => change.action === action && !change.error).length
+    return {
+      id: runId,
+      dryRun: this.dryRun,
+      status,
+      error: this.error,
+      created: count('CREATE'),
+      updated: count('UPDATE'),
+      deleted: count('DELETE'),
+      failed: this.changes.filter(change => change.error).length,
+      changes: this.changes
+    }
+  }
+
+  private async ensureRun(): Promise<string | null> {
+    if (this.runId) return this.runId
+
+    const prisma = getPrismaClient()
+    if (!prisma) return null
+
+    try {
+      const run = await prisma.syncRun.create({
+        data: {
+          integrationId: this.integrationId,
+          trigger: this.options.trigger,
+          dryRun: this.dryRun
+        }
+      })
+      this.runId = run.id
+    } catch (error) {
+      console.error('📅 [SyncJournal] Error starting run:', error)
+    }
+    return this.runId
+  }
+}
+
+/**
+ * Undo the local changes of a run: updated events get their journaled columns back, events it
+ * pulled in are deleted and events it deleted are recreated. Nothing is sent to the external
+ * calendars - a restored event's sync baseline is moved to the restored values, so the next sync
+ * doesn't read them as a local edit and push them. Events edited since the run are left alone
+ * and reported as skipped.
+ */
+export async function rollbackSyncRun(runId: string): Promise<SyncRollbackResult> {
+  const prisma = getPrismaClient()
+  if (!prisma) throw new Error('Database not available')
+
+  const run = await prisma.syncRun.findUnique({
+    where: { id: runId },
+    include: {
+      entries: {
+        where: { direction: 'PULL', applied: true, rolledBackAt: null },
+        orderBy: { createdAt: 'desc' }
+      }
+    }
+  })
+  if (!run) throw new Error('Sync run not found')
+  if (run.dryRun) throw new Error('A dry run changed nothing to roll back')
+
+  const result: SyncRollbackResult = { status: run.status, restored: 0, removed: 0, recreated: 0, skipped: [] }
+  // Events this rollback already touched - their updatedAt is ours, not a later edit
+  const touched = new Set<string>()
+
+  // Newest first, so an event changed twice ends up as it was before the first change
+  for (const entry of run.entries) {
+    const skip = (reason: string) => result.skipped.push({ entryId: entry.id, eventId: entry.eventId, reason })
+    if (!entry.eventId) {
+      skip('No event recorded')
+      continue
+    }
+
+    try {
+      const current = await prisma.event.findUnique({ where: { id: entry.eventId } })
+      if (current && !touched.has(current.id) && current.updatedAt > entry.createdAt) {
+        skip('Edited since the sync')
+        continue
+      }
+
+      if (entry.action === 'CREATE') {
+        if (current) {
+          await prisma.event.delete({ where: { id: current.id } })
+          result.removed++
+        }
+      } else if (entry.action === 'UPDATE') {
+        if (!current) {
+          skip('Deleted since the sync')
+          continue
+        }
+        const restored = await prisma.event.update({
+          where: { id: current.id },
+          data: toEventData(entry.before) as Prisma.EventUncheckedUpdateInput
+        })
+        // Written after the event, so lastSyncAt isn't behind its new updatedAt
+        await prisma.eventSync.updateMany({
+          where: { eventId: current.id, integrationId: run.integrationId },
+          data: { lastSyncAt: new Date(), baseSnapshot: { ...toSyncSnapshot(restored) }, conflictData: Prisma.DbNull }
+        })
+        result.restored++
+      } else {
+        if (current) {
+          skip('Exists again')
+          continue
+        }
+        await prisma.event.create({
+          data: toEventData(entry.before) as Prisma.EventUncheckedCreateInput
+        })
+        result.recreated++
+      }
+
+      touched.add(entry.eventId)
+      await prisma.syncJournalEntry.update({
+        where: { id: entry.id },
+        data: { rolledBackAt: new Date() }
+      })
+    } catch (error) {
+      console.error('📅 [SyncJournal] Error rolling back entry:', entry.id, error)
+      skip(error instanceof Error ? error.message : 'Rollback failed')
+    }
+  }
+
+  // A run where nothing could be undone keeps its status
+  if (result.restored + result.removed + result.recreated > 0) {
+    result.status = result.skipped.length > 0 ? 'PARTIALLY_ROLLED_BACK' : 'ROLLED_BACK'
+    await prisma.syncRun.update({
+      where: { id: runId },
+      data: { status: result.status, rolledBackAt: new Date() }
+    })
+  }
+
+  return result
+}
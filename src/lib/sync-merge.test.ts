@@ -0,0 +1,136 @@
+// src/lib/sync-merge.test.ts
+
+import {
+  applyPicks,
+  matchesRemote,
+  SyncSnapshot,
+  threeWayMerge,
+  toSyncSnapshot,
+} from "./sync-merge";
+
+const base: SyncSnapshot = {
+  title: "Lawn care - Smith",
+  description: "Front and back yard",
+  startDateTime: "2026-06-01T09:00:00",
+  endDateTime: "2026-06-01T10:00:00",
+  timezone: "America/Toronto",
+  location: "12 Main St",
+  isAllDay: false,
+  status: "scheduled",
+  participants: ["smith@example.com"],
+};
+
+describe("Sync Merge", () => {
+  describe("threeWayMerge", () => {
+    it("should take a remote title and keep a local reschedule", () => {
+      const local = { ...base, startDateTime: "2026-06-01T11:00:00", endDateTime: "2026-06-01T12:00:00" };
+      const remote = { ...base, title: "Lawn care - Smith (gate code 1234)" };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.collisions).toEqual([]);
+      expect(result.merged).toMatchObject({
+        title: "Lawn care - Smith (gate code 1234)",
+        startDateTime: "2026-06-01T11:00:00",
+        endDateTime: "2026-06-01T12:00:00",
+      });
+      expect(result.localChanges).toMatchObject({ startDateTime: "2026-06-01T11:00:00" });
+      expect(result.remoteChanges).toMatchObject({ title: "Lawn care - Smith (gate code 1234)" });
+    });
+
+    it("should report a collision when both sides change the same field", () => {
+      const local = { ...base, title: "Lawn care - J. Smith" };
+      const remote = { ...base, title: "Lawn care - Jane Smith" };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.collisions).toHaveLength(1);
+      expect(result.collisions[0]).toEqual({
+        field: "title",
+        base: { title: "Lawn care - Smith" },
+        local: { title: "Lawn care - J. Smith" },
+        remote: { title: "Lawn care - Jane Smith" },
+      });
+      // Local value is kept until the user picks
+      expect(result.merged.title).toBe("Lawn care - J. Smith");
+    });
+
+    it("should treat start, end and all-day as one field", () => {
+      const local = { ...base, startDateTime: "2026-06-01T11:00:00", endDateTime: "2026-06-01T12:00:00" };
+      const remote = { ...base, endDateTime: "2026-06-01T10:30:00" };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.collisions.map(collision => collision.field)).toEqual(["time"]);
+      expect(result.merged).toMatchObject({ startDateTime: "2026-06-01T11:00:00", endDateTime: "2026-06-01T12:00:00" });
+    });
+
+    it("should not treat the same change on both sides as a collision", () => {
+      const local = { ...base, location: "14 Main St" };
+      const remote = { ...base, location: "14 Main St" };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.collisions).toEqual([]);
+      expect(result.merged.location).toBe("14 Main St");
+    });
+
+    it("should compare times as instants and attendees in any order", () => {
+      const local = { ...base, participants: ["smith@example.com", "crew@example.com"] };
+      const remote = {
+        ...base,
+        // Same instants written in UTC
+        startDateTime: "2026-06-01T13:00:00Z",
+        endDateTime: "2026-06-01T14:00:00Z",
+        timezone: "UTC",
+        participants: ["CREW@example.com", "smith@example.com"],
+      };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.collisions).toEqual([]);
+      expect(result.remoteChanges).toEqual({});
+    });
+
+    it("should only merge fields the remote side carries", () => {
+      const local = { ...base, location: "14 Main St" };
+      const remote = { title: base.title, startDateTime: base.startDateTime, endDateTime: base.endDateTime, isAllDay: false };
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.merged.location).toBeUndefined();
+      expect(result.collisions).toEqual([]);
+    });
+
+    it("should report every disagreement as a collision without a base snapshot", () => {
+      const local = { ...base, title: "Lawn care - J. Smith" };
+      const remote = { ...base, description: "Back yard only" };
+
+      const result = threeWayMerge(null, local, remote);
+
+      expect(result.collisions.map(collision => collision.field).sort()).toEqual(["description", "title"]);
+      expect(result.collisions[0].base).toBeUndefined();
+    });
+  });
+
+  describe("applyPicks", () => {
+    it("should apply the remote pick and keep local values for unpicked collisions", () => {
+      const local = { ...base, title: "Local title", description: "Local notes" };
+      const remote = { ...base, title: "Remote title", description: "Remote notes" };
+
+      const resolved = applyPicks(threeWayMerge(base, local, remote), { title: "remote" });
+
+      expect(resolved.title).toBe("Remote title");
+      expect(resolved.description).toBe("Local notes");
+    });
+  });
+
+  describe("matchesRemote", () => {
+    it("should ignore line endings and fields the remote doesn't carry", () => {
+      const values = toSyncSnapshot({ ...base, description: "Line one\r\nLine two" });
+
+      expect(matchesRemote(values, { description: "Line one\nLine two", title: base.title })).toBe(true);
+      expect(matchesRemote(values, { title: "Something else" })).toBe(false);
+    });
+  });
+});
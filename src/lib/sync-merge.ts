@@ -0,0 +1,202 @@
+/**
+ * Three-way merge for calendar sync conflicts
+ * Compares the local event and the remote copy against the snapshot taken at the last sync
+ * (EventSync.baseSnapshot). A field changed on one side only takes that side's value; only a
+ * field changed differently on both sides is a collision the user has to pick.
+ */
+
+import type { Event as EventRow } from '@prisma/client'
+import { resolveTimeZone, toUtcInstant } from '@/lib/timezone-utils'
+
+// Event columns kept in step with external calendars
+export interface SyncSnapshot {
+  title: string
+  description: string
+  startDateTime: string
+  endDateTime: string
+  timezone: string | null
+  location: string
+  isAllDay: boolean
+  status: string
+  participants: string[]
+}
+
+export type SyncField = 'title' | 'description' | 'time' | 'location' | 'status' | 'participants'
+
+// Start, end and all-day are merged as one field - a local reschedule combined with a remote
+// change of end time would give an event neither side asked for
+export const SYNC_FIELDS: Record<SyncField, (keyof SyncSnapshot)[]> = {
+  title: ['title'],
+  description: ['description'],
+  time: ['startDateTime', 'endDateTime', 'isAllDay', 'timezone'],
+  location: ['location'],
+  status: ['status'],
+  participants: ['participants']
+}
+
+export interface FieldCollision {
+  field: SyncField
+  base?: Partial<SyncSnapshot>
+  local: Partial<SyncSnapshot>
+  remote: Partial<SyncSnapshot>
+}
+
+export interface MergeResult {
+  merged: Partial<SyncSnapshot>
+  localChanges: Partial<SyncSnapshot>
+  remoteChanges: Partial<SyncSnapshot>
+  collisions: FieldCollision[]
+}
+
+// EventSync.conflictData while a collision waits for the user
+export interface SyncConflictData {
+  externalId: string
+  etag: string | null
+  base: Partial<SyncSnapshot> | null
+  remote: Partial<SyncSnapshot>
+  collisions: FieldCollision[]
+}
+
+// A parked conflict as listed for the user to resolve
+export interface SyncConflictSummary {
+  eventId: string
+  integrationId: string
+  provider: string
+  calendarName: string | null
+  title: string
+  startDateTime: string
+  remoteVersion: Date | string | null
+  collisions: FieldCollision[]
+}
+
+export type FieldPicks = Partial<Record<SyncField, 'local' | 'remote'>>
+
+/**
+ * Synced columns of a database event
+ */
+export function toSyncSnapshot(event: EventRow | SyncSnapshot): SyncSnapshot {
+  return {
+    title: event.title || '',
+    description: event.description || '',
+    startDateTime: event.startDateTime || '',
+    endDateTime: event.endDateTime || event.startDateTime || '',
+    timezone: event.timezone || null,
+    location: event.location || '',
+    isAllDay: !!event.isAllDay,
+    status: event.status || 'scheduled',
+    participants: Array.isArray(event.participants)
+      ? (event.participants as unknown[]).filter((participant): participant is string => typeof participant === 'string')
+      : []
+  }
+}
+
+/**
+ * EventSync.baseSnapshot / conflictData as stored - null for syncs recorded before snapshots were kept
+ */
+export function parseSyncSnapshot(value: unknown): Partial<SyncSnapshot> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Partial<SyncSnapshot> : null
+}
+
+export function parseSyncConflict(value: unknown): SyncConflictData | null {
+  const data = parseSyncSnapshot(value) as Partial<SyncConflictData> | null
+  return data && Array.isArray(data.collisions) && data.remote ? data as SyncConflictData : null
+}
+
+// Providers write the same value in different forms: times with or without an offset or in
+// another zone, attendees in any order, CRLF line endings
+function normalize(key: keyof SyncSnapshot, values: Partial<SyncSnapshot>): string {
+  const value = values[key]
+  if (key === 'participants') {
+    return (Array.isArray(value) ? value : []).map(email => String(email).trim().toLowerCase()).sort().join(',')
+  }
+  if (key === 'startDateTime' || key === 'endDateTime') {
+    const text = String(value ?? '')
+    if (!text || /^\d{4}-\d{2}-\d{2}$/.test(text)) return text
+    const instant = toUtcInstant(text, resolveTimeZone(values.timezone)).getTime()
+    return isNaN(instant) ? text : String(instant)
+  }
+  // Times are compared as instants, so the zone alone isn't a change
+  if (key === 'timezone') return ''
+  if (key === 'isAllDay') return String(!!value)
+  if (key === 'status') return String(value ?? '').toLowerCase()
+  return String(value ?? '').replace(/\r\n/g, '\n').trim()
+}
+
+function sameValues(a: Partial<SyncSnapshot>, b: Partial<SyncSnapshot>, keys: (keyof SyncSnapshot)[]): boolean {
+  return keys.every(key => normalize(key, a) === normalize(key, b))
+}
+
+// The zone is optional - providers without one (Notion) leave it to the event
+function hasValues(values: Partial<SyncSnapshot>, keys: (keyof SyncSnapshot)[]): boolean {
+  return keys.every(key => key === 'timezone' || values[key] !== undefined)
+}
+
+function pickValues(values: Partial<SyncSnapshot>, keys: (keyof SyncSnapshot)[]): Partial<SyncSnapshot> {
+  return Object.fromEntries(keys.map(key => [key, values[key]])) as Partial<SyncSnapshot>
+}
+
+/**
+ * Merge field by field. Only fields the remote side carries are merged (Notion has no location
+ * or attendees). Without a base snapshot nothing can be told apart, so every field the two sides
+ * disagree on is a collision.
+ */
+export function threeWayMerge(
+  base: Partial<SyncSnapshot> | null,
+  local: SyncSnapshot,
+  remote: Partial<SyncSnapshot>
+): MergeResult {
+  const result: MergeResult = { merged: {}, localChanges: {}, remoteChanges: {}, collisions: [] }
+
+  for (const [field, keys] of Object.entries(SYNC_FIELDS) as [SyncField, (keyof SyncSnapshot)[]][]) {
+    if (!hasValues(remote, keys)) continue
+
+    const localValues = pickValues(local, keys)
+    const remoteValues = pickValues(remote, keys)
+
+    if (sameValues(localValues, remoteValues, keys)) {
+      Object.assign(result.merged, localValues)
+      continue
+    }
+
+    const hasBase = !!base && hasValues(base, keys)
+    const localChanged = !hasBase || !sameValues(base, localValues, keys)
+    const remoteChanged = !hasBase || !sameValues(base, remoteValues, keys)
+
+    if (localChanged) Object.assign(result.localChanges, localValues)
+    if (remoteChanged) Object.assign(result.remoteChanges, remoteValues)
+
+    if (localChanged && remoteChanged) {
+      result.collisions.push({
+        field,
+        ...(hasBase && { base: pickValues(base, keys) }),
+        local: localValues,
+        remote: remoteValues
+      })
+      // Keep the local value until the user picks
+      Object.assign(result.merged, localValues)
+    } else {
+      Object.assign(result.merged, localChanged ? localValues : remoteValues)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Merged values with the user's pick for each collision - unpicked collisions keep the local value
+ */
+export function applyPicks(merge: MergeResult, picks: FieldPicks): Partial<SyncSnapshot> {
+  const resolved = { ...merge.merged }
+  for (const collision of merge.collisions) {
+    Object.assign(resolved, picks[collision.field] === 'remote' ? collision.remote : collision.local)
+  }
+  return resolved
+}
+
+/**
+ * Whether the remote copy already holds these values, i.e. nothing needs pushing back
+ */
+export function matchesRemote(values: Partial<SyncSnapshot>, remote: Partial<SyncSnapshot>): boolean {
+  const keys = (Object.keys(remote) as (keyof SyncSnapshot)[]).filter(key => values[key] !== undefined)
+  return sameValues(values, remote, keys)
+}
@@ -0,0 +1,97 @@
+// src/lib/sync-queue-worker.test.ts
+
+import { CalendarSyncService } from "./calendar-sync";
+import { getPrismaClient } from "./prisma";
+import { processSyncQueue } from "./sync-queue-worker";
+
+jest.mock("./prisma", () => ({ getPrismaClient: jest.fn() }));
+jest.mock("./calendar-sync", () => ({
+  CalendarSyncService: { pullFromIntegration: jest.fn() },
+  getRateLimit: jest.requireActual("./calendar-sync").getRateLimit,
+}));
+
+const pull = {
+  id: "item-1",
+  operation: "PULL_CHANGES",
+  integrationId: "integration-1",
+  payload: {},
+  status: "PENDING",
+  priority: 0,
+  retryCount: 0,
+  maxRetries: 5,
+  scheduledFor: new Date(),
+};
+
+function mockQueue() {
+  const tx = {
+    $executeRaw: jest.fn(async () => 1),
+    syncQueue: {
+      count: jest.fn(async () => 0),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+  };
+  const prisma = {
+    syncQueue: {
+      updateMany: jest.fn(async () => ({ count: 0 })),
+      findMany: jest.fn(async () => [pull]),
+      groupBy: jest.fn(async () => []),
+      update: jest.fn(async (args: { where: { id: string }; data: Record<string, unknown> }) => args),
+    },
+    $transaction: jest.fn(async (work: (client: typeof tx) => Promise<unknown>) => work(tx)),
+  };
+  (getPrismaClient as jest.Mock).mockReturnValue(prisma);
+  return prisma;
+}
+
+describe("Sync Queue Worker", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("should complete a pull that finished", async () => {
+    const prisma = mockQueue();
+    (CalendarSyncService.pullFromIntegration as jest.Mock).mockResolvedValue({ events: [], conflicts: [] });
+
+    const result = await processSyncQueue();
+
+    expect(result.succeeded).toBe(1);
+    expect(prisma.syncQueue.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: "COMPLETED" }) })
+    );
+  });
+
+  it("should retry a pull that stopped on an error", async () => {
+    const prisma = mockQueue();
+    (CalendarSyncService.pullFromIntegration as jest.Mock).mockResolvedValue({
+      events: [],
+      conflicts: [],
+      error: new Error("CalDAV server returned 500"),
+    });
+
+    const result = await processSyncQueue();
+
+    expect(result.retried).toBe(1);
+    expect(prisma.syncQueue.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "PENDING", retryCount: 1, lastError: "CalDAV server returned 500" }),
+      })
+    );
+  });
+
+  it("should wait out a rate limit on a pull without using a retry", async () => {
+    const prisma = mockQueue();
+    const throttled = Object.assign(new Error("Rate Limit Exceeded"), { status: 429, headers: { "retry-after": "120" } });
+    (CalendarSyncService.pullFromIntegration as jest.Mock).mockResolvedValue({ events: [], conflicts: [], error: throttled });
+
+    const before = Date.now();
+    const result = await processSyncQueue();
+
+    expect(result.rateLimited).toBe(1);
+    const { data } = prisma.syncQueue.update.mock.calls[0][0];
+    expect(data.retryCount).toBeUndefined();
+    expect((data.scheduledFor as Date).getTime()).toBeGreaterThanOrEqual(before + 120_000);
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Sync Queue Worker
+ * Retries calendar writes and pulls parked in SyncQueue. Run it from cron through
+ * POST /api/calendar/sync/queue, or long-running with `npm run sync:worker`.
+ *
+ * - Failed items are retried with exponential backoff plus jitter on scheduledFor
+ * - A provider rate limit isn't a failure: the item (and the rest of that integration's batch)
+ *   waits for Retry-After without using up a retry
+ * - At most `concurrencyPerIntegration` items per calendar run at once, across workers - claims
+ *   for one integration are serialized with a Postgres advisory lock and re-count in-flight items
+ * - Items out of retries move to DEAD_LETTER, where they can be inspected and replayed
+ */
+
+import type { SyncQueue } from '@prisma/client'
+import { getPrismaClient } from '@/lib/prisma'
+import { CalendarSyncService, getRateLimit } from '@/lib/calendar-sync'
+import { SYNC_FIELDS, type FieldPicks } from '@/lib/sync-merge'
+import type { UnifiedEvent } from '@/components/EventCreationModal'
+
+export interface SyncQueueOptions {
+  batchSize: number
+  concurrencyPerIntegration: number
+  baseDelayMs: number
+  maxDelayMs: number
+  staleAfterMs: number // PROCESSING items older than this belong to a worker that died
+}
+
+export const SYNC_QUEUE_DEFAULTS: SyncQueueOptions = {
+  batchSize: 25,
+  concurrencyPerIntegration: 2,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+  staleAfterMs: 10 * 60 * 1000
+}
+
+export interface SyncQueueRunResult {
+  processed: number
+  succeeded: number
+  retried: number
+  rateLimited: number
+  deadLettered: number
+  released: number // Stale PROCESSING items put back
+}
+
+type ItemOutcome = 'succeeded' | 'retried' | 'rateLimited' | 'deadLettered' | 'skipped'
+
+interface ItemResult {
+  success: boolean
+  error?: string
+  rateLimited?: boolean
+  retryAfterMs?: number
+}
+
+// Items without an integration (legacy pulls) share one lane
+const NO_INTEGRATION = 'none'
+
+/**
+ * Delay before the next attempt: base * 2^retryCount capped at maxDelayMs, with "equal
+ * jitter" - at least half the delay, so items that failed together don't retry together
+ */
+export function backoffDelay(
+  retryCount: number,
+  { baseDelayMs, maxDelayMs }: Pick<SyncQueueOptions, 'baseDelayMs' | 'maxDelayMs'> = SYNC_QUEUE_DEFAULTS
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, retryCount))
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2))
+}
+
+/**
+ * Process one batch of due items
+ */
+export async function processSyncQueue(overrides: Partial<SyncQueueOptions> = {}): Promise<SyncQueueRunResult> {
+  const options = { ...SYNC_QUEUE_DEFAULTS, ...overrides }
+  const result: SyncQueueRunResult = { processed: 0, succeeded: 0, retried: 0, rateLimited: 0, deadLettered: 0, released: 0 }
+
+  const prisma = getPrismaClient()
+  if (!prisma) return result
+
+  const released = await prisma.syncQueue.updateMany({
+    where: { status: 'PROCESSING', lockedAt: { lt: new Date(Date.now() - options.staleAfterMs) } },
+    data: { status: 'PENDING', lockedAt: null }
+  })
+  result.released = released.count
+
+  const dueItems = await prisma.syncQueue.findMany({
+    where: { status: 'PENDING', scheduledFor: { lte: new Date() } },
+    orderBy: [
+      { priority: 'desc' },
+      { scheduledFor: 'asc' }
+    ],
+    take: options.batchSize
+  })
+  if (dueItems.length === 0) return result
+
+  // Slots other workers already hold, per integration - only sizes the batch; runItem enforces the cap
+  const inFlight = await prisma.syncQueue.groupBy({
+    by: ['integrationId'],
+    where: { status: 'PROCESSING' },
+    _count: true
+  })
+  const busy = new Map(inFlight.map(({ integrationId, _count }) => [integrationId || NO_INTEGRATION, _count]))
+
+  const lanes = new Map<string, SyncQueue[]>()
+  for (const item of dueItems) {
+    const lane = item.integrationId || NO_INTEGRATION
+    lanes.set(lane, [...(lanes.get(lane) || []), item])
+  }
+
+  // Integrations run side by side; within one, at most `slots` items at a time
+  await Promise.all([...lanes.entries()].map(async ([lane, items]) => {
+    const slots = Math.max(0, options.concurrencyPerIntegration - (busy.get(lane) || 0))
+    if (slots === 0) return
+
+    for (let index = 0; index < items.length; index += slots) {
+      const outcomes = await Promise.all(items.slice(index, index + slots).map(item => runItem(item, options)))
+      // Another worker took the free slots since we counted - leave the rest for a later run
+      if (outcomes.every(outcome => outcome === 'skipped')) break
+
+      for (const outcome of outcomes) {
+        if (outcome === 'skipped') continue
+        result.processed++
+        result[outcome]++
+      }
+
+      // The provider is throttling this calendar - the rest of its batch waits as well
+      const rateLimit = outcomes.includes('rateLimited')
+      if (rateLimit && lane !== NO_INTEGRATION) {
+        const waiting = items.slice(index + slots).map(item => item.id)
+        if (waiting.length > 0) {
+          await prisma.syncQueue.updateMany({
+            where: { id: { in: waiting }, status: 'PENDING' },
+            data: { scheduledFor: new Date(Date.now() + backoffDelay(0, options)) }
+          })
+        }
+        break
+      }
+    }
+  }))
+
+  return result
+}
+
+/**
+ * Claim, run and reschedule one item
+ */
+async function runItem(item: SyncQueue, options: SyncQueueOptions): Promise<ItemOutcome> {
+  const prisma = getPrismaClient()!
+
+  // Another worker may have taken it, or filled the integration's slots, since we read the batch.
+  // The transaction-scoped advisory lock makes the count and the claim atomic per integration.
+  const claimed = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`sync-queue:${item.integrationId || NO_INTEGRATION}`}))`
+
+    const inFlight = await tx.syncQueue.count({
+      where: { status: 'PROCESSING', integrationId: item.integrationId }
+    })
+    if (inFlight >= options.concurrencyPerIntegration) return 0
+
+    const { count } = await tx.syncQueue.updateMany({
+      where: { id: item.id, status: 'PENDING' },
+      data: { status: 'PROCESSING', lockedAt: new Date() }
+    })
+    return count
+  })
+  if (claimed === 0) return 'skipped'
+
+  let outcome: ItemResult
+  try {
+    outcome = await executeItem(item)
+  } catch (error) {
+    console.error('📅 [SyncQueue] Error processing item:', item.id, error)
+    outcome = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...getRateLimit(error)
+    }
+  }
+
+  if (outcome.success) {
+    await prisma.syncQueue.update({
+      where: { id: item.id },
+      data: { status: 'COMPLETED', processedAt: new Date(), lockedAt: null, lastError: null }
+    })
+    return 'succeeded'
+  }
+
+  if (outcome.rateLimited) {
+    await prisma.syncQueue.update({
+      where: { id: item.id },
+      data: {
+        status: 'PENDING',
+        lockedAt: null,
+        lastError: outcome.error || 'Rate limited',
+        scheduledFor: new Date(Date.now() + (outcome.retryAfterMs ?? backoffDelay(item.retryCount, options)))
+      }
+    })
+    console.warn(`📅 [SyncQueue] Rate limited on ${item.integrationId}, item ${item.id} deferred`)
+    return 'rateLimited'
+  }
+
+  const retryCount = item.retryCount + 1
+  if (retryCount >= item.maxRetries) {
+    await prisma.syncQueue.update({
+      where: { id: item.id },
+      data: {
+        status: 'DEAD_LETTER',
+        retryCount,
+        lockedAt: null,
+        processedAt: new Date(),
+        lastError: outcome.error || 'Max retries exceeded'
+      }
+    })
+    console.warn(`📅 [SyncQueue] Item ${item.id} (${item.operation}) moved to dead letter after ${retryCount} attempt(s)`)
+    return 'deadLettered'
+  }
+
+  await prisma.syncQueue.update({
+    where: { id: item.id },
+    data: {
+      status: 'PENDING',
+      retryCount,
+      lockedAt: null,
+      lastError: outcome.error || null,
+      scheduledFor: new Date(Date.now() + backoffDelay(item.retryCount, options))
+    }
+  })
+  return 'retried'
+}
+
+// SyncQueue.payload by operation: the event for pushes, an optional range for a pull across every
+// calendar, and the event and picks for a conflict resolution
+type SyncQueuePayload = Partial<UnifiedEvent> & {
+  startDate?: string
+  endDate?: string
+  eventId?: string
+  resolution?: 'local' | 'remote' | FieldPicks
+}
+
+async function executeItem(item: SyncQueue): Promise<ItemResult> {
+  const payload = (item.payload || {}) as SyncQueuePayload
+
+  switch (item.operation) {
+    case 'CREATE_EVENT':
+    case 'UPDATE_EVENT':
+    case 'DELETE_EVENT': {
+      if (!payload.id) {
+        return { success: false, error: 'Invalid event sync payload' }
+      }
+      const event = payload as UnifiedEvent
+      const operation = item.operation === 'CREATE_EVENT' ? 'create' : item.operation === 'UPDATE_EVENT' ? 'update' : 'delete'
+
+      // Items queued before writes were tracked per integration go to every calendar
+      if (!item.integrationId) {
+        const results = await CalendarSyncService.pushEventToExternalCalendars(event, operation, { trigger: 'queue' })
+        return { success: results.some(result => result.success), error: results.find(result => result.error)?.error }
+      }
+
+      const result = await CalendarSyncService.pushEventToIntegration(event, item.integrationId, operation)
+      return {
+        // A conflict is parked for the user, not retried
+        success: result.success || !!result.conflict,
+        error: result.error,
+        rateLimited: result.rateLimited,
+        retryAfterMs: result.retryAfterMs
+      }
+    }
+
+    case 'PULL_CHANGES': {
+      const result = item.integrationId
+        ? await CalendarSyncService.pullFromIntegration(item.integrationId, { trigger: 'queue' })
+        : await CalendarSyncService.pullEventsFromExternalCalendars(
+          payload.startDate ? new Date(payload.startDate) : undefined,
+          payload.endDate ? new Date(payload.endDate) : undefined,
+          'queue'
+        )
+      // The pull journals its own failure and returns what it got - retry it like a failed push
+      if (result.error !== undefined) {
+        return {
+          success: false,
+          error: result.error instanceof Error ? result.error.message : String(result.error),
+          ...getRateLimit(result.error)
+        }
+      }
+      return { success: true }
+    }
+
+    case 'RESOLVE_CONFLICT': {
+      const { eventId, resolution } = payload
+      if (!eventId) {
+        return { success: false, error: 'Invalid conflict resolution payload' }
+      }
+
+      // Resolution strategies:
+      // - 'local': Keep local version of every colliding field
+      // - 'remote': Keep remote version of every colliding field
+      // - { title: 'remote', time: 'local', ... }: Pick per field
+      // Fields changed on one side only are merged either way
+      const picks: FieldPicks = typeof resolution === 'string'
+        ? Object.fromEntries(Object.keys(SYNC_FIELDS).map(field => [field, resolution]))
+        : resolution || {}
+
+      const event = await CalendarSyncService.resolveSyncConflict(eventId, item.integrationId!, picks)
+      return event ? { success: true } : { success: false, error: 'No open sync conflict for this event' }
+    }
+
+    default:
+      // PUSH_CHANGES has no handler yet - it ends up in the dead letter for a person to look at
+      return { success: false, error: `Unsupported operation ${item.operation}` }
+  }
+}
+
+/**
+ * Put dead-lettered items back in the queue with fresh retries
+ */
+export async function replayDeadLetters(ids: string[]): Promise<number> {
+  const prisma = getPrismaClient()
+  if (!prisma || ids.length === 0) return 0
+
+  const replayed = await prisma.syncQueue.updateMany({
+    where: { id: { in: ids }, status: 'DEAD_LETTER' },
+    data: {
+      status: 'PENDING',
+      retryCount: 0,
+      scheduledFor: new Date(),
+      processedAt: null,
+      lockedAt: null
+    }
+  })
+  return replayed.count
+}
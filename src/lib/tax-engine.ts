@@ -0,0 +1,229 @@
+// src/lib/tax-engine.ts
+// Canadian sales tax engine - HST/GST/PST/QST by province with exempt service types and
+// per-client exemptions. Pure functions so it can run in the browser (QuoteModal) and on the server.
+import {
+  DEFAULT_TAX_CONFIG,
+  SmallSupplierStatus,
+  TaxComponent,
+  TaxConfig,
+  TaxJurisdiction,
+  TaxLine,
+  TaxProfile
+} from '../types/billing';
+import { Client } from '../types/client';
+import { resolveServiceLineId } from './service-email-config';
+
+export const SMALL_SUPPLIER_THRESHOLD = 30000; // CAD over four consecutive calendar quarters
+export const SMALL_SUPPLIER_WARNING_RATIO = 0.8; // Warn once paid revenue reaches 80% of the threshold
+
+const GST: TaxComponent = { code: 'GST', name: 'GST', rate: 0.05 };
+const hst = (rate: number): TaxComponent[] => [{ code: 'HST', name: 'HST', rate }];
+
+// Rates as of 2025 (Nova Scotia HST dropped to 14% on April 1, 2025). PST/QST are charged on the
+// pre-GST price, not compounded.
+export const TAX_PROFILES: Record<TaxJurisdiction, TaxProfile> = {
+  AB: { jurisdiction: 'AB', name: 'Alberta', components: [GST] },
+  BC: { jurisdiction: 'BC', name: 'British Columbia', components: [GST, { code: 'PST', name: 'PST', rate: 0.07 }] },
+  MB: { jurisdiction: 'MB', name: 'Manitoba', components: [GST, { code: 'PST', name: 'RST', rate: 0.07 }] },
+  NB: { jurisdiction: 'NB', name: 'New Brunswick', components: hst(0.15) },
+  NL: { jurisdiction: 'NL', name: 'Newfoundland and Labrador', components: hst(0.15) },
+  NS: { jurisdiction: 'NS', name: 'Nova Scotia', components: hst(0.14) },
+  NT: { jurisdiction: 'NT', name: 'Northwest Territories', components: [GST] },
+  NU: { jurisdiction: 'NU', name: 'Nunavut', components: [GST] },
+  ON: { jurisdiction: 'ON', name: 'Ontario', components: hst(0.13) },
+  PE: { jurisdiction: 'PE', name: 'Prince Edward Island', components: hst(0.15) },
+  QC: { jurisdiction: 'QC', name: 'Quebec', components: [GST, { code: 'QST', name: 'QST', rate: 0.09975 }] },
+  SK: { jurisdiction: 'SK', name: 'Saskatchewan', components: [GST, { code: 'PST', name: 'PST', rate: 0.06 }] },
+  YT: { jurisdiction: 'YT', name: 'Yukon', components: [GST] }
+};
+
+// Province names and common spellings found in client addresses
+const JURISDICTION_ALIASES: Record<string, TaxJurisdiction> = {
+  'alberta': 'AB',
+  'british columbia': 'BC',
+  'manitoba': 'MB',
+  'new brunswick': 'NB',
+  'newfoundland': 'NL',
+  'newfoundland and labrador': 'NL',
+  'nova scotia': 'NS',
+  'northwest territories': 'NT',
+  'nunavut': 'NU',
+  'ontario': 'ON',
+  'prince edward island': 'PE',
+  'pei': 'PE',
+  'quebec': 'QC',
+  'québec': 'QC',
+  'que': 'QC',
+  'saskatchewan': 'SK',
+  'yukon': 'YT',
+  'nfld': 'NL'
+};
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export function parseJurisdiction(value?: string | null): TaxJurisdiction | undefined {
+  if (!value) return undefined;
+  const normalized = value.trim().toLowerCase().replace(/\./g, '');
+  const code = normalized.toUpperCase();
+  if (code in TAX_PROFILES) return code as TaxJurisdiction;
+  return JURISDICTION_ALIASES[normalized];
+}
+
+export function getTaxProfile(jurisdiction: TaxJurisdiction, config: TaxConfig = DEFAULT_TAX_CONFIG): TaxProfile {
+  const profile = TAX_PROFILES[jurisdiction];
+  const override = config.profiles?.[jurisdiction];
+  return override ? { ...profile, components: override } : profile;
+}
+
+// Tax is charged at the rate of the province where the service is supplied - the client's
+// address - unless billingInfo pins a different province
+export function resolveTaxJurisdiction(
+  client?: Pick<Client, 'address' | 'billingInfo'> | null,
+  config: TaxConfig = DEFAULT_TAX_CONFIG
+): TaxJurisdiction {
+  return parseJurisdiction(client?.billingInfo?.taxJurisdiction) ||
+    parseJurisdiction(client?.address?.state) ||
+    config.jurisdiction;
+}
+
+function matchesServiceType(serviceType: string, entries: string[]): boolean {
+  const normalized = serviceType.toLowerCase().replace(/-/g, '_');
+  const serviceLine = resolveServiceLineId(normalized);
+  return entries.some(entry => {
+    const candidate = entry.toLowerCase().replace(/-/g, '_');
+    return candidate === normalized || (!!serviceLine && candidate === serviceLine);
+  });
+}
+
+function clientExemption(
+  client: Pick<Client, 'id' | 'billingInfo'> | null | undefined,
+  config: TaxConfig
+): string | undefined {
+  if (!client) return undefined;
+  if (!client.billingInfo?.taxExempt && !config.exemptClientIds.includes(client.id)) return undefined;
+
+  const { taxExemptionReason, taxExemptionNumber } = client.billingInfo || {};
+  return `Client tax exempt${taxExemptionReason ? ` - ${taxExemptionReason}` : ''}${taxExemptionNumber ? ` (#${taxExemptionNumber})` : ''}`;
+}
+
+// Why a line isn't taxed, or undefined when it is
+export function getTaxExemptReason(
+  serviceType: string | undefined,
+  client: Pick<Client, 'id' | 'billingInfo'> | null | undefined,
+  config: TaxConfig = DEFAULT_TAX_CONFIG
+): string | undefined {
+  const exemption = clientExemption(client, config);
+  if (exemption) return exemption;
+  if (!serviceType) return undefined;
+  if (matchesServiceType(serviceType, config.exemptServiceTypes)) return 'Tax-exempt service';
+  if (config.applicableServices.length > 0 && !matchesServiceType(serviceType, config.applicableServices)) {
+    return 'Not a taxable service';
+  }
+  return undefined;
+}
+
+export interface TaxableItem {
+  serviceType?: string;
+  totalPrice: number;
+  taxable?: boolean; // Defaults to true (quote items don't carry the flag)
+}
+
+export interface TaxCalculation<T> {
+  items: Array<T & { taxes: TaxLine[]; taxExemptReason?: string }>;
+  taxBreakdown: TaxLine[];
+  taxAmount: number;
+  jurisdiction: TaxJurisdiction;
+}
+
+/**
+ * Calculate per-line and total taxes. Nothing is charged while the business is not registered
+ * (small supplier); lines flagged taxable=false are skipped silently; exempt services and clients
+ * get a taxExemptReason so the document can say why.
+ */
+export function calculateTaxes<T extends TaxableItem>(
+  items: T[],
+  options: {
+    client?: Pick<Client, 'id' | 'address' | 'billingInfo'> | null;
+    config?: TaxConfig;
+    businessRegistered: boolean;
+  }
+): TaxCalculation<T> {
+  const config = options.config || DEFAULT_TAX_CONFIG;
+  const jurisdiction = resolveTaxJurisdiction(options.client, config);
+  const { components } = getTaxProfile(jurisdiction, config);
+  const totals = new Map<string, TaxLine>();
+
+  const taxedItems = items.map(item => {
+    if (!options.businessRegistered || item.taxable === false) {
+      return { ...item, taxes: [] as TaxLine[] };
+    }
+
+    const taxExemptReason = getTaxExemptReason(item.serviceType, options.client, config);
+    if (taxExemptReason) {
+      return { ...item, taxes: [] as TaxLine[], taxExemptReason };
+    }
+
+    const taxes = components.map(component => ({
+      code: component.code,
+      name: component.name,
+      rate: component.rate,
+      taxableAmount: roundCents(item.totalPrice),
+      amount: roundCents(item.totalPrice * component.rate)
+    }));
+
+    for (const tax of taxes) {
+      const key = `${tax.code}:${tax.name}`;
+      const total = totals.get(key);
+      if (total) {
+        total.taxableAmount = roundCents(total.taxableAmount + tax.taxableAmount);
+        total.amount = roundCents(total.amount + tax.amount);
+      } else {
+        totals.set(key, { ...tax });
+      }
+    }
+
+    return { ...item, taxes };
+  });
+
+  const taxBreakdown = Array.from(totals.values());
+  return {
+    items: taxedItems,
+    taxBreakdown,
+    taxAmount: roundCents(taxBreakdown.reduce((sum, tax) => sum + tax.amount, 0)),
+    jurisdiction
+  };
+}
+
+// "HST (13%)", "QST (9.975%)"
+export function formatTaxLabel(tax: Pick<TaxLine, 'name' | 'rate'>): string {
+  return `${tax.name} (${parseFloat((tax.rate * 100).toFixed(3))}%)`;
+}
+
+export function evaluateSmallSupplier(
+  revenue: number,
+  window: { start: Date; end: Date },
+  isRegistered: boolean
+): SmallSupplierStatus {
+  const percentOfThreshold = roundCents((revenue / SMALL_SUPPLIER_THRESHOLD) * 100);
+  const level: SmallSupplierStatus['level'] = revenue > SMALL_SUPPLIER_THRESHOLD
+    ? 'exceeded'
+    : revenue >= SMALL_SUPPLIER_THRESHOLD * SMALL_SUPPLIER_WARNING_RATIO ? 'approaching' : 'ok';
+
+  let message: string | undefined;
+  if (!isRegistered && level === 'exceeded') {
+    message = `Paid revenue of $${revenue.toFixed(2)} over the last four quarters is above the $30,000 small supplier threshold. GST/HST registration is required - you must start charging tax on the supply that put you over.`;
+  } else if (!isRegistered && level === 'approaching') {
+    message = `Paid revenue is at ${percentOfThreshold}% of the $30,000 small supplier threshold ($${(SMALL_SUPPLIER_THRESHOLD - revenue).toFixed(2)} remaining). Plan for GST/HST registration.`;
+  }
+
+  return {
+    threshold: SMALL_SUPPLIER_THRESHOLD,
+    revenue: roundCents(revenue),
+    windowStart: window.start,
+    windowEnd: window.end,
+    percentOfThreshold,
+    level,
+    isRegistered,
+    message
+  };
+}
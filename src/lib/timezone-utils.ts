@@ -50,4 +50,144 @@ export const getStartOfLocalToday = (): Date => {
 export const getEndOfLocalToday = (): Date => {
   const today = createLocalDate()
   return new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999)
-}
\ No newline at end of file
+}
+// ===== IANA TIME ZONES =====
+// Event times are stored as wall-clock strings ("2025-03-01T09:00:00") with the IANA zone they are
+// in (Event.timezone). Keeping the wall-clock time rather than an instant is what holds a 9:00
+// appointment at 9:00 across DST changes. Events without a zone are in their owner's zone
+// (Participant.timezone), and failing that in DEFAULT_TIMEZONE.
+
+export const DEFAULT_TIMEZONE = 'America/Toronto'
+
+/**
+ * Whether a string is an IANA time zone the runtime knows
+ * @param timeZone - Zone name, e.g. "America/Vancouver"
+ */
+export const isValidTimeZone = (timeZone?: string | null): timeZone is string => {
+  if (!timeZone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The first valid zone of the candidates (event, user, calendar, ...), or DEFAULT_TIMEZONE
+ */
+export const resolveTimeZone = (...candidates: (string | null | undefined)[]): string => {
+  return candidates.find(isValidTimeZone) || DEFAULT_TIMEZONE
+}
+
+/**
+ * The signed-in user's zone: the Account Settings preference, else the browser's zone.
+ * On the server there is no user to ask, so it's DEFAULT_TIMEZONE.
+ */
+export const getUserTimeZone = (): string => {
+  if (typeof window === 'undefined') return DEFAULT_TIMEZONE
+  try {
+    const settings = JSON.parse(localStorage.getItem('account-settings') || '{}')
+    return resolveTimeZone(settings?.preferences?.timezone, Intl.DateTimeFormat().resolvedOptions().timeZone)
+  } catch {
+    return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone)
+  }
+}
+
+const hasOffset = (value: string) => /(Z|[+-]\d{2}:?\d{2})$/.test(value)
+const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+/**
+ * Offset of a time zone from UTC at a given instant, in minutes
+ */
+export const timeZoneOffsetMinutes = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant)
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'))
+  return Math.round((asUtc - instant.getTime()) / 60000)
+}
+
+/**
+ * Convert a wall-clock time in a time zone to the UTC instant it names
+ */
+export const zonedTimeToUtc = (
+  parts: { year: number; month: number; day: number; hour: number; minute: number; second: number },
+  timeZone: string
+): Date => {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  // Two passes settle the offset on either side of a DST change
+  let offset = timeZoneOffsetMinutes(new Date(wallClock), timeZone)
+  offset = timeZoneOffsetMinutes(new Date(wallClock - offset * 60000), timeZone)
+  return new Date(wallClock - offset * 60000)
+}
+
+/**
+ * Wall-clock time ("YYYY-MM-DDTHH:MM:SS") of an event time in a zone.
+ * Times without an offset are already wall-clock; dates are returned unchanged.
+ */
+export const toWallClock = (value: string, timeZone = DEFAULT_TIMEZONE): string => {
+  if (isDateOnly(value)) return value
+  if (!hasOffset(value)) {
+    const [date, time = '00:00:00'] = value.split('T')
+    return `${date}T${time.slice(0, 8).padEnd(8, ':00')}`
+  }
+
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(value))
+  const part = (type: string) => parts.find(candidate => candidate.type === type)?.value || '00'
+  return `${part('year')}-${part('month')}-${part('day')}T${part('hour')}:${part('minute')}:${part('second')}`
+}
+
+/**
+ * UTC instant of an event time; wall-clock times are read in the given zone
+ */
+export const toUtcInstant = (value: string, timeZone = DEFAULT_TIMEZONE): Date => {
+  if (hasOffset(value)) return new Date(value)
+  const [year, month, day, hour = 0, minute = 0, second = 0] = value.split(/[-T:]/).map(Number)
+  return zonedTimeToUtc({ year, month, day, hour, minute, second }, timeZone)
+}
+
+/**
+ * The same moment as wall-clock time in another zone, e.g. to show a Vancouver event on a
+ * Toronto calendar. Dates (all-day events) don't move between zones.
+ * @param value - Wall-clock time in fromZone, or a time with an offset
+ */
+export const convertWallClock = (value: string, fromZone: string, toZone: string): string => {
+  if (!value || isDateOnly(value) || (fromZone === toZone && !hasOffset(value))) return value
+  return toWallClock(toUtcInstant(value, fromZone).toISOString(), toZone)
+}
+
+/**
+ * An event as calendar views draw it: times in the viewer's zone. Events without a zone of
+ * their own are already in the user's zone and are returned unchanged.
+ * @param viewerTimeZone - Zone the calendar is shown in (the user's zone)
+ */
+export const toViewerTimeZone = <T extends { startDateTime: string; endDateTime?: string; timezone?: string }>(
+  event: T,
+  viewerTimeZone = getUserTimeZone()
+): T => {
+  if (!event.timezone || event.timezone === viewerTimeZone) return event
+  return {
+    ...event,
+    startDateTime: convertWallClock(event.startDateTime, event.timezone, viewerTimeZone),
+    endDateTime: event.endDateTime && convertWallClock(event.endDateTime, event.timezone, viewerTimeZone),
+    timezone: viewerTimeZone
+  }
+}
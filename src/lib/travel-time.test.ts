@@ -0,0 +1,69 @@
+// src/lib/travel-time.test.ts
+
+import { createGoogleDistanceProvider, estimateTravelMatrix, registerDistanceProvider, type GeoPoint } from "./travel-time";
+
+// 30 sites about a kilometre apart along a line
+const sites: GeoPoint[] = Array.from({ length: 30 }, (_, index) => ({ lat: 43.6 + index * 0.01, lng: -79.4 }));
+
+function distanceMatrixResponse(url: string) {
+  const params = new URL(url).searchParams;
+  const origins = params.get("origins")!.split("|");
+  const destinations = params.get("destinations")!.split("|");
+  return {
+    ok: true,
+    json: async () => ({
+      status: "OK",
+      rows: origins.map(() => ({
+        elements: destinations.map(() => ({ status: "OK", duration: { value: 600 }, distance: { value: 5000 } })),
+      })),
+    }),
+  };
+}
+
+describe("Travel Time", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async (url: string) => distanceMatrixResponse(url));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    registerDistanceProvider(createGoogleDistanceProvider("test-key"));
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    registerDistanceProvider(null);
+    jest.restoreAllMocks();
+  });
+
+  describe("estimateTravelMatrix", () => {
+    it("should batch every pair into Distance Matrix requests within Google's limits", async () => {
+      const matrix = await estimateTravelMatrix(sites, sites);
+
+      // 30×30 in blocks of 4 origins × 25 destinations
+      expect(fetchMock).toHaveBeenCalledTimes(16);
+      for (const [url] of fetchMock.mock.calls) {
+        const params = new URL(url).searchParams;
+        const origins = params.get("origins")!.split("|").length;
+        const destinations = params.get("destinations")!.split("|").length;
+        expect(origins).toBeLessThanOrEqual(25);
+        expect(destinations).toBeLessThanOrEqual(25);
+        expect(origins * destinations).toBeLessThanOrEqual(100);
+      }
+      expect(matrix[3][20]).toEqual({ minutes: 15, distanceKm: 5, source: "google" });
+      expect(matrix[7][7]).toEqual({ minutes: 0, distanceKm: 0, source: "google" });
+    });
+
+    it("should fall back to the local model only for pairs in a failed request", async () => {
+      fetchMock.mockImplementationOnce(async () => ({ ok: false, status: 500, json: async () => ({}) }));
+
+      const matrix = await estimateTravelMatrix(sites, sites);
+
+      expect(matrix[0][1].source).toBe("haversine");
+      expect(matrix[3][24].source).toBe("haversine");
+      expect(matrix[0][25].source).toBe("google");
+      expect(matrix[4][1].source).toBe("google");
+    });
+  });
+});
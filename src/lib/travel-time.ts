@@ -0,0 +1,226 @@
+/**
+ * Travel time between job sites
+ * Crews drive between properties, so the gap between two field jobs has to cover the drive.
+ * Drive times come from a pluggable distance provider (Google Distance Matrix when
+ * GOOGLE_MAPS_API_KEY is set); when there is none, or it fails, a local model estimates them
+ * from the straight-line (haversine) distance.
+ *
+ * The haversine model has no server dependencies, so the browser-side ConflictDetector uses it
+ * directly.
+ */
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+export interface TravelEstimate {
+  minutes: number
+  distanceKm: number
+  source: string // Provider that produced it, e.g. 'google' or 'haversine'
+}
+
+export interface DistanceProvider {
+  name: string
+  /**
+   * Drive from one point to another, leaving at departAt (providers may use it for traffic)
+   */
+  estimate(from: GeoPoint, to: GeoPoint, departAt?: Date): Promise<TravelEstimate>
+  /**
+   * Drives from every origin to every destination (rows follow origins) in as few requests as
+   * the provider allows. A null cell is a pair it couldn't estimate. Optional - without it,
+   * pairs are estimated one at a time.
+   */
+  estimateMatrix?(origins: GeoPoint[], destinations: GeoPoint[], departAt?: Date): Promise<(TravelEstimate | null)[][]>
+}
+
+// Local model: roads are ~30% longer than the straight line, crews average 40 km/h between
+// residential properties, and every stop costs a few minutes to park and unload
+const ROAD_FACTOR = 1.3
+const AVERAGE_SPEED_KMH = 40
+const STOP_OVERHEAD_MINUTES = 5
+const EARTH_RADIUS_KM = 6371
+
+// Closer than this is the same property - no drive
+const SAME_SITE_KM = 0.1
+
+// Distance Matrix takes at most 25 origins and 25 destinations, and 100 elements, per request
+const MATRIX_MAX_SIDE = 25
+const MATRIX_MAX_ELEMENTS = 100
+const DISTANCE_MATRIX_TIMEOUT_MS = 10000
+
+interface DistanceMatrixElement {
+  status: string
+  duration: { value: number } // Seconds
+  duration_in_traffic?: { value: number }
+  distance: { value: number } // Metres
+}
+
+export const isGeoPoint = (value: unknown): value is GeoPoint =>
+  !!value && typeof value === 'object' &&
+  Number.isFinite((value as GeoPoint).lat) && Number.isFinite((value as GeoPoint).lng)
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+export const isSameSite = (from: GeoPoint, to: GeoPoint): boolean => haversineKm(from, to) < SAME_SITE_KM
+
+/**
+ * Drive time from the straight-line distance and an average speed
+ */
+export function estimateByHaversine(from: GeoPoint, to: GeoPoint): TravelEstimate {
+  const straightKm = haversineKm(from, to)
+  if (straightKm < SAME_SITE_KM) return { minutes: 0, distanceKm: 0, source: 'haversine' }
+
+  const distanceKm = straightKm * ROAD_FACTOR
+  return {
+    minutes: Math.ceil(distanceKm / AVERAGE_SPEED_KMH * 60 + STOP_OVERHEAD_MINUTES),
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    source: 'haversine'
+  }
+}
+
+export const haversineProvider: DistanceProvider = {
+  name: 'haversine',
+  estimate: async (from, to) => estimateByHaversine(from, to)
+}
+
+/**
+ * Google Distance Matrix - real road network and, with a departure time, traffic
+ */
+export function createGoogleDistanceProvider(apiKey: string): DistanceProvider {
+  const request = async (origins: GeoPoint[], destinations: GeoPoint[], departAt?: Date) => {
+    const params = new URLSearchParams({
+      origins: origins.map(point => `${point.lat},${point.lng}`).join('|'),
+      destinations: destinations.map(point => `${point.lat},${point.lng}`).join('|'),
+      mode: 'driving',
+      key: apiKey
+    })
+    // Traffic only applies to future departures
+    if (departAt && departAt.getTime() > Date.now()) {
+      params.set('departure_time', String(Math.floor(departAt.getTime() / 1000)))
+    }
+
+    const response = await fetch(`https://maps.googleapis.com/maps/api/distancematrix/json?${params}`, {
+      signal: AbortSignal.timeout(DISTANCE_MATRIX_TIMEOUT_MS)
+    })
+    if (!response.ok) throw new Error(`Distance Matrix request failed: ${response.status}`)
+
+    const data = await response.json()
+    if (data.status !== 'OK') throw new Error(`Distance Matrix returned ${data.status}`)
+    return data.rows as { elements: DistanceMatrixElement[] }[]
+  }
+
+  const toEstimate = (element?: DistanceMatrixElement): TravelEstimate | null => {
+    if (element?.status !== 'OK') return null
+    const seconds = element.duration_in_traffic?.value ?? element.duration.value
+    return {
+      minutes: Math.ceil(seconds / 60) + STOP_OVERHEAD_MINUTES,
+      distanceKm: Math.round(element.distance.value / 100) / 10,
+      source: 'google'
+    }
+  }
+
+  return {
+    name: 'google',
+    async estimate(from, to, departAt) {
+      if (isSameSite(from, to)) return { minutes: 0, distanceKm: 0, source: 'google' }
+
+      const rows = await request([from], [to], departAt)
+      const element = rows?.[0]?.elements?.[0]
+      const estimate = toEstimate(element)
+      if (!estimate) throw new Error(`Distance Matrix returned ${element?.status || 'no result'}`)
+      return estimate
+    },
+
+    async estimateMatrix(origins, destinations, departAt) {
+      const cells = origins.map(from => destinations.map(to =>
+        isSameSite(from, to) ? { minutes: 0, distanceKm: 0, source: 'google' } as TravelEstimate | null : null
+      ))
+
+      const destinationChunk = Math.min(MATRIX_MAX_SIDE, destinations.length)
+      const originChunk = Math.min(MATRIX_MAX_SIDE, Math.floor(MATRIX_MAX_ELEMENTS / Math.max(1, destinationChunk)))
+
+      for (let i = 0; i < origins.length; i += originChunk) {
+        for (let j = 0; j < destinations.length; j += destinationChunk) {
+          try {
+            const rows = await request(origins.slice(i, i + originChunk), destinations.slice(j, j + destinationChunk), departAt)
+            rows.forEach((row, rowIndex) => row.elements.forEach((element, columnIndex) => {
+              const cell = cells[i + rowIndex]
+              if (cell && !cell[j + columnIndex]) cell[j + columnIndex] = toEstimate(element)
+            }))
+          } catch (error) {
+            // Only this block's pairs fall back to the local model
+            console.warn('🚚 [TravelTime] Distance Matrix block failed:', error instanceof Error ? error.message : error)
+          }
+        }
+      }
+      return cells
+    }
+  }
+}
+
+let registeredProvider: DistanceProvider | null = null
+
+/**
+ * Use another distance provider (e.g. a routing service the business already pays for)
+ */
+export function registerDistanceProvider(provider: DistanceProvider | null): void {
+  registeredProvider = provider
+}
+
+export function getDistanceProvider(): DistanceProvider {
+  if (registeredProvider) return registeredProvider
+  const apiKey = typeof process !== 'undefined' ? process.env.GOOGLE_MAPS_API_KEY : undefined
+  return apiKey ? createGoogleDistanceProvider(apiKey) : haversineProvider
+}
+
+/**
+ * Drive time between two points from the distance provider, falling back to the local model
+ */
+export async function estimateTravelTime(from: GeoPoint, to: GeoPoint, departAt?: Date): Promise<TravelEstimate> {
+  const provider = getDistanceProvider()
+  if (provider === haversineProvider) return estimateByHaversine(from, to)
+
+  try {
+    return await provider.estimate(from, to, departAt)
+  } catch (error) {
+    console.warn(`🚚 [TravelTime] ${provider.name} failed, using the local estimate:`, error instanceof Error ? error.message : error)
+    return estimateByHaversine(from, to)
+  }
+}
+
+/**
+ * Drive times from every origin to every destination (rows follow origins), batched when the
+ * provider supports it. Pairs the provider couldn't estimate get the local model.
+ */
+export async function estimateTravelMatrix(
+  origins: GeoPoint[],
+  destinations: GeoPoint[],
+  departAt?: Date
+): Promise<TravelEstimate[][]> {
+  const provider = getDistanceProvider()
+  if (provider === haversineProvider) {
+    return origins.map(from => destinations.map(to => estimateByHaversine(from, to)))
+  }
+  if (!provider.estimateMatrix) {
+    return Promise.all(origins.map(from => Promise.all(destinations.map(to => estimateTravelTime(from, to, departAt)))))
+  }
+
+  let rows: (TravelEstimate | null)[][] = []
+  try {
+    rows = await provider.estimateMatrix(origins, destinations, departAt)
+  } catch (error) {
+    console.warn(`🚚 [TravelTime] ${provider.name} matrix failed, using the local estimate:`, error instanceof Error ? error.message : error)
+  }
+  return origins.map((from, i) => destinations.map((to, j) => rows[i]?.[j] ?? estimateByHaversine(from, to)))
+}
@@ -0,0 +1,49 @@
+/**
+ * Weather feed
+ * Snowfall reports that storms are imported from. There is no live provider yet: the fixture
+ * feed replays the reports in fixtures/snowfall-reports.json, and a real service plugs in with
+ * registerWeatherFeed().
+ */
+
+import fixtureReports from '@/lib/fixtures/snowfall-reports.json'
+
+export interface SnowfallReport {
+  externalId: string // Stable id of the report at the source - re-imports update it
+  startedAt: string // ISO time with offset
+  endedAt?: string
+  accumulationCm: number
+  iceRisk: boolean // Freezing rain or drizzle - salting is needed even without much snow
+  temperatureC?: number
+  description?: string
+}
+
+export interface WeatherFeed {
+  name: string
+  /**
+   * Snowfall that started in a time range
+   */
+  getSnowfall(from: Date, to: Date): Promise<SnowfallReport[]>
+}
+
+export const fixtureWeatherFeed: WeatherFeed = {
+  name: 'fixture',
+  async getSnowfall(from, to) {
+    return (fixtureReports as SnowfallReport[]).filter(report => {
+      const startedAt = new Date(report.startedAt)
+      return startedAt >= from && startedAt <= to
+    })
+  }
+}
+
+let registeredFeed: WeatherFeed | null = null
+
+/**
+ * Use a live weather service instead of the fixture feed
+ */
+export function registerWeatherFeed(feed: WeatherFeed | null): void {
+  registeredFeed = feed
+}
+
+export function getWeatherFeed(): WeatherFeed {
+  return registeredFeed || fixtureWeatherFeed
+}
@@ -40,6 +40,15 @@ const publicRoutes = [
   '/api/auth',
   '/api/health',
   '/api/testimonials/submit', // Public endpoint for clients to submit testimonials
+  '/api/billing/quotes/respond', // Public endpoint for clients to accept/decline quotes
+  '/api/calendar/feed/', // ICS subscription feeds (the secret token in the URL is the credential)
+];
+
+// Routes that are only public for some methods. Providers deliver notifications without a session,
+// but registering or removing a subscription on the same path still needs an admin.
+const publicMethodRoutes: Array<{ route: string; methods: string[] }> = [
+  { route: '/api/calendar/webhooks/outlook', methods: ['POST'] }, // Graph change notifications (verified by clientState)
+  { route: '/api/calendar/webhooks/google', methods: ['POST', 'GET'] }, // Push notifications (channel token) and cron renewal (CRON_SECRET)
 ];
 
 // Login routes that need stricter rate limiting
@@ -186,6 +195,8 @@ export async function middleware(request: NextRequest) {
   // Allow public routes
   const isPublicRoute = publicRoutes.some(route =>
     pathname.startsWith(route)
+  ) || publicMethodRoutes.some(({ route, methods }) =>
+    pathname.startsWith(route) && methods.includes(request.method)
   );
 
   if ((!isProtectedApiRoute && !isProtectedPageRoute) || isPublicRoute) {
@@ -283,6 +294,6 @@ export async function middleware(request: NextRequest) {
 export const config = {
   matcher: [
     '/api/:path*',
-    '/((?!auth|testimonials/submit|_next/static|_next/image|favicon.ico).*)',
+    '/((?!auth|testimonials/submit|quotes/accept|_next/static|_next/image|favicon.ico).*)',
   ],
 };
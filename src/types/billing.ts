@@ -8,6 +8,8 @@ export interface Receipt {
   items: ReceiptItem[];
   subtotal: number;
   taxAmount: number;
+  taxBreakdown?: TaxLine[]; // Per-tax totals, e.g. GST 5% + PST 7%
+  taxJurisdiction?: TaxJurisdiction;
   totalAmount: number;
   paymentMethod: 'cash' | 'card' | 'e-transfer' | 'check' | 'other';
   paymentDate: Date;
@@ -34,6 +36,8 @@ export interface ReceiptItem {
   totalPrice: number;
   taxable: boolean;
   billingMode?: 'quantity' | 'hours'; // Optional: defaults to 'quantity'
+  taxes?: TaxLine[]; // Calculated per-line tax breakdown
+  taxExemptReason?: string; // Set when a taxable line was not taxed (exempt service/client)
 }
 
 export interface Invoice {
@@ -45,15 +49,20 @@ export interface Invoice {
   items: InvoiceItem[];
   subtotal: number;
   taxAmount: number;
+  taxBreakdown?: TaxLine[];
+  taxJurisdiction?: TaxJurisdiction;
   totalAmount: number;
   dueDate: Date;
   paymentTerms: 'net15' | 'net30' | 'net45' | 'due_on_receipt';
-  status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+  status: 'draft' | 'sent' | 'partial' | 'paid' | 'overdue' | 'cancelled';
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
   paidAt?: Date;
-  receiptId?: string; // Link to receipt when paid
+  receiptId?: string; // Link to receipt when paid (latest payment's receipt for partial payments)
+  payments?: Payment[]; // Payment ledger entries applied to this invoice
+  amountPaid?: number;
+  balanceDue?: number;
 }
 
 export interface InvoiceItem {
@@ -66,6 +75,8 @@ export interface InvoiceItem {
   totalPrice: number;
   taxable: boolean;
   billingMode?: 'quantity' | 'hours'; // Optional: defaults to 'quantity'
+  taxes?: TaxLine[]; // Calculated per-line tax breakdown
+  taxExemptReason?: string; // Set when a taxable line was not taxed (exempt service/client)
 }
 
 export interface BillingSuggestion {
@@ -97,6 +108,397 @@ export interface CreateInvoiceData {
   notes?: string;
 }
 
+// Payment ledger
+export type PaymentMethod = Receipt['paymentMethod'];
+
+export interface Payment {
+  id: string;
+  clientId: string;
+  billingDocumentId?: string;
+  billingRecordId?: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  paidAt: Date;
+  reference?: string; // e-Transfer reference, cheque number, etc.
+  notes?: string;
+  receiptId?: string; // Receipt issued for this payment
+  receiptNumber?: string;
+  createdAt: Date;
+}
+
+export interface RecordPaymentData {
+  billingDocumentId?: string; // One of billingDocumentId / billingRecordId is required
+  billingRecordId?: string;
+  amount: number;
+  method: PaymentMethod;
+  paidAt?: Date;
+  reference?: string;
+  notes?: string;
+  issueReceipt?: boolean; // Defaults to true - one receipt per payment
+}
+
+export interface PaymentLedger {
+  targetType: 'billing_document' | 'billing_record';
+  targetId: string;
+  documentNumber?: string;
+  clientId: string;
+  totalAmount: number;
+  amountPaid: number;
+  amountCredited: number; // Credit notes issued against this invoice
+  balanceDue: number;
+  status: 'DRAFT' | 'SENT' | 'PARTIAL_PAYMENT' | 'PAID' | 'OVERDUE' | 'CANCELLED';
+  payments: Payment[];
+}
+
+// Recurring billing schedules generated from ClientServiceContract
+export type BillingCadence = 'weekly' | 'bi_weekly' | 'monthly' | 'seasonal';
+
+// Optional overrides stored under ClientServiceContract.billingDetails.schedule
+export interface BillingScheduleConfig {
+  cadence?: BillingCadence;
+  amountPerInvoice?: number; // Defaults to contractValue split across the contract term
+  instalments?: number; // Seasonal only - defaults to one per month of the season
+  paymentTermsDays?: number; // Defaults to 30
+  enabled?: boolean; // Set false to keep a contract out of scheduled billing
+}
+
+// Storm dispatch settings for White Knight contracts, stored under ClientServiceContract.billingDetails.snow
+export interface SnowDispatchConfig {
+  triggerCm?: number; // Plowing accumulation threshold - defaults to 5 cm
+  saltTriggerCm?: number; // Salting threshold - defaults to 1 cm; ice risk always triggers salting
+  salting?: boolean; // A Snow Removal contract that includes salting (also read from its service list)
+  perVisitRate?: number; // Set for contracts billed per visit - each visit is invoiced at this rate
+  saltPerVisitRate?: number; // Salting rate when it differs from perVisitRate
+  priority?: number; // Dispatch tier, 1 first (hospitals, commercial lots) - defaults to 3
+  visitMinutes?: number; // Time on site for a plow visit - defaults to 45
+}
+
+export interface ScheduledInvoice {
+  scheduleKey: string;
+  contractId: string;
+  clientId: string;
+  clientName?: string;
+  serviceName: string;
+  cadence: BillingCadence;
+  billingPeriod: string; // e.g. "March 2025", "Winter 2024-2025 - Instalment 2 of 4"
+  periodStart: Date;
+  periodEnd: Date;
+  billingDate: Date;
+  dueDate: Date;
+  amount: number;
+  instalment?: number;
+  instalments?: number;
+  isDue: boolean; // billingDate is on or before the run/preview date
+  alreadyInvoiced: boolean;
+}
+
+export interface BillingScheduleRunResult {
+  asOf: Date;
+  dryRun: boolean;
+  contractsProcessed: number;
+  created: Array<ScheduledInvoice & { billingRecordId?: string; invoiceNumber?: string }>;
+  skipped: Array<{ contractId: string; scheduleKey?: string; reason: string }>;
+  errors: Array<{ contractId: string; error: string }>;
+}
+
+// Dunning - overdue detection and the payment reminder ladder
+export interface DunningConfig {
+  reminderOffsets: number[]; // Days relative to the due date: -3 = three days before, 7 = a week late
+  remindAfterPartialPayment: boolean; // By default the ladder stops as soon as any payment is recorded
+}
+
+export const DEFAULT_DUNNING_CONFIG: DunningConfig = {
+  reminderOffsets: [-3, 0, 7, 14, 30],
+  remindAfterPartialPayment: false
+};
+
+export interface DunningTarget {
+  targetType: 'billing_document' | 'billing_record';
+  targetId: string;
+  documentNumber: string;
+  clientId: string;
+  dueDate: Date;
+}
+
+export interface DunningRunResult {
+  asOf: Date;
+  dryRun: boolean;
+  markedOverdue: DunningTarget[];
+  remindersSent: Array<DunningTarget & { stage: number; amountDue: number; recipient: string }>;
+  skipped: Array<{ targetId: string; reason: string }>;
+  errors: Array<{ targetId: string; error: string }>;
+}
+
+// Credit notes - reverse all or part of an issued invoice or receipt (CRN-2025-001)
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string; // CRN-2025-001
+  clientId: string;
+  client: Client;
+  originalDocumentType: 'invoice' | 'receipt';
+  originalDocumentId: string;
+  originalDocumentNumber: string;
+  items: CreditNoteItem[];
+  subtotal: number;
+  taxAmount: number;
+  taxBreakdown?: TaxLine[];
+  taxJurisdiction?: TaxJurisdiction;
+  totalAmount: number; // Positive - revenue reports treat credit notes as negative
+  reason: string;
+  refundMethod?: PaymentMethod; // Set when money was paid back rather than credited to the account
+  issueDate: Date;
+  status: 'issued' | 'void';
+  emailSentAt?: Date;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreditNoteItem {
+  id: string;
+  originalItemId: string;
+  description: string;
+  serviceType: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  taxes?: TaxLine[]; // Reverses the tax charged on the original line, pro rata
+}
+
+export interface CreateCreditNoteData {
+  originalDocumentType: CreditNote['originalDocumentType'];
+  originalDocumentId: string;
+  // Lines to credit; omit to credit everything still creditable. Each line credits either a
+  // quantity of the original line or a flat amount - defaults to the full remaining line.
+  lines?: Array<{ itemId: string; quantity?: number; amount?: number }>;
+  reason: string;
+  refundMethod?: PaymentMethod;
+  issueDate?: Date;
+  notes?: string;
+}
+
+// Accounting export - QuickBooks (IIF or journal CSV) and Xero (manual journal CSV) files
+export type AccountingExportFormat = 'quickbooks_iif' | 'quickbooks_csv' | 'xero_csv';
+export type AccountingTransactionType = 'invoice' | 'credit_note' | 'refund' | 'payment' | 'receipt';
+
+export interface AccountRef {
+  code: string; // Xero imports by account code
+  name: string; // QuickBooks imports by account name
+}
+
+export interface AccountMapping {
+  incomeAccounts: Record<string, AccountRef>; // Service line slug -> income account
+  defaultIncomeAccount: AccountRef; // Lines we can't tie to a service line
+  taxAccounts: Record<TaxComponent['code'], AccountRef>;
+  accountsReceivable: AccountRef;
+  depositAccount: AccountRef; // Where payments and paid-at-time-of-service receipts land, and refunds are paid from
+}
+
+export const DEFAULT_ACCOUNT_MAPPING: AccountMapping = {
+  incomeAccounts: {
+    woodgreen: { code: '200', name: 'Landscaping Income' },
+    whiteknight: { code: '201', name: 'Snow Removal Income' },
+    pupawalk: { code: '202', name: 'Pet Care Income' },
+    creative: { code: '203', name: 'Creative Services Income' }
+  },
+  defaultIncomeAccount: { code: '260', name: 'Other Income' },
+  taxAccounts: {
+    HST: { code: '820', name: 'HST Payable' },
+    GST: { code: '821', name: 'GST Payable' },
+    PST: { code: '822', name: 'PST Payable' },
+    QST: { code: '823', name: 'QST Payable' }
+  },
+  accountsReceivable: { code: '610', name: 'Accounts Receivable' },
+  depositAccount: { code: '090', name: 'Undeposited Funds' }
+};
+
+// One side of a balanced journal entry - debit positive, credit negative
+export interface AccountingPosting {
+  account: AccountRef;
+  amount: number;
+  description: string;
+  serviceLine?: string; // Service line name - QuickBooks class / Xero tracking option
+  taxCode?: TaxComponent['code'];
+}
+
+export interface AccountingTransaction {
+  type: AccountingTransactionType;
+  sourceId: string;
+  number: string;
+  date: Date;
+  dueDate?: Date;
+  clientId: string;
+  clientName: string;
+  total: number;
+  appliesTo?: string; // Invoice number a payment is applied to, or the document a credit/refund is for
+  paymentMethod?: PaymentMethod;
+  postings: AccountingPosting[]; // postings[0] is the AR / deposit side
+}
+
+export interface AccountingExportResult {
+  format: AccountingExportFormat;
+  from: Date;
+  to: Date;
+  filename: string;
+  contentType: string;
+  content: string;
+  counts: Record<AccountingTransactionType, number>;
+  warnings: string[];
+}
+
+// Document numbering - [PREFIX-]TYPE-YYYY-NNN, one sequence per type, year and prefix
+export type DocumentNumberType = 'REC' | 'INV' | 'QUO' | 'CRN';
+
+export interface NumberingConfig {
+  useServiceLinePrefixes: boolean; // WK-INV-2025-001 instead of INV-2025-001
+  serviceLinePrefixes: Record<string, string>; // Service line slug -> prefix
+  padding: number; // Minimum digits in the sequence part
+}
+
+export const DEFAULT_NUMBERING_CONFIG: NumberingConfig = {
+  useServiceLinePrefixes: false,
+  serviceLinePrefixes: {
+    whiteknight: 'WK',
+    woodgreen: 'WG',
+    pupawalk: 'PW',
+    creative: 'ES'
+  },
+  padding: 3
+};
+
+export interface ParsedDocumentNumber {
+  prefix: string; // "" when the number has no service line prefix
+  documentType: string;
+  year: number;
+  sequence: number;
+}
+
+export interface DocumentNumberOccurrence {
+  number: string;
+  source: 'billing_document' | 'billing_record' | 'receipt_document';
+  id: string;
+}
+
+export interface DocumentNumberSeriesAudit {
+  series: string; // e.g. "WK-INV-2025"
+  prefix: string;
+  documentType: string;
+  year: number;
+  count: number;
+  highest: number;
+  sequenceLastValue?: number; // Counter in DocumentNumberSequence, if the series has one
+  gaps: Array<{ from: number; to: number }>; // Missing sequence numbers, as inclusive ranges
+  duplicates: Array<{ number: string; occurrences: DocumentNumberOccurrence[] }>;
+  counterBehind: boolean; // Counter is below numbers already issued - the next allocation would collide
+}
+
+export interface DocumentNumberAuditReport {
+  generatedAt: Date;
+  year?: number;
+  series: DocumentNumberSeriesAudit[];
+  unrecognized: DocumentNumberOccurrence[]; // Numbers that don't follow the [PREFIX-]TYPE-YYYY-NNN format
+  totals: { numbers: number; gaps: number; duplicates: number };
+}
+
+// Job costing - expenses recorded against jobs, contracts and service lines
+export type ExpenseCategory =
+  | 'MATERIALS'
+  | 'SALT'
+  | 'FUEL'
+  | 'EQUIPMENT'
+  | 'SUBCONTRACTOR'
+  | 'LABOUR'
+  | 'DISPOSAL'
+  | 'OTHER';
+
+export interface ExpenseReceipt {
+  dataUrl: string; // data: URL or external URL
+  fileName?: string;
+  mimeType?: string;
+}
+
+export interface Expense {
+  id: string;
+  clientId?: string;
+  serviceRecordId?: string;
+  contractId?: string;
+  serviceLineId?: string;
+  category: ExpenseCategory;
+  amount: number;
+  currency: string;
+  quantity?: number;
+  unit?: string;
+  vendor?: string;
+  description?: string;
+  incurredAt: Date;
+  hasReceipt: boolean;
+  receiptFileName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateExpenseData {
+  serviceRecordId?: string;
+  contractId?: string;
+  serviceLineId?: string; // ServiceLine id or slug
+  category: ExpenseCategory;
+  amount: number;
+  quantity?: number;
+  unit?: string;
+  vendor?: string;
+  description?: string;
+  incurredAt?: Date | string;
+  receipt?: ExpenseReceipt;
+}
+
+export interface ExpenseFilters {
+  clientId?: string;
+  serviceRecordId?: string;
+  contractId?: string;
+  serviceLineId?: string;
+  category?: ExpenseCategory;
+  from?: Date;
+  to?: Date;
+}
+
+export interface MarginFigures {
+  revenue: number;
+  expenses: number;
+  grossMargin: number; // revenue - expenses
+  marginPercent: number | null; // null when there is no revenue to divide by
+  expensesByCategory: Partial<Record<ExpenseCategory, number>>;
+}
+
+export interface JobMargin extends MarginFigures {
+  serviceRecordId: string;
+  serviceDate: Date;
+  serviceType: string;
+  clientId: string;
+  clientName: string;
+  serviceLine?: string; // Service line slug
+}
+
+export interface ClientMargin extends MarginFigures {
+  clientId: string;
+  clientName: string;
+}
+
+export interface ServiceLineMargin extends MarginFigures {
+  serviceLine: string; // Service line slug, or "unassigned"
+  name: string;
+}
+
+export interface MarginReport {
+  from: Date;
+  to: Date;
+  totals: MarginFigures;
+  byJob: JobMargin[];
+  byClient: ClientMargin[];
+  byServiceLine: ServiceLineMargin[];
+  unallocatedExpenses: number; // Expenses in the period with no client, job, contract or service line
+}
+
 // Import Client type from existing types
 import { Client } from './client';
 
@@ -136,10 +538,50 @@ export interface BillingAnalytics {
 }
 
 // Tax configuration
+export type TaxJurisdiction =
+  | 'AB' | 'BC' | 'MB' | 'NB' | 'NL' | 'NS' | 'NT' | 'NU' | 'ON' | 'PE' | 'QC' | 'SK' | 'YT';
+
+export interface TaxComponent {
+  code: 'HST' | 'GST' | 'PST' | 'QST';
+  name: string; // e.g. "HST", "PST (BC)"
+  rate: number; // e.g. 0.05
+}
+
+export interface TaxProfile {
+  jurisdiction: TaxJurisdiction;
+  name: string; // e.g. "Ontario"
+  components: TaxComponent[];
+}
+
+export interface TaxLine {
+  code: TaxComponent['code'];
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
 export interface TaxConfig {
-  rate: number; // e.g., 0.13 for 13% HST in Ontario
+  rate: number; // Combined rate of the default jurisdiction, e.g., 0.13 for 13% HST in Ontario
   name: string; // e.g., "HST"
-  applicableServices: string[];
+  applicableServices: string[]; // Service types / service lines tax applies to (empty = all)
+  jurisdiction: TaxJurisdiction; // Used when the client's province is unknown
+  exemptServiceTypes: string[]; // Zero-rated / exempt service types, e.g. 'basic_groceries'
+  exemptClientIds: string[]; // Clients with a tax exemption on file (see also client.billingInfo.taxExempt)
+  profiles?: Partial<Record<TaxJurisdiction, TaxComponent[]>>; // Rate overrides per province
+}
+
+// Small supplier status - GST/HST registration is required once taxable revenue exceeds
+// $30,000 over four consecutive calendar quarters
+export interface SmallSupplierStatus {
+  threshold: number;
+  revenue: number; // Paid revenue in the rolling four-quarter window
+  windowStart: Date;
+  windowEnd: Date;
+  percentOfThreshold: number;
+  level: 'ok' | 'approaching' | 'exceeded';
+  isRegistered: boolean;
+  message?: string;
 }
 
 // Business Configuration
@@ -164,7 +606,16 @@ export const DEFAULT_BUSINESS_CONFIG: BusinessConfig = {
 export const DEFAULT_TAX_CONFIG: TaxConfig = {
   rate: 0.13, // 13% HST for Ontario, Canada
   name: "HST",
+  jurisdiction: 'ON',
+  exemptServiceTypes: [],
+  exemptClientIds: [],
   applicableServices: [
+    // Service lines
+    'woodgreen',
+    'whiteknight',
+    'pupawalk',
+    'creative',
+    // Service types
     'landscaping',
     'snow_removal',
     'hair_cutting',
@@ -188,6 +639,8 @@ export interface Quote {
   items: QuoteItem[];
   subtotal: number;
   taxAmount: number; // Will be 0 for unregistered business
+  taxBreakdown?: TaxLine[];
+  taxJurisdiction?: TaxJurisdiction;
   totalAmount: number;
   taxStatus: 'applicable' | 'not_applicable';
   businessRegistered: boolean;
@@ -203,6 +656,48 @@ export interface Quote {
   acceptedAt?: Date;
   declinedAt?: Date;
   convertedToInvoiceId?: string;
+  acceptanceOptions?: QuoteAcceptanceOptions; // Set up automatically when the client accepts online
+  response?: QuoteResponse; // Signed acceptance / decline from the public quote page
+}
+
+export interface QuoteAcceptanceOptions {
+  createInvoice: boolean;
+  createContract: boolean; // ClientServiceContract for the quoted service line
+}
+
+export interface QuoteResponse {
+  decision: 'accepted' | 'declined';
+  signatureName: string; // Typed e-signature
+  signedAt: Date;
+  ipAddress?: string;
+  userAgent?: string;
+  declineReason?: string;
+}
+
+// What the client sees on the public quote page - no internal ids or notes
+export interface PublicQuoteView {
+  quoteNumber: string;
+  businessName: string;
+  clientName: string;
+  items: Array<Pick<QuoteItem, 'description' | 'quantity' | 'unitPrice' | 'totalPrice'>>;
+  subtotal: number;
+  taxBreakdown?: TaxLine[];
+  taxAmount: number;
+  totalAmount: number;
+  validUntil: Date;
+  projectScope?: string;
+  estimatedDuration?: string;
+  terms?: string;
+  status: Quote['status'];
+  response?: Pick<QuoteResponse, 'decision' | 'signatureName' | 'signedAt'>;
+}
+
+export interface QuoteResponseResult {
+  quote: Quote;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  contractId?: string;
+  errors: string[]; // Follow-up steps that failed - the response itself is still recorded
 }
 
 export interface QuoteItem {
@@ -215,6 +710,8 @@ export interface QuoteItem {
   estimatedHours?: number; // For hourly services
   materialsIncluded: boolean;
   notes?: string;
+  taxes?: TaxLine[];
+  taxExemptReason?: string;
 }
 
 export interface CreateQuoteData {
@@ -228,3 +725,15 @@ export interface CreateQuoteData {
   estimatedDuration?: string;
   businessRegistered?: boolean;
 }
+
+// Error types
+export class BillingError extends Error {
+  constructor(
+    message: string,
+    public code: 'VALIDATION' | 'NOT_FOUND' | 'CONFLICT',
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'BillingError';
+  }
+}
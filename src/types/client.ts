@@ -52,7 +52,7 @@ export interface Client {
     state?: string;
     zip?: string;
     country?: string;
-    coordinates?: { lat: number; lng: number };
+    coordinates?: { lat: number; lng: number; geocodedFrom?: string }; // geocodedFrom: the address text they were looked up from
   };
 
   // Service-specific metadata
@@ -74,6 +74,20 @@ export interface Client {
     canReceiveTexts: boolean;
     autoInvoicing: boolean; // Whether they can receive auto-generated invoices
     autoReceipts: boolean; // Whether they can receive auto-generated receipts
+    availableDays?: number[]; // Preferred days for visits, 0 (Sunday) - 6
+    availableHours?: {
+      start: string; // "09:00"
+      end: string; // "17:00"
+    };
+  };
+
+  // Billing details (stored as ClientRecord.billingInfo)
+  billingInfo?: {
+    email?: string; // Billing contact, if different from the client's email
+    taxExempt?: boolean; // e.g. status Indian / diplomatic / exempt organisation
+    taxExemptionNumber?: string;
+    taxExemptionReason?: string;
+    taxJurisdiction?: string; // Province code to tax at when it differs from the service address
   };
 
   // Personal information
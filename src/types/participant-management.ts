@@ -10,6 +10,7 @@ export interface Participant {
   email?: string;
   phone?: string;
   company?: string;
+  timezone?: string; // IANA zone, e.g. 'America/Toronto'
   role: ParticipantRole;
   services: ServiceType[];
   contactPreferences?: ContactPreferences;
@@ -341,6 +342,7 @@ export interface AvailabilityRequest {
   endDate: string;
   duration: number; // minutes
   service?: ServiceType;
+  slotInterval?: number; // minutes between slot starts (default 60)
 }
 
 export interface AvailabilityResponse {
@@ -360,6 +362,68 @@ export interface AppointmentConflict {
   };
 }
 
+// When work can be booked - from FollowUpConfiguration, or these defaults when there is none
+export interface BusinessHours {
+  start: string; // "09:00"
+  end: string;   // "17:00"
+  workingDays: number[]; // 0=Sunday, 6=Saturday
+  timezone: string;
+  travelBufferMinutes: number; // kept clear before and after every job for the crew to drive
+}
+
+// FollowUpConfiguration.serviceConfigurations - per Prisma ServiceType, plus a default travel buffer
+export interface ServiceConfiguration {
+  name?: string;
+  durationMinutes?: number;
+  bookable?: boolean; // false keeps it off the public booking page
+  travelBufferMinutes?: number;
+}
+
+export type ServiceConfigurations = Partial<Record<string, ServiceConfiguration>> & { travelBufferMinutes?: number };
+
+// Public self-service booking (/book/[serviceLine])
+export interface BookableService {
+  serviceType: string; // Prisma ServiceType, e.g. 'LAWN_MOWING'
+  name: string;
+  duration: number; // minutes
+}
+
+export interface PublicBookingView {
+  serviceLine: string;
+  businessName: string;
+  description: string;
+  timezone: string;
+  services: BookableService[];
+}
+
+export interface PublicBookingRequest {
+  serviceType: string;
+  startTime: string; // ISO string, one of the offered slots
+  name: string;
+  email: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+}
+
+export interface PublicBookingConfirmation {
+  appointmentId: string;
+  serviceName: string;
+  startTime: string;
+  endTime: string;
+  timezone: string;
+}
+
+export class BookingError extends Error {
+  constructor(
+    message: string,
+    public code: 'VALIDATION' | 'NOT_FOUND' | 'CONFLICT'
+  ) {
+    super(message);
+    this.name = 'BookingError';
+  }
+}
+
 // Notification Templates and Configuration
 export interface NotificationTemplate {
   id: string;